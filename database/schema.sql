@@ -15,16 +15,89 @@ CREATE TABLE IF NOT EXISTS reports_cache (
     expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
     total_regards DECIMAL(36, 18) NOT NULL DEFAULT 0,
     confirmation_count INTEGER NOT NULL DEFAULT 0,
+    stake_amount DECIMAL(36, 18) NOT NULL DEFAULT 0,
     tx_hash VARCHAR(66) NOT NULL,
+    block_number BIGINT NOT NULL DEFAULT 0,
+    status_block BIGINT,
+    -- block of the ReportExpired / ReportSlashed event that set the status
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Columns added for the chain indexer (for databases created before it)
+ALTER TABLE reports_cache ADD COLUMN IF NOT EXISTS stake_amount DECIMAL(36, 18) NOT NULL DEFAULT 0;
+ALTER TABLE reports_cache ADD COLUMN IF NOT EXISTS block_number BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE reports_cache ADD COLUMN IF NOT EXISTS status_block BIGINT;
+
+-- Geohash of a location, for the route-corridor spatial index
+-- (frontend/src/lib/corridor/geohash.ts computes the same hashes)
+CREATE OR REPLACE FUNCTION geohash_encode(lat DOUBLE PRECISION, lng DOUBLE PRECISION, len INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+    alphabet CONSTANT TEXT := '0123456789bcdefghjkmnpqrstuvwxyz';
+    lat_lo DOUBLE PRECISION := -90;
+    lat_hi DOUBLE PRECISION := 90;
+    lng_lo DOUBLE PRECISION := -180;
+    lng_hi DOUBLE PRECISION := 180;
+    mid DOUBLE PRECISION;
+    bits INTEGER := 0;
+    bit INTEGER := 0;
+    even BOOLEAN := TRUE;
+    hash TEXT := '';
+BEGIN
+    WHILE length(hash) < len LOOP
+        IF even THEN
+            mid := (lng_lo + lng_hi) / 2;
+            IF lng >= mid THEN
+                bits := bits * 2 + 1;
+                lng_lo := mid;
+            ELSE
+                bits := bits * 2;
+                lng_hi := mid;
+            END IF;
+        ELSE
+            mid := (lat_lo + lat_hi) / 2;
+            IF lat >= mid THEN
+                bits := bits * 2 + 1;
+                lat_lo := mid;
+            ELSE
+                bits := bits * 2;
+                lat_hi := mid;
+            END IF;
+        END IF;
+        even := NOT even;
+        bit := bit + 1;
+        IF bit = 5 THEN
+            hash := hash || substr(alphabet, bits + 1, 1);
+            bits := 0;
+            bit := 0;
+        END IF;
+    END LOOP;
+    RETURN hash;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE reports_cache ADD COLUMN IF NOT EXISTS geohash VARCHAR(12)
+    GENERATED ALWAYS AS (geohash_encode(location_lat::DOUBLE PRECISION, location_lng::DOUBLE PRECISION, 9)) STORED;
+
 -- Create indexes for efficient geo-queries
 CREATE INDEX IF NOT EXISTS idx_reports_geo ON reports_cache (location_lat, location_lng);
 CREATE INDEX IF NOT EXISTS idx_reports_time ON reports_cache (created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_reports_status ON reports_cache (status);
 CREATE INDEX IF NOT EXISTS idx_reports_expires ON reports_cache (expires_at);
 CREATE INDEX IF NOT EXISTS idx_reports_commitment ON reports_cache (reporter_commitment);
+CREATE INDEX IF NOT EXISTS idx_reports_block ON reports_cache (block_number);
+CREATE INDEX IF NOT EXISTS idx_reports_geohash ON reports_cache (geohash);
+
+-- Where PostGIS is installed (CREATE EXTENSION postgis, then re-run this
+-- file), corridor queries use a GiST index on the location instead
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'postgis') THEN
+        EXECUTE 'CREATE INDEX IF NOT EXISTS idx_reports_location_gist ON reports_cache USING GIST '
+            '((ST_SetSRID(ST_MakePoint(location_lng::DOUBLE PRECISION, location_lat::DOUBLE PRECISION), 4326)::geography))';
+    END IF;
+END
+$$;
 
 -- Function to update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -48,11 +121,20 @@ CREATE TABLE IF NOT EXISTS confirmations (
     chain_report_id BIGINT NOT NULL REFERENCES reports_cache(chain_report_id),
     confirmer_address VARCHAR(42) NOT NULL,
     tx_hash VARCHAR(66) NOT NULL,
+    block_number BIGINT NOT NULL DEFAULT 0,
+    log_index INTEGER NOT NULL DEFAULT 0,
+    -- the report was CONFIRMED on-chain at the end of this block
+    report_confirmed BOOLEAN NOT NULL DEFAULT FALSE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
     UNIQUE(chain_report_id, confirmer_address)
 );
 
+ALTER TABLE confirmations ADD COLUMN IF NOT EXISTS block_number BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE confirmations ADD COLUMN IF NOT EXISTS log_index INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE confirmations ADD COLUMN IF NOT EXISTS report_confirmed BOOLEAN NOT NULL DEFAULT FALSE;
+
 CREATE INDEX IF NOT EXISTS idx_confirmations_report ON confirmations (chain_report_id);
+CREATE INDEX IF NOT EXISTS idx_confirmations_block ON confirmations (block_number);
 
 -- Regards (tips) table
 CREATE TABLE IF NOT EXISTS regards (
@@ -61,11 +143,265 @@ CREATE TABLE IF NOT EXISTS regards (
     sender_address VARCHAR(42) NOT NULL,
     amount DECIMAL(36, 18) NOT NULL,
     tx_hash VARCHAR(66) NOT NULL,
+    block_number BIGINT NOT NULL DEFAULT 0,
+    log_index INTEGER NOT NULL DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
 );
 
+ALTER TABLE regards ADD COLUMN IF NOT EXISTS block_number BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE regards ADD COLUMN IF NOT EXISTS log_index INTEGER NOT NULL DEFAULT 0;
+
 CREATE INDEX IF NOT EXISTS idx_regards_report ON regards (chain_report_id);
 CREATE INDEX IF NOT EXISTS idx_regards_sender ON regards (sender_address);
+CREATE INDEX IF NOT EXISTS idx_regards_block ON regards (block_number);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_regards_log ON regards (tx_hash, log_index);
+
+-- Reward claims table (RewardsClaimed events)
+CREATE TABLE IF NOT EXISTS reward_claims (
+    id SERIAL PRIMARY KEY,
+    commitment VARCHAR(66) NOT NULL,
+    recipient_address VARCHAR(42) NOT NULL,
+    amount DECIMAL(36, 18) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_claims_commitment ON reward_claims (commitment);
+CREATE INDEX IF NOT EXISTS idx_reward_claims_block ON reward_claims (block_number);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_reward_claims_log ON reward_claims (tx_hash, log_index);
+
+-- Confirmations and regards for reports not in reports_cache yet (e.g. ones
+-- submitted before INDEXER_START_BLOCK), applied once the report row is written
+CREATE TABLE IF NOT EXISTS indexer_pending_events (
+    kind VARCHAR(16) NOT NULL CHECK (kind IN ('confirmation', 'regards')),
+    chain_report_id BIGINT NOT NULL,
+    -- confirmer or regards sender
+    address VARCHAR(42) NOT NULL,
+    amount DECIMAL(36, 18),
+    report_confirmed BOOLEAN NOT NULL DEFAULT FALSE,
+    tx_hash VARCHAR(66) NOT NULL,
+    block_number BIGINT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_pending_events_report ON indexer_pending_events (chain_report_id);
+CREATE INDEX IF NOT EXISTS idx_indexer_pending_events_block ON indexer_pending_events (block_number);
+
+-- Indexer checkpoint (last fully processed block)
+CREATE TABLE IF NOT EXISTS indexer_state (
+    name VARCHAR(64) PRIMARY KEY,
+    last_block BIGINT NOT NULL,
+    last_block_hash VARCHAR(66) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Nonces seen by the signed ingestion API (replay protection)
+CREATE TABLE IF NOT EXISTS ingest_nonces (
+    nonce VARCHAR(128) PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_nonces_created ON ingest_nonces (created_at);
+
+-- Proof-of-work challenges already solved for the relay (replay protection),
+-- kept until they expire
+CREATE TABLE IF NOT EXISTS relay_pow_challenges (
+    challenge VARCHAR(128) PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_relay_pow_challenges_expires ON relay_pow_challenges (expires_at);
+
+-- Relay job queue (reports waiting to be broadcast by the relayer wallet)
+CREATE TABLE IF NOT EXISTS relay_jobs (
+    id VARCHAR(64) PRIMARY KEY,
+    payload JSONB NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'submitted', 'confirmed', 'failed')),
+    nonce INTEGER,
+    gas_price NUMERIC(78, 0),
+    tx_hashes JSONB NOT NULL DEFAULT '[]',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    block_number BIGINT,
+    result_id BIGINT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_relay_jobs_due ON relay_jobs (status, next_attempt_at);
+
+-- Queue a report job only if its stake fits in the relayer's spend cap: the
+-- stakes of report jobs created since `since` that have not failed, plus this
+-- one. Returns the job id, or NULL when it doesn't fit. The advisory lock
+-- serialises callers, and each statement below takes a fresh snapshot, so a
+-- caller sees every job queued by the one that held the lock before it.
+CREATE OR REPLACE FUNCTION relay_enqueue_within_spend_cap(
+    job_id VARCHAR, job_payload JSONB, run_at TIMESTAMP WITH TIME ZONE,
+    since TIMESTAMP WITH TIME ZONE, cap_wei NUMERIC
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    spent NUMERIC;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('relay_spend_cap'));
+
+    SELECT COALESCE(SUM((payload->>'stake')::NUMERIC), 0) INTO spent
+    FROM relay_jobs
+    WHERE created_at >= since
+      AND status <> 'failed'
+      AND payload->>'kind' = 'submit_report';
+
+    IF spent + (job_payload->>'stake')::NUMERIC > cap_wei THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO relay_jobs (id, payload, next_attempt_at) VALUES (job_id, job_payload, run_at);
+    RETURN job_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Next nonce per relayer address
+CREATE TABLE IF NOT EXISTS relay_nonces (
+    address VARCHAR(42) PRIMARY KEY,
+    next_nonce INTEGER NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Report descriptions and photos, written by the relayer once the report is
+-- mined. content_hash is appended to the submitReport calldata of tx_hash, so
+-- edits made here afterwards no longer match the chain.
+CREATE TABLE IF NOT EXISTS report_details (
+    chain_report_id BIGINT PRIMARY KEY,
+    description TEXT NOT NULL DEFAULT '',
+    photos JSONB NOT NULL DEFAULT '[]',
+    -- address the reporter signs comments with; part of content_hash (v2)
+    comment_key VARCHAR(42),
+    content_hash VARCHAR(66) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    -- whether tx_hash carried content_hash when the relayer saved the row;
+    -- null if the transaction could not be fetched
+    anchored BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE report_details ADD COLUMN IF NOT EXISTS comment_key VARCHAR(42);
+ALTER TABLE report_details ADD COLUMN IF NOT EXISTS anchored BOOLEAN;
+
+-- Variants (WebP thumb/feed/full) and blurhash of each uploaded photo, keyed
+-- by the URL reports refer to
+CREATE TABLE IF NOT EXISTS uploaded_photos (
+    url TEXT PRIMARY KEY,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    blurhash VARCHAR(64) NOT NULL,
+    variants JSONB NOT NULL,
+    -- what was blurred before storage; null for photos uploaded before redaction
+    redaction JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE uploaded_photos ADD COLUMN IF NOT EXISTS redaction JSONB;
+
+-- Comments on reports. report_id is the id the client sent, as text: chain
+-- report ids are uint256
+CREATE TABLE IF NOT EXISTS comments (
+    id VARCHAR(32) PRIMARY KEY,
+    report_id VARCHAR(78) NOT NULL,
+    author VARCHAR(64) NOT NULL,
+    text TEXT NOT NULL,
+    -- wallet (EIP-191) or reporter (the report's comment key); null if unsigned
+    signed_by VARCHAR(16),
+    signature VARCHAR(132),
+    -- reactor key of the author, for bans
+    reactor VARCHAR(80),
+    -- visible, hidden (by flags, awaiting moderation) or approved
+    status VARCHAR(16) DEFAULT 'visible' NOT NULL,
+    -- replies: the comment replied to and the thread's top-level comment
+    parent_id VARCHAR(32) REFERENCES comments(id) ON DELETE CASCADE,
+    root_id VARCHAR(32),
+    depth INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS signed_by VARCHAR(16);
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS signature VARCHAR(132);
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS reactor VARCHAR(80);
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS status VARCHAR(16) DEFAULT 'visible' NOT NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id VARCHAR(32) REFERENCES comments(id) ON DELETE CASCADE;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS root_id VARCHAR(32);
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS depth INTEGER DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_report ON comments (report_id, created_at DESC, id DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_comments_signature ON comments (signature);
+CREATE INDEX IF NOT EXISTS idx_comments_root ON comments (root_id);
+
+-- One row per reactor and reaction; counts are aggregated when comments are read
+CREATE TABLE IF NOT EXISTS comment_reactions (
+    id SERIAL PRIMARY KEY,
+    comment_id VARCHAR(32) NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    reaction VARCHAR(16) NOT NULL,
+    -- device:<sha256 of token> or wallet:<address>; null on older rows
+    reactor VARCHAR(80),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE comment_reactions ADD COLUMN IF NOT EXISTS reactor VARCHAR(80);
+
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_comment ON comment_reactions (comment_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_comment_reactions_reactor ON comment_reactions (comment_id, reaction, reactor);
+
+-- One flag per reactor per comment
+CREATE TABLE IF NOT EXISTS comment_flags (
+    id SERIAL PRIMARY KEY,
+    comment_id VARCHAR(32) NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    reactor VARCHAR(80) NOT NULL,
+    reason VARCHAR(16) NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_comment_flags_reactor ON comment_flags (comment_id, reactor);
+
+-- Live comment events, so every server instance can stream writes handled
+-- by the others. Instances poll for rows past the last id they saw; rows
+-- older than a few minutes are pruned.
+CREATE TABLE IF NOT EXISTS comment_events (
+    id SERIAL PRIMARY KEY,
+    report_id VARCHAR(78) NOT NULL,
+    event JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_events_created ON comment_events (created_at);
+
+-- Reactor keys moderators banned from commenting, reacting and flagging
+CREATE TABLE IF NOT EXISTS moderation_bans (
+    reactor VARCHAR(80) PRIMARY KEY,
+    reason TEXT,
+    moderator VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Append-only record of moderation actions, including automatic hides.
+-- Deleted comments' text isn't kept here.
+CREATE TABLE IF NOT EXISTS moderation_log (
+    id SERIAL PRIMARY KEY,
+    action VARCHAR(16) NOT NULL,
+    -- moderator name, or "system" for automatic actions
+    moderator VARCHAR(64) NOT NULL,
+    comment_id VARCHAR(32),
+    report_id VARCHAR(78),
+    reactor VARCHAR(80),
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
 
 -- View for active reports with aggregated data
 CREATE OR REPLACE VIEW active_reports AS
@@ -13,6 +13,15 @@ const nextConfig: NextConfig = {
     },
   },
 
+  // Native CPU inference for photo redaction; loaded only when it is enabled
+  serverExternalPackages: ["onnxruntime-node"],
+
+  // Ship the redaction models with the upload route (see REDACTION_*_MODEL);
+  // scripts/fetch-redaction-models.mjs downloads them before the build
+  outputFileTracingIncludes: {
+    "/api/upload": ["./models/redaction/**"],
+  },
+
   // Webpack config to handle Three.js and Web3 modules
   webpack: (config, { isServer }) => {
     config.externals = [...(config.externals || []), { canvas: "canvas" }];
@@ -0,0 +1,92 @@
+// Fetch the ONNX models for photo redaction before a build, so the upload
+// function ships with them (next.config.ts traces models/redaction into it).
+// Only runs with REDACTION_MODE=auto. Downloads must be pinned by checksum,
+// so a changed file upstream can't ship unnoticed.
+//
+// The face model is required: without it the build fails, since the upload
+// route would refuse every photo. The plate model is optional: without one
+// the build warns and plates are not detected.
+//
+// Per model (FACE, PLATE):
+//   REDACTION_<MODEL>_MODEL          path relative to frontend/; empty skips it
+//   REDACTION_<MODEL>_MODEL_URL      where to download it from
+//   REDACTION_<MODEL>_MODEL_SHA256   checksum of the file; required to download
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+
+const MODELS = [
+  {
+    name: "FACE",
+    path: "models/redaction/ultraface-rfb-320.onnx",
+    // UltraFace version-RFB-320 from the ONNX model zoo
+    url: "https://github.com/onnx/models/raw/main/validated/vision/body_analysis/ultraface/models/version-RFB-320.onnx",
+    required: true,
+  },
+  {
+    name: "PLATE",
+    path: "models/redaction/plate-yolov8n.onnx",
+    // There is no canonical plate model; bring your own YOLOv8 export
+    url: null,
+    required: false,
+  },
+];
+
+const sha256 = (bytes) => createHash("sha256").update(bytes).digest("hex");
+
+function checkDigest(bytes, expected, label) {
+  if (expected && sha256(bytes) !== expected.toLowerCase()) {
+    throw new Error(`${label} does not match REDACTION_${label}_MODEL_SHA256`);
+  }
+}
+
+async function fetchModel({ name, path: defaultPath, url: defaultUrl, required }) {
+  const configured = process.env[`REDACTION_${name}_MODEL`];
+  const path = configured === undefined ? defaultPath : configured;
+  if (!path) return;
+
+  const file = resolve(root, path);
+  const expected = process.env[`REDACTION_${name}_MODEL_SHA256`];
+  if (existsSync(file)) {
+    checkDigest(await readFile(file), expected, name);
+    console.log(`redaction: ${path} present`);
+    return;
+  }
+
+  const url = process.env[`REDACTION_${name}_MODEL_URL`] || defaultUrl;
+  const missing = !url
+    ? `No model at ${path} and no REDACTION_${name}_MODEL_URL to fetch it from.`
+    : !expected
+      ? `No model at ${path}, and REDACTION_${name}_MODEL_SHA256 is not set to pin ${url}.`
+      : null;
+  if (missing) {
+    if (required) throw new Error(`${missing} Set it, or REDACTION_${name}_MODEL= to skip this detector.`);
+    console.warn(`redaction: ${missing} Skipping the ${name.toLowerCase()} detector.`);
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Downloading ${url} failed: HTTP ${response.status}`);
+  const bytes = Buffer.from(await response.arrayBuffer());
+  checkDigest(bytes, expected, name);
+
+  // Written aside first, so an interrupted download never looks complete
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(`${file}.part`, bytes);
+  await rename(`${file}.part`, file);
+  console.log(`redaction: fetched ${path} (${bytes.length} bytes, sha256 ${sha256(bytes)})`);
+}
+
+if (process.env.REDACTION_MODE === "auto") {
+  try {
+    for (const model of MODELS) await fetchModel(model);
+  } catch (error) {
+    console.error(`redaction: ${error.message}`);
+    process.exit(1);
+  }
+}
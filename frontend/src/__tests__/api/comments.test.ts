@@ -1,8 +1,48 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
 import { NextRequest } from 'next/server'
-import { GET, POST, PATCH } from '@/app/api/comments/route'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { commentMessage } from '@/lib/comments/signatures'
+import { reactorMessage, REACTOR_HEADER } from '@/lib/comments/reactors'
+import { reportContentHash } from '@/lib/details'
+import { deriveCommentKey } from '@/lib/identity'
+import { generateCommitment } from '@/hooks/useRoadGuard'
+
+type Route = typeof import('@/app/api/comments/route')
+type Details = typeof import('@/lib/details')
+
+const deviceReactor = () => ({ type: 'device', token: generatePrivateKey() })
+
+// The same cases run against the in-memory store and against Postgres
+// (PGlite, with database/schema.sql applied)
+const backends = {
+  memory: async () => null,
+  postgres: async () => {
+    const client = new PGlite()
+    await client.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+    return drizzle(client)
+  },
+}
+
+describe.each(Object.keys(backends) as (keyof typeof backends)[])('Comments API (%s)', (backend) => {
+  let GET: Route['GET']
+  let POST: Route['POST']
+  let PATCH: Route['PATCH']
+  let getReportDetailsStore: Details['getReportDetailsStore']
+
+  beforeAll(async () => {
+    const database = await backends[backend]()
+    process.env.COMMENT_STREAM_POLL_MS = '50'
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: database }))
+    ;({ GET, POST, PATCH } = await import('@/app/api/comments/route'))
+    ;({ getReportDetailsStore } = await import('@/lib/details'))
+  }, 120_000)
 
-describe('Comments API', () => {
   beforeEach(() => {
     vi.clearAllMocks()
   })
@@ -33,7 +73,7 @@ describe('Comments API', () => {
       // Add first comment
       await POST(new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, author: 'user1', text: 'First comment' }),
+        body: JSON.stringify({ reportId, author: 'user1', text: 'First comment', reactor: deviceReactor() }),
       }))
 
       // Small delay to ensure different timestamps
@@ -42,7 +82,7 @@ describe('Comments API', () => {
       // Add second comment
       await POST(new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, author: 'user2', text: 'Second comment' }),
+        body: JSON.stringify({ reportId, author: 'user2', text: 'Second comment', reactor: deviceReactor() }),
       }))
 
       const getRequest = new NextRequest(`http://localhost:3000/api/comments?reportId=${reportId}`)
@@ -59,7 +99,7 @@ describe('Comments API', () => {
     it('should return 400 if reportId is missing', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ text: 'Test comment' }),
+        body: JSON.stringify({ text: 'Test comment', reactor: deviceReactor() }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -71,7 +111,7 @@ describe('Comments API', () => {
     it('should return 400 if text is missing', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId: 1 }),
+        body: JSON.stringify({ reportId: 1, reactor: deviceReactor() }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -84,7 +124,7 @@ describe('Comments API', () => {
       const longText = 'a'.repeat(501)
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId: 1, text: longText }),
+        body: JSON.stringify({ reportId: 1, text: longText, reactor: deviceReactor() }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -93,11 +133,23 @@ describe('Comments API', () => {
       expect(data.error).toBe('Comment too long (max 500 characters)')
     })
 
+    it('should return 400 if reactor is missing', async () => {
+      const request = new NextRequest('http://localhost:3000/api/comments', {
+        method: 'POST',
+        body: JSON.stringify({ reportId: 1, text: 'No reactor' }),
+      })
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('reactor is required')
+    })
+
     it('should create comment with default Anonymous author', async () => {
       const reportId = 'test-anon-' + Date.now()
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Anonymous comment' }),
+        body: JSON.stringify({ reportId, text: 'Anonymous comment', reactor: deviceReactor() }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -110,10 +162,20 @@ describe('Comments API', () => {
 
     it('should create comment with provided author', async () => {
       const reportId = 'test-author-' + Date.now()
-      const author = '0x1234567890123456789012345678901234567890'
+      const account = privateKeyToAccount(generatePrivateKey())
+      const author = account.address
+      const text = 'Authored comment'
+      const signedAt = Date.now()
+      const signature = await account.signMessage({ message: commentMessage({ reportId, text, signedAt }) })
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, author, text: 'Authored comment' }),
+        body: JSON.stringify({
+          reportId,
+          author,
+          text,
+          reactor: deviceReactor(),
+          proof: { signer: 'wallet', signedAt, signature, address: author },
+        }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -127,7 +189,7 @@ describe('Comments API', () => {
       const reportId = 'test-reactions-init-' + Date.now()
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Test reactions' }),
+        body: JSON.stringify({ reportId, text: 'Test reactions', reactor: deviceReactor() }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -140,7 +202,7 @@ describe('Comments API', () => {
       const reportId = 'test-trim-' + Date.now()
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: '  Trimmed text  ' }),
+        body: JSON.stringify({ reportId, text: '  Trimmed text  ', reactor: deviceReactor() }),
       })
       const response = await POST(request)
       const data = await response.json()
@@ -153,14 +215,14 @@ describe('Comments API', () => {
 
       const request1 = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Comment 1' }),
+        body: JSON.stringify({ reportId, text: 'Comment 1', reactor: deviceReactor() }),
       })
       const response1 = await POST(request1)
       const data1 = await response1.json()
 
       const request2 = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Comment 2' }),
+        body: JSON.stringify({ reportId, text: 'Comment 2', reactor: deviceReactor() }),
       })
       const response2 = await POST(request2)
       const data2 = await response2.json()
@@ -173,7 +235,7 @@ describe('Comments API', () => {
     it('should return 400 if reportId is missing', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ commentId: 'abc', reaction: 'helpful' }),
+        body: JSON.stringify({ commentId: 'abc', reaction: 'helpful', reactor: deviceReactor() }),
       })
       const response = await PATCH(request)
       const data = await response.json()
@@ -185,7 +247,7 @@ describe('Comments API', () => {
     it('should return 400 if commentId is missing', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ reportId: 1, reaction: 'helpful' }),
+        body: JSON.stringify({ reportId: 1, reaction: 'helpful', reactor: deviceReactor() }),
       })
       const response = await PATCH(request)
       const data = await response.json()
@@ -196,7 +258,7 @@ describe('Comments API', () => {
     it('should return 400 if reaction is missing', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ reportId: 1, commentId: 'abc' }),
+        body: JSON.stringify({ reportId: 1, commentId: 'abc', reactor: deviceReactor() }),
       })
       const response = await PATCH(request)
       const data = await response.json()
@@ -207,7 +269,7 @@ describe('Comments API', () => {
     it('should return 400 for invalid reaction type', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ reportId: 1, commentId: 'abc', reaction: 'invalid' }),
+        body: JSON.stringify({ reportId: 1, commentId: 'abc', reaction: 'invalid', reactor: deviceReactor() }),
       })
       const response = await PATCH(request)
       const data = await response.json()
@@ -219,7 +281,7 @@ describe('Comments API', () => {
     it('should return 404 if comment not found', async () => {
       const request = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ reportId: 'nonexistent', commentId: 'abc', reaction: 'helpful' }),
+        body: JSON.stringify({ reportId: 'nonexistent', commentId: 'abc', reaction: 'helpful', reactor: deviceReactor() }),
       })
       const response = await PATCH(request)
       const data = await response.json()
@@ -234,7 +296,7 @@ describe('Comments API', () => {
       // Create a comment first
       const postRequest = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Test helpful' }),
+        body: JSON.stringify({ reportId, text: 'Test helpful', reactor: deviceReactor() }),
       })
       const postResponse = await POST(postRequest)
       const postData = await postResponse.json()
@@ -243,13 +305,14 @@ describe('Comments API', () => {
       // Add helpful reaction
       const patchRequest = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ reportId, commentId, reaction: 'helpful' }),
+        body: JSON.stringify({ reportId, commentId, reaction: 'helpful', reactor: deviceReactor() }),
       })
       const patchResponse = await PATCH(patchRequest)
       const patchData = await patchResponse.json()
 
       expect(patchResponse.status).toBe(200)
       expect(patchData.success).toBe(true)
+      expect(patchData.reacted).toBe(true)
       expect(patchData.comment.reactions.helpful).toBe(1)
       expect(patchData.comment.reactions.thankyou).toBe(0)
     })
@@ -260,7 +323,7 @@ describe('Comments API', () => {
       // Create a comment first
       const postRequest = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Test thankyou' }),
+        body: JSON.stringify({ reportId, text: 'Test thankyou', reactor: deviceReactor() }),
       })
       const postResponse = await POST(postRequest)
       const postData = await postResponse.json()
@@ -269,7 +332,7 @@ describe('Comments API', () => {
       // Add thankyou reaction
       const patchRequest = new NextRequest('http://localhost:3000/api/comments', {
         method: 'PATCH',
-        body: JSON.stringify({ reportId, commentId, reaction: 'thankyou' }),
+        body: JSON.stringify({ reportId, commentId, reaction: 'thankyou', reactor: deviceReactor() }),
       })
       const patchResponse = await PATCH(patchRequest)
       const patchData = await patchResponse.json()
@@ -278,30 +341,30 @@ describe('Comments API', () => {
       expect(patchData.comment.reactions.thankyou).toBe(1)
     })
 
-    it('should accumulate multiple reactions', async () => {
+    it('should accumulate reactions from different reactors', async () => {
       const reportId = 'test-accumulate-' + Date.now()
 
       // Create a comment
       const postRequest = new NextRequest('http://localhost:3000/api/comments', {
         method: 'POST',
-        body: JSON.stringify({ reportId, text: 'Test accumulate' }),
+        body: JSON.stringify({ reportId, text: 'Test accumulate', reactor: deviceReactor() }),
       })
       const postResponse = await POST(postRequest)
       const postData = await postResponse.json()
       const commentId = postData.comment.id
 
-      // Add multiple reactions
+      // Add reactions from several reactors
       for (let i = 0; i < 3; i++) {
         await PATCH(new NextRequest('http://localhost:3000/api/comments', {
           method: 'PATCH',
-          body: JSON.stringify({ reportId, commentId, reaction: 'helpful' }),
+          body: JSON.stringify({ reportId, commentId, reaction: 'helpful', reactor: deviceReactor() }),
         }))
       }
 
       for (let i = 0; i < 2; i++) {
         await PATCH(new NextRequest('http://localhost:3000/api/comments', {
           method: 'PATCH',
-          body: JSON.stringify({ reportId, commentId, reaction: 'thankyou' }),
+          body: JSON.stringify({ reportId, commentId, reaction: 'thankyou', reactor: deviceReactor() }),
         }))
       }
 
@@ -313,5 +376,479 @@ describe('Comments API', () => {
       expect(getData.comments[0].reactions.helpful).toBe(3)
       expect(getData.comments[0].reactions.thankyou).toBe(2)
     })
+
+    it('should return 400 if reactor is missing or malformed', async () => {
+      for (const [reactor, error] of [
+        [undefined, 'reactor is required'],
+        [{ type: 'device', token: '0x1234' }, 'reactor.token must be a 32-byte hex token'],
+        [{ type: 'cookie' }, 'reactor.type must be device or wallet'],
+      ] as const) {
+        const response = await PATCH(new NextRequest('http://localhost:3000/api/comments', {
+          method: 'PATCH',
+          body: JSON.stringify({ reportId: 1, commentId: 'abc', reaction: 'helpful', reactor }),
+        }))
+        expect(response.status).toBe(400)
+        expect((await response.json()).error).toBe(error)
+      }
+    })
+  })
+
+  describe('Signed comments', () => {
+    const wallet = privateKeyToAccount(generatePrivateKey())
+    const master = generateCommitment('reporter passphrase')
+    const reporterKey = privateKeyToAccount(deriveCommentKey(master.secret, 0).privateKey)
+
+    const post = (body: object) =>
+      POST(new NextRequest('http://localhost:3000/api/comments', { method: 'POST', body: JSON.stringify(body) }))
+
+    async function signed(
+      account: typeof wallet,
+      signer: 'wallet' | 'reporter',
+      reportId: string | number,
+      text: string,
+      signedAt = Date.now()
+    ) {
+      const signature = await account.signMessage({ message: commentMessage({ reportId, text, signedAt }) })
+      return {
+        reportId,
+        text,
+        reactor: deviceReactor(),
+        proof: { signer, signedAt, signature, ...(signer === 'wallet' && { address: account.address }) },
+      }
+    }
+
+    // A mined report that registered the reporter's comment key
+    async function reportWithCommentKey(chainReportId: number) {
+      const content = { description: '', photos: [], commentKey: reporterKey.address }
+      await getReportDetailsStore().save({
+        chainReportId,
+        ...content,
+        contentHash: reportContentHash(content),
+        txHash: `0x${'ab'.repeat(32)}`,
+        anchored: true,
+      })
+    }
+
+    it('should post wallet-signed comments under the wallet address', async () => {
+      const response = await post(await signed(wallet, 'wallet', 'test-wallet-' + Date.now(), 'Signed by my wallet'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.comment).toMatchObject({ author: wallet.address, signedBy: 'wallet', text: 'Signed by my wallet' })
+    })
+
+    it('should ignore an unsigned author but accept a signed one', async () => {
+      const reportId = 'test-claimed-' + Date.now()
+
+      const unsigned = await post({ reportId, author: wallet.address, text: 'Trust me', reactor: deviceReactor() })
+      expect(unsigned.status).toBe(200)
+      expect((await unsigned.json()).comment).toMatchObject({ author: 'Anonymous', signedBy: null })
+
+      const body = await signed(wallet, 'wallet', reportId, 'Proven')
+      const proven = await post({ ...body, author: wallet.address })
+      expect(proven.status).toBe(200)
+      expect((await proven.json()).comment).toMatchObject({ author: wallet.address, signedBy: 'wallet' })
+    })
+
+    it('should refuse a signature by another wallet or over other text', async () => {
+      const reportId = 'test-forged-' + Date.now()
+      const other = privateKeyToAccount(generatePrivateKey())
+
+      const impersonated = await signed(other, 'wallet', reportId, 'Not really me')
+      impersonated.proof.address = wallet.address
+      const moved = { ...(await signed(wallet, 'wallet', reportId, 'Original text')), text: 'Edited text' }
+
+      for (const body of [impersonated, moved]) {
+        const response = await post(body)
+        expect(response.status).toBe(401)
+        expect((await response.json()).error).toBe('Invalid signature')
+      }
+    })
+
+    it('should refuse stale or reused signatures', async () => {
+      const reportId = 'test-replay-' + Date.now()
+
+      const stale = await post(await signed(wallet, 'wallet', reportId, 'Old news', Date.now() - 60 * 60 * 1000))
+      expect(stale.status).toBe(401)
+      expect((await stale.json()).error).toBe('Signature expired')
+
+      const body = await signed(wallet, 'wallet', reportId, 'Only once')
+      expect((await post(body)).status).toBe(200)
+      expect((await post(body)).status).toBe(409)
+    })
+
+    it('should return 400 for a malformed proof', async () => {
+      const response = await post({
+        reportId: 1,
+        text: 'Hi',
+        reactor: deviceReactor(),
+        proof: { signer: 'wallet', signedAt: Date.now() },
+      })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe('proof.signature must be a 64 or 65-byte hex signature')
+    })
+
+    it("should show the reporter's signature with the report's comment key as Reporter", async () => {
+      const chainReportId = 900_000 + Math.floor(Math.random() * 1000)
+      await reportWithCommentKey(chainReportId)
+
+      const response = await post(await signed(reporterKey, 'reporter', chainReportId, 'I saw this happen'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.comment).toMatchObject({ author: 'Reporter', signedBy: 'reporter' })
+      expect(JSON.stringify(data)).not.toContain(reporterKey.address.slice(2))
+    })
+
+    it('should refuse reporter signatures by any other key, or on reports without one', async () => {
+      const chainReportId = 910_000 + Math.floor(Math.random() * 1000)
+      await reportWithCommentKey(chainReportId)
+
+      const wrongKey = await post(await signed(wallet, 'reporter', chainReportId, 'I am the reporter'))
+      expect(wrongKey.status).toBe(401)
+
+      const noKey = await post(await signed(reporterKey, 'reporter', chainReportId + 1, 'I am the reporter'))
+      expect(noKey.status).toBe(401)
+      expect((await noKey.json()).error).toBe('This report has no comment key')
+    })
+  })
+
+  describe('Pagination', () => {
+    // Comments in the same millisecond are ordered by their random id
+    const post = async (reportId: string, text: string) => {
+      await POST(new NextRequest('http://localhost:3000/api/comments', {
+        method: 'POST',
+        body: JSON.stringify({ reportId, text, reactor: deviceReactor() }),
+      }))
+      await new Promise(resolve => setTimeout(resolve, 2))
+    }
+    const get = (query: string) => GET(new NextRequest(`http://localhost:3000/api/comments?${query}`))
+
+    it('should page through comments newest first without repeats', async () => {
+      const reportId = 'test-pages-' + Date.now()
+      for (let i = 1; i <= 5; i++) await post(reportId, `Comment ${i}`)
+
+      const seen: string[] = []
+      let cursor: string | null = null
+      do {
+        const data = await (await get(`reportId=${reportId}&limit=2${cursor ? `&cursor=${cursor}` : ''}`)).json()
+        expect(data.total).toBe(5)
+        seen.push(...data.comments.map((c: { text: string }) => c.text))
+        cursor = data.nextCursor
+      } while (cursor)
+
+      expect(seen).toEqual(['Comment 5', 'Comment 4', 'Comment 3', 'Comment 2', 'Comment 1'])
+    })
+
+    it('should not shift pages when new comments arrive', async () => {
+      const reportId = 'test-pages-stable-' + Date.now()
+      for (let i = 1; i <= 3; i++) await post(reportId, `Comment ${i}`)
+
+      const first = await (await get(`reportId=${reportId}&limit=2`)).json()
+      await post(reportId, 'Comment 4')
+      const second = await (await get(`reportId=${reportId}&limit=2&cursor=${first.nextCursor}`)).json()
+
+      expect(second.comments.map((c: { text: string }) => c.text)).toEqual(['Comment 1'])
+      expect(second.nextCursor).toBeNull()
+    })
+
+    it('should return 400 for a bad limit or cursor', async () => {
+      expect((await get('reportId=1&limit=0')).status).toBe(400)
+      expect((await get('reportId=1&limit=101')).status).toBe(400)
+      expect((await get('reportId=1&limit=abc')).status).toBe(400)
+
+      const response = await get('reportId=1&cursor=not-a-cursor')
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe('Invalid cursor')
+    })
+  })
+
+  describe('Reactors', () => {
+    const react = (body: object, headers?: Record<string, string>) =>
+      PATCH(new NextRequest('http://localhost:3000/api/comments', { method: 'PATCH', body: JSON.stringify(body), headers }))
+
+    async function newComment(label: string) {
+      const reportId = `test-${label}-${Date.now()}`
+      const response = await POST(new NextRequest('http://localhost:3000/api/comments', {
+        method: 'POST',
+        body: JSON.stringify({ reportId, text: label, reactor: deviceReactor() }),
+      }))
+      return { reportId, commentId: (await response.json()).comment.id as string }
+    }
+
+    async function walletReactor(account = privateKeyToAccount(generatePrivateKey()), signedAt = Date.now()) {
+      const signature = await account.signMessage({ message: reactorMessage({ address: account.address, signedAt }) })
+      return { type: 'wallet', address: account.address, signedAt, signature }
+    }
+
+    it('should count a reactor once and take the reaction back when they react again', async () => {
+      const comment = await newComment('toggle')
+      const reactor = deviceReactor()
+
+      const first = await (await react({ ...comment, reaction: 'helpful', reactor })).json()
+      expect(first.reacted).toBe(true)
+      expect(first.comment.reactions.helpful).toBe(1)
+      expect(first.comment.viewerReacted).toEqual({ helpful: true, thankyou: false })
+
+      const second = await (await react({ ...comment, reaction: 'helpful', reactor })).json()
+      expect(second.reacted).toBe(false)
+      expect(second.comment.reactions.helpful).toBe(0)
+
+      const third = await (await react({ ...comment, reaction: 'helpful', reactor })).json()
+      expect(third.comment.reactions.helpful).toBe(1)
+    })
+
+    it('should tell the viewer which reactions they made', async () => {
+      const comment = await newComment('viewer')
+      const reactor = deviceReactor()
+      await react({ ...comment, reaction: 'thankyou', reactor })
+      await react({ ...comment, reaction: 'helpful', reactor: deviceReactor() })
+
+      const list = (headers?: Record<string, string>) =>
+        GET(new NextRequest(`http://localhost:3000/api/comments?reportId=${comment.reportId}`, { headers }))
+
+      const mine = await (await list({ [REACTOR_HEADER]: JSON.stringify(reactor) })).json()
+      expect(mine.comments[0].reactions).toEqual({ helpful: 1, thankyou: 1 })
+      expect(mine.comments[0].viewerReacted).toEqual({ helpful: false, thankyou: true })
+
+      for (const headers of [undefined, { [REACTOR_HEADER]: 'not json' }]) {
+        const anonymous = await (await list(headers)).json()
+        expect(anonymous.comments[0].viewerReacted).toEqual({ helpful: false, thankyou: false })
+      }
+    })
+
+    it('should key wallet reactions by the wallet, whichever signature they use', async () => {
+      const comment = await newComment('wallet')
+      const account = privateKeyToAccount(generatePrivateKey())
+
+      const first = await (await react({ ...comment, reaction: 'helpful', reactor: await walletReactor(account) })).json()
+      expect(first.comment.reactions.helpful).toBe(1)
+      expect(first.comment.walletReactions.helpful).toBe(1)
+
+      const again = await walletReactor(account, Date.now() - 60_000)
+      const second = await (await react({ ...comment, reaction: 'helpful', reactor: again })).json()
+      expect(second.reacted).toBe(false)
+      expect(second.comment.reactions.helpful).toBe(0)
+    })
+
+    it('should refuse expired or forged wallet reactors', async () => {
+      const comment = await newComment('wallet-refused')
+
+      const expired = await walletReactor(undefined, Date.now() - 25 * 60 * 60 * 1000)
+      const expiredResponse = await react({ ...comment, reaction: 'helpful', reactor: expired })
+      expect(expiredResponse.status).toBe(401)
+      expect((await expiredResponse.json()).error).toBe('Signature expired')
+
+      const forged = { ...(await walletReactor()), address: privateKeyToAccount(generatePrivateKey()).address }
+      const forgedResponse = await react({ ...comment, reaction: 'helpful', reactor: forged })
+      expect(forgedResponse.status).toBe(401)
+      expect((await forgedResponse.json()).error).toBe('Invalid signature')
+    })
+
+    it('should rate limit a reactor with 429 and Retry-After', async () => {
+      const comment = await newComment('rate-limit')
+      const reactor = deviceReactor()
+
+      for (let i = 0; i < 20; i++) {
+        expect((await react({ ...comment, reaction: 'helpful', reactor })).status).toBe(200)
+      }
+      const response = await react({ ...comment, reaction: 'helpful', reactor })
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data.code).toBe('RATE_LIMITED')
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+    })
+
+    it('should count wallet reactions apart from device ones', async () => {
+      const comment = await newComment('wallet-count')
+      await react({ ...comment, reaction: 'helpful', reactor: deviceReactor() })
+      await react({ ...comment, reaction: 'helpful', reactor: deviceReactor() })
+      const data = await (await react({ ...comment, reaction: 'helpful', reactor: await walletReactor() })).json()
+
+      expect(data.comment.reactions).toEqual({ helpful: 3, thankyou: 0 })
+      expect(data.comment.walletReactions).toEqual({ helpful: 1, thankyou: 0 })
+    })
+
+    it('should rate limit a client IP across reactors', async () => {
+      const headers = { 'x-forwarded-for': '203.0.113.7' }
+
+      // Four reactions a comment stays within the per-comment limit
+      for (let i = 0; i < 15; i++) {
+        const comment = await newComment(`ip-limit-${i}`)
+        for (let j = 0; j < 4; j++) {
+          const reaction = j % 2 ? 'thankyou' : 'helpful'
+          expect((await react({ ...comment, reaction, reactor: deviceReactor() }, headers)).status).toBe(200)
+        }
+      }
+      const comment = await newComment('ip-limit')
+      const response = await react({ ...comment, reaction: 'helpful', reactor: deviceReactor() }, headers)
+      expect(response.status).toBe(429)
+    })
+
+    it('should rate limit a client IP on one comment, however many device tokens it mints', async () => {
+      const comment = await newComment('ip-comment-limit')
+      const headers = { 'x-forwarded-for': '203.0.113.8' }
+
+      for (let i = 0; i < 4; i++) {
+        expect((await react({ ...comment, reaction: 'helpful', reactor: deviceReactor() }, headers)).status).toBe(200)
+      }
+      const response = await react({ ...comment, reaction: 'helpful', reactor: deviceReactor() }, headers)
+      expect(response.status).toBe(429)
+      expect((await response.json()).comment).toBeUndefined()
+
+      const other = await newComment('ip-comment-limit-other')
+      expect((await react({ ...other, reaction: 'helpful', reactor: deviceReactor() }, headers)).status).toBe(200)
+    })
+  })
+
+  describe('Replies', () => {
+    const post = async (reportId: string, text: string, parentId?: string) => {
+      const response = await POST(new NextRequest('http://localhost:3000/api/comments', {
+        method: 'POST',
+        body: JSON.stringify({ reportId, text, parentId, reactor: deviceReactor() }),
+      }))
+      await new Promise(resolve => setTimeout(resolve, 2))
+      return response
+    }
+    const postId = async (reportId: string, text: string, parentId?: string) =>
+      (await (await post(reportId, text, parentId)).json()).comment.id as string
+    const list = async (reportId: string, query = '') =>
+      (await GET(new NextRequest(`http://localhost:3000/api/comments?reportId=${reportId}${query}`))).json()
+
+    it('should nest replies under their thread, oldest first and depth first', async () => {
+      const reportId = 'test-replies-' + Date.now()
+      const root = await postId(reportId, 'Root')
+      const first = await postId(reportId, 'First reply', root)
+      await postId(reportId, 'Second reply', root)
+      const nested = await postId(reportId, 'Reply to first', first)
+      await postId(reportId, 'Newer root')
+
+      const data = await list(reportId)
+      expect(data.total).toBe(5)
+      expect(data.comments.map((c: { text: string }) => c.text)).toEqual(['Newer root', 'Root'])
+
+      const thread = data.comments[1]
+      expect(thread.parentId).toBeNull()
+      expect(thread.depth).toBe(0)
+      expect(thread.replies.map((c: { text: string; depth: number }) => [c.text, c.depth])).toEqual([
+        ['First reply', 1],
+        ['Reply to first', 2],
+        ['Second reply', 1],
+      ])
+      expect(thread.replies[1]).toMatchObject({ id: nested, parentId: first })
+    })
+
+    it('should page top-level comments only', async () => {
+      const reportId = 'test-replies-pages-' + Date.now()
+      const older = await postId(reportId, 'Older')
+      await postId(reportId, 'Newer')
+      await postId(reportId, 'Reply', older)
+
+      const first = await list(reportId, '&limit=1')
+      expect(first.comments.map((c: { text: string }) => c.text)).toEqual(['Newer'])
+
+      const second = await list(reportId, `&limit=1&cursor=${first.nextCursor}`)
+      expect(second.comments[0].replies.map((c: { text: string }) => c.text)).toEqual(['Reply'])
+      expect(second.nextCursor).toBeNull()
+    })
+
+    it('should limit how deep replies nest', async () => {
+      const reportId = 'test-replies-depth-' + Date.now()
+      let parentId = await postId(reportId, 'Depth 0')
+      for (let depth = 1; depth <= 3; depth++) parentId = await postId(reportId, `Depth ${depth}`, parentId)
+
+      const response = await post(reportId, 'Depth 4', parentId)
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe("Replies can't nest more than 3 levels deep")
+    })
+
+    it('should return 404 for a parent that is missing or on another report', async () => {
+      const reportId = 'test-replies-parent-' + Date.now()
+      const elsewhere = await postId(reportId + '-other', 'Elsewhere')
+
+      for (const parentId of ['missing', elsewhere]) {
+        const response = await post(reportId, 'Orphan', parentId)
+        expect(response.status).toBe(404)
+        expect((await response.json()).error).toBe('Parent comment not found')
+      }
+    })
+  })
+
+  describe('Live updates', () => {
+    // Reads SSE chunks until `predicate` matches what arrived so far
+    async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, predicate: (text: string) => boolean) {
+      const decoder = new TextDecoder()
+      let text = ''
+      while (!predicate(text)) {
+        const { value, done } = await reader.read()
+        if (done) break
+        text += decoder.decode(value)
+      }
+      return text
+    }
+
+    it('should stream new comments, replies and reactions for the report', async () => {
+      const reportId = 'test-stream-' + Date.now()
+      const controller = new AbortController()
+      const response = await GET(new NextRequest(`http://localhost:3000/api/comments?reportId=${reportId}`, {
+        headers: { accept: 'text/event-stream' },
+        signal: controller.signal,
+      }))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+      const reader = response.body!.getReader()
+      expect(await readUntil(reader, (text) => text.includes(': connected'))).toContain('retry: 3000')
+
+      // Other reports' comments aren't sent
+      await POST(new NextRequest('http://localhost:3000/api/comments', {
+        method: 'POST',
+        body: JSON.stringify({ reportId: reportId + '-other', text: 'Elsewhere', reactor: deviceReactor() }),
+      }))
+      const posted = await (await POST(new NextRequest('http://localhost:3000/api/comments', {
+        method: 'POST',
+        body: JSON.stringify({ reportId, text: 'Live', reactor: deviceReactor() }),
+      }))).json()
+      await PATCH(new NextRequest('http://localhost:3000/api/comments', {
+        method: 'PATCH',
+        body: JSON.stringify({ reportId, commentId: posted.comment.id, reaction: 'helpful', reactor: deviceReactor() }),
+        headers: { 'x-forwarded-for': '198.51.100.20' },
+      }))
+
+      const events = (await readUntil(reader, (text) => text.includes('event: reaction')))
+        .split('\n\n')
+        .filter((chunk) => chunk.startsWith('event: '))
+        .map((chunk) => JSON.parse(chunk.split('\ndata: ')[1]))
+
+      expect(events).toEqual([
+        { type: 'comment', comment: expect.objectContaining({ id: posted.comment.id, text: 'Live', parentId: null }) },
+        {
+          type: 'reaction',
+          commentId: posted.comment.id,
+          reactions: { helpful: 1, thankyou: 0 },
+          walletReactions: { helpful: 0, thankyou: 0 },
+        },
+      ])
+
+      controller.abort()
+      await reader.cancel()
+    })
+
+    it('should end the stream before the function timeout', async () => {
+      process.env.COMMENT_STREAM_MAX_DURATION_MS = '100'
+      vi.resetModules()
+      const { GET, maxDuration } = await import('@/app/api/comments/route')
+      delete process.env.COMMENT_STREAM_MAX_DURATION_MS
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/comments?reportId=1', {
+        headers: { accept: 'text/event-stream' },
+      }))
+      const text = await response.text()
+
+      expect(maxDuration).toBe(60)
+      expect(text).toContain(': connected')
+    })
   })
 })
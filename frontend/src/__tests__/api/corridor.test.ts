@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { encodeGeohash, encodePolyline } from '@/lib/corridor'
+import { reportsCache } from '@/lib/schema'
+
+type Route = typeof import('@/app/api/reports/corridor/route')
+
+// Along Paseo de la Reforma, Mexico City, heading north-east
+const REFORMA = [
+  { lat: 19.4204, lng: -99.1819 },
+  { lat: 19.4260, lng: -99.1680 },
+  { lat: 19.4320, lng: -99.1560 },
+]
+
+const post = (route: Route, body: object) =>
+  route.POST(
+    new NextRequest('http://localhost:3000/api/reports/corridor', { method: 'POST', body: JSON.stringify(body) })
+  )
+
+describe('POST /api/reports/corridor', () => {
+  let route: Route
+  let client: PGlite
+
+  beforeAll(async () => {
+    client = new PGlite()
+    await client.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+    const database = drizzle(client)
+
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+    const report = (chainReportId: number, lat: number, lng: number, extra: object = {}) => ({
+      chainReportId,
+      reporterCommitment: `0x${'ab'.repeat(32)}`,
+      locationLat: lat.toFixed(8),
+      locationLng: lng.toFixed(8),
+      eventType: 0,
+      expiresAt,
+      txHash: `0x${'cd'.repeat(32)}`,
+      ...extra,
+    })
+    await database.insert(reportsCache).values([
+      report(1, 19.4262, -99.1676), // on the route, past the first bend
+      report(2, 19.4210, -99.1812), // near the start
+      report(3, 19.4318, -99.1636, { eventType: 4 }), // about 350 m off the second stretch
+      report(4, 19.4400, -99.1300), // well away
+      report(5, 19.4205, -99.1818, { expiresAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) }),
+      report(6, 19.4240, -99.1725, { status: 3 }),
+    ])
+
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: database }))
+    route = await import('@/app/api/reports/corridor/route')
+  }, 120_000)
+
+  it('should store the same geohash the query computes', async () => {
+    const { rows } = await client.query<{ geohash: string }>(
+      'SELECT geohash FROM reports_cache WHERE chain_report_id = 1'
+    )
+    expect(rows[0].geohash).toBe(encodeGeohash(19.4262, -99.1676))
+  })
+
+  it('should return reports along the route, nearest the start first', async () => {
+    const response = await post(route, { polyline: encodePolyline(REFORMA), buffer: 500 })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.index).toBe('geohash')
+    expect(data.reports.map((r: { id: number }) => r.id)).toEqual([2, 1, 3])
+    expect(data.routeLength).toBeGreaterThan(2500)
+
+    const [start, bend, off] = data.reports
+    expect(start.distanceFromStart).toBeLessThan(150)
+    expect(bend.distanceFromStart).toBeGreaterThan(1500)
+    expect(bend.distanceFromRoute).toBeLessThan(50)
+    expect(off.distanceFromRoute).toBeGreaterThan(250)
+    expect(bend).toMatchObject({ lat: 19.4262, lng: -99.1676, eventType: 0, status: 0 })
+  })
+
+  it('should apply the buffer, filters and limit', async () => {
+    const polyline = encodePolyline(REFORMA)
+
+    const narrow = await (await post(route, { polyline, buffer: 100 })).json()
+    expect(narrow.reports.map((r: { id: number }) => r.id)).toEqual([2, 1])
+
+    const hazards = await (await post(route, { polyline, eventType: 4 })).json()
+    expect(hazards.reports.map((r: { id: number }) => r.id)).toEqual([3])
+
+    const slashed = await (await post(route, { polyline, status: '3' })).json()
+    expect(slashed.reports.map((r: { id: number }) => r.id)).toEqual([6])
+
+    const first = await (await post(route, { polyline, limit: 1 })).json()
+    expect(first.reports.map((r: { id: number }) => r.id)).toEqual([2])
+  })
+
+  it('should accept precision 6 polylines', async () => {
+    const data = await (await post(route, { polyline: encodePolyline(REFORMA, 6), precision: 6 })).json()
+    expect(data.reports.map((r: { id: number }) => r.id)).toEqual([2, 1, 3])
+  })
+
+  it('should validate the request', async () => {
+    const polyline = encodePolyline(REFORMA)
+    for (const [body, error] of [
+      [{}, 'polyline is required'],
+      [{ polyline: '_p~iF~ps|U_ulL' }, 'Invalid polyline'],
+      [{ polyline, precision: 7 }, 'precision must be 5 or 6'],
+      [{ polyline, buffer: 0 }, 'buffer must be between 0 and 5000 meters'],
+      [{ polyline, buffer: 5001 }, 'buffer must be between 0 and 5000 meters'],
+      [{ polyline, limit: 501 }, 'limit must be between 1 and 500'],
+      [{ polyline: encodePolyline(Array.from({ length: 5001 }, (_, i) => ({ lat: 0, lng: i / 1e4 }))) }, 'Route too long (max 5000 points)'],
+      [{ polyline: encodePolyline([{ lat: 0, lng: 0 }, { lat: 0, lng: 18.1 }]) }, 'Route too long (max 2000 km)'],
+      [{ polyline, limit: '10' }, 'limit must be between 1 and 500'],
+    ] as const) {
+      const response = await post(route, body)
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe(error)
+    }
+  })
+
+  it('should check for PostGIS again after a failed check', async () => {
+    const database = drizzle(client)
+    vi.spyOn(database, 'execute').mockRejectedValueOnce(new Error('connection reset'))
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: database }))
+    const flaky = await import('@/app/api/reports/corridor/route')
+
+    expect((await post(flaky, { polyline: encodePolyline(REFORMA) })).status).toBe(500)
+    const response = await post(flaky, { polyline: encodePolyline(REFORMA) })
+    expect(response.status).toBe(200)
+    expect((await response.json()).reports.map((r: { id: number }) => r.id)).toEqual([2, 1, 3])
+  })
+
+  it('should return an empty list when the cache is not configured', async () => {
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: null }))
+    const withoutDatabase = await import('@/app/api/reports/corridor/route')
+
+    const data = await (await post(withoutDatabase, { polyline: encodePolyline(REFORMA) })).json()
+    expect(data.reports).toEqual([])
+    expect(data.error).toBe('Database not configured')
+  })
+})
@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { EVENT_TYPES } from '@/lib/event-types'
+import { reportsCache } from '@/lib/schema'
+
+type Route = typeof import('@/app/api/reports/export/route')
+
+const exportReports = (route: Route, query: string) =>
+  route.GET(new NextRequest(`http://localhost:3000/api/reports/export?${query}`))
+
+// Around the historic centre of Mexico City
+const CENTRO = 'bbox=-99.15,19.42,-99.12,19.44'
+
+describe('GET /api/reports/export', () => {
+  let route: Route
+
+  beforeAll(async () => {
+    const client = new PGlite()
+    await client.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+    const database = drizzle(client)
+
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+    const report = (chainReportId: number, lat: number, lng: number, extra: object = {}) => ({
+      chainReportId,
+      reporterCommitment: `0x${'ab'.repeat(32)}`,
+      locationLat: lat.toFixed(8),
+      locationLng: lng.toFixed(8),
+      eventType: 0,
+      expiresAt,
+      txHash: `0x${'cd'.repeat(32)}`,
+      ...extra,
+    })
+    await database.insert(reportsCache).values([
+      report(1, 19.4326, -99.1332, { createdAt: new Date('2025-01-01T10:00:00Z') }), // Zócalo
+      report(2, 19.4352, -99.1412, { eventType: 1, status: 1, createdAt: new Date('2025-01-02T10:00:00Z') }),
+      report(3, 19.4270, -99.1677, { eventType: 4 }), // the Ángel, west of the box
+      report(4, 19.4300, -99.1400, { status: 3 }),
+      // Expired a week ago
+      report(5, 19.4310, -99.1350, {
+        status: 2,
+        createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000),
+        expiresAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+      }),
+      report(6, 19.4320, -99.1360, {
+        status: 1,
+        createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
+        expiresAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+      }),
+    ])
+    // Enough reports around Puebla to take more than one batch
+    await database.insert(reportsCache).values(
+      Array.from({ length: 520 }, (_, i) => report(1000 + i, 19.04 + i / 1e5, -98.2, { eventType: 5 }))
+    )
+
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: database }))
+    route = await import('@/app/api/reports/export/route')
+  }, 120_000)
+
+  it('should export GeoJSON with event type labels', async () => {
+    const response = await exportReports(route, CENTRO)
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/geo+json')
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="roadguard-reports.geojson"')
+
+    const collection = await response.json()
+    expect(collection.type).toBe('FeatureCollection')
+    expect(collection.features.map((f: { id: number }) => f.id)).toEqual([2, 1])
+    expect(collection.features[0]).toMatchObject({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [-99.1412, 19.4352] },
+      properties: {
+        eventType: 1,
+        eventTypeLabel: EVENT_TYPES.ROAD_CLOSURE.label,
+        status: 1,
+        statusLabel: 'Confirmed',
+        createdAt: '2025-01-02T10:00:00.000Z',
+      },
+    })
+  })
+
+  it('should export KML placemarks styled by event type', async () => {
+    const response = await exportReports(route, `${CENTRO}&format=kml`)
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.google-earth.kml+xml')
+
+    const kml = await response.text()
+    expect(kml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<kml /)
+    expect(kml).toContain('<Style id="ACCIDENT"><IconStyle><color>ff4444ef</color></IconStyle></Style>')
+    expect(kml.match(/<Placemark /g)).toHaveLength(2)
+    expect(kml).toContain('<name>Accident #1</name>\n<styleUrl>#ACCIDENT</styleUrl>')
+    expect(kml).toContain('<Point><coordinates>-99.1332,19.4326</coordinates></Point>')
+    expect(kml.trimEnd().endsWith('</Document>\n</kml>')).toBe(true)
+  })
+
+  it('should export CSV with a header row', async () => {
+    const response = await exportReports(route, `${CENTRO}&format=csv`)
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8')
+
+    const [header, ...rows] = (await response.text()).trimEnd().split('\r\n')
+    expect(header).toBe(
+      'id,eventType,eventTypeLabel,status,statusLabel,lat,lng,confirmationCount,totalRegards,stakeAmount,commitment,txHash,createdAt,expiresAt'
+    )
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatch(/^2,1,Road Closure,1,Confirmed,19.4352,-99.1412,0,0.000000000000000000,0,0xabab.*,2025-01-02T10:00:00.000Z,/)
+  })
+
+  it('should apply the filters and time range of GET /api/reports', async () => {
+    const ids = async (query: string) =>
+      (await (await exportReports(route, query)).json()).features.map((f: { id: number }) => f.id)
+
+    expect(await ids('lat=19.43&lng=-99.15&radius=3')).toEqual([3, 2, 1])
+    expect(await ids(`${CENTRO}&status=3`)).toEqual([4])
+    expect(await ids('lat=19.43&lng=-99.15&radius=3&eventType=4')).toEqual([3])
+    expect(await ids(`${CENTRO}&since=2025-01-02T00:00:00Z`)).toEqual([6, 2])
+    expect(await ids(`${CENTRO}&until=${Date.parse('2025-01-01T12:00:00Z') / 1000}`)).toEqual([1])
+  })
+
+  it('should export long-expired reports when asked for a status or time range', async () => {
+    const ids = async (query: string) =>
+      (await (await exportReports(route, query)).json()).features.map((f: { id: number }) => f.id)
+    const twoWeeksAgo = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString()
+
+    expect(await ids(`${CENTRO}&status=2`)).toEqual([5])
+    expect(await ids(`${CENTRO}&since=${twoWeeksAgo}`)).toEqual([6])
+    // Without either, listings stay recent
+    expect(await ids(CENTRO)).toEqual([2, 1])
+  })
+
+  it('should stream exports larger than a batch', async () => {
+    const response = await exportReports(route, 'bbox=-98.3,19,-98.1,19.1&format=csv')
+    const rows = (await response.text()).trimEnd().split('\r\n').slice(1)
+
+    expect(rows).toHaveLength(520)
+    expect(new Set(rows.map((row) => row.split(',')[0])).size).toBe(520)
+    expect(rows[0].startsWith('1519,5,Traffic Jam,')).toBe(true)
+  })
+
+  it('should validate the request', async () => {
+    for (const [query, error] of [
+      ['format=shp', 'format must be one of geojson, kml, csv'],
+      ['bbox=-99.15,19.42,-99.12', 'bbox must be minLng,minLat,maxLng,maxLat'],
+      ['bbox=-99.12,19.42,-99.15,19.44', 'bbox must be minLng,minLat,maxLng,maxLat'],
+      ['lat=north', 'lat and lng must be coordinates and radius a distance in km'],
+      ['status=7', 'status must be between 0 and 3'],
+      ['eventType=9', 'eventType must be between 0 and 5'],
+      ['since=yesterday', 'since and until must be Unix seconds or ISO 8601 dates'],
+      ['since=2025-02-01&until=2025-01-01', 'since must be before until'],
+    ]) {
+      const response = await exportReports(route, query)
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe(error)
+    }
+  })
+
+  it('should return 503 when the cache is not configured', async () => {
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: null }))
+    const withoutDatabase = await import('@/app/api/reports/export/route')
+
+    const response = await exportReports(withoutDatabase, CENTRO)
+    expect(response.status).toBe(503)
+    expect((await response.json()).error).toBe('Database not configured')
+  })
+})
@@ -0,0 +1,129 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+type SearchRoute = typeof import('@/app/api/geocode/route')
+type ReverseRoute = typeof import('@/app/api/geocode/reverse/route')
+
+const get = (route: { GET: (request: NextRequest) => Promise<Response> }, path: string) =>
+  route.GET(new NextRequest(`http://localhost:3000${path}`))
+
+describe('GET /api/geocode', () => {
+  let search: SearchRoute
+  let reverse: ReverseRoute
+
+  beforeAll(async () => {
+    process.env.GEOCODER = 'fixture'
+    vi.resetModules()
+    search = await import('@/app/api/geocode/route')
+    reverse = await import('@/app/api/geocode/reverse/route')
+  })
+
+  it('should search places, biased to the map', async () => {
+    const response = await get(search, '/api/geocode?q=zocalo&bbox=-98.25,19.0,-98.15,19.1')
+    expect(response.status).toBe(200)
+
+    const data = await response.json()
+    expect(data.provider).toBe('fixture')
+    expect(data.places.map((place: { id: string }) => place.id)).toEqual([
+      'fixture:zocalo-puebla',
+      'fixture:zocalo-cdmx',
+    ])
+
+    const deprecated = await (await get(search, '/api/geocode?q=zocalo&bounds=19.0,-98.25,19.1,-98.15')).json()
+    expect(deprecated.places.map((place: { id: string }) => place.id)).toEqual(data.places.map((place: { id: string }) => place.id))
+
+    const near = await (await get(search, '/api/geocode?q=zocalo&near=19.4326,-99.1332&limit=1')).json()
+    expect(near.places).toEqual([expect.objectContaining({ id: 'fixture:zocalo-cdmx', name: 'Zócalo' })])
+  })
+
+  it('should reject bad search parameters', async () => {
+    const cases: [string, string][] = [
+      ['', 'q is required'],
+      [`q=${'a'.repeat(201)}`, 'q must be at most 200 characters'],
+      ['q=zocalo&bbox=-99,19', 'bbox must be minLng,minLat,maxLng,maxLat and near must be lat,lng'],
+      ['q=zocalo&bounds=19,-99', 'bbox must be minLng,minLat,maxLng,maxLat and near must be lat,lng'],
+      ['q=zocalo&near=north', 'bbox must be minLng,minLat,maxLng,maxLat and near must be lat,lng'],
+      ['q=zocalo&limit=11', 'limit must be between 1 and 10'],
+      ['q=zocalo&lang=es_MX!', 'lang must be a language tag'],
+    ]
+    for (const [query, error] of cases) {
+      const response = await get(search, `/api/geocode?${query}`)
+      expect(response.status).toBe(400)
+      expect(await response.json()).toEqual({ error })
+    }
+  })
+
+  it('should look up the address at a point', async () => {
+    const response = await get(reverse, '/api/geocode/reverse?lat=19.4353&lng=-99.1410')
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      place: expect.objectContaining({ id: 'fixture:bellas-artes' }),
+      provider: 'fixture',
+    })
+
+    const nothing = await get(reverse, '/api/geocode/reverse?lat=0&lng=0')
+    expect(await nothing.json()).toEqual({ place: null, provider: 'fixture' })
+
+    const invalid = await get(reverse, '/api/geocode/reverse?lat=95&lng=0')
+    expect(invalid.status).toBe(400)
+    expect(await invalid.json()).toEqual({ error: 'lat and lng must be valid coordinates' })
+  })
+
+  it('should suggest places as the user types where the provider allows it', async () => {
+    const data = await (await get(search, '/api/geocode?q=bellas&autocomplete=1')).json()
+    expect(data).toEqual({
+      places: [expect.objectContaining({ id: 'fixture:bellas-artes' })],
+      provider: 'fixture',
+      autocomplete: true,
+    })
+  })
+
+  it('should not send autocomplete searches to the public Nominatim instance', async () => {
+    const fetch = vi.fn()
+    vi.stubGlobal('fetch', fetch)
+    process.env.GEOCODER = 'nominatim'
+    vi.resetModules()
+    const nominatim = await import('@/app/api/geocode/route')
+
+    const response = await get(nominatim, '/api/geocode?q=bellas&autocomplete=1')
+    process.env.GEOCODER = 'fixture'
+    vi.unstubAllGlobals()
+    expect(await response.json()).toEqual({ places: [], provider: 'nominatim', autocomplete: false })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('should rate limit each client and all clients together', async () => {
+    process.env.GEOCODE_IP_BURST = '2'
+    process.env.GEOCODE_SERVER_BURST = '3'
+    vi.resetModules()
+    const limited = await import('@/app/api/geocode/route')
+
+    const from = (ip: string) =>
+      limited.GET(new NextRequest('http://localhost:3000/api/geocode?q=zocalo', { headers: { 'x-forwarded-for': ip } }))
+    expect((await from('198.51.100.1')).status).toBe(200)
+    delete process.env.GEOCODE_IP_BURST
+    delete process.env.GEOCODE_SERVER_BURST
+    expect((await from('198.51.100.1')).status).toBe(200)
+
+    const throttled = await from('198.51.100.1')
+    expect(throttled.status).toBe(429)
+    expect(Number(throttled.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(await throttled.json()).toEqual(expect.objectContaining({ code: 'RATE_LIMITED' }))
+
+    // Another client gets the last of the server's budget
+    expect((await from('198.51.100.2')).status).toBe(200)
+    expect((await from('198.51.100.3')).status).toBe(429)
+  })
+
+  it('should answer 500 when GEOCODER names an unknown provider', async () => {
+    process.env.GEOCODER = 'mapquest'
+    vi.resetModules()
+    const misconfigured = await import('@/app/api/geocode/reverse/route')
+
+    const response = await get(misconfigured, '/api/geocode/reverse?lat=19.4353&lng=-99.1410')
+    process.env.GEOCODER = 'fixture'
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: 'Failed to look up address' })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import sharp from 'sharp'
+
+const originalEnv = process.env
+
+async function upload(content: Buffer, type = 'image/jpeg') {
+  const { POST } = await import('@/app/api/upload/route')
+  const formData = new FormData()
+  formData.append('file', new File([content], 'photo.jpg', { type }))
+  return POST(new NextRequest('http://localhost:3000/api/upload', { method: 'POST', body: formData }))
+}
+
+async function fetchMedia(url: string) {
+  const { GET } = await import('@/app/api/media/[...key]/route')
+  const key = url.replace(/^\/api\/media\//, '').split('/')
+  return GET(new NextRequest(`http://localhost:3000${url}`), { params: Promise.resolve({ key }) })
+}
+
+describe('Media API', () => {
+  let dir: string
+  let photo: Buffer
+
+  beforeEach(async () => {
+    vi.resetModules()
+    dir = await mkdtemp(join(tmpdir(), 'roadguard-media-'))
+    photo = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#3366cc' } }).jpeg().toBuffer()
+    process.env = {
+      ...originalEnv,
+      DO_SPACES_KEY: '',
+      DO_SPACES_SECRET: '',
+      DO_SPACES_BUCKET: '',
+      STORAGE_DRIVER: '',
+      STORAGE_LOCAL_DIR: dir,
+    }
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('local driver', () => {
+    it('should store uploads on disk when nothing else is configured, and serve them back', async () => {
+      const response = await upload(photo)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.url).toMatch(/^\/api\/media\/roadguard\/\d+-[a-z0-9]+\.jpg$/)
+
+      const served = await fetchMedia(data.url)
+      const body = Buffer.from(await served.arrayBuffer())
+
+      expect(served.status).toBe(200)
+      expect(served.headers.get('content-type')).toBe('image/jpeg')
+      expect(served.headers.get('cache-control')).toContain('immutable')
+      expect(served.headers.get('x-content-type-options')).toBe('nosniff')
+      expect((await sharp(body).metadata()).width).toBe(8)
+    })
+
+    it('should return 404 for unknown keys and paths outside the directory', async () => {
+      expect((await fetchMedia('/api/media/roadguard/0-missing.jpg')).status).toBe(404)
+      expect((await fetchMedia('/api/media/roadguard/../../package.json')).status).toBe(404)
+      expect((await fetchMedia('/api/media/.env')).status).toBe(404)
+    })
+
+    it('should accept the returned URLs as report photos', async () => {
+      const { url } = await (await upload(photo)).json()
+      const { getPhotoUrlPrefix, parseReportContent } = await import('@/lib/details')
+
+      expect(parseReportContent({ photos: [url] }, getPhotoUrlPrefix())).toEqual({ description: '', photos: [url] })
+    })
+  })
+
+  describe('content-addressed driver', () => {
+    beforeEach(() => {
+      process.env.STORAGE_DRIVER = 'cid'
+    })
+
+    it('should name uploads by CID and store the same photo once', async () => {
+      const { computeCid } = await import('@/lib/storage')
+
+      const first = await (await upload(photo)).json()
+      const second = await (await upload(photo)).json()
+
+      // The stored bytes are the re-encoded image, so its CID is what counts
+      const served = await fetchMedia(first.url)
+      const body = Buffer.from(await served.arrayBuffer())
+
+      expect(first.filename).toBe(`ipfs/${computeCid(body)}`)
+      expect(first.url).toBe(`/api/media/${first.filename}`)
+      expect(second.url).toBe(first.url)
+    })
+
+    it('should link to the gateway when one is configured', async () => {
+      process.env.STORAGE_CID_GATEWAY = 'https://ipfs.example.org'
+
+      const { url } = await (await upload(photo)).json()
+
+      expect(url).toMatch(/^https:\/\/ipfs\.example\.org\/ipfs\/bafkrei[a-z2-7]{52}$/)
+    })
+  })
+})
@@ -0,0 +1,327 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { reactorMessage } from '@/lib/comments/reactors'
+
+type CommentsRoute = typeof import('@/app/api/comments/route')
+type FlagsRoute = typeof import('@/app/api/comments/flags/route')
+type AdminRoute = typeof import('@/app/api/admin/moderation/route')
+type LogRoute = typeof import('@/app/api/admin/moderation/log/route')
+
+const deviceReactor = () => ({ type: 'device', token: generatePrivateKey() })
+
+async function walletReactor() {
+  const account = privateKeyToAccount(generatePrivateKey())
+  const signedAt = Date.now()
+  const signature = await account.signMessage({ message: reactorMessage({ address: account.address, signedAt }) })
+  return { type: 'wallet', address: account.address, signedAt, signature }
+}
+const ALICE = { authorization: 'Bearer alice-token' }
+
+// The same cases run against the in-memory stores and against Postgres
+// (PGlite, with database/schema.sql applied)
+const backends = {
+  memory: async () => null,
+  postgres: async () => {
+    const client = new PGlite()
+    await client.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+    return drizzle(client)
+  },
+}
+
+describe.each(Object.keys(backends) as (keyof typeof backends)[])('Comment moderation (%s)', (backend) => {
+  const originalEnv = process.env
+  let comments: CommentsRoute
+  let flags: FlagsRoute
+  let admin: AdminRoute
+  let auditLog: LogRoute
+
+  beforeAll(async () => {
+    process.env = {
+      ...originalEnv,
+      MODERATOR_TOKENS: 'alice:alice-token, bob:bob-token',
+      COMMENT_FLAG_HIDE_THRESHOLD: '2',
+    }
+    const database = await backends[backend]()
+    vi.resetModules()
+    vi.doMock('@/lib/db', () => ({ db: database }))
+    comments = await import('@/app/api/comments/route')
+    flags = await import('@/app/api/comments/flags/route')
+    admin = await import('@/app/api/admin/moderation/route')
+    auditLog = await import('@/app/api/admin/moderation/log/route')
+  }, 120_000)
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  const request = (url: string, method: string, body?: object, headers?: Record<string, string>) =>
+    new NextRequest(`http://localhost:3000${url}`, { method, body: body && JSON.stringify(body), headers })
+
+  async function newComment(label: string, reactor = deviceReactor()) {
+    const reportId = `test-${label}-${Date.now()}`
+    const response = await comments.POST(request('/api/comments', 'POST', { reportId, text: label, reactor }))
+    return { reportId, commentId: (await response.json()).comment.id as string, reactor }
+  }
+
+  // A fresh wallet reactor unless the body names one; only wallet flags hide comments
+  const flag = async (
+    comment: { reportId: string; commentId: string },
+    body: object = {},
+    headers?: Record<string, string>
+  ) =>
+    flags.POST(
+      request(
+        '/api/comments/flags',
+        'POST',
+        {
+          reportId: comment.reportId,
+          commentId: comment.commentId,
+          reason: 'abuse',
+          reactor: await walletReactor(),
+          ...body,
+        },
+        headers
+      )
+    )
+
+  const listed = async (reportId: string) =>
+    (await comments.GET(request(`/api/comments?reportId=${reportId}`, 'GET'))).json()
+
+  const moderate = (body: object, headers: Record<string, string> = ALICE) =>
+    admin.POST(request('/api/admin/moderation', 'POST', body, headers))
+
+  const queue = async () =>
+    (await (await admin.GET(request('/api/admin/moderation', 'GET', undefined, ALICE))).json()).comments as {
+      id: string
+      status: string
+      reactor: string | null
+      flags: { count: number; wallets: number; reasons: Record<string, number>; notes: string[] }
+    }[]
+
+  const entries = async (query = '') =>
+    (await (await auditLog.GET(request(`/api/admin/moderation/log${query}`, 'GET', undefined, ALICE))).json())
+
+  describe('POST /api/comments/flags', () => {
+    it('should validate the flag', async () => {
+      const comment = await newComment('flag-validate')
+
+      for (const [body, error] of [
+        [{ reason: undefined }, 'reportId, commentId, and reason are required'],
+        [{ reason: 'boring' }, 'Invalid flag reason'],
+        [{ note: 'x'.repeat(201) }, 'Note too long (max 200 characters)'],
+        [{ reactor: undefined }, 'reactor is required'],
+      ] as const) {
+        const response = await flag(comment, body)
+        expect(response.status).toBe(400)
+        expect((await response.json()).error).toBe(error)
+      }
+
+      expect((await flag({ ...comment, commentId: 'missing' })).status).toBe(404)
+    })
+
+    it('should hide a comment once enough wallet reactors flag it', async () => {
+      const comment = await newComment('flag-hide')
+      const reactor = await walletReactor()
+
+      const first = await (await flag(comment, { reactor, reason: 'doxxing', note: 'Posts a home address' })).json()
+      expect(first).toEqual({ success: true, hidden: false })
+
+      // The same reactor flagging twice still counts once, and device flags don't count
+      expect((await (await flag(comment, { reactor })).json()).hidden).toBe(false)
+      for (let i = 0; i < 3; i++) {
+        expect((await (await flag(comment, { reactor: deviceReactor() })).json()).hidden).toBe(false)
+      }
+      expect((await listed(comment.reportId)).total).toBe(1)
+
+      expect((await (await flag(comment)).json()).hidden).toBe(true)
+
+      const after = await listed(comment.reportId)
+      expect(after.comments).toEqual([])
+      expect(after.total).toBe(0)
+
+      const react = await comments.PATCH(
+        request('/api/comments', 'PATCH', { ...comment, reaction: 'helpful', reactor: deviceReactor() })
+      )
+      expect(react.status).toBe(404)
+
+      const queued = (await queue()).find((item) => item.id === comment.commentId)!
+      expect(queued.status).toBe('hidden')
+      expect(queued.flags.count).toBe(5)
+      expect(queued.flags.wallets).toBe(2)
+      expect(queued.flags.reasons.doxxing).toBe(1)
+      expect(queued.flags.notes).toEqual(['Posts a home address'])
+      expect(queued.reactor).toMatch(/^device:[0-9a-f]{64}$/)
+
+      const { entries: log } = await entries()
+      expect(log.find((entry: { commentId: string }) => entry.commentId === comment.commentId)).toMatchObject({
+        action: 'auto_hide',
+        moderator: 'system',
+        reportId: comment.reportId,
+        reason: '2 wallet flags',
+      })
+    })
+
+    it('should limit flags per client address on a comment', async () => {
+      const comment = await newComment('flag-ip')
+      const other = await newComment('flag-ip-other')
+      const headers = { 'x-forwarded-for': '203.0.113.9' }
+
+      expect((await flag(comment, {}, headers)).status).toBe(200)
+      const limited = await flag(comment, {}, headers)
+      expect(limited.status).toBe(429)
+      expect((await limited.json()).code).toBe('RATE_LIMITED')
+      expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+
+      expect((await flag(other, {}, headers)).status).toBe(200)
+      expect((await flag(comment, {}, { 'x-forwarded-for': '203.0.113.10' })).status).toBe(200)
+    })
+  })
+
+  describe('/api/admin/moderation', () => {
+    it('should require a moderator token', async () => {
+      for (const headers of [{}, { authorization: 'Bearer wrong' }, { authorization: 'alice-token' }]) {
+        expect((await admin.GET(request('/api/admin/moderation', 'GET', undefined, headers))).status).toBe(401)
+        expect((await moderate({ action: 'approve', commentId: 'x' }, headers)).status).toBe(401)
+        expect((await auditLog.GET(request('/api/admin/moderation/log', 'GET', undefined, headers))).status).toBe(401)
+      }
+    })
+
+    it('should return 503 without MODERATOR_TOKENS', async () => {
+      const tokens = process.env.MODERATOR_TOKENS
+      delete process.env.MODERATOR_TOKENS
+      try {
+        expect((await admin.GET(request('/api/admin/moderation', 'GET', undefined, ALICE))).status).toBe(503)
+      } finally {
+        process.env.MODERATOR_TOKENS = tokens
+      }
+    })
+
+    it('should list flagged comments but not unflagged ones', async () => {
+      const flagged = await newComment('queue-flagged')
+      const quiet = await newComment('queue-quiet')
+      await flag(flagged, { reason: 'spam' })
+
+      const ids = (await queue()).map((item) => item.id)
+      expect(ids).toContain(flagged.commentId)
+      expect(ids).not.toContain(quiet.commentId)
+    })
+
+    it('should restore an approved comment and keep it visible', async () => {
+      const comment = await newComment('approve')
+      await flag(comment)
+      await flag(comment)
+      expect((await listed(comment.reportId)).total).toBe(0)
+
+      const response = await moderate({ action: 'approve', commentId: comment.commentId, reason: 'Not abusive' })
+      expect(response.status).toBe(200)
+      expect((await response.json()).comment.status).toBe('approved')
+
+      expect((await listed(comment.reportId)).total).toBe(1)
+      expect((await (await flag(comment)).json()).hidden).toBe(false)
+      expect((await listed(comment.reportId)).total).toBe(1)
+      expect((await queue()).map((item) => item.id)).not.toContain(comment.commentId)
+    })
+
+    it('should delete a comment', async () => {
+      const comment = await newComment('delete')
+      await flag(comment)
+
+      const response = await moderate({ action: 'delete', commentId: comment.commentId })
+      expect(response.status).toBe(200)
+      expect((await listed(comment.reportId)).total).toBe(0)
+      expect((await queue()).map((item) => item.id)).not.toContain(comment.commentId)
+
+      expect((await moderate({ action: 'delete', commentId: comment.commentId })).status).toBe(404)
+    })
+
+    it('should delete replies with the comment they answer', async () => {
+      const comment = await newComment('delete-thread')
+      const reply = await comments.POST(
+        request('/api/comments', 'POST', {
+          reportId: comment.reportId,
+          text: 'Reply',
+          parentId: comment.commentId,
+          reactor: deviceReactor(),
+        })
+      )
+      const replyId = (await reply.json()).comment.id
+
+      expect((await listed(comment.reportId)).total).toBe(2)
+      await moderate({ action: 'delete', commentId: comment.commentId })
+
+      expect((await listed(comment.reportId)).total).toBe(0)
+      expect((await moderate({ action: 'approve', commentId: replyId })).status).toBe(404)
+    })
+
+    it("should ban a comment's author from commenting, reacting and flagging", async () => {
+      const comment = await newComment('ban')
+      const other = await newComment('ban-other')
+
+      const response = await moderate({ action: 'ban', commentId: comment.commentId, reason: 'Doxxing' })
+      const data = await response.json()
+      expect(response.status).toBe(200)
+      expect(data.alreadyBanned).toBe(false)
+      expect(data.reactor).toMatch(/^device:/)
+
+      const post = await comments.POST(
+        request('/api/comments', 'POST', { reportId: other.reportId, text: 'Again', reactor: comment.reactor })
+      )
+      expect(post.status).toBe(403)
+      expect((await post.json()).error).toBe('This reactor is banned')
+
+      const react = await comments.PATCH(
+        request('/api/comments', 'PATCH', { ...other, reaction: 'helpful', reactor: comment.reactor })
+      )
+      expect(react.status).toBe(403)
+      expect((await flag(other, { reactor: comment.reactor })).status).toBe(403)
+
+      // Others are unaffected
+      expect((await flag(other)).status).toBe(200)
+
+      const again = await (await moderate({ action: 'ban', reactor: data.reactor })).json()
+      expect(again.alreadyBanned).toBe(true)
+    })
+
+    it('should reject unknown actions and missing targets', async () => {
+      expect((await moderate({ action: 'shadowban', commentId: 'x' })).status).toBe(400)
+      expect((await moderate({ action: 'approve' })).status).toBe(400)
+      expect((await moderate({ action: 'ban' })).status).toBe(400)
+      expect((await moderate({ action: 'approve', commentId: 'missing' })).status).toBe(404)
+    })
+  })
+
+  describe('GET /api/admin/moderation/log', () => {
+    it('should record every action with its moderator, newest first', async () => {
+      const comment = await newComment('audit')
+      await moderate({ action: 'approve', commentId: comment.commentId })
+      await moderate({ action: 'delete', commentId: comment.commentId, reason: 'Changed my mind' }, { authorization: 'Bearer bob-token' })
+
+      const { entries: log } = await entries()
+      const mine = log.filter((entry: { commentId: string }) => entry.commentId === comment.commentId)
+      expect(mine.map((entry: { action: string; moderator: string }) => [entry.action, entry.moderator])).toEqual([
+        ['delete', 'bob'],
+        ['approve', 'alice'],
+      ])
+      expect(mine[0]).toMatchObject({ reportId: comment.reportId, reason: 'Changed my mind' })
+      expect(mine[0].reactor).toMatch(/^device:/)
+      expect(mine[0]).not.toHaveProperty('text')
+    })
+
+    it('should page with before', async () => {
+      const first = await entries('?limit=1')
+      expect(first.entries).toHaveLength(1)
+      expect(first.nextBefore).toBe(first.entries[0].id)
+
+      const second = await entries(`?limit=1&before=${first.nextBefore}`)
+      expect(second.entries[0].id).toBeLessThan(first.entries[0].id)
+
+      expect((await auditLog.GET(request('/api/admin/moderation/log?before=x', 'GET', undefined, ALICE))).status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const originalEnv = process.env
+
+const report = {
+  commitment: `0x${'ab'.repeat(32)}`,
+  latitude: 19.4326,
+  longitude: -99.1332,
+  eventType: 0,
+}
+
+const post = (body: unknown, ip = '203.0.113.7') =>
+  new NextRequest('http://localhost:3000/api/relay/report', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': ip },
+    body: JSON.stringify(body),
+  })
+
+describe('Relay API', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    process.env = {
+      ...originalEnv,
+      DATABASE_URL: '',
+      RELAYER_PRIVATE_KEY: '',
+      RELAY_POW_DIFFICULTY: '0',
+      RELAY_IP_BURST: '1',
+    }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe('POST /api/relay/report', () => {
+    it('should return 400 for an invalid commitment', async () => {
+      const { POST } = await import('@/app/api/relay/report/route')
+
+      const response = await POST(post({ ...report, commitment: '0x1234' }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 400 for coordinates out of range', async () => {
+      const { POST } = await import('@/app/api/relay/report/route')
+
+      for (const coordinates of [{ latitude: 91 }, { longitude: -180.5 }]) {
+        const response = await POST(post({ ...report, ...coordinates }))
+        expect(response.status).toBe(400)
+        expect((await response.json()).error).toMatch(/^Invalid coordinates/)
+      }
+    })
+
+    it('should return 400 for photos that were not uploaded here', async () => {
+      const { POST } = await import('@/app/api/relay/report/route')
+
+      const response = await POST(post({ ...report, photos: ['https://evil.example.com/a.jpg'] }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 429 with Retry-After once an IP is over its limit', async () => {
+      const { POST } = await import('@/app/api/relay/report/route')
+
+      const first = await POST(post(report))
+      expect(first.status).toBe(500) // admitted, but no relayer wallet in tests
+
+      const second = await POST(post(report))
+      const data = await second.json()
+
+      expect(second.status).toBe(429)
+      expect(data.code).toBe('RATE_LIMITED')
+      expect(second.headers.get('Retry-After')).toBe(String(data.retryAfter))
+    })
+
+    it('should return 429 when proof of work is missing', async () => {
+      process.env.RELAY_POW_DIFFICULTY = '8'
+      const { POST } = await import('@/app/api/relay/report/route')
+
+      const response = await POST(post(report))
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data.code).toBe('POW_REQUIRED')
+    })
+  })
+
+  describe('POST /api/relay/claim', () => {
+    const claim = (body: unknown) =>
+      new NextRequest('http://localhost:3000/api/relay/claim', { method: 'POST', body: JSON.stringify(body) })
+
+    it('should return 400 for an invalid secret', async () => {
+      const { POST } = await import('@/app/api/relay/claim/route')
+
+      const response = await POST(claim({ secret: '0x12', recipient: `0x${'bb'.repeat(20)}`, maxFee: '1' }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 400 for duplicate secrets in a batch', async () => {
+      const { POST } = await import('@/app/api/relay/claim/route')
+      const secret = `0x${'11'.repeat(32)}`
+
+      const response = await POST(claim({ secrets: [secret, secret], recipient: `0x${'bb'.repeat(20)}`, maxFee: '1' }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should require the fee the user agreed to', async () => {
+      const { POST } = await import('@/app/api/relay/claim/route')
+
+      const response = await POST(claim({ secret: `0x${'11'.repeat(32)}`, recipient: `0x${'bb'.repeat(20)}` }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toContain('maxFee')
+    })
+  })
+
+  describe('POST /api/relay/claim/quote', () => {
+    it('should rate limit quotes per IP', async () => {
+      process.env.RELAY_QUOTE_IP_BURST = '1'
+      const { POST } = await import('@/app/api/relay/claim/quote/route')
+      const quote = () =>
+        POST(
+          new NextRequest('http://localhost:3000/api/relay/claim/quote', {
+            method: 'POST',
+            headers: { 'x-forwarded-for': '203.0.113.7' },
+            body: JSON.stringify({ secret: `0x${'11'.repeat(32)}` }),
+          })
+        )
+
+      expect((await quote()).status).toBe(500) // admitted, but no relayer wallet in tests
+      const limited = await quote()
+      expect(limited.status).toBe(429)
+      expect((await limited.json()).code).toBe('RATE_LIMITED')
+    })
+  })
+
+  describe('GET /api/relay/challenge', () => {
+    it('should issue a challenge at the configured difficulty', async () => {
+      process.env.RELAY_POW_DIFFICULTY = '12'
+      const { GET } = await import('@/app/api/relay/challenge/route')
+
+      const data = await (await GET()).json()
+
+      expect(data.difficulty).toBe(12)
+      expect(data.challenge.split('.')).toHaveLength(4)
+    })
+  })
+})
+
+describe('Relay API logging', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    process.env = { ...originalEnv, DATABASE_URL: '', RELAYER_PRIVATE_KEY: '', RELAY_POW_DIFFICULTY: '8', LOG_LEVEL: 'debug' }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('should not log the commitment, coordinates or IP of a request', async () => {
+    const { setLogSink } = await import('@/lib/logger')
+    const { POST } = await import('@/app/api/relay/report/route')
+    const lines: string[] = []
+    const restore = setLogSink((entry) => lines.push(JSON.stringify(entry)))
+
+    try {
+      await POST(post(report, '198.51.100.23'))
+    } finally {
+      restore()
+    }
+
+    const output = lines.join('\n')
+    expect(lines.length).toBeGreaterThan(0)
+    expect(output).not.toContain(report.commitment)
+    expect(output).not.toContain('198.51.100.23')
+    expect(output).not.toContain('19.4326')
+    expect(output).not.toContain('99.1332')
+  })
+})
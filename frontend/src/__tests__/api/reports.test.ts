@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { signIngestPayload } from '@/lib/ingest'
+
+const originalEnv = process.env
+
+const report = {
+  chainReportId: 1,
+  reporterCommitment: `0x${'ab'.repeat(32)}`,
+  latitude: 4071280000,
+  longitude: -7400600000,
+  eventType: 0,
+  expiresAt: 1_700_086_400,
+  txHash: `0x${'cd'.repeat(32)}`,
+}
+
+describe('Reports API', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    process.env = { ...originalEnv, INGEST_HMAC_SECRET: 'test-secret', DATABASE_URL: '' }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe('GET /api/reports', () => {
+    it('should return an empty list when the cache is not configured', async () => {
+      const { GET } = await import('@/app/api/reports/route')
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/reports?lat=19.43&lng=-99.13'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.reports).toEqual([])
+      expect(data.error).toBe('Database not configured')
+    })
+  })
+
+  describe('GET /api/reports/:id', () => {
+    const get = async (id: string) => {
+      const { GET } = await import('@/app/api/reports/[id]/route')
+      return GET(new NextRequest(`http://localhost:3000/api/reports/${id}`), { params: Promise.resolve({ id }) })
+    }
+
+    it('should return 400 for an invalid id', async () => {
+      expect((await get('abc')).status).toBe(400)
+    })
+
+    it('should return 404 for a report without details', async () => {
+      expect((await get('7')).status).toBe(404)
+    })
+
+    it('should return the description, photos and integrity of a report', async () => {
+      const { getReportDetailsStore, reportContentHash } = await import('@/lib/details')
+      const content = { description: 'Lane closed', photos: ['https://bucket.example.com/roadguard/a.jpg'] }
+      await getReportDetailsStore().save({
+        chainReportId: 7,
+        ...content,
+        contentHash: reportContentHash(content),
+        txHash: report.txHash as `0x${string}`,
+        anchored: true,
+      })
+
+      const response = await get('7')
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ id: 7, ...content, contentHash: reportContentHash(content) })
+      expect(data.integrity).toEqual({ contentMatches: true, anchored: true })
+    })
+
+    it('should line up photo variants with the photos that have them', async () => {
+      const { getReportDetailsStore, reportContentHash } = await import('@/lib/details')
+      const { getUploadedPhotoStore } = await import('@/lib/media')
+      const variant = (name: string, size: number) => ({
+        url: `/api/media/roadguard/1-a-${name}.webp`,
+        width: size,
+        height: size,
+      })
+      const uploaded = {
+        url: '/api/media/roadguard/1-a.jpg',
+        width: 3000,
+        height: 3000,
+        blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+        variants: { thumb: variant('thumb', 320), feed: variant('feed', 960), full: variant('full', 2048) },
+        redaction: { automatic: true, faces: 1, plates: 0, manual: 0 },
+      }
+      await getUploadedPhotoStore().save(uploaded)
+      const content = { description: '', photos: [uploaded.url, 'https://bucket.example.com/roadguard/old.jpg'] }
+      await getReportDetailsStore().save({
+        chainReportId: 8,
+        ...content,
+        contentHash: reportContentHash(content),
+        txHash: report.txHash as `0x${string}`,
+        anchored: null,
+      })
+
+      const data = await (await get('8')).json()
+
+      expect(data.photos).toEqual(content.photos)
+      expect(data.images).toEqual([uploaded, null])
+    })
+  })
+
+  describe('POST /api/reports', () => {
+    it('should return 503 if ingestion is not configured', async () => {
+      process.env.INGEST_HMAC_SECRET = ''
+      const { POST } = await import('@/app/api/reports/route')
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/reports', {
+        method: 'POST',
+        body: JSON.stringify(report),
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.code).toBe('INGEST_NOT_CONFIGURED')
+    })
+
+    it('should return 401 for unsigned requests', async () => {
+      const { POST } = await import('@/app/api/reports/route')
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/reports', {
+        method: 'POST',
+        body: JSON.stringify(report),
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.code).toBe('MISSING_SIGNATURE')
+    })
+
+    it('should return 401 when the body was changed after signing', async () => {
+      const { POST } = await import('@/app/api/reports/route')
+      const headers = signIngestPayload(JSON.stringify(report), 'test-secret')
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/reports', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...report, eventType: 3 }),
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.code).toBe('INVALID_SIGNATURE')
+    })
+
+    it('should return 503 for signed requests when the database is missing', async () => {
+      const { POST } = await import('@/app/api/reports/route')
+      const body = JSON.stringify(report)
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/reports', {
+        method: 'POST',
+        headers: signIngestPayload(body, 'test-secret'),
+        body,
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.code).toBe('DATABASE_UNAVAILABLE')
+    })
+  })
+})
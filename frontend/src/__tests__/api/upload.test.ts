@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { NextRequest } from 'next/server'
+import sharp from 'sharp'
 
 // Create mock for S3Client as a class
 const mockSend = vi.fn().mockResolvedValue({})
@@ -18,6 +19,34 @@ vi.mock('@aws-sdk/client-s3', () => {
 // Set environment variables for tests
 const originalEnv = process.env
 
+const FORMATS = { 'image/jpeg': 'jpeg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' } as const
+
+// A small real image, as a phone would save it: with GPS tags and rotated
+async function photo(type: keyof typeof FORMATS) {
+  const image = sharp({ create: { width: 6, height: 4, channels: 3, background: '#cc3300' } })[FORMATS[type]]()
+  if (type === 'image/gif') return image.toBuffer()
+  return image
+    .withExif({
+      IFD0: { Make: 'PhoneCo', Model: 'X1 Pro' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '19/1 25/1 36/1', GPSLongitudeRef: 'W', GPSLongitude: '99/1 7/1 59/1' },
+    })
+    .withMetadata({ orientation: 6 })
+    .toBuffer()
+}
+
+function uploadRequest(content: BlobPart, name: string, type: string, fields: Record<string, string> = {}) {
+  const formData = new FormData()
+  formData.append('file', new File([content], name, { type }))
+  for (const [field, value] of Object.entries(fields)) formData.append(field, value)
+  return new NextRequest('http://localhost:3000/api/upload', { method: 'POST', body: formData })
+}
+
+type PutInput = { Body: Buffer; ContentType: string; Key: string }
+
+// Objects sent to storage: the original first, then its variants
+const storedObjects = () => mockSend.mock.calls.map(([command]) => command.input as PutInput)
+const storedObject = () => storedObjects()[0]
+
 describe('Upload API', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -30,6 +59,7 @@ describe('Upload API', () => {
       DO_SPACES_SECRET: 'test-secret',
       DO_SPACES_BUCKET: 'test-bucket',
       DO_SPACES_ENDPOINT: 'nyc3.digitaloceanspaces.com',
+      STORAGE_DRIVER: '',
     }
   })
 
@@ -39,6 +69,8 @@ describe('Upload API', () => {
 
   describe('POST /api/upload', () => {
     it('should return 503 if storage is not configured', async () => {
+      // Outside production, no configuration falls back to local disk
+      process.env = { ...process.env, NODE_ENV: 'production' }
       process.env.DO_SPACES_KEY = ''
       process.env.DO_SPACES_SECRET = ''
       process.env.DO_SPACES_BUCKET = ''
@@ -140,14 +172,7 @@ describe('Upload API', () => {
     it('should accept JPEG files', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      const formData = new FormData()
-      const file = new File(['fake image data'], 'test.jpg', { type: 'image/jpeg' })
-      formData.append('file', file)
-
-      const request = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      const request = uploadRequest(await photo('image/jpeg'), 'test.jpg', 'image/jpeg')
 
       const response = await POST(request)
       const data = await response.json()
@@ -163,14 +188,7 @@ describe('Upload API', () => {
     it('should accept PNG files', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      const formData = new FormData()
-      const file = new File(['fake png data'], 'test.png', { type: 'image/png' })
-      formData.append('file', file)
-
-      const request = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      const request = uploadRequest(await photo('image/png'), 'test.png', 'image/png')
 
       const response = await POST(request)
       const data = await response.json()
@@ -183,14 +201,7 @@ describe('Upload API', () => {
     it('should accept WebP files', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      const formData = new FormData()
-      const file = new File(['fake webp data'], 'test.webp', { type: 'image/webp' })
-      formData.append('file', file)
-
-      const request = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      const request = uploadRequest(await photo('image/webp'), 'test.webp', 'image/webp')
 
       const response = await POST(request)
       const data = await response.json()
@@ -203,14 +214,7 @@ describe('Upload API', () => {
     it('should accept GIF files', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      const formData = new FormData()
-      const file = new File(['fake gif data'], 'test.gif', { type: 'image/gif' })
-      formData.append('file', file)
-
-      const request = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      const request = uploadRequest(await photo('image/gif'), 'test.gif', 'image/gif')
 
       const response = await POST(request)
       const data = await response.json()
@@ -223,23 +227,8 @@ describe('Upload API', () => {
     it('should generate unique filenames', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      const formData1 = new FormData()
-      const file1 = new File(['data 1'], 'same.jpg', { type: 'image/jpeg' })
-      formData1.append('file', file1)
-
-      const formData2 = new FormData()
-      const file2 = new File(['data 2'], 'same.jpg', { type: 'image/jpeg' })
-      formData2.append('file', file2)
-
-      const request1 = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData1,
-      })
-
-      const request2 = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData2,
-      })
+      const request1 = uploadRequest(await photo('image/jpeg'), 'same.jpg', 'image/jpeg')
+      const request2 = uploadRequest(await photo('image/jpeg'), 'same.jpg', 'image/jpeg')
 
       const response1 = await POST(request1)
       const data1 = await response1.json()
@@ -253,14 +242,7 @@ describe('Upload API', () => {
     it('should return proper URL structure', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      const formData = new FormData()
-      const file = new File(['test'], 'test.jpg', { type: 'image/jpeg' })
-      formData.append('file', file)
-
-      const request = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      const request = uploadRequest(await photo('image/jpeg'), 'test.jpg', 'image/jpeg')
 
       const response = await POST(request)
       const data = await response.json()
@@ -271,16 +253,10 @@ describe('Upload API', () => {
     it('should accept files at exactly 5MB limit', async () => {
       const { POST } = await import('@/app/api/upload/route')
 
-      // Create a file exactly at 5MB (should pass)
+      // Create a file exactly at 5MB (should pass): a real JPEG, padded after its end marker
       const exactContent = new Uint8Array(5 * 1024 * 1024)
-      const formData = new FormData()
-      const file = new File([exactContent], 'exact.jpg', { type: 'image/jpeg' })
-      formData.append('file', file)
-
-      const request = new NextRequest('http://localhost:3000/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
+      exactContent.set(await photo('image/jpeg'))
+      const request = uploadRequest(exactContent, 'exact.jpg', 'image/jpeg')
 
       const response = await POST(request)
       const data = await response.json()
@@ -288,5 +264,195 @@ describe('Upload API', () => {
       expect(response.status).toBe(200)
       expect(data.success).toBe(true)
     })
+    it('should return 400 when the content does not match the declared type', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+
+      const response = await POST(uploadRequest(await photo('image/png'), 'photo.jpg', 'image/jpeg'))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('File content does not match its type.')
+      expect(mockSend).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for files that are not images at all', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+
+      const response = await POST(uploadRequest('<svg onload="alert(1)"/>', 'test.png', 'image/png'))
+
+      expect(response.status).toBe(400)
+      expect(mockSend).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for images that do not decode', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+
+      // Valid signature, truncated body
+      const truncated = (await photo('image/png')).subarray(0, 40)
+      const response = await POST(uploadRequest(truncated, 'test.png', 'image/png'))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Could not read image.')
+      expect(mockSend).not.toHaveBeenCalled()
+    })
+
+    for (const [type, format] of [
+      ['image/jpeg', 'jpeg'],
+      ['image/png', 'png'],
+      ['image/webp', 'webp'],
+    ] as const) {
+      it(`should store ${format} photos without EXIF or GPS, upright`, async () => {
+        const { POST } = await import('@/app/api/upload/route')
+        const input = await photo(type)
+        expect((await sharp(input).metadata()).exif).toBeDefined()
+
+        const response = await POST(uploadRequest(input, `IMG_0001.${format}`, type))
+        expect(response.status).toBe(200)
+
+        const stored = storedObject()
+        const metadata = await sharp(stored.Body).metadata()
+        expect(stored.ContentType).toBe(type)
+        expect(metadata.format).toBe(format)
+        expect(metadata.exif).toBeUndefined()
+        expect(metadata.orientation).toBeUndefined()
+        expect(stored.Body.includes(Buffer.from('PhoneCo'))).toBe(false)
+        // Orientation 6 applied to the pixels: 6x4 becomes 4x6
+        expect([metadata.width, metadata.height]).toEqual([4, 6])
+      })
+    }
+
+    it('should name files by their verified type, not the uploaded name', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+
+      const response = await POST(uploadRequest(await photo('image/webp'), 'photo.jpg.exe', 'image/webp'))
+      const data = await response.json()
+
+      expect(data.filename).toMatch(/\.webp$/)
+      expect(storedObject().Key).toBe(data.filename)
+    })
+    it('should store WebP variants next to the original and return them with a blurhash', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+      const large = await sharp({ create: { width: 3000, height: 2000, channels: 3, background: '#cc3300' } })
+        .jpeg()
+        .toBuffer()
+
+      const response = await POST(uploadRequest(large, 'large.jpg', 'image/jpeg'))
+      const data = await response.json()
+
+      const stem = data.filename.replace(/\.jpg$/, '')
+      expect(storedObjects().map((object) => [object.Key, object.ContentType])).toEqual([
+        [data.filename, 'image/jpeg'],
+        [`${stem}-thumb.webp`, 'image/webp'],
+        [`${stem}-feed.webp`, 'image/webp'],
+        [`${stem}-full.webp`, 'image/webp'],
+      ])
+      expect(data).toMatchObject({ width: 3000, height: 2000 })
+      expect(data.blurhash).toMatch(/^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]{20,}$/)
+      expect(data.variants.thumb).toEqual({
+        url: `https://test-bucket.nyc3.digitaloceanspaces.com/${stem}-thumb.webp`,
+        width: 320,
+        height: 213,
+      })
+      expect(data.variants.feed).toMatchObject({ width: 960, height: 640 })
+      expect(data.variants.full).toMatchObject({ width: 2048, height: 1365 })
+
+      const thumb = await sharp(storedObjects()[1].Body).metadata()
+      expect([thumb.format, thumb.width, thumb.exif]).toEqual(['webp', 320, undefined])
+    })
+
+    it('should remember the variants for the report detail view', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+      const { getUploadedPhotoStore } = await import('@/lib/media')
+
+      const data = await (await POST(uploadRequest(await photo('image/png'), 'a.png', 'image/png'))).json()
+      const stored = await getUploadedPhotoStore().getMany([data.url])
+
+      expect(stored.get(data.url)).toEqual({
+        url: data.url,
+        width: data.width,
+        height: data.height,
+        blurhash: data.blurhash,
+        variants: data.variants,
+        redaction: { automatic: false, faces: 0, plates: 0, manual: 0 },
+      })
+    })
+
+    it('should blur regions painted by the uploader before storing', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+      // Left half black, right half white
+      const pixels = Buffer.alloc(40 * 20 * 3)
+      for (let i = 0; i < 40 * 20; i++) if (i % 40 >= 20) pixels.fill(255, i * 3, i * 3 + 3)
+      const split = await sharp(pixels, { raw: { width: 40, height: 20, channels: 3 } }).png().toBuffer()
+
+      const response = await POST(
+        uploadRequest(split, 'a.png', 'image/png', {
+          blurRegions: JSON.stringify([{ x: 0.25, y: 0, width: 0.5, height: 1 }]),
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.redaction).toEqual({ automatic: false, faces: 0, plates: 0, manual: 1 })
+      const stored = await sharp(storedObject().Body).greyscale().raw().toBuffer()
+      // The sharp edge in the middle is gone, the sides are untouched
+      expect(stored[10 * 40 + 19]).toBeGreaterThan(0)
+      expect(stored[10 * 40 + 20]).toBeLessThan(255)
+      expect([stored[0], stored[39]]).toEqual([0, 255])
+    })
+
+    it('should return 400 for malformed blur regions', async () => {
+      const { POST } = await import('@/app/api/upload/route')
+
+      for (const blurRegions of ['not json', '{}', JSON.stringify([{ x: 2, y: 0, width: 1, height: 1 }])]) {
+        const response = await POST(uploadRequest(await photo('image/png'), 'a.png', 'image/png', { blurRegions }))
+        expect(response.status).toBe(400)
+      }
+      expect(mockSend).not.toHaveBeenCalled()
+    })
+
+    it('should refuse uploads when automatic redaction is on but its models cannot load', async () => {
+      process.env.REDACTION_MODE = 'auto'
+      process.env.REDACTION_FACE_MODEL = 'models/redaction/missing.onnx'
+      process.env.REDACTION_PLATE_MODEL = ''
+      const { POST } = await import('@/app/api/upload/route')
+
+      const response = await POST(uploadRequest(await photo('image/png'), 'a.png', 'image/png'))
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.error).toBe('Photo redaction unavailable')
+      expect(mockSend).not.toHaveBeenCalled()
+    })
+
+    it('should skip plates with a warning when the plate model is missing', async () => {
+      process.env.REDACTION_MODE = 'auto'
+      process.env.REDACTION_FACE_MODEL = ''
+      process.env.REDACTION_PLATE_MODEL = 'models/redaction/missing.onnx'
+      const { POST } = await import('@/app/api/upload/route')
+
+      const response = await POST(uploadRequest(await photo('image/png'), 'a.png', 'image/png'))
+
+      expect(response.status).toBe(200)
+      expect(mockSend).toHaveBeenCalled()
+    })
+
+    it('should return 500 when the detector fails on a readable image', async () => {
+      vi.doMock('@/lib/media', async (importOriginal) => ({
+        ...(await importOriginal<typeof import('@/lib/media')>()),
+        getRegionDetector: async () => async () => {
+          throw new Error('onnxruntime: out of memory')
+        },
+      }))
+      const { POST } = await import('@/app/api/upload/route')
+
+      const response = await POST(uploadRequest(await photo('image/png'), 'a.png', 'image/png'))
+      const data = await response.json()
+
+      expect(response.status).toBe(500)
+      expect(data.error).toBe('Failed to redact photo')
+      expect(mockSend).not.toHaveBeenCalled()
+      vi.doUnmock('@/lib/media')
+    })
   })
 })
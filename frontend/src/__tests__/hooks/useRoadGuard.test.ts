@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { renderHook, act } from "@testing-library/react";
+import { renderHook, act, waitFor } from "@testing-library/react";
 import { generateCommitment, scaleCoordinate, useReporterIdentity } from "@/hooks/useRoadGuard";
 import { keccak256, encodePacked } from "viem";
 
@@ -76,89 +76,144 @@ describe("useRoadGuard Hooks", () => {
   });
 
   describe("useReporterIdentity", () => {
+    const stored = new Map<string, string>();
     const localStorageMock = {
-      getItem: vi.fn(),
-      setItem: vi.fn(),
-      removeItem: vi.fn(),
+      getItem: vi.fn((key: string) => stored.get(key) ?? null),
+      setItem: vi.fn((key: string, value: string) => {
+        stored.set(key, value);
+      }),
+      removeItem: vi.fn((key: string) => {
+        stored.delete(key);
+      }),
       clear: vi.fn(),
     };
 
-    beforeEach(() => {
-      Object.defineProperty(window, "localStorage", { value: localStorageMock });
-      localStorageMock.getItem.mockClear();
+    // The vault session is shared per module, so each test gets a fresh copy
+    let useIdentity: typeof useReporterIdentity;
+
+    const renderLoaded = async () => {
+      const hook = renderHook(() => useIdentity());
+      await waitFor(() => expect(hook.result.current.status).not.toBe("loading"));
+      return hook;
+    };
+
+    beforeEach(async () => {
+      Object.defineProperty(window, "localStorage", { value: localStorageMock, configurable: true });
+      stored.clear();
       localStorageMock.setItem.mockClear();
       localStorageMock.removeItem.mockClear();
+      vi.resetModules();
+      ({ useReporterIdentity: useIdentity } = await import("@/hooks/useRoadGuard"));
     });
 
-    it("starts with null identity", () => {
-      localStorageMock.getItem.mockReturnValue(null);
-
-      const { result } = renderHook(() => useReporterIdentity());
+    it("starts with null identity", async () => {
+      const { result } = await renderLoaded();
 
+      expect(result.current.status).toBe("empty");
       expect(result.current.identity).toBe(null);
       expect(result.current.hasIdentity).toBe(false);
     });
 
-    it("creates identity from passphrase", () => {
-      localStorageMock.getItem.mockReturnValue(null);
+    it("creates identity from passphrase and PIN", async () => {
+      const { result } = await renderLoaded();
 
-      const { result } = renderHook(() => useReporterIdentity());
-
-      act(() => {
-        result.current.createIdentity("test_passphrase");
+      await act(async () => {
+        await result.current.createIdentity("test_passphrase", "123456");
       });
 
-      expect(result.current.identity).not.toBe(null);
+      expect(result.current.status).toBe("unlocked");
+      expect(result.current.identity).toEqual(generateCommitment("test_passphrase"));
       expect(result.current.hasIdentity).toBe(true);
-      expect(result.current.identity?.secret).toMatch(/^0x[a-fA-F0-9]{64}$/);
-      expect(result.current.identity?.commitment).toMatch(/^0x[a-fA-F0-9]{64}$/);
     });
 
-    it("saves identity to localStorage", () => {
-      localStorageMock.getItem.mockReturnValue(null);
-
-      const { result } = renderHook(() => useReporterIdentity());
+    it("never writes the secret to localStorage", async () => {
+      const { result } = await renderLoaded();
 
-      act(() => {
-        result.current.createIdentity("test");
+      await act(async () => {
+        await result.current.createIdentity("test_passphrase", "123456");
       });
 
-      expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        "roadguard_identity",
-        expect.any(String)
-      );
+      const secret = generateCommitment("test_passphrase").secret;
+      expect(Array.from(stored.values()).some((value) => value.includes(secret.slice(2)))).toBe(false);
     });
 
-    it("loads identity from localStorage", () => {
-      const storedIdentity = {
-        secret: "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-        commitment: "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890",
-      };
-      localStorageMock.getItem.mockReturnValue(JSON.stringify(storedIdentity));
+    it("rejects a short PIN", async () => {
+      const { result } = await renderLoaded();
 
-      const { result } = renderHook(() => useReporterIdentity());
+      await expect(result.current.createIdentity("test_passphrase", "123")).rejects.toThrow("PIN");
+      expect(result.current.identity).toBe(null);
+    });
 
-      // Identity is auto-loaded on mount
-      expect(result.current.identity).toEqual(storedIdentity);
-      expect(result.current.hasIdentity).toBe(true);
+    it("locks and unlocks with the PIN", async () => {
+      const { result } = await renderLoaded();
+      await act(async () => {
+        await result.current.createIdentity("test_passphrase", "123456");
+      });
+
+      act(() => result.current.lock());
+      expect(result.current.identity).toBe(null);
+      expect(result.current.isLocked).toBe(true);
+
+      await expect(result.current.unlock("654321")).rejects.toThrow("Incorrect PIN");
+      await act(async () => {
+        await result.current.unlock("123456");
+      });
+      expect(result.current.identity).toEqual(generateCommitment("test_passphrase"));
     });
 
-    it("clears identity", () => {
-      const storedIdentity = {
-        secret: "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-        commitment: "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890",
-      };
-      localStorageMock.getItem.mockReturnValue(JSON.stringify(storedIdentity));
+    it("migrates a plaintext identity once a PIN is set", async () => {
+      const legacy = generateCommitment("old_passphrase");
+      stored.set("roadguard_identity", JSON.stringify(legacy));
+
+      const { result } = await renderLoaded();
 
-      const { result } = renderHook(() => useReporterIdentity());
+      expect(result.current.status).toBe("legacy");
+      expect(result.current.identity).toBe(null);
+
+      await act(async () => {
+        await result.current.unlock("123456");
+      });
+
+      expect(result.current.identity).toEqual(legacy);
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith("roadguard_identity");
+      expect(stored.has("roadguard_identity")).toBe(false);
+    });
+
+    it("clears identity", async () => {
+      const { result } = await renderLoaded();
+      await act(async () => {
+        await result.current.createIdentity("test_passphrase", "123456");
+      });
 
-      act(() => {
-        result.current.clearIdentity();
+      await act(async () => {
+        await result.current.clearIdentity();
       });
 
       expect(result.current.identity).toBe(null);
       expect(result.current.hasIdentity).toBe(false);
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith("roadguard_identity");
+      expect(result.current.status).toBe("empty");
+    });
+
+    it("hands out a fresh derived commitment per report", async () => {
+      const { result } = await renderLoaded();
+      await act(async () => {
+        await result.current.createIdentity("test_passphrase", "123456");
+      });
+
+      let reportIdentity: Awaited<ReturnType<typeof result.current.nextReportIdentity>> | undefined;
+      await act(async () => {
+        reportIdentity = await result.current.nextReportIdentity();
+      });
+
+      expect(reportIdentity?.index).toBe(0);
+      expect(reportIdentity?.commitment).not.toBe(result.current.identity?.commitment);
+      expect(result.current.reportCount).toBe(1);
+      expect(result.current.claimableIdentities.map((identity) => identity.commitment)).toEqual([
+        result.current.identity?.commitment,
+        reportIdentity?.commitment,
+      ]);
+      // The registry links reports together, so it's sealed with the identity
+      expect(localStorageMock.setItem).not.toHaveBeenCalledWith("roadguard_identity_registry", expect.any(String));
     });
   });
 });
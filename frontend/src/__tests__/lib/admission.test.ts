@@ -0,0 +1,274 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { parseEther } from 'viem'
+import {
+  createMemoryRelayJobStore,
+  createPowRule,
+  createRelayAdmission,
+  createSpendCap,
+  createTokenBucket,
+  getClientIp,
+  type AdmissionRequest,
+  type RelayAdmissionConfig,
+  type RelayJobStore,
+} from '@/lib/relay'
+import { createPostgresRelayJobStore } from '@/lib/relay/postgres'
+import { checkPowSolution, solvePow } from '@/lib/relay/pow'
+
+type Database = Parameters<typeof createPostgresRelayJobStore>[0]
+
+const COMMITMENT = `0x${'ab'.repeat(32)}` as `0x${string}`
+const STAKE = parseEther('0.001')
+const NOW = new Date('2025-01-01T12:00:00Z')
+
+const request = (overrides: Partial<AdmissionRequest> = {}): AdmissionRequest => ({
+  ip: '203.0.113.7',
+  commitment: COMMITMENT,
+  stake: STAKE,
+  pow: null,
+  ...overrides,
+})
+
+const later = (ms: number) => new Date(NOW.getTime() + ms)
+
+const reportPayload = (stake: bigint) => ({
+  kind: 'submit_report' as const,
+  commitment: COMMITMENT,
+  latitude: 0,
+  longitude: 0,
+  eventType: 0,
+  stake: stake.toString(),
+})
+
+describe('Token bucket', () => {
+  it('should allow a burst and then report when the next token arrives', () => {
+    const bucket = createTokenBucket({ capacity: 2, refillPerHour: 60 })
+
+    expect(bucket.take('a', NOW).ok).toBe(true)
+    expect(bucket.take('a', NOW).ok).toBe(true)
+    expect(bucket.take('a', NOW)).toEqual({ ok: false, retryAfterMs: 60_000 })
+
+    // Other keys are independent
+    expect(bucket.take('b', NOW).ok).toBe(true)
+    // One token per minute
+    expect(bucket.take('a', later(60_000)).ok).toBe(true)
+  })
+
+  it('should drop idle keys once the map is full', () => {
+    const bucket = createTokenBucket({ capacity: 1, refillPerHour: 60, maxKeys: 2 })
+    bucket.take('a', NOW)
+    bucket.take('b', NOW)
+
+    bucket.take('c', later(120_000))
+
+    expect(bucket.size()).toBe(1)
+  })
+})
+
+describe('Proof of work', () => {
+  const store = createMemoryRelayJobStore()
+  const rule = createPowRule({ difficulty: 8, secret: 'pow-secret', ttlSeconds: 60, store: () => store })
+
+  async function solved(now = NOW) {
+    const { challenge, difficulty } = rule.issue(now)
+    return { challenge, solution: await solvePow(challenge, COMMITMENT, difficulty) }
+  }
+
+  it('should accept a solved challenge once', async () => {
+    const pow = await solved()
+
+    expect(checkPowSolution(pow.challenge, COMMITMENT, pow.solution, 8)).toBe(true)
+    expect(await rule.check(request({ pow }), NOW)).toBeNull()
+    expect(await rule.check(request({ pow }), NOW)).toMatchObject({ code: 'POW_INVALID', retryAfterSeconds: 1 })
+  })
+
+  it('should require a solution', async () => {
+    expect(await rule.check(request(), NOW)).toMatchObject({ code: 'POW_REQUIRED' })
+  })
+
+  it('should reject a solution made for another commitment', async () => {
+    const pow = await solved()
+
+    expect(await rule.check(request({ pow, commitment: `0x${'cd'.repeat(32)}` }), NOW)).toMatchObject({
+      code: 'POW_INVALID',
+    })
+  })
+
+  it('should reject expired and forged challenges', async () => {
+    const pow = await solved()
+    expect(await rule.check(request({ pow }), later(61_000))).toMatchObject({ code: 'POW_INVALID' })
+
+    const other = createPowRule({ difficulty: 8, secret: 'other-secret', ttlSeconds: 60, store: () => store })
+    const { challenge } = other.issue(NOW)
+    const forged = { challenge, solution: await solvePow(challenge, COMMITMENT, 8) }
+    expect(await rule.check(request({ pow: forged }), NOW)).toMatchObject({ code: 'POW_INVALID' })
+  })
+
+  it('should reject challenges issued below the current difficulty', async () => {
+    const easy = createPowRule({ difficulty: 1, secret: 'pow-secret', ttlSeconds: 60, store: () => store })
+    const { challenge } = easy.issue(NOW)
+    const pow = { challenge, solution: await solvePow(challenge, COMMITMENT, 1) }
+
+    expect(await rule.check(request({ pow }), NOW)).toMatchObject({ code: 'POW_INVALID' })
+  })
+})
+
+describe('Spend cap', () => {
+  let store: RelayJobStore
+
+  beforeEach(() => {
+    store = createMemoryRelayJobStore()
+  })
+
+  it('should reject once the hourly budget is used and say when it frees up', async () => {
+    const cap = createSpendCap({ capWei: STAKE * BigInt(2), store: () => store })
+    const first = await cap.enqueue(reportPayload(STAKE))
+    await cap.enqueue(reportPayload(STAKE))
+    if (!first.ok) throw new Error('first report was not queued')
+    const now = new Date(first.job.createdAt.getTime() + 10 * 60_000)
+
+    const result = await cap.enqueue(reportPayload(STAKE), undefined, now)
+
+    expect(result).toMatchObject({ ok: false, rejection: { code: 'SPEND_CAP', retryAfterSeconds: 50 * 60 } })
+    expect(await store.listSpendSince(new Date(0))).toHaveLength(2)
+  })
+
+  it('should not count failed jobs', async () => {
+    const cap = createSpendCap({ capWei: STAKE, store: () => store })
+    const job = await store.enqueue(reportPayload(STAKE))
+    await store.update(job.id, { status: 'failed' })
+
+    expect(await cap.enqueue(reportPayload(STAKE))).toMatchObject({ ok: true })
+  })
+
+  it('should not let concurrent requests overshoot the budget', async () => {
+    const cap = createSpendCap({ capWei: STAKE * BigInt(2), store: () => store })
+
+    const results = await Promise.all([1, 2, 3, 4].map(() => cap.enqueue(reportPayload(STAKE))))
+
+    expect(results.filter((result) => result.ok)).toHaveLength(2)
+    expect(await store.listSpendSince(new Date(0))).toHaveLength(2)
+  })
+})
+
+describe('Postgres relay admission state', () => {
+  let store: RelayJobStore
+
+  beforeAll(async () => {
+    const client = new PGlite()
+    await client.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+    store = createPostgresRelayJobStore(drizzle(client) as unknown as Database)
+  }, 120_000)
+
+  it('should queue report jobs only while they fit the spend cap', async () => {
+    const cap = createSpendCap({ capWei: STAKE * BigInt(2), store: () => store })
+
+    const results = await Promise.all([1, 2, 3].map(() => cap.enqueue(reportPayload(STAKE))))
+
+    expect(results.map((result) => result.ok).sort()).toEqual([false, true, true])
+    const queued = results.find((result) => result.ok)
+    expect(queued?.ok && (await store.get(queued.job.id))?.payload).toEqual(reportPayload(STAKE))
+    expect(await store.listSpendSince(new Date(0))).toHaveLength(2)
+  })
+
+  it('should remember a used challenge until it expires', async () => {
+    expect(await store.claimPowChallenge('challenge', later(60_000), NOW)).toBe(true)
+    expect(await store.claimPowChallenge('challenge', later(60_000), NOW)).toBe(false)
+    expect(await store.claimPowChallenge('challenge', later(120_000), later(61_000))).toBe(true)
+  })
+
+  it('should reject a challenge replayed against another instance', async () => {
+    const options = { difficulty: 8, secret: 'pow-secret', ttlSeconds: 60, store: () => store }
+    const first = createPowRule(options)
+    const second = createPowRule(options)
+    const { challenge, difficulty } = first.issue(NOW)
+    const pow = { challenge, solution: await solvePow(challenge, COMMITMENT, difficulty) }
+
+    expect(await first.check(request({ pow }), NOW)).toBeNull()
+    expect(await second.check(request({ pow }), NOW)).toMatchObject({ code: 'POW_INVALID' })
+  })
+})
+
+describe('Client IP', () => {
+  const headers = (init: Record<string, string>) => new Headers(init)
+
+  it('should take the address the trusted proxy appended, not the client\'s', () => {
+    const forwarded = headers({ 'x-forwarded-for': '203.0.113.9, 198.51.100.7' })
+    expect(getClientIp(forwarded, { header: null, trustedHops: 1 })).toBe('198.51.100.7')
+    expect(getClientIp(forwarded, { header: null, trustedHops: 2 })).toBe('203.0.113.9')
+    expect(getClientIp(forwarded, { header: null, trustedHops: 5 })).toBe('203.0.113.9')
+    expect(getClientIp(forwarded, { header: null, trustedHops: 0 })).toBeNull()
+  })
+
+  it('should read a configured header instead', () => {
+    const request = headers({ 'x-forwarded-for': '203.0.113.9', 'cf-connecting-ip': '198.51.100.7' })
+    expect(getClientIp(request, { header: 'cf-connecting-ip', trustedHops: 1 })).toBe('198.51.100.7')
+    expect(getClientIp(headers({ 'x-real-ip': '198.51.100.8' }), { header: null, trustedHops: 1 })).toBe(
+      '198.51.100.8'
+    )
+  })
+})
+
+describe('Relay admission', () => {
+  const config: RelayAdmissionConfig = {
+    powDifficulty: 0,
+    powTtlSeconds: 60,
+    ipBurst: 2,
+    ipPerHour: 6,
+    commitmentBurst: 10,
+    commitmentPerHour: 10,
+    hourlySpendCapWei: BigInt(0),
+    quoteIpBurst: 1,
+    quoteIpPerHour: 6,
+  }
+
+  it('should rate limit per IP with a retry-after', async () => {
+    const admission = createRelayAdmission(config, { powSecret: 's', store: createMemoryRelayJobStore })
+
+    expect(await admission.admit(request(), NOW)).toBeNull()
+    expect(await admission.admit(request(), NOW)).toBeNull()
+    expect(await admission.admit(request(), NOW)).toMatchObject({ code: 'RATE_LIMITED', retryAfterSeconds: 600 })
+    expect(await admission.admit(request({ ip: '198.51.100.1' }), NOW)).toBeNull()
+  })
+
+  it('should rate limit per commitment across IPs', async () => {
+    const admission = createRelayAdmission(
+      { ...config, ipBurst: 0, commitmentBurst: 1 },
+      { powSecret: 's', store: createMemoryRelayJobStore }
+    )
+
+    expect(await admission.admit(request({ ip: '198.51.100.1' }), NOW)).toBeNull()
+    expect(await admission.admit(request({ ip: '198.51.100.2' }), NOW)).toMatchObject({ code: 'RATE_LIMITED' })
+  })
+
+  it('should limit claim quotes per IP without proof of work', async () => {
+    const admission = createRelayAdmission(
+      { ...config, powDifficulty: 8 },
+      { powSecret: 's', store: createMemoryRelayJobStore }
+    )
+
+    expect(await admission.quote.admit(request(), NOW)).toBeNull()
+    expect(await admission.quote.admit(request(), NOW)).toMatchObject({
+      code: 'RATE_LIMITED',
+      message: 'Too many fee quotes. Please wait before asking again.',
+    })
+    expect(await admission.quote.admit(request({ ip: '198.51.100.1' }), NOW)).toBeNull()
+  })
+
+  it('should check proof of work before spending rate-limit tokens', async () => {
+    const admission = createRelayAdmission(
+      { ...config, powDifficulty: 8, ipBurst: 1 },
+      { powSecret: 's', store: createMemoryRelayJobStore }
+    )
+
+    expect(await admission.admit(request(), NOW)).toMatchObject({ code: 'POW_REQUIRED' })
+
+    const { challenge } = admission.issueChallenge(NOW)
+    const pow = { challenge, solution: await solvePow(challenge, COMMITMENT, 8) }
+    expect(await admission.admit(request({ pow }), NOW)).toBeNull()
+  })
+})
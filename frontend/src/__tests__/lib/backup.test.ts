@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createBackup,
+  mnemonicToIdentity,
+  openBackup,
+  rescanIdentityRegistry,
+  secretToMnemonic,
+  BACKUP_FORMAT,
+  type CommitmentActivityLookup,
+} from '@/lib/backup'
+import {
+  createIdentityRegistry,
+  deriveReportIdentity,
+  recordReportId,
+  reserveIdentityIndex,
+  type IdentityRegistry,
+} from '@/lib/identity'
+import { generateCommitment } from '@/hooks/useRoadGuard'
+
+// Keep key derivation cheap in tests
+const ITERATIONS = 1000
+
+const master = generateCommitment('correct horse battery staple')
+
+function registryWith(count: number): IdentityRegistry {
+  let registry = createIdentityRegistry(master.commitment)
+  for (let i = 0; i < count; i++) registry = reserveIdentityIndex(registry, new Date(i * 1000)).registry
+  return registry
+}
+
+// Pretends the given indices were used on-chain, as report `100 + index`
+function chainWith(indices: number[]): CommitmentActivityLookup {
+  const used = new Map(
+    indices.map((index) => [deriveReportIdentity(master.secret, index).commitment.toLowerCase(), 100 + index])
+  )
+  return async (commitments) =>
+    new Map(
+      commitments.flatMap((c) => {
+        const key = c.toLowerCase()
+        return used.has(key) ? [[key, used.get(key)!] as const] : []
+      })
+    )
+}
+
+describe('Recovery phrase', () => {
+  it('should encode the master secret as 24 words and back', () => {
+    const phrase = secretToMnemonic(master.secret)
+
+    expect(phrase.split(' ')).toHaveLength(24)
+    expect(mnemonicToIdentity(phrase)).toEqual(master)
+  })
+
+  it('should forgive extra whitespace and capitals', () => {
+    const phrase = secretToMnemonic(master.secret)
+
+    expect(mnemonicToIdentity(`  ${phrase.toUpperCase().split(' ').join('\n  ')} `)).toEqual(master)
+  })
+
+  it('should reject a wrong word or a short phrase', () => {
+    const words = secretToMnemonic(master.secret).split(' ')
+    const swapped = [...words.slice(0, 23), words[23] === 'abandon' ? 'ability' : 'abandon'].join(' ')
+
+    expect(() => mnemonicToIdentity(swapped)).toThrow('Invalid recovery phrase')
+    expect(() => mnemonicToIdentity(words.slice(0, 12).join(' '))).toThrow('Invalid recovery phrase')
+  })
+})
+
+describe('Backup file', () => {
+  it('should round-trip the identity and used indices with their report ids', async () => {
+    const registry = recordReportId(registryWith(3), 1, 42)
+
+    const file = await createBackup(master, registry, 'backup-password', { iterations: ITERATIONS })
+    const restored = await openBackup(JSON.parse(JSON.stringify(file)), 'backup-password')
+
+    expect(restored.identity).toEqual(master)
+    expect(restored.registry).toEqual(registry)
+  })
+
+  it('should not contain the secret or any commitment in the clear', async () => {
+    const registry = registryWith(2)
+    const file = await createBackup(master, registry, 'backup-password', { iterations: ITERATIONS })
+    const json = JSON.stringify(file)
+
+    expect(file.format).toBe(BACKUP_FORMAT)
+    expect(json).not.toContain(master.secret.slice(2))
+    expect(json).not.toContain(master.commitment.slice(2))
+    expect(json).not.toContain(deriveReportIdentity(master.secret, 0).commitment.slice(2))
+  })
+
+  it('should reject a wrong password', async () => {
+    const file = await createBackup(master, registryWith(1), 'backup-password', { iterations: ITERATIONS })
+
+    await expect(openBackup(file, 'not-the-password')).rejects.toThrow('Incorrect backup password')
+  })
+
+  it('should reject files that are not backups', async () => {
+    await expect(openBackup({ hello: 'world' }, 'backup-password')).rejects.toThrow('Not a RoadGuard backup file')
+    await expect(openBackup(null, 'backup-password')).rejects.toThrow('Not a RoadGuard backup file')
+  })
+})
+
+describe('Chain rescan', () => {
+  const now = new Date(0)
+
+  it('should find used indices from a bare phrase, across gaps shorter than the gap limit', async () => {
+    const registry = await rescanIdentityRegistry(
+      master,
+      createIdentityRegistry(master.commitment),
+      chainWith([0, 1, 4, 8]),
+      { gapLimit: 5, now }
+    )
+
+    expect(registry.nextIndex).toBe(9)
+    expect(registry.used).toEqual(
+      [0, 1, 4, 8].map((index) => ({ index, usedAt: now.toISOString(), reportId: 100 + index }))
+    )
+  })
+
+  it('should stop after a window with nothing in it', async () => {
+    const lookup = vi.fn(chainWith([2]))
+
+    await rescanIdentityRegistry(master, createIdentityRegistry(master.commitment), lookup, { gapLimit: 5, now })
+
+    expect(lookup).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep what the registry knew and fill in missing report ids', async () => {
+    const known = recordReportId(registryWith(2), 0, 7)
+
+    const registry = await rescanIdentityRegistry(master, known, chainWith([0, 1, 3]), { gapLimit: 5, now })
+
+    expect(registry.nextIndex).toBe(4)
+    expect(registry.used).toEqual([
+      { index: 0, usedAt: new Date(0).toISOString(), reportId: 7 },
+      { index: 1, usedAt: new Date(1000).toISOString(), reportId: 101 },
+      { index: 3, usedAt: now.toISOString(), reportId: 103 },
+    ])
+  })
+
+  it('should count commitments with only pending rewards as used', async () => {
+    const commitment = deriveReportIdentity(master.secret, 0).commitment.toLowerCase()
+    const lookup: CommitmentActivityLookup = async (commitments) =>
+      new Map(commitments.some((c) => c.toLowerCase() === commitment) ? [[commitment, null]] : [])
+
+    const registry = await rescanIdentityRegistry(master, createIdentityRegistry(master.commitment), lookup, { now })
+
+    expect(registry.used).toEqual([{ index: 0, usedAt: now.toISOString() }])
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { decode, encode } from 'blurhash'
+import { blurhashToDataUrl } from '@/lib/blurhash'
+
+// Blurhash of a solid colour
+function solid([r, g, b]: [number, number, number]) {
+  const pixels = new Uint8ClampedArray(4 * 4 * 4)
+  for (let i = 0; i < pixels.length; i += 4) pixels.set([r, g, b, 255], i)
+  return encode(pixels, 4, 4, 3, 3)
+}
+
+const bytesOf = (dataUrl: string) => Buffer.from(dataUrl.replace('data:image/bmp;base64,', ''), 'base64')
+
+describe('blurhashToDataUrl', () => {
+  it('should paint the hash into a top-down 24-bit BMP', () => {
+    const hash = solid([200, 40, 10])
+    const bmp = bytesOf(blurhashToDataUrl(hash, 5, 3)!)
+
+    expect(bmp.subarray(0, 2).toString('latin1')).toBe('BM')
+    expect(bmp.readUInt32LE(2)).toBe(bmp.length)
+    expect(bmp.readInt32LE(18)).toBe(5)
+    expect(bmp.readInt32LE(22)).toBe(-3)
+    expect(bmp.readUInt16LE(28)).toBe(24)
+    // Rows are padded to 4 bytes: 5 pixels * 3 = 15 -> 16
+    expect(bmp.length).toBe(54 + 16 * 3)
+    // Last pixel of the first row, stored BGR
+    const [r, g, b] = decode(hash, 5, 3).subarray(16, 19)
+    expect(Array.from(bmp.subarray(54 + 12, 54 + 15))).toEqual([b, g, r])
+    expect(r).toBeGreaterThan(g)
+  })
+
+  it('should return undefined for an invalid hash', () => {
+    expect(blurhashToDataUrl('not a hash')).toBeUndefined()
+    expect(blurhashToDataUrl('')).toBeUndefined()
+  })
+})
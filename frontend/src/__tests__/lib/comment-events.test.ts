@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { createCommentEvents, createPostgresCommentEvents, type CommentEvent } from '@/lib/comments/events'
+
+type Database = Parameters<typeof createPostgresCommentEvents>[0]
+
+const removed = (commentId: string): CommentEvent => ({ type: 'removed', commentId })
+
+// Resolves with the first event a listener receives
+function nextEvent(events: ReturnType<typeof createCommentEvents>, reportId: string) {
+  return new Promise<{ event: CommentEvent; unsubscribe: () => void }>((resolve) => {
+    const subscribed = events.subscribe(reportId, (event) => {
+      subscribed.then((unsubscribe) => resolve({ event, unsubscribe }))
+    })
+  })
+}
+
+describe('createCommentEvents', () => {
+  it('should deliver events to the report\'s subscribers only', async () => {
+    const events = createCommentEvents()
+    const received: CommentEvent[] = []
+    const unsubscribe = await events.subscribe('1', (event) => received.push(event))
+    await events.subscribe('2', () => received.push(removed('other')))
+
+    await events.publish('1', removed('a'))
+    unsubscribe()
+    await events.publish('1', removed('b'))
+
+    expect(received).toEqual([removed('a')])
+    expect(events.listenerCount('1')).toBe(0)
+    expect(events.listenerCount()).toBe(1)
+  })
+})
+
+describe('createPostgresCommentEvents', () => {
+  let db: Database
+
+  beforeAll(async () => {
+    const client = new PGlite()
+    await client.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+    db = drizzle(client) as unknown as Database
+  }, 120_000)
+
+  it('should deliver events published by another instance', async () => {
+    const publisher = createPostgresCommentEvents(db, { pollMs: 20, retainMs: 60_000 })
+    const streamer = createPostgresCommentEvents(db, { pollMs: 20, retainMs: 60_000 })
+
+    // Published before anyone was listening, so not replayed
+    await publisher.publish('7', removed('before'))
+
+    const received = nextEvent(streamer, '7')
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await publisher.publish('8', removed('elsewhere'))
+    await publisher.publish('7', removed('after'))
+
+    const { event, unsubscribe } = await received
+    expect(event).toEqual(removed('after'))
+    unsubscribe()
+    expect(streamer.listenerCount()).toBe(0)
+  })
+
+  it('should prune events older than the retention period', async () => {
+    const events = createPostgresCommentEvents(db, { pollMs: 20, retainMs: 1 })
+    await events.publish('9', removed('old'))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+
+    const received = nextEvent(events, '9')
+    await events.publish('9', removed('new'))
+    const { unsubscribe } = await received
+    // Pruning follows delivery on the same poll
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    unsubscribe()
+
+    const { rows } = await (db as unknown as { $client: PGlite }).$client.query<{ event: CommentEvent }>(
+      'SELECT event FROM comment_events WHERE report_id = $1',
+      ['9']
+    )
+    expect(rows.map((row) => row.event)).not.toContainEqual(removed('old'))
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { noViewerReactions, orderThread, type Comment, type CommentThread } from '@/lib/comments/store'
+import {
+  applyCommentEvent,
+  countComments,
+  insertComment,
+  removeComment,
+  updateComment,
+} from '@/lib/comments/threads'
+
+let clock = 1_700_000_000_000
+
+const comment = (id: string, parentId: string | null = null, depth = parentId ? 1 : 0): Comment => ({
+  id,
+  reportId: 1,
+  author: 'Anonymous',
+  text: id,
+  timestamp: clock++,
+  signedBy: null,
+  parentId,
+  depth,
+  reactions: { helpful: 0, thankyou: 0 },
+  viewerReacted: noViewerReactions(),
+})
+
+const thread = (root: Comment, ...replies: Comment[]): CommentThread => ({ ...root, replies })
+
+const ids = (threads: CommentThread[]) => threads.map((t) => [t.id, ...t.replies.map((r) => r.id)])
+
+describe('orderThread', () => {
+  it('should order replies depth first, oldest siblings first', () => {
+    const a = comment('a', 'root')
+    const b = comment('b', 'root')
+    const a1 = comment('a1', 'a', 2)
+    const a2 = comment('a2', 'a', 2)
+    const a1x = comment('a1x', 'a1', 3)
+
+    expect(orderThread('root', [a2, b, a1x, a, a1]).map((c) => c.id)).toEqual(['a', 'a1', 'a1x', 'a2', 'b'])
+  })
+
+  it('should drop replies whose parent is missing', () => {
+    expect(orderThread('root', [comment('a', 'root'), comment('lost', 'gone', 2)]).map((c) => c.id)).toEqual(['a'])
+  })
+})
+
+describe('Comment threads', () => {
+  it('should add new comments first and replies into their thread', () => {
+    const root = comment('root')
+    const reply = comment('reply', 'root')
+    let threads = [thread(root)]
+
+    threads = insertComment(threads, comment('newer'))
+    threads = insertComment(threads, reply)
+    threads = insertComment(threads, comment('nested', 'reply', 2))
+
+    expect(ids(threads)).toEqual([['newer'], ['root', 'reply', 'nested']])
+    expect(countComments(threads)).toBe(4)
+  })
+
+  it('should ignore comments it already has and replies to threads it has not loaded', () => {
+    const threads = [thread(comment('root'), comment('reply', 'root'))]
+
+    expect(insertComment(threads, threads[0].replies[0])).toBe(threads)
+    expect(insertComment(threads, threads[0])).toBe(threads)
+    expect(ids(insertComment(threads, comment('elsewhere', 'unloaded')))).toEqual([['root', 'reply']])
+  })
+
+  it('should update a comment wherever it is', () => {
+    const threads = [thread(comment('root'), comment('reply', 'root'))]
+    const helpful = (c: Comment) => ({ ...c, reactions: { ...c.reactions, helpful: c.reactions.helpful + 1 } })
+
+    const [updated] = updateComment(updateComment(threads, 'reply', helpful), 'root', helpful)
+    expect(updated.reactions.helpful).toBe(1)
+    expect(updated.replies[0].reactions.helpful).toBe(1)
+  })
+
+  it('should remove a comment with its replies', () => {
+    const threads = [
+      thread(comment('root'), comment('a', 'root'), comment('a1', 'a', 2), comment('b', 'root')),
+      thread(comment('other')),
+    ]
+
+    expect(ids(removeComment(threads, 'a'))).toEqual([['root', 'b'], ['other']])
+    expect(ids(removeComment(threads, 'root'))).toEqual([['other']])
+  })
+
+  it('should apply live events, keeping what the viewer reacted', () => {
+    const root = { ...comment('root'), viewerReacted: { helpful: true, thankyou: false } }
+    let threads = [thread(root)]
+
+    threads = applyCommentEvent(threads, { type: 'comment', comment: comment('reply', 'root') })
+    threads = applyCommentEvent(threads, {
+      type: 'reaction',
+      commentId: 'root',
+      reactions: { helpful: 4, thankyou: 1 },
+      walletReactions: { helpful: 1, thankyou: 0 },
+    })
+    expect(threads[0].reactions).toEqual({ helpful: 4, thankyou: 1 })
+    expect(threads[0].walletReactions).toEqual({ helpful: 1, thankyou: 0 })
+    expect(threads[0].viewerReacted.helpful).toBe(true)
+
+    threads = applyCommentEvent(threads, { type: 'removed', commentId: 'reply' })
+    expect(ids(threads)).toEqual([['root']])
+  })
+})
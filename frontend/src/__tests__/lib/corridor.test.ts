@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  alongRoute,
+  corridorCells,
+  coverBounds,
+  decodePolyline,
+  distanceBetween,
+  encodeGeohash,
+  encodePolyline,
+  locateOnRoute,
+  routeLength,
+  MAX_CORRIDOR_CELLS,
+} from '@/lib/corridor'
+
+// Due east along the equator, where a degree of longitude is about 111.2 km
+const EAST = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 0.01 },
+  { lat: 0, lng: 0.02 },
+]
+
+describe('Encoded polylines', () => {
+  it('should decode the reference example', () => {
+    // From Google's polyline algorithm documentation
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ])
+  })
+
+  it('should round trip at precision 5 and 6', () => {
+    const points = [
+      { lat: 19.4326, lng: -99.1332 },
+      { lat: 19.43301, lng: -99.13012 },
+      { lat: -33.86882, lng: 151.20929 },
+    ]
+    expect(decodePolyline(encodePolyline(points))).toEqual(points)
+    expect(decodePolyline(encodePolyline(points, 6), 6)).toEqual(points)
+  })
+
+  it('should reject truncated or out of range input', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulL')).toBeNull()
+    expect(decodePolyline('_p~iF ~ps|U')).toBeNull()
+    expect(decodePolyline(encodePolyline([{ lat: 95, lng: 0 }]))).toBeNull()
+  })
+})
+
+describe('Geohash', () => {
+  it('should encode known locations', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj')
+    expect(encodeGeohash(19.4326, -99.1332, 5)).toBe('9g3w8')
+  })
+
+  it('should cover a box with every cell inside it', () => {
+    const bounds = { minLat: 19.42, maxLat: 19.44, minLng: -99.15, maxLng: -99.12 }
+    const cells = coverBounds(bounds, 6)!
+
+    for (const [lat, lng] of [[19.42, -99.15], [19.44, -99.12], [19.43, -99.135]]) {
+      expect(cells.has(encodeGeohash(lat, lng, 6))).toBe(true)
+    }
+    expect(coverBounds(bounds, 8, 10)).toBeNull()
+  })
+
+  it('should use bigger cells for longer routes', () => {
+    const short = corridorCells(EAST, 500)
+    const long = corridorCells([{ lat: 19.4, lng: -99.1 }, { lat: 25.7, lng: -100.3 }], 500)
+
+    expect(short.precision).toBeGreaterThan(long.precision)
+    expect(long.cells.length).toBeLessThanOrEqual(MAX_CORRIDOR_CELLS)
+    // Every point near the route is in a covered cell
+    for (const point of [{ lat: 0.004, lng: 0.015 }, { lat: -0.004, lng: -0.004 }]) {
+      expect(short.cells.some((cell) => encodeGeohash(point.lat, point.lng).startsWith(cell))).toBe(true)
+    }
+  })
+
+  it('should go straight to big cells for the longest, busiest routes', () => {
+    // 5000 points zig-zagging over 2000 km with a 1 m buffer
+    const path = Array.from({ length: 5000 }, (_, i) => ({ lat: (i % 2) * 0.001, lng: (i * 17.9) / 5000 }))
+    const { precision, cells } = corridorCells(path, 1)
+
+    expect(precision).toBeLessThanOrEqual(4)
+    expect(cells.length).toBeLessThanOrEqual(MAX_CORRIDOR_CELLS)
+  })
+})
+
+describe('Route geometry', () => {
+  it('should measure routes', () => {
+    expect(distanceBetween(EAST[0], EAST[1])).toBeCloseTo(1112, 0)
+    expect(routeLength(EAST)).toBeCloseTo(2224, 0)
+  })
+
+  it('should locate a point between vertices, not just at them', () => {
+    // North of the middle of the first segment, 0.0045 degrees off the route
+    const located = locateOnRoute(EAST, { lat: 0.0045, lng: 0.005 })
+    expect(located.distanceFromStart).toBeCloseTo(556, 0)
+    expect(located.distanceFromRoute).toBeCloseTo(500, -1)
+  })
+
+  it('should keep items within the buffer, nearest the start first', () => {
+    const items = [
+      { id: 'late', lat: 0.001, lng: 0.019 },
+      { id: 'early', lat: -0.001, lng: 0.001 },
+      { id: 'off', lat: 0.01, lng: 0.01 },
+      { id: 'beyond', lat: 0, lng: 0.03 },
+    ]
+
+    expect(alongRoute(EAST, items, 500).map((match) => match.item.id)).toEqual(['early', 'late'])
+    expect(alongRoute([], items, 500)).toEqual([])
+  })
+})
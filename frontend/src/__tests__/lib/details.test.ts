@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import { encodeFunctionData } from 'viem'
+import { RoadGuardABI } from '@/lib/contracts/RoadGuardABI'
+import {
+  checkReportAnchor,
+  createMemoryReportDetailsStore,
+  isAnchoredIn,
+  parseReportContent,
+  reportContentHash,
+  verifyReportDetails,
+  type Hex,
+  type ReportDetails,
+} from '@/lib/details'
+
+const PREFIX = 'https://bucket.example.com/roadguard/'
+const content = { description: 'Two cars blocking the left lane', photos: [`${PREFIX}a.jpg`] }
+const TX = `0x${'cd'.repeat(32)}` as Hex
+
+const calldata = (suffix?: Hex) =>
+  encodeFunctionData({
+    abi: RoadGuardABI,
+    functionName: 'submitReport',
+    args: [`0x${'ab'.repeat(32)}`, BigInt(1), BigInt(2), 0],
+  }) + (suffix ? suffix.slice(2) : '')
+
+const stored = (changes: Partial<ReportDetails> = {}): ReportDetails => ({
+  chainReportId: 1,
+  ...content,
+  contentHash: reportContentHash(content),
+  txHash: TX,
+  anchored: true,
+  createdAt: new Date(0),
+  ...changes,
+})
+
+describe('Report content hash', () => {
+  it('should be deterministic and cover description and every photo', () => {
+    expect(reportContentHash(content)).toBe(reportContentHash({ ...content, photos: [...content.photos] }))
+    expect(reportContentHash({ ...content, description: 'edited' })).not.toBe(reportContentHash(content))
+    expect(reportContentHash({ ...content, photos: [] })).not.toBe(reportContentHash(content))
+  })
+
+  it('should be found at the end of anchored calldata', () => {
+    const hash = reportContentHash(content)
+
+    expect(isAnchoredIn(calldata(hash) as Hex, hash)).toBe(true)
+    expect(isAnchoredIn(calldata() as Hex, hash)).toBe(false)
+  })
+
+  it('should cover the comment key, leaving hashes without one unchanged', () => {
+    const commentKey = '0x1234567890123456789012345678901234567890' as Hex
+    const withKey = reportContentHash({ ...content, commentKey })
+
+    expect(withKey).not.toBe(reportContentHash(content))
+    expect(withKey).not.toBe(reportContentHash({ ...content, commentKey: `0x${'11'.repeat(20)}` }))
+    expect(reportContentHash({ ...content, commentKey: undefined })).toBe(reportContentHash(content))
+  })
+})
+
+describe('parseReportContent', () => {
+  it('should return null when there is nothing to store', () => {
+    expect(parseReportContent({}, PREFIX)).toBeNull()
+    expect(parseReportContent({ description: '   ', photos: [] }, PREFIX)).toBeNull()
+  })
+
+  it('should trim the description and keep uploaded photos', () => {
+    expect(parseReportContent({ description: '  Flooded underpass ', photos: content.photos }, PREFIX)).toEqual({
+      description: 'Flooded underpass',
+      photos: content.photos,
+    })
+  })
+
+  it('should reject long descriptions and too many photos', () => {
+    expect(parseReportContent({ description: 'x'.repeat(281) }, PREFIX)).toMatch(/280/)
+    expect(parseReportContent({ photos: [1, 2, 3, 4].map((i) => `${PREFIX}${i}.jpg`) }, PREFIX)).toMatch(/At most 3/)
+  })
+
+  it('should keep a comment key, even without a description or photos', () => {
+    const commentKey = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd'
+
+    expect(parseReportContent({ commentKey }, PREFIX)).toEqual({
+      description: '',
+      photos: [],
+      commentKey: '0xABcdEFABcdEFabcdEfAbCdefabcdeFABcDEFabCD',
+    })
+    expect(parseReportContent({ commentKey: '0x1234' }, PREFIX)).toMatch(/address/)
+    expect(parseReportContent({ commentKey: 42 }, PREFIX)).toMatch(/address/)
+  })
+
+  it('should reject photos that were not uploaded here', () => {
+    expect(parseReportContent({ photos: ['https://evil.example.com/a.jpg'] }, PREFIX)).toMatch(/\/api\/upload/)
+    expect(parseReportContent({ photos: content.photos }, null)).toMatch(/\/api\/upload/)
+    expect(parseReportContent({ photos: 'a.jpg' }, PREFIX)).toMatch(/array/)
+  })
+})
+
+describe('checkReportAnchor', () => {
+  const hash = reportContentHash(content)
+
+  it('should accept a transaction that carries the hash', async () => {
+    expect(await checkReportAnchor(hash, TX, async () => calldata(hash) as Hex)).toBe(true)
+  })
+
+  it('should reject a hash that the transaction does not carry', async () => {
+    const edited = reportContentHash({ ...content, description: 'Nothing to see here' })
+
+    expect(await checkReportAnchor(edited, TX, async () => calldata(hash) as Hex)).toBe(false)
+  })
+
+  it('should leave anchored unknown when the transaction cannot be fetched', async () => {
+    const anchored = await checkReportAnchor(hash, TX, async () => {
+      throw new Error('RPC down')
+    })
+
+    expect(anchored).toBeNull()
+  })
+})
+
+describe('verifyReportDetails', () => {
+  it('should accept details that match their hash and anchor', () => {
+    expect(verifyReportDetails(stored())).toEqual({ contentMatches: true, anchored: true })
+  })
+
+  it('should detect a description edited after submission', () => {
+    expect(verifyReportDetails(stored({ description: 'Nothing to see here' }))).toEqual({
+      contentMatches: false,
+      anchored: true,
+    })
+  })
+
+  it('should return the anchor recorded when the details were saved', () => {
+    expect(verifyReportDetails(stored({ anchored: false }))).toEqual({ contentMatches: true, anchored: false })
+    expect(verifyReportDetails(stored({ anchored: null }))).toEqual({ contentMatches: true, anchored: null })
+  })
+})
+
+describe('Memory report details store', () => {
+  it('should keep the first save for a report', async () => {
+    const store = createMemoryReportDetailsStore()
+    const { createdAt: _createdAt, ...details } = stored()
+
+    await store.save(details)
+    await store.save({ ...details, description: 'overwritten' })
+
+    expect((await store.get(1))?.description).toBe(content.description)
+    expect(await store.get(2)).toBeNull()
+  })
+})
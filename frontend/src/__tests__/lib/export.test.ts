@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { csvField, escapeXml, getReportExporter } from '@/lib/export'
+import type { ApiReport } from '@/lib/reports'
+
+const report: ApiReport = {
+  id: 7,
+  lat: 19.4326,
+  lng: -99.1332,
+  eventType: 9,
+  status: 0,
+  confirmationCount: 2,
+  totalRegards: '0',
+  stakeAmount: 0.01,
+  commitment: '0xab',
+  txHash: null,
+  timestamp: 1_735_725_600,
+  expiresAt: 1_735_812_000,
+}
+
+describe('Report export formats', () => {
+  it('should quote CSV fields only when needed', () => {
+    expect(csvField('Road Closure')).toBe('Road Closure')
+    expect(csvField('a, b')).toBe('"a, b"')
+    expect(csvField('say "hi"')).toBe('"say ""hi"""')
+    expect(csvField(null)).toBe('')
+  })
+
+  it('should escape XML text', () => {
+    expect(escapeXml('<a href="x">Tom & Jerry\'s</a>')).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+    )
+  })
+
+  it('should label event types it does not know', () => {
+    expect(getReportExporter('csv').report(report, true)).toBe(
+      '7,9,Unknown,0,Active,19.4326,-99.1332,2,0,0.01,0xab,,2025-01-01T10:00:00.000Z,2025-01-02T10:00:00.000Z\r\n'
+    )
+    const kml = getReportExporter('kml').report(report, true)
+    expect(kml).toContain('<name>Unknown #7</name>')
+    expect(kml).not.toContain('<styleUrl>')
+  })
+
+  it('should separate GeoJSON features', () => {
+    const geojson = getReportExporter('geojson')
+    const text = geojson.head + geojson.report(report, true) + geojson.report({ ...report, id: 8 }, false) + geojson.tail
+    expect(JSON.parse(text).features.map((f: { id: number }) => f.id)).toEqual([7, 8])
+  })
+})
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createCachedGeocoder,
+  createFixtureGeocoder,
+  createGoogleGeocoder,
+  createNominatimGeocoder,
+  parseViewport,
+  type Geocoder,
+} from '@/lib/geocode'
+
+// Around the historic centre of Mexico City
+const CENTRO = { minLat: 19.42, minLng: -99.15, maxLat: 19.44, maxLng: -99.12 }
+const PUEBLA = { minLat: 19.0, minLng: -98.25, maxLat: 19.1, maxLng: -98.15 }
+
+describe('Fixture geocoder', () => {
+  const geocoder = createFixtureGeocoder()
+  const ids = async (query: string, viewport?: typeof CENTRO) =>
+    (await geocoder.search({ query, viewport, limit: 5 })).map((place) => place.id)
+
+  it('should match names and addresses without minding accents or case', async () => {
+    expect(await ids('ZOCALO')).toEqual(['fixture:zocalo-cdmx', 'fixture:zocalo-puebla'])
+    expect(await ids('angel')).toEqual(['fixture:angel'])
+    expect(await ids('tlalpan')).toEqual(['fixture:estadio-azteca'])
+    expect(await ids('nowhere')).toEqual([])
+  })
+
+  it('should rank places in the viewport first', async () => {
+    expect(await ids('zócalo', PUEBLA)).toEqual(['fixture:zocalo-puebla', 'fixture:zocalo-cdmx'])
+    expect(await ids('zócalo', CENTRO)).toEqual(['fixture:zocalo-cdmx', 'fixture:zocalo-puebla'])
+  })
+
+  it('should find the nearest place within reach of a point', async () => {
+    expect((await geocoder.reverse({ lat: 19.4327, lng: -99.1335 }))?.id).toBe('fixture:zocalo-cdmx')
+    expect(await geocoder.reverse({ lat: 20.5, lng: -100.4 })).toBeNull()
+  })
+})
+
+describe('Geocode cache', () => {
+  const counting = () => {
+    const inner = createFixtureGeocoder()
+    const search = vi.fn(inner.search)
+    const reverse = vi.fn(inner.reverse)
+    return { geocoder: { name: inner.name, search, reverse } satisfies Geocoder, search, reverse }
+  }
+
+  it('should answer repeated lookups from the cache until they expire', async () => {
+    let time = 0
+    const { geocoder, search, reverse } = counting()
+    const cached = createCachedGeocoder(geocoder, { ttlMs: 1000, maxEntries: 10, now: () => time })
+
+    await cached.search({ query: 'Zócalo', viewport: CENTRO, limit: 5 })
+    // Same query typed differently, in a viewport a few metres over
+    await cached.search({ query: ' zócalo ', viewport: { ...CENTRO, minLat: 19.4201 }, limit: 5 })
+    expect(search).toHaveBeenCalledTimes(1)
+
+    await cached.search({ query: 'Zócalo', viewport: PUEBLA, limit: 5 })
+    expect(search).toHaveBeenCalledTimes(2)
+
+    await cached.reverse({ lat: 19.43261, lng: -99.13322 })
+    await cached.reverse({ lat: 19.43259, lng: -99.13318 })
+    expect(reverse).toHaveBeenCalledTimes(1)
+    expect(reverse).toHaveBeenCalledWith({ lat: 19.4326, lng: -99.1332 }, undefined)
+
+    time = 1500
+    await cached.search({ query: 'Zócalo', viewport: CENTRO, limit: 5 })
+    expect(search).toHaveBeenCalledTimes(3)
+  })
+
+  it('should drop the least recently used entries', async () => {
+    const { geocoder, search } = counting()
+    const cached = createCachedGeocoder(geocoder, { ttlMs: 1000, maxEntries: 2 })
+    const lookup = (query: string) => cached.search({ query, limit: 5 })
+
+    await lookup('angel')
+    await lookup('zocalo')
+    await lookup('angel')
+    await lookup('bellas')
+    expect(search).toHaveBeenCalledTimes(3)
+
+    await lookup('angel')
+    expect(search).toHaveBeenCalledTimes(3)
+    await lookup('zocalo')
+    expect(search).toHaveBeenCalledTimes(4)
+  })
+
+  it('should share lookups in flight and not keep failures', async () => {
+    const { geocoder, search } = counting()
+    const cached = createCachedGeocoder(geocoder, { ttlMs: 1000, maxEntries: 10 })
+
+    await Promise.all([cached.search({ query: 'angel', limit: 5 }), cached.search({ query: 'angel', limit: 5 })])
+    expect(search).toHaveBeenCalledTimes(1)
+
+    search.mockRejectedValueOnce(new Error('rate limited'))
+    await expect(cached.search({ query: 'bellas', limit: 5 })).rejects.toThrow('rate limited')
+    expect(await cached.search({ query: 'bellas', limit: 5 })).toHaveLength(1)
+    expect(search).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('Nominatim geocoder', () => {
+  const requests: Request[] = []
+  const standIn: typeof fetch = async (input, init) => {
+    const request = new Request(input, init)
+    requests.push(request)
+    const url = new URL(request.url)
+    if (url.pathname === '/reverse') {
+      return Response.json(
+        url.searchParams.get('lat') === '0'
+          ? { error: 'Unable to geocode' }
+          : { place_id: 7, lat: '19.4326', lon: '-99.1332', display_name: 'Zócalo, Centro, Ciudad de México' }
+      )
+    }
+    return Response.json([
+      { place_id: 42, lat: '19.4352', lon: '-99.1412', name: 'Palacio de Bellas Artes', display_name: 'Palacio de Bellas Artes, Av. Juárez, Centro' },
+    ])
+  }
+  const geocoder = createNominatimGeocoder({ url: 'http://nominatim.test/', userAgent: 'tests', fetch: standIn })
+
+  it('should only allow autocomplete on a self-hosted instance', () => {
+    expect(geocoder.autocomplete).toBe(true)
+    expect(createNominatimGeocoder({ fetch: standIn }).autocomplete).toBe(false)
+    expect(createNominatimGeocoder({ url: 'https://nominatim.openstreetmap.org/', fetch: standIn }).autocomplete).toBe(false)
+  })
+
+  it('should bias search to the viewport', async () => {
+    const places = await geocoder.search({ query: 'bellas artes', viewport: CENTRO, limit: 3, language: 'es' })
+
+    const request = requests.at(-1)!
+    const url = new URL(request.url)
+    expect(url.pathname).toBe('/search')
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      format: 'jsonv2',
+      q: 'bellas artes',
+      limit: '3',
+      viewbox: '-99.15,19.44,-99.12,19.42',
+      'accept-language': 'es',
+    })
+    expect(request.headers.get('User-Agent')).toBe('tests')
+    expect(places).toEqual([
+      {
+        id: 'nominatim:42',
+        name: 'Palacio de Bellas Artes',
+        address: 'Palacio de Bellas Artes, Av. Juárez, Centro',
+        lat: 19.4352,
+        lng: -99.1412,
+      },
+    ])
+  })
+
+  it('should reverse geocode, with null where there is nothing', async () => {
+    expect(await geocoder.reverse({ lat: 19.4326, lng: -99.1332 })).toMatchObject({ id: 'nominatim:7', name: 'Zócalo' })
+    expect(await geocoder.reverse({ lat: 0, lng: 0 })).toBeNull()
+  })
+})
+
+describe('Google geocoder', () => {
+  const requests: Request[] = []
+  const standIn: typeof fetch = async (input, init) => {
+    const request = new Request(input, init)
+    requests.push(request)
+    const url = new URL(request.url)
+    if (url.hostname === 'places.googleapis.com') {
+      return Response.json({
+        places: [
+          {
+            id: 'ChIJ1',
+            displayName: { text: 'Palacio de Bellas Artes' },
+            formattedAddress: 'Av. Juárez S/N, Centro, 06050 Ciudad de México, CDMX, Mexico',
+            location: { latitude: 19.4352, longitude: -99.1412 },
+          },
+        ],
+      })
+    }
+    if (url.searchParams.get('latlng') === '0,0') return Response.json({ status: 'ZERO_RESULTS', results: [] })
+    if (url.searchParams.get('key') !== 'key') {
+      return Response.json({ status: 'REQUEST_DENIED', error_message: 'The provided API key is invalid.', results: [] })
+    }
+    return Response.json({
+      status: 'OK',
+      results: [
+        {
+          place_id: 'ChIJ2',
+          formatted_address: 'Plaza de la Constitución S/N, Centro, Ciudad de México, CDMX, Mexico',
+          geometry: { location: { lat: 19.4326, lng: -99.1332 } },
+        },
+      ],
+    })
+  }
+  const geocoder = createGoogleGeocoder({ apiKey: 'key', fetch: standIn })
+
+  it('should search with a location bias and keep the name in the address', async () => {
+    const places = await geocoder.search({ query: 'bellas artes', viewport: CENTRO, limit: 3 })
+
+    const request = requests.at(-1)!
+    expect(request.headers.get('X-Goog-Api-Key')).toBe('key')
+    expect(await request.json()).toEqual({
+      textQuery: 'bellas artes',
+      pageSize: 3,
+      locationBias: {
+        rectangle: { low: { latitude: 19.42, longitude: -99.15 }, high: { latitude: 19.44, longitude: -99.12 } },
+      },
+    })
+    expect(places).toEqual([
+      {
+        id: 'google:ChIJ1',
+        name: 'Palacio de Bellas Artes',
+        address: 'Palacio de Bellas Artes, Av. Juárez S/N, Centro, 06050 Ciudad de México, CDMX, Mexico',
+        lat: 19.4352,
+        lng: -99.1412,
+      },
+    ])
+  })
+
+  it('should reverse geocode and surface errors', async () => {
+    expect(await geocoder.reverse({ lat: 19.4326, lng: -99.1332 }, 'es')).toMatchObject({
+      id: 'google:ChIJ2',
+      name: 'Plaza de la Constitución S/N',
+    })
+    expect(new URL(requests.at(-1)!.url).searchParams.get('language')).toBe('es')
+    expect(await geocoder.reverse({ lat: 0, lng: 0 })).toBeNull()
+
+    const badKey = createGoogleGeocoder({ apiKey: 'nope', fetch: standIn })
+    await expect(badKey.reverse({ lat: 19.4326, lng: -99.1332 })).rejects.toThrow(
+      'Google reverse geocoding failed: The provided API key is invalid.'
+    )
+  })
+})
+
+describe('Search bias parameters', () => {
+  it('should read a bbox, or a box around a point', () => {
+    expect(parseViewport(new URLSearchParams('bbox=-99.15,19.42,-99.12,19.44'))).toEqual(CENTRO)
+    const near = parseViewport(new URLSearchParams('near=19.43,-99.13'))!
+    expect(near.minLat).toBeCloseTo(19.38)
+    expect(near.maxLat).toBeCloseTo(19.48)
+    expect(near.minLng).toBeCloseTo(-99.18)
+    expect(near.maxLng).toBeCloseTo(-99.08)
+    expect(parseViewport(new URLSearchParams())).toBeUndefined()
+    expect(parseViewport(new URLSearchParams('bbox=19.42,-99.15,19.44,-99.12'))).toBeNull()
+    expect(parseViewport(new URLSearchParams('near=19.43'))).toBeNull()
+  })
+
+  it('should still read the deprecated bounds when there is no bbox', () => {
+    expect(parseViewport(new URLSearchParams('bounds=19.42,-99.15,19.44,-99.12'))).toEqual(CENTRO)
+    expect(parseViewport(new URLSearchParams('bounds=19.44,-99.15,19.42,-99.12'))).toBeNull()
+    expect(parseViewport(new URLSearchParams('bbox=-99.15,19.42,-99.12,19.44&bounds=0,0,1,1'))).toEqual(CENTRO)
+  })
+})
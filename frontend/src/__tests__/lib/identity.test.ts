@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { keccak256 } from 'viem'
+import { privateKeyToAddress } from 'viem/accounts'
+import {
+  createIdentityRegistry,
+  deriveCommentKey,
+  deriveReportIdentity,
+  listClaimableIdentities,
+  mergeUsedIndices,
+  parseIdentityRegistry,
+  recordReportId,
+  reserveIdentityIndex,
+} from '@/lib/identity'
+import { generateCommitment } from '@/hooks/useRoadGuard'
+
+const master = generateCommitment('correct horse battery staple')
+
+describe('Per-report identities', () => {
+  it('should derive the same identity for the same index', () => {
+    expect(deriveReportIdentity(master.secret, 3)).toEqual(deriveReportIdentity(master.secret, 3))
+  })
+
+  it('should derive a different commitment for every index and master', () => {
+    const other = generateCommitment('another passphrase')
+    const commitments = new Set([
+      master.commitment,
+      ...[0, 1, 2, 3].map((i) => deriveReportIdentity(master.secret, i).commitment),
+      deriveReportIdentity(other.secret, 0).commitment,
+    ])
+
+    expect(commitments.size).toBe(6)
+  })
+
+  it('should produce commitments the contract accepts for the derived secret', () => {
+    const identity = deriveReportIdentity(master.secret, 7)
+
+    expect(identity.index).toBe(7)
+    expect(identity.commitment).toBe(keccak256(identity.secret))
+  })
+
+  it('should reject indices outside uint32', () => {
+    expect(() => deriveReportIdentity(master.secret, -1)).toThrow()
+    expect(() => deriveReportIdentity(master.secret, 1.5)).toThrow()
+    expect(() => deriveReportIdentity(master.secret, 2 ** 32)).toThrow()
+  })
+
+  it('should derive a comment key per index that the report secret does not give away', () => {
+    const keys = [0, 1].map((i) => deriveCommentKey(master.secret, i))
+    const reportSecret = deriveReportIdentity(master.secret, 0).secret
+
+    expect(deriveCommentKey(master.secret, 0)).toEqual(keys[0])
+    expect(keys[0].address).toBe(privateKeyToAddress(keys[0].privateKey))
+    expect(keys[0].address).not.toBe(keys[1].address)
+    expect(keys[0].privateKey).not.toBe(reportSecret)
+    expect(keys[0].privateKey).not.toBe(keccak256(reportSecret))
+    expect(() => deriveCommentKey(master.secret, -1)).toThrow()
+  })
+})
+
+describe('Identity registry', () => {
+  it('should hand out increasing indices and record them', () => {
+    const first = reserveIdentityIndex(createIdentityRegistry(master.commitment), new Date(0))
+    const second = reserveIdentityIndex(first.registry, new Date(1000))
+
+    expect([first.index, second.index]).toEqual([0, 1])
+    expect(second.registry).toEqual({
+      commitment: master.commitment,
+      nextIndex: 2,
+      used: [
+        { index: 0, usedAt: new Date(0).toISOString() },
+        { index: 1, usedAt: new Date(1000).toISOString() },
+      ],
+    })
+  })
+
+  it('should merge found indices and move nextIndex past them', () => {
+    const known = recordReportId(reserveIdentityIndex(createIdentityRegistry(master.commitment), new Date(0)).registry, 0, 5)
+
+    const merged = mergeUsedIndices(known, [
+      { index: 0, usedAt: new Date(9000).toISOString(), reportId: 6 },
+      { index: 3, usedAt: new Date(1000).toISOString() },
+    ])
+
+    expect(merged).toEqual({
+      commitment: master.commitment,
+      nextIndex: 4,
+      used: [
+        { index: 0, usedAt: new Date(0).toISOString(), reportId: 5 },
+        { index: 3, usedAt: new Date(1000).toISOString() },
+      ],
+    })
+  })
+
+  it('should list the master identity and every used index as claimable', () => {
+    const { registry } = reserveIdentityIndex(reserveIdentityIndex(createIdentityRegistry(master.commitment)).registry)
+
+    const claimable = listClaimableIdentities(master, registry)
+
+    expect(claimable.map((identity) => identity.commitment)).toEqual([
+      master.commitment,
+      deriveReportIdentity(master.secret, 0).commitment,
+      deriveReportIdentity(master.secret, 1).commitment,
+    ])
+  })
+
+  it('should accept a stored registry for the same identity', () => {
+    const { registry } = reserveIdentityIndex(createIdentityRegistry(master.commitment))
+
+    expect(parseIdentityRegistry(JSON.parse(JSON.stringify(registry)), master.commitment)).toEqual(registry)
+  })
+
+  it('should reject a registry that belongs to another identity', () => {
+    const other = generateCommitment('another passphrase')
+
+    expect(parseIdentityRegistry(reserveIdentityIndex(createIdentityRegistry(other.commitment)).registry, master.commitment)).toBeNull()
+  })
+
+  it('should reject a malformed registry', () => {
+    expect(parseIdentityRegistry({ commitment: master.commitment, nextIndex: 'x' }, master.commitment)).toBeNull()
+  })
+})
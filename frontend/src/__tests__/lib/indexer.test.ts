@@ -0,0 +1,319 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { parseEther } from 'viem'
+import {
+  runIndexer,
+  createMemoryIndexerStore,
+  REPORT_STATUS,
+  type IndexerClient,
+  type IndexerStore,
+} from '@/lib/indexer'
+import { createPostgresIndexerStore } from '@/lib/indexer/postgres'
+
+type Database = Parameters<typeof createPostgresIndexerStore>[0]
+
+const ADDRESS = '0x23a95d01af99F06c446522765E6F3E604865D58a'
+const COMMITMENT = `0x${'ab'.repeat(32)}` as `0x${string}`
+
+type FakeLog = {
+  eventName: string
+  args: Record<string, unknown>
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: `0x${string}`
+}
+
+// Minimal chain: block hashes can be swapped to simulate a reorg
+function createFakeChain() {
+  let head = BigInt(0)
+  let fork = 'a'
+  const logs: FakeLog[] = []
+  const statuses: { reportId: bigint; blockNumber: bigint; status: number }[] = []
+  let tx = 0
+
+  const hashOf = (n: bigint) => `0x${fork}${n.toString(16).padStart(63, '0')}` as `0x${string}`
+
+  const client = {
+    async getBlockNumber() {
+      return head
+    },
+    async getBlock({ blockNumber }: { blockNumber: bigint }) {
+      return { hash: hashOf(blockNumber), timestamp: BigInt(1_700_000_000) + blockNumber }
+    },
+    async getContractEvents({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) {
+      return logs.filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)
+    },
+    async readContract({ args: [reportId], blockNumber }: { args: [bigint]; blockNumber: bigint }) {
+      const changes = statuses.filter((c) => c.reportId === reportId && c.blockNumber <= blockNumber)
+      return { status: changes.length > 0 ? changes[changes.length - 1].status : REPORT_STATUS.ACTIVE }
+    },
+  } as unknown as IndexerClient
+
+  return {
+    client,
+    mine(blocks = 1) {
+      head += BigInt(blocks)
+    },
+    emit(eventName: string, args: Record<string, unknown>) {
+      logs.push({
+        eventName,
+        args,
+        blockNumber: head,
+        logIndex: logs.filter((l) => l.blockNumber === head).length,
+        transactionHash: `0x${(++tx).toString(16).padStart(64, '0')}`,
+      })
+    },
+    // Status the contract holds from the current block on
+    setStatus(reportId: number, status: number) {
+      statuses.push({ reportId: BigInt(reportId), blockNumber: head, status })
+    },
+    reorg(fromBlock: bigint) {
+      fork = fork === 'a' ? 'b' : 'a'
+      for (let i = logs.length - 1; i >= 0; i--) {
+        if (logs[i].blockNumber >= fromBlock) logs.splice(i, 1)
+      }
+      for (let i = statuses.length - 1; i >= 0; i--) {
+        if (statuses[i].blockNumber >= fromBlock) statuses.splice(i, 1)
+      }
+    },
+  }
+}
+
+function submitted(reportId: number) {
+  return {
+    reportId: BigInt(reportId),
+    reporterCommitment: COMMITMENT,
+    latitude: BigInt(4071280000),
+    longitude: BigInt(-7400600000),
+    eventType: 0,
+    stake: parseEther('0.001'),
+    expiresAt: BigInt(1_700_086_400),
+  }
+}
+
+const confirmer = (n: number) => `0x${n.toString(16).padStart(40, '0')}`
+
+let pglite: PGlite
+
+beforeAll(async () => {
+  pglite = new PGlite()
+  await pglite.exec(readFileSync(path.resolve(__dirname, '../../../../database/schema.sql'), 'utf8'))
+}, 120_000)
+
+const stores: [string, () => Promise<IndexerStore>][] = [
+  ['memory', async () => createMemoryIndexerStore()],
+  [
+    'postgres',
+    async () => {
+      await pglite.exec(
+        'TRUNCATE reports_cache, confirmations, regards, reward_claims, indexer_state, indexer_pending_events CASCADE'
+      )
+      return createPostgresIndexerStore(drizzle(pglite) as unknown as Database)
+    },
+  ],
+]
+
+describe.each(stores)('Chain indexer (%s)', (_name, createStore) => {
+  let chain: ReturnType<typeof createFakeChain>
+  let store: IndexerStore
+
+  const run = () =>
+    runIndexer({
+      client: chain.client,
+      store,
+      address: ADDRESS,
+      startBlock: BigInt(1),
+      reorgDepth: BigInt(5),
+      batchSize: BigInt(10),
+      maxBatches: 10,
+    })
+
+  beforeEach(async () => {
+    chain = createFakeChain()
+    store = await createStore()
+  })
+
+  it('should index submitted reports and store a checkpoint', async () => {
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(0))
+    chain.mine(4)
+
+    const result = await run()
+
+    expect(result.events).toBe(1)
+    expect(result.caughtUp).toBe(true)
+    expect((await store.getCheckpoint())?.blockNumber).toBe(BigInt(5))
+
+    const report = await store.getReport(0)
+    expect(report?.reporterCommitment).toBe(COMMITMENT)
+    expect(report?.stake).toBe(parseEther('0.001'))
+    expect(report?.status).toBe(REPORT_STATUS.ACTIVE)
+    expect(report?.createdAt.getTime()).toBe((1_700_000_000 + 1) * 1000)
+  })
+
+  it('should resume from the checkpoint in bounded batches', async () => {
+    chain.mine(25)
+    chain.emit('ReportSubmitted', submitted(0))
+
+    const first = await runIndexer({
+      client: chain.client,
+      store,
+      address: ADDRESS,
+      startBlock: BigInt(1),
+      batchSize: BigInt(10),
+      maxBatches: 2,
+    })
+    expect(first.toBlock).toBe(BigInt(20))
+    expect(first.caughtUp).toBe(false)
+    expect(await store.getReport(0)).toBeNull()
+
+    const second = await run()
+    expect(second.fromBlock).toBe(BigInt(21))
+    expect(second.caughtUp).toBe(true)
+    expect(await store.getReport(0)).not.toBeNull()
+  })
+
+  it('should keep confirmation count, regards total and status in sync', async () => {
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(0))
+    chain.mine()
+    for (let i = 1; i <= 3; i++) {
+      chain.emit('ReportConfirmed', { reportId: BigInt(0), confirmer: confirmer(i), newConfirmationCount: i })
+    }
+    chain.setStatus(0, REPORT_STATUS.CONFIRMED)
+    chain.emit('RegardsSent', { reportId: BigInt(0), sender: confirmer(9), amount: parseEther('0.5') })
+    chain.emit('RegardsSent', { reportId: BigInt(0), sender: confirmer(9), amount: parseEther('0.25') })
+
+    await run()
+
+    const report = await store.getReport(0)
+    expect(report?.confirmationCount).toBe(3)
+    expect(report?.totalRegards).toBe(parseEther('0.75'))
+    expect(report?.status).toBe(REPORT_STATUS.CONFIRMED)
+  })
+
+  it('should take the confirmed status from the chain, not the current threshold', async () => {
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(0))
+    chain.emit('ReportSubmitted', submitted(1))
+    chain.mine()
+    // Confirmed by a single confirmation while the threshold was 1
+    chain.emit('ReportConfirmed', { reportId: BigInt(0), confirmer: confirmer(1), newConfirmationCount: 1 })
+    chain.setStatus(0, REPORT_STATUS.CONFIRMED)
+    chain.mine()
+    // Raised since: three confirmations are no longer enough
+    for (let i = 1; i <= 3; i++) {
+      chain.emit('ReportConfirmed', { reportId: BigInt(1), confirmer: confirmer(i), newConfirmationCount: i })
+    }
+
+    await run()
+
+    expect(await store.getReport(0)).toMatchObject({ confirmationCount: 1, status: REPORT_STATUS.CONFIRMED })
+    expect(await store.getReport(1)).toMatchObject({ confirmationCount: 3, status: REPORT_STATUS.ACTIVE })
+  })
+
+  it('should apply expired and slashed statuses', async () => {
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(0))
+    chain.emit('ReportSubmitted', submitted(1))
+    chain.mine()
+    chain.emit('ReportExpired', { reportId: BigInt(0) })
+    chain.emit('ReportSlashed', { reportId: BigInt(1), commitment: COMMITMENT, slashedAmount: parseEther('0.001') })
+
+    await run()
+
+    expect((await store.getReport(0))?.status).toBe(REPORT_STATUS.EXPIRED)
+    expect((await store.getReport(1))?.status).toBe(REPORT_STATUS.SLASHED)
+  })
+
+  it('should be idempotent when a range is replayed', async () => {
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(0))
+    chain.emit('RegardsSent', { reportId: BigInt(0), sender: confirmer(9), amount: parseEther('1') })
+
+    await run()
+    await store.saveCheckpoint({ blockNumber: BigInt(0), blockHash: `0x${'0'.repeat(64)}` })
+    await run()
+
+    expect((await store.getReport(0))?.totalRegards).toBe(parseEther('1'))
+  })
+
+  it('should roll back and re-scan the last blocks after a reorg', async () => {
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(0))
+    chain.mine(3)
+    chain.emit('ReportConfirmed', { reportId: BigInt(0), confirmer: confirmer(1), newConfirmationCount: 1 })
+    chain.setStatus(0, REPORT_STATUS.CONFIRMED)
+    chain.emit('ReportSubmitted', submitted(1))
+    chain.mine()
+    chain.emit('ReportExpired', { reportId: BigInt(0) })
+
+    await run()
+    expect((await store.getReport(0))?.status).toBe(REPORT_STATUS.EXPIRED)
+
+    // Blocks 4+ are replaced by a fork where only a regards tx landed
+    chain.reorg(BigInt(4))
+    chain.emit('RegardsSent', { reportId: BigInt(0), sender: confirmer(9), amount: parseEther('0.1') })
+
+    const result = await run()
+
+    expect(result.reorged).toBe(true)
+    const report = await store.getReport(0)
+    expect(report?.status).toBe(REPORT_STATUS.ACTIVE)
+    expect(report?.confirmationCount).toBe(0)
+    expect(report?.totalRegards).toBe(parseEther('0.1'))
+    expect(await store.getReport(1)).toBeNull()
+  })
+
+  it('should hold confirmations and regards until the report is indexed', async () => {
+    chain.mine()
+    chain.emit('ReportConfirmed', { reportId: BigInt(42), confirmer: confirmer(1), newConfirmationCount: 1 })
+    chain.setStatus(42, REPORT_STATUS.CONFIRMED)
+    chain.emit('RegardsSent', { reportId: BigInt(42), sender: confirmer(9), amount: parseEther('0.2') })
+
+    const result = await run()
+
+    expect(result.events).toBe(2)
+    expect(await store.getReport(42)).toBeNull()
+
+    // e.g. submitted before the start block and ingested afterwards
+    await store.upsertReport({
+      chainReportId: 42,
+      reporterCommitment: COMMITMENT,
+      latitude: BigInt(4071280000),
+      longitude: BigInt(-7400600000),
+      eventType: 0,
+      stake: parseEther('0.001'),
+      createdAt: new Date(1_700_000_000_000),
+      expiresAt: new Date(1_700_086_400_000),
+      txHash: `0x${'cd'.repeat(32)}`,
+      blockNumber: BigInt(0),
+    })
+
+    expect(await store.getReport(42)).toMatchObject({
+      confirmationCount: 1,
+      totalRegards: parseEther('0.2'),
+      status: REPORT_STATUS.CONFIRMED,
+    })
+  })
+
+  it('should drop held events that a reorg removed', async () => {
+    chain.mine()
+    chain.emit('RegardsSent', { reportId: BigInt(42), sender: confirmer(9), amount: parseEther('0.2') })
+    chain.mine()
+    await run()
+
+    chain.reorg(BigInt(1))
+    chain.mine()
+    chain.emit('ReportSubmitted', submitted(42))
+    chain.mine()
+    const result = await run()
+
+    expect(result.reorged).toBe(true)
+    expect((await store.getReport(42))?.totalRegards).toBe(BigInt(0))
+  })
+})
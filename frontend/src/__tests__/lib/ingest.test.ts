@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest'
+import { encodeAbiParameters, encodeEventTopics, parseEther } from 'viem'
+import { RoadGuardABI } from '@/lib/contracts/RoadGuardABI'
+import {
+  INGEST_HEADERS,
+  INGEST_MAX_AGE_SECONDS,
+  parseIngestReport,
+  signIngestPayload,
+  verifyIngestSignature,
+  verifyReportOnChain,
+  type IngestChainClient,
+  type IngestReportInput,
+} from '@/lib/ingest'
+
+const SECRET = 'test-ingest-secret'
+const ADDRESS = '0x23a95d01af99F06c446522765E6F3E604865D58a'
+const COMMITMENT = `0x${'ab'.repeat(32)}` as `0x${string}`
+const TX_HASH = `0x${'cd'.repeat(32)}` as `0x${string}`
+const NOW = 1_700_000_000
+
+const row: IngestReportInput = {
+  chainReportId: 7,
+  reporterCommitment: COMMITMENT,
+  latitude: 4071280000,
+  longitude: -7400600000,
+  eventType: 0,
+  expiresAt: NOW + 86400,
+  txHash: TX_HASH,
+}
+
+function submittedLog(reportId: bigint) {
+  return {
+    address: ADDRESS.toLowerCase(),
+    topics: encodeEventTopics({
+      abi: RoadGuardABI,
+      eventName: 'ReportSubmitted',
+      args: { reportId, reporterCommitment: COMMITMENT },
+    }),
+    data: encodeAbiParameters(
+      [{ type: 'int64' }, { type: 'int64' }, { type: 'uint8' }, { type: 'uint256' }, { type: 'uint64' }],
+      [BigInt(row.latitude), BigInt(row.longitude), 0, parseEther('0.001'), BigInt(row.expiresAt)]
+    ),
+  }
+}
+
+function fakeClient(overrides: { report?: Record<string, unknown>; logs?: unknown[]; status?: string } = {}) {
+  return {
+    async readContract() {
+      return {
+        reporterCommitment: COMMITMENT,
+        latitude: BigInt(row.latitude),
+        longitude: BigInt(row.longitude),
+        eventType: 0,
+        status: 0,
+        timestamp: BigInt(NOW),
+        expiresAt: BigInt(row.expiresAt),
+        stakeAmount: parseEther('0.001'),
+        totalRegards: BigInt(0),
+        confirmationCount: 0,
+        ...overrides.report,
+      }
+    },
+    async getTransactionReceipt() {
+      return {
+        status: overrides.status ?? 'success',
+        blockNumber: BigInt(123),
+        logs: overrides.logs ?? [submittedLog(BigInt(7))],
+      }
+    },
+  } as unknown as IngestChainClient
+}
+
+describe('Ingestion auth', () => {
+  const body = JSON.stringify(row)
+
+  it('should accept a correctly signed request', () => {
+    const headers = new Headers(signIngestPayload(body, SECRET, { timestamp: NOW }))
+    const result = verifyIngestSignature({ headers, rawBody: body, secret: SECRET, now: NOW })
+
+    expect(result.ok).toBe(true)
+  })
+
+  it('should reject missing headers', () => {
+    const result = verifyIngestSignature({ headers: new Headers(), rawBody: body, secret: SECRET, now: NOW })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'MISSING_SIGNATURE' } })
+  })
+
+  it('should reject a tampered body', () => {
+    const headers = new Headers(signIngestPayload(body, SECRET, { timestamp: NOW }))
+    const tampered = JSON.stringify({ ...row, latitude: 0 })
+    const result = verifyIngestSignature({ headers, rawBody: tampered, secret: SECRET, now: NOW })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'INVALID_SIGNATURE' } })
+  })
+
+  it('should reject a signature made with another secret', () => {
+    const headers = new Headers(signIngestPayload(body, 'other-secret', { timestamp: NOW }))
+    const result = verifyIngestSignature({ headers, rawBody: body, secret: SECRET, now: NOW })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'INVALID_SIGNATURE' } })
+  })
+
+  it('should reject timestamps outside the replay window', () => {
+    const headers = new Headers(
+      signIngestPayload(body, SECRET, { timestamp: NOW - INGEST_MAX_AGE_SECONDS - 1 })
+    )
+    const result = verifyIngestSignature({ headers, rawBody: body, secret: SECRET, now: NOW })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'STALE_TIMESTAMP' } })
+  })
+
+  it('should reject malformed nonces', () => {
+    const headers = new Headers(signIngestPayload(body, SECRET, { timestamp: NOW, nonce: 'short' }))
+    const result = verifyIngestSignature({ headers, rawBody: body, secret: SECRET, now: NOW })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'INVALID_SIGNATURE' } })
+    expect(headers.get(INGEST_HEADERS.nonce)).toBe('short')
+  })
+})
+
+describe('Ingestion payload', () => {
+  it('should accept a well-formed row', () => {
+    expect(parseIngestReport(row).ok).toBe(true)
+  })
+
+  it('should reject an invalid event type', () => {
+    expect(parseIngestReport({ ...row, eventType: 9 })).toMatchObject({
+      ok: false,
+      error: { code: 'INVALID_PAYLOAD' },
+    })
+  })
+
+  it('should reject a non-hex commitment', () => {
+    expect(parseIngestReport({ ...row, reporterCommitment: 'abc' })).toMatchObject({
+      ok: false,
+      error: { code: 'INVALID_PAYLOAD' },
+    })
+  })
+})
+
+describe('On-chain verification', () => {
+  it('should return the chain values for a matching row', async () => {
+    const result = await verifyReportOnChain(fakeClient(), ADDRESS, row)
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.report.stake).toBe(parseEther('0.001'))
+      expect(result.report.blockNumber).toBe(BigInt(123))
+      expect(result.report.createdAt.getTime()).toBe(NOW * 1000)
+    }
+  })
+
+  it('should reject reports that do not exist', async () => {
+    const result = await verifyReportOnChain(fakeClient({ report: { timestamp: BigInt(0) } }), ADDRESS, row)
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'REPORT_NOT_FOUND' } })
+  })
+
+  it('should list the fields that differ from getReport', async () => {
+    const result = await verifyReportOnChain(
+      fakeClient({ report: { latitude: BigInt(1), eventType: 3 } }),
+      ADDRESS,
+      row
+    )
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'REPORT_MISMATCH' } })
+    if (!result.ok) {
+      expect(result.error.message).toContain('latitude')
+      expect(result.error.message).toContain('eventType')
+    }
+  })
+
+  it('should reject a txHash that submitted a different report', async () => {
+    const result = await verifyReportOnChain(fakeClient({ logs: [submittedLog(BigInt(8))] }), ADDRESS, row)
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'TX_MISMATCH' } })
+  })
+
+  it('should reject a reverted transaction', async () => {
+    const result = await verifyReportOnChain(fakeClient({ status: 'reverted' }), ADDRESS, row)
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'TX_MISMATCH' } })
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { BaseError } from 'viem'
+import { createLogger, redact, setLogSink, type LogConfig, type LogEntry } from '@/lib/logger'
+
+const COMMITMENT = `0x${'ab'.repeat(32)}`
+const IP = '203.0.113.7'
+const originalEnv = process.env
+
+const config: LogConfig = { level: 'debug', coordinates: 'round', coordinatePrecision: 2 }
+
+describe('Logger', () => {
+  let entries: LogEntry[]
+  let restore: () => void
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, LOG_LEVEL: 'debug' }
+    entries = []
+    restore = setLogSink((entry) => entries.push(entry))
+  })
+
+  afterEach(() => {
+    restore()
+    process.env = originalEnv
+  })
+
+  const sunk = () => JSON.stringify(entries)
+
+  it('should write structured entries with scope and level', () => {
+    createLogger('relay').info('report queued', { jobId: 'job-1' })
+
+    expect(entries).toEqual([
+      expect.objectContaining({ scope: 'relay', level: 'info', msg: 'report queued', jobId: 'job-1' }),
+    ])
+  })
+
+  it('should never pass sensitive fields to the sink', () => {
+    createLogger('relay').warn('relay request rejected', {
+      commitment: COMMITMENT,
+      latitude: 19.432612,
+      longitude: -99.133208,
+      ip: IP,
+      headers: { 'x-forwarded-for': IP, authorization: 'Bearer cron-secret' },
+      passphrase: 'correct horse battery staple',
+      report: { reporterCommitment: COMMITMENT, lat: 1943261200, lng: -9913320800 },
+    })
+
+    const output = sunk()
+    expect(output).not.toContain(COMMITMENT)
+    expect(output).not.toContain('ab'.repeat(32))
+    expect(output).not.toContain(IP)
+    expect(output).not.toContain('19.4326')
+    expect(output).not.toContain('99.1332')
+    expect(output).not.toContain('cron-secret')
+    expect(output).not.toContain('battery')
+  })
+
+  it('should round coordinates, including scaled on-chain values', () => {
+    expect(redact({ latitude: 19.432612, lng: -9913320800 }, config)).toEqual({ latitude: 19.43, lng: -99.13 })
+  })
+
+  it('should drop coordinates when configured to', () => {
+    expect(redact({ latitude: 19.43, longitude: -99.13, eventType: 0 }, { ...config, coordinates: 'drop' })).toEqual({
+      eventType: 0,
+    })
+  })
+
+  it('should hash commitments consistently so entries can be correlated', () => {
+    const first = redact({ commitment: COMMITMENT }, config) as { commitment: string }
+    const second = redact({ commitment: COMMITMENT.toUpperCase().replace('0X', '0x') }, config) as { commitment: string }
+
+    expect(first.commitment).toMatch(/^h:[0-9a-f]{16}$/)
+    expect(second.commitment).toBe(first.commitment)
+  })
+
+  it('should scrub commitments and IPs from messages and errors', () => {
+    const log = createLogger('relay')
+    log.error(`lookup failed for ${COMMITMENT} from ${IP}`, {
+      error: new Error(`execution reverted: ${COMMITMENT} ${IP}`),
+    })
+
+    const output = sunk()
+    expect(output).not.toContain(COMMITMENT)
+    expect(output).not.toContain(IP)
+  })
+
+  it('should log only the short message of viem errors', () => {
+    const error = new BaseError('Contract call reverted', { details: `args: (${COMMITMENT}, 1943261200)` })
+    createLogger('relay').error('send failed', { error })
+
+    expect(entries[0].error).toEqual({ name: 'BaseError', message: 'Contract call reverted' })
+  })
+
+  it('should keep transaction hashes readable', () => {
+    const txHash = `0x${'cd'.repeat(32)}`
+    createLogger('relay').info('broadcast', { txHash })
+
+    expect(entries[0].txHash).toBe(txHash)
+  })
+
+  it('should respect LOG_LEVEL', () => {
+    process.env.LOG_LEVEL = 'warn'
+    const log = createLogger('relay')
+
+    log.debug('debug')
+    log.info('info')
+    log.warn('warn')
+    log.error('error')
+
+    expect(entries.map((entry) => entry.level)).toEqual(['warn', 'error'])
+  })
+
+  it('should carry child fields through redaction', () => {
+    createLogger('relay').child({ commitment: COMMITMENT, route: '/api/relay/report' }).info('hello')
+
+    expect(entries[0].route).toBe('/api/relay/report')
+    expect(sunk()).not.toContain(COMMITMENT)
+  })
+})
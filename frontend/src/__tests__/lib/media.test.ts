@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import { isBlurhashValid } from 'blurhash'
+import { createImageDerivatives, sanitizeImage, sniffImageType, type ImageType } from '@/lib/media'
+
+// What a phone camera writes: device, capture time and position
+const PHONE_EXIF = {
+  IFD0: { Make: 'PhoneCo', Model: 'X1 Pro', DateTime: '2025:01:01 08:30:00' },
+  IFD3: {
+    GPSLatitudeRef: 'N',
+    GPSLatitude: '19/1 25/1 36/1',
+    GPSLongitudeRef: 'W',
+    GPSLongitude: '99/1 7/1 59/1',
+  },
+}
+
+const FORMATS = { 'image/jpeg': 'jpeg', 'image/png': 'png', 'image/webp': 'webp' } as const
+
+// 6x4 pixels, stored rotated: EXIF orientation 6 means "rotate 90° to display"
+function phonePhoto(type: keyof typeof FORMATS) {
+  return sharp({ create: { width: 6, height: 4, channels: 3, background: '#cc3300' } })
+    [FORMATS[type]]()
+    .withExif(PHONE_EXIF)
+    .withMetadata({ orientation: 6 })
+    .toBuffer()
+}
+
+// The GPS IFD pointer tag (0x8825), in either byte order
+const hasGpsTag = (exif: Buffer) => exif.includes(Buffer.from([0x88, 0x25])) || exif.includes(Buffer.from([0x25, 0x88]))
+
+describe('sniffImageType', () => {
+  it('should recognise JPEG, PNG, WebP and GIF by their magic bytes', async () => {
+    for (const type of Object.keys(FORMATS) as (keyof typeof FORMATS)[]) {
+      expect(sniffImageType(await phonePhoto(type))).toBe(type)
+    }
+    expect(sniffImageType(Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1'))).toBe('image/gif')
+  })
+
+  it('should return null for anything else', () => {
+    expect(sniffImageType(Buffer.from('%PDF-1.7'))).toBeNull()
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WAVE'))).toBeNull()
+    expect(sniffImageType(new Uint8Array(0))).toBeNull()
+  })
+})
+
+describe('sanitizeImage', () => {
+  for (const type of Object.keys(FORMATS) as (keyof typeof FORMATS)[]) {
+    it(`should strip EXIF and GPS from ${type} and apply the orientation`, async () => {
+      const input = await phonePhoto(type)
+      const before = await sharp(input).metadata()
+      expect(hasGpsTag(before.exif!)).toBe(true)
+      expect(before.exif!.toString('latin1')).toContain('PhoneCo')
+
+      const output = await sanitizeImage(input, type as ImageType)
+      const after = await sharp(output.buffer).metadata()
+
+      expect(after.format).toBe(FORMATS[type])
+      expect(after.exif).toBeUndefined()
+      expect(after.xmp).toBeUndefined()
+      expect(after.orientation).toBeUndefined()
+      expect(output.buffer.includes(Buffer.from('PhoneCo'))).toBe(false)
+      // Rotated upright: 4 wide, 6 high
+      expect([output.width, output.height]).toEqual([4, 6])
+      expect([after.width, after.height]).toEqual([4, 6])
+    })
+  }
+
+  it('should keep every frame of an animated GIF', async () => {
+    const frames = await sharp({ create: { width: 4, height: 8, channels: 3, background: '#000' } })
+      .gif()
+      .toBuffer()
+    const animated = await sharp(frames, { pages: -1 }).gif().toBuffer()
+
+    const output = await sanitizeImage(animated, 'image/gif')
+
+    expect((await sharp(output.buffer).metadata()).format).toBe('gif')
+    // The size of one frame, not of the stacked frames
+    expect([output.width, output.height]).toEqual([4, 8])
+  })
+
+  it('should reject data that does not decode', async () => {
+    const truncated = (await phonePhoto('image/png')).subarray(0, 40)
+
+    await expect(sanitizeImage(truncated, 'image/png')).rejects.toThrow()
+  })
+})
+
+describe('createImageDerivatives', () => {
+  it('should make WebP thumb, feed and full sizes within their bounds', async () => {
+    const input = await sharp({ create: { width: 4000, height: 3000, channels: 3, background: '#2255aa' } })
+      .jpeg()
+      .toBuffer()
+
+    const { variants } = await createImageDerivatives(input)
+
+    expect([variants.thumb.width, variants.thumb.height]).toEqual([320, 240])
+    expect([variants.feed.width, variants.feed.height]).toEqual([960, 720])
+    expect([variants.full.width, variants.full.height]).toEqual([2048, 1536])
+    for (const variant of Object.values(variants)) {
+      const metadata = await sharp(variant.buffer).metadata()
+      expect(variant.contentType).toBe('image/webp')
+      expect([metadata.format, metadata.width, metadata.height]).toEqual(['webp', variant.width, variant.height])
+    }
+  })
+
+  it('should not enlarge small images', async () => {
+    const input = await sharp({ create: { width: 200, height: 500, channels: 3, background: '#000' } }).png().toBuffer()
+
+    const { variants } = await createImageDerivatives(input)
+
+    expect([variants.thumb.width, variants.thumb.height]).toEqual([128, 320])
+    expect([variants.full.width, variants.full.height]).toEqual([200, 500])
+  })
+
+  it('should add a blurhash with more rows than columns for portrait images', async () => {
+    const landscape = await createImageDerivatives(
+      await sharp({ create: { width: 60, height: 30, channels: 3, background: '#ff0000' } }).png().toBuffer()
+    )
+    const portrait = await createImageDerivatives(
+      await sharp({ create: { width: 30, height: 60, channels: 3, background: '#ff0000' } }).png().toBuffer()
+    )
+
+    expect(isBlurhashValid(landscape.blurhash).result).toBe(true)
+    expect(isBlurhashValid(portrait.blurhash).result).toBe(true)
+    // The first character encodes the component counts, (y - 1) * 9 + (x - 1) in base 83
+    expect(landscape.blurhash[0]).toBe('L') // 4 x 3
+    expect(portrait.blurhash[0]).toBe('T') // 3 x 4
+  })
+})
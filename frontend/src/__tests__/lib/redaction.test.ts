@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest'
+import sharp from 'sharp'
+import {
+  createUltraFaceDetector,
+  createYoloDetector,
+  nonMaxSuppression,
+  parseManualRegions,
+  redactImage,
+  type DetectedRegion,
+  type TensorRunner,
+} from '@/lib/media'
+
+const WIDTH = 120
+const HEIGHT = 80
+
+// Black and white 2px checkerboard: any blur flattens it to grey
+async function checkerboard() {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * 3)
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      pixels.fill((Math.floor(x / 2) + Math.floor(y / 2)) % 2 ? 255 : 0, (y * WIDTH + x) * 3, (y * WIDTH + x + 1) * 3)
+    }
+  }
+  const buffer = await sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels: 3 } }).png().toBuffer()
+  return { buffer, contentType: 'image/png' as const, width: WIDTH, height: HEIGHT }
+}
+
+// Standard deviation of the grey level inside a rectangle
+async function contrast(buffer: Buffer, region: { left: number; top: number; width: number; height: number }) {
+  const grey = await sharp(buffer).extract(region).greyscale().raw().toBuffer()
+  const mean = grey.reduce((sum, value) => sum + value, 0) / grey.length
+  return Math.sqrt(grey.reduce((sum, value) => sum + (value - mean) ** 2, 0) / grey.length)
+}
+
+const face = (x: number, y: number, size: number, score = 0.9): DetectedRegion => ({
+  label: 'face',
+  score,
+  x,
+  y,
+  width: size,
+  height: size,
+})
+
+describe('parseManualRegions', () => {
+  it('should accept fractional rectangles', () => {
+    expect(parseManualRegions([{ x: 0.1, y: 0.2, width: 0.3, height: 0.4 }])).toEqual([
+      { x: 0.1, y: 0.2, width: 0.3, height: 0.4 },
+    ])
+    expect(parseManualRegions([])).toEqual([])
+  })
+
+  it('should reject anything else', () => {
+    expect(parseManualRegions('nope')).toMatch(/array/)
+    expect(parseManualRegions([{ x: 10, y: 0, width: 1, height: 1 }])).toMatch(/between 0 and 1/)
+    expect(parseManualRegions([{ x: 0, y: 0, width: 0.5 }])).toMatch(/between 0 and 1/)
+    expect(parseManualRegions([null])).toMatch(/between 0 and 1/)
+    expect(parseManualRegions(Array(21).fill({ x: 0, y: 0, width: 0.1, height: 0.1 }))).toMatch(/At most 20/)
+  })
+})
+
+describe('redactImage', () => {
+  it('should leave the image alone when there is nothing to blur', async () => {
+    const image = await checkerboard()
+
+    const { buffer, redaction } = await redactImage(image, { detector: async () => [] })
+
+    expect(buffer).toBe(image.buffer)
+    expect(redaction).toEqual({ automatic: true, faces: 0, plates: 0, manual: 0 })
+  })
+
+  it('should blur detected regions and record what was found', async () => {
+    const image = await checkerboard()
+    const detector = vi.fn(async () => [face(10, 10, 20), { ...face(70, 40, 30), label: 'plate' as const }])
+
+    const { buffer, redaction } = await redactImage(image, { detector })
+
+    expect(detector).toHaveBeenCalledWith(image)
+    expect(redaction).toEqual({ automatic: true, faces: 1, plates: 1, manual: 0 })
+    expect((await sharp(buffer).metadata()).format).toBe('png')
+    expect(await contrast(buffer, { left: 12, top: 12, width: 16, height: 16 })).toBeLessThan(40)
+    expect(await contrast(buffer, { left: 72, top: 42, width: 26, height: 26 })).toBeLessThan(40)
+    // Untouched elsewhere
+    expect(await contrast(buffer, { left: 40, top: 0, width: 20, height: 8 })).toBeGreaterThan(120)
+  })
+
+  it('should blur painted regions given as fractions of the image', async () => {
+    const image = await checkerboard()
+
+    const { buffer, redaction } = await redactImage(image, {
+      manualRegions: [{ x: 0.5, y: 0.5, width: 0.5, height: 0.5 }],
+    })
+
+    expect(redaction).toEqual({ automatic: false, faces: 0, plates: 0, manual: 1 })
+    expect(await contrast(buffer, { left: 60, top: 40, width: 60, height: 40 })).toBeLessThan(40)
+    expect(await contrast(buffer, { left: 0, top: 0, width: 60, height: 40 })).toBeGreaterThan(120)
+  })
+
+  it('should scan and store only the first frame of an animated GIF', async () => {
+    const frame = (background: string) =>
+      sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background } }).gif().toBuffer()
+    const animated = await sharp([await frame('#000'), await frame('#fff')], { join: { animated: true } })
+      .gif()
+      .toBuffer()
+    const detector = vi.fn(async () => [])
+
+    const { buffer } = await redactImage(
+      { buffer: animated, contentType: 'image/gif', width: WIDTH, height: HEIGHT },
+      { detector }
+    )
+
+    expect((await sharp(detector.mock.calls[0][0].buffer).metadata()).pages).toBe(1)
+    const stored = await sharp(buffer).metadata()
+    expect([stored.format, stored.pages, stored.width, stored.height]).toEqual(['gif', 1, WIDTH, HEIGHT])
+  })
+
+  it('should keep every frame when redaction is off and nothing was painted', async () => {
+    const frame = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#000' } }).gif().toBuffer()
+    const animated = await sharp([frame, frame], { join: { animated: true } }).gif().toBuffer()
+
+    const { buffer } = await redactImage({ buffer: animated, contentType: 'image/gif', width: 4, height: 4 })
+
+    expect(buffer).toBe(animated)
+  })
+
+  it('should clamp regions that reach past the edges', async () => {
+    const image = await checkerboard()
+
+    const { buffer } = await redactImage(image, { detector: async () => [face(-10, -10, 30), face(110, 70, 50)] })
+
+    expect(await contrast(buffer, { left: 0, top: 0, width: 16, height: 16 })).toBeLessThan(40)
+    expect(await contrast(buffer, { left: 112, top: 72, width: 8, height: 8 })).toBeLessThan(60)
+  })
+})
+
+describe('nonMaxSuppression', () => {
+  it('should keep the best of overlapping boxes with the same label', () => {
+    const kept = nonMaxSuppression([
+      face(10, 10, 20, 0.8),
+      face(11, 11, 20, 0.95),
+      face(60, 10, 20, 0.7),
+      { ...face(10, 10, 20, 0.6), label: 'plate' },
+    ])
+
+    expect(kept.map((region) => [region.label, region.score])).toEqual([
+      ['face', 0.95],
+      ['face', 0.7],
+      ['plate', 0.6],
+    ])
+  })
+})
+
+describe('ONNX detectors', () => {
+  it('should feed UltraFace a normalised 320x240 tensor and map its boxes to pixels', async () => {
+    const white = await sharp({ create: { width: 640, height: 480, channels: 3, background: '#ffffff' } }).png().toBuffer()
+    const run = vi.fn<TensorRunner>(async () => ({
+      // Two anchors: a confident face and background
+      scores: { data: new Float32Array([0.05, 0.95, 0.9, 0.1]), dims: [1, 2, 2] },
+      boxes: { data: new Float32Array([0.25, 0.5, 0.5, 1, 0, 0, 0.1, 0.1]), dims: [1, 2, 4] },
+    }))
+
+    const regions = await createUltraFaceDetector(run)({ buffer: white, width: 640, height: 480 })
+
+    const [input, dims] = run.mock.calls[0]
+    expect(dims).toEqual([1, 3, 240, 320])
+    expect(input).toHaveLength(3 * 240 * 320)
+    expect(input[0]).toBeCloseTo(1)
+    expect(regions).toEqual([{ label: 'face', score: expect.closeTo(0.95), x: 160, y: 240, width: 160, height: 240 }])
+  })
+
+  it('should undo the YOLO letterbox scale', async () => {
+    const image = await sharp({ create: { width: 1280, height: 640, channels: 3, background: '#000000' } }).png().toBuffer()
+    // 1 x (4 + 1 class) x 2 candidates, rows first
+    const output = new Float32Array([
+      /* cx */ 100, 5,
+      /* cy */ 50, 5,
+      /* w  */ 40, 2,
+      /* h  */ 20, 2,
+      /* p  */ 0.8, 0.1,
+    ])
+    const run = vi.fn<TensorRunner>(async () => ({ output0: { data: output, dims: [1, 5, 2] } }))
+
+    const regions = await createYoloDetector(run, { label: 'plate' })({ buffer: image, width: 1280, height: 640 })
+
+    expect(run.mock.calls[0][1]).toEqual([1, 3, 640, 640])
+    // 1280px wide fits 640 at scale 0.5
+    expect(regions).toEqual([{ label: 'plate', score: expect.closeTo(0.8), x: 160, y: 80, width: 80, height: 40 }])
+  })
+})
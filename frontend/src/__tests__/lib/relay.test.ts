@@ -0,0 +1,631 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { parseEther } from 'viem'
+import {
+  processRelayQueue,
+  createMemoryRelayJobStore,
+  serializeRelayJob,
+  estimateInclusion,
+  scheduleRelayJob,
+  shuffle,
+  checkClaimRecipient,
+  commitmentForSecret,
+  claimJobId,
+  payoutJobId,
+  quoteClaim,
+  type Hex,
+  type RelayChain,
+  type RelayJobPayload,
+  type RelayJobStore,
+  type RelayMixConfig,
+  type RelayQueueConfig,
+} from '@/lib/relay'
+import { createMemoryReportDetailsStore, reportContentHash, type ReportDetailsStore } from '@/lib/details'
+
+const RELAYER = '0x00000000000000000000000000000000000000aa' as Hex
+const GWEI = BigInt(1_000_000_000)
+
+const payload: RelayJobPayload = {
+  kind: 'submit_report',
+  commitment: `0x${'ab'.repeat(32)}`,
+  latitude: 19.4326,
+  longitude: -99.1332,
+  eventType: 0,
+  stake: parseEther('0.001').toString(),
+}
+
+const config: Partial<RelayQueueConfig> = {
+  maxAttempts: 3,
+  backoffBaseMs: 1000,
+  pollIntervalMs: 100,
+  stuckAfterMs: 10_000,
+  gasBumpPercent: 25,
+  maxGasPrice: null,
+  shuffle: false,
+}
+
+type Sent = { hash: Hex; nonce: number; gasPrice: bigint; cancel: boolean }
+
+// Wallet whose mempool only mines when told to
+function createFakeChain() {
+  let pendingNonce = 0
+  let gasPrice = GWEI
+  const sent: Sent[] = []
+  const payloads = new Map<Hex, RelayJobPayload>()
+  const mined = new Map<Hex, 'success' | 'reverted'>()
+  const claimed = new Map<Hex, bigint>()
+  let pendingRewards = BigInt(0)
+  const pendingByCommitment = new Map<Hex, bigint>()
+  const failures: Error[] = []
+  const estimateFailures: Error[] = []
+  let reportId = 0
+
+  const record = (nonce: number, price: bigint, cancel: boolean) => {
+    const failure = failures.shift()
+    if (failure) throw failure
+    const hash = `0x${(sent.length + 1).toString(16).padStart(64, '0')}` as Hex
+    sent.push({ hash, nonce, gasPrice: price, cancel })
+    return hash
+  }
+
+  const chain: RelayChain = {
+    address: RELAYER,
+    async getPendingNonce() {
+      return pendingNonce
+    },
+    async getGasPrice() {
+      return gasPrice
+    },
+    async getBalance() {
+      return parseEther('1')
+    },
+    async getPendingRewards(commitment) {
+      return pendingByCommitment.get(commitment) ?? pendingRewards
+    },
+    async estimateGas(job) {
+      const failure = estimateFailures.shift()
+      if (failure) throw failure
+      return BigInt(job.kind === 'payout' ? 21_000 : 100_000)
+    },
+    async send(payload, tx) {
+      const hash = record(tx.nonce, tx.gasPrice, false)
+      payloads.set(hash, payload)
+      return hash
+    },
+    async cancel(tx) {
+      return record(tx.nonce, tx.gasPrice, true)
+    },
+    async getReceipt(hash) {
+      const status = mined.get(hash)
+      if (!status) return null
+      const claimedAmount = claimed.get(hash) ?? null
+      return {
+        status,
+        blockNumber: BigInt(100),
+        reportId: status === 'success' && claimedAmount === null ? ++reportId : null,
+        claimedAmount,
+      }
+    },
+    async getTransactionInput(hash) {
+      const payload = payloads.get(hash)
+      // Selector and arguments don't matter here, only the appended hash
+      return payload?.kind === 'submit_report' && payload.details ? payload.details.contentHash : '0x'
+    },
+  }
+
+  return {
+    chain,
+    sent,
+    mine(hash: Hex, status: 'success' | 'reverted' = 'success') {
+      mined.set(hash, status)
+      pendingNonce++
+    },
+    mineClaim(hash: Hex, amount: bigint) {
+      claimed.set(hash, amount)
+      mined.set(hash, 'success')
+      pendingNonce++
+    },
+    setPendingRewards(amount: bigint, commitment?: Hex) {
+      if (commitment) pendingByCommitment.set(commitment, amount)
+      else pendingRewards = amount
+    },
+    failNext(error: Error) {
+      failures.push(error)
+    },
+    failNextEstimate(error: Error) {
+      estimateFailures.push(error)
+    },
+    setGasPrice(price: bigint) {
+      gasPrice = price
+    },
+  }
+}
+
+describe('Relay queue', () => {
+  let store: RelayJobStore
+  let fake: ReturnType<typeof createFakeChain>
+  let clock: number
+
+  const run = () => processRelayQueue({ store, chain: fake.chain, config, now: () => new Date(clock) })
+
+  beforeEach(() => {
+    store = createMemoryRelayJobStore()
+    fake = createFakeChain()
+    clock = Date.now()
+  })
+
+  it('should broadcast a queued job and settle it once mined', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+
+    expect(await run()).toMatchObject({ submitted: 1 })
+    expect(fake.sent).toHaveLength(1)
+    expect((await store.get(job.id))?.status).toBe('submitted')
+
+    fake.mine(fake.sent[0].hash)
+    clock += 200
+    expect(await run()).toMatchObject({ confirmed: 1 })
+
+    const settled = serializeRelayJob((await store.get(job.id))!)
+    expect(settled).toMatchObject({ status: 'confirmed', txHash: fake.sent[0].hash, blockNumber: '100', reportId: 1 })
+    expect(settled).not.toHaveProperty('payload')
+  })
+
+  it('should hand out consecutive nonces to concurrent jobs', async () => {
+    await store.enqueue(payload, new Date(clock))
+    await store.enqueue(payload, new Date(clock))
+    await store.enqueue(payload, new Date(clock))
+
+    await run()
+
+    expect(fake.sent.map((tx) => tx.nonce)).toEqual([0, 1, 2])
+  })
+
+  it('should not reuse a nonce before the chain catches up', async () => {
+    await store.enqueue(payload, new Date(clock))
+    await run()
+    await store.enqueue(payload, new Date(clock))
+    await run()
+
+    expect(fake.sent.map((tx) => tx.nonce)).toEqual([0, 1])
+  })
+
+  it('should replace a stuck transaction with a bumped gas price on the same nonce', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+    await run()
+
+    // Still within the patience window: nothing new is sent
+    clock += 5_000
+    await run()
+    expect(fake.sent).toHaveLength(1)
+
+    clock += 6_000
+    expect(await run()).toMatchObject({ replaced: 1 })
+    expect(fake.sent).toHaveLength(2)
+    expect(fake.sent[1].nonce).toBe(fake.sent[0].nonce)
+    expect(fake.sent[1].gasPrice).toBe((GWEI * BigInt(125)) / BigInt(100))
+
+    // The original may still win the race
+    fake.mine(fake.sent[0].hash)
+    clock += 200
+    await run()
+    expect(serializeRelayJob((await store.get(job.id))!)).toMatchObject({
+      status: 'confirmed',
+      txHash: fake.sent[0].hash,
+    })
+  })
+
+  it('should use the network gas price when it is above the bump', async () => {
+    await store.enqueue(payload, new Date(clock))
+    await run()
+
+    fake.setGasPrice(GWEI * BigInt(3))
+    clock += 11_000
+    await run()
+
+    expect(fake.sent[1].gasPrice).toBe(GWEI * BigInt(3))
+  })
+
+  it('should stop replacing once the gas price cap is reached', async () => {
+    await store.enqueue(payload, new Date(clock))
+    await processRelayQueue({ store, chain: fake.chain, config: { ...config, maxGasPrice: GWEI }, now: () => new Date(clock) })
+
+    clock += 11_000
+    await processRelayQueue({ store, chain: fake.chain, config: { ...config, maxGasPrice: GWEI }, now: () => new Date(clock) })
+
+    expect(fake.sent).toHaveLength(1)
+  })
+
+  it('should retry failed broadcasts with exponential backoff', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+    fake.failNext(new Error('rpc unavailable'))
+
+    await run()
+    let stored = (await store.get(job.id))!
+    expect(stored).toMatchObject({ status: 'queued', attempts: 1, lastError: 'rpc unavailable' })
+    expect(stored.nextAttemptAt.getTime()).toBe(clock + 1000)
+
+    // Not due yet
+    clock += 500
+    expect(await run()).toMatchObject({ processed: 0 })
+
+    fake.failNext(new Error('rpc unavailable'))
+    clock += 500
+    await run()
+    stored = (await store.get(job.id))!
+    expect(stored.attempts).toBe(2)
+    expect(stored.nextAttemptAt.getTime()).toBe(clock + 2000)
+
+    clock += 2000
+    await run()
+    expect((await store.get(job.id))?.status).toBe('submitted')
+    // The nonce held across retries is the one finally used
+    expect(fake.sent[0].nonce).toBe(stored.nonce)
+  })
+
+  it('should fail the job and cancel its nonce after the last attempt', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+    for (let i = 0; i < 3; i++) {
+      fake.failNext(new Error('execution reverted'))
+      await run()
+      clock += 10_000
+    }
+
+    const stored = (await store.get(job.id))!
+    expect(stored).toMatchObject({ status: 'failed', attempts: 3, nonce: null })
+    expect(serializeRelayJob(stored).error).toBe('execution reverted')
+    expect(fake.sent).toEqual([expect.objectContaining({ nonce: 0, cancel: true })])
+  })
+
+  it('should fail a job that would revert without holding a nonce', async () => {
+    const reverting = await store.enqueue(payload, new Date(clock))
+    const next = await store.enqueue(payload, new Date(clock))
+    fake.failNextEstimate(new Error('execution reverted: invalid latitude'))
+
+    expect(await run()).toMatchObject({ failed: 1, submitted: 1 })
+    expect(await store.get(reverting.id)).toMatchObject({
+      status: 'failed',
+      nonce: null,
+      lastError: 'execution reverted: invalid latitude',
+    })
+    // Nothing was cancelled, and the next job took the first nonce
+    expect(fake.sent).toEqual([expect.objectContaining({ nonce: 0, cancel: false })])
+    expect((await store.get(next.id))?.status).toBe('submitted')
+  })
+
+  it('should retry when the simulation itself fails', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+    fake.failNextEstimate(new Error('rpc unavailable'))
+
+    await run()
+    expect(await store.get(job.id)).toMatchObject({ status: 'queued', attempts: 1, nonce: null })
+    expect(fake.sent).toHaveLength(0)
+  })
+
+  it('should mark reverted transactions as failed', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+    await run()
+
+    fake.mine(fake.sent[0].hash, 'reverted')
+    clock += 200
+    expect(await run()).toMatchObject({ failed: 1 })
+    expect((await store.get(job.id))?.lastError).toBe('Transaction reverted')
+  })
+
+  it('should take a fresh nonce when the held one was used outside the queue', async () => {
+    const job = await store.enqueue(payload, new Date(clock))
+    fake.failNext(new Error('nonce too low'))
+
+    await run()
+    expect((await store.get(job.id))?.nonce).toBeNull()
+
+    clock += 200
+    await run()
+    expect(fake.sent[0].nonce).toBe(1)
+  })
+})
+
+describe('Relay report details', () => {
+  const content = { description: 'Lane closed', photos: ['https://bucket.example.com/roadguard/a.jpg'] }
+  const withDetails: RelayJobPayload = { ...payload, details: { ...content, contentHash: reportContentHash(content) } }
+
+  let store: RelayJobStore
+  let fake: ReturnType<typeof createFakeChain>
+  let details: ReportDetailsStore
+  let clock: number
+
+  const run = () => processRelayQueue({ store, chain: fake.chain, details, config, now: () => new Date(clock) })
+
+  beforeEach(() => {
+    store = createMemoryRelayJobStore()
+    fake = createFakeChain()
+    details = createMemoryReportDetailsStore()
+    clock = Date.now()
+  })
+
+  it('should save the details under the report id once mined', async () => {
+    await store.enqueue(withDetails, new Date(clock))
+    await run()
+    expect(await details.get(1)).toBeNull()
+
+    fake.mine(fake.sent[0].hash)
+    clock += 200
+    await run()
+
+    expect(await details.get(1)).toMatchObject({
+      chainReportId: 1,
+      ...content,
+      contentHash: reportContentHash(content),
+      txHash: fake.sent[0].hash,
+      anchored: true,
+    })
+  })
+
+  it('should save the details with the anchor unknown when the transaction cannot be fetched', async () => {
+    fake.chain.getTransactionInput = async () => {
+      throw new Error('RPC down')
+    }
+    await store.enqueue(withDetails, new Date(clock))
+    await run()
+    fake.mine(fake.sent[0].hash)
+    clock += 200
+
+    expect(await run()).toMatchObject({ confirmed: 1 })
+    expect(await details.get(1)).toMatchObject({ chainReportId: 1, anchored: null })
+  })
+
+  it('should keep the job open and retry when saving fails', async () => {
+    const job = await store.enqueue(withDetails, new Date(clock))
+    await run()
+    fake.mine(fake.sent[0].hash)
+
+    const save = details.save
+    details.save = async () => {
+      throw new Error('database unavailable')
+    }
+    clock += 200
+    await run()
+    expect(await store.get(job.id)).toMatchObject({ status: 'submitted', lastError: 'database unavailable' })
+
+    details.save = save
+    clock += 200
+    expect(await run()).toMatchObject({ confirmed: 1 })
+    expect((await store.get(job.id))?.resultId).not.toBeNull()
+    expect(await details.get((await store.get(job.id))!.resultId!)).not.toBeNull()
+  })
+})
+
+describe('Relay mixing', () => {
+  const mix: RelayMixConfig = { enabled: true, windowMs: 60_000, jitterMs: 30_000, workerIntervalMs: 60_000 }
+
+  it('should hold jobs until the end of their window plus jitter', () => {
+    const now = new Date('2025-01-01T12:00:10Z')
+
+    expect(scheduleRelayJob(mix, now, () => 0).toISOString()).toBe('2025-01-01T12:01:00.000Z')
+    expect(scheduleRelayJob(mix, now, (max) => max - 1).toISOString()).toBe('2025-01-01T12:01:30.000Z')
+    expect(scheduleRelayJob({ ...mix, enabled: false }, now)).toBe(now)
+  })
+
+  it('should put reports from the same window in the same release', () => {
+    const a = scheduleRelayJob({ ...mix, jitterMs: 0 }, new Date('2025-01-01T12:00:01Z'))
+    const b = scheduleRelayJob({ ...mix, jitterMs: 0 }, new Date('2025-01-01T12:00:59Z'))
+
+    expect(a).toEqual(b)
+  })
+
+  it('should estimate inclusion one worker interval after release', () => {
+    const runAt = new Date('2025-01-01T12:01:00Z')
+
+    expect(estimateInclusion(mix, runAt).toISOString()).toBe('2025-01-01T12:02:00.000Z')
+  })
+
+  it('should shuffle without losing items', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i)
+    const shuffled = shuffle(items)
+
+    expect([...shuffled].sort((x, y) => x - y)).toEqual(items)
+    expect(shuffle([1, 2, 3], () => 0)).toEqual([2, 3, 1])
+  })
+
+  it('should broadcast a batch in shuffled order when mixing', async () => {
+    const store = createMemoryRelayJobStore()
+    const fake = createFakeChain()
+    const clock = new Date()
+    const ids: string[] = []
+    for (let i = 0; i < 10; i++) ids.push((await store.enqueue(payload, clock)).id)
+
+    await processRelayQueue({ store, chain: fake.chain, config: { ...config, shuffle: true }, now: () => clock })
+
+    // Nonces are handed out in broadcast order
+    const jobs = await Promise.all(ids.map((id) => store.get(id)))
+    const broadcastOrder = [...jobs].sort((a, b) => a!.nonce! - b!.nonce!).map((job) => job!.id)
+    expect(fake.sent).toHaveLength(10)
+    expect(broadcastOrder).not.toEqual(ids)
+  })
+
+  it('should pick the batch from every due job, not just the oldest', async () => {
+    const store = createMemoryRelayJobStore()
+    const clock = new Date()
+    const ids: string[] = []
+    for (let i = 0; i < 20; i++) ids.push((await store.enqueue(payload, clock)).id)
+
+    const oldest = await store.claimDue(5, 1000, clock)
+    expect(oldest.map((job) => job.id)).toEqual(ids.slice(0, 5))
+
+    const picks = new Set<string>()
+    for (let i = 0; i < 10; i++) {
+      const batch = await store.claimDue(5, 0, clock, { random: true })
+      expect(batch).toHaveLength(5)
+      for (const job of batch) picks.add(job.id)
+    }
+    expect(ids.slice(5).some((id) => picks.has(id))).toBe(true)
+  })
+})
+
+describe('Private claims', () => {
+  const SECRET = `0x${'11'.repeat(32)}` as Hex
+  const OTHER_SECRET = `0x${'22'.repeat(32)}` as Hex
+  const RECIPIENT = '0x00000000000000000000000000000000000000bb' as Hex
+
+  let store: RelayJobStore
+  let fake: ReturnType<typeof createFakeChain>
+  let clock: number
+
+  const run = () => processRelayQueue({ store, chain: fake.chain, config, now: () => new Date(clock) })
+
+  const enqueueClaims = (fee: bigint, secrets: Hex[] = [SECRET], batchId = 'batch') =>
+    Promise.all(
+      secrets.map((secret, i) =>
+        store.enqueue(
+          {
+            kind: 'claim_rewards',
+            commitment: commitmentForSecret(secret),
+            secret,
+            recipient: RECIPIENT,
+            fee: fee.toString(),
+            batchId,
+            batchSize: secrets.length,
+          },
+          new Date(clock),
+          claimJobId(batchId, i)
+        )
+      )
+    )
+
+  beforeEach(() => {
+    store = createMemoryRelayJobStore()
+    fake = createFakeChain()
+    clock = Date.now()
+  })
+
+  it('should quote gas for the claim and the payout plus margin', async () => {
+    fake.setPendingRewards(parseEther('0.01'))
+
+    const quote = await quoteClaim(fake.chain, { secrets: [SECRET], recipient: RECIPIENT }, { marginPercent: 50, minFee: BigInt(0) })
+
+    const fee = (BigInt(121_000) * GWEI * BigInt(150)) / BigInt(100)
+    expect(quote).toEqual({
+      claims: [{ secret: SECRET, commitment: commitmentForSecret(SECRET), pending: parseEther('0.01') }],
+      pending: parseEther('0.01'),
+      fee,
+      net: parseEther('0.01') - fee,
+    })
+  })
+
+  it('should quote one payout for several commitments and skip those without rewards', async () => {
+    const EMPTY_SECRET = `0x${'33'.repeat(32)}` as Hex
+    fake.setPendingRewards(parseEther('0.01'), commitmentForSecret(SECRET))
+    fake.setPendingRewards(parseEther('0.02'), commitmentForSecret(OTHER_SECRET))
+
+    const quote = await quoteClaim(
+      fake.chain,
+      { secrets: [SECRET, EMPTY_SECRET, OTHER_SECRET], recipient: RECIPIENT },
+      { marginPercent: 0, minFee: BigInt(0) }
+    )
+
+    expect(quote.claims.map((claim) => claim.secret)).toEqual([SECRET, OTHER_SECRET])
+    expect(quote.pending).toBe(parseEther('0.03'))
+    expect(quote.fee).toBe(BigInt(221_000) * GWEI)
+  })
+
+  it('should not charge a fee when there is nothing to claim', async () => {
+    const quote = await quoteClaim(fake.chain, { secrets: [SECRET], recipient: RECIPIENT }, { marginPercent: 50, minFee: parseEther('0.001') })
+
+    expect(quote).toMatchObject({ claims: [], pending: BigInt(0), fee: BigInt(0), net: BigInt(0) })
+  })
+
+  it('should forward the claimed amount minus the fee to the recipient', async () => {
+    const fee = parseEther('0.001')
+    const [job] = await enqueueClaims(fee)
+    await run()
+
+    fake.mineClaim(fake.sent[0].hash, parseEther('0.01'))
+    clock += 200
+    await run()
+
+    const claim = (await store.get(job.id))!
+    expect(serializeRelayJob(claim)).toMatchObject({ kind: 'claim_rewards', status: 'confirmed', payoutJobId: payoutJobId('batch') })
+    // The secret is not kept once the claim settled
+    expect(claim.payload).not.toHaveProperty('secret')
+
+    const payout = (await store.get(payoutJobId('batch')))!
+    expect(payout.payload).toEqual({
+      kind: 'payout',
+      batchId: 'batch',
+      recipient: RECIPIENT,
+      amount: (parseEther('0.01') - fee).toString(),
+    })
+
+    await run()
+    expect(fake.sent[1]).toMatchObject({ nonce: 1, cancel: false })
+  })
+
+  it('should pay out a batch once, after every claim settled', async () => {
+    const fee = parseEther('0.001')
+    const [first, second] = await enqueueClaims(fee, [SECRET, OTHER_SECRET])
+    await run()
+    expect(fake.sent).toHaveLength(2)
+
+    fake.mineClaim(fake.sent[0].hash, parseEther('0.01'))
+    clock += 200
+    await run()
+    expect((await store.get(first.id))?.status).toBe('confirmed')
+    expect(await store.get(payoutJobId('batch'))).toBeNull()
+
+    fake.mineClaim(fake.sent[1].hash, parseEther('0.02'))
+    clock += 200
+    await run()
+    expect((await store.get(second.id))?.status).toBe('confirmed')
+
+    const payout = (await store.get(payoutJobId('batch')))!
+    expect(payout.payload).toMatchObject({ amount: (parseEther('0.03') - fee).toString() })
+  })
+
+  it('should pay out what was claimed when part of a batch fails', async () => {
+    const fee = parseEther('0.001')
+    await enqueueClaims(fee, [SECRET, OTHER_SECRET])
+    await run()
+
+    fake.mineClaim(fake.sent[0].hash, parseEther('0.01'))
+    fake.mine(fake.sent[1].hash, 'reverted')
+    clock += 200
+    await run()
+
+    const payout = (await store.get(payoutJobId('batch')))!
+    expect(payout.payload).toMatchObject({ amount: (parseEther('0.01') - fee).toString() })
+  })
+
+  it('should only queue one payout per batch', async () => {
+    await enqueueClaims(BigInt(1))
+
+    await store.enqueue({ kind: 'payout', batchId: 'batch', recipient: RECIPIENT, amount: '5' }, undefined, payoutJobId('batch'))
+    const again = await store.enqueue({ kind: 'payout', batchId: 'batch', recipient: RECIPIENT, amount: '9' }, undefined, payoutJobId('batch'))
+
+    expect(again.payload).toMatchObject({ amount: '5' })
+  })
+
+  it('should fail the claim when the claimed amount does not cover the fee', async () => {
+    const [job] = await enqueueClaims(parseEther('0.01'))
+    await run()
+
+    fake.mineClaim(fake.sent[0].hash, parseEther('0.001'))
+    clock += 200
+    await run()
+
+    expect((await store.get(job.id))?.status).toBe('failed')
+    expect(await store.get(payoutJobId('batch'))).toBeNull()
+  })
+
+  it('should not count claims against the spend cap', async () => {
+    await enqueueClaims(BigInt(1))
+
+    expect(await store.listSpendSince(new Date(0))).toEqual([])
+  })
+
+  it('should refuse the relayer, the contract and the zero address as recipients', () => {
+    const forbidden = [RELAYER, '0x23a95d01af99F06c446522765E6F3E604865D58a']
+
+    expect(checkClaimRecipient(RECIPIENT, forbidden)).toBeNull()
+    expect(checkClaimRecipient(RELAYER, forbidden)).toBe('Recipient must be a fresh address')
+    expect(checkClaimRecipient('0x0000000000000000000000000000000000000000', forbidden)).not.toBeNull()
+    expect(checkClaimRecipient('not-an-address', forbidden)).not.toBeNull()
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest'
+import {
+  recommendRoute,
+  riskLevel,
+  scoreHazard,
+  scoreRoute,
+  type ScorableHazard,
+  type ScorableRoute,
+} from '@/lib/risk'
+
+const NOW = Date.parse('2025-01-01T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+// A confirmed accident on the route, reported just now, good for a day
+const hazard = (overrides: Partial<ScorableHazard> = {}): ScorableHazard => ({
+  eventType: 'ACCIDENT',
+  confirmationCount: 3,
+  reportedAt: NOW,
+  expiresAt: NOW + 24 * HOUR,
+  distanceFromStart: 1200,
+  distanceFromRoute: 0,
+  ...overrides,
+})
+
+const route = (minutes: number, hazards: ScorableHazard[] = []): ScorableRoute => ({
+  durationValue: minutes * 60,
+  hazards,
+})
+
+describe('scoreHazard', () => {
+  const score = (overrides: Partial<ScorableHazard>) => scoreHazard(hazard(overrides), { now: NOW })
+
+  it('should weigh a fresh, confirmed accident on the route fully', () => {
+    expect(score({})).toBeCloseTo(1)
+  })
+
+  it('should weigh event types by severity', () => {
+    const weights = (['ACCIDENT', 'ROAD_CLOSURE', 'HAZARD', 'PROTEST', 'POLICE_ACTIVITY', 'TRAFFIC_JAM'] as const).map(
+      (eventType) => score({ eventType })
+    )
+    expect([...weights].sort((a, b) => b - a)).toEqual(weights)
+    expect(weights[5]).toBeCloseTo(0.3)
+  })
+
+  it('should weigh unconfirmed reports less, up to the confirmation threshold', () => {
+    expect(score({ confirmationCount: 0 })).toBeCloseTo(0.6)
+    expect(score({ confirmationCount: 1 })).toBeGreaterThan(score({ confirmationCount: 0 }))
+    expect(score({ confirmationCount: 10 })).toBeCloseTo(1)
+  })
+
+  it('should fade reports as they approach expiry', () => {
+    expect(score({ reportedAt: NOW - 12 * HOUR, expiresAt: NOW + 12 * HOUR })).toBeCloseTo(0.65)
+    expect(score({ reportedAt: NOW - 24 * HOUR, expiresAt: NOW + 1 })).toBeCloseTo(0.3)
+    expect(score({ reportedAt: NOW - 25 * HOUR, expiresAt: NOW - HOUR })).toBeCloseTo(0.1)
+  })
+
+  it('should weigh reports further off the route less', () => {
+    expect(score({ distanceFromRoute: 250 })).toBeCloseTo(0.65)
+    expect(score({ distanceFromRoute: 500 })).toBeCloseTo(0.3)
+    expect(scoreHazard(hazard({ distanceFromRoute: 250 }), { now: NOW, buffer: 1000 })).toBeCloseTo(0.825)
+    expect(score({ distanceFromRoute: undefined })).toBeCloseTo(1)
+  })
+})
+
+describe('scoreRoute', () => {
+  it('should add up hazards and explain the heaviest kind', () => {
+    const risk = scoreRoute(
+      route(20, [
+        hazard({ distanceFromStart: 800 }),
+        hazard({ distanceFromStart: 2600 }),
+        hazard({ eventType: 'TRAFFIC_JAM', confirmationCount: 0, distanceFromStart: 5000 }),
+      ]),
+      0,
+      { now: NOW }
+    )
+
+    expect(risk.score).toBeCloseTo(2.18)
+    expect(risk.level).toBe('medium')
+    expect(risk.explanation).toBe('2 confirmed accidents in the first 3 km, plus 1 other hazard')
+  })
+
+  it('should only call reports confirmed once they are', () => {
+    const risk = scoreRoute(route(20, [hazard({ eventType: 'ROAD_CLOSURE', confirmationCount: 1, distanceFromStart: 300 })]), 0, { now: NOW })
+    expect(risk.explanation).toBe('1 road closure in the first 1 km')
+  })
+
+  it('should explain a clear route', () => {
+    expect(scoreRoute(route(20), 0, { now: NOW })).toEqual({
+      index: 0,
+      score: 0,
+      level: 'none',
+      explanation: 'no reported hazards',
+    })
+  })
+
+  it('should grade scores', () => {
+    expect([0, 0.4, 1, 2.9, 3].map(riskLevel)).toEqual(['none', 'low', 'medium', 'medium', 'high'])
+  })
+})
+
+describe('recommendRoute', () => {
+  it('should return null without routes', () => {
+    expect(recommendRoute([], { now: NOW })).toBeNull()
+  })
+
+  it('should take a slower route to avoid enough risk', () => {
+    const recommendation = recommendRoute(
+      [route(20, [hazard({ distanceFromStart: 800 }), hazard({ distanceFromStart: 2600 })]), route(24)],
+      { now: NOW }
+    )!
+
+    expect(recommendation.index).toBe(1)
+    expect(recommendation.risks.map((risk) => risk.score)).toEqual([2, 0])
+    expect(recommendation.explanation).toBe(
+      'Route 1 is faster but has 2 more risk points. This one takes 4 more minutes.'
+    )
+  })
+
+  it('should not take a much slower route to avoid a little risk', () => {
+    const recommendation = recommendRoute(
+      [route(20, [hazard({ eventType: 'TRAFFIC_JAM', confirmationCount: 0, distanceFromStart: 1500 })]), route(45)],
+      { now: NOW }
+    )!
+
+    expect(recommendation.index).toBe(0)
+    expect(recommendation.explanation).toBe(
+      'Route 2 has 0.18 fewer risk points but takes 25 more minutes. This one has 1 traffic jam in the first 2 km.'
+    )
+  })
+
+  it('should let secondsPerRisk move the trade-off', () => {
+    const routes = [route(20, [hazard({ eventType: 'TRAFFIC_JAM', confirmationCount: 0 })]), route(45)]
+    expect(recommendRoute(routes, { now: NOW, secondsPerRisk: 10_000 })!.index).toBe(1)
+  })
+
+  it('should prefer the faster of equally risky routes', () => {
+    const recommendation = recommendRoute([route(30), route(25), route(40)], { now: NOW })!
+    expect(recommendation.index).toBe(1)
+    expect(recommendation.explanation).toBe('No reported hazards, and the fastest route.')
+  })
+
+  it('should state how much more risk a faster route has', () => {
+    const recommendation = recommendRoute(
+      [route(20, [hazard(), hazard({ eventType: 'PROTEST' })]), route(24, [hazard({ eventType: 'PROTEST', confirmationCount: 0 })])],
+      { now: NOW }
+    )!
+
+    expect(recommendation.index).toBe(1)
+    expect(recommendation.explanation).toBe('Route 1 is faster but has 1.24 more risk points. This one takes 4 more minutes.')
+  })
+
+  it('should take the first of routes with the same risk and duration', () => {
+    const recommendation = recommendRoute([route(30, [hazard()]), route(30, [hazard()])], { now: NOW })!
+    expect(recommendation.index).toBe(0)
+    expect(recommendation.explanation).toBe('Lowest risk and fastest: 1 confirmed accident in the first 2 km.')
+  })
+
+  it('should not call a route faster when it only ties on duration', () => {
+    const recommendation = recommendRoute([route(30, [hazard()]), route(30)], { now: NOW })!
+    expect(recommendation.index).toBe(1)
+    expect(recommendation.explanation).toBe('No reported hazards, and the fastest route.')
+  })
+
+  it('should explain a route that is both safest and fastest', () => {
+    const recommendation = recommendRoute([route(30, [hazard({ eventType: 'PROTEST' })]), route(35, [hazard()])], {
+      now: NOW,
+    })!
+    expect(recommendation.index).toBe(0)
+    expect(recommendation.explanation).toBe('Lowest risk and fastest: 1 confirmed protest in the first 2 km.')
+  })
+
+  it('should describe a single route', () => {
+    expect(recommendRoute([route(30, [hazard()])], { now: NOW })!.explanation).toBe(
+      '1 confirmed accident in the first 2 km.'
+    )
+    expect(recommendRoute([route(30)], { now: NOW })!.explanation).toBe('No reported hazards.')
+  })
+})
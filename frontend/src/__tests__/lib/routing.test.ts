@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { encodePolyline } from '@/lib/corridor'
+import { formatDistance, formatDuration, parseLatLng, routeWaypoints } from '@/lib/routing'
+import { createOsrmRouting } from '@/lib/routing/osrm'
+
+// Along Paseo de la Reforma, Mexico City, and a longer way round
+const REFORMA = [
+  { lat: 19.4204, lng: -99.1819 },
+  { lat: 19.4260, lng: -99.1680 },
+  { lat: 19.4320, lng: -99.1560 },
+]
+const DETOUR = [REFORMA[0], { lat: 19.4150, lng: -99.1650 }, REFORMA[2]]
+
+describe('Route formatting', () => {
+  it('should parse coordinate pairs and nothing else', () => {
+    expect(parseLatLng('19.4326, -99.1332')).toEqual({ lat: 19.4326, lng: -99.1332 })
+    expect(parseLatLng('-33,151')).toEqual({ lat: -33, lng: 151 })
+    expect(parseLatLng('Paseo de la Reforma 222')).toBeNull()
+    expect(parseLatLng('95, 10')).toBeNull()
+  })
+
+  it('should format distances and durations', () => {
+    expect([850, 12_345, 148_200].map(formatDistance)).toEqual(['850 m', '12.3 km', '148 km'])
+    expect([20, 1500, 3900, 7200].map(formatDuration)).toEqual(['1 min', '25 mins', '1 hour 5 mins', '2 hours'])
+  })
+
+  it('should pick up to three waypoints along the path', () => {
+    const path = Array.from({ length: 9 }, (_, i) => ({ lat: 0, lng: i }))
+    expect(routeWaypoints(path).map((p) => p.lng)).toEqual([2, 4, 6])
+    expect(routeWaypoints(path.slice(0, 3))).toEqual([])
+  })
+})
+
+describe('OSRM routing', () => {
+  const requests: URL[] = []
+
+  // A stand-in for osrm-backend's route service
+  const standIn: typeof fetch = async (input) => {
+    const request = new URL(String(input))
+    requests.push(request)
+    const json = (body: unknown, status = 200) => Response.json(body, { status })
+
+    const [from, to] = request.pathname.replace('/route/v1/driving/', '').split(';')
+    if (from === to) return json({ code: 'NoRoute', message: 'Impossible route between points' }, 400)
+
+    const routes = [
+      { geometry: encodePolyline(REFORMA, 6), distance: 2890.4, duration: 412.7, legs: [{ summary: 'Paseo de la Reforma' }] },
+      { geometry: encodePolyline(DETOUR, 6), distance: 4120, duration: 655, legs: [{ summary: '' }] },
+    ]
+    return json({
+      code: 'Ok',
+      routes: request.searchParams.get('alternatives') === 'true' ? routes : routes.slice(0, 1),
+      waypoints: [
+        { name: 'Paseo de la Reforma', location: [-99.18185, 19.42045] },
+        { name: 'Paseo de la Reforma', location: [-99.15605, 19.43195] },
+      ],
+    })
+  }
+
+  const url = 'http://osrm.test'
+  const osrm = (options: Parameters<typeof createOsrmRouting>[0] = {}) =>
+    createOsrmRouting({ url, fetch: standIn, ...options })
+
+  it('should plan routes between coordinates, with alternatives', async () => {
+    const plan = await osrm().route('19.4204,-99.1819', '19.4320,-99.1560')
+
+    const request = requests.at(-1)!
+    expect(request.pathname).toBe('/route/v1/driving/-99.1819,19.4204;-99.156,19.432')
+    expect(request.searchParams.get('geometries')).toBe('polyline6')
+    expect(request.searchParams.get('overview')).toBe('full')
+
+    expect(plan.startAddress).toBe('19.4204,-99.1819')
+    expect(plan.start).toEqual({ lat: 19.42045, lng: -99.18185 })
+    expect(plan.routes).toHaveLength(2)
+    expect(plan.routes[0]).toMatchObject({
+      summary: 'Paseo de la Reforma',
+      distance: 2890.4,
+      duration: 412.7,
+      path: REFORMA,
+      polylinePrecision: 6,
+      warnings: [],
+    })
+    expect(plan.routes[1].summary).toBe('')
+  })
+
+  it('should only ask for alternatives when wanted', async () => {
+    const plan = await osrm().route('19.4204,-99.1819', '19.4320,-99.1560', {
+      alternatives: false,
+    })
+    expect(requests.at(-1)!.searchParams.get('alternatives')).toBe('false')
+    expect(plan.routes).toHaveLength(1)
+  })
+
+  it('should geocode addresses first', async () => {
+    const routing = osrm({
+      geocode: async (query) =>
+        query === 'Angel de la Independencia'
+          ? { lat: 19.427, lng: -99.1677, address: 'Ángel de la Independencia, CDMX' }
+          : null,
+    })
+    const plan = await routing.route('Angel de la Independencia', '19.4320,-99.1560')
+
+    expect(plan.startAddress).toBe('Ángel de la Independencia, CDMX')
+    expect(requests.at(-1)!.pathname).toBe('/route/v1/driving/-99.1677,19.427;-99.156,19.432')
+
+    await expect(routing.route('Nowhere in particular', '19.4320,-99.1560')).rejects.toThrow(
+      'Directions request failed: couldn\'t find "Nowhere in particular"'
+    )
+    await expect(osrm().route('Angel de la Independencia', '19.4320,-99.1560')).rejects.toThrow(
+      "couldn't find"
+    )
+  })
+
+  it('should surface the router\'s error', async () => {
+    await expect(osrm().route('19.4320,-99.1560', '19.4320,-99.1560')).rejects.toThrow(
+      'Directions request failed: Impossible route between points'
+    )
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  computeCid,
+  createCidStorageDriver,
+  createKeyedStorageDriver,
+  createLocalBlobStore,
+  createMemoryBlobStore,
+  getStorageConfig,
+  isCid,
+  isValidObjectKey,
+} from '@/lib/storage'
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==',
+  'base64'
+)
+
+describe('computeCid', () => {
+  it('should match the CIDs IPFS gives raw blocks', () => {
+    expect(computeCid(new Uint8Array(0))).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku')
+    expect(computeCid(Buffer.from('hello world'))).toBe('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e')
+  })
+
+  it('should recognise its own output only', () => {
+    expect(isCid(computeCid(PNG))).toBe(true)
+    expect(isCid('QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG')).toBe(false)
+    expect(isCid('bafkrei../../etc/passwd')).toBe(false)
+  })
+})
+
+describe('isValidObjectKey', () => {
+  it('should refuse keys that could leave the storage directory', () => {
+    expect(isValidObjectKey('roadguard/1735689600000-1a2b3c4d.jpg')).toBe(true)
+    for (const key of ['../secret', 'roadguard/../../x', '/etc/passwd', 'roadguard//x', '.env', 'a\\b', '']) {
+      expect(isValidObjectKey(key)).toBe(false)
+    }
+  })
+})
+
+describe('Local blob store', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'roadguard-storage-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should write under the directory and read back with the sniffed type', async () => {
+    const driver = createKeyedStorageDriver('local', createLocalBlobStore(dir, '/api/media/'))
+
+    const saved = await driver.save({ body: PNG, contentType: 'image/png', extension: 'png' })
+
+    expect(saved.key).toMatch(/^roadguard\/\d+-[a-z0-9]+\.png$/)
+    expect(saved.url).toBe(`/api/media/${saved.key}`)
+    expect(await readdir(join(dir, 'roadguard'))).toEqual([saved.key.slice('roadguard/'.length)])
+    expect(await driver.read(saved.key)).toEqual({ body: PNG, contentType: 'image/png' })
+  })
+
+  it('should return null for missing or invalid keys', async () => {
+    await writeFile(join(dir, 'outside.png'), PNG)
+    const driver = createKeyedStorageDriver('local', createLocalBlobStore(join(dir, 'uploads'), '/api/media/'))
+
+    expect(await driver.read('roadguard/missing.png')).toBeNull()
+    expect(await driver.read('roadguard/../../outside.png')).toBeNull()
+    expect(await driver.read('outside.png')).toBeNull()
+  })
+
+  it('should refuse to write outside the directory', async () => {
+    const blobs = createLocalBlobStore(dir, '/api/media/')
+
+    await expect(blobs.put('../escape.png', { body: PNG, contentType: 'image/png' })).rejects.toThrow('Invalid storage key')
+  })
+  it('should not load sharp', async () => {
+    vi.resetModules()
+    vi.doMock('sharp', () => {
+      throw new Error('sharp loaded')
+    })
+
+    try {
+      const { createLocalBlobStore } = await import('@/lib/storage')
+      const blobs = createLocalBlobStore(dir, '/api/media/')
+      await blobs.put('roadguard/a.png', { body: PNG, contentType: 'image/png' })
+
+      expect(await blobs.get('roadguard/a.png')).toMatchObject({ contentType: 'image/png' })
+    } finally {
+      vi.doUnmock('sharp')
+    }
+  })
+})
+
+describe('Content-addressed driver', () => {
+  it('should name objects by CID and store identical uploads once', async () => {
+    const blobs = createMemoryBlobStore()
+    const driver = createCidStorageDriver(blobs)
+
+    const first = await driver.save({ body: PNG, contentType: 'image/png', extension: 'png' })
+    const second = await driver.save({ body: Buffer.from(PNG), contentType: 'image/png', extension: 'png' })
+
+    expect(first.key).toBe(`ipfs/${computeCid(PNG)}`)
+    expect(second).toEqual(first)
+    expect(first.url).toBe(`/api/media/${first.key}`)
+    expect(driver.urlPrefix).toBe('/api/media/ipfs/')
+  })
+
+  it('should link to a gateway when one is set', async () => {
+    const driver = createCidStorageDriver(createMemoryBlobStore(), { gateway: 'https://ipfs.example.org/' })
+
+    const saved = await driver.save({ body: PNG, contentType: 'image/png', extension: 'png' })
+
+    expect(saved.url).toBe(`https://ipfs.example.org/ipfs/${computeCid(PNG)}`)
+    expect(driver.urlPrefix).toBe('https://ipfs.example.org/ipfs/')
+  })
+
+  it('should not serve bytes that no longer match their CID', async () => {
+    const blobs = createMemoryBlobStore()
+    const driver = createCidStorageDriver(blobs)
+    const { key } = await driver.save({ body: PNG, contentType: 'image/png', extension: 'png' })
+
+    expect(await driver.read(key)).toEqual({ body: PNG, contentType: 'image/png' })
+
+    await blobs.put(key, { body: Buffer.from('tampered'), contentType: 'image/png' })
+    expect(await driver.read(key)).toBeNull()
+  })
+})
+
+describe('getStorageConfig', () => {
+  const originalEnv = process.env
+  const spaces = {
+    DO_SPACES_KEY: 'key',
+    DO_SPACES_SECRET: 'secret',
+    DO_SPACES_BUCKET: 'bucket',
+    DO_SPACES_ENDPOINT: 'nyc3.digitaloceanspaces.com',
+  }
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('should default to Spaces when configured, else local disk outside production', () => {
+    process.env = { ...originalEnv, ...spaces, STORAGE_DRIVER: '' }
+    expect(getStorageConfig().driver).toBe('s3')
+
+    process.env = { ...originalEnv, STORAGE_DRIVER: '', DO_SPACES_KEY: '', NODE_ENV: 'development' }
+    expect(getStorageConfig().driver).toBe('local')
+
+    process.env = { ...originalEnv, STORAGE_DRIVER: '', DO_SPACES_KEY: '', NODE_ENV: 'production' }
+    expect(getStorageConfig().driver).toBeNull()
+  })
+
+  it('should honour STORAGE_DRIVER and refuse unknown drivers', () => {
+    process.env = { ...originalEnv, ...spaces, STORAGE_DRIVER: 'cid', STORAGE_CID_BACKEND: 's3' }
+    expect(getStorageConfig()).toMatchObject({ driver: 'cid', cidBackend: 's3' })
+
+    process.env = { ...originalEnv, STORAGE_DRIVER: 'ftp' }
+    expect(() => getStorageConfig()).toThrow('Unknown STORAGE_DRIVER: ftp')
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  createMemoryVaultStorage,
+  createVaultSession,
+  openIdentity,
+  sealIdentity,
+  LEGACY_IDENTITY_STORAGE_KEY,
+  LEGACY_REGISTRY_STORAGE_KEY,
+  type VaultStorage,
+} from '@/lib/vault'
+import { createIdentityRegistry, recordReportId, reserveIdentityIndex } from '@/lib/identity'
+import { generateCommitment } from '@/hooks/useRoadGuard'
+
+// Keep key derivation cheap in tests
+const ITERATIONS = 1000
+
+const identity = generateCommitment('correct horse battery staple')
+
+describe('Vault encryption', () => {
+  it('should round-trip an identity with the right PIN', async () => {
+    const record = await sealIdentity(identity, '123456', ITERATIONS)
+
+    expect(await openIdentity(record, '123456')).toEqual(identity)
+  })
+
+  it('should not store the secret in the clear', async () => {
+    const record = await sealIdentity(identity, '123456', ITERATIONS)
+
+    expect(JSON.stringify(record)).not.toContain(identity.secret.slice(2))
+    expect(record).toMatchObject({ version: 1, kdf: 'PBKDF2-SHA256', iterations: ITERATIONS })
+  })
+
+  it('should reject a wrong PIN', async () => {
+    const record = await sealIdentity(identity, '123456', ITERATIONS)
+
+    await expect(openIdentity(record, '000000')).rejects.toThrow('Incorrect PIN')
+  })
+
+  it('should use a fresh salt and IV on every seal', async () => {
+    const first = await sealIdentity(identity, '123456', ITERATIONS)
+    const second = await sealIdentity(identity, '123456', ITERATIONS)
+
+    expect(first.salt).not.toBe(second.salt)
+    expect(first.iv).not.toBe(second.iv)
+    expect(first.ciphertext).not.toBe(second.ciphertext)
+  })
+})
+
+describe('Vault session', () => {
+  let storage: VaultStorage
+  let legacy: Map<string, string>
+
+  const createSession = (autoLockMs = 60_000) =>
+    createVaultSession({
+      storage,
+      autoLockMs,
+      iterations: ITERATIONS,
+      legacy: {
+        getItem: (key) => legacy.get(key) ?? null,
+        removeItem: (key) => {
+          legacy.delete(key)
+        },
+      },
+    })
+
+  beforeEach(() => {
+    storage = createMemoryVaultStorage()
+    legacy = new Map()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should start empty, then unlocked after creating an identity', async () => {
+    const session = createSession()
+
+    expect(await session.load()).toEqual({ status: 'empty', identity: null, registry: null })
+
+    await session.create(identity, '123456')
+    expect(session.getState()).toEqual({ status: 'unlocked', identity, registry: createIdentityRegistry(identity.commitment) })
+    expect(await storage.read()).not.toBeNull()
+  })
+
+  it('should load a stored vault as locked', async () => {
+    await storage.write(await sealIdentity(identity, '123456', ITERATIONS))
+    const session = createSession()
+
+    expect(await session.load()).toEqual({ status: 'locked', identity: null, registry: null })
+    expect(await session.unlock('123456')).toEqual(identity)
+  })
+
+  it('should migrate a plaintext identity and remove it', async () => {
+    legacy.set(LEGACY_IDENTITY_STORAGE_KEY, JSON.stringify(identity))
+    const session = createSession()
+
+    expect((await session.load()).status).toBe('legacy')
+
+    await session.migrate('123456')
+    expect(legacy.has(LEGACY_IDENTITY_STORAGE_KEY)).toBe(false)
+
+    session.lock()
+    expect(session.getState()).toEqual({ status: 'locked', identity: null, registry: null })
+    expect(await session.unlock('123456')).toEqual(identity)
+  })
+
+  it('should seal the registry and keep it across unlocks', async () => {
+    const session = createSession()
+    await session.load()
+    await session.create(identity, '123456')
+
+    const registry = await session.updateRegistry((current) => reserveIdentityIndex(current, new Date(0)).registry)
+    expect(registry?.nextIndex).toBe(1)
+    expect(JSON.stringify(await storage.read('registry'))).not.toContain('usedAt')
+
+    session.lock()
+    await session.unlock('123456')
+    expect(session.getState().registry).toEqual(registry)
+  })
+
+  it('should migrate a plaintext registry on unlock and remove it', async () => {
+    await storage.write(await sealIdentity(identity, '123456', ITERATIONS))
+    const registry = reserveIdentityIndex(createIdentityRegistry(identity.commitment), new Date(0)).registry
+    legacy.set(LEGACY_REGISTRY_STORAGE_KEY, JSON.stringify(registry))
+    const session = createSession()
+    await session.load()
+
+    await session.unlock('123456')
+
+    expect(session.getState().registry).toEqual(registry)
+    expect(legacy.has(LEGACY_REGISTRY_STORAGE_KEY)).toBe(false)
+    expect(await storage.read('registry')).not.toBeNull()
+  })
+
+  it('should apply registry changes made while locked on the next unlock', async () => {
+    const session = createSession()
+    await session.load()
+    await session.create(identity, '123456')
+    await session.updateRegistry((current) => reserveIdentityIndex(current, new Date(0)).registry)
+    session.lock()
+
+    expect(await session.updateRegistry((current) => recordReportId(current, 0, 42))).toBeNull()
+    await session.unlock('123456')
+
+    expect(session.getState().registry?.used).toEqual([{ index: 0, usedAt: new Date(0).toISOString(), reportId: 42 }])
+  })
+
+  it('should ignore a malformed plaintext identity', async () => {
+    legacy.set(LEGACY_IDENTITY_STORAGE_KEY, '{"secret": 1}')
+
+    expect((await createSession().load()).status).toBe('empty')
+  })
+
+  it('should lock after inactivity, and activity should postpone it', async () => {
+    const session = createSession(1000)
+    await session.load()
+    await session.create(identity, '123456')
+
+    vi.useFakeTimers()
+    session.touch()
+    vi.advanceTimersByTime(800)
+    session.touch()
+    vi.advanceTimersByTime(800)
+    expect(session.getState().status).toBe('unlocked')
+
+    vi.advanceTimersByTime(300)
+    expect(session.getState()).toEqual({ status: 'locked', identity: null, registry: null })
+  })
+
+  it('should notify subscribers of changes', async () => {
+    const session = createSession()
+    const listener = vi.fn()
+    session.subscribe(listener)
+
+    await session.load()
+    await session.create(identity, '123456')
+    session.lock()
+
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+
+  it('should forget everything on clear', async () => {
+    legacy.set(LEGACY_IDENTITY_STORAGE_KEY, JSON.stringify(identity))
+    legacy.set(LEGACY_REGISTRY_STORAGE_KEY, JSON.stringify(createIdentityRegistry(identity.commitment)))
+    const session = createSession()
+    await session.load()
+
+    await session.clear()
+
+    expect(session.getState()).toEqual({ status: 'empty', identity: null, registry: null })
+    expect(legacy.size).toBe(0)
+    expect(await storage.read()).toBeNull()
+    expect(await storage.read('registry')).toBeNull()
+  })
+})
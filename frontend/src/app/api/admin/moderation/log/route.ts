@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  authenticateModerator,
+  getModerationConfig,
+  getModerationStore,
+  DEFAULT_MODERATION_PAGE_SIZE,
+  MAX_MODERATION_PAGE_SIZE,
+} from "@/lib/moderation";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("moderation");
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/moderation/log
+ * The moderation audit log, newest first. Pass `nextBefore` back as `before`
+ * for older entries.
+ */
+export async function GET(request: NextRequest) {
+  const config = getModerationConfig();
+  if (config.moderators.size === 0) {
+    return NextResponse.json({ error: "Moderation not configured" }, { status: 503 });
+  }
+  if (!authenticateModerator(request.headers, config)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_MODERATION_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MODERATION_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_MODERATION_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
+  const beforeParam = searchParams.get("before");
+  const before = beforeParam === null ? null : Number(beforeParam);
+  if (before !== null && !Number.isSafeInteger(before)) {
+    return NextResponse.json({ error: "before must be an entry id" }, { status: 400 });
+  }
+
+  try {
+    const entries = await getModerationStore().log({ limit, before });
+    return NextResponse.json({
+      entries,
+      nextBefore: entries.length === limit ? entries[entries.length - 1].id : null,
+    });
+  } catch (error) {
+    log.error("failed to fetch moderation log", { error });
+    return NextResponse.json({ error: "Failed to fetch moderation log" }, { status: 500 });
+  }
+}
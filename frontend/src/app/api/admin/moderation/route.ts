@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCommentEvents, getCommentStore, toPublicComment } from "@/lib/comments";
+import {
+  authenticateModerator,
+  getModerationConfig,
+  getModerationStore,
+  DEFAULT_MODERATION_PAGE_SIZE,
+  MAX_MODERATION_PAGE_SIZE,
+} from "@/lib/moderation";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("moderation");
+
+export const dynamic = "force-dynamic";
+
+const ACTIONS = ["approve", "delete", "ban"] as const;
+type Action = (typeof ACTIONS)[number];
+
+/**
+ * The moderator making the request, or the response refusing it. Moderators
+ * send `Authorization: Bearer <token>` with a token from MODERATOR_TOKENS.
+ */
+function authorize(request: NextRequest): string | NextResponse {
+  const config = getModerationConfig();
+  if (config.moderators.size === 0) {
+    return NextResponse.json({ error: "Moderation not configured" }, { status: 503 });
+  }
+  return authenticateModerator(request.headers, config) ?? NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+/**
+ * GET /api/admin/moderation
+ * The moderation queue: hidden comments and flagged ones, most recently
+ * flagged first, with their flags and author's reactor key.
+ */
+export async function GET(request: NextRequest) {
+  const moderator = authorize(request);
+  if (typeof moderator !== "string") return moderator;
+
+  const limitParam = new URL(request.url).searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_MODERATION_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MODERATION_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_MODERATION_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ comments: await getCommentStore().queue({ limit }) });
+  } catch (error) {
+    log.error("failed to fetch moderation queue", { error });
+    return NextResponse.json({ error: "Failed to fetch moderation queue" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/moderation
+ * `{ action: "approve" | "delete", commentId, reason? }` approves (keeps
+ * visible for good) or deletes a comment. `{ action: "ban", commentId |
+ * reactor, reason? }` bans a reactor key, given directly or as a comment's
+ * author, from commenting, reacting and flagging. Every action is logged.
+ */
+export async function POST(request: NextRequest) {
+  const moderator = authorize(request);
+  if (typeof moderator !== "string") return moderator;
+
+  try {
+    const body = await request.json();
+    const action = body.action as Action;
+    const commentId = typeof body.commentId === "string" ? body.commentId : null;
+    const reason = typeof body.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "action must be approve, delete or ban" }, { status: 400 });
+    }
+
+    const comments = getCommentStore();
+    const moderation = getModerationStore();
+
+    if (action === "ban") {
+      let reactor = typeof body.reactor === "string" ? body.reactor : null;
+      let reportId: string | null = null;
+      if (!reactor && commentId) {
+        const comment = await comments.get(commentId);
+        if (!comment) return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+        if (!comment.reactor) {
+          return NextResponse.json({ error: "This comment has no reactor to ban" }, { status: 400 });
+        }
+        reactor = comment.reactor;
+        reportId = comment.reportKey;
+      }
+      if (!reactor) {
+        return NextResponse.json({ error: "commentId or reactor is required" }, { status: 400 });
+      }
+
+      const banned = await moderation.ban({ reactor, reason, moderator });
+      if (banned) {
+        await moderation.record({ action, moderator, commentId, reportId, reactor, reason });
+        log.info("reactor banned", { moderator, commentId });
+      }
+      return NextResponse.json({ success: true, reactor, alreadyBanned: !banned });
+    }
+
+    if (!commentId) {
+      return NextResponse.json({ error: "commentId is required" }, { status: 400 });
+    }
+
+    const previous = await comments.get(commentId);
+    const comment = action === "approve" ? await comments.setStatus(commentId, "approved") : await comments.remove(commentId);
+    if (!previous || !comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    // Tell live viewers: approved comments that were hidden come back
+    if (action === "delete") {
+      await getCommentEvents().publish(comment.reportKey, { type: "removed", commentId });
+    } else if (previous.status === "hidden") {
+      await getCommentEvents().publish(comment.reportKey, { type: "comment", comment: toPublicComment(comment) });
+    }
+
+    await moderation.record({
+      action,
+      moderator,
+      commentId,
+      reportId: comment.reportKey,
+      reactor: comment.reactor,
+      reason,
+    });
+    log.info(`comment ${action === "approve" ? "approved" : "deleted"}`, { moderator, commentId });
+
+    return NextResponse.json({ success: true, ...(action === "approve" && { comment }) });
+  } catch (error) {
+    log.error("moderation action failed", { error });
+    return NextResponse.json({ error: "Moderation action failed" }, { status: 500 });
+  }
+}
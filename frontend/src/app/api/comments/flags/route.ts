@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  authorizeReactor,
+  getCommentEvents,
+  getCommentStore,
+  getFlagLimiter,
+  isCommentFlagReason,
+  MAX_FLAG_NOTE_LENGTH,
+} from "@/lib/comments";
+import { getModerationConfig, getModerationStore, SYSTEM_MODERATOR } from "@/lib/moderation";
+import { getClientIp } from "@/lib/relay/admission";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("moderation");
+
+// POST - Flag a comment for moderators, once per reactor. Enough flags from
+// wallet reactors hide the comment until a moderator reviews it (see
+// lib/moderation).
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { reportId, commentId, reason } = body;
+    const note = typeof body.note === "string" ? body.note.trim() : "";
+
+    if (!reportId || !commentId || !reason) {
+      return NextResponse.json({ error: "reportId, commentId, and reason are required" }, { status: 400 });
+    }
+
+    if (!isCommentFlagReason(reason)) {
+      return NextResponse.json({ error: "Invalid flag reason" }, { status: 400 });
+    }
+
+    if (note.length > MAX_FLAG_NOTE_LENGTH) {
+      return NextResponse.json({ error: `Note too long (max ${MAX_FLAG_NOTE_LENGTH} characters)` }, { status: 400 });
+    }
+
+    const reactor = await authorizeReactor(body.reactor);
+    if ("error" in reactor) {
+      if (reactor.status !== 400) log.warn("reactor refused", { action: "flag", reason: reactor.error });
+      return NextResponse.json({ error: reactor.error }, { status: reactor.status });
+    }
+
+    const limited = getFlagLimiter().take({
+      ip: getClientIp(request.headers),
+      reactor: reactor.key,
+      commentId: String(commentId),
+    });
+    if (limited) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please wait before flagging again.",
+          code: "RATE_LIMITED",
+          retryAfter: limited.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+      );
+    }
+
+    const result = await getCommentStore().flag(
+      String(reportId),
+      String(commentId),
+      { reactor: reactor.key, reason, note: note || null },
+      { hideThreshold: getModerationConfig().hideThreshold }
+    );
+
+    if (!result) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    if (result.autoHidden) {
+      log.info("comment hidden by flags", { commentId, flags: result.flags, walletFlags: result.walletFlags });
+      await getCommentEvents().publish(String(reportId), { type: "removed", commentId: String(commentId) });
+      await getModerationStore().record({
+        action: "auto_hide",
+        moderator: SYSTEM_MODERATOR,
+        commentId: String(commentId),
+        reportId: String(reportId),
+        reactor: null,
+        reason: `${result.walletFlags} wallet flags`,
+      });
+    }
+
+    return NextResponse.json({ success: true, hidden: result.hidden });
+  } catch (error) {
+    log.error("failed to flag comment", { error });
+    return NextResponse.json({ error: "Failed to flag comment" }, { status: 500 });
+  }
+}
@@ -1,22 +1,128 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  authorizeReactor,
+  decodeCommentCursor,
+  getCommentEvents,
+  getCommentStore,
+  getReactionLimiter,
+  isCommentReaction,
+  parseCommentProof,
+  parseReactorCredential,
+  resolveReactorKey,
+  verifyCommentProof,
+  isPublicStatus,
+  DEFAULT_COMMENT_PAGE_SIZE,
+  MAX_COMMENT_DEPTH,
+  MAX_COMMENT_LENGTH,
+  MAX_COMMENT_PAGE_SIZE,
+  REACTOR_HEADER,
+  type CommentAuthorship,
+} from "@/lib/comments";
+import { getReportDetailsStore } from "@/lib/details";
+import { getClientIp } from "@/lib/relay/admission";
+import { createLogger } from "@/lib/logger";
 
-// In-memory store for comments (use a real database in production)
-// This persists across requests but resets on server restart
-const commentsStore = new Map<string, Comment[]>();
-
-interface Comment {
-  id: string;
-  reportId: number;
-  author: string; // wallet address or anonymous
-  text: string;
-  timestamp: number;
-  reactions: {
-    helpful: number;
-    thankyou: number;
+const log = createLogger("comments");
+
+// Comments live in Postgres when DATABASE_URL is set, in memory otherwise
+// (see lib/comments)
+
+/**
+ * The reactor key of whoever is reading, from the reactor header. It only
+ * fills in `viewerReacted`, so a missing, malformed or expired credential
+ * just means no viewer.
+ */
+async function getViewer(request: NextRequest): Promise<string | null> {
+  const header = request.headers.get(REACTOR_HEADER);
+  if (!header) return null;
+  try {
+    const reactor = parseReactorCredential(JSON.parse(header));
+    if (typeof reactor === "string") return null;
+    const key = await resolveReactorKey(reactor);
+    return typeof key === "string" ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Comment lines sent on idle streams so proxies don't close them */
+const STREAM_HEARTBEAT_MS = 15_000;
+
+// Streams run inside a function invocation, so they end a little before the
+// platform would cut them off; EventSource reconnects on its own
+export const maxDuration = 60;
+const STREAM_MAX_DURATION_MS = parseInt(process.env.COMMENT_STREAM_MAX_DURATION_MS || "55000");
+
+/**
+ * Server-Sent Events for a report: `comment`, `reaction` and `removed`
+ * events (see lib/comments/events) from any instance, for up to
+ * STREAM_MAX_DURATION_MS.
+ */
+function streamComments(request: NextRequest, reportId: string) {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let close = () => {
+    closed = true;
   };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const end = () => {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener("abort", () => close());
+
+      let unsubscribe: () => void;
+      try {
+        unsubscribe = await getCommentEvents().subscribe(reportId, (event) => {
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+      } catch (error) {
+        log.error("failed to subscribe to comment events", { error });
+        end();
+        return;
+      }
+      if (closed) {
+        unsubscribe();
+        end();
+        return;
+      }
+      write("retry: 3000\n: connected\n\n");
+
+      const heartbeat = setInterval(() => write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+      const deadline = setTimeout(() => close(), STREAM_MAX_DURATION_MS);
+
+      close = () => {
+        clearInterval(heartbeat);
+        clearTimeout(deadline);
+        unsubscribe();
+        end();
+      };
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
 }
 
-// GET - Fetch comments for a report
+// GET - Fetch comments for a report: top-level comments newest first, a page
+// at a time, each with its replies. Send the reactor header to learn which
+// reactions you've made. With `Accept: text/event-stream` (as EventSource
+// sends), stream the report's new comments and reactions instead.
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const reportId = searchParams.get("reportId");
@@ -25,19 +131,52 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "reportId is required" }, { status: 400 });
   }
 
-  const comments = commentsStore.get(reportId) || [];
+  if (request.headers.get("accept")?.includes("text/event-stream")) {
+    return streamComments(request, reportId);
+  }
 
-  return NextResponse.json({
-    comments: comments.sort((a, b) => b.timestamp - a.timestamp),
-    total: comments.length,
-  });
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_COMMENT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_COMMENT_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_COMMENT_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
+  const cursorParam = searchParams.get("cursor");
+  const cursor = cursorParam ? decodeCommentCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  try {
+    const page = await getCommentStore().list(reportId, { limit, cursor, viewer: await getViewer(request) });
+    return NextResponse.json(page);
+  } catch (error) {
+    log.error("failed to fetch comments", { error });
+    return NextResponse.json({ error: "Failed to fetch comments" }, { status: 500 });
+  }
+}
+
+/**
+ * The comment key a report registered, if the report id is a chain report id
+ * with one
+ */
+async function getCommentKey(reportId: string) {
+  if (!/^\d+$/.test(reportId) || !Number.isSafeInteger(Number(reportId))) return null;
+  const details = await getReportDetailsStore().get(Number(reportId));
+  return details?.commentKey ?? null;
 }
 
-// POST - Add a new comment
+// POST - Add a new comment, or a reply with `parentId`. Anonymous unless it
+// carries a `proof`: a wallet signature, or the reporter's signature with the
+// report's comment key. The `reactor` it's posted with is what moderators ban.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { reportId, author, text } = body;
+    const { reportId, text } = body;
+    const parentId = body.parentId ?? null;
 
     if (!reportId || !text) {
       return NextResponse.json(
@@ -46,40 +185,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (text.length > 500) {
+    if (text.length > MAX_COMMENT_LENGTH) {
       return NextResponse.json(
-        { error: "Comment too long (max 500 characters)" },
+        { error: `Comment too long (max ${MAX_COMMENT_LENGTH} characters)` },
         { status: 400 }
       );
     }
 
-    const comment: Comment = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-      reportId: Number(reportId),
-      author: author || "Anonymous",
+    const store = getCommentStore();
+    if (parentId !== null) {
+      const parent = typeof parentId === "string" ? await store.get(parentId) : null;
+      if (!parent || parent.reportKey !== String(reportId) || !isPublicStatus(parent.status)) {
+        return NextResponse.json({ error: "Parent comment not found" }, { status: 404 });
+      }
+      if (parent.depth >= MAX_COMMENT_DEPTH) {
+        return NextResponse.json(
+          { error: `Replies can't nest more than ${MAX_COMMENT_DEPTH} levels deep` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const reactor = await authorizeReactor(body.reactor);
+    if ("error" in reactor) {
+      if (reactor.status !== 400) log.warn("reactor refused", { action: "comment", reason: reactor.error });
+      return NextResponse.json({ error: reactor.error }, { status: reactor.status });
+    }
+
+    // Signatures cover the text as posted, before trimming
+    let authorship: CommentAuthorship | null = null;
+    let signature: `0x${string}` | null = null;
+    if (body.proof !== undefined) {
+      const proof = parseCommentProof(body.proof);
+      if (typeof proof === "string") {
+        return NextResponse.json({ error: proof }, { status: 400 });
+      }
+      const verified = await verifyCommentProof(
+        proof,
+        { reportId: String(reportId), text },
+        { commentKey: proof.signer === "reporter" ? await getCommentKey(String(reportId)) : null }
+      );
+      if (typeof verified === "string") {
+        log.warn("comment signature refused", { signer: proof.signer, reason: verified });
+        return NextResponse.json({ error: verified }, { status: 401 });
+      }
+      authorship = verified;
+      signature = proof.signature;
+    }
+
+    const comment = await store.add({
+      reportId: String(reportId),
+      author: authorship?.author ?? "Anonymous",
       text: text.trim(),
-      timestamp: Date.now(),
-      reactions: {
-        helpful: 0,
-        thankyou: 0,
-      },
-    };
+      signedBy: authorship?.signedBy ?? null,
+      signature,
+      reactor: reactor.key,
+      parentId,
+    });
 
-    const reportKey = String(reportId);
-    const existing = commentsStore.get(reportKey) || [];
-    commentsStore.set(reportKey, [...existing, comment]);
+    if (!comment) {
+      return NextResponse.json({ error: "This signature was already used" }, { status: 409 });
+    }
+
+    await getCommentEvents().publish(String(reportId), { type: "comment", comment });
 
     return NextResponse.json({
       success: true,
       comment,
     });
   } catch (error) {
-    console.error("Comment error:", error);
+    log.error("failed to add comment", { error });
     return NextResponse.json({ error: "Failed to add comment" }, { status: 500 });
   }
 }
 
-// PATCH - Add reaction to a comment
+// PATCH - Toggle the reactor's reaction on a comment
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
@@ -92,30 +272,55 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    if (!["helpful", "thankyou"].includes(reaction)) {
+    if (!isCommentReaction(reaction)) {
       return NextResponse.json(
         { error: "Invalid reaction type" },
         { status: 400 }
       );
     }
 
-    const reportKey = String(reportId);
-    const comments = commentsStore.get(reportKey) || [];
-    const commentIndex = comments.findIndex((c) => c.id === commentId);
+    const reactor = await authorizeReactor(body.reactor);
+    if ("error" in reactor) {
+      if (reactor.status !== 400) log.warn("reactor refused", { action: "react", reason: reactor.error });
+      return NextResponse.json({ error: reactor.error }, { status: reactor.status });
+    }
 
-    if (commentIndex === -1) {
+    const limited = getReactionLimiter().take({
+      ip: getClientIp(request.headers),
+      reactor: reactor.key,
+      commentId: String(commentId),
+    });
+    if (limited) {
+      return NextResponse.json(
+        {
+          error: "Too many reactions. Please wait before reacting again.",
+          code: "RATE_LIMITED",
+          retryAfter: limited.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+      );
+    }
+
+    const comment = await getCommentStore().react(String(reportId), String(commentId), reaction, reactor.key);
+
+    if (!comment) {
       return NextResponse.json({ error: "Comment not found" }, { status: 404 });
     }
 
-    comments[commentIndex].reactions[reaction as "helpful" | "thankyou"]++;
-    commentsStore.set(reportKey, comments);
+    await getCommentEvents().publish(String(reportId), {
+      type: "reaction",
+      commentId: comment.id,
+      reactions: comment.reactions,
+      walletReactions: comment.walletReactions,
+    });
 
     return NextResponse.json({
       success: true,
-      comment: comments[commentIndex],
+      comment,
+      reacted: comment.viewerReacted[reaction],
     });
   } catch (error) {
-    console.error("Reaction error:", error);
+    log.error("failed to add reaction", { error });
     return NextResponse.json({ error: "Failed to add reaction" }, { status: 500 });
   }
 }
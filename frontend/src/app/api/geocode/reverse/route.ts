@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGeocodeLimiter, getGeocoder, parseLanguage, parsePoint, type Geocoder } from "@/lib/geocode";
+import { getClientIp } from "@/lib/relay/admission";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("geocode");
+
+/**
+ * GET /api/geocode/reverse
+ * The address at a point, or `place: null` where there's none. Shares the
+ * rate limits of GET /api/geocode.
+ *
+ * Query params:
+ * - lat, lng: the point
+ * - lang: preferred language for the address
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const point = parsePoint(`${searchParams.get("lat") ?? ""},${searchParams.get("lng") ?? ""}`);
+  if (!point) {
+    return NextResponse.json({ error: "lat and lng must be valid coordinates" }, { status: 400 });
+  }
+
+  const language = parseLanguage(searchParams.get("lang"));
+  if (language === null) {
+    return NextResponse.json({ error: "lang must be a language tag" }, { status: 400 });
+  }
+
+  const limited = getGeocodeLimiter().take(getClientIp(request.headers));
+  if (limited) {
+    return NextResponse.json(
+      {
+        error: "Too many searches. Please wait before searching again.",
+        code: "RATE_LIMITED",
+        retryAfter: limited.retryAfterSeconds,
+      },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  let geocoder: Geocoder | null = null;
+  try {
+    geocoder = getGeocoder();
+    if (!geocoder) {
+      return NextResponse.json({ error: "Geocoding not configured" }, { status: 503 });
+    }
+
+    const place = await geocoder.reverse(point, language);
+    return NextResponse.json({ place, provider: geocoder.name });
+  } catch (error) {
+    log.error("reverse geocoding failed", { error, provider: geocoder?.name });
+    return NextResponse.json({ error: "Failed to look up address" }, { status: 500 });
+  }
+}
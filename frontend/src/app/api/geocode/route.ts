@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGeocodeLimiter,
+  getGeocoder,
+  parseLanguage,
+  parseViewport,
+  DEFAULT_PLACE_LIMIT,
+  MAX_PLACE_LIMIT,
+  MAX_PLACE_QUERY_LENGTH,
+  type Geocoder,
+} from "@/lib/geocode";
+import { getClientIp } from "@/lib/relay/admission";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("geocode");
+
+/**
+ * GET /api/geocode
+ * Search places by name or address, for location inputs. Rate limited per
+ * client IP and across all clients (see lib/geocode/limits).
+ *
+ * Query params:
+ * - q: the text typed so far
+ * - bbox: minLng,minLat,maxLng,maxLat of the visible map; places there rank first
+ * - bounds: deprecated, the same box as minLat,minLng,maxLat,maxLng
+ * - near: lat,lng to bias to instead, when there's no map
+ * - limit: max results (default 5, max 10)
+ * - lang: preferred language for names and addresses
+ * - autocomplete: 1 when searching as the user types; providers that don't
+ *   allow that (the public Nominatim instance) answer with no places and
+ *   `autocomplete: false` without being asked
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const query = (searchParams.get("q") || "").trim();
+  if (!query) {
+    return NextResponse.json({ error: "q is required" }, { status: 400 });
+  }
+  if (query.length > MAX_PLACE_QUERY_LENGTH) {
+    return NextResponse.json({ error: `q must be at most ${MAX_PLACE_QUERY_LENGTH} characters` }, { status: 400 });
+  }
+
+  const viewport = parseViewport(searchParams);
+  if (viewport === null) {
+    return NextResponse.json(
+      { error: "bbox must be minLng,minLat,maxLng,maxLat and near must be lat,lng" },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(searchParams.get("limit") || DEFAULT_PLACE_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PLACE_LIMIT) {
+    return NextResponse.json({ error: `limit must be between 1 and ${MAX_PLACE_LIMIT}` }, { status: 400 });
+  }
+
+  const language = parseLanguage(searchParams.get("lang"));
+  if (language === null) {
+    return NextResponse.json({ error: "lang must be a language tag" }, { status: 400 });
+  }
+
+  const limited = getGeocodeLimiter().take(getClientIp(request.headers));
+  if (limited) {
+    return NextResponse.json(
+      {
+        error: "Too many searches. Please wait before searching again.",
+        code: "RATE_LIMITED",
+        retryAfter: limited.retryAfterSeconds,
+      },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  let geocoder: Geocoder | null = null;
+  try {
+    geocoder = getGeocoder();
+    if (!geocoder) {
+      return NextResponse.json({ error: "Geocoding not configured" }, { status: 503 });
+    }
+
+    if (searchParams.get("autocomplete") === "1" && !geocoder.autocomplete) {
+      return NextResponse.json({ places: [], provider: geocoder.name, autocomplete: false });
+    }
+
+    const places = await geocoder.search({ query, viewport, limit, language });
+    return NextResponse.json({ places, provider: geocoder.name, autocomplete: geocoder.autocomplete });
+  } catch (error) {
+    log.error("place search failed", { error, provider: geocoder?.name });
+    return NextResponse.json({ error: "Failed to search places" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { createMantlePublicClient, ROADGUARD_CONTRACT_ADDRESS } from "@/lib/chain";
+import { runIndexer } from "@/lib/indexer";
+import { createPostgresIndexerStore } from "@/lib/indexer/postgres";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("indexer");
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/indexer
+ * Advance the chain indexer by up to INDEXER_MAX_BATCHES log ranges.
+ * Triggered by the Vercel cron in vercel.json, which sends
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json({ error: "Indexer not configured" }, { status: 503 });
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!db) {
+    return NextResponse.json({ error: "Database not configured" }, { status: 503 });
+  }
+
+  try {
+    const result = await runIndexer({
+      client: createMantlePublicClient(),
+      store: createPostgresIndexerStore(db),
+      address: ROADGUARD_CONTRACT_ADDRESS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      fromBlock: result.fromBlock.toString(),
+      toBlock: result.toBlock.toString(),
+      headBlock: result.headBlock.toString(),
+      events: result.events,
+      reorged: result.reorged,
+      caughtUp: result.caughtUp,
+    });
+  } catch (error) {
+    log.error("indexer run failed", { error });
+    return NextResponse.json({ error: "Indexer run failed" }, { status: 500 });
+  }
+}
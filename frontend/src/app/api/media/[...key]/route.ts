@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createLogger } from "@/lib/logger";
+import { getStorageDriver } from "@/lib/storage";
+
+const log = createLogger("media");
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/media/:key
+ * Photos stored by the local and content-addressed drivers. Keys never
+ * change content, so responses are cached for good.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  const { key } = await params;
+
+  try {
+    const object = await getStorageDriver()?.read(key.join("/"));
+    if (!object) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(object.body), {
+      headers: {
+        "Content-Type": object.contentType,
+        "Content-Length": String(object.body.length),
+        "Cache-Control": "public, max-age=31536000, immutable",
+        // Uploads are user content: never run or sniff them as anything else
+        "Content-Security-Policy": "default-src 'none'; sandbox",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    log.error("media read failed", { error });
+    return NextResponse.json({ error: "Failed to read file" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getRelayAdmission } from "@/lib/relay";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/relay/challenge
+ * Issue a proof-of-work challenge for POST /api/relay/report. A difficulty of
+ * 0 means proof of work is disabled and `challenge` is null.
+ */
+export async function GET() {
+  const admission = getRelayAdmission();
+  if (admission.config.powDifficulty <= 0) {
+    return NextResponse.json({ challenge: null, difficulty: 0, expiresAt: null });
+  }
+
+  return NextResponse.json(admission.issueChallenge(), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
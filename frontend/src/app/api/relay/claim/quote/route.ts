@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  commitmentForSecret,
+  getClientIp,
+  getRelayAdmission,
+  getRelayChain,
+  parseClaimSecrets,
+  quoteClaim,
+  type Hex,
+} from "@/lib/relay";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("relay");
+
+/**
+ * POST /api/relay/claim/quote
+ * Pending rewards for one or more secrets and the fee the relayer charges to
+ * claim them privately. Secrets go in the body so they never show up in URLs.
+ * Rate limited per IP, as every secret costs chain reads.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { recipient } = body;
+
+    const secrets = parseClaimSecrets(body);
+    if (typeof secrets === "string") {
+      return NextResponse.json({ error: secrets }, { status: 400 });
+    }
+
+    const rejection = await getRelayAdmission().quote.admit({
+      ip: getClientIp(request.headers),
+      commitment: commitmentForSecret(secrets[0]),
+      stake: BigInt(0),
+    });
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection.message, code: rejection.code, retryAfter: rejection.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(rejection.retryAfterSeconds) } }
+      );
+    }
+
+    const chain = getRelayChain();
+    if (!chain) {
+      return NextResponse.json({ error: "Relayer not configured" }, { status: 500 });
+    }
+
+    // The payout estimate only needs some address; use the relayer's until the user picks one
+    const to = typeof recipient === "string" && /^0x[0-9a-fA-F]{40}$/.test(recipient) ? recipient : chain.address;
+    const quote = await quoteClaim(chain, { secrets, recipient: to as Hex });
+
+    return NextResponse.json({
+      pending: quote.pending.toString(),
+      fee: quote.fee.toString(),
+      net: quote.net.toString(),
+      claims: quote.claims.length,
+    });
+  } catch (error) {
+    log.error("claim quote failed", { error });
+    return NextResponse.json({ error: "Failed to quote claim" }, { status: 500 });
+  }
+}
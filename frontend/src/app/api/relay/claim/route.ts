@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { ROADGUARD_CONTRACT_ADDRESS } from "@/lib/chain";
+import { randomUUID } from "crypto";
+import {
+  checkClaimRecipient,
+  claimJobId,
+  commitmentForSecret,
+  estimateInclusion,
+  getClientIp,
+  getRelayAdmission,
+  getRelayChain,
+  getRelayJobStore,
+  getRelayMixConfig,
+  parseClaimSecrets,
+  payoutJobId,
+  quoteClaim,
+  runRelayWorker,
+  scheduleRelayJob,
+  type Hex,
+} from "@/lib/relay";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("relay");
+
+/**
+ * POST /api/relay/claim
+ * Claim the rewards of one or more commitments (`secrets`, or a single
+ * `secret`) through the relayer and forward them, minus the quoted fee, to a
+ * fresh recipient in one payout. The fee must not exceed `maxFee` (get one
+ * from POST /api/relay/claim/quote first).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { recipient, maxFee, pow } = body;
+
+    const secrets = parseClaimSecrets(body);
+    if (typeof secrets === "string") {
+      return NextResponse.json({ error: secrets }, { status: 400 });
+    }
+
+    let feeLimit: bigint;
+    try {
+      feeLimit = BigInt(maxFee);
+    } catch {
+      return NextResponse.json({ error: "maxFee is required (wei, decimal string)" }, { status: 400 });
+    }
+
+    const chain = getRelayChain();
+    if (!chain) {
+      log.error("RELAYER_PRIVATE_KEY not configured");
+      return NextResponse.json({ error: "Relayer not configured" }, { status: 500 });
+    }
+
+    const recipientError = checkClaimRecipient(recipient, [chain.address, ROADGUARD_CONTRACT_ADDRESS]);
+    if (recipientError) {
+      return NextResponse.json({ error: recipientError }, { status: 400 });
+    }
+
+    // One request is admitted once; the proof of work is bound to the first commitment
+    const commitment = commitmentForSecret(secrets[0]);
+
+    const rejection = await getRelayAdmission().admit({
+      ip: getClientIp(request.headers),
+      commitment,
+      stake: BigInt(0),
+      pow: pow && typeof pow.challenge === "string" && typeof pow.solution === "string" ? pow : null,
+    });
+    if (rejection) {
+      log.warn("claim request rejected", { code: rejection.code, commitment, retryAfter: rejection.retryAfterSeconds });
+      return NextResponse.json(
+        { error: rejection.message, code: rejection.code, retryAfter: rejection.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(rejection.retryAfterSeconds) } }
+      );
+    }
+
+    const quote = await quoteClaim(chain, { secrets, recipient: recipient as Hex });
+    if (quote.pending === BigInt(0)) {
+      return NextResponse.json({ error: "No rewards to claim", code: "NO_REWARDS" }, { status: 400 });
+    }
+    if (quote.net === BigInt(0)) {
+      return NextResponse.json(
+        { error: "Pending rewards do not cover the relayer fee", code: "REWARDS_BELOW_FEE", fee: quote.fee.toString() },
+        { status: 400 }
+      );
+    }
+    if (quote.fee > feeLimit) {
+      return NextResponse.json(
+        {
+          error: "The relayer fee is higher than the agreed maximum. Review the new quote.",
+          code: "FEE_TOO_HIGH",
+          pending: quote.pending.toString(),
+          fee: quote.fee.toString(),
+          net: quote.net.toString(),
+        },
+        { status: 409 }
+      );
+    }
+
+    const mix = getRelayMixConfig();
+    const batchId = randomUUID();
+    // Each claim gets its own slot in the mixing window
+    const jobs = await Promise.all(
+      quote.claims.map((claim, i) =>
+        getRelayJobStore().enqueue(
+          {
+            kind: "claim_rewards",
+            commitment: claim.commitment,
+            secret: claim.secret,
+            recipient: recipient as Hex,
+            fee: quote.fee.toString(),
+            batchId,
+            batchSize: quote.claims.length,
+          },
+          scheduleRelayJob(mix),
+          claimJobId(batchId, i)
+        )
+      )
+    );
+    const lastRunAt = new Date(Math.max(...jobs.map((job) => job.nextAttemptAt.getTime())));
+
+    log.info("claim queued", { batchId, claims: jobs.length, mixing: mix.enabled });
+
+    if (!mix.enabled) {
+      after(() => runRelayWorker().catch((error) => log.error("worker pass failed", { error })));
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobIds: jobs.map((job) => job.id),
+        payoutJobId: payoutJobId(batchId),
+        status: "queued",
+        pending: quote.pending.toString(),
+        fee: quote.fee.toString(),
+        net: quote.net.toString(),
+        mixing: mix.enabled,
+        expectedInclusionAt: estimateInclusion(mix, lastRunAt).toISOString(),
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    log.error("claim request failed", { error });
+    return NextResponse.json({ error: "Failed to queue claim" }, { status: 500 });
+  }
+}
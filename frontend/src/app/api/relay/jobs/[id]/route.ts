@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getRelayJobStore, getRelayMixConfig, nudgeRelayWorker, serializeRelayJob } from "@/lib/relay";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("relay");
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/relay/jobs/:id
+ * Status of a queued relay job. Polling an unsettled job also nudges the
+ * worker, at most one pass per instance every few seconds however many
+ * clients poll, so jobs keep moving between cron runs (except in mixing
+ * mode, where a poll must not be able to trigger a broadcast).
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const job = await getRelayJobStore().get(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const mix = getRelayMixConfig();
+    if (!mix.enabled && (job.status === "queued" || job.status === "submitted")) {
+      after(() => nudgeRelayWorker()?.catch((error) => log.error("worker pass failed", { error })));
+    }
+
+    return NextResponse.json({ success: true, job: serializeRelayJob(job, mix) });
+  } catch (error) {
+    log.error("job lookup failed", { jobId: id, error });
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 });
+  }
+}
@@ -1,34 +1,35 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createWalletClient, createPublicClient, http, parseEther, encodeFunctionData } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
-import { mantle } from "viem/chains";
-
-// RoadGuard contract ABI (only submitReport function)
-const ROADGUARD_ABI = [
-  {
-    inputs: [
-      { name: "_commitment", type: "bytes32" },
-      { name: "_latitude", type: "int64" },
-      { name: "_longitude", type: "int64" },
-      { name: "_eventType", type: "uint8" },
-    ],
-    name: "submitReport",
-    outputs: [{ name: "reportId", type: "uint256" }],
-    stateMutability: "payable",
-    type: "function",
-  },
-] as const;
-
-// Contract address on Mantle Mainnet
-const ROADGUARD_ADDRESS = "0x23a95d01af99F06c446522765E6F3E604865D58a";
+import { NextRequest, NextResponse, after } from "next/server";
+import { parseEther } from "viem";
+import {
+  estimateInclusion,
+  getClientIp,
+  getRelayAdmission,
+  getRelayChain,
+  getRelayMixConfig,
+  runRelayWorker,
+  scheduleRelayJob,
+  type AdmissionRejection,
+  type Hex,
+} from "@/lib/relay";
+import { getPhotoUrlPrefix, parseReportContent, reportContentHash } from "@/lib/details";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("relay");
 
 // Minimum stake
 const MIN_STAKE = parseEther("0.001");
 
+/**
+ * POST /api/relay/report
+ * Queue a report for anonymous submission by the relayer wallet. Returns a
+ * job id immediately; poll GET /api/relay/jobs/:id for the outcome.
+ * An optional `description` and `photos` (URLs from /api/upload) are saved
+ * under the report id once it is mined, with their hash anchored in the tx.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { commitment, latitude, longitude, eventType, stakeAmount } = body;
+    const { commitment, latitude, longitude, eventType, stakeAmount, pow } = body;
 
     // Validate inputs
     if (!commitment || typeof latitude !== "number" || typeof longitude !== "number") {
@@ -38,113 +39,151 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (eventType < 0 || eventType > 5) {
+    // The contract reverts on these, and a reverting job is only caught by the worker
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
       return NextResponse.json(
-        { error: "Invalid eventType. Must be 0-5" },
+        { error: "Invalid coordinates. latitude must be within ±90 and longitude within ±180" },
         { status: 400 }
       );
     }
 
-    // Get relayer private key from environment
-    const relayerPrivateKey = process.env.RELAYER_PRIVATE_KEY;
-    if (!relayerPrivateKey) {
-      console.error("RELAYER_PRIVATE_KEY not configured");
+    if (!/^0x[0-9a-fA-F]{64}$/.test(commitment)) {
       return NextResponse.json(
-        { error: "Relayer not configured" },
-        { status: 500 }
+        { error: "Invalid commitment. Must be a 32-byte hex string" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(eventType) || eventType < 0 || eventType > 5) {
+      return NextResponse.json(
+        { error: "Invalid eventType. Must be 0-5" },
+        { status: 400 }
       );
     }
 
-    // Create relayer account
-    const account = privateKeyToAccount(relayerPrivateKey as `0x${string}`);
+    // Optional description and photos, stored once the report is mined
+    const content = parseReportContent(body, getPhotoUrlPrefix());
+    if (typeof content === "string") {
+      return NextResponse.json({ error: content }, { status: 400 });
+    }
 
-    // Create clients
-    const publicClient = createPublicClient({
-      chain: mantle,
-      transport: http("https://rpc.mantle.xyz"),
-    });
+    let stake = MIN_STAKE;
+    if (stakeAmount !== undefined && stakeAmount !== null) {
+      try {
+        stake = BigInt(stakeAmount);
+      } catch {
+        return NextResponse.json({ error: "Invalid stakeAmount" }, { status: 400 });
+      }
+      if (stake < MIN_STAKE) {
+        return NextResponse.json({ error: "stakeAmount is below the minimum stake" }, { status: 400 });
+      }
+    }
 
-    const walletClient = createWalletClient({
-      account,
-      chain: mantle,
-      transport: http("https://rpc.mantle.xyz"),
+    // Anti-spam: proof of work, per-IP and per-commitment limits; the spend
+    // cap is checked when the job is queued
+    const admission = getRelayAdmission();
+    const rejection = await admission.admit({
+      ip: getClientIp(request.headers),
+      commitment,
+      stake,
+      pow: pow && typeof pow.challenge === "string" && typeof pow.solution === "string" ? pow : null,
     });
+    if (rejection) return rejected(rejection, commitment);
 
-    // Check relayer balance
-    const balance = await publicClient.getBalance({ address: account.address });
-    const stake = stakeAmount ? BigInt(stakeAmount) : MIN_STAKE;
+    const chain = getRelayChain();
+    if (!chain) {
+      log.error("RELAYER_PRIVATE_KEY not configured");
+      return NextResponse.json(
+        { error: "Relayer not configured" },
+        { status: 500 }
+      );
+    }
 
     // Need stake + gas buffer (~0.01 MNT for gas)
+    const balance = await chain.getBalance();
     const requiredBalance = stake + parseEther("0.01");
     if (balance < requiredBalance) {
-      console.error(`Relayer balance too low: ${balance} < ${requiredBalance}`);
+      log.error("relayer balance too low", { balance, requiredBalance });
       return NextResponse.json(
         { error: "Relayer has insufficient funds. Please try again later." },
         { status: 503 }
       );
     }
 
-    // Convert lat/lng to int64 scaled by 1e8
-    const latScaled = BigInt(Math.round(latitude * 1e8));
-    const lngScaled = BigInt(Math.round(longitude * 1e8));
-
-    // Submit report via relayer
-    const hash = await walletClient.writeContract({
-      address: ROADGUARD_ADDRESS,
-      abi: ROADGUARD_ABI,
-      functionName: "submitReport",
-      args: [commitment as `0x${string}`, latScaled, lngScaled, eventType],
-      value: stake,
-    });
-
-    console.log(`[Relayer] Submitted report. TX: ${hash}`);
-    console.log(`[Relayer] Commitment: ${commitment}`);
-    console.log(`[Relayer] Location: ${latitude}, ${longitude}`);
-    console.log(`[Relayer] Stake: ${stake}`);
+    // In mixing mode the job waits for its window and only the cron worker
+    // broadcasts, so nothing on-chain happens in step with this request
+    const mix = getRelayMixConfig();
+    const queued = await admission.spendCap.enqueue(
+      {
+        kind: "submit_report",
+        commitment: commitment as Hex,
+        latitude,
+        longitude,
+        eventType,
+        stake: stake.toString(),
+        ...(content && { details: { ...content, contentHash: reportContentHash(content) } }),
+      },
+      scheduleRelayJob(mix)
+    );
+    if (!queued.ok) return rejected(queued.rejection, commitment);
+    const { job } = queued;
 
-    // Wait for transaction confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    log.info("report queued", { jobId: job.id, eventType, mixing: mix.enabled });
 
-    return NextResponse.json({
-      success: true,
-      txHash: hash,
-      blockNumber: receipt.blockNumber.toString(),
-      relayerAddress: account.address,
-      message: "Report submitted anonymously via relayer",
-    });
+    if (!mix.enabled) {
+      // Start on it right away; the cron worker picks up anything left over
+      after(() => runRelayWorker().catch((error) => log.error("worker pass failed", { error })));
+    }
 
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        mixing: mix.enabled,
+        expectedInclusionAt: estimateInclusion(mix, job.nextAttemptAt).toISOString(),
+        relayerAddress: chain.address,
+        message: "Report queued for anonymous submission via relayer",
+      },
+      { status: 202 }
+    );
   } catch (error: any) {
-    console.error("[Relayer] Error:", error);
+    log.error("relay request failed", { error });
     return NextResponse.json(
-      { error: error.message || "Failed to relay transaction" },
+      { error: error.message || "Failed to queue transaction" },
       { status: 500 }
     );
   }
 }
 
+function rejected(rejection: AdmissionRejection, commitment: string) {
+  log.warn("relay request rejected", {
+    code: rejection.code,
+    commitment,
+    retryAfter: rejection.retryAfterSeconds,
+  });
+  return NextResponse.json(
+    { error: rejection.message, code: rejection.code, retryAfter: rejection.retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(rejection.retryAfterSeconds) } }
+  );
+}
+
 // GET endpoint to check relayer status
 export async function GET() {
   try {
-    const relayerPrivateKey = process.env.RELAYER_PRIVATE_KEY;
-    if (!relayerPrivateKey) {
+    const chain = getRelayChain();
+    if (!chain) {
       return NextResponse.json({
         status: "not_configured",
         message: "Relayer private key not set",
       });
     }
 
-    const account = privateKeyToAccount(relayerPrivateKey as `0x${string}`);
-
-    const publicClient = createPublicClient({
-      chain: mantle,
-      transport: http("https://rpc.mantle.xyz"),
-    });
-
-    const balance = await publicClient.getBalance({ address: account.address });
+    const balance = await chain.getBalance();
 
     return NextResponse.json({
       status: "active",
-      relayerAddress: account.address,
+      relayerAddress: chain.address,
       balance: balance.toString(),
       balanceFormatted: (Number(balance) / 1e18).toFixed(4) + " MNT",
       minStake: "0.001 MNT",
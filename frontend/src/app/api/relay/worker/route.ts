@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runRelayWorker } from "@/lib/relay";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("relay");
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/relay/worker
+ * Run one relay queue pass: broadcast queued jobs, replace stuck ones and
+ * settle mined ones. Triggered by the Vercel cron in vercel.json, which sends
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json({ error: "Worker not configured" }, { status: 503 });
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runRelayWorker();
+    if (!result) {
+      return NextResponse.json({ error: "Relayer not configured" }, { status: 503 });
+    }
+    if (result.processed > 0) log.info("worker pass", { ...result });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    log.error("worker pass failed", { error });
+    return NextResponse.json({ error: "Relay worker run failed" }, { status: 500 });
+  }
+}
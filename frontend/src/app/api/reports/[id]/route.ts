@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportDetailsStore, verifyReportDetails } from "@/lib/details";
+import { createLogger } from "@/lib/logger";
+import { getUploadedPhotoStore } from "@/lib/media";
+
+const log = createLogger("reports");
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/reports/:id
+ * Description and photos of a report, by chain report id. `integrity` says
+ * whether they still match their hash, and whether the submitting transaction
+ * carried it when the relayer saved them.
+ * `images` lines up with `photos`: variants and blurhash of each, or null for
+ * photos uploaded before variants existed. `commentKey` is the address the
+ * reporter signs comments with, if they registered one.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const reportId = Number(id);
+  if (!/^\d+$/.test(id) || !Number.isSafeInteger(reportId)) {
+    return NextResponse.json({ error: "Invalid report id" }, { status: 400 });
+  }
+
+  try {
+    const details = await getReportDetailsStore().get(reportId);
+    if (!details) {
+      return NextResponse.json({ error: "Report details not found" }, { status: 404 });
+    }
+
+    const integrity = verifyReportDetails(details);
+    if (!integrity.contentMatches || integrity.anchored === false) {
+      log.warn("report details do not match their anchor", { reportId, ...integrity });
+    }
+
+    const uploaded = await getUploadedPhotoStore().getMany(details.photos);
+
+    return NextResponse.json({
+      id: details.chainReportId,
+      description: details.description,
+      photos: details.photos,
+      images: details.photos.map((photo) => uploaded.get(photo) ?? null),
+      commentKey: details.commentKey ?? null,
+      contentHash: details.contentHash,
+      txHash: details.txHash,
+      createdAt: details.createdAt.toISOString(),
+      integrity,
+    });
+  } catch (error) {
+    log.error("failed to fetch report details", { reportId, error });
+    return NextResponse.json({ error: "Failed to load report details" }, { status: 500 });
+  }
+}
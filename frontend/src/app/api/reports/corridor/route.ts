@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import {
+  decodePolyline,
+  routeLength,
+  DEFAULT_CORRIDOR_BUFFER_M,
+  MAX_CORRIDOR_BUFFER_M,
+  MAX_CORRIDOR_LENGTH_M,
+  MAX_CORRIDOR_POINTS,
+} from "@/lib/corridor";
+import { findCorridorReports } from "@/lib/corridor/postgres";
+import { parseReportFilters } from "@/lib/reports";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("reports");
+
+const DEFAULT_CORRIDOR_LIMIT = 200;
+const MAX_CORRIDOR_LIMIT = 500;
+
+/**
+ * POST /api/reports/corridor
+ * Reports along a route, nearest the start first, each with how far along
+ * the route it is (`distanceFromStart`) and how far off it (`distanceFromRoute`),
+ * in meters.
+ *
+ * Body:
+ * - polyline: encoded polyline of the route (Google overview_polyline, OSRM),
+ *   at most 5000 points and 2000 km
+ * - precision: polyline precision, 5 (default) or 6
+ * - buffer: meters either side of the route (default 500, max 5000)
+ * - status, eventType: as for GET /api/reports
+ * - limit: max results (default 200, max 500)
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be valid JSON" }, { status: 400 });
+  }
+  const input: Record<string, unknown> = typeof body === "object" && body !== null ? { ...body } : {};
+
+  const polyline = input.polyline;
+  if (typeof polyline !== "string" || !polyline) {
+    return NextResponse.json({ error: "polyline is required" }, { status: 400 });
+  }
+
+  const precision = input.precision ?? 5;
+  if (precision !== 5 && precision !== 6) {
+    return NextResponse.json({ error: "precision must be 5 or 6" }, { status: 400 });
+  }
+
+  const path = decodePolyline(polyline, precision);
+  if (!path || path.length === 0) {
+    return NextResponse.json({ error: "Invalid polyline" }, { status: 400 });
+  }
+  if (path.length > MAX_CORRIDOR_POINTS) {
+    return NextResponse.json({ error: `Route too long (max ${MAX_CORRIDOR_POINTS} points)` }, { status: 400 });
+  }
+  const length = routeLength(path);
+  if (length > MAX_CORRIDOR_LENGTH_M) {
+    return NextResponse.json(
+      { error: `Route too long (max ${MAX_CORRIDOR_LENGTH_M / 1000} km)` },
+      { status: 400 }
+    );
+  }
+
+  const buffer = input.buffer ?? DEFAULT_CORRIDOR_BUFFER_M;
+  if (typeof buffer !== "number" || !(buffer > 0) || buffer > MAX_CORRIDOR_BUFFER_M) {
+    return NextResponse.json(
+      { error: `buffer must be between 0 and ${MAX_CORRIDOR_BUFFER_M} meters` },
+      { status: 400 }
+    );
+  }
+
+  const limit = input.limit ?? DEFAULT_CORRIDOR_LIMIT;
+  if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > MAX_CORRIDOR_LIMIT) {
+    return NextResponse.json({ error: `limit must be between 1 and ${MAX_CORRIDOR_LIMIT}` }, { status: 400 });
+  }
+
+  // Reports are served from the cache populated by the chain indexer, as
+  // for GET /api/reports
+  if (!db) {
+    return NextResponse.json({
+      reports: [],
+      count: 0,
+      source: "cache",
+      error: "Database not configured",
+    });
+  }
+
+  try {
+    const { reports, index } = await findCorridorReports(db, {
+      path,
+      buffer,
+      filters: parseReportFilters(input),
+      limit,
+    });
+
+    return NextResponse.json({
+      reports,
+      count: reports.length,
+      source: "cache",
+      index,
+      buffer,
+      routeLength: Math.round(length),
+    });
+  } catch (error) {
+    log.error("failed to fetch corridor reports", { error });
+    return NextResponse.json({ error: "Failed to fetch reports" }, { status: 500 });
+  }
+}
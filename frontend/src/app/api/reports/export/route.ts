@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, lt } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { reportsCache } from "@/lib/schema";
+import { EXPORT_FORMATS, getReportExporter, type ExportFormat } from "@/lib/export";
+import { parseReportQuery, reportColumns, reportQueryConditions, toApiReport } from "@/lib/reports";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("reports");
+
+/** Reports read from the cache per query while streaming */
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * GET /api/reports/export
+ * Every report matching the GET /api/reports filters, as a file for GIS
+ * tools, newest first. Large exports are streamed a batch at a time.
+ *
+ * Query params:
+ * - format: geojson (default), kml or csv
+ * - bbox, lat, lng, radius, status, eventType, since, until: as for GET /api/reports
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const format = (searchParams.get("format") || "geojson") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+
+  const query = parseReportQuery(searchParams);
+  if (typeof query === "string") {
+    return NextResponse.json({ error: query }, { status: 400 });
+  }
+
+  if (!db) {
+    return NextResponse.json({ error: "Database not configured" }, { status: 503 });
+  }
+  const database = db;
+
+  // Paged by report id rather than offset, so reports indexed mid-export
+  // don't shift the pages
+  const conditions = reportQueryConditions(query);
+  const readBatch = (beforeId: number | null) =>
+    database
+      .select(reportColumns)
+      .from(reportsCache)
+      .where(and(...conditions, beforeId === null ? undefined : lt(reportsCache.chainReportId, beforeId)))
+      .orderBy(desc(reportsCache.chainReportId))
+      .limit(EXPORT_BATCH_SIZE);
+
+  // The first batch is read before responding, so a failing query is still a 500
+  let batch: Awaited<ReturnType<typeof readBatch>>;
+  try {
+    batch = await readBatch(null);
+  } catch (error) {
+    log.error("failed to export reports", { error, format });
+    return NextResponse.json({ error: "Failed to export reports" }, { status: 500 });
+  }
+
+  const exporter = getReportExporter(format);
+  const encoder = new TextEncoder();
+  let first = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(exporter.head));
+    },
+    async pull(controller) {
+      if (batch.length === 0) {
+        controller.enqueue(encoder.encode(exporter.tail));
+        controller.close();
+        return;
+      }
+
+      let chunk = "";
+      for (const row of batch) {
+        chunk += exporter.report(toApiReport(row), first);
+        first = false;
+      }
+      controller.enqueue(encoder.encode(chunk));
+
+      try {
+        batch = batch.length < EXPORT_BATCH_SIZE ? [] : await readBatch(batch[batch.length - 1].id);
+      } catch (error) {
+        log.error("failed to export reports", { error, format });
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": exporter.contentType,
+      "Content-Disposition": `attachment; filename="roadguard-reports.${exporter.extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
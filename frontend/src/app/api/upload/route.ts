@@ -1,21 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { randomUUID } from "crypto";
-
-const s3Client = new S3Client({
-  endpoint: `https://${process.env.DO_SPACES_ENDPOINT}`,
-  region: "us-east-1", // DigitalOcean Spaces uses us-east-1
-  credentials: {
-    accessKeyId: process.env.DO_SPACES_KEY || "",
-    secretAccessKey: process.env.DO_SPACES_SECRET || "",
-  },
-  forcePathStyle: false,
-});
+import { createLogger } from "@/lib/logger";
+import {
+  createImageDerivatives,
+  getRegionDetector,
+  getUploadedPhotoStore,
+  IMAGE_EXTENSIONS,
+  IMAGE_VARIANT_NAMES,
+  isAllowedImageType,
+  parseManualRegions,
+  redactImage,
+  sanitizeImage,
+  sniffImageType,
+  type ImageRegion,
+  type RedactionRecord,
+  type RegionDetector,
+  type SanitizedImage,
+  type UploadedPhoto,
+} from "@/lib/media";
+import { getStorageDriver } from "@/lib/storage";
+
+const log = createLogger("upload");
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if credentials are configured
-    if (!process.env.DO_SPACES_KEY || !process.env.DO_SPACES_SECRET || !process.env.DO_SPACES_BUCKET) {
+    // S3/Spaces, local disk or content-addressed, per STORAGE_DRIVER
+    const storage = getStorageDriver();
+    if (!storage) {
       return NextResponse.json(
         { error: "Storage not configured" },
         { status: 503 }
@@ -30,8 +40,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const allowedTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"];
-    if (!allowedTypes.includes(file.type)) {
+    if (!isAllowedImageType(file.type)) {
       return NextResponse.json(
         { error: "Invalid file type. Only JPEG, PNG, WebP, and GIF are allowed." },
         { status: 400 }
@@ -47,34 +56,111 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate unique filename
-    const ext = file.name.split(".").pop() || "jpg";
-    const filename = `roadguard/${Date.now()}-${randomUUID().slice(0, 8)}.${ext}`;
+    // Regions the uploader painted over, as a JSON array of fractional rectangles
+    let manualRegions: ImageRegion[] = [];
+    const blurRegions = formData.get("blurRegions");
+    if (typeof blurRegions === "string" && blurRegions) {
+      let parsed: ImageRegion[] | string;
+      try {
+        parsed = parseManualRegions(JSON.parse(blurRegions));
+      } catch {
+        parsed = "blurRegions must be JSON";
+      }
+      if (typeof parsed === "string") {
+        return NextResponse.json({ error: parsed }, { status: 400 });
+      }
+      manualRegions = parsed;
+    }
 
     // Convert file to buffer
     const buffer = Buffer.from(await file.arrayBuffer());
 
-    // Upload to DigitalOcean Spaces
-    const command = new PutObjectCommand({
-      Bucket: process.env.DO_SPACES_BUCKET,
-      Key: filename,
-      Body: buffer,
-      ContentType: file.type,
-      ACL: "public-read",
+    // The claimed type must match what the bytes actually are
+    if (sniffImageType(buffer) !== file.type) {
+      return NextResponse.json(
+        { error: "File content does not match its type." },
+        { status: 400 }
+      );
+    }
+
+    // With redaction on, photos are never stored unless the detector ran
+    let detector: RegionDetector | null;
+    try {
+      detector = await getRegionDetector();
+    } catch (error) {
+      log.error("redaction models could not be loaded", { error });
+      return NextResponse.json(
+        { error: "Photo redaction unavailable" },
+        { status: 503 }
+      );
+    }
+
+    // Re-encode without EXIF/GPS and other metadata, orientation applied
+    let image: SanitizedImage;
+    try {
+      image = await sanitizeImage(buffer, file.type);
+    } catch (error) {
+      log.warn("image could not be decoded", { type: file.type, size: file.size, error });
+      return NextResponse.json(
+        { error: "Could not read image." },
+        { status: 400 }
+      );
+    }
+
+    // Blur faces, plates and painted regions. The image decoded fine, so a
+    // failure here is ours, not the uploader's
+    let redaction: RedactionRecord;
+    try {
+      const redacted = await redactImage(image, { detector, manualRegions });
+      image = { ...image, buffer: redacted.buffer };
+      redaction = redacted.redaction;
+    } catch (error) {
+      log.error("redaction failed", { type: file.type, size: file.size, error });
+      return NextResponse.json(
+        { error: "Failed to redact photo" },
+        { status: 500 }
+      );
+    }
+
+    // WebP variants and blurhash from the clean copy
+    const derivatives = await createImageDerivatives(image.buffer);
+
+    // The driver names the file; the extension follows the verified type, not the name
+    const { key: filename, url } = await storage.save({
+      body: image.buffer,
+      contentType: image.contentType,
+      extension: IMAGE_EXTENSIONS[image.contentType],
     });
 
-    await s3Client.send(command);
+    const variants = {} as UploadedPhoto["variants"];
+    for (const variant of IMAGE_VARIANT_NAMES) {
+      const { buffer: body, contentType, width, height } = derivatives.variants[variant];
+      const saved = await storage.save({
+        body,
+        contentType,
+        extension: IMAGE_EXTENSIONS[contentType],
+        variantOf: { key: filename, variant },
+      });
+      variants[variant] = { url: saved.url, width, height };
+    }
 
-    // Construct the public URL
-    const url = `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_ENDPOINT}/${filename}`;
+    const photo: UploadedPhoto = {
+      url,
+      width: image.width,
+      height: image.height,
+      blurhash: derivatives.blurhash,
+      variants,
+      redaction,
+    };
+    await getUploadedPhotoStore().save(photo);
 
     return NextResponse.json({
       success: true,
-      url,
       filename,
+      ...photo,
     });
   } catch (error) {
-    console.error("Upload error:", error);
+    log.error("upload failed", { error });
     return NextResponse.json(
       { error: "Failed to upload file" },
       { status: 500 }
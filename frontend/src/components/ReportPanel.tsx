@@ -7,9 +7,11 @@ import {
   useSubmitReport,
   useReporterIdentity,
   generateCommitment,
+  formatRelayDelay,
 } from "@/hooks/useRoadGuard";
 import { EventTypeLabels, EventType } from "@/lib/contracts/RoadGuardABI";
 import { MIN_STAKE } from "@/lib/wagmi";
+import { VAULT_MIN_PIN_LENGTH } from "@/lib/vault";
 
 interface ReportPanelProps {
   selectedLocation: { lat: number; lng: number } | null;
@@ -19,11 +21,14 @@ interface ReportPanelProps {
 
 export function ReportPanel({ selectedLocation, onClose, onLocationSelect }: ReportPanelProps) {
   const { address, isConnected } = useAccount();
-  const { identity, createIdentity, loadIdentity } = useReporterIdentity();
-  const { submitReport, isPending, isConfirming, isSuccess, error, hash } = useSubmitReport();
+  const { identity, isLocked, status, createIdentity, loadIdentity, unlock, nextReportIdentity, recordReport } =
+    useReporterIdentity();
+  const { submitReport, isPending, isConfirming, isSuccess, error, hash, expectedDelaySeconds } =
+    useSubmitReport();
 
   const [eventType, setEventType] = useState<EventType>(0);
   const [passphrase, setPassphrase] = useState("");
+  const [pin, setPin] = useState("");
   const [showPassphraseInput, setShowPassphraseInput] = useState(false);
   const [stakeAmount, setStakeAmount] = useState(formatEther(MIN_STAKE));
 
@@ -32,14 +37,28 @@ export function ReportPanel({ selectedLocation, onClose, onLocationSelect }: Rep
     loadIdentity();
   }, [loadIdentity]);
 
-  const handleCreateIdentity = () => {
+  const handleCreateIdentity = async () => {
     if (passphrase.length < 8) {
       alert("Passphrase must be at least 8 characters");
       return;
     }
-    createIdentity(passphrase);
-    setShowPassphraseInput(false);
-    setPassphrase("");
+    try {
+      await createIdentity(passphrase, pin);
+      setShowPassphraseInput(false);
+      setPassphrase("");
+      setPin("");
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleUnlock = async () => {
+    try {
+      await unlock(pin);
+      setPin("");
+    } catch (e: any) {
+      alert(e.message);
+    }
   };
 
   const handleSubmit = async () => {
@@ -54,13 +73,16 @@ export function ReportPanel({ selectedLocation, onClose, onLocationSelect }: Rep
     }
 
     try {
-      await submitReport({
-        commitment: identity.commitment,
+      // A fresh commitment per report keeps reports from being linked on-chain
+      const reportIdentity = await nextReportIdentity();
+      const result = await submitReport({
+        commitment: reportIdentity.commitment,
         latitude: selectedLocation.lat,
         longitude: selectedLocation.lng,
         eventType,
         stakeAmount: parseEther(stakeAmount),
       });
+      if (result.reportId !== null) recordReport(reportIdentity.index, result.reportId);
     } catch (e) {
       console.error("Submit error:", e);
     }
@@ -128,10 +150,29 @@ export function ReportPanel({ selectedLocation, onClose, onLocationSelect }: Rep
         {identity ? (
           <div className="text-sm">
             <p className="text-green-400 mb-1">Identity active</p>
-            <p className="text-gray-400 text-xs font-mono break-all">
-              Commitment: {identity.commitment.slice(0, 18)}...
+            <p className="text-gray-400 text-xs">
+              Each report uses a new commitment derived from your passphrase.
             </p>
           </div>
+        ) : isLocked ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-300">
+              {status === "legacy"
+                ? "Your identity is stored unencrypted. Set a PIN to encrypt it."
+                : "Your identity is locked. Enter your PIN."}
+            </p>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder={`PIN (min ${VAULT_MIN_PIN_LENGTH} chars)`}
+              className="input w-full"
+            />
+            <button onClick={handleUnlock} className="btn-primary w-full">
+              {status === "legacy" ? "Set PIN" : "Unlock"}
+            </button>
+          </div>
         ) : showPassphraseInput ? (
           <div className="space-y-3">
             <p className="text-sm text-gray-300">
@@ -145,6 +186,14 @@ export function ReportPanel({ selectedLocation, onClose, onLocationSelect }: Rep
               placeholder="Enter secret passphrase (min 8 chars)"
               className="input w-full"
             />
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder={`PIN to encrypt it on this device (min ${VAULT_MIN_PIN_LENGTH} chars)`}
+              className="input w-full"
+            />
             <button onClick={handleCreateIdentity} className="btn-primary w-full">
               Create Anonymous Identity
             </button>
@@ -241,6 +290,13 @@ export function ReportPanel({ selectedLocation, onClose, onLocationSelect }: Rep
           : "Submit Report"}
       </button>
 
+      {isConfirming && !!expectedDelaySeconds && (
+        <p className="text-xs text-gray-400 text-center mt-3">
+          Batched with other reports for privacy. Expected on-chain in{" "}
+          {formatRelayDelay(expectedDelaySeconds)}.
+        </p>
+      )}
+
       <p className="text-xs text-gray-500 text-center mt-4">
         Your wallet address is never stored. Only the commitment hash goes on-chain.
       </p>
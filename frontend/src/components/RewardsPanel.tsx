@@ -1,11 +1,14 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAccount } from "wagmi";
-import { formatEther } from "viem";
+import { formatEther, isAddress } from "viem";
+import { MAX_CLAIM_BATCH } from "@/lib/relay/claim";
+import { VAULT_MIN_PIN_LENGTH } from "@/lib/vault";
 import {
-  usePendingRewards,
+  usePendingRewardsForCommitments,
   useClaimRewards,
+  useClaimRewardsPrivately,
   useReporterIdentity,
 } from "@/hooks/useRoadGuard";
 
@@ -15,39 +18,100 @@ interface RewardsPanelProps {
 
 export function RewardsPanel({ onClose }: RewardsPanelProps) {
   const { address, isConnected } = useAccount();
-  const { identity, loadIdentity, createIdentity, clearIdentity } = useReporterIdentity();
-  const { data: pendingRewards } = usePendingRewards(identity?.commitment);
-  const { claimRewards, isPending, isConfirming, isSuccess, error, hash } = useClaimRewards();
+  const {
+    identity,
+    isLocked,
+    status,
+    loadIdentity,
+    createIdentity,
+    unlock,
+    lock,
+    clearIdentity,
+    claimableIdentities,
+    reportCount,
+  } = useReporterIdentity();
+  const commitments = useMemo(() => claimableIdentities.map((each) => each.commitment), [claimableIdentities]);
+  const { total: pendingRewards, amounts } = usePendingRewardsForCommitments(commitments);
+  const claimSecrets = useMemo(
+    () =>
+      claimableIdentities
+        .filter((_, i) => amounts[i] > BigInt(0))
+        .slice(0, MAX_CLAIM_BATCH)
+        .map((each) => each.secret),
+    [claimableIdentities, amounts]
+  );
+  const direct = useClaimRewards();
+  const privateClaim = useClaimRewardsPrivately();
 
   const [passphrase, setPassphrase] = useState("");
+  const [pin, setPin] = useState("");
   const [showRecoverInput, setShowRecoverInput] = useState(false);
+  const [claimPrivately, setClaimPrivately] = useState(true);
+  const [recipient, setRecipient] = useState("");
+  const [feeAccepted, setFeeAccepted] = useState(false);
+
+  const { isPending, isConfirming, isSuccess, error, hash } = claimPrivately ? privateClaim : direct;
+  const { getQuote, quote } = privateClaim;
+  const recipientValid = isAddress(recipient) && recipient.toLowerCase() !== address?.toLowerCase();
 
   useEffect(() => {
     loadIdentity();
   }, [loadIdentity]);
 
+  // Re-quote whenever the claimable commitments or recipient change; the user must agree again
+  useEffect(() => {
+    setFeeAccepted(false);
+    if (!claimPrivately || claimSecrets.length === 0 || !recipientValid) return;
+    getQuote(claimSecrets, recipient as `0x${string}`).catch(() => {});
+  }, [claimPrivately, claimSecrets, recipient, recipientValid, getQuote]);
+
   const handleClaim = async () => {
-    if (!identity || !address) return;
+    if (!identity) return;
 
     try {
-      await claimRewards(identity.secret, address);
+      if (claimPrivately) {
+        if (!recipientValid || !quote || !feeAccepted) return;
+        await privateClaim.claimPrivately({
+          secrets: claimSecrets,
+          recipient: recipient as `0x${string}`,
+          maxFee: quote.fee,
+        });
+      } else {
+        if (!address) return;
+        await direct.claimRewards(claimSecrets, address);
+      }
     } catch (e) {
       console.error("Claim error:", e);
+      setFeeAccepted(false);
     }
   };
 
-  const handleRecover = () => {
+  const handleRecover = async () => {
     if (passphrase.length < 8) {
       alert("Passphrase must be at least 8 characters");
       return;
     }
-    createIdentity(passphrase);
-    setShowRecoverInput(false);
-    setPassphrase("");
+    try {
+      await createIdentity(passphrase, pin);
+      setShowRecoverInput(false);
+      setPassphrase("");
+      setPin("");
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleUnlock = async () => {
+    try {
+      await unlock(pin);
+      setPin("");
+    } catch (e: any) {
+      alert(e.message);
+    }
   };
 
-  const formattedRewards = pendingRewards ? formatEther(pendingRewards) : "0";
-  const hasRewards = pendingRewards && pendingRewards > BigInt(0);
+  const formattedRewards = formatEther(pendingRewards);
+  const hasRewards = claimSecrets.length > 0;
 
   if (!isConnected) {
     return (
@@ -77,7 +141,9 @@ export function RewardsPanel({ onClose }: RewardsPanelProps) {
         <div className="bg-green-900/50 border border-green-500 rounded-lg p-4 mb-4">
           <h3 className="font-semibold text-green-400 mb-2">Rewards Claimed!</h3>
           <p className="text-sm text-gray-300 mb-2">
-            Your rewards have been sent to your wallet.
+            {claimPrivately
+              ? "Your rewards have been sent to your private address."
+              : "Your rewards have been sent to your wallet."}
           </p>
           {hash && (
             <a
@@ -105,14 +171,41 @@ export function RewardsPanel({ onClose }: RewardsPanelProps) {
         {identity ? (
           <div>
             <p className="text-green-400 text-sm mb-2">Identity loaded</p>
-            <p className="text-xs text-gray-400 font-mono break-all mb-3">
+            <p className="text-xs text-gray-400 font-mono break-all mb-1">
               {identity.commitment}
             </p>
-            <button
-              onClick={clearIdentity}
-              className="text-xs text-red-400 hover:text-red-300"
-            >
-              Clear Identity
+            <p className="text-xs text-gray-500 mb-3">
+              {reportCount} unlinkable report commitment{reportCount === 1 ? "" : "s"}
+            </p>
+            <div className="flex gap-4">
+              <button onClick={lock} className="text-xs text-gray-400 hover:text-gray-300">
+                Lock
+              </button>
+              <button
+                onClick={() => clearIdentity()}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Clear Identity
+              </button>
+            </div>
+          </div>
+        ) : isLocked ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-300">
+              {status === "legacy"
+                ? "Your identity is stored unencrypted. Set a PIN to encrypt it."
+                : "Your identity is locked. Enter your PIN."}
+            </p>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder={`PIN (min ${VAULT_MIN_PIN_LENGTH} chars)`}
+              className="input w-full"
+            />
+            <button onClick={handleUnlock} className="btn-primary w-full">
+              {status === "legacy" ? "Set PIN" : "Unlock"}
             </button>
           </div>
         ) : showRecoverInput ? (
@@ -127,6 +220,14 @@ export function RewardsPanel({ onClose }: RewardsPanelProps) {
               placeholder="Enter your passphrase"
               className="input w-full"
             />
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder={`PIN to encrypt it on this device (min ${VAULT_MIN_PIN_LENGTH} chars)`}
+              className="input w-full"
+            />
             <div className="flex gap-2">
               <button onClick={handleRecover} className="btn-primary flex-1">
                 Recover
@@ -169,14 +270,67 @@ export function RewardsPanel({ onClose }: RewardsPanelProps) {
             </p>
           </div>
 
+          {/* Claim Mode */}
+          <label className="flex items-center gap-2 mb-3 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={claimPrivately}
+              onChange={(e) => setClaimPrivately(e.target.checked)}
+            />
+            Claim privately via relayer (wallet stays unlinked)
+          </label>
+
+          {claimPrivately && (
+            <div className="space-y-3 mb-4">
+              <input
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value.trim())}
+                placeholder="Fresh recipient address (0x...)"
+                className="input w-full font-mono text-sm"
+              />
+              {recipient && !recipientValid && (
+                <p className="text-xs text-red-400">
+                  Enter a valid address that is not your connected wallet.
+                </p>
+              )}
+              {quote && recipientValid && (
+                <div className="card text-sm space-y-1">
+                  <p className="flex justify-between text-gray-400">
+                    <span>Relayer fee</span>
+                    <span>{formatEther(quote.fee)} MNT</span>
+                  </p>
+                  <p className="flex justify-between">
+                    <span>You receive</span>
+                    <span>{formatEther(quote.net)} MNT</span>
+                  </p>
+                  <label className="flex items-center gap-2 pt-2 text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={feeAccepted}
+                      onChange={(e) => setFeeAccepted(e.target.checked)}
+                    />
+                    I agree to pay this fee
+                  </label>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Claim Button */}
           <button
             onClick={handleClaim}
-            disabled={!hasRewards || isPending || isConfirming}
+            disabled={
+              !hasRewards ||
+              isPending ||
+              isConfirming ||
+              (claimPrivately && (!recipientValid || !quote || quote.net === BigInt(0) || !feeAccepted))
+            }
             className="btn-primary w-full py-3 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isPending
-              ? "Confirm in Wallet..."
+              ? claimPrivately
+                ? "Sending to Relayer..."
+                : "Confirm in Wallet..."
               : isConfirming
               ? "Processing..."
               : hasRewards
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useAccount, useBalance, useDisconnect, useConnect } from "wagmi";
 import { formatEther } from "viem";
@@ -38,15 +38,21 @@ import {
   Wallet,
   Smartphone,
   Loader2,
+  ShieldAlert,
+  ShieldCheck,
+  EyeOff,
 } from "lucide-react";
 import dynamic from "next/dynamic";
 import Image from "next/image";
-import { EVENT_TYPES, EventType, ReportMarker } from "@/components/map/GoogleMap";
+import { EVENT_TYPES, EventType, ReportMarker, toReportMarker } from "@/components/map/GoogleMap";
 import type { MapController, RouteHazard, RouteResult, RouteInfo } from "@/components/map/AdvancedMap";
 import ReportSheet from "@/components/layout/ReportSheet";
 import PlacesAutocomplete from "@/components/ui/PlacesAutocomplete";
-import { useReportCount, useConfirmReport, useSendRegards } from "@/hooks/useRoadGuard";
+import { useReportCount, useConfirmReport, useSendRegards, useReportDetails } from "@/hooks/useRoadGuard";
+import { ReportComments } from "./ReportComments";
 import { parseEther } from "viem";
+import { blurhashToDataUrl } from "@/lib/blurhash";
+import { recommendRoute, type ScorableRoute } from "@/lib/risk";
 
 // Dynamic import for map
 const AdvancedMap = dynamic(() => import("@/components/map/AdvancedMap"), {
@@ -58,6 +64,28 @@ const AdvancedMap = dynamic(() => import("@/components/map/AdvancedMap"), {
   ),
 });
 
+// A planned route in the units the risk scoring takes
+function toScorableRoute(route: RouteInfo): ScorableRoute {
+  return {
+    durationValue: route.durationValue,
+    hazards: route.hazards.map(({ report, distanceFromStart, distanceFromRoute }) => ({
+      eventType: report.eventType,
+      confirmationCount: report.confirmationCount,
+      reportedAt: report.timestamp,
+      expiresAt: report.expiresAt * 1000,
+      distanceFromStart,
+      distanceFromRoute,
+    })),
+  };
+}
+
+const RISK_LEVEL_COLORS = {
+  none: "text-green-400",
+  low: "text-yellow-400",
+  medium: "text-orange-400",
+  high: "text-red-400",
+} as const;
+
 interface EnhancedDashboardProps {
   onBack: () => void;
 }
@@ -73,16 +101,6 @@ const EVENT_ICONS: Record<EventType, any> = {
   TRAFFIC_JAM: Clock,
 };
 
-// Event type ID to key mapping
-const EVENT_TYPE_MAP: Record<number, EventType> = {
-  0: "ACCIDENT",
-  1: "ROAD_CLOSURE",
-  2: "PROTEST",
-  3: "POLICE_ACTIVITY",
-  4: "HAZARD",
-  5: "TRAFFIC_JAM",
-};
-
 // Cities for exploration
 const CITIES = [
   { name: "Mexico City", lat: 19.4326, lng: -99.1332 },
@@ -108,6 +126,9 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [showReportSheet, setShowReportSheet] = useState(false);
   const [showReportDetail, setShowReportDetail] = useState(false);
+  const { details: reportDetails, isLoading: isLoadingDetails } = useReportDetails(
+    showReportDetail && selectedReport ? selectedReport.id : null
+  );
   const [filterType, setFilterType] = useState<EventType | "ALL">("ALL");
   const [showHeatmap, setShowHeatmap] = useState(false);
   const [hoveredReport, setHoveredReport] = useState<number | null>(null);
@@ -152,20 +173,8 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
 
       if (data.reports && data.reports.length > 0) {
         // Transform API response to ReportMarker format
-        const transformedReports: ReportMarker[] = data.reports
-          .map((r: any) => ({
-            id: r.id,
-            lat: r.lat,
-            lng: r.lng,
-            eventType: EVENT_TYPE_MAP[r.eventType] || "ACCIDENT",
-            confirmationCount: r.confirmationCount || 0,
-            totalRegards: r.totalRegards || "0",
-            stakeAmount: r.stakeAmount || 0,
-            commitment: r.commitment,
-            txHash: r.txHash,
-            timestamp: r.timestamp ? r.timestamp * 1000 : Date.now(),
-            expiresAt: r.expiresAt || 0,
-          })); // Show all reports from chain (no client-side expiration filter)
+        // Show all reports from chain (no client-side expiration filter)
+        const transformedReports: ReportMarker[] = data.reports.map(toReportMarker);
         setReports(transformedReports);
       } else {
         setReports([]);
@@ -267,6 +276,9 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
     fetchReports(city.lat, city.lng);
   }, [fetchReports]);
 
+  // Route inputs suggest places in view first
+  const getMapViewport = useCallback(() => mapRef.current?.getViewport() ?? null, []);
+
   // Handle route calculation
   const handleCalculateRoute = useCallback(async () => {
     if (!routeOrigin || !routeDestination) {
@@ -291,6 +303,19 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
     }
   }, [routeOrigin, routeDestination]);
 
+  // Risk of each route and the one to take
+  const recommendation = useMemo(
+    () => (routeResult ? recommendRoute(routeResult.routes.map(toScorableRoute), { now: Date.now() }) : null),
+    [routeResult]
+  );
+
+  // Start each new set of routes on the recommended one
+  useEffect(() => {
+    if (!recommendation) return;
+    setSelectedRouteIndices(new Set([recommendation.index]));
+    mapRef.current?.selectRoutes([recommendation.index]);
+  }, [recommendation]);
+
   // Handle clear route
   const handleClearRoute = useCallback(() => {
     mapRef.current?.clearRoute();
@@ -838,6 +863,7 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                               onChange={setRouteOrigin}
                               placeholder="Where from?"
                               showMyLocation={true}
+                              getViewport={getMapViewport}
                             />
                           </div>
                         </div>
@@ -849,6 +875,7 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                               value={routeDestination}
                               onChange={setRouteDestination}
                               placeholder="Where to?"
+                              getViewport={getMapViewport}
                             />
                           </div>
                         </div>
@@ -914,6 +941,19 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                             </div>
                           </div>
 
+                          {/* Recommendation */}
+                          {recommendation && (
+                            <div className="mb-5 sm:mb-4 p-4 sm:p-3 bg-green-500/10 border border-green-500/30 rounded-xl flex gap-3">
+                              <ShieldCheck className="w-6 h-6 sm:w-5 sm:h-5 text-green-400 flex-shrink-0" />
+                              <div>
+                                <div className="text-white font-bold text-base sm:text-sm">
+                                  Recommended: {routeResult.routes[recommendation.index].summary || `Route ${recommendation.index + 1}`}
+                                </div>
+                                <p className="text-sm sm:text-xs text-gray-400 mt-1">{recommendation.explanation}</p>
+                              </div>
+                            </div>
+                          )}
+
                           {/* Route Cards - Optimized for touch */}
                           <div className="space-y-4 sm:space-y-3">
                             {routeResult.routes.map((route, idx) => {
@@ -921,6 +961,7 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                               const isFastest = route.durationValue === Math.min(...routeResult.routes.map(r => r.durationValue));
                               const isShortest = route.distanceValue === Math.min(...routeResult.routes.map(r => r.distanceValue));
                               const isSafest = route.hazardCount === Math.min(...routeResult.routes.map(r => r.hazardCount));
+                              const risk = recommendation?.risks[idx];
                               const routeColors = ["#65B3AE", "#8B5CF6", "#F59E0B", "#EC4899", "#10B981"];
                               const routeColor = routeColors[idx % routeColors.length];
 
@@ -960,6 +1001,7 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                                       <div className="flex-1 min-w-0">
                                         <div className="font-bold text-white text-lg sm:text-base truncate">{route.summary || `Route ${idx + 1}`}</div>
                                         <div className="flex gap-2 sm:gap-1 mt-2 sm:mt-1 flex-wrap">
+                                          {recommendation?.index === idx && <span className="text-xs sm:text-[10px] bg-mantle-accent text-black px-2.5 sm:px-2 py-1 sm:py-0.5 rounded-full sm:rounded font-medium">RECOMMENDED</span>}
                                           {isFastest && <span className="text-xs sm:text-[10px] bg-blue-500 text-white px-2.5 sm:px-2 py-1 sm:py-0.5 rounded-full sm:rounded font-medium">FASTEST</span>}
                                           {isShortest && <span className="text-xs sm:text-[10px] bg-purple-500 text-white px-2.5 sm:px-2 py-1 sm:py-0.5 rounded-full sm:rounded font-medium">SHORTEST</span>}
                                           {isSafest && route.hazardCount === 0 && <span className="text-xs sm:text-[10px] bg-green-500 text-white px-2.5 sm:px-2 py-1 sm:py-0.5 rounded-full sm:rounded font-medium">SAFEST</span>}
@@ -993,6 +1035,19 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                                       </div>
                                     </div>
 
+                                    {/* Risk */}
+                                    {risk && (
+                                      <div className="text-sm sm:text-xs text-gray-400 mb-4 sm:mb-3 flex items-center gap-2">
+                                        <ShieldAlert className={`w-4 h-4 sm:w-3 sm:h-3 flex-shrink-0 ${RISK_LEVEL_COLORS[risk.level]}`} />
+                                        <span>
+                                          <span className={`font-bold uppercase ${RISK_LEVEL_COLORS[risk.level]}`}>
+                                            {risk.level === "none" ? "No risk" : `${risk.level} risk`}
+                                          </span>
+                                          {risk.score > 0 && <> · {risk.explanation}</>}
+                                        </span>
+                                      </div>
+                                    )}
+
                                     {/* Traffic info */}
                                     {route.durationInTraffic && (
                                       <div className="text-sm sm:text-xs text-gray-400 mb-4 sm:mb-3 flex items-center gap-2">
@@ -1402,6 +1457,7 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                       onChange={setRouteOrigin}
                       placeholder="Where from?"
                       showMyLocation={true}
+                      getViewport={getMapViewport}
                     />
                   </div>
                 </div>
@@ -1412,6 +1468,7 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                       value={routeDestination}
                       onChange={setRouteDestination}
                       placeholder="Where to?"
+                      getViewport={getMapViewport}
                     />
                   </div>
                 </div>
@@ -1468,6 +1525,18 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                     </p>
                   </div>
 
+                  {recommendation && (
+                    <div className="p-3 rounded-xl bg-green-500/10 border border-green-500/30 flex gap-3">
+                      <ShieldCheck className="w-5 h-5 text-green-400 flex-shrink-0" />
+                      <div>
+                        <p className="text-sm font-bold text-white">
+                          Recommended: {routeResult.routes[recommendation.index].summary || `Route ${recommendation.index + 1}`}
+                        </p>
+                        <p className="text-xs text-mantle-text-tertiary mt-1">{recommendation.explanation}</p>
+                      </div>
+                    </div>
+                  )}
+
                   {routeResult.routes.map((route, index) => (
                     <div
                       key={index}
@@ -1485,6 +1554,11 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                             style={{ backgroundColor: route.color }}
                           />
                           <span className="font-bold text-white">{route.summary}</span>
+                          {recommendation?.index === index && (
+                            <span className="text-[10px] bg-mantle-accent text-black px-2 py-0.5 rounded font-medium">
+                              RECOMMENDED
+                            </span>
+                          )}
                         </div>
                         <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
                           selectedRouteIndices.has(index) ? "border-mantle-accent bg-mantle-accent" : "border-white/30"
@@ -1633,6 +1707,75 @@ export default function EnhancedDashboard({ onBack }: EnhancedDashboardProps) {
                         </div>
                       </div>
 
+                      {/* Reporter's description and photos (stored off-chain, hash anchored in the tx) */}
+                      {isLoadingDetails ? (
+                        <div className="p-4 rounded-xl bg-mantle-bg-tertiary flex items-center gap-2 text-sm text-mantle-text-tertiary">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Loading details...
+                        </div>
+                      ) : (
+                        reportDetails && (
+                          <div className="p-4 rounded-xl bg-mantle-bg-tertiary space-y-3">
+                            {reportDetails.description && (
+                              <p className="text-sm text-white whitespace-pre-line break-words">
+                                {reportDetails.description}
+                              </p>
+                            )}
+                            {reportDetails.photos.length > 0 && (
+                              <div className="grid grid-cols-3 gap-2">
+                                {reportDetails.photos.map((photo, i) => {
+                                  // Thumbnail in the grid, full size on click; older uploads have no variants
+                                  const image = reportDetails.images[i];
+                                  const placeholder = image ? blurhashToDataUrl(image.blurhash) : undefined;
+                                  return (
+                                    <a
+                                      key={photo}
+                                      href={image?.variants.full.url ?? photo}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                    >
+                                      <Image
+                                        src={image?.variants.thumb.url ?? photo}
+                                        alt="Report photo"
+                                        width={160}
+                                        height={160}
+                                        unoptimized
+                                        placeholder={placeholder ? "blur" : "empty"}
+                                        blurDataURL={placeholder}
+                                        className="w-full aspect-square object-cover rounded-lg"
+                                      />
+                                    </a>
+                                  );
+                                })}
+                              </div>
+                            )}
+                            {reportDetails.images.some((image) => image?.redaction?.automatic) && (
+                              <div className="flex items-center gap-1 text-[11px] text-mantle-text-tertiary">
+                                <EyeOff className="w-3 h-3" />
+                                Faces and plates were blurred before publishing
+                              </div>
+                            )}
+                            {reportDetails.integrity.contentMatches && reportDetails.integrity.anchored !== false ? (
+                              <div className="flex items-center gap-1 text-[11px] text-mantle-text-tertiary">
+                                <CheckCircle2 className="w-3 h-3 text-green-400" />
+                                {reportDetails.integrity.anchored
+                                  ? "Matches the hash anchored on-chain"
+                                  : "Matches its stored hash (chain check unavailable)"}
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-1 text-[11px] text-red-400">
+                                <ShieldAlert className="w-3 h-3" />
+                                Modified after submission: does not match the hash anchored on-chain
+                              </div>
+                            )}
+                          </div>
+                        )
+                      )}
+
+                      {!isLoadingDetails && (
+                        <ReportComments reportId={selectedReport.id} commentKey={reportDetails?.commentKey ?? null} />
+                      )}
+
                       {/* Navigate Button */}
                       <a
                         href={`https://www.google.com/maps/dir/?api=1&destination=${selectedReport.lat},${selectedReport.lng}`}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { MessageSquare, Shield, BadgeCheck, ThumbsUp, Heart, Flag, Reply, X, Loader2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useReportComments, useReporterIdentity } from "@/hooks/useRoadGuard";
+import { commentMessage, type CommentSigner } from "@/lib/comments/signatures";
+import {
+  COMMENT_FLAG_REASONS,
+  MAX_COMMENT_DEPTH,
+  MAX_COMMENT_LENGTH,
+  type Comment,
+  type CommentFlagReason,
+  type CommentReaction,
+} from "@/lib/comments/store";
+import { cn } from "@/utils/cn";
+
+interface ReportCommentsProps {
+  reportId: number;
+  /** The report's registered comment key; reporter signatures need one */
+  commentKey: `0x${string}` | null;
+}
+
+const FLAG_REASON_LABELS: Record<CommentFlagReason, string> = {
+  abuse: "Abusive",
+  doxxing: "Personal info",
+  spam: "Spam",
+  misleading: "Misleading",
+  other: "Other",
+};
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** A reaction's count, with the wallet-signed share shown apart (device reactors are free to mint) */
+function ReactionCount({ comment, reaction }: { comment: Comment; reaction: CommentReaction }) {
+  const wallets = comment.walletReactions[reaction];
+  return (
+    <>
+      {comment.reactions[reaction]}
+      {wallets > 0 && (
+        <span className="flex items-center gap-0.5 text-green-400" title={`${wallets} signed by wallets`}>
+          <BadgeCheck className="w-3 h-3" />
+          {wallets}
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Comments on a report. Commenters post anonymously, signed with their
+ * wallet, or, on the device that made the report, as its reporter. Replies
+ * are indented under the comment they answer. Anyone can flag a comment for
+ * moderators.
+ */
+export function ReportComments({ reportId, commentKey }: ReportCommentsProps) {
+  const { comments, total, hasMore, loadMore, post, react, flag, isLoading, isPosting, error } =
+    useReportComments(reportId);
+  const { isReporterOf, signAsReporter } = useReporterIdentity();
+  const { address, isConnected } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [text, setText] = useState("");
+  const [postAs, setPostAs] = useState<CommentSigner | "anonymous">("anonymous");
+  const [signError, setSignError] = useState<string | null>(null);
+  const [flagging, setFlagging] = useState<string | null>(null);
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+
+  const canSignAsReporter = !!commentKey && isReporterOf(reportId);
+  const options: { value: CommentSigner | "anonymous"; label: string }[] = [
+    { value: "anonymous", label: "Anonymous" },
+    ...(isConnected && address ? [{ value: "wallet" as const, label: shortAddress(address) }] : []),
+    ...(canSignAsReporter ? [{ value: "reporter" as const, label: "Reporter" }] : []),
+  ];
+  const selected = options.some((option) => option.value === postAs) ? postAs : "anonymous";
+
+  const handlePost = async () => {
+    if (!text.trim()) return;
+    setSignError(null);
+    try {
+      let proof = null;
+      if (selected === "reporter") {
+        proof = await signAsReporter(reportId, text);
+      } else if (selected === "wallet" && address) {
+        const signedAt = Date.now();
+        const signature = await signMessageAsync({ message: commentMessage({ reportId, text, signedAt }) });
+        proof = { signer: "wallet" as const, signedAt, signature, address };
+      }
+      await post(text, proof, replyTo?.id);
+      setText("");
+      setReplyTo(null);
+    } catch (e: any) {
+      // Rejected in the wallet, or refused by the server (shown via `error`)
+      if (e?.name === "UserRejectedRequestError") setSignError("Signature request was rejected");
+      console.error("Comment error:", e);
+    }
+  };
+
+  const handleFlag = async (commentId: string, reason: CommentFlagReason) => {
+    setFlagging(null);
+    if (await flag(commentId, reason)) setFlagged((current) => [...current, commentId]);
+  };
+
+  const renderComment = (comment: Comment) => (
+    <li
+      key={comment.id}
+      className="p-3 rounded-lg bg-mantle-bg-secondary space-y-1"
+      style={{ marginLeft: `${comment.depth * 12}px` }}
+    >
+      <div className="flex items-center gap-2 text-[11px] text-mantle-text-tertiary">
+        {comment.signedBy === "reporter" ? (
+          <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300">
+            <Shield className="w-3 h-3" />
+            Reporter
+          </span>
+        ) : comment.signedBy === "wallet" ? (
+          <span className="flex items-center gap-1 font-mono text-mantle-text-secondary" title={comment.author}>
+            <BadgeCheck className="w-3 h-3 text-green-400" />
+            {shortAddress(comment.author)}
+          </span>
+        ) : (
+          <span>Anonymous</span>
+        )}
+        <span>{new Date(comment.timestamp).toLocaleString()}</span>
+      </div>
+      <p className="text-sm text-white whitespace-pre-line break-words">{comment.text}</p>
+      <div className="flex gap-3 text-[11px] text-mantle-text-tertiary">
+        <button
+          type="button"
+          onClick={() => react(comment.id, "helpful")}
+          aria-pressed={comment.viewerReacted.helpful}
+          className={cn("flex items-center gap-1 hover:text-white", comment.viewerReacted.helpful && "text-mantle-accent")}
+        >
+          <ThumbsUp className={cn("w-3 h-3", comment.viewerReacted.helpful && "fill-current")} />
+          <ReactionCount comment={comment} reaction="helpful" />
+        </button>
+        <button
+          type="button"
+          onClick={() => react(comment.id, "thankyou")}
+          aria-pressed={comment.viewerReacted.thankyou}
+          className={cn("flex items-center gap-1 hover:text-white", comment.viewerReacted.thankyou && "text-red-400")}
+        >
+          <Heart className={cn("w-3 h-3", comment.viewerReacted.thankyou && "fill-current")} />
+          <ReactionCount comment={comment} reaction="thankyou" />
+        </button>
+        {comment.depth < MAX_COMMENT_DEPTH && (
+          <button
+            type="button"
+            onClick={() => setReplyTo(comment)}
+            className="flex items-center gap-1 hover:text-white"
+          >
+            <Reply className="w-3 h-3" />
+            Reply
+          </button>
+        )}
+        {flagged.includes(comment.id) ? (
+          <span className="ml-auto">Reported</span>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setFlagging(flagging === comment.id ? null : comment.id)}
+            className="ml-auto flex items-center gap-1 hover:text-white"
+            title="Report to moderators"
+          >
+            <Flag className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {flagging === comment.id && (
+        <div className="flex gap-1 flex-wrap pt-1">
+          {COMMENT_FLAG_REASONS.map((reason) => (
+            <button
+              key={reason}
+              type="button"
+              onClick={() => handleFlag(comment.id, reason)}
+              className="px-2 py-1 rounded-md text-[11px] bg-red-500/10 text-red-300 hover:bg-red-500/20"
+            >
+              {FLAG_REASON_LABELS[reason]}
+            </button>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="p-4 rounded-xl bg-mantle-bg-tertiary space-y-3">
+      <div className="flex items-center gap-2 text-sm font-semibold text-white">
+        <MessageSquare className="w-4 h-4" />
+        Comments {total > 0 && <span className="text-mantle-text-tertiary font-normal">({total})</span>}
+      </div>
+
+      <div className="space-y-2">
+        {replyTo && (
+          <div className="flex items-center justify-between text-[11px] text-mantle-text-tertiary">
+            <span className="truncate">
+              Replying to <span className="text-mantle-text-secondary">{replyTo.text.slice(0, 60)}</span>
+            </span>
+            <button type="button" onClick={() => setReplyTo(null)} className="hover:text-white" title="Cancel reply">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={2}
+          placeholder={replyTo ? "Write a reply..." : "Add a comment..."}
+          className="w-full bg-mantle-bg-secondary border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-mantle-text-tertiary focus:outline-none focus:border-mantle-accent resize-none"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-1 flex-wrap">
+            {options.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setPostAs(option.value)}
+                className={cn(
+                  "px-2 py-1 rounded-md text-[11px] transition-colors",
+                  selected === option.value
+                    ? "bg-mantle-accent/20 text-mantle-accent"
+                    : "text-mantle-text-tertiary hover:text-white"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <Button size="sm" variant="primary" onClick={handlePost} disabled={!text.trim()} loading={isPosting}>
+            {selected === "anonymous" ? "Post" : "Sign & post"}
+          </Button>
+        </div>
+        {(signError || error) && (
+          <p className="text-[11px] text-red-400 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {signError ?? error?.message}
+          </p>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {comments.flatMap((thread) => [thread, ...thread.replies]).map(renderComment)}
+      </ul>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-mantle-text-tertiary">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Loading comments...
+        </div>
+      ) : (
+        hasMore && (
+          <Button size="sm" variant="secondary" fullWidth onClick={loadMore}>
+            Show more
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Eye, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { useReporterIdentity } from "@/hooks/useRoadGuard";
+
+const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+/**
+ * Backup options for an unlocked identity: the recovery phrase, shown on
+ * request, and an encrypted file listing every report commitment used.
+ */
+export function IdentityBackup() {
+  const { getRecoveryPhrase, exportBackup, reportCount } = useReporterIdentity();
+  const [phrase, setPhrase] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const passwordValid = password.length >= MIN_BACKUP_PASSWORD_LENGTH && password === confirmPassword;
+
+  const handleExport = async () => {
+    if (!passwordValid) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const backup = await exportBackup(password);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `roadguard-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setPassword("");
+      setConfirmPassword("");
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-body-sm font-medium text-mantle-text-primary">Recovery phrase</p>
+        <p className="text-label-md text-mantle-text-tertiary">
+          These 24 words restore your identity and all its rewards. Write them down and keep them offline.
+        </p>
+        {phrase ? (
+          <ol className="grid grid-cols-3 gap-1 p-3 bg-mantle-bg-tertiary rounded-lg text-xs font-mono text-mantle-text-secondary">
+            {phrase.split(" ").map((word, i) => (
+              <li key={i}>
+                <span className="text-mantle-text-tertiary">{i + 1}.</span> {word}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={() => setPhrase(getRecoveryPhrase())}>
+            <Eye className="w-4 h-4" />
+            Show recovery phrase
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-body-sm font-medium text-mantle-text-primary">Backup file</p>
+        <p className="text-label-md text-mantle-text-tertiary">
+          An encrypted file with your identity and the {reportCount} report commitment
+          {reportCount === 1 ? "" : "s"} used on this device.
+        </p>
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder={`Backup password (at least ${MIN_BACKUP_PASSWORD_LENGTH} characters)`}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Repeat the password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          error={confirmPassword && password !== confirmPassword ? "Passwords don't match" : undefined}
+        />
+        {error && (
+          <p className="text-label-sm text-mantle-error flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+        <Button variant="secondary" fullWidth onClick={handleExport} disabled={!passwordValid} loading={isExporting}>
+          <Download className="w-4 h-4" />
+          Download backup
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { Upload, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { useRestoreIdentity } from "@/hooks/useRoadGuard";
+import { VAULT_MIN_PIN_LENGTH } from "@/lib/vault";
+
+interface IdentityRestoreProps {
+  source: "passphrase" | "phrase" | "file";
+  onRestored?: (reportCount: number) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Restore an identity from its passphrase, recovery phrase or an encrypted
+ * backup file, under a new PIN. The chain is rescanned for report
+ * commitments afterwards.
+ */
+export function IdentityRestore({ source, onRestored, onCancel }: IdentityRestoreProps) {
+  const { restore, isRestoring, error } = useRestoreIdentity();
+  const [passphrase, setPassphrase] = useState("");
+  const [mnemonic, setMnemonic] = useState("");
+  const [backup, setBackup] = useState<unknown>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [pin, setPin] = useState("");
+
+  const ready =
+    pin.length >= VAULT_MIN_PIN_LENGTH &&
+    (source === "passphrase"
+      ? passphrase.length >= 8
+      : source === "phrase"
+        ? mnemonic.trim().length > 0
+        : !!backup && !!password);
+
+  const handleFile = async (file: File | undefined) => {
+    setBackup(null);
+    setFileError(null);
+    if (!file) return;
+    try {
+      setBackup(JSON.parse(await file.text()));
+    } catch {
+      setFileError("Could not read this file");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!ready) return;
+    try {
+      const { reportCount } =
+        source === "passphrase"
+          ? await restore({ passphrase, pin })
+          : source === "phrase"
+            ? await restore({ mnemonic, pin })
+            : await restore({ backup, password, pin });
+      setPassphrase("");
+      setMnemonic("");
+      setPassword("");
+      setPin("");
+      onRestored?.(reportCount);
+    } catch (e) {
+      console.error("Restore error:", e);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {source === "passphrase" ? (
+        <>
+          <p className="text-body-sm text-mantle-text-secondary">
+            Enter your passphrase to recover your identity and access pending rewards.
+          </p>
+          <Input
+            type="password"
+            placeholder="Enter your passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </>
+      ) : source === "phrase" ? (
+        <>
+          <p className="text-body-sm text-mantle-text-secondary">Enter your 24-word recovery phrase.</p>
+          <textarea
+            value={mnemonic}
+            onChange={(e) => setMnemonic(e.target.value)}
+            placeholder="word1 word2 word3 ..."
+            rows={3}
+            autoComplete="off"
+            spellCheck={false}
+            className="w-full bg-mantle-bg-tertiary border border-white/10 rounded-xl px-4 py-3 text-mantle-text-primary placeholder:text-mantle-text-tertiary focus:outline-none focus:border-mantle-accent resize-none font-mono text-sm"
+          />
+        </>
+      ) : (
+        <>
+          <p className="text-body-sm text-mantle-text-secondary">Choose your backup file and enter its password.</p>
+          <label className="flex items-center justify-center gap-2 p-4 border border-dashed border-white/20 rounded-xl cursor-pointer text-body-sm text-mantle-text-secondary hover:border-mantle-accent">
+            <Upload className="w-4 h-4" />
+            {backup ? "Backup file selected" : "Select backup file"}
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          {fileError && (
+            <p className="text-label-sm text-mantle-error flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              {fileError}
+            </p>
+          )}
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="Backup password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </>
+      )}
+
+      <Input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        placeholder={`Choose a PIN (at least ${VAULT_MIN_PIN_LENGTH} characters)`}
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        hint="Encrypts your identity on this device"
+        error={error?.message}
+      />
+
+      <div className="flex gap-2">
+        <Button variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleRestore} disabled={!ready} loading={isRestoring} className="flex-1">
+          {isRestoring ? "Scanning for reports..." : "Restore"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { Lock, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { useReporterIdentity } from "@/hooks/useRoadGuard";
+import { VAULT_MIN_PIN_LENGTH } from "@/lib/vault";
+
+interface IdentityUnlockProps {
+  onUnlocked?: () => void;
+}
+
+/**
+ * PIN prompt for a locked identity vault. Identities stored before the vault
+ * existed are encrypted under the PIN entered here.
+ */
+export function IdentityUnlock({ onUnlocked }: IdentityUnlockProps) {
+  const { status, unlock, clearIdentity } = useReporterIdentity();
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const isMigration = status === "legacy";
+
+  const handleUnlock = async () => {
+    if (pin.length < VAULT_MIN_PIN_LENGTH) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(pin);
+      setPin("");
+      onUnlocked?.();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-3">
+        <Lock className="w-5 h-5 text-mantle-accent flex-shrink-0 mt-0.5" />
+        <p className="text-body-sm text-mantle-text-secondary">
+          {isMigration
+            ? "Your identity is stored unencrypted on this device. Set a PIN to encrypt it."
+            : "Your identity is locked. Enter your PIN to continue."}
+        </p>
+      </div>
+
+      <Input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        label={isMigration ? "New PIN" : "PIN"}
+        placeholder={`At least ${VAULT_MIN_PIN_LENGTH} characters`}
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+      />
+
+      {error && (
+        <p className="text-label-sm text-mantle-error flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <Button
+        variant="primary"
+        fullWidth
+        onClick={handleUnlock}
+        disabled={pin.length < VAULT_MIN_PIN_LENGTH}
+        loading={isUnlocking}
+      >
+        {isMigration ? "Set PIN" : "Unlock"}
+      </Button>
+
+      {!isMigration && (
+        <button
+          onClick={() => clearIdentity()}
+          className="w-full text-label-md text-mantle-text-tertiary hover:text-mantle-text-secondary"
+        >
+          Forgot your PIN? Remove the identity and recover it with your passphrase.
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Paintbrush, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import type { ImageRegion } from "@/lib/media/redaction";
+
+interface PhotoBlurEditorProps {
+  /** Local preview of the photo; browsers display it upright, as the server stores it */
+  src: string;
+  regions: ImageRegion[];
+  onSave: (regions: ImageRegion[]) => void;
+  onCancel: () => void;
+}
+
+/** Drags smaller than this (fraction of the photo) are taps, not regions */
+const MIN_REGION_SIZE = 0.02;
+
+const MAX_REGIONS = 20;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function regionBetween(a: { x: number; y: number }, b: { x: number; y: number }): ImageRegion {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/**
+ * Drag over a photo to mark areas to blur before it is uploaded. Regions are
+ * fractions of the photo, so they hold at any display size; the server
+ * blurs them along with the faces and plates it finds itself.
+ */
+export function PhotoBlurEditor({ src, regions: initialRegions, onSave, onCancel }: PhotoBlurEditorProps) {
+  const [regions, setRegions] = useState(initialRegions);
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [current, setCurrent] = useState<{ x: number; y: number } | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (regions.length >= MAX_REGIONS) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setStart(point);
+    setCurrent(point);
+  };
+
+  const handlePointerUp = () => {
+    if (start && current) {
+      const region = regionBetween(start, current);
+      if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+        setRegions((prev) => [...prev, region]);
+      }
+    }
+    setStart(null);
+    setCurrent(null);
+  };
+
+  const drawing = start && current ? regionBetween(start, current) : null;
+  const box = (region: ImageRegion) => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-body-sm text-mantle-text-secondary flex items-center gap-2">
+        <Paintbrush className="w-4 h-4 text-mantle-accent" />
+        Drag over faces, plates or anything else to blur it
+      </p>
+
+      <div
+        ref={areaRef}
+        className="relative select-none touch-none cursor-crosshair rounded-lg overflow-hidden"
+        onPointerDown={handlePointerDown}
+        onPointerMove={(e) => start && setCurrent(pointAt(e))}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element -- local object URL */}
+        <img src={src} alt="Photo to blur" draggable={false} className="w-full max-h-[50vh] object-contain" />
+        {regions.map((region, i) => (
+          <div
+            key={i}
+            style={box(region)}
+            className="absolute backdrop-blur-md bg-white/10 border border-mantle-accent rounded-sm"
+          >
+            <button
+              type="button"
+              aria-label="Remove blur region"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => setRegions((prev) => prev.filter((_, j) => j !== i))}
+              className="absolute -top-2 -right-2 p-0.5 bg-red-500 rounded-full"
+            >
+              <X className="w-3 h-3 text-white" />
+            </button>
+          </div>
+        ))}
+        {drawing && (
+          <div style={box(drawing)} className="absolute border-2 border-dashed border-mantle-accent bg-mantle-accent/20" />
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setRegions((prev) => prev.slice(0, -1))}
+          disabled={regions.length === 0}
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </Button>
+        <div className="flex-1" />
+        <Button variant="secondary" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={() => onSave(regions)}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
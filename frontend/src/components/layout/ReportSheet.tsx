@@ -18,6 +18,7 @@ import {
   Clock,
   Camera,
   X,
+  Paintbrush,
   Upload,
   Loader2,
   Image as ImageIcon,
@@ -28,7 +29,15 @@ import Image from "next/image";
 import { BottomSheet, Modal } from "@/components/ui/Modal";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { useSubmitReport, useReporterIdentity } from "@/hooks/useRoadGuard";
+import { IdentityUnlock } from "@/components/layout/IdentityUnlock";
+import { useSubmitReport, useReporterIdentity, formatRelayDelay } from "@/hooks/useRoadGuard";
+import { VAULT_MIN_PIN_LENGTH } from "@/lib/vault";
+import { blurhashToDataUrl } from "@/lib/blurhash";
+import type { UploadedPhoto } from "@/lib/media/store";
+import type { ImageRegion } from "@/lib/media/redaction";
+import { reverseGeocode, searchPlaces, suggestPlaces } from "@/lib/geocode/client";
+import type { Place } from "@/lib/geocode/provider";
+import { PhotoBlurEditor } from "@/components/layout/PhotoBlurEditor";
 import { EVENT_TYPES, EventType } from "@/components/map/GoogleMap";
 import { cn } from "@/utils/cn";
 
@@ -59,84 +68,111 @@ export default function ReportSheet({
   onSuccess,
 }: ReportSheetProps) {
   const { isConnected } = useAccount();
-  const { identity, createIdentity, loadIdentity } = useReporterIdentity();
-  const { submitReport, isPending, isConfirming, isSuccess, error, hash } = useSubmitReport();
+  const { identity, isLocked, createIdentity, loadIdentity, nextReportIdentity, recordReport } = useReporterIdentity();
+  const { submitReport, isPending, isConfirming, isSuccess, error, hash, expectedDelaySeconds } =
+    useSubmitReport();
 
   const [step, setStep] = useState<"type" | "details" | "privacy" | "stake" | "success">("type");
   const [eventType, setEventType] = useState<EventType>("ACCIDENT");
   const [description, setDescription] = useState("");
   const [passphrase, setPassphrase] = useState("");
+  const [pin, setPin] = useState("");
+  const [identityError, setIdentityError] = useState<string | null>(null);
   const [stakeAmount, setStakeAmount] = useState(MIN_STAKE);
   const [isMobile, setIsMobile] = useState(false);
 
   // Location search state
   const [locationSearch, setLocationSearch] = useState("");
-  const [locationSuggestions, setLocationSuggestions] = useState<google.maps.places.AutocompletePrediction[]>([]);
+  const [locationSuggestions, setLocationSuggestions] = useState<Place[]>([]);
   const [isSearchingLocation, setIsSearchingLocation] = useState(false);
   const [showLocationSearch, setShowLocationSearch] = useState(false);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
-  const autocompleteService = useRef<google.maps.places.AutocompleteService | null>(null);
-  const placesService = useRef<google.maps.places.PlacesService | null>(null);
-  const geocoder = useRef<google.maps.Geocoder | null>(null);
+  // The geocoder only answers explicit searches, so wait for Enter
+  const [searchOnSubmit, setSearchOnSubmit] = useState(false);
   const searchDebounce = useRef<NodeJS.Timeout | null>(null);
-
-  // Photo upload state
-  const [photos, setPhotos] = useState<{ file: File; preview: string; url?: string }[]>([]);
+  const searchRequest = useRef<AbortController | null>(null);
+
+  // Photo upload state. Photos stay on the device until the details step is
+  // done, so regions painted to blur are applied before anything is stored.
+  const [photos, setPhotos] = useState<
+    {
+      file: File;
+      preview: string;
+      regions: ImageRegion[];
+      url?: string;
+      image?: UploadedPhoto;
+      placeholder?: string;
+    }[]
+  >([]);
+  const [editingPhoto, setEditingPhoto] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Photo upload handler
-  const uploadPhoto = useCallback(async (file: File) => {
-    setIsUploading(true);
-    setUploadError(null);
-
-    // Create preview
-    const preview = URL.createObjectURL(file);
-    const photoEntry = { file, preview };
-    setPhotos(prev => [...prev, photoEntry]);
+  const uploadPhoto = useCallback(async (file: File, regions: ImageRegion[]) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    if (regions.length > 0) formData.append("blurRegions", JSON.stringify(regions));
+
+    const res = await fetch("/api/upload", {
+      method: "POST",
+      body: formData,
+    });
 
-    try {
-      const formData = new FormData();
-      formData.append("file", file);
+    const data = await res.json();
 
-      const res = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
+    if (!res.ok) {
+      throw new Error(data.error || "Upload failed");
+    }
 
-      const data = await res.json();
+    const image: UploadedPhoto = {
+      url: data.url,
+      width: data.width,
+      height: data.height,
+      blurhash: data.blurhash,
+      variants: data.variants,
+      redaction: data.redaction,
+    };
+    return image;
+  }, []);
 
-      if (!res.ok) {
-        throw new Error(data.error || "Upload failed");
+  // Upload the photos not uploaded yet; false if any failed
+  const uploadPendingPhotos = useCallback(async () => {
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      for (const photo of photos) {
+        if (photo.url) continue;
+        const image = await uploadPhoto(photo.file, photo.regions);
+        // Update with uploaded URL and the variants made from it
+        const placeholder = blurhashToDataUrl(image.blurhash);
+        setPhotos(prev =>
+          prev.map(p => p.preview === photo.preview ? { ...p, url: image.url, image, placeholder } : p)
+        );
       }
-
-      // Update with uploaded URL
-      setPhotos(prev =>
-        prev.map(p => p.preview === preview ? { ...p, url: data.url } : p)
-      );
+      return true;
     } catch (err) {
       setUploadError(err instanceof Error ? err.message : "Upload failed");
-      // Remove failed upload
-      setPhotos(prev => prev.filter(p => p.preview !== preview));
-      URL.revokeObjectURL(preview);
+      return false;
     } finally {
       setIsUploading(false);
     }
-  }, []);
+  }, [photos, uploadPhoto]);
 
   const handleFileSelect = useCallback((files: FileList | null) => {
     if (!files) return;
 
     Array.from(files).slice(0, 3 - photos.length).forEach(file => {
       if (file.type.startsWith("image/") && file.size <= 5 * 1024 * 1024) {
-        uploadPhoto(file);
+        setUploadError(null);
+        setPhotos(prev => [...prev, { file, preview: URL.createObjectURL(file), regions: [] }]);
       } else {
         setUploadError("Only images up to 5MB are allowed");
       }
     });
-  }, [photos.length, uploadPhoto]);
+  }, [photos.length]);
 
   const removePhoto = useCallback((preview: string) => {
     setPhotos(prev => {
@@ -181,84 +217,68 @@ export default function ReportSheet({
     }
   }, [isSuccess, onSuccess]);
 
-  // Track if geocoder is ready
-  const [geocoderReady, setGeocoderReady] = useState(false);
-
-  // Initialize Google Places services
+  // The vault auto-locks after inactivity; ask for the PIN again before staking
   useEffect(() => {
-    const initServices = () => {
-      if (window.google?.maps?.places) {
-        autocompleteService.current = new google.maps.places.AutocompleteService();
-        geocoder.current = new google.maps.Geocoder();
-        // PlacesService needs a DOM element
-        const div = document.createElement("div");
-        placesService.current = new google.maps.places.PlacesService(div);
-        setGeocoderReady(true);
-      } else {
-        setTimeout(initServices, 500);
-      }
-    };
-    initServices();
-  }, []);
+    if (step === "stake" && !identity && !isPending && !isConfirming) setStep("privacy");
+  }, [step, identity, isPending, isConfirming]);
 
-  // Reverse geocode when selectedLocation changes (from map click)
+  // Fill in the address of a point picked on the map
   useEffect(() => {
-    if (selectedLocation && !locationSearch && geocoderReady && geocoder.current) {
-      geocoder.current.geocode(
-        { location: { lat: selectedLocation.lat, lng: selectedLocation.lng } },
-        (results, status) => {
-          if (status === "OK" && results?.[0]) {
-            setLocationSearch(results[0].formatted_address);
-          }
-        }
-      );
-    }
-  }, [selectedLocation, locationSearch, geocoderReady]);
+    if (!selectedLocation || locationSearch) return;
+
+    const controller = new AbortController();
+    reverseGeocode(selectedLocation, controller.signal)
+      .then((place) => {
+        if (place) setLocationSearch(place.address);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error("Reverse geocoding error:", error);
+      });
+    return () => controller.abort();
+  }, [selectedLocation, locationSearch]);
 
-  // Search locations
-  const searchLocations = useCallback((query: string) => {
+  // Search locations, nearest the current pick first: as the user types
+  // where the geocoder allows it, and right away on Enter
+  const searchLocations = useCallback((query: string, explicit = false) => {
     if (searchDebounce.current) clearTimeout(searchDebounce.current);
+    searchRequest.current?.abort();
 
-    if (!query || query.length < 2) {
+    if (!query || query.trim().length < 2 || (searchOnSubmit && !explicit)) {
       setLocationSuggestions([]);
+      setIsSearchingLocation(false);
       return;
     }
 
-    setIsSearchingLocation(true);
-    searchDebounce.current = setTimeout(() => {
-      if (autocompleteService.current) {
-        autocompleteService.current.getPlacePredictions(
-          { input: query, types: ["geocode", "establishment"] },
-          (results, status) => {
-            setIsSearchingLocation(false);
-            if (status === google.maps.places.PlacesServiceStatus.OK && results) {
-              setLocationSuggestions(results);
-            } else {
-              setLocationSuggestions([]);
-            }
-          }
-        );
+    const search = async () => {
+      const controller = new AbortController();
+      searchRequest.current = controller;
+      try {
+        const options = { near: selectedLocation, signal: controller.signal };
+        const places = explicit ? await searchPlaces(query, options) : await suggestPlaces(query, options);
+        if (places === null) setSearchOnSubmit(true);
+        setLocationSuggestions(places ?? []);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Place search error:", error);
+        setLocationSuggestions([]);
       }
-    }, 300);
-  }, []);
+      setIsSearchingLocation(false);
+    };
+
+    setIsSearchingLocation(true);
+    if (explicit) {
+      search();
+    } else {
+      searchDebounce.current = setTimeout(search, 300);
+    }
+  }, [selectedLocation, searchOnSubmit]);
 
   // Select a location from suggestions
-  const selectLocation = useCallback((placeId: string, description: string) => {
-    if (!placesService.current) return;
-
-    placesService.current.getDetails(
-      { placeId, fields: ["geometry"] },
-      (place, status) => {
-        if (status === google.maps.places.PlacesServiceStatus.OK && place?.geometry?.location) {
-          const lat = place.geometry.location.lat();
-          const lng = place.geometry.location.lng();
-          onLocationChange?.({ lat, lng });
-          setLocationSearch(description);
-          setLocationSuggestions([]);
-          setShowLocationSearch(false);
-        }
-      }
-    );
+  const selectLocation = useCallback((place: Place) => {
+    onLocationChange?.({ lat: place.lat, lng: place.lng });
+    setLocationSearch(place.address);
+    setLocationSuggestions([]);
+    setShowLocationSearch(false);
   }, [onLocationChange]);
 
   // Use current location
@@ -274,18 +294,15 @@ export default function ReportSheet({
         const { latitude: lat, longitude: lng } = position.coords;
         onLocationChange?.({ lat, lng });
 
-        // Reverse geocode to get address
-        if (geocoder.current) {
-          geocoder.current.geocode({ location: { lat, lng } }, (results, status) => {
-            setIsGettingLocation(false);
-            if (status === "OK" && results?.[0]) {
-              setLocationSearch(results[0].formatted_address);
-            }
-          });
-        } else {
-          setIsGettingLocation(false);
-        }
         setShowLocationSearch(false);
+
+        // Reverse geocode to get address
+        reverseGeocode({ lat, lng })
+          .then((place) => {
+            if (place) setLocationSearch(place.address);
+          })
+          .catch((error) => console.error("Reverse geocoding error:", error))
+          .finally(() => setIsGettingLocation(false));
       },
       (error) => {
         setIsGettingLocation(false);
@@ -302,10 +319,13 @@ export default function ReportSheet({
     setEventType("ACCIDENT");
     setDescription("");
     setPassphrase("");
+    setPin("");
+    setIdentityError(null);
     setStakeAmount(MIN_STAKE);
     // Clean up photo previews
     photos.forEach(p => URL.revokeObjectURL(p.preview));
     setPhotos([]);
+    setEditingPhoto(null);
     setUploadError(null);
     // Reset location search
     setLocationSearch("");
@@ -314,23 +334,35 @@ export default function ReportSheet({
     onClose();
   };
 
-  const handleCreateIdentity = () => {
-    if (passphrase.length < 8) return;
-    createIdentity(passphrase);
-    setStep("stake");
+  const handleCreateIdentity = async () => {
+    if (passphrase.length < 8 || pin.length < VAULT_MIN_PIN_LENGTH) return;
+    try {
+      await createIdentity(passphrase, pin);
+      setIdentityError(null);
+      setStep("stake");
+    } catch (e: any) {
+      setIdentityError(e.message);
+    }
   };
 
   const handleSubmit = async () => {
     if (!selectedLocation || !identity) return;
 
     try {
-      await submitReport({
-        commitment: identity.commitment,
+      // A fresh commitment per report keeps reports from being linked on-chain
+      const reportIdentity = await nextReportIdentity();
+      const result = await submitReport({
+        commitment: reportIdentity.commitment,
         latitude: selectedLocation.lat,
         longitude: selectedLocation.lng,
         eventType: EVENT_TYPES[eventType].id as 0 | 1 | 2 | 3 | 4 | 5,
         stakeAmount: parseEther(stakeAmount),
+        description,
+        photos: photos.flatMap((photo) => (photo.url ? [photo.url] : [])),
+        // Lets this device sign comments on the report as its reporter
+        commentKey: reportIdentity.commentKey,
       });
+      if (result.reportId !== null) recordReport(reportIdentity.index, result.reportId);
     } catch (e) {
       console.error("Submit error:", e);
     }
@@ -371,8 +403,15 @@ export default function ReportSheet({
                       searchLocations(e.target.value);
                       setShowLocationSearch(true);
                     }}
+                    onKeyDown={(e) => {
+                      if (e.key !== "Enter") return;
+                      e.preventDefault();
+                      searchLocations(locationSearch, true);
+                      setShowLocationSearch(true);
+                    }}
+                    enterKeyHint="search"
                     onFocus={() => locationSuggestions.length > 0 && setShowLocationSearch(true)}
-                    placeholder="Search address or place..."
+                    placeholder={searchOnSubmit ? "Search address or place, then press Enter" : "Search address or place..."}
                     className="w-full bg-mantle-bg-tertiary rounded-xl pl-10 pr-4 py-3 text-sm text-white placeholder:text-mantle-text-tertiary border border-white/10 focus:border-mantle-accent focus:outline-none"
                   />
                   {isSearchingLocation && (
@@ -398,19 +437,19 @@ export default function ReportSheet({
               {/* Suggestions Dropdown */}
               {showLocationSearch && locationSuggestions.length > 0 && (
                 <div className="absolute top-full left-0 right-0 mt-2 bg-mantle-bg-primary rounded-xl border border-white/20 shadow-2xl overflow-hidden z-50 max-h-60 overflow-y-auto">
-                  {locationSuggestions.map((suggestion) => (
+                  {locationSuggestions.map((place) => (
                     <button
-                      key={suggestion.place_id}
-                      onClick={() => selectLocation(suggestion.place_id, suggestion.description)}
+                      key={place.id}
+                      onClick={() => selectLocation(place)}
                       className="w-full px-4 py-3 flex items-start gap-3 hover:bg-mantle-accent/20 transition-colors text-left border-b border-white/5 last:border-b-0"
                     >
                       <MapPin className="w-5 h-5 text-mantle-accent mt-0.5 flex-shrink-0" />
                       <div className="min-w-0">
                         <div className="text-sm font-medium text-white truncate">
-                          {suggestion.structured_formatting.main_text}
+                          {place.name}
                         </div>
                         <div className="text-xs text-mantle-text-tertiary truncate">
-                          {suggestion.structured_formatting.secondary_text}
+                          {place.address}
                         </div>
                       </div>
                     </button>
@@ -533,72 +572,111 @@ export default function ReportSheet({
               onChange={(e) => handleFileSelect(e.target.files)}
             />
 
-            {/* Drop zone */}
-            <div
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-              onClick={() => photos.length < 3 && fileInputRef.current?.click()}
-              className={cn(
-                "border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-all",
-                isDragging
-                  ? "border-mantle-accent bg-mantle-accent/10"
-                  : "border-white/20 hover:border-mantle-accent/50 hover:bg-white/5",
-                photos.length >= 3 && "opacity-50 cursor-not-allowed"
-              )}
-            >
-              {photos.length === 0 ? (
-                <div className="py-4">
-                  <Upload className="w-8 h-8 text-mantle-text-tertiary mx-auto mb-2" />
-                  <p className="text-body-sm text-mantle-text-secondary">
-                    Drop photos here or <span className="text-mantle-accent">browse</span>
-                  </p>
-                  <p className="text-label-sm text-mantle-text-tertiary mt-1">
-                    Up to 3 photos, max 5MB each
-                  </p>
-                </div>
-              ) : (
-                <div className="flex gap-2 flex-wrap justify-center">
-                  {photos.map((photo, idx) => (
-                    <div key={photo.preview} className="relative group">
-                      <img
-                        src={photo.preview}
-                        alt={`Upload ${idx + 1}`}
-                        className="w-20 h-20 object-cover rounded-lg"
-                      />
-                      {!photo.url && (
-                        <div className="absolute inset-0 bg-black/50 rounded-lg flex items-center justify-center">
-                          <Loader2 className="w-5 h-5 text-white animate-spin" />
-                        </div>
-                      )}
-                      {photo.url && (
-                        <div className="absolute inset-0 bg-black/50 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              removePhoto(photo.preview);
-                            }}
-                            className="p-1.5 bg-red-500 rounded-full"
-                          >
-                            <X className="w-3 h-3 text-white" />
-                          </button>
-                        </div>
-                      )}
-                      {photo.url && (
-                        <div className="absolute bottom-1 right-1">
-                          <Check className="w-4 h-4 text-green-400 drop-shadow-lg" />
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                  {photos.length < 3 && (
-                    <div className="w-20 h-20 border-2 border-dashed border-white/20 rounded-lg flex items-center justify-center">
-                      <ImageIcon className="w-6 h-6 text-mantle-text-tertiary" />
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
+            {editingPhoto ? (
+              <PhotoBlurEditor
+                src={editingPhoto}
+                regions={photos.find(p => p.preview === editingPhoto)?.regions ?? []}
+                onSave={(regions) => {
+                  setPhotos(prev => prev.map(p => p.preview === editingPhoto ? { ...p, regions } : p));
+                  setEditingPhoto(null);
+                }}
+                onCancel={() => setEditingPhoto(null)}
+              />
+            ) : (
+              /* Drop zone */
+              <div
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+                onClick={() => photos.length < 3 && fileInputRef.current?.click()}
+                className={cn(
+                  "border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-all",
+                  isDragging
+                    ? "border-mantle-accent bg-mantle-accent/10"
+                    : "border-white/20 hover:border-mantle-accent/50 hover:bg-white/5",
+                  photos.length >= 3 && "opacity-50 cursor-not-allowed"
+                )}
+              >
+                {photos.length === 0 ? (
+                  <div className="py-4">
+                    <Upload className="w-8 h-8 text-mantle-text-tertiary mx-auto mb-2" />
+                    <p className="text-body-sm text-mantle-text-secondary">
+                      Drop photos here or <span className="text-mantle-accent">browse</span>
+                    </p>
+                    <p className="text-label-sm text-mantle-text-tertiary mt-1">
+                      Up to 3 photos, max 5MB each
+                    </p>
+                  </div>
+                ) : (
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {photos.map((photo, idx) => (
+                      <div key={photo.preview} className="relative group">
+                        {/* Once uploaded, show the stored thumbnail (metadata stripped, upright, blurred) over its blurhash */}
+                        <img
+                          src={photo.image?.variants.thumb.url ?? photo.preview}
+                          alt={`Upload ${idx + 1}`}
+                          className="w-20 h-20 object-cover rounded-lg bg-cover"
+                          style={photo.placeholder ? { backgroundImage: `url(${photo.placeholder})` } : undefined}
+                        />
+                        {!photo.url && isUploading && (
+                          <div className="absolute inset-0 bg-black/50 rounded-lg flex items-center justify-center">
+                            <Loader2 className="w-5 h-5 text-white animate-spin" />
+                          </div>
+                        )}
+                        {!isUploading && (
+                          <div className="absolute inset-0 bg-black/50 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-1">
+                            {!photo.url && (
+                              <button
+                                aria-label="Blur parts of this photo"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingPhoto(photo.preview);
+                                }}
+                                className="p-1.5 bg-mantle-accent rounded-full"
+                              >
+                                <Paintbrush className="w-3 h-3 text-white" />
+                              </button>
+                            )}
+                            <button
+                              aria-label="Remove photo"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removePhoto(photo.preview);
+                              }}
+                              className="p-1.5 bg-red-500 rounded-full"
+                            >
+                              <X className="w-3 h-3 text-white" />
+                            </button>
+                          </div>
+                        )}
+                        {!photo.url && photo.regions.length > 0 && (
+                          <div className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[10px] text-white flex items-center gap-0.5">
+                            <Paintbrush className="w-2.5 h-2.5" />
+                            {photo.regions.length}
+                          </div>
+                        )}
+                        {photo.url && (
+                          <div className="absolute bottom-1 right-1">
+                            <Check className="w-4 h-4 text-green-400 drop-shadow-lg" />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {photos.length < 3 && (
+                      <div className="w-20 h-20 border-2 border-dashed border-white/20 rounded-lg flex items-center justify-center">
+                        <ImageIcon className="w-6 h-6 text-mantle-text-tertiary" />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {photos.some(p => !p.url) && !editingPhoto && (
+              <p className="text-label-sm text-mantle-text-tertiary mt-2">
+                Photos upload when you continue. Use the brush to blur anything identifying first.
+              </p>
+            )}
 
             {/* Upload error */}
             {uploadError && (
@@ -615,8 +693,10 @@ export default function ReportSheet({
             </Button>
             <Button
               variant="primary"
-              onClick={() => setStep(identity ? "stake" : "privacy")}
-              disabled={isUploading}
+              onClick={async () => {
+                if (await uploadPendingPhotos()) setStep(identity ? "stake" : "privacy");
+              }}
+              disabled={isUploading || !!editingPhoto}
               className="flex-1"
             >
               {isUploading ? "Uploading..." : "Continue"}
@@ -639,28 +719,48 @@ export default function ReportSheet({
             </p>
           </div>
 
-          <Input
-            type="password"
-            label="Secret Passphrase"
-            placeholder="Enter at least 8 characters"
-            value={passphrase}
-            onChange={(e) => setPassphrase(e.target.value)}
-            hint="You'll need this to claim rewards. Keep it safe!"
-            error={passphrase.length > 0 && passphrase.length < 8 ? "Minimum 8 characters" : undefined}
-          />
+          {isLocked ? (
+            <IdentityUnlock onUnlocked={() => setStep("stake")} />
+          ) : (
+            <>
+              <Input
+                type="password"
+                label="Secret Passphrase"
+                placeholder="Enter at least 8 characters"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                hint="You'll need this to claim rewards. Keep it safe!"
+                error={passphrase.length > 0 && passphrase.length < 8 ? "Minimum 8 characters" : undefined}
+              />
+
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                label="PIN"
+                placeholder={`At least ${VAULT_MIN_PIN_LENGTH} characters`}
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                hint="Encrypts your identity on this device. You'll enter it to unlock."
+                error={identityError ?? undefined}
+              />
+            </>
+          )}
 
           <div className="flex gap-3">
             <Button variant="secondary" onClick={() => setStep("details")} className="flex-1">
               Back
             </Button>
-            <Button
-              variant="primary"
-              onClick={handleCreateIdentity}
-              disabled={passphrase.length < 8}
-              className="flex-1"
-            >
-              Continue
-            </Button>
+            {!isLocked && (
+              <Button
+                variant="primary"
+                onClick={handleCreateIdentity}
+                disabled={passphrase.length < 8 || pin.length < VAULT_MIN_PIN_LENGTH}
+                className="flex-1"
+              >
+                Continue
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -738,6 +838,17 @@ export default function ReportSheet({
             </div>
           )}
 
+          {/* Relay mixing delay */}
+          {isConfirming && !!expectedDelaySeconds && (
+            <div className="p-4 bg-mantle-bg-secondary rounded-xl flex gap-3">
+              <Clock className="w-5 h-5 text-mantle-text-tertiary flex-shrink-0 mt-0.5" />
+              <p className="text-body-sm text-mantle-text-secondary">
+                Your report is batched with others for privacy. Expected on-chain in{" "}
+                {formatRelayDelay(expectedDelaySeconds)}.
+              </p>
+            </div>
+          )}
+
           <div className="flex gap-3">
             <Button variant="secondary" onClick={() => setStep("details")} className="flex-1">
               Back
@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { useAccount } from "wagmi";
-import { formatEther } from "viem";
+import { formatEther, isAddress } from "viem";
 import {
   Gift,
   Key,
@@ -13,11 +13,23 @@ import {
   AlertCircle,
   ExternalLink,
   Trash2,
+  EyeOff,
+  Lock,
+  Shield,
 } from "lucide-react";
 import { BottomSheet, Modal } from "@/components/ui/Modal";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { usePendingRewards, useClaimRewards, useReporterIdentity } from "@/hooks/useRoadGuard";
+import { IdentityUnlock } from "@/components/layout/IdentityUnlock";
+import { IdentityBackup } from "@/components/layout/IdentityBackup";
+import { IdentityRestore } from "@/components/layout/IdentityRestore";
+import { MAX_CLAIM_BATCH } from "@/lib/relay/claim";
+import {
+  usePendingRewardsForCommitments,
+  useClaimRewards,
+  useClaimRewardsPrivately,
+  useReporterIdentity,
+} from "@/hooks/useRoadGuard";
 
 interface RewardsSheetProps {
   isOpen: boolean;
@@ -26,12 +38,28 @@ interface RewardsSheetProps {
 
 export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
   const { address, isConnected } = useAccount();
-  const { identity, loadIdentity, createIdentity, clearIdentity } = useReporterIdentity();
-  const { data: pendingRewards } = usePendingRewards(identity?.commitment);
-  const { claimRewards, isPending, isConfirming, isSuccess, error, hash } = useClaimRewards();
+  const { identity, isLocked, loadIdentity, clearIdentity, lock, claimableIdentities, reportCount } =
+    useReporterIdentity();
+  const commitments = useMemo(() => claimableIdentities.map((each) => each.commitment), [claimableIdentities]);
+  const { total: pendingRewards, amounts } = usePendingRewardsForCommitments(commitments);
+  // Every commitment with something to claim, claimed together
+  const claimSecrets = useMemo(
+    () =>
+      claimableIdentities
+        .filter((_, i) => amounts[i] > BigInt(0))
+        .slice(0, MAX_CLAIM_BATCH)
+        .map((each) => each.secret),
+    [claimableIdentities, amounts]
+  );
+  const direct = useClaimRewards();
+  const privateClaim = useClaimRewardsPrivately();
 
-  const [passphrase, setPassphrase] = useState("");
+  const [claimMode, setClaimMode] = useState<"private" | "wallet">("private");
+  const [recipient, setRecipient] = useState("");
+  const [feeAccepted, setFeeAccepted] = useState(false);
   const [showRecoverInput, setShowRecoverInput] = useState(false);
+  const [recoverSource, setRecoverSource] = useState<"passphrase" | "phrase" | "file">("passphrase");
+  const [showBackup, setShowBackup] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
   useEffect(() => {
@@ -42,24 +70,42 @@ export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
     setIsMobile(window.innerWidth < 640);
   }, []);
 
+  const { isPending, isConfirming, isSuccess, error, hash } = claimMode === "private" ? privateClaim : direct;
+  const { getQuote, quote } = privateClaim;
+
+  const recipientValid = isAddress(recipient);
+  const recipientIsWallet = !!address && recipient.toLowerCase() === address.toLowerCase();
+
+  // Re-quote whenever the claimable commitments or recipient change; the user must agree again
+  useEffect(() => {
+    setFeeAccepted(false);
+    if (claimMode !== "private" || claimSecrets.length === 0 || !recipientValid) return;
+    getQuote(claimSecrets, recipient as `0x${string}`).catch(() => {});
+  }, [claimMode, claimSecrets, recipient, recipientValid, getQuote]);
+
   const handleClaim = async () => {
-    if (!identity || !address) return;
+    if (!identity) return;
     try {
-      await claimRewards(identity.secret, address);
+      if (claimMode === "private") {
+        if (!recipientValid || !quote || !feeAccepted) return;
+        await privateClaim.claimPrivately({
+          secrets: claimSecrets,
+          recipient: recipient as `0x${string}`,
+          maxFee: quote.fee,
+        });
+      } else {
+        if (!address) return;
+        await direct.claimRewards(claimSecrets, address);
+      }
     } catch (e) {
       console.error("Claim error:", e);
+      // A changed fee comes back as a new quote that needs a fresh agreement
+      setFeeAccepted(false);
     }
   };
 
-  const handleRecover = () => {
-    if (passphrase.length < 8) return;
-    createIdentity(passphrase);
-    setShowRecoverInput(false);
-    setPassphrase("");
-  };
-
-  const formattedRewards = pendingRewards ? Number(formatEther(pendingRewards)).toFixed(6) : "0.000000";
-  const hasRewards = pendingRewards && pendingRewards > BigInt(0);
+  const formattedRewards = Number(formatEther(pendingRewards)).toFixed(6);
+  const hasRewards = claimSecrets.length > 0;
 
   const SheetComponent = isMobile ? BottomSheet : Modal;
 
@@ -78,7 +124,9 @@ export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
               <div>
                 <p className="font-medium text-mantle-success mb-1">Rewards Claimed!</p>
                 <p className="text-body-sm text-mantle-text-secondary">
-                  Your rewards have been sent to your wallet.
+                  {claimMode === "private"
+                    ? "Your rewards have been sent to your private address."
+                    : "Your rewards have been sent to your wallet."}
                 </p>
                 {hash && (
                   <a
@@ -105,7 +153,7 @@ export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
             <div>
               <h3 className="text-body-md font-medium text-mantle-text-primary">Reporter Identity</h3>
               <p className="text-label-md text-mantle-text-tertiary">
-                {identity ? "Active" : "Not configured"}
+                {identity ? "Active" : isLocked ? "Locked" : "Not configured"}
               </p>
             </div>
           </div>
@@ -117,40 +165,63 @@ export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
                 Identity loaded
               </div>
               <div className="p-3 bg-mantle-bg-tertiary rounded-lg">
-                <p className="text-label-sm text-mantle-text-tertiary mb-1">Commitment</p>
+                <p className="text-label-sm text-mantle-text-tertiary mb-1">Master commitment</p>
                 <p className="text-xs font-mono text-mantle-text-secondary break-all">
                   {identity.commitment}
                 </p>
+                <p className="text-label-sm text-mantle-text-tertiary mt-2">
+                  {reportCount} unlinkable report commitment{reportCount === 1 ? "" : "s"} derived from it
+                </p>
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={clearIdentity}
-                className="text-mantle-error"
-              >
-                <Trash2 className="w-4 h-4" />
-                Clear Identity
-              </Button>
-            </div>
-          ) : showRecoverInput ? (
-            <div className="space-y-4">
-              <p className="text-body-sm text-mantle-text-secondary">
-                Enter your passphrase to recover your identity and access pending rewards.
-              </p>
-              <Input
-                type="password"
-                placeholder="Enter your passphrase"
-                value={passphrase}
-                onChange={(e) => setPassphrase(e.target.value)}
-              />
               <div className="flex gap-2">
-                <Button variant="secondary" onClick={() => setShowRecoverInput(false)} className="flex-1">
-                  Cancel
+                <Button variant="ghost" size="sm" onClick={() => setShowBackup(!showBackup)}>
+                  <Shield className="w-4 h-4" />
+                  Back Up
+                </Button>
+                <Button variant="ghost" size="sm" onClick={lock}>
+                  <Lock className="w-4 h-4" />
+                  Lock
                 </Button>
-                <Button variant="primary" onClick={handleRecover} disabled={passphrase.length < 8} className="flex-1">
-                  Recover
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => clearIdentity()}
+                  className="text-mantle-error"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Clear Identity
                 </Button>
               </div>
+              {showBackup && (
+                <div className="pt-3 border-t border-white/10">
+                  <IdentityBackup />
+                </div>
+              )}
+            </div>
+          ) : isLocked ? (
+            <IdentityUnlock />
+          ) : showRecoverInput ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-2 p-1 bg-mantle-bg-tertiary rounded-xl">
+                {(["passphrase", "phrase", "file"] as const).map((source) => (
+                  <button
+                    key={source}
+                    onClick={() => setRecoverSource(source)}
+                    className={`py-2 rounded-lg text-label-md font-medium transition-colors ${
+                      recoverSource === source
+                        ? "bg-mantle-accent/20 text-mantle-accent"
+                        : "text-mantle-text-tertiary hover:text-mantle-text-secondary"
+                    }`}
+                  >
+                    {source === "passphrase" ? "Passphrase" : source === "phrase" ? "Recovery phrase" : "Backup file"}
+                  </button>
+                ))}
+              </div>
+              <IdentityRestore
+                source={recoverSource}
+                onRestored={() => setShowRecoverInput(false)}
+                onCancel={() => setShowRecoverInput(false)}
+              />
             </div>
           ) : (
             <div className="space-y-3">
@@ -177,7 +248,8 @@ export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
                 <span className="text-headline-sm text-mantle-text-secondary">MNT</span>
               </div>
               <p className="text-label-md text-mantle-text-tertiary mt-2">
-                From confirmed reports + tips
+                From confirmed reports + tips, across {commitments.length} commitment
+                {commitments.length === 1 ? "" : "s"}
               </p>
             </div>
 
@@ -189,17 +261,110 @@ export function RewardsSheet({ isOpen, onClose }: RewardsSheetProps) {
               </div>
             )}
 
-            {/* Claim Button */}
-            <Button
-              variant="primary"
-              fullWidth
-              size="lg"
-              onClick={handleClaim}
-              disabled={!hasRewards || isPending || isConfirming}
-              loading={isPending || isConfirming}
-            >
-              {!hasRewards ? "No Rewards to Claim" : "Claim Rewards"}
-            </Button>
+            {/* Claim Mode */}
+            <div className="grid grid-cols-2 gap-2 p-1 bg-mantle-bg-secondary rounded-xl">
+              {(["private", "wallet"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setClaimMode(mode)}
+                  className={`py-2 rounded-lg text-body-sm font-medium transition-colors ${
+                    claimMode === mode
+                      ? "bg-mantle-accent/20 text-mantle-accent"
+                      : "text-mantle-text-tertiary hover:text-mantle-text-secondary"
+                  }`}
+                >
+                  {mode === "private" ? "Claim privately" : "Claim to wallet"}
+                </button>
+              ))}
+            </div>
+
+            {claimMode === "private" ? (
+              <div className="space-y-4">
+                <div className="p-4 bg-mantle-info/10 rounded-xl border border-mantle-info/30 flex gap-3">
+                  <EyeOff className="w-5 h-5 text-mantle-info flex-shrink-0 mt-0.5" />
+                  <p className="text-body-sm text-mantle-text-secondary">
+                    The relayer claims for you and sends the rewards to a fresh address, so your wallet
+                    is never linked to your reports. Its gas is paid from the claimed amount.
+                  </p>
+                </div>
+
+                <Input
+                  label="Recipient address"
+                  placeholder="0x..."
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value.trim())}
+                  error={
+                    recipient && !recipientValid
+                      ? "Enter a valid address"
+                      : recipientIsWallet
+                        ? "This is your connected wallet. Use a new address to stay unlinked."
+                        : undefined
+                  }
+                  hint="Use an address that has never interacted with your wallet"
+                />
+
+                {quote && recipientValid && (
+                  <div className="p-4 bg-mantle-bg-secondary rounded-xl space-y-2 text-body-sm">
+                    <div className="flex justify-between text-mantle-text-secondary">
+                      <span>Pending rewards</span>
+                      <span>{Number(formatEther(quote.pending)).toFixed(6)} MNT</span>
+                    </div>
+                    <div className="flex justify-between text-mantle-text-secondary">
+                      <span>Relayer fee</span>
+                      <span>-{Number(formatEther(quote.fee)).toFixed(6)} MNT</span>
+                    </div>
+                    <div className="flex justify-between font-medium text-mantle-text-primary pt-2 border-t border-white/10">
+                      <span>You receive</span>
+                      <span>{Number(formatEther(quote.net)).toFixed(6)} MNT</span>
+                    </div>
+                    <label className="flex items-center gap-2 pt-2 text-mantle-text-secondary cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={feeAccepted}
+                        onChange={(e) => setFeeAccepted(e.target.checked)}
+                      />
+                      I agree to pay this fee
+                    </label>
+                  </div>
+                )}
+
+                <Button
+                  variant="primary"
+                  fullWidth
+                  size="lg"
+                  onClick={handleClaim}
+                  disabled={
+                    !hasRewards ||
+                    !recipientValid ||
+                    recipientIsWallet ||
+                    !quote ||
+                    quote.net === BigInt(0) ||
+                    !feeAccepted ||
+                    isPending ||
+                    isConfirming
+                  }
+                  loading={isPending || isConfirming || privateClaim.isQuoting}
+                >
+                  {!hasRewards ? "No Rewards to Claim" : "Claim Privately"}
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Button
+                  variant="primary"
+                  fullWidth
+                  size="lg"
+                  onClick={handleClaim}
+                  disabled={!hasRewards || !address || isPending || isConfirming}
+                  loading={isPending || isConfirming}
+                >
+                  {!hasRewards ? "No Rewards to Claim" : "Claim Rewards"}
+                </Button>
+                <p className="text-label-md text-mantle-text-tertiary text-center">
+                  Claiming from your wallet links it to your reports on-chain.
+                </p>
+              </div>
+            )}
           </>
         )}
 
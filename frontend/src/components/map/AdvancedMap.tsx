@@ -1,14 +1,23 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from "react";
-import { Loader } from "@googlemaps/js-api-loader";
-import { MarkerClusterer } from "@googlemaps/markerclusterer";
-import { EVENT_TYPES, EventType, ReportMarker } from "./GoogleMap";
+import { EVENT_TYPES, ReportMarker, toReportMarker } from "./GoogleMap";
+import { createMapProvider, createRoutingProvider, type MapProvider, type RouteDrawing } from "./providers";
+import { alongRoute, DEFAULT_CORRIDOR_BUFFER_M, type Bounds } from "@/lib/corridor";
+import {
+  formatDistance,
+  formatDuration,
+  routeWaypoints,
+  type PlannedRoute,
+  type RoutePlan,
+  type RoutingProvider,
+} from "@/lib/routing";
 
 // Route hazard result
 export interface RouteHazard {
   report: ReportMarker;
   distanceFromStart: number; // meters along route
+  distanceFromRoute: number; // meters off the route
 }
 
 // Single route info
@@ -52,6 +61,8 @@ export interface MapController {
   selectRoute: (index: number) => void;
   selectRoutes: (indices: number[]) => void;
   clearRoute: () => void;
+  /** The visible area, for biasing place search */
+  getViewport: () => Bounds | null;
 }
 
 interface AdvancedMapProps {
@@ -72,54 +83,92 @@ const ROUTE_COLORS = [
   { main: "#10B981", alt: "#10B98150" }, // Green
 ];
 
+// Dark theme for the Google map
+const GOOGLE_MAP_STYLES: google.maps.MapTypeStyle[] = [
+  { elementType: "geometry", stylers: [{ color: "#1a1a2e" }] },
+  { elementType: "labels.text.stroke", stylers: [{ color: "#1a1a2e" }] },
+  { elementType: "labels.text.fill", stylers: [{ color: "#8892b0" }] },
+  { featureType: "road", elementType: "geometry", stylers: [{ color: "#2d2d44" }] },
+  { featureType: "road", elementType: "geometry.stroke", stylers: [{ color: "#1a1a2e" }] },
+  { featureType: "road.highway", elementType: "geometry", stylers: [{ color: "#3d3d5c" }] },
+  { featureType: "water", elementType: "geometry", stylers: [{ color: "#0e1a2b" }] },
+  { featureType: "poi", elementType: "geometry", stylers: [{ color: "#1f1f3d" }] },
+  { featureType: "poi.park", elementType: "geometry", stylers: [{ color: "#1a2f1a" }] },
+  { featureType: "transit", elementType: "geometry", stylers: [{ color: "#1a1a2e" }] },
+];
+
+// Every route with its number at its midpoint; selected routes in their
+// own color on top, the rest grayed out
+function routeDrawing(plan: RoutePlan, selected: Set<number>): RouteDrawing {
+  const drawing: RouteDrawing = { lines: [], badges: [], start: plan.start, end: plan.end };
+
+  plan.routes.forEach((route, index) => {
+    const isSelected = selected.has(index);
+    const color = ROUTE_COLORS[index % ROUTE_COLORS.length];
+
+    drawing.lines.push({
+      path: route.path,
+      color: isSelected ? color.main : "#444444",
+      opacity: isSelected ? 1 : 0.3,
+      width: isSelected ? 7 : 3,
+      zIndex: isSelected ? 100 + index : index,
+    });
+
+    const midPoint = route.path[Math.floor(route.path.length / 2)];
+    if (midPoint) {
+      drawing.badges.push({
+        position: midPoint,
+        text: String(index + 1),
+        textColor: isSelected ? "#000" : "#888",
+        fill: isSelected ? color.main : "#444444",
+        radius: isSelected ? 18 : 14,
+        borderWidth: isSelected ? 3 : 1,
+        zIndex: isSelected ? 200 + index : 50 + index,
+      });
+    }
+  });
+
+  return drawing;
+}
+
+function createClusterElement(count: number) {
+  const el = document.createElement("div");
+  el.className = "cluster-marker";
+  el.innerHTML = `
+    <div class="cluster-body" style="position: relative; width: 56px; height: 56px;">
+      <img src="/images/cluster.png" alt="Cluster" style="width: 100%; height: 100%; object-fit: contain;" />
+      <span class="cluster-count" style="position: absolute; inset: 0; display: flex; flex-direction: column; align-items: center; justify-content: center; font-size: 16px; font-weight: bold; color: white; text-shadow: 0 1px 3px rgba(0,0,0,0.5);">
+        ${count}
+        <span style="font-size: 8px; font-weight: normal; opacity: 0.9;">reports</span>
+      </span>
+    </div>
+  `;
+  return el;
+}
+
 const AdvancedMap = forwardRef<MapController, AdvancedMapProps>(
   ({ reports, selectedReport, onReportSelect, onLocationSelect, showHeatmap = false, className }, ref) => {
     const mapRef = useRef<HTMLDivElement>(null);
-    const mapInstance = useRef<google.maps.Map | null>(null);
-    const markersRef = useRef<Map<number, google.maps.marker.AdvancedMarkerElement>>(new Map());
-    const clustererRef = useRef<MarkerClusterer | null>(null);
-    const heatmapRef = useRef<google.maps.visualization.HeatmapLayer | null>(null);
-    const directionsServiceRef = useRef<google.maps.DirectionsService | null>(null);
-    const directionsRendererRef = useRef<google.maps.DirectionsRenderer | null>(null);
-    const routePolylinesRef = useRef<google.maps.Polyline[]>([]);
-    const routeMarkersRef = useRef<google.maps.Marker[]>([]);
-    const directionsResultRef = useRef<google.maps.DirectionsResult | null>(null);
+    const providerRef = useRef<MapProvider | null>(null);
+    const routingRef = useRef<RoutingProvider | null>(null);
+    const markerElementsRef = useRef<Map<number, HTMLElement>>(new Map());
+    const routePlanRef = useRef<RoutePlan | null>(null);
     const [isLoaded, setIsLoaded] = useState(false);
     const [heatmapVisible, setHeatmapVisible] = useState(showHeatmap);
+    const [clustering, setClustering] = useState(true);
 
     // Expose controller methods
     useImperativeHandle(ref, () => ({
       flyTo: (lat: number, lng: number, zoom = 16) => {
-        if (!mapInstance.current) return;
-
-        // Smooth fly animation
-        mapInstance.current.panTo({ lat, lng });
-
-        // Animate zoom
-        const currentZoom = mapInstance.current.getZoom() || 12;
-        const zoomSteps = Math.abs(zoom - currentZoom);
-        const zoomDirection = zoom > currentZoom ? 1 : -1;
-
-        let step = 0;
-        const animateZoom = () => {
-          if (step < zoomSteps && mapInstance.current) {
-            mapInstance.current.setZoom(currentZoom + (step * zoomDirection));
-            step++;
-            requestAnimationFrame(animateZoom);
-          }
-        };
-
-        setTimeout(animateZoom, 300);
+        providerRef.current?.flyTo({ lat, lng }, zoom);
       },
 
       focusOnReport: (report: ReportMarker) => {
-        if (!mapInstance.current) return;
-
-        // Epic fly-to animation
-        const map = mapInstance.current;
+        const map = providerRef.current;
+        if (!map) return;
 
         // First, zoom out slightly for dramatic effect
-        map.setZoom(Math.max((map.getZoom() || 12) - 2, 10));
+        map.setZoom(Math.max(map.getZoom() - 2, 10));
 
         setTimeout(() => {
           // Then fly to location
@@ -130,9 +179,8 @@ const AdvancedMap = forwardRef<MapController, AdvancedMapProps>(
             map.setZoom(17);
 
             // Pulse the marker
-            const marker = markersRef.current.get(report.id);
-            if (marker?.content) {
-              const element = marker.content as HTMLElement;
+            const element = markerElementsRef.current.get(report.id);
+            if (element) {
               element.classList.add("pulse-animation");
               setTimeout(() => element.classList.remove("pulse-animation"), 2000);
             }
@@ -141,460 +189,121 @@ const AdvancedMap = forwardRef<MapController, AdvancedMapProps>(
       },
 
       showAllReports: () => {
-        if (!mapInstance.current || reports.length === 0) return;
-
-        const bounds = new google.maps.LatLngBounds();
-        reports.forEach((r) => bounds.extend({ lat: r.lat, lng: r.lng }));
-        mapInstance.current.fitBounds(bounds, 50);
+        if (reports.length === 0) return;
+        providerRef.current?.fitBounds(reports, 50);
       },
 
       toggleHeatmap: () => {
-        if (heatmapRef.current) {
-          const newVisibility = !heatmapVisible;
-          heatmapRef.current.setMap(newVisibility ? mapInstance.current : null);
-          setHeatmapVisible(newVisibility);
-        }
+        setHeatmapVisible((visible) => !visible);
       },
 
       toggleClustering: () => {
-        if (clustererRef.current) {
-          // Toggle clustering
-          clustererRef.current.clearMarkers();
-          clustererRef.current.addMarkers(Array.from(markersRef.current.values()));
-        }
+        setClustering((enabled) => !enabled);
       },
 
       getStreetViewPreview: (lat: number, lng: number) => {
-        return `https://maps.googleapis.com/maps/api/streetview?size=400x200&location=${lat},${lng}&fov=90&heading=235&pitch=10&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY}`;
+        return providerRef.current?.streetViewImage({ lat, lng }) ?? "";
       },
 
       calculateRoute: async (origin: string, destination: string, showAlternatives = true): Promise<RouteResult> => {
-        if (!directionsServiceRef.current || !mapInstance.current) {
+        const map = providerRef.current;
+        const routing = routingRef.current;
+        if (!map || !routing) {
           throw new Error("Map not initialized");
         }
 
         // Clear existing routes
-        routePolylinesRef.current.forEach(p => p.setMap(null));
-        routePolylinesRef.current = [];
-        routeMarkersRef.current.forEach(m => m.setMap(null));
-        routeMarkersRef.current = [];
-        if (directionsRendererRef.current) {
-          directionsRendererRef.current.setMap(null);
-        }
-
-        // Helper function to get hazards for a route
-        const getHazardsForRoute = (routePath: google.maps.LatLng[]): RouteHazard[] => {
-          const hazards: RouteHazard[] = [];
-          reports.forEach((report) => {
-            const reportLatLng = new google.maps.LatLng(report.lat, report.lng);
-            let minDistance = Infinity;
-            let distanceAlongRoute = 0;
-            let cumulativeDistance = 0;
-
-            for (let i = 0; i < routePath.length; i++) {
-              const pathPoint = routePath[i];
-              const distance = google.maps.geometry.spherical.computeDistanceBetween(reportLatLng, pathPoint);
-
-              if (distance < minDistance) {
-                minDistance = distance;
-                distanceAlongRoute = cumulativeDistance;
-              }
-
-              if (i > 0) {
-                cumulativeDistance += google.maps.geometry.spherical.computeDistanceBetween(
-                  routePath[i - 1],
-                  pathPoint
-                );
-              }
-            }
-
-            if (minDistance <= 500) {
-              hazards.push({ report, distanceFromStart: distanceAlongRoute });
-            }
-          });
-          return hazards.sort((a, b) => a.distanceFromStart - b.distanceFromStart);
-        };
-
-        // Helper to draw all routes
-        const drawAllRoutes = (result: google.maps.DirectionsResult, selectedIndex: number) => {
-          // Clear existing polylines
-          routePolylinesRef.current.forEach(p => p.setMap(null));
-          routePolylinesRef.current = [];
-          routeMarkersRef.current.forEach(m => m.setMap(null));
-          routeMarkersRef.current = [];
-
-          // Draw routes in reverse order so selected is on top
-          const routeIndices = result.routes.map((_, i) => i).sort((a, b) => {
-            if (a === selectedIndex) return 1;
-            if (b === selectedIndex) return -1;
-            return 0;
-          });
-
-          routeIndices.forEach((routeIndex) => {
-            const route = result.routes[routeIndex];
-            const isSelected = routeIndex === selectedIndex;
-            const color = ROUTE_COLORS[routeIndex % ROUTE_COLORS.length];
-
-            // Create polyline for this route
-            const polyline = new google.maps.Polyline({
-              path: route.overview_path,
-              strokeColor: isSelected ? color.main : "#666666",
-              strokeOpacity: isSelected ? 1 : 0.5,
-              strokeWeight: isSelected ? 7 : 4,
-              map: mapInstance.current,
-              zIndex: isSelected ? 100 : routeIndex,
-            });
-
-            routePolylinesRef.current.push(polyline);
-
-            // Add route number marker at midpoint
-            const midIndex = Math.floor(route.overview_path.length / 2);
-            const midPoint = route.overview_path[midIndex];
-
-            const marker = new google.maps.Marker({
-              position: midPoint,
-              map: mapInstance.current,
-              label: {
-                text: String(routeIndex + 1),
-                color: isSelected ? "#000" : "#fff",
-                fontWeight: "bold",
-                fontSize: "14px",
-              },
-              icon: {
-                path: google.maps.SymbolPath.CIRCLE,
-                scale: 16,
-                fillColor: isSelected ? color.main : "#666666",
-                fillOpacity: 1,
-                strokeColor: "#fff",
-                strokeWeight: 2,
-              },
-              zIndex: isSelected ? 200 : 50 + routeIndex,
+        map.clearRoutes();
+        routePlanRef.current = null;
+
+        // Hazards along a route come from the server's corridor query, which
+        // sees every cached report, not just the ones loaded for this map. If
+        // it can't be reached, the loaded reports are checked instead.
+        const getHazardsForRoute = async (route: PlannedRoute): Promise<RouteHazard[]> => {
+          try {
+            const res = await fetch("/api/reports/corridor", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                polyline: route.polyline,
+                precision: route.polylinePrecision,
+                buffer: DEFAULT_CORRIDOR_BUFFER_M,
+              }),
             });
-
-            routeMarkersRef.current.push(marker);
-          });
-
-          // Add start marker (green)
-          const startMarker = new google.maps.Marker({
-            position: result.routes[0].legs[0].start_location,
-            map: mapInstance.current,
-            icon: {
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: 10,
-              fillColor: "#22C55E",
-              fillOpacity: 1,
-              strokeColor: "#fff",
-              strokeWeight: 3,
-            },
-            zIndex: 300,
-          });
-          routeMarkersRef.current.push(startMarker);
-
-          // Add end marker (red)
-          const endMarker = new google.maps.Marker({
-            position: result.routes[0].legs[0].end_location,
-            map: mapInstance.current,
-            icon: {
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: 10,
-              fillColor: "#EF4444",
-              fillOpacity: 1,
-              strokeColor: "#fff",
-              strokeWeight: 3,
-            },
-            zIndex: 300,
-          });
-          routeMarkersRef.current.push(endMarker);
+            const data = await res.json();
+            if (!res.ok || data.error) throw new Error(data.error || `HTTP ${res.status}`);
+
+            return data.reports.map((r: any) => ({
+              report: reports.find((report) => report.id === r.id) ?? toReportMarker(r),
+              distanceFromStart: r.distanceFromStart,
+              distanceFromRoute: r.distanceFromRoute,
+            }));
+          } catch (error) {
+            console.warn("[Routes] Corridor query failed, using loaded reports:", error);
+            return alongRoute(route.path, reports, DEFAULT_CORRIDOR_BUFFER_M).map(({ item, ...distances }) => ({
+              report: item,
+              ...distances,
+            }));
+          }
         };
 
-        return new Promise((resolve, reject) => {
-          directionsServiceRef.current!.route(
-            {
-              origin,
-              destination,
-              travelMode: google.maps.TravelMode.DRIVING,
-              provideRouteAlternatives: showAlternatives,
-              drivingOptions: {
-                departureTime: new Date(),
-                trafficModel: google.maps.TrafficModel.BEST_GUESS,
-              },
-            },
-            (result, status) => {
-              if (status === google.maps.DirectionsStatus.OK && result) {
-                console.log(`[Routes] Google returned ${result.routes.length} routes`);
-
-                // Store result for selectRoute
-                directionsResultRef.current = result;
-
-                // Draw all routes with route 0 selected
-                drawAllRoutes(result, 0);
-
-                // Fit bounds to show all routes
-                const bounds = new google.maps.LatLngBounds();
-                result.routes.forEach(route => {
-                  route.overview_path.forEach(point => bounds.extend(point));
-                });
-                mapInstance.current!.fitBounds(bounds, 50);
-
-                // Process ALL routes (main + alternatives)
-                const allRoutes: RouteInfo[] = result.routes.map((route, index) => {
-                  const leg = route.legs[0];
-                  const routePath = route.overview_path || [];
-                  const hazards = getHazardsForRoute(routePath);
-
-                  // Get waypoints for Google Maps URL
-                  const waypoints: { lat: number; lng: number }[] = [];
-                  for (let i = Math.floor(routePath.length / 4); i < routePath.length; i += Math.floor(routePath.length / 4)) {
-                    if (waypoints.length < 3) {
-                      waypoints.push({
-                        lat: routePath[i].lat(),
-                        lng: routePath[i].lng(),
-                      });
-                    }
-                  }
-
-                  return {
-                    index,
-                    summary: route.summary || `Route ${index + 1}`,
-                    distance: leg.distance?.text || "N/A",
-                    distanceValue: leg.distance?.value || 0,
-                    duration: leg.duration?.text || "N/A",
-                    durationValue: leg.duration?.value || 0,
-                    durationInTraffic: leg.duration_in_traffic?.text,
-                    hazardCount: hazards.length,
-                    hazards,
-                    warnings: route.warnings || [],
-                    color: ROUTE_COLORS[index % ROUTE_COLORS.length].main,
-                    startLat: leg.start_location.lat(),
-                    startLng: leg.start_location.lng(),
-                    endLat: leg.end_location.lat(),
-                    endLng: leg.end_location.lng(),
-                    waypoints,
-                  };
-                });
-
-                const routeResult: RouteResult = {
-                  startAddress: result.routes[0].legs[0].start_address,
-                  endAddress: result.routes[0].legs[0].end_address,
-                  routes: allRoutes,
-                  selectedRouteIndex: 0,
-                };
-
-                resolve(routeResult);
-              } else {
-                console.error("Directions request failed:", status);
-                reject(new Error(`Directions request failed: ${status}`));
-              }
-            }
-          );
+        const plan = await routing.route(origin, destination, { alternatives: showAlternatives });
+        console.log(`[Routes] Router returned ${plan.routes.length} routes`);
+
+        // Store the plan for selectRoutes, and draw it with route 0 selected
+        routePlanRef.current = plan;
+        map.drawRoutes(routeDrawing(plan, new Set([0])));
+        map.fitBounds(plan.routes.flatMap((route) => route.path), 50);
+
+        // Process ALL routes (main + alternatives)
+        const routeHazards = await Promise.all(plan.routes.map(getHazardsForRoute));
+        const allRoutes: RouteInfo[] = plan.routes.map((route, index) => {
+          const hazards = routeHazards[index];
+
+          return {
+            index,
+            summary: route.summary || `Route ${index + 1}`,
+            distance: formatDistance(route.distance),
+            distanceValue: route.distance,
+            duration: formatDuration(route.duration),
+            durationValue: route.duration,
+            durationInTraffic: route.durationInTraffic === undefined ? undefined : formatDuration(route.durationInTraffic),
+            hazardCount: hazards.length,
+            hazards,
+            warnings: route.warnings,
+            color: ROUTE_COLORS[index % ROUTE_COLORS.length].main,
+            startLat: plan.start.lat,
+            startLng: plan.start.lng,
+            endLat: plan.end.lat,
+            endLng: plan.end.lng,
+            waypoints: routeWaypoints(route.path),
+          };
         });
+
+        return {
+          startAddress: plan.startAddress,
+          endAddress: plan.endAddress,
+          routes: allRoutes,
+          selectedRouteIndex: 0,
+        };
       },
 
       selectRoute: (index: number) => {
-        if (!directionsResultRef.current || !mapInstance.current) return;
-
-        // Clear and redraw all routes with new selection
-        routePolylinesRef.current.forEach(p => p.setMap(null));
-        routePolylinesRef.current = [];
-        routeMarkersRef.current.forEach(m => m.setMap(null));
-        routeMarkersRef.current = [];
-
-        const result = directionsResultRef.current;
-
-        // Draw routes in reverse order so selected is on top
-        const routeIndices = result.routes.map((_, i) => i).sort((a, b) => {
-          if (a === index) return 1;
-          if (b === index) return -1;
-          return 0;
-        });
-
-        routeIndices.forEach((routeIndex) => {
-          const route = result.routes[routeIndex];
-          const isSelected = routeIndex === index;
-          const color = ROUTE_COLORS[routeIndex % ROUTE_COLORS.length];
-
-          const polyline = new google.maps.Polyline({
-            path: route.overview_path,
-            strokeColor: isSelected ? color.main : "#666666",
-            strokeOpacity: isSelected ? 1 : 0.5,
-            strokeWeight: isSelected ? 7 : 4,
-            map: mapInstance.current,
-            zIndex: isSelected ? 100 : routeIndex,
-          });
-
-          routePolylinesRef.current.push(polyline);
-
-          // Route number marker
-          const midIndex = Math.floor(route.overview_path.length / 2);
-          const midPoint = route.overview_path[midIndex];
-
-          const marker = new google.maps.Marker({
-            position: midPoint,
-            map: mapInstance.current,
-            label: {
-              text: String(routeIndex + 1),
-              color: isSelected ? "#000" : "#fff",
-              fontWeight: "bold",
-              fontSize: "14px",
-            },
-            icon: {
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: 16,
-              fillColor: isSelected ? color.main : "#666666",
-              fillOpacity: 1,
-              strokeColor: "#fff",
-              strokeWeight: 2,
-            },
-            zIndex: isSelected ? 200 : 50 + routeIndex,
-          });
-
-          routeMarkersRef.current.push(marker);
-        });
-
-        // Start marker
-        const startMarker = new google.maps.Marker({
-          position: result.routes[0].legs[0].start_location,
-          map: mapInstance.current,
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: "#22C55E",
-            fillOpacity: 1,
-            strokeColor: "#fff",
-            strokeWeight: 3,
-          },
-          zIndex: 300,
-        });
-        routeMarkersRef.current.push(startMarker);
-
-        // End marker
-        const endMarker = new google.maps.Marker({
-          position: result.routes[0].legs[0].end_location,
-          map: mapInstance.current,
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: "#EF4444",
-            fillOpacity: 1,
-            strokeColor: "#fff",
-            strokeWeight: 3,
-          },
-          zIndex: 300,
-        });
-        routeMarkersRef.current.push(endMarker);
+        if (!routePlanRef.current) return;
+        providerRef.current?.drawRoutes(routeDrawing(routePlanRef.current, new Set([index])));
       },
 
       selectRoutes: (indices: number[]) => {
-        if (!directionsResultRef.current || !mapInstance.current) return;
-
-        // Clear and redraw all routes with new selections
-        routePolylinesRef.current.forEach(p => p.setMap(null));
-        routePolylinesRef.current = [];
-        routeMarkersRef.current.forEach(m => m.setMap(null));
-        routeMarkersRef.current = [];
-
-        const result = directionsResultRef.current;
-        const selectedSet = new Set(indices);
-
-        // Draw unselected routes first, then selected ones on top
-        const routeIndices = result.routes.map((_, i) => i).sort((a, b) => {
-          const aSelected = selectedSet.has(a);
-          const bSelected = selectedSet.has(b);
-          if (aSelected && !bSelected) return 1;
-          if (!aSelected && bSelected) return -1;
-          return 0;
-        });
-
-        routeIndices.forEach((routeIndex) => {
-          const route = result.routes[routeIndex];
-          const isSelected = selectedSet.has(routeIndex);
-          const color = ROUTE_COLORS[routeIndex % ROUTE_COLORS.length];
-
-          const polyline = new google.maps.Polyline({
-            path: route.overview_path,
-            strokeColor: isSelected ? color.main : "#444444",
-            strokeOpacity: isSelected ? 1 : 0.3,
-            strokeWeight: isSelected ? 7 : 3,
-            map: mapInstance.current,
-            zIndex: isSelected ? 100 + routeIndex : routeIndex,
-          });
-
-          routePolylinesRef.current.push(polyline);
-
-          // Route number marker
-          const midIndex = Math.floor(route.overview_path.length / 2);
-          const midPoint = route.overview_path[midIndex];
-
-          const marker = new google.maps.Marker({
-            position: midPoint,
-            map: mapInstance.current,
-            label: {
-              text: String(routeIndex + 1),
-              color: isSelected ? "#000" : "#888",
-              fontWeight: "bold",
-              fontSize: "14px",
-            },
-            icon: {
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: isSelected ? 18 : 14,
-              fillColor: isSelected ? color.main : "#444444",
-              fillOpacity: 1,
-              strokeColor: "#fff",
-              strokeWeight: isSelected ? 3 : 1,
-            },
-            zIndex: isSelected ? 200 + routeIndex : 50 + routeIndex,
-          });
-
-          routeMarkersRef.current.push(marker);
-        });
-
-        // Start marker
-        const startMarker = new google.maps.Marker({
-          position: result.routes[0].legs[0].start_location,
-          map: mapInstance.current,
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: "#22C55E",
-            fillOpacity: 1,
-            strokeColor: "#fff",
-            strokeWeight: 3,
-          },
-          zIndex: 300,
-        });
-        routeMarkersRef.current.push(startMarker);
-
-        // End marker
-        const endMarker = new google.maps.Marker({
-          position: result.routes[0].legs[0].end_location,
-          map: mapInstance.current,
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: "#EF4444",
-            fillOpacity: 1,
-            strokeColor: "#fff",
-            strokeWeight: 3,
-          },
-          zIndex: 300,
-        });
-        routeMarkersRef.current.push(endMarker);
+        if (!routePlanRef.current) return;
+        providerRef.current?.drawRoutes(routeDrawing(routePlanRef.current, new Set(indices)));
       },
 
       clearRoute: () => {
-        // Clear polylines
-        routePolylinesRef.current.forEach(p => p.setMap(null));
-        routePolylinesRef.current = [];
-        // Clear markers
-        routeMarkersRef.current.forEach(m => m.setMap(null));
-        routeMarkersRef.current = [];
-        // Clear stored result
-        directionsResultRef.current = null;
-        // Clear directions renderer
-        if (directionsRendererRef.current) {
-          directionsRendererRef.current.setDirections({ routes: [] } as unknown as google.maps.DirectionsResult);
-        }
+        providerRef.current?.clearRoutes();
+        routePlanRef.current = null;
       },
+
+      getViewport: () => providerRef.current?.getBounds() ?? null,
     }));
 
     // Create animated marker element
@@ -633,86 +342,30 @@ const AdvancedMap = forwardRef<MapController, AdvancedMapProps>(
 
     // Initialize map
     useEffect(() => {
-      const initMap = async () => {
-        const loader = new Loader({
-          apiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "",
-          version: "weekly",
-          libraries: ["places", "visualization", "marker", "geometry", "routes"],
-        });
+      let provider: MapProvider | null = null;
+      let cancelled = false;
 
+      const initMap = async () => {
         try {
-          const google = await loader.load();
-
-          if (!mapRef.current) return;
-
-          // Custom map styles for dark theme
-          const mapStyles = [
-            { elementType: "geometry", stylers: [{ color: "#1a1a2e" }] },
-            { elementType: "labels.text.stroke", stylers: [{ color: "#1a1a2e" }] },
-            { elementType: "labels.text.fill", stylers: [{ color: "#8892b0" }] },
-            { featureType: "road", elementType: "geometry", stylers: [{ color: "#2d2d44" }] },
-            { featureType: "road", elementType: "geometry.stroke", stylers: [{ color: "#1a1a2e" }] },
-            { featureType: "road.highway", elementType: "geometry", stylers: [{ color: "#3d3d5c" }] },
-            { featureType: "water", elementType: "geometry", stylers: [{ color: "#0e1a2b" }] },
-            { featureType: "poi", elementType: "geometry", stylers: [{ color: "#1f1f3d" }] },
-            { featureType: "poi.park", elementType: "geometry", stylers: [{ color: "#1a2f1a" }] },
-            { featureType: "transit", elementType: "geometry", stylers: [{ color: "#1a1a2e" }] },
-          ];
-
-          const map = new google.maps.Map(mapRef.current, {
-            center: { lat: 19.4326, lng: -99.1332 }, // Mexico City
-            zoom: 13,
-            styles: mapStyles,
-            mapId: "roadguard_dark_map",
-            disableDefaultUI: true,
-            zoomControl: true,
-            zoomControlOptions: {
-              position: google.maps.ControlPosition.RIGHT_CENTER,
-            },
-            gestureHandling: "greedy",
+          provider = await createMapProvider({
+            google: { mapId: "roadguard_dark_map", styles: GOOGLE_MAP_STYLES },
           });
+          routingRef.current = await createRoutingProvider();
 
-          mapInstance.current = map;
-
-          // Initialize DirectionsService and DirectionsRenderer
-          directionsServiceRef.current = new google.maps.DirectionsService();
-          directionsRendererRef.current = new google.maps.DirectionsRenderer({
-            map: map,
-            suppressMarkers: false,
-            polylineOptions: {
-              strokeColor: "#65B3AE",
-              strokeWeight: 5,
-              strokeOpacity: 0.8,
-            },
-          });
+          if (cancelled || !mapRef.current) return;
 
-          // Add click listener for new reports
-          map.addListener("click", (e: google.maps.MapMouseEvent) => {
-            if (e.latLng) {
-              onLocationSelect?.(e.latLng.lat(), e.latLng.lng());
-            }
-          });
-
-          // Initialize heatmap
-          const heatmapData = reports.map((r) => ({
-            location: new google.maps.LatLng(r.lat, r.lng),
-            weight: r.confirmationCount + 1,
-          }));
-
-          heatmapRef.current = new google.maps.visualization.HeatmapLayer({
-            data: heatmapData,
-            map: showHeatmap ? map : null,
-            radius: 50,
-            opacity: 0.7,
-            gradient: [
-              "rgba(0, 0, 0, 0)",
-              "rgba(101, 179, 174, 0.4)",
-              "rgba(101, 179, 174, 0.6)",
-              "rgba(249, 115, 22, 0.8)",
-              "rgba(239, 68, 68, 1)",
-            ],
+          await provider.mount(mapRef.current, {
+            center: { lat: 19.4326, lng: -99.1332 }, // Mexico City
+            zoom: 13,
+            // Add click listener for new reports
+            onClick: ({ lat, lng }) => onLocationSelect?.(lat, lng),
           });
 
+          if (cancelled) {
+            provider.destroy();
+            return;
+          }
+          providerRef.current = provider;
           setIsLoaded(true);
         } catch (error) {
           console.error("Error loading map:", error);
@@ -720,76 +373,44 @@ const AdvancedMap = forwardRef<MapController, AdvancedMapProps>(
       };
 
       initMap();
+
+      return () => {
+        cancelled = true;
+        provider?.destroy();
+        providerRef.current = null;
+      };
     }, []);
 
     // Update markers when reports change
     useEffect(() => {
-      if (!isLoaded || !mapInstance.current) return;
-
-      const { AdvancedMarkerElement } = google.maps.marker;
-
-      // Clear old markers
-      markersRef.current.forEach((marker) => (marker.map = null));
-      markersRef.current.clear();
+      const map = providerRef.current;
+      if (!isLoaded || !map) return;
 
-      // Create new markers
-      const markers: google.maps.marker.AdvancedMarkerElement[] = [];
-
-      reports.forEach((report) => {
+      markerElementsRef.current.clear();
+      const markers = reports.map((report) => {
         const isSelected = selectedReport?.id === report.id;
         const element = createMarkerElement(report, isSelected);
+        markerElementsRef.current.set(report.id, element);
 
-        const marker = new AdvancedMarkerElement({
-          map: mapInstance.current,
+        return {
+          id: report.id,
           position: { lat: report.lat, lng: report.lng },
-          content: element,
+          element,
           zIndex: isSelected ? 1000 : report.confirmationCount,
-        });
-
-        markersRef.current.set(report.id, marker);
-        markers.push(marker);
+        };
       });
 
-      // Update clusterer
-      if (clustererRef.current) {
-        clustererRef.current.clearMarkers();
-        clustererRef.current.addMarkers(markers);
-      } else {
-        clustererRef.current = new MarkerClusterer({
-          map: mapInstance.current,
-          markers,
-          renderer: {
-            render: ({ count, position }) => {
-              const el = document.createElement("div");
-              el.className = "cluster-marker";
-              el.innerHTML = `
-                <div class="cluster-body" style="position: relative; width: 56px; height: 56px;">
-                  <img src="/images/cluster.png" alt="Cluster" style="width: 100%; height: 100%; object-fit: contain;" />
-                  <span class="cluster-count" style="position: absolute; inset: 0; display: flex; flex-direction: column; align-items: center; justify-content: center; font-size: 16px; font-weight: bold; color: white; text-shadow: 0 1px 3px rgba(0,0,0,0.5);">
-                    ${count}
-                    <span style="font-size: 8px; font-weight: normal; opacity: 0.9;">reports</span>
-                  </span>
-                </div>
-              `;
-              return new AdvancedMarkerElement({
-                position,
-                content: el,
-                zIndex: count,
-              });
-            },
-          },
-        });
-      }
-
-      // Update heatmap data
-      if (heatmapRef.current) {
-        const heatmapData = reports.map((r) => ({
-          location: new google.maps.LatLng(r.lat, r.lng),
-          weight: r.confirmationCount + 1,
-        }));
-        heatmapRef.current.setData(heatmapData);
-      }
-    }, [reports, selectedReport, isLoaded, createMarkerElement]);
+      map.setMarkers(markers, { cluster: clustering, renderCluster: createClusterElement });
+    }, [reports, selectedReport, isLoaded, clustering, createMarkerElement]);
+
+    // Update heatmap data
+    useEffect(() => {
+      if (!isLoaded) return;
+      providerRef.current?.setHeatmap(
+        reports.map((r) => ({ lat: r.lat, lng: r.lng, weight: r.confirmationCount + 1 })),
+        heatmapVisible
+      );
+    }, [reports, heatmapVisible, isLoaded]);
 
     return (
       <div className={`relative ${className}`}>
@@ -798,12 +419,7 @@ const AdvancedMap = forwardRef<MapController, AdvancedMapProps>(
         {/* Map controls overlay */}
         <div className="absolute top-4 right-4 flex flex-col gap-2 z-10">
           <button
-            onClick={() => setHeatmapVisible((v) => {
-              if (heatmapRef.current) {
-                heatmapRef.current.setMap(!v ? mapInstance.current : null);
-              }
-              return !v;
-            })}
+            onClick={() => setHeatmapVisible((v) => !v)}
             className={`p-3 rounded-xl backdrop-blur-md transition-all ${
               heatmapVisible
                 ? "bg-mantle-accent text-black"
@@ -1,7 +1,8 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import { Loader } from "@googlemaps/js-api-loader";
+import { createMapProvider, type MapMarker, type MapProvider } from "./providers";
+import { EVENT_TYPES, eventTypeKey, type EventType } from "@/lib/event-types";
 
 // Mantle-branded dark map style
 const MANTLE_MAP_STYLE: google.maps.MapTypeStyle[] = [
@@ -104,17 +105,8 @@ const MANTLE_MAP_STYLE: google.maps.MapTypeStyle[] = [
   },
 ];
 
-// Event type configurations
-export const EVENT_TYPES = {
-  ACCIDENT: { id: 0, label: "Accident", color: "#EF4444", icon: "🚗", image: "/images/accident.png" },
-  ROAD_CLOSURE: { id: 1, label: "Road Closure", color: "#F97316", icon: "🚧", image: "/images/road-closure.png" },
-  PROTEST: { id: 2, label: "Protest", color: "#A855F7", icon: "📢", image: null },
-  POLICE_ACTIVITY: { id: 3, label: "Police Activity", color: "#3B82F6", icon: "👮", image: null },
-  HAZARD: { id: 4, label: "Hazard", color: "#EAB308", icon: "⚠️", image: "/images/hazard.png" },
-  TRAFFIC_JAM: { id: 5, label: "Traffic Jam", color: "#6B7280", icon: "🚦", image: null },
-} as const;
-
-export type EventType = keyof typeof EVENT_TYPES;
+// Event type configurations, kept in lib so server routes can read them too
+export { EVENT_TYPES, type EventType };
 
 export interface ReportMarker {
   id: number;
@@ -130,6 +122,25 @@ export interface ReportMarker {
   expiresAt: number;
 }
 
+/**
+ * A report as /api/reports and /api/reports/corridor return it, as a marker
+ */
+export function toReportMarker(r: any): ReportMarker {
+  return {
+    id: r.id,
+    lat: r.lat,
+    lng: r.lng,
+    eventType: eventTypeKey(r.eventType) || "ACCIDENT",
+    confirmationCount: r.confirmationCount || 0,
+    totalRegards: r.totalRegards || "0",
+    stakeAmount: r.stakeAmount || 0,
+    commitment: r.commitment,
+    txHash: r.txHash,
+    timestamp: r.timestamp ? r.timestamp * 1000 : Date.now(),
+    expiresAt: r.expiresAt || 0,
+  };
+}
+
 interface GoogleMapProps {
   onLocationSelect?: (lat: number, lng: number) => void;
   selectedLocation?: { lat: number; lng: number } | null;
@@ -271,23 +282,24 @@ export default function GoogleMap({
   className = "",
 }: GoogleMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
-  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [map, setMap] = useState<MapProvider | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
-  const markersRef = useRef<Map<number, google.maps.marker.AdvancedMarkerElement>>(new Map());
-  const selectedMarkerRef = useRef<google.maps.marker.AdvancedMarkerElement | null>(null);
 
   // Initialize map
   useEffect(() => {
-    const initMap = async () => {
-      const loader = new Loader({
-        apiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "",
-        version: "weekly",
-        libraries: ["marker"],
-      });
+    let provider: MapProvider | null = null;
+    let cancelled = false;
 
+    const initMap = async () => {
       try {
-        const { Map } = await loader.importLibrary("maps");
-        await loader.importLibrary("marker");
+        provider = await createMapProvider({
+          google: {
+            mapId: "roadguard-map",
+            styles: MANTLE_MAP_STYLE,
+            zoomControlPosition: "RIGHT_BOTTOM",
+            clickableIcons: false,
+          },
+        });
 
         if (!mapRef.current) return;
 
@@ -310,86 +322,54 @@ export default function GoogleMap({
           }
         }
 
-        const mapInstance = new Map(mapRef.current, {
+        if (cancelled || !mapRef.current) return;
+
+        await provider.mount(mapRef.current, {
           center,
           zoom: 14,
-          styles: MANTLE_MAP_STYLE,
-          disableDefaultUI: true,
-          zoomControl: true,
-          zoomControlOptions: {
-            position: google.maps.ControlPosition.RIGHT_BOTTOM,
-          },
-          mapId: "roadguard-map",
-          gestureHandling: "greedy",
-          clickableIcons: false,
+          // Click handler for location selection
+          onClick: ({ lat, lng }) => onLocationSelect?.(lat, lng),
         });
 
-        // Click handler for location selection
-        mapInstance.addListener("click", (e: google.maps.MapMouseEvent) => {
-          if (e.latLng && onLocationSelect) {
-            onLocationSelect(e.latLng.lat(), e.latLng.lng());
-          }
-        });
-
-        setMap(mapInstance);
+        if (cancelled) {
+          provider.destroy();
+          return;
+        }
+        setMap(provider);
         setIsLoaded(true);
       } catch (error) {
-        console.error("Error loading Google Maps:", error);
+        console.error("Error loading map:", error);
       }
     };
 
     initMap();
+
+    return () => {
+      cancelled = true;
+      provider?.destroy();
+    };
   }, [onLocationSelect]);
 
-  // Handle report markers
+  // Report markers, and the selected location on top
   useEffect(() => {
     if (!map || !isLoaded) return;
 
-    // Clear old markers
-    markersRef.current.forEach((marker) => {
-      marker.map = null;
+    const markers: MapMarker[] = reports.map((report) => {
+      const element = createMarkerElement(report.eventType, report.confirmationCount, report.totalRegards);
+      element.addEventListener("click", () => onReportClick?.(report));
+      return { id: report.id, position: { lat: report.lat, lng: report.lng }, element };
     });
-    markersRef.current.clear();
-
-    // Add new markers
-    reports.forEach((report) => {
-      const marker = new google.maps.marker.AdvancedMarkerElement({
-        map,
-        position: { lat: report.lat, lng: report.lng },
-        content: createMarkerElement(report.eventType, report.confirmationCount, report.totalRegards),
-      });
-
-      marker.addListener("click", () => {
-        if (onReportClick) {
-          onReportClick(report);
-        }
-      });
 
-      markersRef.current.set(report.id, marker);
-    });
-  }, [map, isLoaded, reports, onReportClick]);
-
-  // Handle selected location marker
-  useEffect(() => {
-    if (!map || !isLoaded) return;
-
-    // Remove old selected marker
-    if (selectedMarkerRef.current) {
-      selectedMarkerRef.current.map = null;
-      selectedMarkerRef.current = null;
-    }
-
-    // Add new selected marker
     if (selectedLocation) {
-      selectedMarkerRef.current = new google.maps.marker.AdvancedMarkerElement({
-        map,
-        position: selectedLocation,
-        content: createSelectedMarker(),
-      });
-
-      // Pan to selected location
-      map.panTo(selectedLocation);
+      markers.push({ id: "selected", position: selectedLocation, element: createSelectedMarker() });
     }
+
+    map.setMarkers(markers);
+  }, [map, isLoaded, reports, onReportClick, selectedLocation]);
+
+  // Pan to selected location
+  useEffect(() => {
+    if (map && isLoaded && selectedLocation) map.panTo(selectedLocation);
   }, [map, isLoaded, selectedLocation]);
 
   return (
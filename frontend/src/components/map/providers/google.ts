@@ -0,0 +1,278 @@
+import { Loader } from "@googlemaps/js-api-loader";
+import { MarkerClusterer } from "@googlemaps/markerclusterer";
+import { encodePolyline, type LatLng } from "@/lib/corridor";
+import type { RoutePlan, RoutingProvider } from "@/lib/routing";
+import type { HeatmapPoint, MapMarker, MapProvider, MarkerOptions, RouteDrawing } from "./types";
+
+export interface GoogleMapOptions {
+  mapId: string;
+  styles?: google.maps.MapTypeStyle[];
+  zoomControlPosition?: "RIGHT_CENTER" | "RIGHT_BOTTOM";
+  clickableIcons?: boolean;
+}
+
+// The Maps SDK refuses a second Loader with different options, so every
+// Google-backed piece (map and directions) loads it through here
+let sdk: Promise<typeof google> | null = null;
+
+export function loadGoogleMaps(): Promise<typeof google> {
+  sdk ??= new Loader({
+    apiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "",
+    version: "weekly",
+    libraries: ["visualization", "marker", "geometry", "routes"],
+  }).load();
+  return sdk;
+}
+
+// Google removed the heatmap layer from current SDK versions (and from its
+// typings); it's drawn where the SDK still has it and skipped elsewhere
+interface HeatmapLayer {
+  setMap(map: google.maps.Map | null): void;
+  setData(data: { location: google.maps.LatLng; weight: number }[]): void;
+}
+type HeatmapLayerConstructor = new (options: object) => HeatmapLayer;
+
+const HEATMAP_GRADIENT = [
+  "rgba(0, 0, 0, 0)",
+  "rgba(101, 179, 174, 0.4)",
+  "rgba(101, 179, 174, 0.6)",
+  "rgba(249, 115, 22, 0.8)",
+  "rgba(239, 68, 68, 1)",
+];
+
+const endpointIcon = (fillColor: string): google.maps.Symbol => ({
+  path: google.maps.SymbolPath.CIRCLE,
+  scale: 10,
+  fillColor,
+  fillOpacity: 1,
+  strokeColor: "#fff",
+  strokeWeight: 3,
+});
+
+export function createGoogleMapProvider(options: GoogleMapOptions): MapProvider {
+  let map: google.maps.Map | null = null;
+  let markers: google.maps.marker.AdvancedMarkerElement[] = [];
+  let clusterer: MarkerClusterer | null = null;
+  let heatmap: HeatmapLayer | null = null;
+  let routeOverlays: (google.maps.Polyline | google.maps.Marker)[] = [];
+  let zoomAnimation: number | null = null;
+
+  const clearMarkers = () => {
+    clusterer?.clearMarkers();
+    markers.forEach((marker) => (marker.map = null));
+    markers = [];
+  };
+
+  return {
+    name: "google",
+
+    async mount(container, { center, zoom, onClick }) {
+      const google = await loadGoogleMaps();
+
+      map = new google.maps.Map(container, {
+        center,
+        zoom,
+        styles: options.styles,
+        mapId: options.mapId,
+        disableDefaultUI: true,
+        zoomControl: true,
+        zoomControlOptions: {
+          position: google.maps.ControlPosition[options.zoomControlPosition ?? "RIGHT_CENTER"],
+        },
+        gestureHandling: "greedy",
+        clickableIcons: options.clickableIcons,
+      });
+
+      map.addListener("click", (e: google.maps.MapMouseEvent) => {
+        if (e.latLng) onClick?.({ lat: e.latLng.lat(), lng: e.latLng.lng() });
+      });
+    },
+
+    destroy() {
+      clearMarkers();
+      clusterer?.setMap(null);
+      heatmap?.setMap(null);
+      routeOverlays.forEach((overlay) => overlay.setMap(null));
+      if (zoomAnimation !== null) cancelAnimationFrame(zoomAnimation);
+      map = null;
+    },
+
+    getZoom: () => map?.getZoom() || 12,
+
+    setZoom(zoom) {
+      map?.setZoom(zoom);
+    },
+
+    panTo(point) {
+      map?.panTo(point);
+    },
+
+    flyTo(point, zoom) {
+      if (!map) return;
+      map.panTo(point);
+
+      // Step through the zoom levels once the pan is under way
+      const currentZoom = map.getZoom() || 12;
+      const zoomSteps = Math.abs(zoom - currentZoom);
+      const zoomDirection = zoom > currentZoom ? 1 : -1;
+
+      let step = 0;
+      const animateZoom = () => {
+        if (step < zoomSteps && map) {
+          map.setZoom(currentZoom + step * zoomDirection);
+          step++;
+          zoomAnimation = requestAnimationFrame(animateZoom);
+        }
+      };
+      setTimeout(animateZoom, 300);
+    },
+
+    fitBounds(points, padding) {
+      if (!map || points.length === 0) return;
+      const bounds = new google.maps.LatLngBounds();
+      points.forEach((point) => bounds.extend(point));
+      map.fitBounds(bounds, padding);
+    },
+
+    getBounds() {
+      const bounds = map?.getBounds()?.toJSON();
+      return bounds ? { minLat: bounds.south, maxLat: bounds.north, minLng: bounds.west, maxLng: bounds.east } : null;
+    },
+
+    setMarkers(entries: MapMarker[], { cluster = false, renderCluster }: MarkerOptions = {}) {
+      if (!map) return;
+      clearMarkers();
+
+      const { AdvancedMarkerElement } = google.maps.marker;
+      markers = entries.map(
+        (entry) =>
+          new AdvancedMarkerElement({
+            map: cluster ? null : map,
+            position: entry.position,
+            content: entry.element,
+            zIndex: entry.zIndex,
+          })
+      );
+
+      if (!cluster) return;
+      if (!clusterer) {
+        clusterer = new MarkerClusterer({
+          map,
+          renderer: renderCluster && {
+            render: ({ count, position }) =>
+              new AdvancedMarkerElement({ position, content: renderCluster(count), zIndex: count }),
+          },
+        });
+      }
+      clusterer.addMarkers(markers);
+    },
+
+    setHeatmap(points: HeatmapPoint[], visible) {
+      const Heatmap = google.maps.visualization?.HeatmapLayer as unknown as HeatmapLayerConstructor | undefined;
+      if (!map || !Heatmap) return;
+
+      heatmap ??= new Heatmap({ radius: 50, opacity: 0.7, gradient: HEATMAP_GRADIENT });
+      heatmap.setData(points.map((p) => ({ location: new google.maps.LatLng(p.lat, p.lng), weight: p.weight })));
+      heatmap.setMap(visible ? map : null);
+    },
+
+    drawRoutes({ lines, badges, start, end }: RouteDrawing) {
+      if (!map) return;
+      routeOverlays.forEach((overlay) => overlay.setMap(null));
+
+      routeOverlays = [
+        ...lines.map(
+          (line) =>
+            new google.maps.Polyline({
+              path: line.path,
+              strokeColor: line.color,
+              strokeOpacity: line.opacity,
+              strokeWeight: line.width,
+              map,
+              zIndex: line.zIndex,
+            })
+        ),
+        ...badges.map(
+          (badge) =>
+            new google.maps.Marker({
+              position: badge.position,
+              map,
+              label: { text: badge.text, color: badge.textColor, fontWeight: "bold", fontSize: "14px" },
+              icon: {
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: badge.radius,
+                fillColor: badge.fill,
+                fillOpacity: 1,
+                strokeColor: "#fff",
+                strokeWeight: badge.borderWidth,
+              },
+              zIndex: badge.zIndex,
+            })
+        ),
+        new google.maps.Marker({ position: start, map, icon: endpointIcon("#22C55E"), zIndex: 300 }),
+        new google.maps.Marker({ position: end, map, icon: endpointIcon("#EF4444"), zIndex: 300 }),
+      ];
+    },
+
+    clearRoutes() {
+      routeOverlays.forEach((overlay) => overlay.setMap(null));
+      routeOverlays = [];
+    },
+
+    streetViewImage: ({ lat, lng }: LatLng) =>
+      `https://maps.googleapis.com/maps/api/streetview?size=400x200&location=${lat},${lng}&fov=90&heading=235&pitch=10&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY}`,
+  };
+}
+
+const toLatLng = (point: google.maps.LatLng): LatLng => ({ lat: point.lat(), lng: point.lng() });
+
+/** Directions from the Google Directions service, with traffic */
+export function createGoogleRouting(): RoutingProvider {
+  return {
+    async route(origin, destination, { alternatives = true } = {}): Promise<RoutePlan> {
+      const google = await loadGoogleMaps();
+      const service = new google.maps.DirectionsService();
+
+      const result = await new Promise<google.maps.DirectionsResult>((resolve, reject) => {
+        service.route(
+          {
+            origin,
+            destination,
+            travelMode: google.maps.TravelMode.DRIVING,
+            provideRouteAlternatives: alternatives,
+            drivingOptions: {
+              departureTime: new Date(),
+              trafficModel: google.maps.TrafficModel.BEST_GUESS,
+            },
+          },
+          (result, status) => {
+            if (status === google.maps.DirectionsStatus.OK && result) resolve(result);
+            else reject(new Error(`Directions request failed: ${status}`));
+          }
+        );
+      });
+
+      const leg = result.routes[0].legs[0];
+      return {
+        startAddress: leg.start_address,
+        endAddress: leg.end_address,
+        start: toLatLng(leg.start_location),
+        end: toLatLng(leg.end_location),
+        routes: result.routes.map((route) => {
+          const routeLeg = route.legs[0];
+          const path = (route.overview_path || []).map(toLatLng);
+          return {
+            summary: route.summary || "",
+            distance: routeLeg.distance?.value || 0,
+            duration: routeLeg.duration?.value || 0,
+            durationInTraffic: routeLeg.duration_in_traffic?.value,
+            path,
+            polyline: route.overview_polyline || encodePolyline(path),
+            polylinePrecision: 5,
+            warnings: route.warnings || [],
+          };
+        }),
+      };
+    },
+  };
+}
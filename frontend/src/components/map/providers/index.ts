@@ -0,0 +1,59 @@
+import type { RoutingProvider } from "@/lib/routing";
+import type { GoogleMapOptions } from "./google";
+import type { MapProvider, MapProviderName } from "./types";
+
+export * from "./types";
+
+export type RoutingProviderName = "google" | "osrm";
+
+// Google when there's a key for it, MapLibre with OpenStreetMap otherwise.
+// NEXT_PUBLIC_* values are inlined at build time, so each is read by its
+// full name.
+
+export function mapProviderName(): MapProviderName {
+  const configured = process.env.NEXT_PUBLIC_MAP_PROVIDER;
+  if (configured === "google" || configured === "maplibre") return configured;
+  return process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? "google" : "maplibre";
+}
+
+export function routingProviderName(): RoutingProviderName {
+  const configured = process.env.NEXT_PUBLIC_ROUTING_PROVIDER;
+  if (configured === "google" || configured === "osrm") return configured;
+  return mapProviderName() === "google" ? "google" : "osrm";
+}
+
+/**
+ * The configured map, loaded on demand so a deployment only downloads the
+ * library it uses. `google` options apply to the Google map only.
+ */
+export async function createMapProvider(options: { google: GoogleMapOptions }): Promise<MapProvider> {
+  if (mapProviderName() === "google") {
+    const { createGoogleMapProvider } = await import("./google");
+    return createGoogleMapProvider(options.google);
+  }
+
+  const { createMapLibreProvider } = await import("./maplibre");
+  return createMapLibreProvider({
+    styleUrl: process.env.NEXT_PUBLIC_MAP_STYLE_URL,
+    tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL,
+  });
+}
+
+export async function createRoutingProvider(): Promise<RoutingProvider> {
+  if (routingProviderName() === "google") {
+    const { createGoogleRouting } = await import("./google");
+    return createGoogleRouting();
+  }
+
+  const { createOsrmRouting } = await import("@/lib/routing/osrm");
+  const { searchPlaces } = await import("@/lib/geocode/client");
+  return createOsrmRouting({
+    url: process.env.NEXT_PUBLIC_ROUTING_URL,
+    profile: process.env.NEXT_PUBLIC_ROUTING_PROFILE,
+    // Addresses typed into the planner, through /api/geocode
+    geocode: async (query) => {
+      const [place] = await searchPlaces(query, { limit: 1 });
+      return place ? { lat: place.lat, lng: place.lng, address: place.address } : null;
+    },
+  });
+}
@@ -0,0 +1,316 @@
+import maplibregl, { type GeoJSONSource, type StyleSpecification } from "maplibre-gl";
+import "maplibre-gl/dist/maplibre-gl.css";
+import type { LatLng } from "@/lib/corridor";
+import type { HeatmapPoint, MapProvider, MarkerOptions, RouteDrawing } from "./types";
+
+// MapLibre GL over OpenStreetMap tiles: no API key. Markers stay DOM
+// elements, as with Google's AdvancedMarkerElement; clustering comes from
+// the GeoJSON source, and on every render the markers and clusters it has
+// for the visible tiles are put on the map.
+
+export const DEFAULT_OSM_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export interface MapLibreOptions {
+  /** A MapLibre style URL; OSM raster tiles when unset */
+  styleUrl?: string;
+  /** Raster tile URL template for the default style */
+  tileUrl?: string;
+}
+
+const osmStyle = (tileUrl: string): StyleSpecification => ({
+  version: 8,
+  sources: {
+    osm: {
+      type: "raster",
+      tiles: [tileUrl],
+      tileSize: 256,
+      maxzoom: 19,
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    },
+  },
+  layers: [
+    {
+      id: "osm",
+      type: "raster",
+      source: "osm",
+      // Inverted and desaturated, to sit with the rest of the dark UI
+      paint: {
+        "raster-brightness-min": 1,
+        "raster-brightness-max": 0.15,
+        "raster-saturation": -0.7,
+        "raster-hue-rotate": 180,
+      },
+    },
+  ],
+});
+
+const CLUSTER_RADIUS = 60;
+const CLUSTER_MAX_ZOOM = 16;
+
+const emptyCollection = (): GeoJSON.FeatureCollection => ({ type: "FeatureCollection", features: [] });
+
+const toPosition = ({ lat, lng }: LatLng): [number, number] => [lng, lat];
+
+function circleElement(diameter: number, fill: string, borderWidth: number, text = "", textColor = "#fff") {
+  const el = document.createElement("div");
+  el.style.cssText = `
+    width: ${diameter}px;
+    height: ${diameter}px;
+    border-radius: 50%;
+    background: ${fill};
+    border: ${borderWidth}px solid #fff;
+    color: ${textColor};
+    font-size: 14px;
+    font-weight: bold;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+  `;
+  el.textContent = text;
+  return el;
+}
+
+export function createMapLibreProvider(options: MapLibreOptions = {}): MapProvider {
+  let map: maplibregl.Map | null = null;
+  // Report markers by id, and the ones currently on the map (report ids
+  // and cluster ids) by key
+  let markers = new Map<string, maplibregl.Marker>();
+  let shown = new Map<string, maplibregl.Marker>();
+  let renderCluster: MarkerOptions["renderCluster"];
+  let routeMarkers: maplibregl.Marker[] = [];
+
+  const source = (id: string) => map?.getSource<GeoJSONSource>(id);
+
+  // Markers and clusters sit on their bottom center, as Google draws them;
+  // route badges and endpoints are centered
+  const placeMarker = (
+    position: LatLng,
+    element: HTMLElement,
+    zIndex?: number,
+    anchor: maplibregl.PositionAnchor = "bottom"
+  ) => {
+    if (zIndex !== undefined) element.style.zIndex = String(zIndex);
+    return new maplibregl.Marker({ element, anchor }).setLngLat(toPosition(position));
+  };
+
+  // Swap the markers on the map for what the source has in view
+  const updateMarkers = () => {
+    if (!map || !map.isSourceLoaded("reports")) return;
+
+    const next = new Map<string, maplibregl.Marker>();
+    for (const feature of map.querySourceFeatures("reports")) {
+      const properties = feature.properties ?? {};
+      const key = properties.cluster ? `cluster:${properties.cluster_id}` : `marker:${properties.id}`;
+      if (next.has(key)) continue;
+
+      let marker = shown.get(key) ?? markers.get(key);
+      if (!marker && properties.cluster) {
+        const [lng, lat] = (feature.geometry as GeoJSON.Point).coordinates;
+        const count = properties.point_count as number;
+        const element = renderCluster?.(count) ?? circleElement(40, "#65B3AE", 3, String(count));
+        element.addEventListener("click", async () => {
+          const zoom = await source("reports")!.getClusterExpansionZoom(properties.cluster_id);
+          map?.easeTo({ center: [lng, lat], zoom });
+        });
+        marker = placeMarker({ lat, lng }, element, count);
+      }
+      if (!marker) continue;
+
+      next.set(key, marker);
+      if (!shown.has(key)) marker.addTo(map);
+    }
+
+    shown.forEach((marker, key) => {
+      if (!next.has(key)) marker.remove();
+    });
+    shown = next;
+  };
+
+  return {
+    name: "maplibre",
+
+    async mount(container, { center, zoom, onClick }) {
+      map = new maplibregl.Map({
+        container,
+        style: options.styleUrl || osmStyle(options.tileUrl || DEFAULT_OSM_TILE_URL),
+        center: toPosition(center),
+        zoom,
+        attributionControl: { compact: true },
+      });
+      map.addControl(new maplibregl.NavigationControl({ showCompass: false }), "bottom-right");
+
+      await new Promise<void>((resolve) => map!.once("load", () => resolve()));
+
+      map.addSource("heatmap", { type: "geojson", data: emptyCollection() });
+      map.addLayer({
+        id: "heatmap",
+        type: "heatmap",
+        source: "heatmap",
+        layout: { visibility: "none" },
+        paint: {
+          "heatmap-weight": ["interpolate", ["linear"], ["get", "weight"], 0, 0, 10, 1],
+          "heatmap-radius": 40,
+          "heatmap-opacity": 0.7,
+          "heatmap-color": [
+            "interpolate",
+            ["linear"],
+            ["heatmap-density"],
+            0,
+            "rgba(0, 0, 0, 0)",
+            0.25,
+            "rgba(101, 179, 174, 0.4)",
+            0.5,
+            "rgba(101, 179, 174, 0.6)",
+            0.75,
+            "rgba(249, 115, 22, 0.8)",
+            1,
+            "rgba(239, 68, 68, 1)",
+          ],
+        },
+      });
+
+      map.addSource("routes", { type: "geojson", data: emptyCollection() });
+      map.addLayer({
+        id: "routes",
+        type: "line",
+        source: "routes",
+        layout: { "line-join": "round", "line-cap": "round", "line-sort-key": ["get", "zIndex"] },
+        paint: {
+          "line-color": ["get", "color"],
+          "line-opacity": ["get", "opacity"],
+          "line-width": ["get", "width"],
+        },
+      });
+
+      // The markers themselves are DOM elements; this invisible layer is
+      // what makes the source load its tiles
+      map.addSource("reports", {
+        type: "geojson",
+        data: emptyCollection(),
+        cluster: false,
+        clusterRadius: CLUSTER_RADIUS,
+        clusterMaxZoom: CLUSTER_MAX_ZOOM,
+      });
+      map.addLayer({
+        id: "reports",
+        type: "circle",
+        source: "reports",
+        paint: { "circle-radius": 0, "circle-opacity": 0 },
+      });
+      map.on("render", updateMarkers);
+
+      map.on("click", (e) => {
+        // Marker clicks reach the map too; they're the marker's business
+        if ((e.originalEvent.target as HTMLElement | null)?.closest?.(".maplibregl-marker")) return;
+        onClick?.({ lat: e.lngLat.lat, lng: e.lngLat.lng });
+      });
+    },
+
+    destroy() {
+      map?.remove();
+      map = null;
+      markers = new Map();
+      shown = new Map();
+      routeMarkers = [];
+    },
+
+    getZoom: () => map?.getZoom() ?? 12,
+
+    setZoom(zoom) {
+      map?.zoomTo(zoom);
+    },
+
+    panTo(point) {
+      map?.panTo(toPosition(point));
+    },
+
+    flyTo(point, zoom) {
+      map?.flyTo({ center: toPosition(point), zoom });
+    },
+
+    fitBounds(points, padding) {
+      if (!map || points.length === 0) return;
+      const bounds = new maplibregl.LngLatBounds();
+      points.forEach((point) => bounds.extend(toPosition(point)));
+      map.fitBounds(bounds, { padding, maxZoom: CLUSTER_MAX_ZOOM });
+    },
+
+    getBounds() {
+      const bounds = map?.getBounds();
+      return bounds
+        ? { minLat: bounds.getSouth(), maxLat: bounds.getNorth(), minLng: bounds.getWest(), maxLng: bounds.getEast() }
+        : null;
+    },
+
+    setMarkers(entries, { cluster = false, renderCluster: render }: MarkerOptions = {}) {
+      if (!map) return;
+
+      shown.forEach((marker) => marker.remove());
+      shown = new Map();
+      renderCluster = render;
+      markers = new Map(
+        entries.map((entry) => [`marker:${entry.id}`, placeMarker(entry.position, entry.element, entry.zIndex)])
+      );
+
+      source("reports")?.setClusterOptions({ cluster, clusterRadius: CLUSTER_RADIUS, clusterMaxZoom: CLUSTER_MAX_ZOOM });
+      source("reports")?.setData({
+        type: "FeatureCollection",
+        features: entries.map((entry) => ({
+          type: "Feature",
+          properties: { id: entry.id },
+          geometry: { type: "Point", coordinates: toPosition(entry.position) },
+        })),
+      });
+    },
+
+    setHeatmap(points: HeatmapPoint[], visible) {
+      if (!map) return;
+      source("heatmap")?.setData({
+        type: "FeatureCollection",
+        features: points.map((point) => ({
+          type: "Feature",
+          properties: { weight: point.weight },
+          geometry: { type: "Point", coordinates: toPosition(point) },
+        })),
+      });
+      map.setLayoutProperty("heatmap", "visibility", visible ? "visible" : "none");
+    },
+
+    drawRoutes({ lines, badges, start, end }: RouteDrawing) {
+      if (!map) return;
+
+      source("routes")?.setData({
+        type: "FeatureCollection",
+        features: lines.map((line) => ({
+          type: "Feature",
+          properties: { color: line.color, opacity: line.opacity, width: line.width, zIndex: line.zIndex },
+          geometry: { type: "LineString", coordinates: line.path.map(toPosition) },
+        })),
+      });
+
+      routeMarkers.forEach((marker) => marker.remove());
+      routeMarkers = [
+        ...badges.map((badge) =>
+          placeMarker(
+            badge.position,
+            circleElement(badge.radius * 2, badge.fill, badge.borderWidth, badge.text, badge.textColor),
+            badge.zIndex,
+            "center"
+          )
+        ),
+        placeMarker(start, circleElement(20, "#22C55E", 3), 300, "center"),
+        placeMarker(end, circleElement(20, "#EF4444", 3), 300, "center"),
+      ];
+      routeMarkers.forEach((marker) => marker.addTo(map!));
+    },
+
+    clearRoutes() {
+      source("routes")?.setData(emptyCollection());
+      routeMarkers.forEach((marker) => marker.remove());
+      routeMarkers = [];
+    },
+
+    // OSM has no street-level imagery
+    streetViewImage: () => null,
+  };
+}
@@ -0,0 +1,81 @@
+import type { Bounds, LatLng } from "@/lib/corridor";
+
+export type MapProviderName = "google" | "maplibre";
+
+export interface MapMarker {
+  id: number | string;
+  position: LatLng;
+  /** Drawn above `position`, bottom center on it; click handlers are the caller's */
+  element: HTMLElement;
+  zIndex?: number;
+}
+
+export interface MarkerOptions {
+  /** Group nearby markers, each group drawn with `renderCluster` */
+  cluster?: boolean;
+  renderCluster?: (count: number) => HTMLElement;
+}
+
+export interface HeatmapPoint extends LatLng {
+  weight: number;
+}
+
+export interface RouteLine {
+  path: LatLng[];
+  color: string;
+  opacity: number;
+  /** Pixels */
+  width: number;
+  zIndex: number;
+}
+
+/** A numbered circle on a route */
+export interface RouteBadge {
+  position: LatLng;
+  text: string;
+  textColor: string;
+  fill: string;
+  /** Pixels */
+  radius: number;
+  borderWidth: number;
+  zIndex: number;
+}
+
+export interface RouteDrawing {
+  lines: RouteLine[];
+  badges: RouteBadge[];
+  start: LatLng;
+  end: LatLng;
+}
+
+export interface MapMountOptions {
+  center: LatLng;
+  zoom: number;
+  /** Clicks on the map itself, not on markers */
+  onClick?: (point: LatLng) => void;
+}
+
+/**
+ * What the map components need from a map library. Each method draws the
+ * whole layer it's given, replacing what was there before.
+ */
+export interface MapProvider {
+  readonly name: MapProviderName;
+  /** Create the map inside `container`; resolves once it can be drawn on */
+  mount(container: HTMLElement, options: MapMountOptions): Promise<void>;
+  destroy(): void;
+  getZoom(): number;
+  setZoom(zoom: number): void;
+  panTo(point: LatLng): void;
+  /** Animated pan and zoom */
+  flyTo(point: LatLng, zoom: number): void;
+  fitBounds(points: LatLng[], padding: number): void;
+  /** The visible area, or null before the map is drawn */
+  getBounds(): Bounds | null;
+  setMarkers(markers: MapMarker[], options?: MarkerOptions): void;
+  setHeatmap(points: HeatmapPoint[], visible: boolean): void;
+  drawRoutes(drawing: RouteDrawing): void;
+  clearRoutes(): void;
+  /** A street-level photo of `point`, where the provider has imagery */
+  streetViewImage(point: LatLng): string | null;
+}
@@ -3,6 +3,9 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { MapPin, Crosshair } from "lucide-react";
 import { createPortal } from "react-dom";
+import type { Bounds } from "@/lib/corridor";
+import { reverseGeocode, searchPlaces, suggestPlaces } from "@/lib/geocode/client";
+import type { Place } from "@/lib/geocode/provider";
 
 interface PlacesAutocompleteProps {
   value: string;
@@ -10,15 +13,8 @@ interface PlacesAutocompleteProps {
   placeholder?: string;
   className?: string;
   showMyLocation?: boolean;
-}
-
-interface Prediction {
-  place_id: string;
-  description: string;
-  structured_formatting: {
-    main_text: string;
-    secondary_text: string;
-  };
+  /** The visible map, so nearby places are suggested first */
+  getViewport?: () => Bounds | null;
 }
 
 export default function PlacesAutocomplete({
@@ -27,29 +23,26 @@ export default function PlacesAutocomplete({
   placeholder = "Search location...",
   className = "",
   showMyLocation = false,
+  getViewport,
 }: PlacesAutocompleteProps) {
-  const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [predictions, setPredictions] = useState<Place[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isLocating, setIsLocating] = useState(false);
+  // The geocoder only answers explicit searches, so wait for Enter
+  const [submitOnly, setSubmitOnly] = useState(false);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0, width: 0 });
-  const autocompleteService = useRef<google.maps.places.AutocompleteService | null>(null);
-  const geocoder = useRef<google.maps.Geocoder | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const debounceTimer = useRef<NodeJS.Timeout | null>(null);
+  const searchRequest = useRef<AbortController | null>(null);
 
-  // Initialize services
+  // Drop any pending search on unmount
   useEffect(() => {
-    const initService = () => {
-      if (window.google?.maps?.places) {
-        autocompleteService.current = new google.maps.places.AutocompleteService();
-        geocoder.current = new google.maps.Geocoder();
-      } else {
-        setTimeout(initService, 500);
-      }
+    return () => {
+      if (debounceTimer.current) clearTimeout(debounceTimer.current);
+      searchRequest.current?.abort();
     };
-    initService();
   }, []);
 
   // Update dropdown position when open
@@ -75,40 +68,50 @@ export default function PlacesAutocomplete({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  // Fetch predictions with debounce
-  const fetchPredictions = useCallback((input: string) => {
+  const runSearch = useCallback(async (input: string, explicit: boolean) => {
+    const controller = new AbortController();
+    searchRequest.current = controller;
+    try {
+      const options = { viewport: getViewport?.(), signal: controller.signal };
+      const places = explicit ? await searchPlaces(input, options) : await suggestPlaces(input, options);
+      if (places === null) {
+        setSubmitOnly(true);
+        setPredictions([]);
+      } else {
+        setPredictions(places);
+        setIsOpen(places.length > 0);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Place search error:", error);
+      setPredictions([]);
+    }
+    setIsLoading(false);
+  }, [getViewport]);
+
+  // Fetch predictions with debounce, or right away on Enter
+  const fetchPredictions = useCallback((input: string, explicit = false) => {
     if (debounceTimer.current) {
       clearTimeout(debounceTimer.current);
     }
+    // Results for what was typed before are stale now
+    searchRequest.current?.abort();
 
-    if (!input || input.length < 2) {
+    if (!input || input.trim().length < 2 || (submitOnly && !explicit)) {
       setPredictions([]);
       setIsOpen(false);
+      setIsLoading(false);
       return;
     }
 
     setIsLoading(true);
 
-    debounceTimer.current = setTimeout(() => {
-      if (autocompleteService.current) {
-        autocompleteService.current.getPlacePredictions(
-          {
-            input,
-            types: ["geocode", "establishment"],
-          },
-          (results, status) => {
-            setIsLoading(false);
-            if (status === google.maps.places.PlacesServiceStatus.OK && results) {
-              setPredictions(results as Prediction[]);
-              setIsOpen(true);
-            } else {
-              setPredictions([]);
-            }
-          }
-        );
-      }
-    }, 300);
-  }, []);
+    if (explicit) {
+      runSearch(input, true);
+    } else {
+      debounceTimer.current = setTimeout(() => runSearch(input, false), 300);
+    }
+  }, [runSearch, submitOnly]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
@@ -116,8 +119,14 @@ export default function PlacesAutocomplete({
     fetchPredictions(newValue);
   };
 
-  const handleSelectPrediction = (prediction: Prediction) => {
-    onChange(prediction.description);
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    fetchPredictions(value, true);
+  };
+
+  const handleSelectPrediction = (place: Place) => {
+    onChange(place.address);
     setPredictions([]);
     setIsOpen(false);
     inputRef.current?.blur();
@@ -132,26 +141,18 @@ export default function PlacesAutocomplete({
 
     setIsLocating(true);
     navigator.geolocation.getCurrentPosition(
-      (position) => {
+      async (position) => {
         const { latitude, longitude } = position.coords;
 
-        // Reverse geocode to get address
-        if (geocoder.current) {
-          geocoder.current.geocode(
-            { location: { lat: latitude, lng: longitude } },
-            (results, status) => {
-              setIsLocating(false);
-              if (status === "OK" && results && results[0]) {
-                onChange(results[0].formatted_address);
-              } else {
-                onChange(`${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
-              }
-            }
-          );
-        } else {
-          setIsLocating(false);
-          onChange(`${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
+        // Reverse geocode to get address, falling back to the coordinates
+        let place: Place | null = null;
+        try {
+          place = await reverseGeocode({ lat: latitude, lng: longitude });
+        } catch (error) {
+          console.error("Reverse geocoding error:", error);
         }
+        setIsLocating(false);
+        onChange(place?.address || `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
       },
       (error) => {
         setIsLocating(false);
@@ -173,19 +174,19 @@ export default function PlacesAutocomplete({
         zIndex: 99999,
       }}
     >
-      {predictions.map((prediction) => (
+      {predictions.map((place) => (
         <button
-          key={prediction.place_id}
-          onClick={() => handleSelectPrediction(prediction)}
+          key={place.id}
+          onClick={() => handleSelectPrediction(place)}
           className="w-full px-4 py-3 flex items-start gap-3 hover:bg-mantle-accent/20 transition-colors text-left border-b border-white/5 last:border-b-0"
         >
           <MapPin className="w-5 h-5 text-mantle-accent mt-0.5 flex-shrink-0" />
           <div className="min-w-0">
             <div className="text-sm font-semibold text-white">
-              {prediction.structured_formatting.main_text}
+              {place.name}
             </div>
             <div className="text-xs text-mantle-text-secondary">
-              {prediction.structured_formatting.secondary_text}
+              {place.address}
             </div>
           </div>
         </button>
@@ -201,8 +202,10 @@ export default function PlacesAutocomplete({
         type="text"
         value={value}
         onChange={handleInputChange}
+        onKeyDown={handleKeyDown}
+        enterKeyHint="search"
         onFocus={() => predictions.length > 0 && setIsOpen(true)}
-        placeholder={placeholder}
+        placeholder={submitOnly ? `${placeholder} (Enter to search)` : placeholder}
         className={`flex-1 bg-mantle-bg-tertiary rounded-lg px-3 py-2 text-sm text-white placeholder:text-mantle-text-tertiary border border-white/10 focus:border-mantle-accent focus:outline-none ${className}`}
       />
 
@@ -1,10 +1,46 @@
 "use client";
 
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import {
+  usePublicClient,
+  useReadContract,
+  useReadContracts,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
 import { keccak256, encodePacked, parseEther } from "viem";
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useState, useEffect, useMemo, useSyncExternalStore } from "react";
 import { RoadGuardABI } from "@/lib/contracts/RoadGuardABI";
-import { ROADGUARD_ADDRESS, MIN_STAKE } from "@/lib/wagmi";
+import { ROADGUARD_ADDRESS, ROADGUARD_DEPLOY_BLOCK, MIN_STAKE } from "@/lib/wagmi";
+import { solvePow, type PowSolution } from "@/lib/relay/pow";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  createIdentityRegistry,
+  deriveCommentKey,
+  deriveReportIdentity,
+  listClaimableIdentities,
+  parseIdentityRegistry,
+  recordReportId,
+  reserveIdentityIndex,
+  type DerivedIdentity,
+  type IdentityRegistry,
+  type ReporterIdentity,
+} from "@/lib/identity";
+import { getVaultSession, VAULT_MIN_PIN_LENGTH } from "@/lib/vault";
+import {
+  createBackup,
+  mnemonicToIdentity,
+  openBackup,
+  rescanIdentityRegistry,
+  secretToMnemonic,
+  type BackupFile,
+  type CommitmentActivityLookup,
+} from "@/lib/backup";
+import type { UploadedPhoto } from "@/lib/media/store";
+import type { CommentFlagReason, CommentPage, CommentReaction, CommentThread } from "@/lib/comments/store";
+import type { CommentEvent } from "@/lib/comments/events";
+import { applyCommentEvent, countComments, insertComment, removeComment, updateComment } from "@/lib/comments/threads";
+import { commentMessage, type CommentProof } from "@/lib/comments/signatures";
+import { loadDeviceReactor, REACTOR_HEADER } from "@/lib/comments/reactors";
 import { mantle } from "wagmi/chains";
 
 const contractAddress = ROADGUARD_ADDRESS[mantle.id];
@@ -52,6 +88,219 @@ export function useReport(reportId: bigint) {
   });
 }
 
+export interface ReportDetailsView {
+  id: number;
+  description: string;
+  photos: string[];
+  /** Variants and blurhash per photo; null for photos uploaded without them */
+  images: (UploadedPhoto | null)[];
+  /** Address the reporter signs comments with, if they registered one */
+  commentKey: `0x${string}` | null;
+  contentHash: `0x${string}`;
+  txHash: `0x${string}`;
+  createdAt: string;
+  integrity: { contentMatches: boolean; anchored: boolean | null };
+}
+
+/**
+ * Hook for loading a report's description and photos
+ * Resolves to null for reports submitted without any
+ */
+export function useReportDetails(reportId: number | null) {
+  const [details, setDetails] = useState<ReportDetailsView | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setDetails(null);
+    setIsLoading(reportId !== null);
+    if (reportId === null) return;
+
+    let cancelled = false;
+    fetch(`/api/reports/${reportId}`)
+      .then(async (response) => (response.ok ? ((await response.json()) as ReportDetailsView) : null))
+      .catch(() => null)
+      .then((next) => {
+        if (cancelled) return;
+        setDetails(next);
+        setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  return { details, isLoading };
+}
+
+/**
+ * Hook for a report's comments: top-level comments newest first, each with
+ * its replies. `loadMore` fetches the next page; `post` adds a comment or a
+ * reply, signed if a proof is given; `react` toggles this device's reaction;
+ * `flag` reports a comment to moderators. New comments, reactions and
+ * removals stream in live while the report is open.
+ */
+export function useReportComments(reportId: number | null) {
+  const [page, setPage] = useState<CommentPage>({ comments: [], total: 0, nextCursor: null });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Keep `total` in step with comments added or removed in loaded threads
+  const applyToThreads = useCallback((change: (threads: CommentThread[]) => CommentThread[]) => {
+    setPage((current) => {
+      const comments = change(current.comments);
+      return { ...current, comments, total: current.total + countComments(comments) - countComments(current.comments) };
+    });
+  }, []);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null): Promise<CommentPage> => {
+      const query = new URLSearchParams({ reportId: String(reportId), limit: "20" });
+      if (cursor) query.set("cursor", cursor);
+      const reactor = loadDeviceReactor();
+      const response = await fetch(`/api/comments?${query}`, {
+        headers: reactor ? { [REACTOR_HEADER]: JSON.stringify(reactor) } : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load comments");
+      return data;
+    },
+    [reportId]
+  );
+
+  useEffect(() => {
+    setPage({ comments: [], total: 0, nextCursor: null });
+    setError(null);
+    if (reportId === null) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      setIsLoading(true);
+      fetchPage(null)
+        .then((first) => !cancelled && setPage(first))
+        .catch((e) => !cancelled && setError(e))
+        .finally(() => !cancelled && setIsLoading(false));
+    };
+    refresh();
+
+    // The stream only carries updates; each (re)connect re-reads the first
+    // page to catch up on anything missed while disconnected
+    const source = typeof EventSource === "undefined" ? null : new EventSource(`/api/comments?reportId=${reportId}`);
+    let connected = false;
+    source?.addEventListener("open", () => {
+      if (connected) refresh();
+      connected = true;
+    });
+    for (const type of ["comment", "reaction", "removed"]) {
+      source?.addEventListener(type, (message) => {
+        const event = JSON.parse((message as MessageEvent<string>).data) as CommentEvent;
+        if (!cancelled) applyToThreads((threads) => applyCommentEvent(threads, event));
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  }, [reportId, fetchPage, applyToThreads]);
+
+  const loadMore = useCallback(async () => {
+    if (!page.nextCursor) return;
+    setIsLoading(true);
+    try {
+      const next = await fetchPage(page.nextCursor);
+      setPage((current) => ({
+        comments: [...current.comments, ...next.comments.filter((c) => !current.comments.some((known) => known.id === c.id))],
+        total: next.total,
+        nextCursor: next.nextCursor,
+      }));
+    } catch (e: any) {
+      setError(e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage, page.nextCursor]);
+
+  const post = useCallback(
+    async (text: string, proof?: CommentProof | null, parentId?: string | null) => {
+      const reactor = loadDeviceReactor();
+      if (reportId === null || !reactor) return;
+      setIsPosting(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/comments", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reportId, text, reactor, ...(proof && { proof }), ...(parentId && { parentId }) }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to post comment");
+        applyToThreads((threads) => insertComment(threads, data.comment));
+      } catch (e: any) {
+        setError(e);
+        throw e;
+      } finally {
+        setIsPosting(false);
+      }
+    },
+    [reportId, applyToThreads]
+  );
+
+  const react = useCallback(
+    async (commentId: string, reaction: CommentReaction) => {
+      const reactor = loadDeviceReactor();
+      if (reportId === null || !reactor) return;
+      setError(null);
+      const response = await fetch("/api/comments", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportId, commentId, reaction, reactor }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(new Error(data.error || "Failed to react"));
+        return;
+      }
+      applyToThreads((threads) => updateComment(threads, commentId, () => data.comment));
+    },
+    [reportId, applyToThreads]
+  );
+
+  const flag = useCallback(
+    async (commentId: string, reason: CommentFlagReason, note?: string) => {
+      const reactor = loadDeviceReactor();
+      if (reportId === null || !reactor) return false;
+      setError(null);
+      const response = await fetch("/api/comments/flags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportId, commentId, reason, note, reactor }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(new Error(data.error || "Failed to flag comment"));
+        return false;
+      }
+      if (data.hidden) applyToThreads((threads) => removeComment(threads, commentId));
+      return true;
+    },
+    [reportId, applyToThreads]
+  );
+
+  return {
+    comments: page.comments,
+    total: page.total,
+    hasMore: !!page.nextCursor,
+    loadMore,
+    post,
+    react,
+    flag,
+    isLoading,
+    isPosting,
+    error,
+  };
+}
+
 /**
  * Hook for reading pending rewards
  */
@@ -67,9 +316,92 @@ export function usePendingRewards(commitment: `0x${string}` | undefined) {
   });
 }
 
+export type RelayJobStatus = "queued" | "submitted" | "confirmed" | "failed";
+
+/** Job as returned by GET /api/relay/jobs/:id */
+interface RelayJobView {
+  id: string;
+  status: RelayJobStatus;
+  txHash: `0x${string}` | null;
+  blockNumber: string | null;
+  reportId: number | null;
+  payoutJobId: string | null;
+  error: string | null;
+  expectedInclusionAt: string | null;
+}
+
+/** How often relay jobs are polled */
+const RELAY_POLL_INTERVAL_MS = 2000;
+/** Give up polling (not the job itself) this long after the expected inclusion */
+const RELAY_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Human-readable expected inclusion delay, e.g. "about 3 minutes"
+ */
+export function formatRelayDelay(seconds: number): string {
+  if (seconds < 60) return "under a minute";
+  const minutes = Math.round(seconds / 60);
+  return `about ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+/**
+ * Solve the relayer's anti-spam puzzle (skipped when difficulty is 0)
+ */
+async function solveRelayChallenge(commitment: `0x${string}`): Promise<PowSolution | undefined> {
+  const response = await fetch("/api/relay/challenge");
+  if (!response.ok) return undefined;
+  const { challenge, difficulty } = await response.json();
+  if (!challenge) return undefined;
+  return { challenge, solution: await solvePow(challenge, commitment, difficulty) };
+}
+
+/**
+ * Throw a readable error for a failed relay request
+ */
+async function readRelayResponse(response: Response, fallback: string) {
+  const data = await response.json();
+  if (response.status === 429) {
+    const minutes = Math.ceil((data.retryAfter ?? 60) / 60);
+    throw new Error(`${data.error} Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`);
+  }
+  if (!response.ok) {
+    throw new Error(data.error || fallback);
+  }
+  return data;
+}
+
+/**
+ * Poll a relay job until it is confirmed; throws if it fails or polling times out
+ */
+async function waitForRelayJob(
+  jobId: string,
+  initialInclusionAt: Date,
+  onUpdate: (job: RelayJobView, inclusionAt: Date) => void
+): Promise<RelayJobView> {
+  let inclusionAt = initialInclusionAt;
+  while (Date.now() < inclusionAt.getTime() + RELAY_POLL_TIMEOUT_MS) {
+    await new Promise((resolve) => setTimeout(resolve, RELAY_POLL_INTERVAL_MS));
+
+    const response = await fetch(`/api/relay/jobs/${jobId}`);
+    if (!response.ok) continue;
+
+    const { job } = (await response.json()) as { job: RelayJobView };
+    if (job.expectedInclusionAt) inclusionAt = new Date(job.expectedInclusionAt);
+    onUpdate(job, inclusionAt);
+
+    if (job.status === "failed") {
+      throw new Error(job.error || "Relayed transaction failed");
+    }
+    if (job.status === "confirmed") return job;
+  }
+
+  throw new Error("Timed out waiting for the relayer. Your request is still queued.");
+}
+
 /**
  * Hook for submitting a report ANONYMOUSLY via relayer
- * The relayer submits the transaction, so your wallet is never linked to the report
+ * The relayer submits the transaction, so your wallet is never linked to the report.
+ * The report is queued server-side; this hook polls the job until it is mined.
  */
 export function useSubmitReport() {
   const [isPending, setIsPending] = useState(false);
@@ -77,6 +409,11 @@ export function useSubmitReport() {
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [hash, setHash] = useState<`0x${string}` | undefined>(undefined);
+  const [jobId, setJobId] = useState<string | undefined>(undefined);
+  const [jobStatus, setJobStatus] = useState<RelayJobStatus | undefined>(undefined);
+  // When the relayer mixes reports, inclusion is deliberately delayed
+  const [expectedInclusionAt, setExpectedInclusionAt] = useState<Date | undefined>(undefined);
+  const [expectedDelaySeconds, setExpectedDelaySeconds] = useState<number | undefined>(undefined);
 
   const submitReport = useCallback(
     async (params: {
@@ -85,16 +422,42 @@ export function useSubmitReport() {
       longitude: number;
       eventType: 0 | 1 | 2 | 3 | 4 | 5;
       stakeAmount?: bigint;
+      /** Saved with the report once it is mined */
+      description?: string;
+      /** URLs returned by /api/upload */
+      photos?: string[];
+      /** Address the reporter will sign comments with, registered with the report */
+      commentKey?: `0x${string}`;
     }) => {
-      const { commitment, latitude, longitude, eventType, stakeAmount = MIN_STAKE } = params;
+      const {
+        commitment,
+        latitude,
+        longitude,
+        eventType,
+        stakeAmount = MIN_STAKE,
+        description,
+        photos,
+        commentKey,
+      } = params;
 
       setIsPending(true);
       setIsConfirming(false);
       setIsSuccess(false);
       setError(null);
       setHash(undefined);
+      setJobId(undefined);
+      setJobStatus(undefined);
+      setExpectedInclusionAt(undefined);
+      setExpectedDelaySeconds(undefined);
+
+      const updateEstimate = (inclusionAt: Date) => {
+        setExpectedInclusionAt(inclusionAt);
+        setExpectedDelaySeconds(Math.max(0, Math.ceil((inclusionAt.getTime() - Date.now()) / 1000)));
+      };
 
       try {
+        const pow = await solveRelayChallenge(commitment);
+
         // Submit via relayer for 100% privacy
         const response = await fetch("/api/relay/report", {
           method: "POST",
@@ -105,32 +468,39 @@ export function useSubmitReport() {
             longitude,
             eventType,
             stakeAmount: stakeAmount.toString(),
+            description,
+            photos,
+            commentKey,
+            pow,
           }),
         });
+        const data = await readRelayResponse(response, "Failed to submit report");
 
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.error || "Failed to submit report");
-        }
-
-        setHash(data.txHash as `0x${string}`);
+        setJobId(data.jobId);
+        setJobStatus(data.status);
+        const inclusionAt = data.expectedInclusionAt ? new Date(data.expectedInclusionAt) : new Date();
+        updateEstimate(inclusionAt);
+        setIsPending(false);
         setIsConfirming(true);
 
-        // The relayer already waits for confirmation, so we're done
-        setIsConfirming(false);
-        setIsSuccess(true);
+        // Poll the queued job until the relayer's tx is mined
+        const job = await waitForRelayJob(data.jobId, inclusionAt, (update, estimate) => {
+          setJobStatus(update.status);
+          updateEstimate(estimate);
+          if (update.txHash) setHash(update.txHash);
+        });
 
-        console.log("[Anonymous Report] Submitted via relayer:", data.txHash);
+        setIsSuccess(true);
+        console.log("[Anonymous Report] Submitted via relayer:", job.txHash);
         console.log("[Anonymous Report] Your wallet is NOT linked to this report!");
-
-        return data;
+        return { ...data, txHash: job.txHash, blockNumber: job.blockNumber, reportId: job.reportId };
       } catch (err: any) {
         console.error("[Anonymous Report] Error:", err);
         setError(err);
         throw err;
       } finally {
         setIsPending(false);
+        setIsConfirming(false);
       }
     },
     []
@@ -139,6 +509,10 @@ export function useSubmitReport() {
   return {
     submitReport,
     hash,
+    jobId,
+    jobStatus,
+    expectedInclusionAt,
+    expectedDelaySeconds,
     isPending,
     isConfirming,
     isSuccess,
@@ -244,23 +618,62 @@ export function useSendRegards() {
   };
 }
 
+/**
+ * Hook for reading pending rewards across several commitments in one multicall
+ * Returns the total plus each commitment's share, in the same order
+ */
+export function usePendingRewardsForCommitments(commitments: `0x${string}`[]) {
+  const result = useReadContracts({
+    contracts: commitments.map((commitment) => ({
+      address: contractAddress,
+      abi: RoadGuardABI,
+      functionName: "getPendingRewards" as const,
+      args: [commitment] as const,
+    })),
+    query: {
+      enabled: commitments.length > 0,
+    },
+  });
+
+  const amounts = useMemo(
+    () => commitments.map((_, i) => (result.data?.[i]?.result as bigint | undefined) ?? BigInt(0)),
+    [commitments, result.data]
+  );
+  const total = useMemo(() => amounts.reduce((sum, amount) => sum + amount, BigInt(0)), [amounts]);
+
+  return {
+    total,
+    amounts,
+    isLoading: result.isLoading,
+    refetch: result.refetch,
+  };
+}
+
 /**
  * Hook for claiming rewards
+ * Takes every secret with pending rewards and claims them one after another
+ * (one wallet confirmation each); `hash` tracks the latest claim.
  */
 export function useClaimRewards() {
-  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { writeContractAsync, data: hash, isPending, error } = useWriteContract();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
 
   const claimRewards = useCallback(
-    (secret: `0x${string}`, recipient: `0x${string}`) => {
-      return writeContract({
-        address: contractAddress,
-        abi: RoadGuardABI,
-        functionName: "claimRewards",
-        args: [secret, recipient],
-      });
+    async (secrets: `0x${string}`[], recipient: `0x${string}`) => {
+      const hashes: `0x${string}`[] = [];
+      for (const secret of secrets) {
+        hashes.push(
+          await writeContractAsync({
+            address: contractAddress,
+            abi: RoadGuardABI,
+            functionName: "claimRewards",
+            args: [secret, recipient],
+          })
+        );
+      }
+      return hashes;
     },
-    [writeContract]
+    [writeContractAsync]
   );
 
   return {
@@ -273,71 +686,373 @@ export function useClaimRewards() {
   };
 }
 
-const IDENTITY_STORAGE_KEY = "roadguard_identity";
+export interface PrivateClaimQuote {
+  pending: bigint;
+  fee: bigint;
+  net: bigint;
+}
 
 /**
- * Hook for managing reporter identity (stored locally)
- * Provides privacy by keeping the secret client-side
+ * Hook for claiming rewards PRIVATELY via relayer
+ * The relayer claims with your secrets and forwards the rewards, minus a
+ * quoted fee for its gas, to a fresh address in a single payout. Your wallet
+ * never calls the contract, so it is never linked to your commitments.
  */
-export function useReporterIdentity() {
-  const [identity, setIdentity] = useState<{
-    secret: `0x${string}`;
-    commitment: `0x${string}`;
-  } | null>(null);
+export function useClaimRewardsPrivately() {
+  const [quote, setQuote] = useState<PrivateClaimQuote | undefined>(undefined);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [hash, setHash] = useState<`0x${string}` | undefined>(undefined);
 
-  const createIdentity = useCallback((passphrase: string) => {
-    const newIdentity = generateCommitment(passphrase);
-    setIdentity(newIdentity);
+  const parseQuote = (data: { pending: string; fee: string; net: string }): PrivateClaimQuote => ({
+    pending: BigInt(data.pending),
+    fee: BigInt(data.fee),
+    net: BigInt(data.net),
+  });
 
-    // Store encrypted in localStorage (in production, use better encryption)
-    if (typeof window !== "undefined") {
-      try {
-        localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(newIdentity));
-      } catch (e) {
-        console.error("Failed to save identity:", e);
-      }
+  const getQuote = useCallback(async (secrets: `0x${string}`[], recipient?: `0x${string}`) => {
+    setIsQuoting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/relay/claim/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ secrets, recipient }),
+      });
+      const next = parseQuote(await readRelayResponse(response, "Failed to get a fee quote"));
+      setQuote(next);
+      return next;
+    } catch (err: any) {
+      setError(err);
+      throw err;
+    } finally {
+      setIsQuoting(false);
     }
-
-    return newIdentity;
   }, []);
 
-  const loadIdentity = useCallback(() => {
-    if (typeof window !== "undefined") {
+  const claimPrivately = useCallback(
+    async (params: { secrets: `0x${string}`[]; recipient: `0x${string}`; maxFee: bigint }) => {
+      const { secrets, recipient, maxFee } = params;
+
+      setIsPending(true);
+      setIsConfirming(false);
+      setIsSuccess(false);
+      setError(null);
+      setHash(undefined);
+
       try {
-        const stored = localStorage.getItem(IDENTITY_STORAGE_KEY);
-        if (stored) {
-          const parsed = JSON.parse(stored);
-          setIdentity(parsed);
-          return parsed;
+        if (secrets.length === 0) throw new Error("No rewards to claim");
+
+        // The proof of work is bound to the first commitment in the batch
+        const commitment = keccak256(encodePacked(["bytes32"], [secrets[0]]));
+        const pow = await solveRelayChallenge(commitment);
+
+        const response = await fetch("/api/relay/claim", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ secrets, recipient, maxFee: maxFee.toString(), pow }),
+        });
+
+        if (response.status === 409) {
+          // Gas got more expensive; show the new quote and let the user agree again
+          const data = await response.json();
+          setQuote(parseQuote(data));
+          throw new Error(data.error);
         }
-      } catch (e) {
-        console.error("Failed to load identity:", e);
-      }
-    }
-    return null;
-  }, []);
 
-  const clearIdentity = useCallback(() => {
-    setIdentity(null);
-    if (typeof window !== "undefined") {
-      try {
-        localStorage.removeItem(IDENTITY_STORAGE_KEY);
-      } catch (e) {
-        console.error("Failed to clear identity:", e);
+        const data = await readRelayResponse(response, "Failed to claim rewards");
+        setQuote(parseQuote(data));
+        setIsPending(false);
+        setIsConfirming(true);
+
+        // Each commitment is claimed in its own transaction; the payout waits for all of them
+        const inclusionAt = data.expectedInclusionAt ? new Date(data.expectedInclusionAt) : new Date();
+        const claims = await Promise.allSettled(
+          (data.jobIds as string[]).map((jobId) => waitForRelayJob(jobId, inclusionAt, () => {}))
+        );
+        const confirmed = claims.flatMap((claim) => (claim.status === "fulfilled" ? [claim.value] : []));
+        if (confirmed.length === 0) {
+          const failure = claims[0] as PromiseRejectedResult;
+          throw failure.reason;
+        }
+
+        // The relayer now forwards the rewards to the recipient
+        const payout = await waitForRelayJob(data.payoutJobId, new Date(), (update) => {
+          if (update.txHash) setHash(update.txHash);
+        });
+
+        setIsSuccess(true);
+        return { claimTxHashes: confirmed.map((claim) => claim.txHash), payoutTxHash: payout.txHash };
+      } catch (err: any) {
+        console.error("[Private Claim] Error:", err);
+        setError(err);
+        throw err;
+      } finally {
+        setIsPending(false);
+        setIsConfirming(false);
       }
-    }
-  }, []);
+    },
+    []
+  );
+
+  return {
+    getQuote,
+    claimPrivately,
+    quote,
+    isQuoting,
+    hash,
+    isPending,
+    isConfirming,
+    isSuccess,
+    error,
+  };
+}
+
+// User activity that keeps the vault unlocked
+const VAULT_ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll"] as const;
+
+/**
+ * Hook for managing reporter identity
+ * Provides privacy by keeping the secret client-side, encrypted under a PIN
+ * (see lib/vault). The passphrase yields a master identity; each report uses
+ * a fresh identity derived from it (see lib/identity), so reports can't be
+ * linked to each other on-chain. All components share one lock state.
+ */
+export function useReporterIdentity() {
+  const session = getVaultSession();
+  const { status, identity, registry } = useSyncExternalStore(session.subscribe, session.getState, session.getState);
+
+  const loadIdentity = useCallback(() => session.load(), [session]);
+
+  const createIdentity = useCallback(
+    (passphrase: string, pin: string) => session.create(generateCommitment(passphrase), pin),
+    [session]
+  );
+
+  /** Unlock with the PIN, or set one for an identity stored before the vault */
+  const unlock = useCallback(
+    (pin: string) => (session.getState().status === "legacy" ? session.migrate(pin) : session.unlock(pin)),
+    [session]
+  );
+
+  const lock = useCallback(() => session.lock(), [session]);
+
+  /**
+   * Remove the identity and its registry from this device. Restoring the
+   * passphrase rescans the chain for the report indices used.
+   */
+  const clearIdentity = useCallback(() => session.clear(), [session]);
+
+  /**
+   * Reserve a fresh identity for one report, with the address of its comment
+   * key. The index is recorded before the report is sent, so a failed
+   * submission just skips it.
+   */
+  const nextReportIdentity = useCallback(async (): Promise<DerivedIdentity & { commentKey: `0x${string}` }> => {
+    if (!identity) throw new Error("Unlock your identity first");
+
+    // Reserved against the session's registry, so two open panels never hand out the same index
+    let index = -1;
+    const next = await session.updateRegistry((current) => {
+      const reserved = reserveIdentityIndex(current);
+      index = reserved.index;
+      return reserved.registry;
+    });
+    if (!next) throw new Error("Unlock your identity first");
+
+    return { ...deriveReportIdentity(identity.secret, index), commentKey: deriveCommentKey(identity.secret, index).address };
+  }, [session, identity]);
+
+  /** Note which report an index ended up on, so backups can list it */
+  const recordReport = useCallback(
+    (index: number, reportId: number) => session.updateRegistry((current) => recordReportId(current, index, reportId)),
+    [session]
+  );
+
+  /**
+   * Sign a comment on one of this device's reports with the report's comment
+   * key. Null if the report wasn't made from this identity.
+   */
+  const signAsReporter = useCallback(
+    async (reportId: number, text: string): Promise<CommentProof | null> => {
+      if (!identity || !registry) return null;
+      const entry = registry.used.find((used) => used.reportId === reportId);
+      if (!entry) return null;
+      const signedAt = Date.now();
+      const account = privateKeyToAccount(deriveCommentKey(identity.secret, entry.index).privateKey);
+      const signature = await account.signMessage({ message: commentMessage({ reportId, text, signedAt }) });
+      return { signer: "reporter", signedAt, signature };
+    },
+    [identity, registry]
+  );
+
+  /** The master secret as a 24-word recovery phrase */
+  const getRecoveryPhrase = useCallback(() => {
+    if (!identity) throw new Error("Unlock your identity first");
+    return secretToMnemonic(identity.secret);
+  }, [identity]);
+
+  /** Encrypted backup of the identity and every report index used */
+  const exportBackup = useCallback(
+    (password: string): Promise<BackupFile> => {
+      if (!identity || !registry) throw new Error("Unlock your identity first");
+      return createBackup(identity, registry, password);
+    },
+    [identity, registry]
+  );
+
+  /** Replace this device's identity and registry with restored ones */
+  const restoreIdentity = useCallback(
+    async (restored: ReporterIdentity, restoredRegistry: IdentityRegistry, pin: string) => {
+      await session.create(restored, pin, restoredRegistry);
+    },
+    [session]
+  );
 
   // Auto-load on mount
   useEffect(() => {
     loadIdentity();
   }, [loadIdentity]);
 
+  // Activity postpones the auto-lock
+  useEffect(() => {
+    if (status !== "unlocked") return;
+    const touch = () => session.touch();
+    VAULT_ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, touch, { passive: true }));
+    return () => VAULT_ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, touch));
+  }, [session, status]);
+
+  const claimableIdentities = useMemo(
+    () => (identity ? listClaimableIdentities(identity, registry) : []),
+    [identity, registry]
+  );
+
   return {
+    /** Only set while the vault is unlocked */
     identity,
+    status,
     createIdentity,
     loadIdentity,
+    unlock,
+    lock,
     clearIdentity,
+    nextReportIdentity,
+    recordReport,
+    signAsReporter,
+    /** Whether this device made the report, and can sign as its reporter */
+    isReporterOf: (reportId: number) => !!registry?.used.some((used) => used.reportId === reportId),
+    getRecoveryPhrase,
+    exportBackup,
+    restoreIdentity,
+    /** Master identity plus every per-report identity handed out so far */
+    claimableIdentities,
+    reportCount: registry?.used.length ?? 0,
     hasIdentity: !!identity,
+    /** An identity exists on this device but needs the PIN */
+    isLocked: status === "locked" || status === "legacy",
   };
 }
+
+/**
+ * Hook for restoring an identity from its passphrase, recovery phrase or a
+ * backup file. After restoring, the chain is rescanned for report indices the
+ * device doesn't know about, so their pending rewards show up again.
+ */
+export function useRestoreIdentity() {
+  const publicClient = usePublicClient({ chainId: mantle.id });
+  const { restoreIdentity } = useReporterIdentity();
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const lookup = useCallback<CommitmentActivityLookup>(
+    async (commitments) => {
+      const activity = new Map<string, number | null>();
+      if (!publicClient) throw new Error("No connection to Mantle");
+
+      // Rewards still waiting to be claimed
+      const pending = await publicClient.multicall({
+        contracts: commitments.map((commitment) => ({
+          address: contractAddress,
+          abi: RoadGuardABI,
+          functionName: "getPendingRewards" as const,
+          args: [commitment] as const,
+        })),
+      });
+      pending.forEach((result, i) => {
+        if (result.status === "success" && (result.result as bigint) > BigInt(0)) {
+          activity.set(commitments[i].toLowerCase(), null);
+        }
+      });
+
+      // Reports, with their ids. Some RPC nodes cap the block range of
+      // eth_getLogs; pending rewards alone still find what can be claimed.
+      try {
+        const logs = await publicClient.getContractEvents({
+          address: contractAddress,
+          abi: RoadGuardABI,
+          eventName: "ReportSubmitted",
+          args: { reporterCommitment: commitments },
+          fromBlock: ROADGUARD_DEPLOY_BLOCK,
+          toBlock: "latest",
+        });
+        for (const log of logs) {
+          if (log.args.reporterCommitment && log.args.reportId !== undefined) {
+            activity.set(log.args.reporterCommitment.toLowerCase(), Number(log.args.reportId));
+          }
+        }
+      } catch (err) {
+        console.warn("[Restore] Report lookup failed, rescanning by pending rewards only:", err);
+      }
+
+      return activity;
+    },
+    [publicClient]
+  );
+
+  const restore = useCallback(
+    async (
+      params:
+        | { passphrase: string; pin: string }
+        | { mnemonic: string; pin: string }
+        | { backup: unknown; password: string; pin: string }
+    ) => {
+      setIsRestoring(true);
+      setError(null);
+      try {
+        // Check the PIN before the (slow) rescan rather than after
+        if (params.pin.length < VAULT_MIN_PIN_LENGTH) {
+          throw new Error(`PIN must be at least ${VAULT_MIN_PIN_LENGTH} characters`);
+        }
+        const restored =
+          "backup" in params
+            ? await openBackup(params.backup, params.password)
+            : {
+                identity:
+                  "mnemonic" in params ? mnemonicToIdentity(params.mnemonic) : generateCommitment(params.passphrase),
+                registry: null,
+              };
+        // Re-restoring the unlocked identity keeps the indices it already knows
+        const { commitment } = restored.identity;
+        const known = parseIdentityRegistry(getVaultSession().getState().registry, commitment);
+        const registry = await rescanIdentityRegistry(
+          restored.identity,
+          restored.registry ?? known ?? createIdentityRegistry(commitment),
+          lookup
+        );
+        await restoreIdentity(restored.identity, registry, params.pin);
+        return { identity: restored.identity, reportCount: registry.used.length };
+      } catch (err: any) {
+        setError(err);
+        throw err;
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [lookup, restoreIdentity]
+  );
+
+  return { restore, isRestoring, error };
+}
@@ -0,0 +1,174 @@
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { bytesToHex, hexToBytes, keccak256 } from "viem";
+import {
+  createIdentityRegistry,
+  deriveReportIdentity,
+  mergeUsedIndices,
+  type Hex,
+  type IdentityRegistry,
+  type ReporterIdentity,
+  type UsedIdentityIndex,
+} from "./identity";
+import { openValue, sealValue, VAULT_PBKDF2_ITERATIONS, type VaultRecord } from "./vault";
+
+// Identity backup and restore. The master secret alone is enough to re-derive
+// every report identity, so it can be written down as a 24-word BIP39
+// phrase (its 32 bytes are the entropy). What a phrase can't carry is which
+// indices were used and the reports they ended up on; the encrypted backup
+// file keeps those, and a chain rescan recovers them when only the phrase is
+// left.
+
+export const BACKUP_FORMAT = "roadguard-identity-backup";
+
+/** Consecutive unused indices after which a rescan stops looking */
+export const RESCAN_GAP_LIMIT = 20;
+
+/** Encrypted backup file, as downloaded */
+export interface BackupFile extends VaultRecord {
+  format: typeof BACKUP_FORMAT;
+}
+
+/** What a backup file decrypts to */
+export interface BackupContents {
+  secret: Hex;
+  commitment: Hex;
+  nextIndex: number;
+  reports: { index: number; commitment: Hex; usedAt: string; reportId: number | null }[];
+  createdAt: string;
+}
+
+export interface RestoredIdentity {
+  identity: ReporterIdentity;
+  registry: IdentityRegistry;
+}
+
+/**
+ * The master secret as a 24-word recovery phrase
+ */
+export function secretToMnemonic(secret: Hex): string {
+  return entropyToMnemonic(hexToBytes(secret), wordlist);
+}
+
+/**
+ * Master identity from a recovery phrase. Extra whitespace and capitals are
+ * forgiven; a wrong word or checksum is not.
+ */
+export function mnemonicToIdentity(mnemonic: string): ReporterIdentity {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+  if (words.split(" ").length !== 24 || !validateMnemonic(words, wordlist)) {
+    throw new Error("Invalid recovery phrase");
+  }
+  const secret = bytesToHex(mnemonicToEntropy(words, wordlist));
+  return { secret, commitment: keccak256(secret) };
+}
+
+/**
+ * Encrypt the identity and every used index (with its commitment and report
+ * id) under a backup password
+ */
+export async function createBackup(
+  identity: ReporterIdentity,
+  registry: IdentityRegistry,
+  password: string,
+  options: { iterations?: number; now?: Date } = {}
+): Promise<BackupFile> {
+  const { iterations = VAULT_PBKDF2_ITERATIONS, now = new Date() } = options;
+  const contents: BackupContents = {
+    secret: identity.secret,
+    commitment: identity.commitment,
+    nextIndex: registry.nextIndex,
+    reports: registry.used.map(({ index, usedAt, reportId }) => ({
+      index,
+      commitment: deriveReportIdentity(identity.secret, index).commitment,
+      usedAt,
+      reportId: reportId ?? null,
+    })),
+    createdAt: now.toISOString(),
+  };
+  return { format: BACKUP_FORMAT, ...(await sealValue(contents, password, iterations)) };
+}
+
+/**
+ * Decrypt a backup file (as parsed JSON) back into an identity and registry
+ */
+export async function openBackup(file: unknown, password: string): Promise<RestoredIdentity> {
+  const record = file as Partial<BackupFile> | null;
+  if (!record || record.format !== BACKUP_FORMAT || record.version !== 1) {
+    throw new Error("Not a RoadGuard backup file");
+  }
+
+  let contents: BackupContents;
+  try {
+    contents = await openValue<BackupContents>(record as BackupFile, password);
+  } catch {
+    throw new Error("Incorrect backup password");
+  }
+
+  const identity = { secret: contents.secret, commitment: contents.commitment };
+  if (keccak256(identity.secret) !== identity.commitment) throw new Error("Backup file is corrupt");
+
+  const used: UsedIdentityIndex[] = contents.reports.map(({ index, usedAt, reportId }) =>
+    reportId === null ? { index, usedAt } : { index, usedAt, reportId }
+  );
+  const registry = mergeUsedIndices({ ...createIdentityRegistry(identity.commitment), nextIndex: contents.nextIndex }, used);
+  return { identity, registry };
+}
+
+/**
+ * Which of these commitments have been used on-chain, mapped to the report id
+ * when it is known. Keys are lowercase.
+ */
+export type CommitmentActivityLookup = (commitments: Hex[]) => Promise<Map<string, number | null>>;
+
+/**
+ * Find used report indices on-chain, scanning windows of `gapLimit` indices
+ * until one comes back empty. Found indices are merged into the registry.
+ *
+ * The lookup sees every commitment of the identity at once, so whoever
+ * answers it (the RPC node) can link them; this only runs on restore.
+ */
+export async function rescanIdentityRegistry(
+  master: ReporterIdentity,
+  registry: IdentityRegistry,
+  lookup: CommitmentActivityLookup,
+  options: { gapLimit?: number; now?: Date } = {}
+): Promise<IdentityRegistry> {
+  const { gapLimit = RESCAN_GAP_LIMIT, now = new Date() } = options;
+  const found: UsedIdentityIndex[] = [];
+
+  // Start after what the registry already knows about, so a restored backup
+  // only scans for reports made after it was taken
+  let start = registry.nextIndex;
+  for (;;) {
+    const window = Array.from({ length: gapLimit }, (_, i) => deriveReportIdentity(master.secret, start + i));
+    const activity = await lookup(window.map((identity) => identity.commitment));
+
+    let hits = 0;
+    for (const identity of window) {
+      const key = identity.commitment.toLowerCase();
+      if (!activity.has(key)) continue;
+      const reportId = activity.get(key);
+      found.push(
+        reportId === null || reportId === undefined
+          ? { index: identity.index, usedAt: now.toISOString() }
+          : { index: identity.index, usedAt: now.toISOString(), reportId }
+      );
+      hits++;
+    }
+    if (hits === 0) break;
+    start += gapLimit;
+  }
+
+  // Indices the registry knew about may still be missing their report ids
+  const known = registry.used.filter((entry) => entry.reportId === undefined);
+  if (known.length > 0) {
+    const activity = await lookup(known.map(({ index }) => deriveReportIdentity(master.secret, index).commitment));
+    for (const entry of known) {
+      const reportId = activity.get(deriveReportIdentity(master.secret, entry.index).commitment.toLowerCase());
+      if (typeof reportId === "number") found.push({ ...entry, reportId });
+    }
+  }
+
+  return mergeUsedIndices(registry, found);
+}
@@ -0,0 +1,48 @@
+import { decode, isBlurhashValid } from "blurhash";
+
+// Blurhash placeholders for uploaded photos. A decoded hash is turned into a
+// tiny BMP data URL rather than painted on a canvas, so it works as a
+// next/image blurDataURL or a CSS background without touching the DOM.
+
+const BMP_HEADER_SIZE = 14 + 40;
+
+/**
+ * A data URL painting the blurhash at width x height pixels (it is meant to
+ * be stretched), or undefined for an invalid hash
+ */
+export function blurhashToDataUrl(hash: string, width = 32, height = 32): string | undefined {
+  if (!isBlurhashValid(hash).result) return undefined;
+  const pixels = decode(hash, width, height);
+
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const bytes = new Uint8Array(BMP_HEADER_SIZE + rowSize * height);
+  const view = new DataView(bytes.buffer);
+
+  // BITMAPFILEHEADER
+  bytes[0] = 0x42; // "B"
+  bytes[1] = 0x4d; // "M"
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, BMP_HEADER_SIZE, true);
+  // BITMAPINFOHEADER; a negative height stores rows top-down
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, -height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(34, rowSize * height, true);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = (y * width + x) * 4;
+      const to = BMP_HEADER_SIZE + y * rowSize + x * 3;
+      // BGR
+      bytes[to] = pixels[from + 2];
+      bytes[to + 1] = pixels[from + 1];
+      bytes[to + 2] = pixels[from];
+    }
+  }
+
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return `data:image/bmp;base64,${btoa(binary)}`;
+}
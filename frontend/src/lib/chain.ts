@@ -0,0 +1,19 @@
+import { createPublicClient, http } from "viem";
+import { mantle } from "viem/chains";
+
+// Server-side chain access. Kept separate from lib/wagmi so API routes don't
+// pull in the browser wallet connectors.
+export const MANTLE_RPC_URL = process.env.MANTLE_RPC_URL || "https://rpc.mantle.xyz";
+
+// Contract address on Mantle Mainnet
+export const ROADGUARD_CONTRACT_ADDRESS = (process.env.NEXT_PUBLIC_ROADGUARD_ADDRESS ||
+  "0x23a95d01af99F06c446522765E6F3E604865D58a") as `0x${string}`;
+
+export function createMantlePublicClient() {
+  return createPublicClient({
+    chain: mantle,
+    transport: http(MANTLE_RPC_URL),
+  });
+}
+
+export type MantlePublicClient = ReturnType<typeof createMantlePublicClient>;
@@ -0,0 +1,179 @@
+import { asc, gt, lt, max } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { commentEvents } from "@/lib/schema";
+import { createLogger } from "@/lib/logger";
+import type { Comment, CommentReaction } from "./store";
+
+// Live updates for a report's comments, streamed to clients over
+// Server-Sent Events (GET /api/comments with Accept: text/event-stream).
+// Without a database the bus lives in process memory. With one, events are
+// written to comment_events and each instance polls for new rows, so a
+// stream hears about writes handled by any instance. Clients re-fetch the
+// first page whenever their stream (re)connects to catch up on anything
+// missed.
+
+type Database = NonNullable<typeof database>;
+
+const log = createLogger("comments");
+
+export type CommentEvent =
+  | { type: "comment"; comment: Comment }
+  | {
+      type: "reaction";
+      commentId: string;
+      reactions: Record<CommentReaction, number>;
+      walletReactions: Record<CommentReaction, number>;
+    }
+  /** Hidden by flags or deleted by a moderator, with any replies */
+  | { type: "removed"; commentId: string };
+
+export type CommentEventListener = (event: CommentEvent) => void;
+
+export interface CommentEvents {
+  publish(reportId: string, event: CommentEvent): Promise<void>;
+  /**
+   * Resolves once events published from then on will be delivered, with a
+   * function that unsubscribes
+   */
+  subscribe(reportId: string, listener: CommentEventListener): Promise<() => void>;
+  /** Open subscriptions, for one report or all of them */
+  listenerCount(reportId?: string): number;
+}
+
+export function createCommentEvents(): CommentEvents {
+  const listeners = new Map<string, Set<CommentEventListener>>();
+
+  return {
+    async publish(reportId, event) {
+      for (const listener of listeners.get(reportId) ?? []) {
+        try {
+          listener(event);
+        } catch {
+          // A closed stream must not stop delivery to the others
+        }
+      }
+    },
+
+    async subscribe(reportId, listener) {
+      const set = listeners.get(reportId) ?? new Set();
+      set.add(listener);
+      listeners.set(reportId, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0 && listeners.get(reportId) === set) listeners.delete(reportId);
+      };
+    },
+
+    listenerCount(reportId) {
+      if (reportId !== undefined) return listeners.get(reportId)?.size ?? 0;
+      let total = 0;
+      for (const set of listeners.values()) total += set.size;
+      return total;
+    },
+  };
+}
+
+export interface PostgresCommentEventsConfig {
+  /** How often each instance checks for new events while it has streams */
+  pollMs: number;
+  /** How long events are kept before they're pruned */
+  retainMs: number;
+}
+
+/** Rows read per poll; a busier backlog is read over the next polls */
+const POLL_BATCH = 500;
+
+export function getPostgresCommentEventsConfig(): PostgresCommentEventsConfig {
+  return {
+    pollMs: parseInt(process.env.COMMENT_STREAM_POLL_MS || "2000"),
+    retainMs: 10 * 60 * 1000,
+  };
+}
+
+/**
+ * Events shared through the comment_events table. Publishing inserts a row;
+ * while this instance has subscribers it polls for rows past the last id it
+ * has seen and hands them to a local bus. Events published before the first
+ * subscriber arrived are skipped.
+ */
+export function createPostgresCommentEvents(db: Database, config: PostgresCommentEventsConfig): CommentEvents {
+  const local = createCommentEvents();
+  let lastId = 0;
+  let baseline: Promise<void> | null = null;
+  let polling = false;
+  let prunedAt = 0;
+
+  async function poll() {
+    const rows = await db
+      .select()
+      .from(commentEvents)
+      .where(gt(commentEvents.id, lastId))
+      .orderBy(asc(commentEvents.id))
+      .limit(POLL_BATCH);
+    for (const row of rows) {
+      lastId = row.id;
+      await local.publish(row.reportId, row.event as CommentEvent);
+    }
+
+    if (Date.now() - prunedAt >= config.retainMs) {
+      prunedAt = Date.now();
+      await db.delete(commentEvents).where(lt(commentEvents.createdAt, new Date(prunedAt - config.retainMs)));
+    }
+  }
+
+  function schedule() {
+    setTimeout(async () => {
+      if (local.listenerCount() === 0) {
+        // Start from the newest event again when the next stream opens
+        polling = false;
+        baseline = null;
+        return;
+      }
+      try {
+        await poll();
+      } catch (error) {
+        log.warn("could not read comment events", { error });
+      }
+      schedule();
+    }, config.pollMs);
+  }
+
+  return {
+    async publish(reportId, event) {
+      // The write it describes already happened; streams catch up on
+      // reconnect, so a lost event isn't worth failing the request
+      try {
+        await db.insert(commentEvents).values({ reportId, event });
+      } catch (error) {
+        log.warn("could not publish comment event", { error });
+      }
+    },
+
+    async subscribe(reportId, listener) {
+      const unsubscribe = await local.subscribe(reportId, listener);
+      try {
+        baseline ??= db
+          .select({ id: max(commentEvents.id) })
+          .from(commentEvents)
+          .then(([row]) => {
+            lastId = row?.id ?? 0;
+          })
+          .catch((error) => {
+            baseline = null;
+            throw error;
+          });
+        await baseline;
+      } catch (error) {
+        unsubscribe();
+        throw error;
+      }
+      if (!polling) {
+        polling = true;
+        schedule();
+      }
+      return unsubscribe;
+    },
+
+    listenerCount: local.listenerCount,
+  };
+}
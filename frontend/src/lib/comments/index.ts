@@ -0,0 +1,78 @@
+import { db } from "@/lib/db";
+import { getModerationStore } from "@/lib/moderation";
+import { createPostgresCommentStore } from "./postgres";
+import { createMemoryCommentStore, type CommentStore } from "./store";
+import { createReactionLimiter, getFlagLimitConfig, getReactionLimitConfig, type ReactionLimiter } from "./limits";
+import { parseReactorCredential, resolveReactorKey } from "./reactors";
+import {
+  createCommentEvents,
+  createPostgresCommentEvents,
+  getPostgresCommentEventsConfig,
+  type CommentEvents,
+} from "./events";
+
+export * from "./store";
+export * from "./signatures";
+export * from "./reactors";
+export * from "./limits";
+export * from "./events";
+
+/** Comments per page when the client doesn't ask for a size */
+export const DEFAULT_COMMENT_PAGE_SIZE = 50;
+export const MAX_COMMENT_PAGE_SIZE = 100;
+
+let memoryStore: CommentStore | null = null;
+let reactionLimiter: ReactionLimiter | null = null;
+let flagLimiter: ReactionLimiter | null = null;
+let events: CommentEvents | null = null;
+
+/**
+ * Postgres when DATABASE_URL is set; otherwise a per-process in-memory store
+ */
+export function getCommentStore(): CommentStore {
+  if (db) return createPostgresCommentStore(db);
+  memoryStore ??= createMemoryCommentStore();
+  return memoryStore;
+}
+
+/**
+ * Live comment updates: shared through Postgres when DATABASE_URL is set,
+ * otherwise only within this server instance
+ */
+export function getCommentEvents(): CommentEvents {
+  events ??= db ? createPostgresCommentEvents(db, getPostgresCommentEventsConfig()) : createCommentEvents();
+  return events;
+}
+
+/**
+ * Reaction rate limits for this server instance
+ */
+export function getReactionLimiter(): ReactionLimiter {
+  reactionLimiter ??= createReactionLimiter(getReactionLimitConfig());
+  return reactionLimiter;
+}
+
+/**
+ * Flag rate limits for this server instance
+ */
+export function getFlagLimiter(): ReactionLimiter {
+  flagLimiter ??= createReactionLimiter(getFlagLimitConfig());
+  return flagLimiter;
+}
+
+/**
+ * Check the reactor credential sent with a comment, reaction or flag. Returns
+ * the reactor key, or the error and status to answer with; banned reactors
+ * are refused.
+ */
+export async function authorizeReactor(
+  value: unknown
+): Promise<{ key: string } | { error: string; status: 400 | 401 | 403 }> {
+  if (value === undefined || value === null) return { error: "reactor is required", status: 400 };
+  const reactor = parseReactorCredential(value);
+  if (typeof reactor === "string") return { error: reactor, status: 400 };
+  const key = await resolveReactorKey(reactor);
+  if (typeof key !== "string") return { error: key.error, status: 401 };
+  if (await getModerationStore().isBanned(key)) return { error: "This reactor is banned", status: 403 };
+  return { key };
+}
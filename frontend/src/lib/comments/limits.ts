@@ -0,0 +1,99 @@
+import { createHmac, randomBytes } from "crypto";
+import { createTokenBucket } from "@/lib/relay/admission";
+
+// Rate limits on reacting to and flagging comments, per client IP, per
+// reactor, per client IP on one comment, and (for flags) per comment. Device
+// reactors are free to mint, so the per-comment limits are what stop a single
+// client from piling reactions or flags onto a comment. Reactions and flags
+// are limited separately. Like the relay's admission rules, state only lives
+// in process memory and keys are HMAC'd with a per-process salt.
+
+export interface ReactionLimitConfig {
+  ipBurst: number;
+  ipPerHour: number;
+  reactorBurst: number;
+  reactorPerHour: number;
+  ipCommentBurst: number;
+  ipCommentPerHour: number;
+  /** Across all clients, on one comment */
+  commentBurst: number;
+  commentPerHour: number;
+}
+
+/**
+ * Read reaction limits from the environment. A zero burst disables that limit.
+ */
+export function getReactionLimitConfig(): ReactionLimitConfig {
+  return {
+    ipBurst: parseInt(process.env.COMMENT_REACTION_IP_BURST || "60"),
+    ipPerHour: parseFloat(process.env.COMMENT_REACTION_IP_PER_HOUR || "300"),
+    reactorBurst: parseInt(process.env.COMMENT_REACTION_REACTOR_BURST || "20"),
+    reactorPerHour: parseFloat(process.env.COMMENT_REACTION_REACTOR_PER_HOUR || "120"),
+    ipCommentBurst: parseInt(process.env.COMMENT_REACTION_IP_COMMENT_BURST || "4"),
+    ipCommentPerHour: parseFloat(process.env.COMMENT_REACTION_IP_COMMENT_PER_HOUR || "4"),
+    commentBurst: 0,
+    commentPerHour: 0,
+  };
+}
+
+/**
+ * Read flag limits from the environment. A zero burst disables that limit.
+ */
+export function getFlagLimitConfig(): ReactionLimitConfig {
+  return {
+    ipBurst: parseInt(process.env.COMMENT_FLAG_IP_BURST || "10"),
+    ipPerHour: parseFloat(process.env.COMMENT_FLAG_IP_PER_HOUR || "30"),
+    reactorBurst: parseInt(process.env.COMMENT_FLAG_REACTOR_BURST || "10"),
+    reactorPerHour: parseFloat(process.env.COMMENT_FLAG_REACTOR_PER_HOUR || "30"),
+    ipCommentBurst: parseInt(process.env.COMMENT_FLAG_IP_COMMENT_BURST || "1"),
+    ipCommentPerHour: parseFloat(process.env.COMMENT_FLAG_IP_COMMENT_PER_HOUR || "1"),
+    commentBurst: parseInt(process.env.COMMENT_FLAG_COMMENT_BURST || "20"),
+    commentPerHour: parseFloat(process.env.COMMENT_FLAG_COMMENT_PER_HOUR || "20"),
+  };
+}
+
+export interface ReactionRequest {
+  ip: string | null;
+  /** Reactor key (see resolveReactorKey) */
+  reactor: string;
+  /** The comment reacted to */
+  commentId: string;
+}
+
+export interface ReactionLimiter {
+  /** Take a token for each limit; seconds to wait if any is out */
+  take(request: ReactionRequest, now?: Date): { retryAfterSeconds: number } | null;
+}
+
+export function createReactionLimiter(config: ReactionLimitConfig): ReactionLimiter {
+  const salt = randomBytes(32);
+  const hash = (key: string) => createHmac("sha256", salt).update(key).digest("base64");
+  const limits: { burst: number; perHour: number; keyOf: (request: ReactionRequest) => string | null }[] = [
+    { burst: config.ipBurst, perHour: config.ipPerHour, keyOf: (request) => request.ip },
+    { burst: config.reactorBurst, perHour: config.reactorPerHour, keyOf: (request) => request.reactor },
+    {
+      burst: config.ipCommentBurst,
+      perHour: config.ipCommentPerHour,
+      keyOf: (request) => (request.ip === null ? null : `${request.ip}\n${request.commentId}`),
+    },
+    { burst: config.commentBurst, perHour: config.commentPerHour, keyOf: (request) => `comment\n${request.commentId}` },
+  ];
+  const buckets = limits
+    .filter((limit) => limit.burst > 0)
+    .map((limit) => ({
+      keyOf: limit.keyOf,
+      bucket: createTokenBucket({ capacity: limit.burst, refillPerHour: limit.perHour }),
+    }));
+
+  return {
+    take(request, now = new Date()) {
+      for (const { keyOf, bucket } of buckets) {
+        const key = keyOf(request);
+        if (key === null) continue;
+        const result = bucket.take(hash(key), now);
+        if (!result.ok) return { retryAfterSeconds: Math.max(1, Math.ceil(result.retryAfterMs / 1000)) };
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,257 @@
+import { and, count, desc, eq, inArray, isNull, lt, max, ne, or, sql } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { commentFlags, commentReactions, comments } from "@/lib/schema";
+import {
+  emptyFlagSummary,
+  emptyReactions,
+  encodeCommentCursor,
+  isCommentFlagReason,
+  isCommentReaction,
+  newCommentId,
+  noViewerReactions,
+  orderThread,
+  type Comment,
+  type CommentStatus,
+  type CommentStore,
+  type ModeratedComment,
+} from "./store";
+import { isWalletReactor } from "./reactors";
+import type { CommentSigner } from "./signatures";
+
+type Database = NonNullable<typeof database>;
+type CommentRow = typeof comments.$inferSelect;
+
+/**
+ * Postgres-backed comments. Reaction counts are aggregated from
+ * comment_reactions on every read; a unique index keeps one row per reactor
+ * and reaction on a comment. Wallet reactors are told apart by their key
+ * prefix (see ./reactors). Flags are kept the same way in comment_flags.
+ */
+export function createPostgresCommentStore(db: Database): CommentStore {
+  async function withReactions(rows: CommentRow[], viewer?: string | null): Promise<Comment[]> {
+    const counts = new Map(rows.map((row) => [row.id, emptyReactions()]));
+    const walletCounts = new Map(rows.map((row) => [row.id, emptyReactions()]));
+    const viewerReacted = new Map(rows.map((row) => [row.id, noViewerReactions()]));
+    if (rows.length > 0) {
+      const reactions = await db
+        .select({
+          commentId: commentReactions.commentId,
+          reaction: commentReactions.reaction,
+          count: count(),
+          wallets: sql<number>`count(*) filter (where ${commentReactions.reactor} like 'wallet:%')`.mapWith(Number),
+        })
+        .from(commentReactions)
+        .where(inArray(commentReactions.commentId, [...counts.keys()]))
+        .groupBy(commentReactions.commentId, commentReactions.reaction);
+      for (const { commentId, reaction, count, wallets } of reactions) {
+        if (!isCommentReaction(reaction)) continue;
+        counts.get(commentId)![reaction] = count;
+        walletCounts.get(commentId)![reaction] = wallets;
+      }
+    }
+    if (rows.length > 0 && viewer) {
+      const own = await db
+        .select({ commentId: commentReactions.commentId, reaction: commentReactions.reaction })
+        .from(commentReactions)
+        .where(and(inArray(commentReactions.commentId, [...counts.keys()]), eq(commentReactions.reactor, viewer)));
+      for (const { commentId, reaction } of own) {
+        if (isCommentReaction(reaction)) viewerReacted.get(commentId)![reaction] = true;
+      }
+    }
+    return rows.map((row) => ({
+      id: row.id,
+      reportId: Number(row.reportId),
+      author: row.author,
+      text: row.text,
+      timestamp: row.createdAt.getTime(),
+      signedBy: row.signedBy as CommentSigner | null,
+      parentId: row.parentId,
+      depth: row.depth,
+      reactions: counts.get(row.id)!,
+      walletReactions: walletCounts.get(row.id)!,
+      viewerReacted: viewerReacted.get(row.id)!,
+    }));
+  }
+
+  async function forModerators(rows: CommentRow[]): Promise<ModeratedComment[]> {
+    const summaries = new Map(rows.map((row) => [row.id, emptyFlagSummary()]));
+    if (rows.length > 0) {
+      const flags = await db
+        .select()
+        .from(commentFlags)
+        .where(inArray(commentFlags.commentId, [...summaries.keys()]))
+        .orderBy(commentFlags.createdAt);
+      for (const { commentId, reactor, reason, note, createdAt } of flags) {
+        const summary = summaries.get(commentId)!;
+        summary.count++;
+        if (isWalletReactor(reactor)) summary.wallets++;
+        if (isCommentFlagReason(reason)) summary.reasons[reason]++;
+        if (note) summary.notes.push(note);
+        summary.lastFlaggedAt = createdAt.getTime();
+      }
+    }
+    const viewed = await withReactions(rows);
+    return viewed.map((comment, i) => ({
+      ...comment,
+      reportKey: rows[i].reportId,
+      status: rows[i].status as CommentStatus,
+      reactor: rows[i].reactor,
+      flags: summaries.get(comment.id)!,
+    }));
+  }
+
+  async function findRow(commentId: string, reportId?: string) {
+    const [row] = await db
+      .select()
+      .from(comments)
+      .where(and(eq(comments.id, commentId), reportId === undefined ? undefined : eq(comments.reportId, reportId)))
+      .limit(1);
+    return row ?? null;
+  }
+
+  return {
+    async add({ reportId, author, text, signedBy, signature, reactor, parentId }) {
+      const parent = parentId ? await findRow(parentId, reportId) : null;
+      const createdAt = new Date();
+      const rows = await db
+        .insert(comments)
+        .values({
+          id: newCommentId(createdAt.getTime()),
+          reportId,
+          author,
+          text,
+          signedBy,
+          signature: signature?.toLowerCase(),
+          reactor,
+          parentId: parent?.id ?? null,
+          rootId: parent ? (parent.rootId ?? parent.id) : null,
+          depth: parent ? parent.depth + 1 : 0,
+          createdAt,
+        })
+        .onConflictDoNothing({ target: comments.signature })
+        .returning();
+      if (rows.length === 0) return null;
+      return (await withReactions(rows))[0];
+    },
+
+    async list(reportId, { limit, cursor, viewer }) {
+      const after = cursor
+        ? or(
+            lt(comments.createdAt, new Date(cursor.timestamp)),
+            and(eq(comments.createdAt, new Date(cursor.timestamp)), lt(comments.id, cursor.id))
+          )
+        : undefined;
+      const rows = await db
+        .select()
+        .from(comments)
+        .where(and(eq(comments.reportId, reportId), isNull(comments.parentId), ne(comments.status, "hidden"), after))
+        .orderBy(desc(comments.createdAt), desc(comments.id))
+        .limit(limit + 1);
+      const roots = rows.slice(0, limit);
+      const replyRows =
+        roots.length > 0
+          ? await db
+              .select()
+              .from(comments)
+              .where(and(inArray(comments.rootId, roots.map((root) => root.id)), ne(comments.status, "hidden")))
+          : [];
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(comments)
+        .where(and(eq(comments.reportId, reportId), ne(comments.status, "hidden")));
+
+      const [page, replies] = await Promise.all([withReactions(roots, viewer), withReactions(replyRows, viewer)]);
+      const rootOf = new Map(replyRows.map((row) => [row.id, row.rootId]));
+      return {
+        comments: page.map((root) => ({
+          ...root,
+          replies: orderThread(
+            root.id,
+            replies.filter((reply) => rootOf.get(reply.id) === root.id)
+          ),
+        })),
+        total,
+        nextCursor: rows.length > limit ? encodeCommentCursor(page[page.length - 1]) : null,
+      };
+    },
+
+    async react(reportId, commentId, reaction, reactor) {
+      const row = await findRow(commentId, reportId);
+      if (!row || row.status === "hidden") return null;
+      const removed = await db
+        .delete(commentReactions)
+        .where(
+          and(
+            eq(commentReactions.commentId, commentId),
+            eq(commentReactions.reaction, reaction),
+            eq(commentReactions.reactor, reactor)
+          )
+        )
+        .returning({ id: commentReactions.id });
+      if (removed.length === 0) {
+        await db.insert(commentReactions).values({ commentId, reaction, reactor }).onConflictDoNothing();
+      }
+      return (await withReactions([row], reactor))[0];
+    },
+
+    async flag(reportId, commentId, { reactor, reason, note }, { hideThreshold }) {
+      const row = await findRow(commentId, reportId);
+      if (!row) return null;
+      await db.insert(commentFlags).values({ commentId, reactor, reason, note }).onConflictDoNothing();
+      const [{ flags, walletFlags }] = await db
+        .select({
+          flags: count(),
+          walletFlags: sql<number>`count(*) filter (where ${commentFlags.reactor} like 'wallet:%')`.mapWith(Number),
+        })
+        .from(commentFlags)
+        .where(eq(commentFlags.commentId, commentId));
+
+      let autoHidden = false;
+      if (row.status === "visible" && walletFlags >= hideThreshold) {
+        // Only one of several concurrent flaggers gets to hide it
+        const hidden = await db
+          .update(comments)
+          .set({ status: "hidden" })
+          .where(and(eq(comments.id, commentId), eq(comments.status, "visible")))
+          .returning({ id: comments.id });
+        autoHidden = hidden.length > 0;
+      }
+      return { flags, walletFlags, hidden: autoHidden || row.status === "hidden", autoHidden };
+    },
+
+    async queue({ limit }) {
+      const flagged = db
+        .select({ commentId: commentFlags.commentId, lastFlaggedAt: max(commentFlags.createdAt).as("last_flagged_at") })
+        .from(commentFlags)
+        .groupBy(commentFlags.commentId)
+        .as("flagged");
+      const rows = await db
+        .select({ comment: comments })
+        .from(comments)
+        .innerJoin(flagged, eq(flagged.commentId, comments.id))
+        .where(ne(comments.status, "approved"))
+        .orderBy(desc(flagged.lastFlaggedAt))
+        .limit(limit);
+      return forModerators(rows.map((row) => row.comment));
+    },
+
+    async get(commentId) {
+      const row = await findRow(commentId);
+      return row && (await forModerators([row]))[0];
+    },
+
+    async setStatus(commentId, status) {
+      const rows = await db.update(comments).set({ status }).where(eq(comments.id, commentId)).returning();
+      if (rows.length === 0) return null;
+      return (await forModerators(rows))[0];
+    },
+
+    async remove(commentId) {
+      const row = await findRow(commentId);
+      if (!row) return null;
+      const [removed] = await forModerators([row]);
+      await db.delete(comments).where(eq(comments.id, commentId));
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { bytesToHex, getAddress, isAddress, isHex, recoverMessageAddress, sha256, size } from "viem";
+
+// Who is reacting to a comment. Each reactor counts once per reaction on a
+// comment, and reacting again takes the reaction back. A reactor is one of:
+//
+// - device: a random 32-byte token the browser generates once and keeps.
+//   Only its SHA-256 is stored, so the stored key can't be replayed.
+// - wallet: an EIP-191 signature over a reactor message naming the wallet.
+//   One signature covers every reaction for a day, so reacting doesn't need
+//   a wallet prompt each time.
+//
+// Device tokens are free to mint, so one client can pose as any number of
+// device reactors. Reactions are therefore also rate limited per client IP,
+// and per client IP on each comment (see ./limits), and comments report how
+// many of their reactions came from wallets.
+
+export const REACTOR_TYPES = ["device", "wallet"] as const;
+export type ReactorType = (typeof REACTOR_TYPES)[number];
+
+/** Wallet reactor signatures older than this (or this far in the future) are refused */
+export const REACTOR_SIGNATURE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const REACTOR_TOKEN_STORAGE_KEY = "roadguard_reactor_token";
+
+/** Request header carrying the viewer's reactor credential on GET, as JSON */
+export const REACTOR_HEADER = "x-roadguard-reactor";
+
+/** As sent with a reaction */
+export type ReactorCredential =
+  | { type: "device"; token: `0x${string}` }
+  | {
+      type: "wallet";
+      address: `0x${string}`;
+      /** Milliseconds since the epoch, as in the signed message */
+      signedAt: number;
+      signature: `0x${string}`;
+    };
+
+/**
+ * The text a wallet signs to react with
+ */
+export function reactorMessage(reactor: { address: string; signedAt: number }): string {
+  return [
+    "RoadGuard reactions",
+    `Wallet: ${reactor.address}`,
+    `Signed at: ${new Date(reactor.signedAt).toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Validate the shape of a reactor credential from a request. Returns an error
+ * message for anything malformed.
+ */
+export function parseReactorCredential(value: unknown): ReactorCredential | string {
+  const reactor = (value ?? {}) as Record<string, unknown>;
+  if (reactor.type === "device") {
+    if (typeof reactor.token !== "string" || !isHex(reactor.token) || size(reactor.token) !== 32) {
+      return "reactor.token must be a 32-byte hex token";
+    }
+    return { type: "device", token: reactor.token.toLowerCase() as `0x${string}` };
+  }
+  if (reactor.type !== "wallet") return "reactor.type must be device or wallet";
+  if (typeof reactor.address !== "string" || !isAddress(reactor.address, { strict: false })) {
+    return "reactor.address must be the signing wallet";
+  }
+  if (!Number.isSafeInteger(reactor.signedAt)) return "reactor.signedAt must be a timestamp in milliseconds";
+  if (typeof reactor.signature !== "string" || !isHex(reactor.signature) || ![64, 65].includes(size(reactor.signature))) {
+    return "reactor.signature must be a 64 or 65-byte hex signature";
+  }
+  return {
+    type: "wallet",
+    address: getAddress(reactor.address),
+    signedAt: reactor.signedAt as number,
+    signature: reactor.signature as `0x${string}`,
+  };
+}
+
+/**
+ * The key a reactor's reactions are stored under, or why the credential was
+ * refused.
+ */
+export async function resolveReactorKey(
+  reactor: ReactorCredential,
+  options: { now?: number } = {}
+): Promise<string | { error: string }> {
+  if (reactor.type === "device") return `device:${sha256(reactor.token).slice(2)}`;
+
+  const { now = Date.now() } = options;
+  if (Math.abs(now - reactor.signedAt) > REACTOR_SIGNATURE_MAX_AGE_MS) return { error: "Signature expired" };
+  try {
+    const signer = await recoverMessageAddress({
+      message: reactorMessage(reactor),
+      signature: reactor.signature,
+    });
+    if (signer !== reactor.address) return { error: "Invalid signature" };
+  } catch {
+    return { error: "Invalid signature" };
+  }
+  return `wallet:${reactor.address.toLowerCase()}`;
+}
+
+/** Whether a reactor key belongs to a wallet, rather than a free device token */
+export function isWalletReactor(key: string): boolean {
+  return key.startsWith("wallet:");
+}
+
+/**
+ * This browser's device reactor, minting its token on first use. Null outside
+ * the browser or when storage is unavailable.
+ */
+export function loadDeviceReactor(): ReactorCredential | null {
+  if (typeof window === "undefined") return null;
+  try {
+    let token = localStorage.getItem(REACTOR_TOKEN_STORAGE_KEY);
+    if (!token || !isHex(token) || size(token) !== 32) {
+      token = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+      localStorage.setItem(REACTOR_TOKEN_STORAGE_KEY, token);
+    }
+    return { type: "device", token: token as `0x${string}` };
+  } catch (e) {
+    console.error("Failed to load reactor token:", e);
+    return null;
+  }
+}
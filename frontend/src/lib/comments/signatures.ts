@@ -0,0 +1,105 @@
+import { getAddress, isAddress, isHex, recoverMessageAddress, size } from "viem";
+
+// Signed comments. Unsigned comments are posted as "Anonymous"; a signature
+// is what lets a comment show an author:
+//
+// - wallet: an EIP-191 personal_sign by the commenter's wallet. The comment
+//   shows the wallet address.
+// - reporter: a signature by the comment key the report registered when it
+//   was submitted (see deriveCommentKey in lib/identity). The comment shows a
+//   "Reporter" badge; the key is per report, so nothing ties it to the
+//   reporter's wallet or their other reports.
+//
+// The signed message names the report, the text and when it was signed, so a
+// signature can't be moved to another comment. Each signature is stored
+// once, and only recent ones are accepted.
+
+export const COMMENT_SIGNERS = ["wallet", "reporter"] as const;
+export type CommentSigner = (typeof COMMENT_SIGNERS)[number];
+
+/** Signatures older than this (or this far in the future) are refused */
+export const COMMENT_SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** As sent with a comment */
+export interface CommentProof {
+  signer: CommentSigner;
+  /** Milliseconds since the epoch, as in the signed message */
+  signedAt: number;
+  signature: `0x${string}`;
+  /** The wallet, for wallet signatures */
+  address?: `0x${string}`;
+}
+
+/** Who a verified comment is from */
+export interface CommentAuthorship {
+  signedBy: CommentSigner;
+  author: string;
+}
+
+export const REPORTER_AUTHOR = "Reporter";
+
+/**
+ * The text a commenter signs
+ */
+export function commentMessage(comment: { reportId: string | number; text: string; signedAt: number }): string {
+  return [
+    "RoadGuard comment",
+    `Report: ${comment.reportId}`,
+    `Signed at: ${new Date(comment.signedAt).toISOString()}`,
+    "",
+    comment.text,
+  ].join("\n");
+}
+
+/**
+ * Validate the shape of a proof from a request body. Returns an error message
+ * for anything malformed.
+ */
+export function parseCommentProof(value: unknown): CommentProof | string {
+  const proof = (value ?? {}) as Record<string, unknown>;
+  if (!COMMENT_SIGNERS.includes(proof.signer as CommentSigner)) return "proof.signer must be wallet or reporter";
+  if (!Number.isSafeInteger(proof.signedAt)) return "proof.signedAt must be a timestamp in milliseconds";
+  if (typeof proof.signature !== "string" || !isHex(proof.signature) || ![64, 65].includes(size(proof.signature))) {
+    return "proof.signature must be a 64 or 65-byte hex signature";
+  }
+  if (proof.signer === "wallet" && (typeof proof.address !== "string" || !isAddress(proof.address, { strict: false }))) {
+    return "proof.address must be the signing wallet";
+  }
+  return {
+    signer: proof.signer as CommentSigner,
+    signedAt: proof.signedAt as number,
+    signature: proof.signature as `0x${string}`,
+    ...(proof.signer === "wallet" && { address: getAddress(proof.address as string) }),
+  };
+}
+
+/**
+ * Check a comment's signature. `commentKey` is the key the report registered,
+ * if any. Returns the authorship to store, or why it was refused.
+ */
+export async function verifyCommentProof(
+  proof: CommentProof,
+  comment: { reportId: string; text: string },
+  options: { commentKey: `0x${string}` | null; now?: number }
+): Promise<CommentAuthorship | string> {
+  const { commentKey, now = Date.now() } = options;
+  if (Math.abs(now - proof.signedAt) > COMMENT_SIGNATURE_MAX_AGE_MS) return "Signature expired";
+
+  let signer: `0x${string}`;
+  try {
+    signer = await recoverMessageAddress({
+      message: commentMessage({ ...comment, signedAt: proof.signedAt }),
+      signature: proof.signature,
+    });
+  } catch {
+    return "Invalid signature";
+  }
+
+  if (proof.signer === "reporter") {
+    if (!commentKey) return "This report has no comment key";
+    if (signer !== getAddress(commentKey)) return "Invalid signature";
+    return { signedBy: "reporter", author: REPORTER_AUTHOR };
+  }
+  if (signer !== proof.address) return "Invalid signature";
+  return { signedBy: "wallet", author: signer };
+}
@@ -0,0 +1,402 @@
+import { isWalletReactor } from "./reactors";
+import type { CommentSigner } from "./signatures";
+
+// Persistence contract for report comments and their reactions. The Postgres
+// implementation lives in ./postgres; the in-memory one below is used in
+// tests and when no DATABASE_URL is configured.
+//
+// Comments are threaded: a reply names its parent, up to MAX_COMMENT_DEPTH
+// levels below a top-level comment. Top-level comments are listed newest
+// first and paged with an opaque cursor naming the last one of the previous
+// page, so comments posted while someone pages through don't shift or repeat
+// entries. Each comes with its whole thread of replies.
+//
+// Reactions are stored per reactor key (see ./reactors): each reactor counts
+// once per reaction on a comment, and reacting again removes it.
+//
+// Flags work the same way, one per reactor per comment. Once enough wallet
+// reactors flag a comment it is hidden until a moderator approves or deletes
+// it (see lib/moderation). Device reactors are free to mint, so their flags
+// only put the comment in the moderation queue. Hidden comments are left out of `list` and can't be
+// reacted to; approved ones are no longer hidden by flags.
+
+export const MAX_COMMENT_LENGTH = 500;
+/** How many levels replies can nest below a top-level comment */
+export const MAX_COMMENT_DEPTH = 3;
+export const MAX_FLAG_NOTE_LENGTH = 200;
+
+export const COMMENT_REACTIONS = ["helpful", "thankyou"] as const;
+export type CommentReaction = (typeof COMMENT_REACTIONS)[number];
+
+export const COMMENT_FLAG_REASONS = ["abuse", "doxxing", "spam", "misleading", "other"] as const;
+export type CommentFlagReason = (typeof COMMENT_FLAG_REASONS)[number];
+
+export const COMMENT_STATUSES = ["visible", "hidden", "approved"] as const;
+export type CommentStatus = (typeof COMMENT_STATUSES)[number];
+
+export interface Comment {
+  id: string;
+  reportId: number;
+  author: string; // wallet address, "Reporter" or "Anonymous"
+  text: string;
+  /** Milliseconds since the epoch */
+  timestamp: number;
+  /** Whose signature the comment carried; null for anonymous comments */
+  signedBy: CommentSigner | null;
+  /** The comment this replies to; null for top-level comments */
+  parentId: string | null;
+  /** 0 for top-level comments, parent's depth + 1 for replies */
+  depth: number;
+  reactions: Record<CommentReaction, number>;
+  /** Of `reactions`, those made by wallet reactors; device reactors cost nothing to mint */
+  walletReactions: Record<CommentReaction, number>;
+  /** Which reactions the viewer (the reactor the comment was read for) has made */
+  viewerReacted: Record<CommentReaction, boolean>;
+}
+
+/** A top-level comment and its replies, in thread order (see orderThread) */
+export interface CommentThread extends Comment {
+  replies: Comment[];
+}
+
+export interface NewComment {
+  /** Report id as sent by the client; comments are grouped by it */
+  reportId: string;
+  author: string;
+  text: string;
+  signedBy: CommentSigner | null;
+  /** Verified signature; each one can be used for a single comment */
+  signature: `0x${string}` | null;
+  /** Reactor key of whoever posted it, so moderators can ban them */
+  reactor: string | null;
+  /** An existing, public comment on the same report, below MAX_COMMENT_DEPTH */
+  parentId: string | null;
+}
+
+export interface NewCommentFlag {
+  reactor: string;
+  reason: CommentFlagReason;
+  note: string | null;
+}
+
+export interface CommentFlagSummary {
+  /** Distinct reactors who flagged the comment */
+  count: number;
+  /** Of `count`, wallet reactors */
+  wallets: number;
+  reasons: Record<CommentFlagReason, number>;
+  notes: string[];
+  /** Milliseconds since the epoch; null if never flagged */
+  lastFlaggedAt: number | null;
+}
+
+/** A comment as moderators see it */
+export interface ModeratedComment extends Comment {
+  /** Report id as the comment was posted with (see NewComment) */
+  reportKey: string;
+  status: CommentStatus;
+  /** Reactor key of the author */
+  reactor: string | null;
+  flags: CommentFlagSummary;
+}
+
+export interface CommentFlagResult {
+  flags: number;
+  /** Of `flags`, those from wallet reactors; only these count toward hiding */
+  walletFlags: number;
+  hidden: boolean;
+  /** Whether this flag is the one that hid the comment */
+  autoHidden: boolean;
+}
+
+/** Position after which the next page starts */
+export interface CommentCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface CommentPage {
+  comments: CommentThread[];
+  /** All comments on the report, replies included */
+  total: number;
+  /** Pass back to get the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+export interface CommentStore {
+  /** Null if the signature was already used */
+  add(comment: NewComment): Promise<Comment | null>;
+  /**
+   * Top-level comments newest first, `limit` at a time, starting after
+   * `cursor`, each with its replies. `viewer` is the reactor key to fill
+   * `viewerReacted` for.
+   */
+  list(
+    reportId: string,
+    options: { limit: number; cursor?: CommentCursor | null; viewer?: string | null }
+  ): Promise<CommentPage>;
+  /**
+   * Add the reactor's reaction, or take it back if they already made it. Null
+   * if the report has no such comment.
+   */
+  react(reportId: string, commentId: string, reaction: CommentReaction, reactor: string): Promise<Comment | null>;
+  /**
+   * Record the reactor's flag (once per reactor) and hide the comment when it
+   * reaches `hideThreshold` flags from wallet reactors, unless a moderator approved it. Null if
+   * the report has no such comment.
+   */
+  flag(
+    reportId: string,
+    commentId: string,
+    flag: NewCommentFlag,
+    options: { hideThreshold: number }
+  ): Promise<CommentFlagResult | null>;
+  /** Hidden comments and visible ones with flags, most recently flagged first */
+  queue(options: { limit: number }): Promise<ModeratedComment[]>;
+  get(commentId: string): Promise<ModeratedComment | null>;
+  setStatus(commentId: string, status: CommentStatus): Promise<ModeratedComment | null>;
+  /** Delete the comment with its replies, reactions and flags; returns what was deleted */
+  remove(commentId: string): Promise<ModeratedComment | null>;
+}
+
+/** The public view of a comment moderators looked at */
+export function toPublicComment(comment: ModeratedComment): Comment {
+  const { id, reportId, author, text, timestamp, signedBy, parentId, depth, reactions, walletReactions } = comment;
+  return {
+    id,
+    reportId,
+    author,
+    text,
+    timestamp,
+    signedBy,
+    parentId,
+    depth,
+    reactions,
+    walletReactions,
+    viewerReacted: noViewerReactions(),
+  };
+}
+
+/** Comments the public can see */
+export function isPublicStatus(status: CommentStatus): boolean {
+  return status !== "hidden";
+}
+
+export function isCommentFlagReason(value: unknown): value is CommentFlagReason {
+  return COMMENT_FLAG_REASONS.includes(value as CommentFlagReason);
+}
+
+export function isCommentReaction(value: unknown): value is CommentReaction {
+  return COMMENT_REACTIONS.includes(value as CommentReaction);
+}
+
+export function newCommentId(now: number): string {
+  return `${now}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function emptyReactions(): Record<CommentReaction, number> {
+  return { helpful: 0, thankyou: 0 };
+}
+
+export function noViewerReactions(): Record<CommentReaction, boolean> {
+  return { helpful: false, thankyou: false };
+}
+
+export function emptyFlagSummary(): CommentFlagSummary {
+  return { count: 0, wallets: 0, reasons: { abuse: 0, doxxing: 0, spam: 0, misleading: 0, other: 0 }, notes: [], lastFlaggedAt: null };
+}
+
+export function encodeCommentCursor(comment: Pick<Comment, "timestamp" | "id">): string {
+  return Buffer.from(JSON.stringify([comment.timestamp, comment.id])).toString("base64url");
+}
+
+/**
+ * Parse a cursor from a query string; null if it isn't one
+ */
+export function decodeCommentCursor(value: string): CommentCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [timestamp, id] = parsed;
+    if (!Number.isSafeInteger(timestamp) || typeof id !== "string") return null;
+    return { timestamp, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replies to one top-level comment in thread order: each reply follows its
+ * parent, siblings oldest first. Replies whose parent isn't among them (it
+ * was hidden) are left out.
+ */
+export function orderThread<T extends Pick<Comment, "id" | "parentId" | "timestamp">>(rootId: string, replies: T[]): T[] {
+  const children = new Map<string, T[]>();
+  for (const reply of replies) {
+    if (reply.parentId) children.set(reply.parentId, [...(children.get(reply.parentId) ?? []), reply]);
+  }
+  const ordered: T[] = [];
+  const visit = (parentId: string) => {
+    const siblings = (children.get(parentId) ?? []).sort((a, b) => (isListedBefore(a, b) ? 1 : -1));
+    for (const reply of siblings) {
+      ordered.push(reply);
+      visit(reply.id);
+    }
+  };
+  visit(rootId);
+  return ordered;
+}
+
+/**
+ * Whether comment `a` is listed before `b`: newer first, ties broken by id
+ */
+export function isListedBefore(a: CommentCursor, b: CommentCursor): boolean {
+  return a.timestamp !== b.timestamp ? a.timestamp > b.timestamp : a.id > b.id;
+}
+
+type StoredComment = Omit<ModeratedComment, "reactions" | "walletReactions" | "viewerReacted" | "flags" | "reportKey"> & {
+  /** Top-level comment of the thread; null for top-level comments */
+  rootId: string | null;
+  reactors: Record<CommentReaction, Set<string>>;
+  flags: Map<string, { reason: CommentFlagReason; note: string | null; at: number }>;
+};
+
+export function createMemoryCommentStore(): CommentStore {
+  const comments = new Map<string, StoredComment[]>();
+  const signatures = new Set<string>();
+
+  const view = (comment: StoredComment, viewer?: string | null): Comment => {
+    const { id, reportId, author, text, timestamp, signedBy, parentId, depth } = comment;
+    const reactions = emptyReactions();
+    const walletReactions = emptyReactions();
+    const viewerReacted = noViewerReactions();
+    for (const reaction of COMMENT_REACTIONS) {
+      reactions[reaction] = comment.reactors[reaction].size;
+      walletReactions[reaction] = [...comment.reactors[reaction]].filter(isWalletReactor).length;
+      viewerReacted[reaction] = !!viewer && comment.reactors[reaction].has(viewer);
+    }
+    return { id, reportId, author, text, timestamp, signedBy, parentId, depth, reactions, walletReactions, viewerReacted };
+  };
+
+  const moderatorView = (reportKey: string, comment: StoredComment): ModeratedComment => {
+    const flags = emptyFlagSummary();
+    for (const [reactor, { reason, note, at }] of comment.flags) {
+      flags.count++;
+      if (isWalletReactor(reactor)) flags.wallets++;
+      flags.reasons[reason]++;
+      if (note) flags.notes.push(note);
+      flags.lastFlaggedAt = Math.max(flags.lastFlaggedAt ?? 0, at);
+    }
+    return { ...view(comment), reportKey, status: comment.status, reactor: comment.reactor, flags };
+  };
+
+  const find = (commentId: string) => {
+    for (const [reportId, list] of comments) {
+      const comment = list.find((c) => c.id === commentId);
+      if (comment) return { reportId, comment };
+    }
+    return null;
+  };
+
+  return {
+    async add({ reportId, author, text, signedBy, signature, reactor, parentId }) {
+      const parent = parentId ? comments.get(reportId)?.find((c) => c.id === parentId) : null;
+      if (signature) {
+        if (signatures.has(signature.toLowerCase())) return null;
+        signatures.add(signature.toLowerCase());
+      }
+      const now = Date.now();
+      const comment: StoredComment = {
+        id: newCommentId(now),
+        reportId: Number(reportId),
+        author,
+        text,
+        timestamp: now,
+        signedBy,
+        parentId: parent?.id ?? null,
+        rootId: parent ? (parent.rootId ?? parent.id) : null,
+        depth: parent ? parent.depth + 1 : 0,
+        status: "visible",
+        reactor,
+        reactors: { helpful: new Set(), thankyou: new Set() },
+        flags: new Map(),
+      };
+      comments.set(reportId, [...(comments.get(reportId) ?? []), comment]);
+      return view(comment);
+    },
+
+    async list(reportId, { limit, cursor, viewer }) {
+      const all = (comments.get(reportId) ?? []).filter((comment) => isPublicStatus(comment.status));
+      const roots = all.filter((comment) => !comment.parentId).sort((a, b) => (isListedBefore(a, b) ? -1 : 1));
+      const rest = cursor ? roots.filter((comment) => isListedBefore(cursor, comment)) : roots;
+      const page = rest.slice(0, limit);
+      return {
+        comments: page.map((root) => ({
+          ...view(root, viewer),
+          replies: orderThread(
+            root.id,
+            all.filter((comment) => comment.rootId === root.id)
+          ).map((reply) => view(reply, viewer)),
+        })),
+        total: all.length,
+        nextCursor: rest.length > limit ? encodeCommentCursor(page[page.length - 1]) : null,
+      };
+    },
+
+    async react(reportId, commentId, reaction, reactor) {
+      const comment = comments.get(reportId)?.find((c) => c.id === commentId);
+      if (!comment || !isPublicStatus(comment.status)) return null;
+      const reactors = comment.reactors[reaction];
+      if (reactors.has(reactor)) reactors.delete(reactor);
+      else reactors.add(reactor);
+      return view(comment, reactor);
+    },
+
+    async flag(reportId, commentId, { reactor, reason, note }, { hideThreshold }) {
+      const comment = comments.get(reportId)?.find((c) => c.id === commentId);
+      if (!comment) return null;
+      if (!comment.flags.has(reactor)) comment.flags.set(reactor, { reason, note, at: Date.now() });
+      const walletFlags = [...comment.flags.keys()].filter(isWalletReactor).length;
+      const autoHidden = comment.status === "visible" && walletFlags >= hideThreshold;
+      if (autoHidden) comment.status = "hidden";
+      return { flags: comment.flags.size, walletFlags, hidden: comment.status === "hidden", autoHidden };
+    },
+
+    async queue({ limit }) {
+      return [...comments]
+        .flatMap(([reportKey, list]) => list.map((comment) => moderatorView(reportKey, comment)))
+        .filter((comment) => comment.status === "hidden" || (comment.status === "visible" && comment.flags.count > 0))
+        .sort((a, b) => (b.flags.lastFlaggedAt ?? 0) - (a.flags.lastFlaggedAt ?? 0))
+        .slice(0, limit);
+    },
+
+    async get(commentId) {
+      const found = find(commentId);
+      return found && moderatorView(found.reportId, found.comment);
+    },
+
+    async setStatus(commentId, status) {
+      const found = find(commentId);
+      if (!found) return null;
+      found.comment.status = status;
+      return moderatorView(found.reportId, found.comment);
+    },
+
+    async remove(commentId) {
+      const found = find(commentId);
+      if (!found) return null;
+      const removed = new Set([found.comment.id]);
+      const remaining = comments.get(found.reportId)!.filter((c) => c !== found.comment);
+      // Replies go with it; they're added after their parents
+      const kept = remaining.filter((c) => {
+        if (c.parentId && removed.has(c.parentId)) {
+          removed.add(c.id);
+          return false;
+        }
+        return true;
+      });
+      comments.set(found.reportId, kept);
+      return moderatorView(found.reportId, found.comment);
+    },
+  };
+}
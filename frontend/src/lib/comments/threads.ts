@@ -0,0 +1,74 @@
+import { orderThread, type Comment, type CommentThread } from "./store";
+import type { CommentEvent } from "./events";
+
+// Client-side bookkeeping for loaded comment threads: new comments, replies,
+// reaction counts and removals arrive from the live stream (./events) and
+// from the client's own requests, in any order and sometimes twice.
+
+export function countComments(threads: CommentThread[]): number {
+  return threads.reduce((sum, thread) => sum + 1 + thread.replies.length, 0);
+}
+
+function contains(threads: CommentThread[], commentId: string) {
+  return threads.some((thread) => thread.id === commentId || thread.replies.some((reply) => reply.id === commentId));
+}
+
+/**
+ * Add a comment or reply. Known comments and replies to threads that aren't
+ * loaded are ignored.
+ */
+export function insertComment(threads: CommentThread[], comment: Comment): CommentThread[] {
+  if (contains(threads, comment.id)) return threads;
+  if (!comment.parentId) return [{ ...comment, replies: [] }, ...threads];
+
+  const parentId = comment.parentId;
+  return threads.map((thread) =>
+    thread.id === parentId || thread.replies.some((reply) => reply.id === parentId)
+      ? { ...thread, replies: orderThread(thread.id, [...thread.replies, comment]) }
+      : thread
+  );
+}
+
+/**
+ * Apply `update` to the comment with this id, wherever it is
+ */
+export function updateComment(
+  threads: CommentThread[],
+  commentId: string,
+  update: (comment: Comment) => Comment
+): CommentThread[] {
+  return threads.map((thread) =>
+    thread.id === commentId
+      ? { ...update(thread), replies: thread.replies }
+      : { ...thread, replies: thread.replies.map((reply) => (reply.id === commentId ? update(reply) : reply)) }
+  );
+}
+
+/**
+ * Drop a comment and its replies
+ */
+export function removeComment(threads: CommentThread[], commentId: string): CommentThread[] {
+  return threads
+    .filter((thread) => thread.id !== commentId)
+    .map((thread) =>
+      thread.replies.some((reply) => reply.id === commentId)
+        ? { ...thread, replies: orderThread(thread.id, thread.replies.filter((reply) => reply.id !== commentId)) }
+        : thread
+    );
+}
+
+export function applyCommentEvent(threads: CommentThread[], event: CommentEvent): CommentThread[] {
+  switch (event.type) {
+    case "comment":
+      return insertComment(threads, event.comment);
+    case "reaction":
+      // Counts only; whether this viewer reacted doesn't change
+      return updateComment(threads, event.commentId, (comment) => ({
+        ...comment,
+        reactions: event.reactions,
+        walletReactions: event.walletReactions,
+      }));
+    case "removed":
+      return removeComment(threads, event.commentId);
+  }
+}
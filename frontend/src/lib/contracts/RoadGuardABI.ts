@@ -86,6 +86,13 @@ export const RoadGuardABI = [
     outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "confirmationThreshold",
+    inputs: [],
+    outputs: [{ name: "", type: "uint32", internalType: "uint32" }],
+    stateMutability: "view",
+  },
   {
     type: "event",
     name: "ReportSubmitted",
@@ -130,6 +137,24 @@ export const RoadGuardABI = [
     ],
     anonymous: false,
   },
+  {
+    type: "event",
+    name: "ReportSlashed",
+    inputs: [
+      { name: "reportId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "commitment", type: "bytes32", indexed: true, internalType: "bytes32" },
+      { name: "slashedAmount", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ReportExpired",
+    inputs: [
+      { name: "reportId", type: "uint256", indexed: true, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
 ] as const;
 
 export const EventTypeLabels = [
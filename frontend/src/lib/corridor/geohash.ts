@@ -0,0 +1,85 @@
+// Geohashes for the spatial index on reports_cache. The database computes
+// the stored hash (geohash_encode in database/schema.sql); this module
+// computes the same hashes for queries. A hash names a lat/lng cell, and
+// every hash inside a cell starts with the cell's hash, so "reports in
+// these cells" is a set of prefix ranges over one btree index.
+
+const ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/** Length of the hash stored per report (cells of about 5 m) */
+export const STORED_GEOHASH_PRECISION = 9;
+
+export interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export function encodeGeohash(lat: number, lng: number, precision = STORED_GEOHASH_PRECISION): string {
+  let latLo = -90;
+  let latHi = 90;
+  let lngLo = -180;
+  let lngHi = 180;
+  let hash = "";
+  let bits = 0;
+  let bit = 0;
+  let even = true;
+
+  while (hash.length < precision) {
+    if (even) {
+      const mid = (lngLo + lngHi) / 2;
+      bits = bits * 2 + (lng >= mid ? 1 : 0);
+      if (lng >= mid) lngLo = mid;
+      else lngHi = mid;
+    } else {
+      const mid = (latLo + latHi) / 2;
+      bits = bits * 2 + (lat >= mid ? 1 : 0);
+      if (lat >= mid) latLo = mid;
+      else latHi = mid;
+    }
+    even = !even;
+    if (++bit === 5) {
+      hash += ALPHABET[bits];
+      bits = 0;
+      bit = 0;
+    }
+  }
+  return hash;
+}
+
+/** Size in degrees of the cells named by hashes of this length */
+export function geohashCellSize(precision: number): { lat: number; lng: number } {
+  const lngBits = Math.ceil((precision * 5) / 2);
+  const latBits = Math.floor((precision * 5) / 2);
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+}
+
+/**
+ * The cells of this length that together cover `bounds`, or null once there
+ * would be more than `maxCells`
+ */
+export function coverBounds(bounds: Bounds, precision: number, maxCells = Infinity): Set<string> | null {
+  const size = geohashCellSize(precision);
+  const minLat = Math.max(bounds.minLat, -90);
+  const maxLat = Math.min(bounds.maxLat, 90);
+  const minLng = Math.max(bounds.minLng, -180);
+  const maxLng = Math.min(bounds.maxLng, 180);
+
+  // Cell rows and columns, numbered from the south-west corner of the world
+  const firstRow = Math.floor((minLat + 90) / size.lat);
+  const lastRow = Math.min(Math.floor((maxLat + 90) / size.lat), Math.round(180 / size.lat) - 1);
+  const firstCol = Math.floor((minLng + 180) / size.lng);
+  const lastCol = Math.min(Math.floor((maxLng + 180) / size.lng), Math.round(360 / size.lng) - 1);
+
+  if ((lastRow - firstRow + 1) * (lastCol - firstCol + 1) > maxCells) return null;
+
+  const cells = new Set<string>();
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      // The centre of the cell, well away from its edges
+      cells.add(encodeGeohash(-90 + (row + 0.5) * size.lat, -180 + (col + 0.5) * size.lng, precision));
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,174 @@
+import { coverBounds, geohashCellSize } from "./geohash";
+
+// Reports along a route: the ones within a buffer distance of the route's
+// path, ordered by how far along the route they are. The geometry here runs
+// on the server (POST /api/reports/corridor, with candidates from the
+// spatial index in ./postgres) and in the browser, where it checks the
+// reports already on the map if the endpoint can't be reached.
+
+export * from "./geohash";
+export * from "./polyline";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export const DEFAULT_CORRIDOR_BUFFER_M = 500;
+export const MAX_CORRIDOR_BUFFER_M = 5_000;
+/** Longest path accepted, in points (Google overview paths are a few hundred) */
+export const MAX_CORRIDOR_POINTS = 5_000;
+/** Longest route accepted, in meters */
+export const MAX_CORRIDOR_LENGTH_M = 2_000_000;
+/** Most pieces a route is split into to cover it; past this, bigger cells are tried */
+const MAX_CORRIDOR_STEPS = 10_000;
+/** Most geohash cells one corridor query may cover; longer routes use bigger cells */
+export const MAX_CORRIDOR_CELLS = 200;
+/** Smallest cells used for a corridor query (about 150 m) */
+const MAX_CELL_PRECISION = 7;
+
+const EARTH_RADIUS_M = 6_371_008.8;
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_M;
+
+export interface RouteMatch<T> {
+  item: T;
+  /** Meters along the route to the point closest to the item */
+  distanceFromStart: number;
+  /** Meters from the item to the route */
+  distanceFromRoute: number;
+}
+
+export function distanceBetween(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function routeLength(path: LatLng[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) length += distanceBetween(path[i - 1], path[i]);
+  return length;
+}
+
+/**
+ * Where `point` is closest to the route: its distance from the route and
+ * how far along the route that closest point is
+ */
+export function locateOnRoute(
+  path: LatLng[],
+  point: LatLng
+): { distanceFromStart: number; distanceFromRoute: number } {
+  if (path.length === 1) return { distanceFromStart: 0, distanceFromRoute: distanceBetween(path[0], point) };
+
+  // Segments are projected onto a plane tangent at `point`, which is
+  // accurate to well under a meter at corridor distances
+  const cosLat = Math.cos((point.lat * Math.PI) / 180);
+  const project = (p: LatLng) => ({
+    x: (p.lng - point.lng) * cosLat * METERS_PER_DEGREE,
+    y: (p.lat - point.lat) * METERS_PER_DEGREE,
+  });
+
+  let best = { distanceFromStart: 0, distanceFromRoute: Infinity };
+  let travelled = 0;
+  for (let i = 1; i < path.length; i++) {
+    const a = project(path[i - 1]);
+    const b = project(path[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+    const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+    const segment = distanceBetween(path[i - 1], path[i]);
+
+    if (distance < best.distanceFromRoute) {
+      best = { distanceFromStart: travelled + t * segment, distanceFromRoute: distance };
+    }
+    travelled += segment;
+  }
+  return best;
+}
+
+/**
+ * The items within `buffer` meters of the route, nearest the start first
+ */
+export function alongRoute<T extends LatLng>(path: LatLng[], items: T[], buffer: number): RouteMatch<T>[] {
+  if (path.length === 0) return [];
+  return items
+    .map((item) => ({ item, ...locateOnRoute(path, item) }))
+    .filter((match) => match.distanceFromRoute <= buffer)
+    .sort((a, b) => a.distanceFromStart - b.distanceFromStart);
+}
+
+/**
+ * Geohash cells covering every point within `buffer` meters of the route,
+ * as small as MAX_CORRIDOR_CELLS allows. Callers keep routes within
+ * MAX_CORRIDOR_LENGTH_M.
+ */
+export function corridorCells(path: LatLng[], buffer: number): { precision: number; cells: string[] } {
+  for (let precision = startingPrecision(path, buffer); precision > 1; precision--) {
+    const cells = coverPath(path, buffer, precision);
+    if (cells) return { precision, cells: [...cells] };
+  }
+  return { precision: 1, cells: [...coverPath(path, buffer, 1)!] };
+}
+
+/**
+ * The smallest cells that could cover the route's corridor within
+ * MAX_CORRIDOR_CELLS, judged from its length and buffer. Routes rarely run
+ * straight along cell edges, so coverPath may still need bigger ones.
+ */
+function startingPrecision(path: LatLng[], buffer: number): number {
+  const length = routeLength(path);
+  const maxLat = Math.max(...path.map((point) => Math.abs(point.lat)));
+  const cosLat = Math.max(0.01, Math.cos((maxLat * Math.PI) / 180));
+  for (let precision = MAX_CELL_PRECISION; precision > 1; precision--) {
+    const size = geohashCellSize(precision);
+    const side = Math.min(size.lat, size.lng * cosLat) * METERS_PER_DEGREE;
+    const estimate = Math.ceil((length + 2 * buffer) / side + 1) * Math.ceil((2 * buffer) / side + 1);
+    if (estimate <= MAX_CORRIDOR_CELLS) return precision;
+  }
+  return 1;
+}
+
+function coverPath(path: LatLng[], buffer: number, precision: number): Set<string> | null {
+  // Split long segments so each piece's bounding box stays close to the path
+  const size = geohashCellSize(precision);
+  const step = Math.max(buffer, size.lat * METERS_PER_DEGREE);
+  const points: LatLng[] = [path[0]];
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const pieces = Math.max(1, Math.ceil(distanceBetween(from, to) / step));
+    if (points.length + pieces > MAX_CORRIDOR_STEPS) return null;
+    for (let piece = 1; piece <= pieces; piece++) {
+      points.push({
+        lat: from.lat + ((to.lat - from.lat) * piece) / pieces,
+        lng: from.lng + ((to.lng - from.lng) * piece) / pieces,
+      });
+    }
+  }
+
+  const cells = new Set<string>();
+  for (let i = 0; i < points.length; i++) {
+    const from = points[Math.max(0, i - 1)];
+    const to = points[i];
+    const latDelta = buffer / METERS_PER_DEGREE;
+    const lngDelta = buffer / (METERS_PER_DEGREE * Math.max(0.01, Math.cos((Math.max(Math.abs(from.lat), Math.abs(to.lat)) * Math.PI) / 180)));
+    const covered = coverBounds(
+      {
+        minLat: Math.min(from.lat, to.lat) - latDelta,
+        maxLat: Math.max(from.lat, to.lat) + latDelta,
+        minLng: Math.min(from.lng, to.lng) - lngDelta,
+        maxLng: Math.max(from.lng, to.lng) + lngDelta,
+      },
+      precision,
+      MAX_CORRIDOR_CELLS
+    );
+    if (!covered) return null;
+    for (const cell of covered) cells.add(cell);
+    if (cells.size > MAX_CORRIDOR_CELLS) return null;
+  }
+  return cells;
+}
@@ -0,0 +1,69 @@
+import type { LatLng } from "./index";
+
+// Encoded polylines, the compact path format used by Google Directions
+// (overview_polyline) and OSRM: each coordinate is the difference from the
+// previous one, times 10^precision, in 5-bit chunks offset into printable
+// ASCII.
+
+/**
+ * Points of an encoded polyline, or null if it is malformed
+ */
+export function decodePolyline(encoded: string, precision = 5): LatLng[] | null {
+  const factor = 10 ** precision;
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      if (index >= encoded.length) return null;
+      const byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 63) return null;
+      result += (byte & 0x1f) * 2 ** shift;
+      shift += 5;
+      if (byte < 0x20) break;
+      if (shift > 30) return null;
+    }
+    return result % 2 === 1 ? -(result + 1) / 2 : result / 2;
+  };
+
+  while (index < encoded.length) {
+    const dLat = next();
+    const dLng = next();
+    if (dLat === null || dLng === null) return null;
+    lat += dLat;
+    lng += dLng;
+    points.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return points.every((p) => Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180) ? points : null;
+}
+
+export function encodePolyline(points: LatLng[], precision = 5): string {
+  const factor = 10 ** precision;
+  let encoded = "";
+  let lastLat = 0;
+  let lastLng = 0;
+
+  const write = (delta: number) => {
+    let value = delta < 0 ? -delta * 2 - 1 : delta * 2;
+    while (value >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+      value = Math.floor(value / 32);
+    }
+    encoded += String.fromCharCode(value + 63);
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * factor);
+    const lng = Math.round(point.lng * factor);
+    write(lat - lastLat);
+    write(lng - lastLng);
+    lastLat = lat;
+    lastLng = lng;
+  }
+  return encoded;
+}
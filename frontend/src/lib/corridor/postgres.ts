@@ -0,0 +1,97 @@
+import { and, between, desc, or, sql } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { reportsCache } from "@/lib/schema";
+import { reportColumns, reportConditions, toApiReport, type ApiReport, type ReportFilters } from "@/lib/reports";
+import { alongRoute, corridorCells, type LatLng } from "./index";
+import { STORED_GEOHASH_PRECISION } from "./geohash";
+
+type Database = NonNullable<typeof database>;
+
+/** Most rows the index lookup may hand to the exact distance check */
+export const MAX_CORRIDOR_CANDIDATES = 5_000;
+
+/** Which index found the candidates */
+export type CorridorIndex = "postgis" | "geohash";
+
+export interface CorridorReport extends ApiReport {
+  distanceFromStart: number;
+  distanceFromRoute: number;
+}
+
+export interface CorridorQuery {
+  path: LatLng[];
+  /** Meters either side of the route */
+  buffer: number;
+  filters: ReportFilters;
+  limit: number;
+}
+
+const postgisChecks = new WeakMap<Database, Promise<boolean>>();
+
+/**
+ * Whether the database has PostGIS, checked once per connection. A failed
+ * check isn't kept, so the next query tries again.
+ */
+function hasPostgis(db: Database): Promise<boolean> {
+  let check = postgisChecks.get(db);
+  if (!check) {
+    check = db
+      .execute(sql`SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'postgis') AS installed`)
+      .then((result) => Boolean((result.rows[0] as { installed?: boolean } | undefined)?.installed));
+    postgisChecks.set(db, check);
+    check.catch(() => postgisChecks.delete(db));
+  }
+  return check;
+}
+
+function postgisCondition(path: LatLng[], buffer: number) {
+  const coordinates = path.map((p) => `${p.lng} ${p.lat}`).join(", ");
+  const wkt = path.length === 1 ? `POINT(${coordinates})` : `LINESTRING(${coordinates})`;
+  // Matches the expression of idx_reports_location_gist
+  return sql`ST_DWithin(
+    ST_SetSRID(ST_MakePoint(${reportsCache.locationLng}::DOUBLE PRECISION, ${reportsCache.locationLat}::DOUBLE PRECISION), 4326)::geography,
+    ST_GeogFromText(${wkt}),
+    ${buffer}
+  )`;
+}
+
+function geohashCondition(path: LatLng[], buffer: number) {
+  // Every stored hash in a cell sorts between the cell's hash and the cell's
+  // hash padded with the last letter of the alphabet
+  const { cells } = corridorCells(path, buffer);
+  return or(
+    ...cells.map((cell) =>
+      between(reportsCache.geohash, cell, cell + "z".repeat(STORED_GEOHASH_PRECISION - cell.length))
+    )
+  )!;
+}
+
+/**
+ * Reports within `buffer` meters of the path, nearest the start first. The
+ * spatial index narrows the table down to candidates near the route; the
+ * exact distances are then measured against the path itself.
+ */
+export async function findCorridorReports(
+  db: Database,
+  { path, buffer, filters, limit }: CorridorQuery
+): Promise<{ reports: CorridorReport[]; index: CorridorIndex }> {
+  const index: CorridorIndex = (await hasPostgis(db)) ? "postgis" : "geohash";
+  const near = index === "postgis" ? postgisCondition(path, buffer) : geohashCondition(path, buffer);
+
+  const rows = await db
+    .select(reportColumns)
+    .from(reportsCache)
+    .where(and(near, ...reportConditions(filters)))
+    .orderBy(desc(reportsCache.createdAt))
+    .limit(MAX_CORRIDOR_CANDIDATES);
+
+  const reports = alongRoute(path, rows.map(toApiReport), buffer)
+    .slice(0, limit)
+    .map(({ item, distanceFromStart, distanceFromRoute }) => ({
+      ...item,
+      distanceFromStart: Math.round(distanceFromStart),
+      distanceFromRoute: Math.round(distanceFromRoute),
+    }));
+
+  return { reports, index };
+}
@@ -0,0 +1,135 @@
+import { encodeAbiParameters, getAddress, isAddress, keccak256, parseAbiParameters } from "viem";
+import { db } from "@/lib/db";
+import { getStorageDriver } from "@/lib/storage";
+import { createPostgresReportDetailsStore } from "./postgres";
+import { createMemoryReportDetailsStore, type Hex, type ReportContent, type ReportDetails, type ReportDetailsStore } from "./store";
+
+export * from "./store";
+
+// Report details are stored off-chain, but their hash is anchored on-chain:
+// the relayer appends it to the submitReport calldata. Solidity ignores the
+// extra bytes, and the transaction hash commits to them, so anyone can check
+// a stored description and photo list against the transaction that created
+// the report.
+
+export const MAX_DESCRIPTION_LENGTH = 280;
+export const MAX_REPORT_PHOTOS = 3;
+
+const CONTENT_HASH_DOMAIN = "roadguard/report-details/v1";
+const CONTENT_HASH_DOMAIN_V2 = "roadguard/report-details/v2";
+
+/**
+ * Hash of a report's description, photo URLs and comment key, as appended to
+ * its calldata
+ */
+export function reportContentHash(content: ReportContent): Hex {
+  if (content.commentKey) {
+    return keccak256(
+      encodeAbiParameters(parseAbiParameters("string, string, string[], address"), [
+        CONTENT_HASH_DOMAIN_V2,
+        content.description,
+        content.photos,
+        content.commentKey,
+      ])
+    );
+  }
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters("string, string, string[]"), [
+      CONTENT_HASH_DOMAIN,
+      content.description,
+      content.photos,
+    ])
+  );
+}
+
+/**
+ * Whether transaction calldata ends with the content hash
+ */
+export function isAnchoredIn(input: Hex, contentHash: Hex): boolean {
+  return input.toLowerCase().endsWith(contentHash.slice(2).toLowerCase());
+}
+
+/**
+ * Where photos uploaded through /api/upload are served from, or null when
+ * storage is not configured
+ */
+export function getPhotoUrlPrefix(): string | null {
+  return getStorageDriver()?.urlPrefix ?? null;
+}
+
+/**
+ * Validate the optional description, photos and comment key of a report
+ * request. Returns null when there are none, or an error message.
+ */
+export function parseReportContent(
+  body: { description?: unknown; photos?: unknown; commentKey?: unknown },
+  photoUrlPrefix: string | null
+): ReportContent | null | string {
+  const { description = "", photos = [], commentKey } = body;
+
+  if (typeof description !== "string") return "description must be a string";
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    return `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(photos) || photos.some((photo) => typeof photo !== "string")) {
+    return "photos must be an array of URLs";
+  }
+  if (photos.length > MAX_REPORT_PHOTOS) return `At most ${MAX_REPORT_PHOTOS} photos per report`;
+  // Only our own uploads, so the detail view never loads third-party URLs
+  if (photos.some((photo) => !photoUrlPrefix || !photo.startsWith(photoUrlPrefix))) {
+    return "photos must be URLs returned by /api/upload";
+  }
+
+  if (commentKey !== undefined && (typeof commentKey !== "string" || !isAddress(commentKey, { strict: false }))) {
+    return "commentKey must be an address";
+  }
+
+  const trimmed = description.trim();
+  if (!trimmed && photos.length === 0 && !commentKey) return null;
+  return commentKey
+    ? { description: trimmed, photos, commentKey: getAddress(commentKey) }
+    : { description: trimmed, photos };
+}
+
+export interface ReportDetailsIntegrity {
+  /** The stored content still hashes to the stored hash */
+  contentMatches: boolean;
+  /** The submitting transaction carries the hash; null when it could not be fetched */
+  anchored: boolean | null;
+}
+
+/**
+ * Whether the submitting transaction carries the content hash, or null when
+ * it could not be fetched. Checked once, when the relayer saves the details.
+ */
+export async function checkReportAnchor(
+  contentHash: Hex,
+  txHash: Hex,
+  getTransactionInput: (hash: Hex) => Promise<Hex>
+): Promise<boolean | null> {
+  try {
+    return isAnchoredIn(await getTransactionInput(txHash), contentHash);
+  } catch {
+    // RPC unavailable; the local check still stands
+    return null;
+  }
+}
+
+/**
+ * Check stored details against their hash and the anchor recorded on save
+ */
+export function verifyReportDetails(details: ReportDetails): ReportDetailsIntegrity {
+  return { contentMatches: reportContentHash(details) === details.contentHash, anchored: details.anchored };
+}
+
+let memoryStore: ReportDetailsStore | null = null;
+
+/**
+ * Postgres when DATABASE_URL is set; otherwise a per-process in-memory store
+ */
+export function getReportDetailsStore(): ReportDetailsStore {
+  if (db) return createPostgresReportDetailsStore(db);
+  memoryStore ??= createMemoryReportDetailsStore();
+  return memoryStore;
+}
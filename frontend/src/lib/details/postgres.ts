@@ -0,0 +1,40 @@
+import { eq } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { reportDetails } from "@/lib/schema";
+import type { Hex, ReportDetailsStore } from "./store";
+
+type Database = NonNullable<typeof database>;
+
+/**
+ * Postgres-backed report details, one row per chain report id
+ */
+export function createPostgresReportDetailsStore(db: Database): ReportDetailsStore {
+  return {
+    async save(details) {
+      await db
+        .insert(reportDetails)
+        .values(details)
+        .onConflictDoNothing({ target: reportDetails.chainReportId });
+    },
+
+    async get(chainReportId) {
+      const rows = await db
+        .select()
+        .from(reportDetails)
+        .where(eq(reportDetails.chainReportId, chainReportId))
+        .limit(1);
+      if (rows.length === 0) return null;
+      const row = rows[0];
+      return {
+        chainReportId: row.chainReportId,
+        description: row.description,
+        photos: row.photos,
+        ...(row.commentKey && { commentKey: row.commentKey as Hex }),
+        contentHash: row.contentHash as Hex,
+        txHash: row.txHash as Hex,
+        anchored: row.anchored,
+        createdAt: row.createdAt,
+      };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+// Persistence contract for report details (description and photos). The
+// Postgres implementation lives in ./postgres; the in-memory one below is
+// used in tests and when no DATABASE_URL is configured.
+
+export type Hex = `0x${string}`;
+
+/** What the reporter wrote, before it is tied to a report id */
+export interface ReportContent {
+  description: string;
+  /** Public URLs returned by /api/upload */
+  photos: string[];
+  /** Address the reporter signs comments with (see deriveCommentKey) */
+  commentKey?: Hex;
+}
+
+export interface ReportDetails extends ReportContent {
+  chainReportId: number;
+  /** reportContentHash() of the content, appended to the submitReport calldata */
+  contentHash: Hex;
+  /** Transaction that submitted the report and carries the hash */
+  txHash: Hex;
+  /** Whether that transaction carried the hash when the details were saved; null if it could not be fetched */
+  anchored: boolean | null;
+  createdAt: Date;
+}
+
+export interface ReportDetailsStore {
+  /** Insert once per report; a second save for the same id is ignored */
+  save(details: Omit<ReportDetails, "createdAt">): Promise<void>;
+  get(chainReportId: number): Promise<ReportDetails | null>;
+}
+
+export function createMemoryReportDetailsStore(): ReportDetailsStore {
+  const rows = new Map<number, ReportDetails>();
+
+  return {
+    async save(details) {
+      if (rows.has(details.chainReportId)) return;
+      rows.set(details.chainReportId, { ...details, photos: [...details.photos], createdAt: new Date() });
+    },
+
+    async get(chainReportId) {
+      const row = rows.get(chainReportId);
+      return row ? { ...row, photos: [...row.photos] } : null;
+    },
+  };
+}
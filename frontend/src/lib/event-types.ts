@@ -0,0 +1,20 @@
+// Event types by their on-chain id (eventType 0-5), with how the app shows
+// them. Kept out of the map components so server routes can use the labels.
+
+export const EVENT_TYPES = {
+  ACCIDENT: { id: 0, label: "Accident", color: "#EF4444", icon: "🚗", image: "/images/accident.png" },
+  ROAD_CLOSURE: { id: 1, label: "Road Closure", color: "#F97316", icon: "🚧", image: "/images/road-closure.png" },
+  PROTEST: { id: 2, label: "Protest", color: "#A855F7", icon: "📢", image: null },
+  POLICE_ACTIVITY: { id: 3, label: "Police Activity", color: "#3B82F6", icon: "👮", image: null },
+  HAZARD: { id: 4, label: "Hazard", color: "#EAB308", icon: "⚠️", image: "/images/hazard.png" },
+  TRAFFIC_JAM: { id: 5, label: "Traffic Jam", color: "#6B7280", icon: "🚦", image: null },
+} as const;
+
+export type EventType = keyof typeof EVENT_TYPES;
+
+const EVENT_TYPE_KEYS = Object.keys(EVENT_TYPES) as EventType[];
+
+/** The key of an on-chain event type id, or undefined for unknown ids */
+export function eventTypeKey(id: number): EventType | undefined {
+  return EVENT_TYPE_KEYS.find((key) => EVENT_TYPES[key].id === id);
+}
@@ -0,0 +1,140 @@
+import { EVENT_TYPES, eventTypeKey } from "@/lib/event-types";
+import type { ApiReport } from "@/lib/reports";
+
+// Report exports for GIS tools (GET /api/reports/export). Each format is
+// written as a head, a chunk per report and a tail, so an export can be
+// streamed a page of reports at a time.
+
+export type ExportFormat = "geojson" | "kml" | "csv";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["geojson", "kml", "csv"];
+
+export interface ReportExporter {
+  contentType: string;
+  extension: string;
+  head: string;
+  /** A report, preceded by a separator unless it's the first */
+  report(report: ApiReport, first: boolean): string;
+  tail: string;
+}
+
+const STATUS_LABELS = ["Active", "Confirmed", "Expired", "Slashed"];
+
+/** A report as exports show it: labels next to ids, ISO 8601 times */
+function exportFields(report: ApiReport) {
+  const key = eventTypeKey(report.eventType);
+  return {
+    id: report.id,
+    eventType: report.eventType,
+    eventTypeLabel: key ? EVENT_TYPES[key].label : "Unknown",
+    status: report.status,
+    statusLabel: STATUS_LABELS[report.status] ?? "Unknown",
+    lat: report.lat,
+    lng: report.lng,
+    confirmationCount: report.confirmationCount,
+    totalRegards: report.totalRegards,
+    stakeAmount: report.stakeAmount,
+    commitment: report.commitment,
+    txHash: report.txHash,
+    createdAt: new Date(report.timestamp * 1000).toISOString(),
+    expiresAt: new Date(report.expiresAt * 1000).toISOString(),
+  };
+}
+
+type ExportFields = ReturnType<typeof exportFields>;
+
+const CSV_COLUMNS: (keyof ExportFields)[] = [
+  "id",
+  "eventType",
+  "eventTypeLabel",
+  "status",
+  "statusLabel",
+  "lat",
+  "lng",
+  "confirmationCount",
+  "totalRegards",
+  "stakeAmount",
+  "commitment",
+  "txHash",
+  "createdAt",
+  "expiresAt",
+];
+
+/** A CSV field, quoted when it has to be (RFC 4180) */
+export function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function escapeXml(value: unknown): string {
+  return String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[char]!
+  );
+}
+
+/** "#EF4444" as KML writes colors: alpha, blue, green, red */
+const kmlColor = (hex: string) => `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toLowerCase();
+
+const geojson: ReportExporter = {
+  contentType: "application/geo+json",
+  extension: "geojson",
+  head: '{"type":"FeatureCollection","features":[\n',
+  report(report, first) {
+    const { lat, lng, ...properties } = exportFields(report);
+    const feature = { type: "Feature", id: report.id, geometry: { type: "Point", coordinates: [lng, lat] }, properties };
+    return `${first ? "" : ",\n"}${JSON.stringify(feature)}`;
+  },
+  tail: "\n]}\n",
+};
+
+const kml: ReportExporter = {
+  contentType: "application/vnd.google-earth.kml+xml",
+  extension: "kml",
+  head: [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    "<name>RoadGuard reports</name>",
+    ...Object.entries(EVENT_TYPES).map(
+      ([key, type]) => `<Style id="${key}"><IconStyle><color>${kmlColor(type.color)}</color></IconStyle></Style>`
+    ),
+    "",
+  ].join("\n"),
+  report(report) {
+    const { lat, lng, ...fields } = exportFields(report);
+    const key = eventTypeKey(report.eventType);
+    return [
+      `<Placemark id="report-${report.id}">`,
+      `<name>${escapeXml(`${fields.eventTypeLabel} #${report.id}`)}</name>`,
+      ...(key ? [`<styleUrl>#${key}</styleUrl>`] : []),
+      `<TimeStamp><when>${fields.createdAt}</when></TimeStamp>`,
+      "<ExtendedData>",
+      ...Object.entries(fields).map(
+        ([name, value]) => `<Data name="${name}"><value>${escapeXml(value)}</value></Data>`
+      ),
+      "</ExtendedData>",
+      `<Point><coordinates>${lng},${lat}</coordinates></Point>`,
+      "</Placemark>",
+      "",
+    ].join("\n");
+  },
+  tail: "</Document>\n</kml>\n",
+};
+
+const csv: ReportExporter = {
+  contentType: "text/csv; charset=utf-8",
+  extension: "csv",
+  head: `${CSV_COLUMNS.join(",")}\r\n`,
+  report(report) {
+    const fields = exportFields(report);
+    return `${CSV_COLUMNS.map((column) => csvField(fields[column])).join(",")}\r\n`;
+  },
+  tail: "",
+};
+
+const EXPORTERS: Record<ExportFormat, ReportExporter> = { geojson, kml, csv };
+
+export function getReportExporter(format: ExportFormat): ReportExporter {
+  return EXPORTERS[format];
+}
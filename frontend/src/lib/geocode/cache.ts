@@ -0,0 +1,72 @@
+import type { Bounds } from "@/lib/corridor";
+import type { Geocoder, Place } from "./provider";
+
+// Per-process cache in front of a geocoder. Search-as-you-type repeats the
+// same queries, and providers are rate limited (Nominatim) or billed per
+// request (Google). Lookups are keyed on a rounded viewport and point, so
+// nearby views share entries. Failed lookups are not cached.
+
+export interface GeocodeCacheOptions {
+  ttlMs: number;
+  /** Least recently used entries are dropped past this */
+  maxEntries: number;
+  now?: () => number;
+}
+
+/** Viewport corners are rounded to this many decimals (about 1 km) */
+const VIEWPORT_DECIMALS = 2;
+/** Reverse lookups are rounded to this many decimals (about 10 m) */
+const POINT_DECIMALS = 4;
+
+const roundViewport = (viewport: Bounds) =>
+  [viewport.minLat, viewport.minLng, viewport.maxLat, viewport.maxLng]
+    .map((value) => value.toFixed(VIEWPORT_DECIMALS))
+    .join(",");
+
+export function createCachedGeocoder(geocoder: Geocoder, options: GeocodeCacheOptions): Geocoder {
+  const { ttlMs, maxEntries, now = Date.now } = options;
+  const entries = new Map<string, { value: Promise<Place[] | Place | null>; expiresAt: number }>();
+
+  const cached = <T extends Place[] | Place | null>(key: string, lookup: () => Promise<T>): Promise<T> => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > now()) {
+      // Move to the back of the map, which is the most recently used end
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value as Promise<T>;
+    }
+
+    // The promise is cached, so concurrent identical lookups share a request
+    const value = lookup();
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: now() + ttlMs });
+    value.catch(() => {
+      if (entries.get(key)?.value === value) entries.delete(key);
+    });
+
+    while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    return value;
+  };
+
+  return {
+    name: geocoder.name,
+    autocomplete: geocoder.autocomplete,
+
+    search(search) {
+      const key = [
+        "search",
+        search.query.trim().toLowerCase(),
+        search.viewport ? roundViewport(search.viewport) : "",
+        search.limit,
+        search.language ?? "",
+      ].join("|");
+      return cached(key, () => geocoder.search(search));
+    },
+
+    reverse(point, language) {
+      const lat = Number(point.lat.toFixed(POINT_DECIMALS));
+      const lng = Number(point.lng.toFixed(POINT_DECIMALS));
+      return cached(`reverse|${lat},${lng}|${language ?? ""}`, () => geocoder.reverse({ lat, lng }, language));
+    },
+  };
+}
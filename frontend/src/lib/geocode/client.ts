@@ -0,0 +1,66 @@
+import type { Bounds, LatLng } from "@/lib/corridor";
+import type { Place } from "./provider";
+
+// Browser side of /api/geocode, for location inputs and routing. Kept apart
+// from ./index so the provider code stays on the server.
+
+export interface PlaceSearchOptions {
+  /** The visible map, whose places rank first */
+  viewport?: Bounds | null;
+  /** A point to bias to when there's no map */
+  near?: LatLng | null;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+async function getJson(url: string, signal?: AbortSignal) {
+  const response = await fetch(url, { signal });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+  return data;
+}
+
+function searchParams(query: string, options: PlaceSearchOptions) {
+  const params = new URLSearchParams({ q: query });
+  const { viewport, near, limit } = options;
+  if (viewport) {
+    params.set("bbox", [viewport.minLng, viewport.minLat, viewport.maxLng, viewport.maxLat].join(","));
+  } else if (near) {
+    params.set("near", `${near.lat},${near.lng}`);
+  }
+  if (limit) params.set("limit", String(limit));
+  return params;
+}
+
+/** Search when the user asks to, e.g. on Enter or to plan a route */
+export async function searchPlaces(query: string, options: PlaceSearchOptions = {}): Promise<Place[]> {
+  const data = await getJson(`/api/geocode?${searchParams(query, options)}`, options.signal);
+  if (data.autocomplete === false) autocompleteAllowed = false;
+  return data.places;
+}
+
+// Cleared once the server says its geocoder doesn't allow autocomplete
+let autocompleteAllowed = true;
+
+/**
+ * Suggestions for text as it's typed, or null when the geocoder only answers
+ * explicit searches (the public Nominatim instance). Once it's null, it stays
+ * null without asking the server again.
+ */
+export async function suggestPlaces(query: string, options: PlaceSearchOptions = {}): Promise<Place[] | null> {
+  if (!autocompleteAllowed) return null;
+  const params = searchParams(query, options);
+  params.set("autocomplete", "1");
+  const data = await getJson(`/api/geocode?${params}`, options.signal);
+  if (data.autocomplete === false) {
+    autocompleteAllowed = false;
+    return null;
+  }
+  return data.places;
+}
+
+export async function reverseGeocode(point: LatLng, signal?: AbortSignal): Promise<Place | null> {
+  const params = new URLSearchParams({ lat: String(point.lat), lng: String(point.lng) });
+  const data = await getJson(`/api/geocode/reverse?${params}`, signal);
+  return data.place;
+}
@@ -0,0 +1,103 @@
+import type { Geocoder, Place } from "./provider";
+
+// Geocoding with Google: place search through the Places API (Text Search)
+// and reverse lookup through the Geocoding API. Both are called from the
+// server, so the key must allow server use (no HTTP referrer restriction).
+
+const PLACES_SEARCH_URL = "https://places.googleapis.com/v1/places:searchText";
+const GEOCODING_URL = "https://maps.googleapis.com/maps/api/geocode/json";
+
+export interface GoogleGeocoderOptions {
+  apiKey: string;
+  fetch?: typeof fetch;
+}
+
+interface TextSearchResponse {
+  places?: {
+    id: string;
+    displayName?: { text: string };
+    formattedAddress?: string;
+    location: { latitude: number; longitude: number };
+  }[];
+  error?: { message: string };
+}
+
+interface GeocodingResponse {
+  status: string;
+  error_message?: string;
+  results: {
+    place_id: string;
+    formatted_address: string;
+    geometry: { location: { lat: number; lng: number } };
+  }[];
+}
+
+export function createGoogleGeocoder(options: GoogleGeocoderOptions): Geocoder {
+  const request = options.fetch ?? ((input, init) => fetch(input, init));
+
+  return {
+    name: "google",
+    autocomplete: true,
+
+    async search({ query, viewport, limit, language }) {
+      const res = await request(PLACES_SEARCH_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Goog-Api-Key": options.apiKey,
+          "X-Goog-FieldMask": "places.id,places.displayName,places.formattedAddress,places.location",
+        },
+        body: JSON.stringify({
+          textQuery: query,
+          pageSize: limit,
+          languageCode: language,
+          locationBias: viewport
+            ? {
+                rectangle: {
+                  low: { latitude: viewport.minLat, longitude: viewport.minLng },
+                  high: { latitude: viewport.maxLat, longitude: viewport.maxLng },
+                },
+              }
+            : undefined,
+        }),
+      });
+
+      const data: TextSearchResponse = await res.json();
+      if (!res.ok) throw new Error(`Google place search failed: ${data.error?.message || `HTTP ${res.status}`}`);
+
+      return (data.places ?? []).map((place): Place => {
+        const address = place.formattedAddress || "";
+        const name = place.displayName?.text || address.split(",")[0];
+        return {
+          id: `google:${place.id}`,
+          name,
+          // Addresses of businesses and landmarks leave the name out
+          address: address.startsWith(name) ? address : [name, address].filter(Boolean).join(", "),
+          lat: place.location.latitude,
+          lng: place.location.longitude,
+        };
+      });
+    },
+
+    async reverse({ lat, lng }, language) {
+      const params = new URLSearchParams({ latlng: `${lat},${lng}`, key: options.apiKey });
+      if (language) params.set("language", language);
+
+      const res = await request(`${GEOCODING_URL}?${params}`);
+      const data: GeocodingResponse = await res.json();
+      if (data.status === "ZERO_RESULTS") return null;
+      if (!res.ok || data.status !== "OK") {
+        throw new Error(`Google reverse geocoding failed: ${data.error_message || data.status}`);
+      }
+
+      const [result] = data.results;
+      return {
+        id: `google:${result.place_id}`,
+        name: result.formatted_address.split(",")[0],
+        address: result.formatted_address,
+        lat: result.geometry.location.lat,
+        lng: result.geometry.location.lng,
+      };
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import type { Bounds, LatLng } from "@/lib/corridor";
+import { createCachedGeocoder } from "./cache";
+import { createGoogleGeocoder } from "./google";
+import { createNominatimGeocoder } from "./nominatim";
+import { createGeocodeLimiter, getGeocodeLimitConfig, type GeocodeLimiter } from "./limits";
+import { createFixtureGeocoder, type Geocoder, type GeocoderName } from "./provider";
+
+export * from "./provider";
+export { createCachedGeocoder, type GeocodeCacheOptions } from "./cache";
+export { createGoogleGeocoder } from "./google";
+export { createNominatimGeocoder, DEFAULT_NOMINATIM_URL } from "./nominatim";
+export * from "./limits";
+
+const GEOCODER_NAMES: GeocoderName[] = ["google", "nominatim", "fixture"];
+
+export const DEFAULT_PLACE_LIMIT = 5;
+export const MAX_PLACE_LIMIT = 10;
+export const MAX_PLACE_QUERY_LENGTH = 200;
+/** Half the side of the box a `near` point biases results to */
+const NEAR_RADIUS_DEGREES = 0.05;
+
+export interface GeocoderConfig {
+  provider: GeocoderName;
+  /** null unless GOOGLE_MAPS_API_KEY (or the public key) is set */
+  googleApiKey: string | null;
+  nominatimUrl: string | undefined;
+  nominatimUserAgent: string | undefined;
+  cacheTtlMs: number;
+  cacheMaxEntries: number;
+}
+
+/**
+ * Read geocoding settings from the environment. Without GEOCODER, Google is
+ * used when there's a key for it, and Nominatim otherwise.
+ */
+export function getGeocoderConfig(): GeocoderConfig {
+  const { GEOCODER } = process.env;
+  if (GEOCODER && !GEOCODER_NAMES.includes(GEOCODER as GeocoderName)) {
+    throw new Error(`Unknown GEOCODER: ${GEOCODER}`);
+  }
+
+  const googleApiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || null;
+  return {
+    provider: (GEOCODER as GeocoderName | undefined) || (googleApiKey ? "google" : "nominatim"),
+    googleApiKey,
+    nominatimUrl: process.env.NOMINATIM_URL,
+    nominatimUserAgent: process.env.NOMINATIM_USER_AGENT,
+    cacheTtlMs: Number(process.env.GEOCODER_CACHE_TTL_SECONDS || 24 * 60 * 60) * 1000,
+    cacheMaxEntries: Number(process.env.GEOCODER_CACHE_MAX_ENTRIES || 5_000),
+  };
+}
+
+/**
+ * The configured geocoder behind a cache, or null when it needs a key that
+ * is not set
+ */
+export function createGeocoder(config: GeocoderConfig): Geocoder | null {
+  let geocoder: Geocoder;
+  switch (config.provider) {
+    case "google":
+      if (!config.googleApiKey) return null;
+      geocoder = createGoogleGeocoder({ apiKey: config.googleApiKey });
+      break;
+    case "nominatim":
+      geocoder = createNominatimGeocoder({ url: config.nominatimUrl, userAgent: config.nominatimUserAgent });
+      break;
+    case "fixture":
+      geocoder = createFixtureGeocoder();
+      break;
+  }
+  return createCachedGeocoder(geocoder, { ttlMs: config.cacheTtlMs, maxEntries: config.cacheMaxEntries });
+}
+
+// One per process, so the cache outlives requests
+let geocoder: Geocoder | null | undefined;
+
+/** Throws when GEOCODER names an unknown provider */
+export function getGeocoder(): Geocoder | null {
+  if (geocoder === undefined) geocoder = createGeocoder(getGeocoderConfig());
+  return geocoder;
+}
+
+let limiter: GeocodeLimiter | null = null;
+
+/**
+ * Geocoding rate limits for this server instance
+ */
+export function getGeocodeLimiter(): GeocodeLimiter {
+  limiter ??= createGeocodeLimiter(getGeocodeLimitConfig());
+  return limiter;
+}
+
+const parseNumbers = (value: string, count: number): number[] | null => {
+  const numbers = value.split(",").map((part) => (part.trim() ? Number(part) : NaN));
+  return numbers.length === count && numbers.every(Number.isFinite) ? numbers : null;
+};
+
+const isLatLng = ({ lat, lng }: LatLng) => Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+/** "19.43,-99.13" as a point, or null */
+export function parsePoint(value: string): LatLng | null {
+  const numbers = parseNumbers(value, 2);
+  if (!numbers) return null;
+  const point = { lat: numbers[0], lng: numbers[1] };
+  return isLatLng(point) ? point : null;
+}
+
+const isBounds = ({ minLat, minLng, maxLat, maxLng }: Bounds) =>
+  isLatLng({ lat: minLat, lng: minLng }) && isLatLng({ lat: maxLat, lng: maxLng }) && minLat <= maxLat && minLng <= maxLng;
+
+/**
+ * The viewport to bias a search to: `bbox` (minLng,minLat,maxLng,maxLat, the
+ * order /api/reports and GIS tools use), or a small box around `near`
+ * (lat,lng). Undefined when neither is given, null when the one given is
+ * invalid.
+ *
+ * `bounds` (minLat,minLng,maxLat,maxLng) is deprecated but still read when
+ * there's no `bbox`.
+ */
+export function parseViewport(params: URLSearchParams): Bounds | null | undefined {
+  const bbox = params.get("bbox");
+  if (bbox !== null) {
+    const numbers = parseNumbers(bbox, 4);
+    if (!numbers) return null;
+    const [minLng, minLat, maxLng, maxLat] = numbers;
+    const viewport = { minLat, minLng, maxLat, maxLng };
+    return isBounds(viewport) ? viewport : null;
+  }
+
+  const bounds = params.get("bounds");
+  if (bounds !== null) {
+    const numbers = parseNumbers(bounds, 4);
+    if (!numbers) return null;
+    const [minLat, minLng, maxLat, maxLng] = numbers;
+    const viewport = { minLat, minLng, maxLat, maxLng };
+    return isBounds(viewport) ? viewport : null;
+  }
+
+  const near = params.get("near");
+  if (near !== null) {
+    const point = parsePoint(near);
+    if (!point) return null;
+    return {
+      minLat: Math.max(-90, point.lat - NEAR_RADIUS_DEGREES),
+      maxLat: Math.min(90, point.lat + NEAR_RADIUS_DEGREES),
+      minLng: Math.max(-180, point.lng - NEAR_RADIUS_DEGREES),
+      maxLng: Math.min(180, point.lng + NEAR_RADIUS_DEGREES),
+    };
+  }
+
+  return undefined;
+}
+
+/** A BCP 47 language tag such as "es" or "pt-BR", or undefined */
+export function parseLanguage(value: string | null): string | undefined | null {
+  if (value === null || value === "") return undefined;
+  return /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(value) ? value : null;
+}
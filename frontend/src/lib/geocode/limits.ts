@@ -0,0 +1,61 @@
+import { createHmac, randomBytes } from "crypto";
+import { createTokenBucket } from "@/lib/relay/admission";
+
+// Rate limits on /api/geocode and /api/geocode/reverse, which spend the
+// server's Google key or its share of a Nominatim instance. Each client IP
+// has its own budget, and all requests together have one more, so many
+// clients can't add up to more than the provider allows. Like the relay's
+// admission rules, state only lives in process memory and IPs are HMAC'd
+// with a per-process salt.
+
+export interface GeocodeLimitConfig {
+  ipBurst: number;
+  ipPerHour: number;
+  /** Across all clients */
+  serverBurst: number;
+  serverPerHour: number;
+}
+
+/**
+ * Read geocoding limits from the environment. A zero burst disables that limit.
+ */
+export function getGeocodeLimitConfig(): GeocodeLimitConfig {
+  return {
+    ipBurst: parseInt(process.env.GEOCODE_IP_BURST || "30"),
+    ipPerHour: parseFloat(process.env.GEOCODE_IP_PER_HOUR || "300"),
+    serverBurst: parseInt(process.env.GEOCODE_SERVER_BURST || "10"),
+    serverPerHour: parseFloat(process.env.GEOCODE_SERVER_PER_HOUR || "3600"),
+  };
+}
+
+export interface GeocodeLimiter {
+  /** Take a token for each limit; seconds to wait if any is out */
+  take(ip: string | null, now?: Date): { retryAfterSeconds: number } | null;
+}
+
+export function createGeocodeLimiter(config: GeocodeLimitConfig): GeocodeLimiter {
+  const salt = randomBytes(32);
+  const hash = (key: string) => createHmac("sha256", salt).update(key).digest("base64");
+  const limits: { burst: number; perHour: number; keyOf: (ip: string | null) => string | null }[] = [
+    { burst: config.ipBurst, perHour: config.ipPerHour, keyOf: (ip) => ip },
+    { burst: config.serverBurst, perHour: config.serverPerHour, keyOf: () => "server" },
+  ];
+  const buckets = limits
+    .filter((limit) => limit.burst > 0)
+    .map((limit) => ({
+      keyOf: limit.keyOf,
+      bucket: createTokenBucket({ capacity: limit.burst, refillPerHour: limit.perHour }),
+    }));
+
+  return {
+    take(ip, now = new Date()) {
+      for (const { keyOf, bucket } of buckets) {
+        const key = keyOf(ip);
+        if (key === null) continue;
+        const result = bucket.take(hash(key), now);
+        if (!result.ok) return { retryAfterSeconds: Math.max(1, Math.ceil(result.retryAfterMs / 1000)) };
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { Geocoder, Place } from "./provider";
+
+// Geocoding against a Nominatim-compatible API: the public OpenStreetMap
+// instance, or a self-hosted one. The public instance asks for an
+// identifying User-Agent and about one request a second, and its usage
+// policy forbids autocomplete, so it only answers explicit searches; heavy
+// use should go to a self-hosted instance.
+
+export const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+export interface NominatimOptions {
+  url?: string;
+  userAgent?: string;
+  fetch?: typeof fetch;
+}
+
+interface NominatimPlace {
+  place_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+}
+
+const toPlace = (place: NominatimPlace): Place => ({
+  id: `nominatim:${place.place_id}`,
+  name: place.name || place.display_name.split(",")[0],
+  address: place.display_name,
+  lat: Number(place.lat),
+  lng: Number(place.lon),
+});
+
+export function createNominatimGeocoder(options: NominatimOptions = {}): Geocoder {
+  const baseUrl = (options.url || DEFAULT_NOMINATIM_URL).replace(/\/+$/, "");
+  const request = options.fetch ?? ((input, init) => fetch(input, init));
+  const headers = { Accept: "application/json", "User-Agent": options.userAgent || "RoadGuard geocoder" };
+
+  const get = async (path: string, params: Record<string, string | undefined>) => {
+    const query = new URLSearchParams({ format: "jsonv2" });
+    for (const [key, value] of Object.entries(params)) if (value) query.set(key, value);
+
+    const res = await request(`${baseUrl}${path}?${query}`, { headers });
+    if (!res.ok) throw new Error(`Nominatim ${path} failed: HTTP ${res.status}`);
+    return res.json();
+  };
+
+  return {
+    name: "nominatim",
+    autocomplete: baseUrl !== DEFAULT_NOMINATIM_URL,
+
+    async search({ query, viewport, limit, language }) {
+      const places: NominatimPlace[] = await get("/search", {
+        q: query,
+        limit: String(limit),
+        // A viewbox without bounded=1 only biases the results
+        viewbox: viewport
+          ? `${viewport.minLng},${viewport.maxLat},${viewport.maxLng},${viewport.minLat}`
+          : undefined,
+        "accept-language": language,
+      });
+      return places.map(toPlace);
+    },
+
+    async reverse({ lat, lng }, language) {
+      const place: NominatimPlace | { error: string } = await get("/reverse", {
+        lat: String(lat),
+        lon: String(lng),
+        "accept-language": language,
+      });
+      // Nominatim answers 200 with an error when there's nothing there
+      return "error" in place ? null : toPlace(place);
+    },
+  };
+}
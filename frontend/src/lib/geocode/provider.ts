@@ -0,0 +1,148 @@
+import { distanceBetween, type Bounds, type LatLng } from "@/lib/corridor";
+
+// Geocoding contract for /api/geocode: place search by text, biased toward
+// the part of the map the user is looking at, and reverse lookup of a
+// point. The Google and Nominatim providers live next to this file and are
+// chosen by GEOCODER in ./index. The fixture provider below answers from a
+// fixed list of places, for tests and offline development.
+
+export type GeocoderName = "google" | "nominatim" | "fixture";
+
+export interface Place {
+  /** The provider's id for the place */
+  id: string;
+  /** Short name, e.g. "Palacio de Bellas Artes" */
+  name: string;
+  /** Full address, including the name */
+  address: string;
+  lat: number;
+  lng: number;
+}
+
+export interface PlaceSearch {
+  query: string;
+  /** Places in or near this box rank first; others are still returned */
+  viewport?: Bounds | null;
+  limit: number;
+  /** Preferred language for names and addresses, e.g. "es" */
+  language?: string;
+}
+
+export interface Geocoder {
+  readonly name: GeocoderName;
+  /** Whether the provider's terms allow a search on every keystroke */
+  readonly autocomplete: boolean;
+  search(search: PlaceSearch): Promise<Place[]>;
+  /** The address at a point, or null where there's none */
+  reverse(point: LatLng, language?: string): Promise<Place | null>;
+}
+
+export function viewportCenter(viewport: Bounds): LatLng {
+  return { lat: (viewport.minLat + viewport.maxLat) / 2, lng: (viewport.minLng + viewport.maxLng) / 2 };
+}
+
+export function inViewport(viewport: Bounds, point: LatLng): boolean {
+  return (
+    point.lat >= viewport.minLat &&
+    point.lat <= viewport.maxLat &&
+    point.lng >= viewport.minLng &&
+    point.lng <= viewport.maxLng
+  );
+}
+
+/** Lower case without accents, so "zocalo" finds "Zócalo" */
+const fold = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export const FIXTURE_PLACES: Place[] = [
+  {
+    id: "fixture:angel",
+    name: "Ángel de la Independencia",
+    address: "Ángel de la Independencia, Paseo de la Reforma, Juárez, 06600 Ciudad de México",
+    lat: 19.42697,
+    lng: -99.16771,
+  },
+  {
+    id: "fixture:zocalo-cdmx",
+    name: "Zócalo",
+    address: "Zócalo, Plaza de la Constitución, Centro, 06000 Ciudad de México",
+    lat: 19.43263,
+    lng: -99.1332,
+  },
+  {
+    id: "fixture:bellas-artes",
+    name: "Palacio de Bellas Artes",
+    address: "Palacio de Bellas Artes, Av. Juárez, Centro, 06050 Ciudad de México",
+    lat: 19.4352,
+    lng: -99.1412,
+  },
+  {
+    id: "fixture:chapultepec",
+    name: "Bosque de Chapultepec",
+    address: "Bosque de Chapultepec, Miguel Hidalgo, Ciudad de México",
+    lat: 19.4204,
+    lng: -99.1819,
+  },
+  {
+    id: "fixture:estadio-azteca",
+    name: "Estadio Azteca",
+    address: "Estadio Azteca, Calz. de Tlalpan 3465, Coyoacán, 04650 Ciudad de México",
+    lat: 19.3029,
+    lng: -99.1505,
+  },
+  {
+    id: "fixture:zocalo-puebla",
+    name: "Zócalo de Puebla",
+    address: "Zócalo de Puebla, Centro Histórico, 72000 Puebla",
+    lat: 19.0434,
+    lng: -98.1981,
+  },
+];
+
+/** Farthest a reverse lookup looks for a fixture place */
+const FIXTURE_REVERSE_RADIUS_M = 2_000;
+
+/**
+ * Places whose name or address contains the query, ignoring case and
+ * accents. With a viewport, places inside it come first, then the rest by
+ * distance from its center; without one, names that start with the query
+ * come first.
+ */
+export function createFixtureGeocoder(places: Place[] = FIXTURE_PLACES): Geocoder {
+  return {
+    name: "fixture",
+    autocomplete: true,
+
+    async search({ query, viewport, limit }) {
+      const folded = fold(query.trim());
+      const matches = places.filter((place) => fold(`${place.name} ${place.address}`).includes(folded));
+
+      const rank = (place: Place): [number, number] =>
+        viewport
+          ? [inViewport(viewport, place) ? 0 : 1, distanceBetween(viewportCenter(viewport), place)]
+          : [fold(place.name).startsWith(folded) ? 0 : 1, 0];
+
+      return matches
+        .map((place, index) => ({ place, index, rank: rank(place) }))
+        .sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1] || a.index - b.index)
+        .slice(0, limit)
+        .map(({ place }) => place);
+    },
+
+    async reverse(point) {
+      let nearest: Place | null = null;
+      let nearestDistance = FIXTURE_REVERSE_RADIUS_M;
+      for (const place of places) {
+        const distance = distanceBetween(point, place);
+        if (distance <= nearestDistance) {
+          nearest = place;
+          nearestDistance = distance;
+        }
+      }
+      return nearest;
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { encodePacked, keccak256 } from "viem";
+import { privateKeyToAddress } from "viem/accounts";
+
+// Per-report reporter identities. Reusing one commitment for every report
+// lets anyone group a reporter's reports (and, through them, their routine).
+// Instead, each report gets a fresh commitment derived from the master secret
+// and an index:
+//
+//   secret_i     = keccak256(master ‖ "roadguard/report" ‖ uint32 i)
+//   commitment_i = keccak256(secret_i)
+//
+// Commitments for different indices can't be linked without the master
+// secret, and everything can be re-derived from the passphrase alone. The
+// registry below records which indices were handed out, so the rewards view
+// knows which commitments to sum and claim. It links the reports to each
+// other, so it is sealed in the vault with the master secret (see lib/vault).
+//
+// Each report also gets a comment key, registered with the report, that the
+// reporter signs comments with:
+//
+//   commentKey_i = keccak256(master ‖ "roadguard/comment-key" ‖ uint32 i)
+//
+// It comes from the master secret rather than secret_i, because claiming
+// rewards reveals secret_i on-chain.
+
+export type Hex = `0x${string}`;
+
+export interface ReporterIdentity {
+  secret: Hex;
+  commitment: Hex;
+}
+
+export interface DerivedIdentity extends ReporterIdentity {
+  index: number;
+}
+
+export interface IdentityRegistry {
+  /** Master commitment the indices belong to */
+  commitment: Hex;
+  /** Next unused index */
+  nextIndex: number;
+  used: UsedIdentityIndex[];
+}
+
+export interface UsedIdentityIndex {
+  index: number;
+  usedAt: string;
+  /** On-chain report id, once the report has landed */
+  reportId?: number;
+}
+
+const DERIVATION_DOMAIN = "roadguard/report";
+const COMMENT_KEY_DOMAIN = "roadguard/comment-key";
+
+/** Highest index (exclusive); indices are encoded as uint32 */
+export const MAX_IDENTITY_INDEX = 2 ** 32;
+
+/**
+ * Secret and commitment for report `index` under a master secret
+ */
+export function deriveReportIdentity(masterSecret: Hex, index: number): DerivedIdentity {
+  if (!Number.isInteger(index) || index < 0 || index >= MAX_IDENTITY_INDEX) {
+    throw new Error(`Invalid identity index: ${index}`);
+  }
+  const secret = keccak256(encodePacked(["bytes32", "string", "uint32"], [masterSecret, DERIVATION_DOMAIN, index]));
+  const commitment = keccak256(encodePacked(["bytes32"], [secret]));
+  return { index, secret, commitment };
+}
+
+/**
+ * Private key and address the reporter of report `index` signs comments with
+ */
+export function deriveCommentKey(masterSecret: Hex, index: number): { privateKey: Hex; address: Hex } {
+  if (!Number.isInteger(index) || index < 0 || index >= MAX_IDENTITY_INDEX) {
+    throw new Error(`Invalid identity index: ${index}`);
+  }
+  const privateKey = keccak256(encodePacked(["bytes32", "string", "uint32"], [masterSecret, COMMENT_KEY_DOMAIN, index]));
+  return { privateKey, address: privateKeyToAddress(privateKey) };
+}
+
+export function createIdentityRegistry(commitment: Hex): IdentityRegistry {
+  return { commitment, nextIndex: 0, used: [] };
+}
+
+/**
+ * Hand out the next index. Indices are never reused, even if the report they
+ * were reserved for was never submitted.
+ */
+export function reserveIdentityIndex(
+  registry: IdentityRegistry,
+  now: Date = new Date()
+): { index: number; registry: IdentityRegistry } {
+  const index = registry.nextIndex;
+  if (index >= MAX_IDENTITY_INDEX) throw new Error("No identity indices left");
+  return {
+    index,
+    registry: {
+      ...registry,
+      nextIndex: index + 1,
+      used: [...registry.used, { index, usedAt: now.toISOString() }],
+    },
+  };
+}
+
+/**
+ * Remember which report an index ended up on, for backups
+ */
+export function recordReportId(registry: IdentityRegistry, index: number, reportId: number): IdentityRegistry {
+  return {
+    ...registry,
+    used: registry.used.map((entry) => (entry.index === index ? { ...entry, reportId } : entry)),
+  };
+}
+
+/**
+ * Add indices found elsewhere (a backup file or a chain rescan). Known entries
+ * keep their timestamp but pick up a report id they were missing, and
+ * `nextIndex` moves past everything so no index is handed out twice.
+ */
+export function mergeUsedIndices(
+  registry: IdentityRegistry,
+  found: UsedIdentityIndex[]
+): IdentityRegistry {
+  const byIndex = new Map(registry.used.map((entry) => [entry.index, entry]));
+  for (const entry of found) {
+    const known = byIndex.get(entry.index);
+    byIndex.set(entry.index, known ? { ...known, reportId: known.reportId ?? entry.reportId } : entry);
+  }
+  const used = [...byIndex.values()]
+    .map(({ reportId, ...entry }) => (reportId === undefined ? entry : { ...entry, reportId }))
+    .sort((a, b) => a.index - b.index);
+  const nextIndex = used.reduce((next, entry) => Math.max(next, entry.index + 1), registry.nextIndex);
+  return { ...registry, nextIndex, used };
+}
+
+/**
+ * Every identity that may hold rewards: the master identity itself (reports
+ * made before per-report commitments) followed by each used index
+ */
+export function listClaimableIdentities(master: ReporterIdentity, registry: IdentityRegistry | null): ReporterIdentity[] {
+  const derived = registry ? registry.used.map(({ index }) => deriveReportIdentity(master.secret, index)) : [];
+  return [master, ...derived];
+}
+
+/**
+ * Validate a stored registry for a master commitment. Null when it's
+ * malformed or belongs to another identity.
+ */
+export function parseIdentityRegistry(value: unknown, commitment: Hex): IdentityRegistry | null {
+  if (!value || typeof value !== "object") return null;
+  const registry = value as Partial<IdentityRegistry>;
+  if (typeof registry.commitment !== "string" || registry.commitment.toLowerCase() !== commitment.toLowerCase()) {
+    return null;
+  }
+  if (typeof registry.nextIndex !== "number" || !Array.isArray(registry.used)) return null;
+
+  const used = registry.used.filter(
+    (entry) =>
+      entry &&
+      Number.isInteger(entry.index) &&
+      entry.index >= 0 &&
+      entry.index < registry.nextIndex! &&
+      (entry.reportId === undefined || Number.isInteger(entry.reportId))
+  );
+  return { commitment, nextIndex: registry.nextIndex, used };
+}
@@ -0,0 +1,231 @@
+import { RoadGuardABI } from "@/lib/contracts/RoadGuardABI";
+import type { MantlePublicClient } from "@/lib/chain";
+import { REPORT_STATUS, type Hex, type IndexerStore } from "./store";
+
+export * from "./store";
+
+export type IndexerClient = Pick<
+  MantlePublicClient,
+  "getBlockNumber" | "getBlock" | "getContractEvents" | "readContract"
+>;
+
+export interface IndexerConfig {
+  /** First block to scan on a fresh database (the contract deployment block) */
+  startBlock: bigint;
+  /** How many blocks to roll back and re-scan when a reorg is detected */
+  reorgDepth: bigint;
+  /** Block range per eth_getLogs call */
+  batchSize: bigint;
+  /** Upper bound of getLogs calls per run, so a cron invocation stays short */
+  maxBatches: number;
+}
+
+export interface IndexerRunOptions extends Partial<IndexerConfig> {
+  client: IndexerClient;
+  store: IndexerStore;
+  address: Hex;
+}
+
+export interface IndexerRunResult {
+  fromBlock: bigint;
+  toBlock: bigint;
+  headBlock: bigint;
+  events: number;
+  reorged: boolean;
+  caughtUp: boolean;
+}
+
+function envBigInt(name: string, fallback: bigint): bigint {
+  const value = process.env[name];
+  return value ? BigInt(value) : fallback;
+}
+
+/**
+ * Read indexer settings from the environment
+ */
+export function getIndexerConfig(): IndexerConfig {
+  return {
+    startBlock: envBigInt("INDEXER_START_BLOCK", BigInt(0)),
+    reorgDepth: envBigInt("INDEXER_REORG_DEPTH", BigInt(12)),
+    batchSize: envBigInt("INDEXER_BATCH_SIZE", BigInt(2000)),
+    maxBatches: parseInt(process.env.INDEXER_MAX_BATCHES || "10"),
+  };
+}
+
+const maxBigInt = (a: bigint, b: bigint) => (a > b ? a : b);
+const minBigInt = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/**
+ * Tail RoadGuard events into the store, resuming from the last checkpoint.
+ * Confirmations and regards for reports without a row (submitted before
+ * `startBlock`) are held by the store until the report is indexed or ingested.
+ *
+ * If the block stored with the checkpoint is no longer canonical, the last
+ * `reorgDepth` blocks are rolled back and scanned again.
+ */
+export async function runIndexer(options: IndexerRunOptions): Promise<IndexerRunResult> {
+  const { client, store, address } = options;
+  const config = { ...getIndexerConfig(), ...pickConfig(options) };
+
+  const headBlock = await client.getBlockNumber();
+  const checkpoint = await store.getCheckpoint();
+
+  let fromBlock = config.startBlock;
+  let reorged = false;
+
+  if (checkpoint) {
+    fromBlock = checkpoint.blockNumber + BigInt(1);
+
+    // The RPC node is behind our checkpoint; wait for it to catch up
+    if (checkpoint.blockNumber > headBlock) {
+      return { fromBlock, toBlock: checkpoint.blockNumber, headBlock, events: 0, reorged, caughtUp: true };
+    }
+
+    const canonical = await client.getBlock({ blockNumber: checkpoint.blockNumber });
+    if (canonical.hash !== checkpoint.blockHash) {
+      reorged = true;
+      fromBlock = maxBigInt(config.startBlock, fromBlock - config.reorgDepth);
+      const affected = await store.rollback(fromBlock);
+      await store.refreshAggregates(affected);
+    }
+  }
+
+  const firstBlock = fromBlock;
+  let events = 0;
+  const blockTimestamps = new Map<bigint, Date>();
+
+  const blockTime = async (blockNumber: bigint) => {
+    let time = blockTimestamps.get(blockNumber);
+    if (!time) {
+      const block = await client.getBlock({ blockNumber });
+      time = new Date(Number(block.timestamp) * 1000);
+      blockTimestamps.set(blockNumber, time);
+    }
+    return time;
+  };
+
+  // The contract marks a report CONFIRMED in the confirmation that reaches
+  // the threshold in force at the time, and emits no event for it, so the
+  // status is read from the chain as of that block
+  const statusAt = async (reportId: bigint, blockNumber: bigint) => {
+    const report = await client.readContract({
+      address,
+      abi: RoadGuardABI,
+      functionName: "getReport",
+      args: [reportId],
+      blockNumber,
+    });
+    return report.status;
+  };
+
+  for (let batch = 0; batch < config.maxBatches && fromBlock <= headBlock; batch++) {
+    const toBlock = minBigInt(fromBlock + config.batchSize - BigInt(1), headBlock);
+
+    const logs = await client.getContractEvents({
+      address,
+      abi: RoadGuardABI,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+
+    logs.sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+          ? -1
+          : 1
+    );
+
+    const touched = new Set<number>();
+
+    for (const log of logs) {
+      const position = {
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+      };
+
+      switch (log.eventName) {
+        case "ReportSubmitted": {
+          const id = Number(log.args.reportId);
+          await store.upsertReport({
+            chainReportId: id,
+            reporterCommitment: log.args.reporterCommitment,
+            latitude: log.args.latitude,
+            longitude: log.args.longitude,
+            eventType: log.args.eventType,
+            stake: log.args.stake,
+            createdAt: await blockTime(log.blockNumber),
+            expiresAt: new Date(Number(log.args.expiresAt) * 1000),
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+          });
+          touched.add(id);
+          break;
+        }
+        case "ReportConfirmed": {
+          const id = Number(log.args.reportId);
+          await store.addConfirmation({
+            ...position,
+            chainReportId: id,
+            confirmer: log.args.confirmer,
+            reportConfirmed: (await statusAt(log.args.reportId, log.blockNumber)) === REPORT_STATUS.CONFIRMED,
+          });
+          touched.add(id);
+          break;
+        }
+        case "RegardsSent": {
+          const id = Number(log.args.reportId);
+          await store.addRegards({
+            ...position,
+            chainReportId: id,
+            sender: log.args.sender,
+            amount: log.args.amount,
+          });
+          touched.add(id);
+          break;
+        }
+        case "RewardsClaimed":
+          await store.addClaim({
+            ...position,
+            commitment: log.args.commitment,
+            recipient: log.args.recipient,
+            amount: log.args.amount,
+          });
+          break;
+        case "ReportExpired":
+          await store.setTerminalStatus(Number(log.args.reportId), REPORT_STATUS.EXPIRED, log.blockNumber);
+          break;
+        case "ReportSlashed":
+          await store.setTerminalStatus(Number(log.args.reportId), REPORT_STATUS.SLASHED, log.blockNumber);
+          break;
+      }
+      events++;
+    }
+
+    await store.refreshAggregates(Array.from(touched));
+
+    const lastBlock = await client.getBlock({ blockNumber: toBlock });
+    await store.saveCheckpoint({ blockNumber: toBlock, blockHash: lastBlock.hash });
+    fromBlock = toBlock + BigInt(1);
+  }
+
+  return {
+    fromBlock: firstBlock,
+    toBlock: fromBlock - BigInt(1),
+    headBlock,
+    events,
+    reorged,
+    caughtUp: fromBlock > headBlock,
+  };
+}
+
+function pickConfig(options: Partial<IndexerConfig>): Partial<IndexerConfig> {
+  const config: Partial<IndexerConfig> = {};
+  if (options.startBlock !== undefined) config.startBlock = options.startBlock;
+  if (options.reorgDepth !== undefined) config.reorgDepth = options.reorgDepth;
+  if (options.batchSize !== undefined) config.batchSize = options.batchSize;
+  if (options.maxBatches !== undefined) config.maxBatches = options.maxBatches;
+  return config;
+}
@@ -0,0 +1,284 @@
+import { asc, eq, gte, inArray, sql } from "drizzle-orm";
+import { formatEther, parseEther } from "viem";
+import type { db as database } from "@/lib/db";
+import {
+  confirmations,
+  indexerPendingEvents,
+  indexerState,
+  regards,
+  reportsCache,
+  rewardClaims,
+} from "@/lib/schema";
+import { REPORT_STATUS, type Hex, type IndexedConfirmation, type IndexedRegards, type IndexerStore } from "./store";
+
+type Database = NonNullable<typeof database>;
+
+/**
+ * Postgres-backed indexer store (tables from database/schema.sql).
+ * neon-http has no interactive transactions, so every write here is
+ * idempotent: a run that dies half-way is simply replayed from the
+ * previous checkpoint.
+ */
+export function createPostgresIndexerStore(db: Database, name = "roadguard"): IndexerStore {
+  const hasReport = async (chainReportId: number) => {
+    const rows = await db
+      .select({ chainReportId: reportsCache.chainReportId })
+      .from(reportsCache)
+      .where(eq(reportsCache.chainReportId, chainReportId))
+      .limit(1);
+    return rows.length > 0;
+  };
+
+  const insertConfirmation = async (confirmation: IndexedConfirmation) => {
+    await db
+      .insert(confirmations)
+      .values({
+        chainReportId: confirmation.chainReportId,
+        confirmerAddress: confirmation.confirmer.toLowerCase(),
+        txHash: confirmation.txHash,
+        blockNumber: confirmation.blockNumber,
+        logIndex: confirmation.logIndex,
+        reportConfirmed: confirmation.reportConfirmed,
+      })
+      .onConflictDoNothing();
+  };
+
+  const insertRegards = async (entry: IndexedRegards) => {
+    await db
+      .insert(regards)
+      .values({
+        chainReportId: entry.chainReportId,
+        senderAddress: entry.sender.toLowerCase(),
+        amount: formatEther(entry.amount),
+        txHash: entry.txHash,
+        blockNumber: entry.blockNumber,
+        logIndex: entry.logIndex,
+      })
+      .onConflictDoNothing();
+  };
+
+  const hold = async (values: typeof indexerPendingEvents.$inferInsert) => {
+    await db.insert(indexerPendingEvents).values(values).onConflictDoNothing();
+  };
+
+  const refreshAggregates: IndexerStore["refreshAggregates"] = async (chainReportIds) => {
+    if (chainReportIds.length === 0) return;
+
+    await db
+      .update(reportsCache)
+      .set({
+        confirmationCount: sql`(
+          SELECT COUNT(*) FROM ${confirmations}
+          WHERE ${confirmations.chainReportId} = ${reportsCache.chainReportId}
+        )`,
+        totalRegards: sql`COALESCE((
+          SELECT SUM(${regards.amount}) FROM ${regards}
+          WHERE ${regards.chainReportId} = ${reportsCache.chainReportId}
+        ), 0)`,
+        status: sql`CASE
+          WHEN ${reportsCache.status} NOT IN (${REPORT_STATUS.ACTIVE}, ${REPORT_STATUS.CONFIRMED})
+            THEN ${reportsCache.status}
+          WHEN EXISTS (
+            SELECT 1 FROM ${confirmations}
+            WHERE ${confirmations.chainReportId} = ${reportsCache.chainReportId}
+              AND ${confirmations.reportConfirmed}
+          ) THEN ${REPORT_STATUS.CONFIRMED}
+          ELSE ${REPORT_STATUS.ACTIVE}
+        END`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(reportsCache.chainReportId, chainReportIds));
+  };
+
+  return {
+    async getCheckpoint() {
+      const rows = await db
+        .select()
+        .from(indexerState)
+        .where(eq(indexerState.name, name))
+        .limit(1);
+      if (rows.length === 0) return null;
+      return {
+        blockNumber: rows[0].lastBlock,
+        blockHash: rows[0].lastBlockHash as Hex,
+      };
+    },
+
+    async saveCheckpoint(checkpoint) {
+      await db
+        .insert(indexerState)
+        .values({
+          name,
+          lastBlock: checkpoint.blockNumber,
+          lastBlockHash: checkpoint.blockHash,
+        })
+        .onConflictDoUpdate({
+          target: indexerState.name,
+          set: {
+            lastBlock: checkpoint.blockNumber,
+            lastBlockHash: checkpoint.blockHash,
+            updatedAt: new Date(),
+          },
+        });
+    },
+
+    async getReport(chainReportId) {
+      const rows = await db
+        .select()
+        .from(reportsCache)
+        .where(eq(reportsCache.chainReportId, chainReportId))
+        .limit(1);
+      if (rows.length === 0) return null;
+      const r = rows[0];
+      return {
+        chainReportId: r.chainReportId,
+        reporterCommitment: r.reporterCommitment as Hex,
+        latitude: BigInt(Math.round(parseFloat(r.locationLat) * 1e8)),
+        longitude: BigInt(Math.round(parseFloat(r.locationLng) * 1e8)),
+        eventType: r.eventType,
+        stake: parseEther(r.stakeAmount),
+        createdAt: r.createdAt,
+        expiresAt: r.expiresAt,
+        txHash: r.txHash as Hex,
+        blockNumber: r.blockNumber,
+        status: r.status,
+        statusBlock: r.statusBlock,
+        confirmationCount: r.confirmationCount,
+        totalRegards: parseEther(r.totalRegards),
+      };
+    },
+
+    async upsertReport(report) {
+      const values = {
+        reporterCommitment: report.reporterCommitment,
+        locationLat: (Number(report.latitude) / 1e8).toFixed(8),
+        locationLng: (Number(report.longitude) / 1e8).toFixed(8),
+        eventType: report.eventType,
+        stakeAmount: formatEther(report.stake),
+        createdAt: report.createdAt,
+        expiresAt: report.expiresAt,
+        txHash: report.txHash,
+        blockNumber: report.blockNumber,
+      };
+
+      await db
+        .insert(reportsCache)
+        .values({ chainReportId: report.chainReportId, ...values })
+        .onConflictDoUpdate({ target: reportsCache.chainReportId, set: values });
+
+      // Held rows are only deleted once applied, so a run that dies in
+      // between applies them again
+      const held = await db
+        .select()
+        .from(indexerPendingEvents)
+        .where(eq(indexerPendingEvents.chainReportId, report.chainReportId))
+        .orderBy(asc(indexerPendingEvents.blockNumber), asc(indexerPendingEvents.logIndex));
+      if (held.length === 0) return;
+
+      for (const row of held) {
+        const position = { txHash: row.txHash as Hex, blockNumber: row.blockNumber, logIndex: row.logIndex };
+        if (row.kind === "confirmation") {
+          await insertConfirmation({
+            ...position,
+            chainReportId: row.chainReportId,
+            confirmer: row.address as Hex,
+            reportConfirmed: row.reportConfirmed,
+          });
+        } else {
+          await insertRegards({
+            ...position,
+            chainReportId: row.chainReportId,
+            sender: row.address as Hex,
+            amount: parseEther(row.amount ?? "0"),
+          });
+        }
+      }
+      await db.delete(indexerPendingEvents).where(eq(indexerPendingEvents.chainReportId, report.chainReportId));
+      await refreshAggregates([report.chainReportId]);
+    },
+
+    async addConfirmation(confirmation) {
+      if (await hasReport(confirmation.chainReportId)) return insertConfirmation(confirmation);
+      await hold({
+        kind: "confirmation",
+        chainReportId: confirmation.chainReportId,
+        address: confirmation.confirmer.toLowerCase(),
+        reportConfirmed: confirmation.reportConfirmed,
+        txHash: confirmation.txHash,
+        blockNumber: confirmation.blockNumber,
+        logIndex: confirmation.logIndex,
+      });
+    },
+
+    async addRegards(entry) {
+      if (await hasReport(entry.chainReportId)) return insertRegards(entry);
+      await hold({
+        kind: "regards",
+        chainReportId: entry.chainReportId,
+        address: entry.sender.toLowerCase(),
+        amount: formatEther(entry.amount),
+        txHash: entry.txHash,
+        blockNumber: entry.blockNumber,
+        logIndex: entry.logIndex,
+      });
+    },
+
+    async addClaim(claim) {
+      await db
+        .insert(rewardClaims)
+        .values({
+          commitment: claim.commitment,
+          recipientAddress: claim.recipient.toLowerCase(),
+          amount: formatEther(claim.amount),
+          txHash: claim.txHash,
+          blockNumber: claim.blockNumber,
+          logIndex: claim.logIndex,
+        })
+        .onConflictDoNothing();
+    },
+
+    async setTerminalStatus(chainReportId, status, blockNumber) {
+      await db
+        .update(reportsCache)
+        .set({ status, statusBlock: blockNumber, updatedAt: new Date() })
+        .where(eq(reportsCache.chainReportId, chainReportId));
+    },
+
+    refreshAggregates,
+
+    async rollback(fromBlock) {
+      const affected = new Set<number>();
+
+      const orphanedConfirmations = await db
+        .delete(confirmations)
+        .where(gte(confirmations.blockNumber, fromBlock))
+        .returning({ chainReportId: confirmations.chainReportId });
+      const orphanedRegards = await db
+        .delete(regards)
+        .where(gte(regards.blockNumber, fromBlock))
+        .returning({ chainReportId: regards.chainReportId });
+      await db.delete(rewardClaims).where(gte(rewardClaims.blockNumber, fromBlock));
+      await db.delete(indexerPendingEvents).where(gte(indexerPendingEvents.blockNumber, fromBlock));
+
+      const reopened = await db
+        .update(reportsCache)
+        .set({ status: REPORT_STATUS.ACTIVE, statusBlock: null, updatedAt: new Date() })
+        .where(gte(reportsCache.statusBlock, fromBlock))
+        .returning({ chainReportId: reportsCache.chainReportId });
+
+      const removed = await db
+        .delete(reportsCache)
+        .where(gte(reportsCache.blockNumber, fromBlock))
+        .returning({ chainReportId: reportsCache.chainReportId });
+
+      for (const row of [...orphanedConfirmations, ...orphanedRegards, ...reopened]) {
+        affected.add(row.chainReportId);
+      }
+      for (const row of removed) {
+        affected.delete(row.chainReportId);
+      }
+
+      return Array.from(affected);
+    },
+  };
+}
@@ -0,0 +1,252 @@
+// Persistence contract for the chain indexer. The Postgres implementation
+// lives in ./postgres; the in-memory one below backs the tests.
+
+export type Hex = `0x${string}`;
+
+// Mirrors RoadGuard.ReportStatus
+export const REPORT_STATUS = {
+  ACTIVE: 0,
+  CONFIRMED: 1,
+  EXPIRED: 2,
+  SLASHED: 3,
+} as const;
+
+export interface IndexerCheckpoint {
+  blockNumber: bigint;
+  blockHash: Hex;
+}
+
+/** Event position, used for idempotent writes and reorg rollback */
+export interface LogPosition {
+  txHash: Hex;
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+export interface IndexedReport {
+  chainReportId: number;
+  reporterCommitment: Hex;
+  latitude: bigint; // scaled by 1e8
+  longitude: bigint; // scaled by 1e8
+  eventType: number;
+  stake: bigint; // wei
+  createdAt: Date;
+  expiresAt: Date;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+export interface IndexedReportState extends IndexedReport {
+  status: number;
+  statusBlock: bigint | null;
+  confirmationCount: number;
+  totalRegards: bigint; // wei
+}
+
+export interface IndexedConfirmation extends LogPosition {
+  chainReportId: number;
+  confirmer: Hex;
+  /**
+   * The report was CONFIRMED on-chain at the end of this block, i.e. this
+   * confirmation (or one beside it) reached the contract's threshold
+   */
+  reportConfirmed: boolean;
+}
+
+export interface IndexedRegards extends LogPosition {
+  chainReportId: number;
+  sender: Hex;
+  amount: bigint; // wei
+}
+
+export interface IndexedClaim extends LogPosition {
+  commitment: Hex;
+  recipient: Hex;
+  amount: bigint; // wei
+}
+
+export interface IndexerStore {
+  getCheckpoint(): Promise<IndexerCheckpoint | null>;
+  saveCheckpoint(checkpoint: IndexerCheckpoint): Promise<void>;
+  getReport(chainReportId: number): Promise<IndexedReportState | null>;
+  /**
+   * Insert or overwrite the immutable fields of a report; status and
+   * aggregates are kept. Confirmations and regards held for it are applied.
+   */
+  upsertReport(report: IndexedReport): Promise<void>;
+  /**
+   * All add* writes must be idempotent so a re-scanned range can be replayed.
+   * Confirmations and regards for a report without a row are held until it
+   * has one.
+   */
+  addConfirmation(confirmation: IndexedConfirmation): Promise<void>;
+  addRegards(regards: IndexedRegards): Promise<void>;
+  addClaim(claim: IndexedClaim): Promise<void>;
+  setTerminalStatus(chainReportId: number, status: number, blockNumber: bigint): Promise<void>;
+  /**
+   * Recompute confirmation count, regard total and ACTIVE/CONFIRMED status
+   * from the stored confirmations and regards. The status follows the
+   * chain: CONFIRMED once a confirmation carries reportConfirmed.
+   */
+  refreshAggregates(chainReportIds: number[]): Promise<void>;
+  /**
+   * Drop everything derived from blocks >= fromBlock.
+   * Returns the surviving report ids whose aggregates need a refresh.
+   */
+  rollback(fromBlock: bigint): Promise<number[]>;
+}
+
+/**
+ * In-memory store (tests and local experiments only - nothing is persisted)
+ */
+export function createMemoryIndexerStore(): IndexerStore {
+  let checkpoint: IndexerCheckpoint | null = null;
+  const reports = new Map<number, IndexedReportState>();
+  const confirmations: IndexedConfirmation[] = [];
+  const regards: IndexedRegards[] = [];
+  const claims: IndexedClaim[] = [];
+  // Held until their report has a row
+  const pendingConfirmations: IndexedConfirmation[] = [];
+  const pendingRegards: IndexedRegards[] = [];
+
+  const samePosition = (a: LogPosition, b: LogPosition) =>
+    a.txHash === b.txHash && a.logIndex === b.logIndex;
+
+  const insertConfirmation = (confirmation: IndexedConfirmation) => {
+    const duplicate = confirmations.some(
+      (c) =>
+        c.chainReportId === confirmation.chainReportId &&
+        c.confirmer.toLowerCase() === confirmation.confirmer.toLowerCase()
+    );
+    if (!duplicate) confirmations.push({ ...confirmation });
+  };
+
+  const insertRegards = (entry: IndexedRegards) => {
+    if (!regards.some((r) => samePosition(r, entry))) regards.push({ ...entry });
+  };
+
+  const hold = <T extends LogPosition>(rows: T[], entry: T) => {
+    if (!rows.some((row) => samePosition(row, entry))) rows.push({ ...entry });
+  };
+
+  // Remove and return the held rows of a report
+  const release = <T extends { chainReportId: number }>(rows: T[], chainReportId: number) => {
+    const released = rows.filter((row) => row.chainReportId === chainReportId);
+    rows.splice(0, rows.length, ...rows.filter((row) => row.chainReportId !== chainReportId));
+    return released;
+  };
+
+  const refresh = (id: number) => {
+    const report = reports.get(id);
+    if (!report) return;
+
+    const reportConfirmations = confirmations.filter((c) => c.chainReportId === id);
+    report.confirmationCount = reportConfirmations.length;
+    report.totalRegards = regards
+      .filter((r) => r.chainReportId === id)
+      .reduce((sum, r) => sum + r.amount, BigInt(0));
+
+    if (report.status === REPORT_STATUS.ACTIVE || report.status === REPORT_STATUS.CONFIRMED) {
+      report.status = reportConfirmations.some((c) => c.reportConfirmed)
+        ? REPORT_STATUS.CONFIRMED
+        : REPORT_STATUS.ACTIVE;
+    }
+  };
+
+  return {
+    async getCheckpoint() {
+      return checkpoint;
+    },
+
+    async saveCheckpoint(next) {
+      checkpoint = { ...next };
+    },
+
+    async getReport(chainReportId) {
+      const report = reports.get(chainReportId);
+      return report ? { ...report } : null;
+    },
+
+    async upsertReport(report) {
+      const existing = reports.get(report.chainReportId);
+      reports.set(report.chainReportId, {
+        status: REPORT_STATUS.ACTIVE,
+        statusBlock: null,
+        confirmationCount: 0,
+        totalRegards: BigInt(0),
+        ...existing,
+        ...report,
+      });
+
+      const heldConfirmations = release(pendingConfirmations, report.chainReportId);
+      const heldRegards = release(pendingRegards, report.chainReportId);
+      if (heldConfirmations.length + heldRegards.length === 0) return;
+      heldConfirmations.forEach(insertConfirmation);
+      heldRegards.forEach(insertRegards);
+      refresh(report.chainReportId);
+    },
+
+    async addConfirmation(confirmation) {
+      if (reports.has(confirmation.chainReportId)) insertConfirmation(confirmation);
+      else hold(pendingConfirmations, confirmation);
+    },
+
+    async addRegards(entry) {
+      if (reports.has(entry.chainReportId)) insertRegards(entry);
+      else hold(pendingRegards, entry);
+    },
+
+    async addClaim(claim) {
+      if (!claims.some((c) => samePosition(c, claim))) claims.push({ ...claim });
+    },
+
+    async setTerminalStatus(chainReportId, status, blockNumber) {
+      const report = reports.get(chainReportId);
+      if (report) {
+        report.status = status;
+        report.statusBlock = blockNumber;
+      }
+    },
+
+    async refreshAggregates(chainReportIds) {
+      for (const id of chainReportIds) refresh(id);
+    },
+
+    async rollback(fromBlock) {
+      const affected = new Set<number>();
+      const keep = <T extends LogPosition & { chainReportId?: number }>(rows: T[]) => {
+        const kept = rows.filter((row) => row.blockNumber < fromBlock);
+        for (const row of rows) {
+          if (row.blockNumber >= fromBlock && row.chainReportId !== undefined) {
+            affected.add(row.chainReportId);
+          }
+        }
+        rows.splice(0, rows.length, ...kept);
+      };
+
+      keep(confirmations);
+      keep(regards);
+      keep(claims);
+      // Held rows have no report to refresh
+      const drop = <T extends LogPosition>(rows: T[]) =>
+        rows.splice(0, rows.length, ...rows.filter((row) => row.blockNumber < fromBlock));
+      drop(pendingConfirmations);
+      drop(pendingRegards);
+
+      for (const [id, report] of Array.from(reports.entries())) {
+        if (report.blockNumber >= fromBlock) {
+          reports.delete(id);
+          affected.delete(id);
+          continue;
+        }
+        if (report.statusBlock !== null && report.statusBlock >= fromBlock) {
+          report.status = REPORT_STATUS.ACTIVE;
+          report.statusBlock = null;
+          affected.add(id);
+        }
+      }
+
+      return Array.from(affected);
+    },
+  };
+}
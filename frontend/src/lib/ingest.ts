@@ -0,0 +1,258 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { lt } from "drizzle-orm";
+import { parseEventLogs } from "viem";
+import { RoadGuardABI } from "@/lib/contracts/RoadGuardABI";
+import type { MantlePublicClient } from "@/lib/chain";
+import type { db as database } from "@/lib/db";
+import type { IndexedReport } from "@/lib/indexer/store";
+import { ingestNonces } from "@/lib/schema";
+
+// Internal ingestion API (POST /api/reports).
+// The indexer signs `${timestamp}.${nonce}.${rawBody}` with HMAC-SHA256 using
+// the INGEST_HMAC_SECRET it shares with the app.
+
+export const INGEST_HEADERS = {
+  timestamp: "x-roadguard-timestamp",
+  nonce: "x-roadguard-nonce",
+  signature: "x-roadguard-signature",
+} as const;
+
+/** Max clock skew / replay window in seconds */
+export const INGEST_MAX_AGE_SECONDS = 300;
+
+export type IngestErrorCode =
+  | "INGEST_NOT_CONFIGURED"
+  | "MISSING_SIGNATURE"
+  | "STALE_TIMESTAMP"
+  | "INVALID_SIGNATURE"
+  | "REPLAYED_NONCE"
+  | "DATABASE_UNAVAILABLE"
+  | "INVALID_PAYLOAD"
+  | "REPORT_NOT_FOUND"
+  | "REPORT_MISMATCH"
+  | "TX_MISMATCH"
+  | "CHAIN_UNAVAILABLE";
+
+export interface IngestError {
+  code: IngestErrorCode;
+  message: string;
+}
+
+type Hex = `0x${string}`;
+
+function computeSignature(secret: string, timestamp: string, nonce: string, rawBody: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${nonce}.${rawBody}`).digest("hex");
+}
+
+/**
+ * Build the auth headers for an ingestion request (used by the indexer side)
+ */
+export function signIngestPayload(
+  rawBody: string,
+  secret: string,
+  options: { timestamp?: number; nonce?: string } = {}
+): Record<string, string> {
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = options.nonce ?? randomBytes(16).toString("hex");
+
+  return {
+    [INGEST_HEADERS.timestamp]: timestamp,
+    [INGEST_HEADERS.nonce]: nonce,
+    [INGEST_HEADERS.signature]: computeSignature(secret, timestamp, nonce, rawBody),
+  };
+}
+
+/**
+ * Check the HMAC headers of an ingestion request.
+ * Nonce uniqueness is checked separately (see claimIngestNonce).
+ */
+export function verifyIngestSignature(params: {
+  headers: Headers;
+  rawBody: string;
+  secret: string;
+  now?: number;
+}): { ok: true; nonce: string } | { ok: false; error: IngestError } {
+  const { headers, rawBody, secret } = params;
+  const now = params.now ?? Math.floor(Date.now() / 1000);
+
+  const timestamp = headers.get(INGEST_HEADERS.timestamp);
+  const nonce = headers.get(INGEST_HEADERS.nonce);
+  const signature = headers.get(INGEST_HEADERS.signature);
+
+  if (!timestamp || !nonce || !signature) {
+    return {
+      ok: false,
+      error: { code: "MISSING_SIGNATURE", message: "Missing ingestion signature headers" },
+    };
+  }
+
+  const issuedAt = Number(timestamp);
+  if (!Number.isInteger(issuedAt) || Math.abs(now - issuedAt) > INGEST_MAX_AGE_SECONDS) {
+    return {
+      ok: false,
+      error: { code: "STALE_TIMESTAMP", message: "Request timestamp outside the allowed window" },
+    };
+  }
+
+  if (!/^[A-Za-z0-9_-]{16,128}$/.test(nonce)) {
+    return {
+      ok: false,
+      error: { code: "INVALID_SIGNATURE", message: "Nonce must be 16-128 URL-safe characters" },
+    };
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, nonce, rawBody), "hex");
+  const received = Buffer.from(signature, "hex");
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return {
+      ok: false,
+      error: { code: "INVALID_SIGNATURE", message: "Signature does not match payload" },
+    };
+  }
+
+  return { ok: true, nonce };
+}
+
+/**
+ * Record a nonce as used. Returns false if it was already seen (replay).
+ * Nonces older than the replay window are pruned on the way.
+ */
+export async function claimIngestNonce(db: NonNullable<typeof database>, nonce: string): Promise<boolean> {
+  const cutoff = new Date(Date.now() - INGEST_MAX_AGE_SECONDS * 2 * 1000);
+  await db.delete(ingestNonces).where(lt(ingestNonces.createdAt, cutoff));
+
+  const inserted = await db
+    .insert(ingestNonces)
+    .values({ nonce })
+    .onConflictDoNothing()
+    .returning({ nonce: ingestNonces.nonce });
+
+  return inserted.length > 0;
+}
+
+/** Report row as sent by the indexer (same shape the old POST accepted) */
+export interface IngestReportInput {
+  chainReportId: number;
+  reporterCommitment: Hex;
+  latitude: number; // scaled by 1e8
+  longitude: number; // scaled by 1e8
+  eventType: number;
+  expiresAt: number; // unix seconds
+  txHash: Hex;
+}
+
+const HEX_32 = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Shape-check one submitted row
+ */
+export function parseIngestReport(value: unknown): { ok: true; report: IngestReportInput } | { ok: false; error: IngestError } {
+  const row = value as Partial<IngestReportInput> | null;
+  const invalid = (message: string) => ({
+    ok: false as const,
+    error: { code: "INVALID_PAYLOAD" as const, message },
+  });
+
+  if (!row || typeof row !== "object") return invalid("Report must be an object");
+  if (!Number.isSafeInteger(row.chainReportId) || row.chainReportId! < 0) {
+    return invalid("chainReportId must be a non-negative integer");
+  }
+  if (typeof row.reporterCommitment !== "string" || !HEX_32.test(row.reporterCommitment)) {
+    return invalid("reporterCommitment must be a bytes32 hex string");
+  }
+  if (!Number.isSafeInteger(row.latitude) || !Number.isSafeInteger(row.longitude)) {
+    return invalid("latitude and longitude must be integers scaled by 1e8");
+  }
+  if (!Number.isInteger(row.eventType) || row.eventType! < 0 || row.eventType! > 5) {
+    return invalid("eventType must be 0-5");
+  }
+  if (!Number.isSafeInteger(row.expiresAt)) return invalid("expiresAt must be a unix timestamp");
+  if (typeof row.txHash !== "string" || !HEX_32.test(row.txHash)) {
+    return invalid("txHash must be a transaction hash");
+  }
+
+  return { ok: true, report: row as IngestReportInput };
+}
+
+export type IngestChainClient = Pick<MantlePublicClient, "readContract" | "getTransactionReceipt">;
+
+/**
+ * Check a submitted row against getReport and the submission receipt.
+ * On success returns the row as read from the chain, ready for the cache.
+ */
+export async function verifyReportOnChain(
+  client: IngestChainClient,
+  address: Hex,
+  input: IngestReportInput
+): Promise<{ ok: true; report: IndexedReport } | { ok: false; error: IngestError }> {
+  let onChain;
+  let receipt;
+  try {
+    onChain = await client.readContract({
+      address,
+      abi: RoadGuardABI,
+      functionName: "getReport",
+      args: [BigInt(input.chainReportId)],
+    });
+  } catch {
+    return { ok: false, error: { code: "CHAIN_UNAVAILABLE", message: "Could not read report from chain" } };
+  }
+
+  if (onChain.timestamp === BigInt(0)) {
+    return {
+      ok: false,
+      error: { code: "REPORT_NOT_FOUND", message: `Report ${input.chainReportId} does not exist on chain` },
+    };
+  }
+
+  const mismatched: string[] = [];
+  if (onChain.reporterCommitment.toLowerCase() !== input.reporterCommitment.toLowerCase()) {
+    mismatched.push("reporterCommitment");
+  }
+  if (onChain.latitude !== BigInt(input.latitude)) mismatched.push("latitude");
+  if (onChain.longitude !== BigInt(input.longitude)) mismatched.push("longitude");
+  if (onChain.eventType !== input.eventType) mismatched.push("eventType");
+  if (onChain.expiresAt !== BigInt(input.expiresAt)) mismatched.push("expiresAt");
+
+  if (mismatched.length > 0) {
+    return {
+      ok: false,
+      error: { code: "REPORT_MISMATCH", message: `Fields do not match chain: ${mismatched.join(", ")}` },
+    };
+  }
+
+  try {
+    receipt = await client.getTransactionReceipt({ hash: input.txHash });
+  } catch {
+    return { ok: false, error: { code: "TX_MISMATCH", message: "Transaction not found" } };
+  }
+
+  const submitted = parseEventLogs({
+    abi: RoadGuardABI,
+    eventName: "ReportSubmitted",
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === address.toLowerCase()),
+  }).some((log) => log.args.reportId === BigInt(input.chainReportId));
+
+  if (receipt.status !== "success" || !submitted) {
+    return {
+      ok: false,
+      error: { code: "TX_MISMATCH", message: "Transaction did not submit this report" },
+    };
+  }
+
+  return {
+    ok: true,
+    report: {
+      chainReportId: input.chainReportId,
+      reporterCommitment: onChain.reporterCommitment,
+      latitude: onChain.latitude,
+      longitude: onChain.longitude,
+      eventType: onChain.eventType,
+      stake: onChain.stakeAmount,
+      createdAt: new Date(Number(onChain.timestamp) * 1000),
+      expiresAt: new Date(Number(onChain.expiresAt) * 1000),
+      txHash: input.txHash,
+      blockNumber: receipt.blockNumber,
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { createHmac, randomBytes } from "crypto";
+
+// Structured logging for API routes. Every entry goes through redaction
+// before it reaches the sink, so call sites can pass request data without
+// leaking what RoadGuard promises to keep private:
+//   - coordinates are rounded (LOG_COORDINATES=round, default) or dropped
+//   - commitments are replaced with a keyed hash, so entries for the same
+//     commitment can be correlated without revealing it
+//   - IP addresses are never logged
+//   - secrets (keys, passphrases, signatures) are masked
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  scope: string;
+  msg: string;
+  [field: string]: unknown;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface Logger {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+  /** Logger that adds `fields` to every entry */
+  child(fields: Record<string, unknown>): Logger;
+}
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const COORDINATE_FIELDS = new Set(["lat", "lng", "latitude", "longitude", "minlat", "maxlat", "minlng", "maxlng"]);
+const COMMITMENT_FIELDS = new Set(["commitment", "reportercommitment", "commitments"]);
+const IP_FIELDS = new Set(["ip", "ips", "clientip", "remoteaddress", "x-forwarded-for", "x-real-ip", "forwardedfor"]);
+const SECRET_FIELDS = new Set([
+  "secret",
+  "passphrase",
+  "privatekey",
+  "password",
+  "pin",
+  "mnemonic",
+  "signature",
+  "authorization",
+  "cookie",
+  "token",
+]);
+
+// Chain identifiers that are safe to log verbatim
+const PUBLIC_HEX_FIELDS = new Set(["txhash", "hash", "blockhash", "txhashes"]);
+
+const HEX32 = /0x[0-9a-fA-F]{64}/g;
+const IPV4 = /\b(?:\d{1,3}\.){3}\d{1,3}\b/g;
+
+export interface LogConfig {
+  level: LogLevel | "silent";
+  coordinates: "round" | "drop";
+  /** Decimal places kept when rounding (2 is roughly 1 km) */
+  coordinatePrecision: number;
+}
+
+/**
+ * Read logging settings from the environment
+ */
+export function getLogConfig(): LogConfig {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase();
+  return {
+    level: level in LEVELS ? (level as LogLevel | "silent") : "info",
+    coordinates: process.env.LOG_COORDINATES === "drop" ? "drop" : "round",
+    coordinatePrecision: parseInt(process.env.LOG_COORDINATE_PRECISION || "2"),
+  };
+}
+
+// Commitments are public on-chain, so a plain hash could be reversed by
+// hashing every known commitment. LOG_HASH_SECRET keeps hashes stable across
+// instances; without it they are only stable within one process.
+const hashKey = process.env.LOG_HASH_SECRET || randomBytes(32).toString("hex");
+
+function hashValue(value: string): string {
+  return `h:${createHmac("sha256", hashKey).update(value.toLowerCase()).digest("hex").slice(0, 16)}`;
+}
+
+function scrubString(value: string): string {
+  return value.replace(HEX32, (match) => hashValue(match)).replace(IPV4, "[ip]");
+}
+
+function redactCoordinate(value: unknown, config: LogConfig): unknown {
+  const n = typeof value === "string" ? parseFloat(value) : typeof value === "number" ? value : NaN;
+  if (!Number.isFinite(n)) return undefined;
+  // On-chain coordinates are scaled by 1e8
+  const degrees = Math.abs(n) > 180 ? n / 1e8 : n;
+  const factor = 10 ** Math.max(0, config.coordinatePrecision);
+  return Math.round(degrees * factor) / factor;
+}
+
+function redactError(error: Error): Record<string, unknown> {
+  // viem errors carry the full call (args included) in `message`
+  const message = "shortMessage" in error && typeof error.shortMessage === "string" ? error.shortMessage : error.message;
+  return { name: error.name, message: scrubString(message) };
+}
+
+/**
+ * Apply the redaction rules to a value. Exported for tests.
+ */
+export function redact(value: unknown, config: LogConfig = getLogConfig(), key = "", depth = 0): unknown {
+  const name = key.toLowerCase();
+
+  if (IP_FIELDS.has(name)) return undefined;
+  if (SECRET_FIELDS.has(name)) return value === undefined || value === null ? value : "[redacted]";
+  if (COORDINATE_FIELDS.has(name)) {
+    return config.coordinates === "drop" ? undefined : redactCoordinate(value, config);
+  }
+  if (COMMITMENT_FIELDS.has(name)) {
+    if (typeof value === "string") return hashValue(value);
+    if (Array.isArray(value)) return value.map((item) => (typeof item === "string" ? hashValue(item) : undefined));
+    return undefined;
+  }
+
+  if (PUBLIC_HEX_FIELDS.has(name)) return value;
+  if (value instanceof Error) return redactError(value);
+  if (typeof value === "string") return scrubString(value);
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= 5) return "[truncated]";
+
+  if (Array.isArray(value)) return value.map((item) => redact(item, config, "", depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [field, item] of Object.entries(value)) {
+    const redacted = redact(item, config, field, depth + 1);
+    if (redacted !== undefined) result[field] = redacted;
+  }
+  return result;
+}
+
+const consoleSink: LogSink = (entry) => {
+  const line = JSON.stringify(entry);
+  if (entry.level === "error") console.error(line);
+  else if (entry.level === "warn") console.warn(line);
+  else console.log(line);
+};
+
+let sink: LogSink = consoleSink;
+
+/**
+ * Replace the sink (tests, log shipping). Returns a function that restores
+ * the previous one.
+ */
+export function setLogSink(next: LogSink): () => void {
+  const previous = sink;
+  sink = next;
+  return () => {
+    sink = previous;
+  };
+}
+
+export function createLogger(scope: string, baseFields: Record<string, unknown> = {}): Logger {
+  const write = (level: LogLevel, msg: string, fields?: Record<string, unknown>) => {
+    const config = getLogConfig();
+    if (LEVELS[level] < LEVELS[config.level]) return;
+
+    const redacted = redact({ ...baseFields, ...fields }, config) as Record<string, unknown>;
+    sink({ ...redacted, time: new Date().toISOString(), level, scope, msg: scrubString(msg) });
+  };
+
+  return {
+    debug: (msg, fields) => write("debug", msg, fields),
+    info: (msg, fields) => write("info", msg, fields),
+    warn: (msg, fields) => write("warn", msg, fields),
+    error: (msg, fields) => write("error", msg, fields),
+    child: (fields) => createLogger(scope, { ...baseFields, ...fields }),
+  };
+}
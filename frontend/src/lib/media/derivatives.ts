@@ -0,0 +1,67 @@
+import sharp from "sharp";
+import { encode } from "blurhash";
+
+// Every upload gets WebP copies sized for where it is shown, so the feed and
+// map info windows never pull a full 5MB photo, plus a blurhash that clients
+// paint while those load. Copies are made from the sanitized image, which is
+// already upright and free of metadata.
+
+/** Longest edge of each variant, in pixels; smaller images are not enlarged */
+export const IMAGE_VARIANTS = {
+  thumb: { maxSize: 320, quality: 70 },
+  feed: { maxSize: 960, quality: 80 },
+  full: { maxSize: 2048, quality: 85 },
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export const IMAGE_VARIANT_NAMES = Object.keys(IMAGE_VARIANTS) as ImageVariant[];
+
+export interface ImageDerivative {
+  buffer: Buffer;
+  contentType: "image/webp";
+  width: number;
+  height: number;
+}
+
+export interface ImageDerivatives {
+  variants: Record<ImageVariant, ImageDerivative>;
+  blurhash: string;
+}
+
+/** Blurhash input size: the hash only keeps a few components anyway */
+const BLURHASH_SAMPLE_SIZE = 32;
+
+/**
+ * WebP variants and a blurhash of an image. Animated GIFs contribute their
+ * first frame.
+ */
+export async function createImageDerivatives(input: Buffer): Promise<ImageDerivatives> {
+  const entries = await Promise.all(
+    IMAGE_VARIANT_NAMES.map(async (variant) => {
+      const { maxSize, quality } = IMAGE_VARIANTS[variant];
+      const { data, info } = await sharp(input)
+        .resize({ width: maxSize, height: maxSize, fit: "inside", withoutEnlargement: true })
+        .webp({ quality })
+        .toBuffer({ resolveWithObject: true });
+      const derivative: ImageDerivative = {
+        buffer: data,
+        contentType: "image/webp",
+        width: info.width,
+        height: info.height,
+      };
+      return [variant, derivative] as const;
+    })
+  );
+
+  const { data, info } = await sharp(input)
+    .resize({ width: BLURHASH_SAMPLE_SIZE, height: BLURHASH_SAMPLE_SIZE, fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  // 4x3 components for landscape, 3x4 for portrait
+  const landscape = info.width >= info.height;
+  const blurhash = encode(new Uint8ClampedArray(data), info.width, info.height, landscape ? 4 : 3, landscape ? 3 : 4);
+
+  return { variants: Object.fromEntries(entries) as Record<ImageVariant, ImageDerivative>, blurhash };
+}
@@ -0,0 +1,155 @@
+import sharp, { type Sharp } from "sharp";
+import type { DetectedRegion, ImageRegion, RedactionLabel, RegionDetector } from "./redaction";
+
+// CPU detectors for redaction, run with onnxruntime. Two model families are
+// supported, both small enough for a serverless function:
+//
+// - faces: UltraFace (version-RFB-320 from the ONNX model zoo). Input
+//   1x3x240x320, RGB normalised to (p - 127) / 128; outputs `scores` (N x 2,
+//   background/face) and `boxes` (N x 4, corners as fractions of the image).
+// - plates: a single-class YOLOv8 export (`yolo export format=onnx`). Input
+//   1x3x640x640, RGB / 255, letterboxed; output 1 x (4 + classes) x N with
+//   centre, size and class scores in input pixels.
+//
+// The models ship with the deployment (see REDACTION_*_MODEL); nothing is
+// sent to a third party.
+
+/** One inference call: a float32 NCHW input in, named outputs back */
+export type TensorRunner = (
+  input: Float32Array,
+  dims: number[]
+) => Promise<Record<string, { data: Float32Array; dims: readonly number[] }>>;
+
+const ULTRAFACE_WIDTH = 320;
+const ULTRAFACE_HEIGHT = 240;
+const YOLO_SIZE = 640;
+
+/** Boxes overlapping an already kept box by more than this are dropped */
+const NMS_IOU = 0.4;
+
+function iou(a: ImageRegion, b: ImageRegion): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const overlap = width * height;
+  return overlap / (a.width * a.height + b.width * b.height - overlap);
+}
+
+/**
+ * Greedy non-maximum suppression, per label
+ */
+export function nonMaxSuppression(regions: DetectedRegion[], threshold = NMS_IOU): DetectedRegion[] {
+  const kept: DetectedRegion[] = [];
+  for (const region of [...regions].sort((a, b) => b.score - a.score)) {
+    if (!kept.some((other) => other.label === region.label && iou(other, region) > threshold)) kept.push(region);
+  }
+  return kept;
+}
+
+/**
+ * RGB pixels of an image as a planar (CHW) float tensor
+ */
+async function toTensor(
+  pipeline: Sharp,
+  normalize: (value: number) => number
+): Promise<{ tensor: Float32Array; width: number; height: number }> {
+  const { data, info } = await pipeline.removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const plane = info.width * info.height;
+  const tensor = new Float32Array(plane * 3);
+  for (let i = 0; i < plane; i++) {
+    tensor[i] = normalize(data[i * 3]);
+    tensor[plane + i] = normalize(data[i * 3 + 1]);
+    tensor[plane * 2 + i] = normalize(data[i * 3 + 2]);
+  }
+  return { tensor, width: info.width, height: info.height };
+}
+
+export function createUltraFaceDetector(run: TensorRunner, options: { threshold?: number } = {}): RegionDetector {
+  const threshold = options.threshold ?? 0.7;
+
+  return async ({ buffer, width, height }) => {
+    const { tensor } = await toTensor(
+      sharp(buffer).resize({ width: ULTRAFACE_WIDTH, height: ULTRAFACE_HEIGHT, fit: "fill" }),
+      (value) => (value - 127) / 128
+    );
+    const { scores, boxes } = await run(tensor, [1, 3, ULTRAFACE_HEIGHT, ULTRAFACE_WIDTH]);
+
+    const found: DetectedRegion[] = [];
+    for (let i = 0; i < scores.data.length / 2; i++) {
+      const score = scores.data[i * 2 + 1];
+      if (score < threshold) continue;
+      const [x1, y1, x2, y2] = boxes.data.subarray(i * 4, i * 4 + 4);
+      found.push({
+        label: "face",
+        score,
+        x: x1 * width,
+        y: y1 * height,
+        width: (x2 - x1) * width,
+        height: (y2 - y1) * height,
+      });
+    }
+    return nonMaxSuppression(found);
+  };
+}
+
+export function createYoloDetector(
+  run: TensorRunner,
+  options: { label: RedactionLabel; classIndex?: number; threshold?: number }
+): RegionDetector {
+  const { label, classIndex = 0, threshold = 0.4 } = options;
+
+  return async ({ buffer, width, height }) => {
+    // Letterbox into the top-left corner, so only the scale needs undoing
+    const scale = Math.min(YOLO_SIZE / width, YOLO_SIZE / height);
+    const { tensor } = await toTensor(
+      sharp(buffer).resize({
+        width: YOLO_SIZE,
+        height: YOLO_SIZE,
+        fit: "contain",
+        position: "left top",
+        background: { r: 114, g: 114, b: 114 },
+      }),
+      (value) => value / 255
+    );
+    const outputs = await run(tensor, [1, 3, YOLO_SIZE, YOLO_SIZE]);
+    const { data, dims } = Object.values(outputs)[0];
+    const count = dims[2];
+    const at = (row: number, i: number) => data[row * count + i];
+
+    const found: DetectedRegion[] = [];
+    for (let i = 0; i < count; i++) {
+      const score = at(4 + classIndex, i);
+      if (score < threshold) continue;
+      const [cx, cy, w, h] = [at(0, i), at(1, i), at(2, i), at(3, i)].map((value) => value / scale);
+      found.push({ label, score, x: cx - w / 2, y: cy - h / 2, width: w, height: h });
+    }
+    return nonMaxSuppression(found);
+  };
+}
+
+/**
+ * Run several detectors on the same image and pool their regions
+ */
+export function combineDetectors(detectors: RegionDetector[]): RegionDetector {
+  return async (image) => (await Promise.all(detectors.map((detect) => detect(image)))).flat();
+}
+
+/**
+ * Load an ONNX model for CPU inference. onnxruntime is only loaded here, so
+ * deployments with redaction off never pay for it.
+ */
+export async function loadOnnxRunner(modelPath: string): Promise<TensorRunner> {
+  const ort = await import("onnxruntime-node");
+  const session = await ort.InferenceSession.create(modelPath, {
+    executionProviders: ["cpu"],
+    intraOpNumThreads: 1,
+  });
+  const inputName = session.inputNames[0];
+
+  return async (input, dims) => {
+    const outputs = await session.run({ [inputName]: new ort.Tensor("float32", input, dims) });
+    return Object.fromEntries(
+      Object.entries(outputs).map(([name, tensor]) => [name, { data: tensor.data as Float32Array, dims: tensor.dims }])
+    );
+  };
+}
@@ -0,0 +1,86 @@
+import { existsSync } from "fs";
+import { db } from "@/lib/db";
+import { createLogger } from "@/lib/logger";
+import { combineDetectors, createUltraFaceDetector, createYoloDetector, loadOnnxRunner } from "./detectors";
+import { createPostgresUploadedPhotoStore } from "./postgres";
+import type { RegionDetector } from "./redaction";
+import { createMemoryUploadedPhotoStore, type UploadedPhotoStore } from "./store";
+
+export * from "./types";
+export * from "./sanitize";
+export * from "./derivatives";
+export * from "./redaction";
+export * from "./detectors";
+export * from "./store";
+
+const log = createLogger("media");
+
+let memoryStore: UploadedPhotoStore | null = null;
+
+/**
+ * Postgres when DATABASE_URL is set; otherwise a per-process in-memory store
+ */
+export function getUploadedPhotoStore(): UploadedPhotoStore {
+  if (db) return createPostgresUploadedPhotoStore(db);
+  memoryStore ??= createMemoryUploadedPhotoStore();
+  return memoryStore;
+}
+
+export interface RedactionConfig {
+  /** REDACTION_MODE=auto runs the detectors on every upload */
+  enabled: boolean;
+  /** ONNX model paths, relative to the app directory; null skips that detector */
+  faceModel: string | null;
+  plateModel: string | null;
+  faceThreshold: number;
+  plateThreshold: number;
+}
+
+/**
+ * Read redaction settings from the environment
+ */
+export function getRedactionConfig(): RedactionConfig {
+  const model = (value: string | undefined, fallback: string) => (value === undefined ? fallback : value || null);
+  return {
+    enabled: process.env.REDACTION_MODE === "auto",
+    faceModel: model(process.env.REDACTION_FACE_MODEL, "models/redaction/ultraface-rfb-320.onnx"),
+    plateModel: model(process.env.REDACTION_PLATE_MODEL, "models/redaction/plate-yolov8n.onnx"),
+    faceThreshold: parseFloat(process.env.REDACTION_FACE_THRESHOLD || "0.7"),
+    plateThreshold: parseFloat(process.env.REDACTION_PLATE_THRESHOLD || "0.4"),
+  };
+}
+
+let detector: Promise<RegionDetector> | null = null;
+
+/**
+ * The face and plate detector, loaded once per process; null when redaction
+ * is off. Rejects if a model can't be loaded, and tries again next call. The
+ * plate model is optional (there is no standard one), so when its file is
+ * missing plates are skipped with a warning.
+ */
+export function getRegionDetector(): Promise<RegionDetector | null> {
+  const config = getRedactionConfig();
+  if (!config.enabled) return Promise.resolve(null);
+
+  detector ??= (async () => {
+    const detectors: RegionDetector[] = [];
+    if (config.faceModel) {
+      detectors.push(createUltraFaceDetector(await loadOnnxRunner(config.faceModel), { threshold: config.faceThreshold }));
+    }
+    const plateModel = config.plateModel && existsSync(config.plateModel) ? config.plateModel : null;
+    if (config.plateModel && !plateModel) {
+      log.warn("plate model not found, plates will not be redacted", { path: config.plateModel });
+    }
+    if (plateModel) {
+      detectors.push(
+        createYoloDetector(await loadOnnxRunner(plateModel), { label: "plate", threshold: config.plateThreshold })
+      );
+    }
+    log.info("redaction models loaded", { faces: !!config.faceModel, plates: !!plateModel });
+    return combineDetectors(detectors);
+  })();
+  detector.catch(() => {
+    detector = null;
+  });
+  return detector;
+}
@@ -0,0 +1,36 @@
+import { inArray } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { uploadedPhotos } from "@/lib/schema";
+import type { UploadedPhotoStore } from "./store";
+
+type Database = NonNullable<typeof database>;
+
+/**
+ * Postgres-backed upload records, one row per photo URL
+ */
+export function createPostgresUploadedPhotoStore(db: Database): UploadedPhotoStore {
+  return {
+    async save(photo) {
+      // Content-addressed storage returns the same URL for the same photo
+      await db.insert(uploadedPhotos).values(photo).onConflictDoNothing({ target: uploadedPhotos.url });
+    },
+
+    async getMany(urls) {
+      if (urls.length === 0) return new Map();
+      const rows = await db.select().from(uploadedPhotos).where(inArray(uploadedPhotos.url, urls));
+      return new Map(
+        rows.map((row) => [
+          row.url,
+          {
+            url: row.url,
+            width: row.width,
+            height: row.height,
+            blurhash: row.blurhash,
+            variants: row.variants,
+            redaction: row.redaction,
+          },
+        ])
+      );
+    },
+  };
+}
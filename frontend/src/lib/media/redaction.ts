@@ -0,0 +1,165 @@
+import sharp, { type OverlayOptions } from "sharp";
+import { encodeAs } from "./sanitize";
+import type { ImageType } from "./types";
+
+// Redaction blurs faces and licence plates out of a photo before it is
+// stored. Regions come from two places: a detector run on the server (see
+// ./detectors), and rectangles the uploader painted in the report sheet. Both
+// are applied to the sanitized image, which is upright, so the coordinates
+// match what the uploader saw. Blurred areas are pixelated first; a plain
+// gaussian blur of a face or plate can sometimes be sharpened back.
+//
+// Only one frame is scanned and blurred, so an animated GIF is flattened to
+// its first frame whenever redaction applies; no unscanned frame is stored.
+
+export type RedactionLabel = "face" | "plate";
+
+/** A rectangle in image pixels */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedRegion extends ImageRegion {
+  label: RedactionLabel;
+  score: number;
+}
+
+/** Encoded image in, regions to blur out */
+export type RegionDetector = (image: { buffer: Buffer; width: number; height: number }) => Promise<DetectedRegion[]>;
+
+/** What was blurred in a stored photo */
+export interface RedactionRecord {
+  /** The detector ran on this photo */
+  automatic: boolean;
+  faces: number;
+  plates: number;
+  /** Regions painted by the uploader */
+  manual: number;
+}
+
+/** Regions an uploader may paint on one photo */
+export const MAX_MANUAL_REGIONS = 20;
+
+/** Detected boxes are grown by this fraction on each side, to cover hair and plate frames */
+const REGION_PADDING = 0.15;
+
+/**
+ * Validate regions painted in the report sheet. Returns an error message for
+ * anything but an array of in-bounds fractional rectangles.
+ */
+export function parseManualRegions(value: unknown): ImageRegion[] | string {
+  if (!Array.isArray(value)) return "blurRegions must be an array";
+  if (value.length > MAX_MANUAL_REGIONS) return `At most ${MAX_MANUAL_REGIONS} blur regions per photo`;
+
+  const regions: ImageRegion[] = [];
+  for (const region of value) {
+    const { x, y, width, height } = (region ?? {}) as Record<string, unknown>;
+    const numbers = [x, y, width, height];
+    if (!numbers.every((n) => typeof n === "number" && Number.isFinite(n) && n >= 0 && n <= 1)) {
+      return "blur regions must have x, y, width and height between 0 and 1";
+    }
+    regions.push({ x: x as number, y: y as number, width: width as number, height: height as number });
+  }
+  return regions;
+}
+
+/**
+ * A region clamped to the image, or null if nothing of it is left
+ */
+function clampRegion(region: ImageRegion, width: number, height: number, padding = 0): ImageRegion | null {
+  const padX = region.width * padding;
+  const padY = region.height * padding;
+  const left = Math.max(0, Math.floor(region.x - padX));
+  const top = Math.max(0, Math.floor(region.y - padY));
+  const right = Math.min(width, Math.ceil(region.x + region.width + padX));
+  const bottom = Math.min(height, Math.ceil(region.y + region.height + padY));
+  if (right - left < 1 || bottom - top < 1) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Pixelate and blur each region of an image. Returns a raw overlay per
+ * region, to composite over the original.
+ */
+async function blurredOverlays(input: Buffer, regions: ImageRegion[]): Promise<OverlayOptions[]> {
+  return Promise.all(
+    regions.map(async (region) => {
+      // About 6 blocks across the short side, then smoothed
+      const block = Math.max(4, Math.round(Math.min(region.width, region.height) / 6));
+      const small = await sharp(input)
+        .extract({ left: region.x, top: region.y, width: region.width, height: region.height })
+        .resize({
+          width: Math.max(1, Math.round(region.width / block)),
+          height: Math.max(1, Math.round(region.height / block)),
+          kernel: "cubic",
+        })
+        .toBuffer();
+      const { data, info } = await sharp(small)
+        .resize({ width: region.width, height: region.height, kernel: "nearest" })
+        .blur(Math.max(1, block / 2))
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      return {
+        input: data,
+        raw: { width: info.width, height: info.height, channels: info.channels },
+        left: region.x,
+        top: region.y,
+      };
+    })
+  );
+}
+
+type EncodedImage = { buffer: Buffer; contentType: ImageType; width: number; height: number };
+
+/**
+ * The first frame of an animated image, or the image itself
+ */
+async function firstFrame(image: EncodedImage): Promise<EncodedImage> {
+  const { pages = 1 } = await sharp(image.buffer).metadata();
+  if (pages <= 1) return image;
+  const { data, info } = await encodeAs(sharp(image.buffer, { page: 0 }), image.contentType).toBuffer({
+    resolveWithObject: true,
+  });
+  return { ...image, buffer: data, width: info.width, height: info.height };
+}
+
+/**
+ * Blur detected and painted regions of a sanitized image. Returns the input
+ * untouched when redaction is off and nothing was painted; animated GIFs are
+ * otherwise flattened to their first frame.
+ */
+export async function redactImage(
+  input: EncodedImage,
+  options: { detector?: RegionDetector | null; manualRegions?: ImageRegion[] } = {}
+): Promise<{ buffer: Buffer; redaction: RedactionRecord }> {
+  const painted = options.manualRegions ?? [];
+  const image = options.detector || painted.length > 0 ? await firstFrame(input) : input;
+  const { width, height } = image;
+  const detected = options.detector ? await options.detector(image) : [];
+  const manual = painted.map((region) => ({
+    x: region.x * width,
+    y: region.y * height,
+    width: region.width * width,
+    height: region.height * height,
+  }));
+
+  const regions = [
+    ...detected.map((region) => clampRegion(region, width, height, REGION_PADDING)),
+    ...manual.map((region) => clampRegion(region, width, height)),
+  ].filter((region): region is ImageRegion => region !== null);
+
+  const redaction: RedactionRecord = {
+    automatic: !!options.detector,
+    faces: detected.filter((region) => region.label === "face").length,
+    plates: detected.filter((region) => region.label === "plate").length,
+    manual: manual.length,
+  };
+  if (regions.length === 0) return { buffer: image.buffer, redaction };
+
+  const overlays = await blurredOverlays(image.buffer, regions);
+  const buffer = await encodeAs(sharp(image.buffer).composite(overlays), image.contentType).toBuffer();
+  return { buffer, redaction };
+}
@@ -0,0 +1,49 @@
+import sharp, { type Sharp } from "sharp";
+import type { ImageType } from "./types";
+
+// Uploaded photos are decoded and re-encoded before they are stored. Phone
+// cameras write GPS coordinates, device serials and capture times into EXIF
+// (and XMP/IPTC), any of which can identify a reporter; sharp drops all of it
+// unless asked to keep it. Orientation is applied to the pixels first, so the
+// image still displays upright without its EXIF orientation tag.
+
+/** Refuse decompression bombs: 40 megapixels covers any phone camera */
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export interface SanitizedImage {
+  buffer: Buffer;
+  contentType: ImageType;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode an image and re-encode it in the same format, upright and without
+ * any metadata. Throws if the data can't be decoded.
+ */
+export async function sanitizeImage(input: Buffer, type: ImageType): Promise<SanitizedImage> {
+  // GIFs have no EXIF orientation, and every frame of an animation is kept
+  const animated = type === "image/gif";
+  let pipeline = sharp(input, { animated, limitInputPixels: MAX_INPUT_PIXELS });
+  if (!animated) pipeline = pipeline.rotate();
+
+  const { data, info } = await encodeAs(pipeline, type).toBuffer({ resolveWithObject: true });
+  // Frames of an animation are stacked; the height is that of one frame
+  return { buffer: data, contentType: type, width: info.width, height: info.pageHeight ?? info.height };
+}
+
+/**
+ * Encoder settings for stored images of each type
+ */
+export function encodeAs(pipeline: Sharp, type: ImageType): Sharp {
+  switch (type) {
+    case "image/jpeg":
+      return pipeline.jpeg({ quality: 85, mozjpeg: true });
+    case "image/png":
+      return pipeline.png({ compressionLevel: 9 });
+    case "image/webp":
+      return pipeline.webp({ quality: 85 });
+    case "image/gif":
+      return pipeline.gif();
+  }
+}
@@ -0,0 +1,44 @@
+import type { ImageVariant } from "./derivatives";
+import type { RedactionRecord } from "./redaction";
+
+// Persistence contract for what /api/upload made of each photo: its variants
+// and blurhash, looked up by the URL a report refers to. The Postgres
+// implementation lives in ./postgres; the in-memory one below is used in
+// tests and when no DATABASE_URL is configured.
+
+export interface PhotoVariantView {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface UploadedPhoto {
+  /** URL of the sanitized original, as returned by /api/upload */
+  url: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  variants: Record<ImageVariant, PhotoVariantView>;
+  /** What was blurred before storage; null for photos uploaded before redaction */
+  redaction: RedactionRecord | null;
+}
+
+export interface UploadedPhotoStore {
+  save(photo: UploadedPhoto): Promise<void>;
+  /** Photos by URL; URLs that were never uploaded are left out */
+  getMany(urls: string[]): Promise<Map<string, UploadedPhoto>>;
+}
+
+export function createMemoryUploadedPhotoStore(): UploadedPhotoStore {
+  const rows = new Map<string, UploadedPhoto>();
+
+  return {
+    async save(photo) {
+      rows.set(photo.url, structuredClone(photo));
+    },
+
+    async getMany(urls) {
+      return new Map(urls.flatMap((url) => (rows.has(url) ? [[url, structuredClone(rows.get(url)!)] as const] : [])));
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { db } from "@/lib/db";
+import { createPostgresModerationStore } from "./postgres";
+import { createMemoryModerationStore, SYSTEM_MODERATOR, type ModerationStore } from "./store";
+
+export * from "./store";
+
+// Comment moderation. Anyone can flag a comment (see /api/comments/flags);
+// enough flags from wallet reactors hide it until a moderator looks at it. Moderators use the
+// /api/admin/moderation routes with a bearer token from MODERATOR_TOKENS, and
+// every action, automatic hides included, goes in the audit log.
+
+export const DEFAULT_MODERATION_PAGE_SIZE = 50;
+export const MAX_MODERATION_PAGE_SIZE = 100;
+
+export interface ModerationConfig {
+  /** Distinct flags from wallet reactors that hide a comment */
+  hideThreshold: number;
+  /** Moderator name by token */
+  moderators: Map<string, string>;
+}
+
+/**
+ * Read moderation settings from the environment. MODERATOR_TOKENS is a comma
+ * separated list of `name:token` pairs; without it the admin routes are off.
+ */
+export function getModerationConfig(): ModerationConfig {
+  const moderators = new Map<string, string>();
+  for (const pair of (process.env.MODERATOR_TOKENS || "").split(",")) {
+    const separator = pair.indexOf(":");
+    if (separator <= 0) continue;
+    const name = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (name && name !== SYSTEM_MODERATOR && token) moderators.set(token, name);
+  }
+  return {
+    hideThreshold: Math.max(1, parseInt(process.env.COMMENT_FLAG_HIDE_THRESHOLD || "3")),
+    moderators,
+  };
+}
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * The moderator an `Authorization: Bearer <token>` header belongs to, or null
+ */
+export function authenticateModerator(headers: Headers, config: ModerationConfig): string | null {
+  const header = headers.get("authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  const given = digest(header.slice("Bearer ".length));
+
+  let moderator: string | null = null;
+  for (const [token, name] of config.moderators) {
+    if (timingSafeEqual(given, digest(token))) moderator = name;
+  }
+  return moderator;
+}
+
+let memoryStore: ModerationStore | null = null;
+
+/**
+ * Postgres when DATABASE_URL is set; otherwise a per-process in-memory store
+ */
+export function getModerationStore(): ModerationStore {
+  if (db) return createPostgresModerationStore(db);
+  memoryStore ??= createMemoryModerationStore();
+  return memoryStore;
+}
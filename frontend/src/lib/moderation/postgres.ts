@@ -0,0 +1,57 @@
+import { desc, eq, lt } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { moderationBans, moderationLog } from "@/lib/schema";
+import type { ModerationAction, ModerationLogEntry, ModerationStore } from "./store";
+
+type Database = NonNullable<typeof database>;
+type LogRow = typeof moderationLog.$inferSelect;
+
+function toEntry(row: LogRow): ModerationLogEntry {
+  return {
+    id: row.id,
+    action: row.action as ModerationAction,
+    moderator: row.moderator,
+    commentId: row.commentId,
+    reportId: row.reportId,
+    reactor: row.reactor,
+    reason: row.reason,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+export function createPostgresModerationStore(db: Database): ModerationStore {
+  return {
+    async isBanned(reactor) {
+      const rows = await db
+        .select({ reactor: moderationBans.reactor })
+        .from(moderationBans)
+        .where(eq(moderationBans.reactor, reactor))
+        .limit(1);
+      return rows.length > 0;
+    },
+
+    async ban({ reactor, reason, moderator }) {
+      const rows = await db
+        .insert(moderationBans)
+        .values({ reactor, reason, moderator })
+        .onConflictDoNothing()
+        .returning({ reactor: moderationBans.reactor });
+      return rows.length > 0;
+    },
+
+    async record(entry) {
+      const [row] = await db.insert(moderationLog).values(entry).returning();
+      return toEntry(row);
+    },
+
+    async log({ limit, before }) {
+      const rows = await db
+        .select()
+        .from(moderationLog)
+        .where(before == null ? undefined : lt(moderationLog.id, before))
+        .orderBy(desc(moderationLog.id))
+        .limit(limit);
+      return rows.map(toEntry);
+    },
+  };
+}
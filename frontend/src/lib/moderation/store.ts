@@ -0,0 +1,73 @@
+// Persistence contract for reactor bans and the moderation audit log. The
+// Postgres implementation lives in ./postgres; the in-memory one below is
+// used in tests and when no DATABASE_URL is configured.
+//
+// The log is append only. Entries name the comment, report and reactor an
+// action concerned, but never a deleted comment's text.
+
+export const MODERATION_ACTIONS = ["approve", "delete", "ban", "auto_hide"] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+/** Moderator name on entries the app records by itself */
+export const SYSTEM_MODERATOR = "system";
+
+export interface ModerationLogEntry {
+  id: number;
+  action: ModerationAction;
+  moderator: string;
+  commentId: string | null;
+  reportId: string | null;
+  reactor: string | null;
+  reason: string | null;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+}
+
+export type NewModerationLogEntry = Omit<ModerationLogEntry, "id" | "createdAt">;
+
+export interface ReactorBan {
+  reactor: string;
+  reason: string | null;
+  moderator: string;
+  createdAt: number;
+}
+
+export interface ModerationStore {
+  isBanned(reactor: string): Promise<boolean>;
+  /** False if the reactor was already banned */
+  ban(ban: Omit<ReactorBan, "createdAt">): Promise<boolean>;
+  record(entry: NewModerationLogEntry): Promise<ModerationLogEntry>;
+  /** Newest first, `limit` at a time, starting below entry id `before` */
+  log(options: { limit: number; before?: number | null }): Promise<ModerationLogEntry[]>;
+}
+
+export function createMemoryModerationStore(): ModerationStore {
+  const bans = new Map<string, ReactorBan>();
+  const entries: ModerationLogEntry[] = [];
+
+  return {
+    async isBanned(reactor) {
+      return bans.has(reactor);
+    },
+
+    async ban(ban) {
+      if (bans.has(ban.reactor)) return false;
+      bans.set(ban.reactor, { ...ban, createdAt: Date.now() });
+      return true;
+    },
+
+    async record(entry) {
+      const recorded = { ...entry, id: entries.length + 1, createdAt: Date.now() };
+      entries.push(recorded);
+      return { ...recorded };
+    },
+
+    async log({ limit, before }) {
+      return entries
+        .filter((entry) => before == null || entry.id < before)
+        .reverse()
+        .slice(0, limit)
+        .map((entry) => ({ ...entry }));
+    },
+  };
+}
@@ -0,0 +1,400 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { parseEther } from "viem";
+import { checkPowSolution, type PowSolution } from "./pow";
+import type { Hex, RelayJob, RelayJobPayload, RelayJobStore } from "./store";
+
+// Admission control for POST /api/relay/report. The relayer pays every stake,
+// so requests go through a chain of rules before a job is queued, and the job
+// is only queued if it fits the spend cap. Rate limits keep state in process
+// memory, with client IPs keyed through a per-process salted HMAC. Used
+// proof-of-work challenges and the spend are kept in the job store, so they
+// hold across instances when it is in Postgres.
+
+export type AdmissionRejectionCode = "POW_REQUIRED" | "POW_INVALID" | "RATE_LIMITED" | "SPEND_CAP";
+
+export interface AdmissionRejection {
+  code: AdmissionRejectionCode;
+  message: string;
+  /** Seconds until the same request could be admitted */
+  retryAfterSeconds: number;
+}
+
+export interface AdmissionRequest {
+  ip: string | null;
+  commitment: Hex;
+  /** Wei the relayer would pay for this request */
+  stake: bigint;
+  pow?: PowSolution | null;
+}
+
+export interface AdmissionRule {
+  name: string;
+  check(request: AdmissionRequest, now: Date): Promise<AdmissionRejection | null>;
+}
+
+export interface AdmissionControl {
+  admit(request: AdmissionRequest, now?: Date): Promise<AdmissionRejection | null>;
+}
+
+/**
+ * Run rules in order and stop at the first rejection, so cheap stateless
+ * checks (proof of work) go before rules that consume tokens.
+ */
+export function createAdmissionControl(rules: AdmissionRule[]): AdmissionControl {
+  return {
+    async admit(request, now = new Date()) {
+      for (const rule of rules) {
+        const rejection = await rule.check(request, now);
+        if (rejection) return rejection;
+      }
+      return null;
+    },
+  };
+}
+
+const toSeconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+// ---------------------------------------------------------------------------
+// Token buckets
+// ---------------------------------------------------------------------------
+
+export interface TokenBucketOptions {
+  /** Max burst */
+  capacity: number;
+  /** Tokens added back per hour */
+  refillPerHour: number;
+  /** Idle keys are dropped once the map grows past this */
+  maxKeys?: number;
+}
+
+export interface TokenBucket {
+  /** Take one token; returns ms until one is available when empty */
+  take(key: string, now?: Date): { ok: true } | { ok: false; retryAfterMs: number };
+  size(): number;
+}
+
+export function createTokenBucket(options: TokenBucketOptions): TokenBucket {
+  const { capacity, refillPerHour, maxKeys = 10_000 } = options;
+  const refillPerMs = refillPerHour / 3_600_000;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const level = (bucket: { tokens: number; updatedAt: number }, at: number) =>
+    Math.min(capacity, bucket.tokens + (at - bucket.updatedAt) * refillPerMs);
+
+  const sweep = (at: number) => {
+    for (const [key, bucket] of buckets) {
+      if (level(bucket, at) >= capacity) buckets.delete(key);
+    }
+  };
+
+  return {
+    take(key, now = new Date()) {
+      const at = now.getTime();
+      if (buckets.size >= maxKeys) sweep(at);
+
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: at };
+      const tokens = level(bucket, at);
+      if (tokens < 1) {
+        buckets.set(key, { tokens, updatedAt: at });
+        return { ok: false, retryAfterMs: refillPerMs > 0 ? (1 - tokens) / refillPerMs : 3_600_000 };
+      }
+
+      buckets.set(key, { tokens: tokens - 1, updatedAt: at });
+      return { ok: true };
+    },
+
+    size: () => buckets.size,
+  };
+}
+
+/**
+ * Rate limit by a key derived from the request. Keys are HMAC'd with a
+ * random per-process salt, so raw IPs and commitments never sit in memory.
+ */
+export function createRateLimitRule(
+  name: string,
+  keyOf: (request: AdmissionRequest) => string | null,
+  options: TokenBucketOptions,
+  message = "Too many reports. Please wait before submitting again."
+): AdmissionRule {
+  const bucket = createTokenBucket(options);
+  const salt = randomBytes(32);
+
+  return {
+    name,
+    async check(request, now) {
+      const key = keyOf(request);
+      if (key === null) return null;
+
+      const result = bucket.take(createHmac("sha256", salt).update(key).digest("base64"), now);
+      if (result.ok) return null;
+      return {
+        code: "RATE_LIMITED",
+        message,
+        retryAfterSeconds: toSeconds(result.retryAfterMs),
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Proof of work
+// ---------------------------------------------------------------------------
+
+export interface PowChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: string;
+}
+
+/**
+ * Stateless challenges: `${expiresAt}.${difficulty}.${random}.${hmac}`.
+ * Only solved challenges are remembered, in the job store until they expire,
+ * to stop replays.
+ */
+export function createPowRule(options: {
+  difficulty: number;
+  secret: string;
+  ttlSeconds: number;
+  store: () => RelayJobStore;
+}): AdmissionRule & {
+  issue(now?: Date): PowChallenge;
+} {
+  const { difficulty, secret, ttlSeconds } = options;
+
+  const sign = (payload: string) => createHmac("sha256", secret).update(payload).digest("hex");
+
+  const reject = (code: AdmissionRejectionCode, message: string): AdmissionRejection => ({
+    code,
+    message,
+    retryAfterSeconds: 1,
+  });
+
+  return {
+    name: "pow",
+
+    issue(now = new Date()) {
+      const expiresAt = now.getTime() + ttlSeconds * 1000;
+      const payload = `${expiresAt}.${difficulty}.${randomBytes(12).toString("hex")}`;
+      return {
+        challenge: `${payload}.${sign(payload)}`,
+        difficulty,
+        expiresAt: new Date(expiresAt).toISOString(),
+      };
+    },
+
+    async check(request, now) {
+      if (difficulty <= 0) return null;
+      if (!request.pow) {
+        return reject("POW_REQUIRED", "Proof of work required. Fetch a challenge from /api/relay/challenge.");
+      }
+
+      const { challenge, solution } = request.pow;
+      const parts = challenge.split(".");
+      if (parts.length !== 4) return reject("POW_INVALID", "Malformed challenge");
+
+      const [expiresAt, challengeDifficulty, , signature] = parts;
+      const expected = Buffer.from(sign(parts.slice(0, 3).join(".")), "hex");
+      const given = Buffer.from(signature, "hex");
+      if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        return reject("POW_INVALID", "Unknown challenge");
+      }
+
+      const at = now.getTime();
+      if (Number(expiresAt) <= at) return reject("POW_INVALID", "Challenge expired");
+      if (Number(challengeDifficulty) < difficulty) return reject("POW_INVALID", "Challenge difficulty too low");
+
+      if (!checkPowSolution(challenge, request.commitment, solution, Number(challengeDifficulty))) {
+        return reject("POW_INVALID", "Incorrect proof of work");
+      }
+
+      if (!(await options.store().claimPowChallenge(challenge, new Date(Number(expiresAt)), now))) {
+        return reject("POW_INVALID", "Challenge already used");
+      }
+      return null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Global spend cap
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 3_600_000;
+
+export type SpendCapResult = { ok: true; job: RelayJob } | { ok: false; rejection: AdmissionRejection };
+
+export interface SpendCap {
+  /** Queue a report job if its stake fits the budget, or say when it would */
+  enqueue(
+    payload: Extract<RelayJobPayload, { kind: "submit_report" }>,
+    runAt?: Date,
+    now?: Date
+  ): Promise<SpendCapResult>;
+}
+
+/**
+ * Cap the stake the relayer commits per rolling hour, counted from the job
+ * queue so it holds across instances when the queue is in Postgres. The
+ * store checks the budget and inserts the job in one step, so concurrent
+ * requests can't overshoot it.
+ */
+export function createSpendCap(options: { capWei: bigint; store: () => RelayJobStore }): SpendCap {
+  return {
+    async enqueue(payload, runAt, now = new Date()) {
+      const store = options.store();
+      if (options.capWei <= BigInt(0)) return { ok: true, job: await store.enqueue(payload, runAt) };
+
+      const since = new Date(now.getTime() - HOUR_MS);
+      const job = await store.enqueueWithinSpendCap(payload, runAt, { capWei: options.capWei, since });
+      if (job) return { ok: true, job };
+
+      // Wait until enough of the window ages out to fit this request
+      const stake = BigInt(payload.stake);
+      const spends = await store.listSpendSince(since);
+      let total = spends.reduce((sum, spend) => sum + spend.stake, BigInt(0));
+      let retryAt = now.getTime() + HOUR_MS;
+      for (const spend of spends) {
+        total -= spend.stake;
+        if (total + stake <= options.capWei) {
+          retryAt = spend.createdAt.getTime() + HOUR_MS;
+          break;
+        }
+      }
+
+      return {
+        ok: false,
+        rejection: {
+          code: "SPEND_CAP",
+          message: "The relayer has reached its hourly budget. Please try again later.",
+          retryAfterSeconds: toSeconds(retryAt - now.getTime()),
+        },
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface RelayAdmissionConfig {
+  powDifficulty: number;
+  powTtlSeconds: number;
+  ipBurst: number;
+  ipPerHour: number;
+  commitmentBurst: number;
+  commitmentPerHour: number;
+  hourlySpendCapWei: bigint;
+  /** Claim quotes per IP; each one costs a few RPC reads per secret */
+  quoteIpBurst: number;
+  quoteIpPerHour: number;
+}
+
+/**
+ * Read admission settings from the environment. A zero burst, difficulty or
+ * cap disables that rule.
+ */
+export function getRelayAdmissionConfig(): RelayAdmissionConfig {
+  return {
+    powDifficulty: parseInt(process.env.RELAY_POW_DIFFICULTY || "16"),
+    powTtlSeconds: parseInt(process.env.RELAY_POW_TTL_SECONDS || "120"),
+    ipBurst: parseInt(process.env.RELAY_IP_BURST || "5"),
+    ipPerHour: parseFloat(process.env.RELAY_IP_PER_HOUR || "20"),
+    // Off by default: each report has a fresh commitment, so this only
+    // catches clients that resend one, and is no protection against spam
+    commitmentBurst: parseInt(process.env.RELAY_COMMITMENT_BURST || "0"),
+    commitmentPerHour: parseFloat(process.env.RELAY_COMMITMENT_PER_HOUR || "10"),
+    hourlySpendCapWei: parseEther(process.env.RELAY_HOURLY_SPEND_CAP_MNT || "1"),
+    quoteIpBurst: parseInt(process.env.RELAY_QUOTE_IP_BURST || "10"),
+    quoteIpPerHour: parseFloat(process.env.RELAY_QUOTE_IP_PER_HOUR || "60"),
+  };
+}
+
+export function createRelayAdmission(
+  config: RelayAdmissionConfig,
+  options: { powSecret: string; store: () => RelayJobStore }
+) {
+  const pow = createPowRule({
+    difficulty: config.powDifficulty,
+    secret: options.powSecret,
+    ttlSeconds: config.powTtlSeconds,
+    store: options.store,
+  });
+
+  const rules: AdmissionRule[] = [pow];
+  if (config.ipBurst > 0) {
+    rules.push(
+      createRateLimitRule("ip", (request) => request.ip, {
+        capacity: config.ipBurst,
+        refillPerHour: config.ipPerHour,
+      })
+    );
+  }
+  if (config.commitmentBurst > 0) {
+    rules.push(
+      createRateLimitRule("commitment", (request) => request.commitment.toLowerCase(), {
+        capacity: config.commitmentBurst,
+        refillPerHour: config.commitmentPerHour,
+      })
+    );
+  }
+
+  // Quotes queue nothing, so they skip proof of work and the spend cap, but
+  // each one reads the chain for every secret, so they are limited per IP
+  const quoteRules: AdmissionRule[] = [];
+  if (config.quoteIpBurst > 0) {
+    quoteRules.push(
+      createRateLimitRule(
+        "quote-ip",
+        (request) => request.ip,
+        { capacity: config.quoteIpBurst, refillPerHour: config.quoteIpPerHour },
+        "Too many fee quotes. Please wait before asking again."
+      )
+    );
+  }
+
+  return {
+    ...createAdmissionControl(rules),
+    quote: createAdmissionControl(quoteRules),
+    /** Last step of admission: queue the job within the spend cap */
+    spendCap: createSpendCap({ capWei: config.hourlySpendCapWei, store: options.store }),
+    config,
+    issueChallenge: (now?: Date) => pow.issue(now),
+  };
+}
+
+export type RelayAdmission = ReturnType<typeof createRelayAdmission>;
+
+export interface ClientIpConfig {
+  /** A header the proxy overwrites with the client address, e.g. x-real-ip */
+  header: string | null;
+  /** Proxies in front of the app that append to X-Forwarded-For */
+  trustedHops: number;
+}
+
+export function getClientIpConfig(): ClientIpConfig {
+  return {
+    header: process.env.CLIENT_IP_HEADER?.trim().toLowerCase() || null,
+    trustedHops: parseInt(process.env.TRUSTED_PROXY_HOPS || "1"),
+  };
+}
+
+/**
+ * Client IP as seen by the trusted proxy. Only used as a rate-limit key.
+ *
+ * Clients can send any X-Forwarded-For they like, and proxies append to it,
+ * so only the entries added by our own proxies count: the one `trustedHops`
+ * from the right. With no trusted hops and no header there is no address.
+ */
+export function getClientIp(headers: Headers, config: ClientIpConfig = getClientIpConfig()): string | null {
+  if (config.header) return headers.get(config.header)?.trim() || null;
+  if (config.trustedHops <= 0) return null;
+
+  const hops = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length === 0) return headers.get("x-real-ip")?.trim() || null;
+  return hops[Math.max(0, hops.length - config.trustedHops)];
+}
@@ -0,0 +1,129 @@
+import { getAddress, isAddress, keccak256, parseEther, zeroAddress } from "viem";
+import type { RelayChain } from "./index";
+import type { Hex } from "./store";
+
+// Gasless reward claims. The relayer calls claimRewards(secret, relayer) so
+// the user's wallet never touches the commitment, then forwards the claimed
+// amount minus a fee to a fresh recipient. The fee is quoted up front and the
+// user sets the most they will pay; the quoted fee is what gets deducted.
+//
+// Reporters use a fresh commitment per report, so claims come in batches: one
+// claim transaction per commitment and a single payout once all have settled.
+
+export interface ClaimFeeConfig {
+  /** Headroom on top of the gas estimate, covering gas-price bumps */
+  marginPercent: number;
+  minFee: bigint;
+}
+
+/** Most commitments claimed in one request */
+export const MAX_CLAIM_BATCH = 20;
+
+export interface ClaimQuote {
+  /** Commitments with pending rewards, and their secrets */
+  claims: { secret: Hex; commitment: Hex; pending: bigint }[];
+  /** Total over all claims */
+  pending: bigint;
+  fee: bigint;
+  /** What the recipient receives */
+  net: bigint;
+}
+
+/**
+ * Read claim fee settings from the environment
+ */
+export function getClaimFeeConfig(): ClaimFeeConfig {
+  return {
+    marginPercent: parseInt(process.env.RELAY_CLAIM_FEE_MARGIN_PERCENT || "50"),
+    minFee: parseEther(process.env.RELAY_CLAIM_MIN_FEE_MNT || "0"),
+  };
+}
+
+/** Commitment for a claim secret, as the contract computes it */
+export function commitmentForSecret(secret: Hex): Hex {
+  return keccak256(secret);
+}
+
+export function claimJobId(batchId: string, index: number): string {
+  return `${batchId}-${index}`;
+}
+
+export function payoutJobId(batchId: string): string {
+  return `${batchId}-payout`;
+}
+
+/**
+ * Validate a payout recipient. Returns a reason when it can't be used.
+ */
+export function checkClaimRecipient(recipient: unknown, forbidden: string[]): string | null {
+  if (typeof recipient !== "string" || !isAddress(recipient)) return "Invalid recipient address";
+  const address = getAddress(recipient);
+  if (address === zeroAddress) return "Invalid recipient address";
+  if (forbidden.some((other) => other.toLowerCase() === address.toLowerCase())) {
+    return "Recipient must be a fresh address";
+  }
+  return null;
+}
+
+/**
+ * Pending rewards and the fee for claiming them through the relayer: gas for
+ * each claim plus the payout transfer at the current gas price, plus margin.
+ * Secrets without pending rewards are left out.
+ */
+export async function quoteClaim(
+  chain: RelayChain,
+  params: { secrets: Hex[]; recipient: Hex },
+  config: ClaimFeeConfig = getClaimFeeConfig()
+): Promise<ClaimQuote> {
+  const all = await Promise.all(
+    params.secrets.map(async (secret) => {
+      const commitment = commitmentForSecret(secret);
+      return { secret, commitment, pending: await chain.getPendingRewards(commitment) };
+    })
+  );
+  const claims = all.filter((claim) => claim.pending > BigInt(0));
+  const pending = claims.reduce((sum, claim) => sum + claim.pending, BigInt(0));
+  if (claims.length === 0) {
+    return { claims, pending, fee: BigInt(0), net: BigInt(0) };
+  }
+
+  const [claimGas, payoutGas, gasPrice] = await Promise.all([
+    Promise.all(
+      claims.map(({ secret, commitment }) =>
+        chain.estimateGas({
+          kind: "claim_rewards",
+          commitment,
+          secret,
+          recipient: params.recipient,
+          fee: "0",
+          batchId: "",
+          batchSize: claims.length,
+        })
+      )
+    ),
+    chain.estimateGas({ kind: "payout", batchId: "", recipient: params.recipient, amount: pending.toString() }),
+    chain.getGasPrice(),
+  ]);
+
+  const gas = claimGas.reduce((sum, each) => sum + each, payoutGas);
+  let fee = (gas * gasPrice * BigInt(100 + config.marginPercent)) / BigInt(100);
+  if (fee < config.minFee) fee = config.minFee;
+
+  return { claims, pending, fee, net: pending > fee ? pending - fee : BigInt(0) };
+}
+
+/**
+ * Read `secrets` (or a single `secret`) from a request body. Returns a reason
+ * when they can't be used.
+ */
+export function parseClaimSecrets(body: { secret?: unknown; secrets?: unknown }): Hex[] | string {
+  const secrets = body.secrets ?? (body.secret === undefined ? undefined : [body.secret]);
+  if (!Array.isArray(secrets) || secrets.length === 0) return "secrets is required";
+  if (secrets.length > MAX_CLAIM_BATCH) return `At most ${MAX_CLAIM_BATCH} secrets per claim`;
+  if (!secrets.every((secret) => typeof secret === "string" && /^0x[0-9a-fA-F]{64}$/.test(secret))) {
+    return "Invalid secret. Must be a 32-byte hex string";
+  }
+  const unique = new Set(secrets.map((secret: string) => secret.toLowerCase()));
+  if (unique.size !== secrets.length) return "Duplicate secret";
+  return secrets as Hex[];
+}
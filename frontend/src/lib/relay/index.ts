@@ -0,0 +1,581 @@
+import { randomBytes } from "crypto";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  NonceTooLowError,
+  TransactionReceiptNotFoundError,
+  createWalletClient,
+  http,
+  parseEventLogs,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { mantle } from "viem/chains";
+import { RoadGuardABI } from "@/lib/contracts/RoadGuardABI";
+import { MANTLE_RPC_URL, ROADGUARD_CONTRACT_ADDRESS, createMantlePublicClient } from "@/lib/chain";
+import { db } from "@/lib/db";
+import { checkReportAnchor, getReportDetailsStore, type ReportDetailsStore } from "@/lib/details";
+import { createLogger } from "@/lib/logger";
+import { createRelayAdmission, getRelayAdmissionConfig, type RelayAdmission } from "./admission";
+import { payoutJobId } from "./claim";
+import { estimateInclusion, getRelayMixConfig, shuffle, type RelayMixConfig } from "./mixing";
+import { createPostgresRelayJobStore } from "./postgres";
+import { createMemoryRelayJobStore, type Hex, type RelayJob, type RelayJobPayload, type RelayJobStore } from "./store";
+
+export * from "./store";
+export * from "./admission";
+export * from "./mixing";
+export * from "./claim";
+
+const log = createLogger("relay");
+
+export interface RelayReceipt {
+  status: "success" | "reverted";
+  blockNumber: bigint;
+  /** Report id from the ReportSubmitted log, if any */
+  reportId: number | null;
+  /** Amount from the RewardsClaimed log, if any */
+  claimedAmount: bigint | null;
+}
+
+/** What the queue needs from the relayer wallet; faked in tests */
+export interface RelayChain {
+  address: Hex;
+  getPendingNonce(): Promise<number>;
+  getGasPrice(): Promise<bigint>;
+  getBalance(): Promise<bigint>;
+  getPendingRewards(commitment: Hex): Promise<bigint>;
+  estimateGas(payload: RelayJobPayload): Promise<bigint>;
+  send(payload: RelayJobPayload, tx: { nonce: number; gasPrice: bigint }): Promise<Hex>;
+  /** Zero-value self transfer that burns a nonce nobody will use */
+  cancel(tx: { nonce: number; gasPrice: bigint }): Promise<Hex>;
+  getReceipt(hash: Hex): Promise<RelayReceipt | null>;
+  /** Calldata of a sent transaction */
+  getTransactionInput(hash: Hex): Promise<Hex>;
+}
+
+export interface RelayQueueConfig {
+  /** Broadcast failures before a job is given up */
+  maxAttempts: number;
+  /** First retry delay; doubles on every failure */
+  backoffBaseMs: number;
+  /** How often a broadcast job is checked for a receipt */
+  pollIntervalMs: number;
+  /** A tx without receipt after this long is replaced with a higher gas price */
+  stuckAfterMs: number;
+  gasBumpPercent: number;
+  maxGasPrice: bigint | null;
+  /** Jobs leased per worker pass */
+  batchSize: number;
+  leaseMs: number;
+  /** Broadcast each batch in random order (mixing mode) */
+  shuffle: boolean;
+}
+
+export interface RelayQueueRunResult {
+  processed: number;
+  submitted: number;
+  replaced: number;
+  confirmed: number;
+  failed: number;
+}
+
+/**
+ * Read queue settings from the environment
+ */
+export function getRelayQueueConfig(): RelayQueueConfig {
+  const gwei = process.env.RELAY_MAX_GAS_PRICE_GWEI;
+  return {
+    maxAttempts: parseInt(process.env.RELAY_MAX_ATTEMPTS || "5"),
+    backoffBaseMs: parseInt(process.env.RELAY_BACKOFF_BASE_MS || "5000"),
+    pollIntervalMs: parseInt(process.env.RELAY_POLL_INTERVAL_MS || "3000"),
+    stuckAfterMs: parseInt(process.env.RELAY_STUCK_AFTER_MS || "60000"),
+    gasBumpPercent: parseInt(process.env.RELAY_GAS_BUMP_PERCENT || "25"),
+    maxGasPrice: gwei ? BigInt(Math.round(parseFloat(gwei) * 1e9)) : null,
+    batchSize: parseInt(process.env.RELAY_WORKER_BATCH_SIZE || "10"),
+    leaseMs: 60_000,
+    shuffle: getRelayMixConfig().enabled,
+  };
+}
+
+let memoryStore: RelayJobStore | null = null;
+
+/**
+ * Postgres queue when DATABASE_URL is set; otherwise a per-process in-memory
+ * queue, which is only suitable for local development.
+ */
+export function getRelayJobStore(): RelayJobStore {
+  if (db) return createPostgresRelayJobStore(db);
+  memoryStore ??= createMemoryRelayJobStore();
+  return memoryStore;
+}
+
+let admission: RelayAdmission | null = null;
+
+/**
+ * Process-wide admission control for the relay endpoints. Rate-limit state
+ * lives for the lifetime of the server instance. Without RELAY_POW_SECRET,
+ * challenges are only valid on the instance that issued them.
+ */
+export function getRelayAdmission(): RelayAdmission {
+  admission ??= createRelayAdmission(getRelayAdmissionConfig(), {
+    powSecret: process.env.RELAY_POW_SECRET || randomBytes(32).toString("hex"),
+    store: getRelayJobStore,
+  });
+  return admission;
+}
+
+function submitReportCall(payload: Extract<RelayJobPayload, { kind: "submit_report" }>) {
+  return {
+    address: ROADGUARD_CONTRACT_ADDRESS,
+    abi: RoadGuardABI,
+    functionName: "submitReport",
+    args: [
+      payload.commitment,
+      BigInt(Math.round(payload.latitude * 1e8)),
+      BigInt(Math.round(payload.longitude * 1e8)),
+      payload.eventType,
+    ],
+    value: BigInt(payload.stake),
+    // Anchors the report details: ignored by the contract, committed to by the tx hash
+    dataSuffix: payload.details?.contentHash,
+  } as const;
+}
+
+function claimRewardsCall(payload: Extract<RelayJobPayload, { kind: "claim_rewards" }>, relayer: Hex) {
+  if (!payload.secret) throw new Error("Claim secret is no longer available");
+  return {
+    address: ROADGUARD_CONTRACT_ADDRESS,
+    abi: RoadGuardABI,
+    functionName: "claimRewards",
+    args: [payload.secret, relayer],
+  } as const;
+}
+
+/**
+ * viem-backed relayer wallet, or null if RELAYER_PRIVATE_KEY is not set
+ */
+export function getRelayChain(): RelayChain | null {
+  const relayerPrivateKey = process.env.RELAYER_PRIVATE_KEY;
+  if (!relayerPrivateKey) return null;
+
+  const account = privateKeyToAccount(relayerPrivateKey as Hex);
+  const publicClient = createMantlePublicClient();
+  const walletClient = createWalletClient({
+    account,
+    chain: mantle,
+    transport: http(MANTLE_RPC_URL),
+  });
+
+  return {
+    address: account.address,
+
+    getPendingNonce: () => publicClient.getTransactionCount({ address: account.address, blockTag: "pending" }),
+
+    getGasPrice: () => publicClient.getGasPrice(),
+
+    getBalance: () => publicClient.getBalance({ address: account.address }),
+
+    getPendingRewards: (commitment) =>
+      publicClient.readContract({
+        address: ROADGUARD_CONTRACT_ADDRESS,
+        abi: RoadGuardABI,
+        functionName: "getPendingRewards",
+        args: [commitment],
+      }),
+
+    estimateGas(payload) {
+      switch (payload.kind) {
+        case "submit_report":
+          return publicClient.estimateContractGas({ account, ...submitReportCall(payload) });
+        case "claim_rewards":
+          return publicClient.estimateContractGas({ account, ...claimRewardsCall(payload, account.address) });
+        case "payout":
+          return publicClient.estimateGas({ account, to: payload.recipient, value: BigInt(payload.amount) });
+      }
+    },
+
+    send(payload, { nonce, gasPrice }) {
+      switch (payload.kind) {
+        case "submit_report":
+          return walletClient.writeContract({ ...submitReportCall(payload), nonce, gasPrice });
+        case "claim_rewards":
+          // Rewards come to the relayer first; a payout job forwards them minus the fee
+          return walletClient.writeContract({ ...claimRewardsCall(payload, account.address), nonce, gasPrice });
+        case "payout":
+          return walletClient.sendTransaction({
+            to: payload.recipient,
+            value: BigInt(payload.amount),
+            nonce,
+            gasPrice,
+          });
+      }
+    },
+
+    cancel: ({ nonce, gasPrice }) =>
+      walletClient.sendTransaction({ to: account.address, value: BigInt(0), nonce, gasPrice }),
+
+    async getReceipt(hash) {
+      try {
+        const receipt = await publicClient.getTransactionReceipt({ hash });
+        const [submitted] = parseEventLogs({
+          abi: RoadGuardABI,
+          eventName: "ReportSubmitted",
+          logs: receipt.logs,
+        });
+        const [claimed] = parseEventLogs({
+          abi: RoadGuardABI,
+          eventName: "RewardsClaimed",
+          logs: receipt.logs,
+        });
+        return {
+          status: receipt.status,
+          blockNumber: receipt.blockNumber,
+          reportId: submitted ? Number(submitted.args.reportId) : null,
+          claimedAmount: claimed ? claimed.args.amount : null,
+        };
+      } catch (error) {
+        if (error instanceof TransactionReceiptNotFoundError) return null;
+        throw error;
+      }
+    },
+
+    getTransactionInput: async (hash) => (await publicClient.getTransaction({ hash })).input,
+  };
+}
+
+function isNonceTooLow(error: unknown): boolean {
+  if (error instanceof BaseError && error.walk((e) => e instanceof NonceTooLowError)) return true;
+  return error instanceof Error && /nonce too low|already known/i.test(error.message);
+}
+
+function isRevert(error: unknown): boolean {
+  if (
+    error instanceof BaseError &&
+    error.walk((e) => e instanceof ContractFunctionRevertedError || e instanceof ExecutionRevertedError)
+  ) {
+    return true;
+  }
+  return error instanceof Error && /execution reverted/i.test(error.message);
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+function bumpGasPrice(current: bigint, previous: bigint | null, config: RelayQueueConfig): bigint {
+  let price = current;
+  if (previous !== null) {
+    const bumped = (previous * BigInt(100 + config.gasBumpPercent)) / BigInt(100);
+    if (bumped > price) price = bumped;
+  }
+  if (config.maxGasPrice !== null && price > config.maxGasPrice) price = config.maxGasPrice;
+  return price;
+}
+
+/**
+ * One worker pass: lease due jobs, settle mined ones, broadcast new ones,
+ * replace stuck ones and back off on failures.
+ */
+export async function processRelayQueue(params: {
+  store: RelayJobStore;
+  chain: RelayChain;
+  /** Where report descriptions and photos go once their report is mined */
+  details?: ReportDetailsStore;
+  config?: Partial<RelayQueueConfig>;
+  now?: () => Date;
+}): Promise<RelayQueueRunResult> {
+  const { store, chain } = params;
+  const config = { ...getRelayQueueConfig(), ...params.config };
+  const now = params.now ?? (() => new Date());
+  const result: RelayQueueRunResult = { processed: 0, submitted: 0, replaced: 0, confirmed: 0, failed: 0 };
+
+  const later = (ms: number) => new Date(now().getTime() + ms);
+
+  // When mixing, the batch is a random pick of everything due, not the
+  // oldest jobs, and is broadcast in random order
+  const claimed = await store.claimDue(config.batchSize, config.leaseMs, now(), { random: config.shuffle });
+  const jobs = config.shuffle ? shuffle(claimed) : claimed;
+
+  for (const job of jobs) {
+    result.processed++;
+
+    // 1. Settle if any broadcast (original or replacement) was mined
+    let mined;
+    try {
+      mined = await findReceipt(chain, job);
+    } catch (error) {
+      await store.update(job.id, { lastError: errorMessage(error), nextAttemptAt: later(config.pollIntervalMs) });
+      continue;
+    }
+    if (mined) {
+      const { hash, receipt } = mined;
+      let success = receipt.status === "success";
+      let lastError = success ? null : "Transaction reverted";
+
+      // Details are saved before the job is marked confirmed; if saving
+      // fails, the receipt is found again on the next pass and it is retried
+      const details = job.payload.kind === "submit_report" ? job.payload.details : undefined;
+      if (success && details && receipt.reportId !== null && params.details) {
+        try {
+          const anchored = await checkReportAnchor(details.contentHash, hash, chain.getTransactionInput);
+          await params.details.save({ chainReportId: receipt.reportId, ...details, txHash: hash, anchored });
+        } catch (error) {
+          log.error("could not save report details", { jobId: job.id, reportId: receipt.reportId, error });
+          await store.update(job.id, { lastError: errorMessage(error), nextAttemptAt: later(config.pollIntervalMs) });
+          continue;
+        }
+      }
+
+      let claimed: bigint | undefined;
+      if (success && job.payload.kind === "claim_rewards") {
+        if (receipt.claimedAmount === null) {
+          success = false;
+          lastError = "Claim mined without a RewardsClaimed event";
+        } else {
+          claimed = receipt.claimedAmount;
+        }
+      }
+
+      await store.update(job.id, {
+        status: success ? "confirmed" : "failed",
+        // The mined hash goes last so it is the one reported to the client
+        txHashes: [...job.txHashes.filter((h) => h !== hash), hash],
+        blockNumber: receipt.blockNumber,
+        resultId: receipt.reportId,
+        lastError,
+        ...scrubPayload(job, claimed),
+      });
+
+      if (job.payload.kind === "claim_rewards") {
+        const payoutError = await settleClaimBatch(store, job.payload.batchId, now());
+        if (payoutError && success) {
+          await store.update(job.id, { status: "failed", lastError: payoutError });
+          success = false;
+        }
+      }
+      result[success ? "confirmed" : "failed"]++;
+      continue;
+    }
+
+    // 2. Broadcast and still within the patience window: check again later
+    const isReplacement = job.txHashes.length > 0;
+    if (isReplacement && job.submittedAt && now().getTime() - job.submittedAt.getTime() < config.stuckAfterMs) {
+      await store.update(job.id, { nextAttemptAt: later(config.pollIntervalMs) });
+      continue;
+    }
+
+    // 3. First broadcast, retry, or gas-bumped replacement on the same nonce
+    let nonce = job.nonce;
+    try {
+      // Simulate first. A call that reverts (coordinates out of range, a
+      // slashed commitment) would revert on every retry, holding its nonce
+      // and every job behind it, so it fails now without taking a nonce.
+      if (!isReplacement) {
+        const revert = await simulateRevert(chain, job.payload);
+        if (revert !== null) {
+          if (nonce !== null) await cancelNonce(chain, nonce);
+          await store.update(job.id, {
+            status: "failed",
+            nonce: null,
+            attempts: job.attempts + 1,
+            lastError: revert,
+            ...scrubPayload(job),
+          });
+          if (job.payload.kind === "claim_rewards") await settleClaimBatch(store, job.payload.batchId, now());
+          result.failed++;
+          continue;
+        }
+      }
+
+      if (nonce === null) {
+        nonce = await store.allocateNonce(chain.address, await chain.getPendingNonce());
+        // Persist before sending so a crash can't leak the nonce
+        await store.update(job.id, { nonce }, { keepLease: true });
+      }
+
+      const gasPrice = bumpGasPrice(await chain.getGasPrice(), job.gasPrice, config);
+      if (isReplacement && job.gasPrice !== null && gasPrice <= job.gasPrice) {
+        // Gas price cap reached; keep waiting on the existing broadcast
+        await store.update(job.id, { nextAttemptAt: later(config.pollIntervalMs) });
+        continue;
+      }
+
+      const hash = await chain.send(job.payload, { nonce, gasPrice });
+      await store.update(job.id, {
+        status: "submitted",
+        nonce,
+        gasPrice,
+        txHashes: [...job.txHashes, hash],
+        submittedAt: now(),
+        lastError: null,
+        nextAttemptAt: later(config.pollIntervalMs),
+      });
+      result[isReplacement ? "replaced" : "submitted"]++;
+    } catch (error) {
+      const message = errorMessage(error);
+
+      if (isNonceTooLow(error)) {
+        // Either one of our broadcasts for this nonce is being mined, or the
+        // nonce went to a tx outside the queue. Re-check receipts next pass;
+        // with nothing broadcast yet, give the nonce up and take a fresh one.
+        await store.update(job.id, {
+          nonce: isReplacement ? nonce : null,
+          lastError: message,
+          nextAttemptAt: later(config.pollIntervalMs),
+        });
+        continue;
+      }
+
+      const attempts = job.attempts + 1;
+
+      // A broadcast may still be in the mempool, so never give up on it
+      if (attempts >= config.maxAttempts && !isReplacement) {
+        if (nonce !== null) await cancelNonce(chain, nonce);
+        await store.update(job.id, { status: "failed", nonce: null, attempts, lastError: message, ...scrubPayload(job) });
+        if (job.payload.kind === "claim_rewards") await settleClaimBatch(store, job.payload.batchId, now());
+        result.failed++;
+        continue;
+      }
+
+      await store.update(job.id, {
+        attempts,
+        lastError: message,
+        nextAttemptAt: later(config.backoffBaseMs * 2 ** (attempts - 1)),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Queue the payout once every claim in a batch has settled: the sum of what
+ * was claimed, minus the batch fee. The payout id is derived from the batch,
+ * so settling twice (or from two workers) never pays out twice. Returns an
+ * error when the claimed total does not cover the fee.
+ */
+async function settleClaimBatch(store: RelayJobStore, batchId: string, now: Date): Promise<string | null> {
+  const claims = await store.listClaimBatch(batchId);
+  const first = claims[0]?.payload;
+  if (!first || first.kind !== "claim_rewards") return null;
+  if (claims.length < first.batchSize || claims.some((job) => job.status !== "confirmed" && job.status !== "failed")) {
+    return null;
+  }
+
+  let claimed = BigInt(0);
+  for (const job of claims) {
+    if (job.status === "confirmed" && job.payload.kind === "claim_rewards" && job.payload.claimed) {
+      claimed += BigInt(job.payload.claimed);
+    }
+  }
+  if (claimed === BigInt(0)) return null;
+
+  const amount = claimed - BigInt(first.fee);
+  if (amount <= BigInt(0)) {
+    log.error("claim batch does not cover the fee", { batchId });
+    return "Claimed amount does not cover the relayer fee";
+  }
+
+  await store.enqueue({ kind: "payout", batchId, recipient: first.recipient, amount: amount.toString() }, now, payoutJobId(batchId));
+  return null;
+}
+
+/**
+ * Settled claims no longer need the secret, so it is not kept at rest. The
+ * claimed amount is kept for the batch payout.
+ */
+function scrubPayload(job: RelayJob, claimed?: bigint): { payload?: RelayJobPayload } {
+  if (job.payload.kind !== "claim_rewards") return {};
+  const { secret: _secret, ...payload } = job.payload;
+  return { payload: claimed === undefined ? payload : { ...payload, claimed: claimed.toString() } };
+}
+
+async function findReceipt(
+  chain: RelayChain,
+  job: RelayJob
+): Promise<{ hash: Hex; receipt: RelayReceipt } | null> {
+  for (const hash of [...job.txHashes].reverse()) {
+    const receipt = await chain.getReceipt(hash);
+    if (receipt) return { hash, receipt };
+  }
+  return null;
+}
+
+/**
+ * Why the job's call would revert, or null if it goes through. Other
+ * failures (the RPC being down) are thrown, to be retried.
+ */
+async function simulateRevert(chain: RelayChain, payload: RelayJobPayload): Promise<string | null> {
+  try {
+    await chain.estimateGas(payload);
+    return null;
+  } catch (error) {
+    if (isRevert(error)) return errorMessage(error);
+    throw error;
+  }
+}
+
+async function cancelNonce(chain: RelayChain, nonce: number) {
+  try {
+    await chain.cancel({ nonce, gasPrice: await chain.getGasPrice() });
+  } catch (error) {
+    // Already used (e.g. by a replacement) - nothing left to fill
+    if (!isNonceTooLow(error)) {
+      log.error("could not cancel nonce", { nonce, error });
+    }
+  }
+}
+
+/**
+ * Run one worker pass with the configured store and relayer wallet.
+ * Returns null when the relayer is not configured.
+ */
+export async function runRelayWorker(): Promise<RelayQueueRunResult | null> {
+  const chain = getRelayChain();
+  if (!chain) return null;
+  return processRelayQueue({ store: getRelayJobStore(), chain, details: getReportDetailsStore() });
+}
+
+/** Least time between worker passes started by status polls, per instance */
+const RELAY_NUDGE_INTERVAL_MS = 10_000;
+
+let lastNudgeAt = 0;
+let nudging: Promise<RelayQueueRunResult | null> | null = null;
+
+/**
+ * A worker pass on behalf of a status poll, unless one is running or one
+ * started within RELAY_NUDGE_INTERVAL_MS. Clients poll every few seconds,
+ * so without this every open tab would add its own passes; the cron pass
+ * keeps the queue moving regardless.
+ */
+export function nudgeRelayWorker(now = Date.now()): Promise<RelayQueueRunResult | null> | null {
+  if (nudging || now - lastNudgeAt < RELAY_NUDGE_INTERVAL_MS) return null;
+  lastNudgeAt = now;
+  nudging = runRelayWorker().finally(() => {
+    nudging = null;
+  });
+  return nudging;
+}
+
+/** Public view of a job for the status endpoint (never includes the payload) */
+export function serializeRelayJob(job: RelayJob, mix: RelayMixConfig = getRelayMixConfig()) {
+  return {
+    id: job.id,
+    kind: job.payload.kind,
+    status: job.status,
+    txHash: job.txHashes.length > 0 ? job.txHashes[job.txHashes.length - 1] : null,
+    blockNumber: job.blockNumber?.toString() ?? null,
+    reportId: job.resultId,
+    /** Confirmed claims continue as one payout job per batch to the recipient */
+    payoutJobId:
+      job.payload.kind === "claim_rewards" && job.status === "confirmed" ? payoutJobId(job.payload.batchId) : null,
+    attempts: job.attempts,
+    error: job.status === "failed" ? job.lastError : null,
+    expectedInclusionAt:
+      job.status === "queued" ? estimateInclusion(mix, job.nextAttemptAt).toISOString() : null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
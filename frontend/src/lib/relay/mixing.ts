@@ -0,0 +1,66 @@
+import { randomInt } from "crypto";
+
+// Optional mixing mode for the relay queue. Instead of broadcasting as soon as
+// a request arrives, jobs are held until the end of the current time window
+// plus a random delay, and each worker batch is broadcast in shuffled order.
+// This breaks the timing link between a user's HTTPS request and the
+// relayer's transaction.
+
+export interface RelayMixConfig {
+  enabled: boolean;
+  /** Reports arriving in the same window are released together */
+  windowMs: number;
+  /** Extra random delay (0..jitterMs) added per job after the window closes */
+  jitterMs: number;
+  /**
+   * How long after release a job may wait for a worker pass. With mixing on,
+   * only the cron worker broadcasts, so this is its schedule in vercel.json.
+   */
+  workerIntervalMs: number;
+}
+
+/**
+ * Read mixing settings from the environment (RELAY_MIX_MODE=window enables it)
+ */
+export function getRelayMixConfig(): RelayMixConfig {
+  return {
+    enabled: process.env.RELAY_MIX_MODE === "window",
+    windowMs: parseInt(process.env.RELAY_MIX_WINDOW_SECONDS || "120") * 1000,
+    jitterMs: parseInt(process.env.RELAY_MIX_JITTER_SECONDS || "60") * 1000,
+    workerIntervalMs: 60_000,
+  };
+}
+
+/**
+ * When a newly queued job may first be broadcast
+ */
+export function scheduleRelayJob(
+  config: RelayMixConfig,
+  now: Date = new Date(),
+  random: (max: number) => number = randomInt
+): Date {
+  if (!config.enabled || config.windowMs <= 0) return now;
+  const windowEnd = Math.ceil((now.getTime() + 1) / config.windowMs) * config.windowMs;
+  const jitter = config.jitterMs > 0 ? random(config.jitterMs + 1) : 0;
+  return new Date(windowEnd + jitter);
+}
+
+/**
+ * Latest time the job's transaction is expected on-chain, for the client
+ */
+export function estimateInclusion(config: RelayMixConfig, runAt: Date): Date {
+  if (!config.enabled) return runAt;
+  return new Date(runAt.getTime() + config.workerIntervalMs);
+}
+
+/**
+ * Fisher-Yates shuffle with a CSPRNG, so the order can't be predicted
+ */
+export function shuffle<T>(items: T[], random: (max: number) => number = randomInt): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = random(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import { and, asc, eq, gte, lte, ne, sql } from "drizzle-orm";
+import type { db as database } from "@/lib/db";
+import { relayJobs, relayNonces, relayPowChallenges } from "@/lib/schema";
+import type { Hex, RelayJob, RelayJobPayload, RelayJobStatus, RelayJobStore } from "./store";
+
+type Database = NonNullable<typeof database>;
+type RelayJobRow = typeof relayJobs.$inferSelect;
+
+function toJob(row: RelayJobRow): RelayJob {
+  return {
+    id: row.id,
+    payload: row.payload as RelayJobPayload,
+    status: row.status as RelayJobStatus,
+    nonce: row.nonce,
+    gasPrice: row.gasPrice === null ? null : BigInt(row.gasPrice),
+    txHashes: row.txHashes as Hex[],
+    attempts: row.attempts,
+    lastError: row.lastError,
+    blockNumber: row.blockNumber,
+    resultId: row.resultId,
+    nextAttemptAt: row.nextAttemptAt,
+    submittedAt: row.submittedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Postgres-backed relay queue. No operation needs an interactive transaction
+ * (the spend cap check runs inside a function, see schema.sql), so it works
+ * over neon-http.
+ */
+export function createPostgresRelayJobStore(db: Database): RelayJobStore {
+  const get = async (id: string) => {
+    const rows = await db.select().from(relayJobs).where(eq(relayJobs.id, id)).limit(1);
+    return rows.length > 0 ? toJob(rows[0]) : null;
+  };
+
+  return {
+    async enqueue(payload, runAt, id) {
+      const [row] = await db
+        .insert(relayJobs)
+        .values({ id: id ?? randomUUID(), payload, nextAttemptAt: runAt ?? new Date() })
+        .onConflictDoNothing({ target: relayJobs.id })
+        .returning();
+      if (row) return toJob(row);
+
+      const existing = id ? await get(id) : null;
+      if (!existing) throw new Error(`Relay job ${id} could not be enqueued`);
+      return existing;
+    },
+
+    get,
+
+    async claimDue(limit, leaseMs, now = new Date(), options) {
+      const leaseUntil = new Date(now.getTime() + leaseMs);
+      const rows = await db
+        .update(relayJobs)
+        .set({ lockedUntil: leaseUntil })
+        .where(
+          sql`${relayJobs.id} IN (
+            SELECT ${relayJobs.id} FROM ${relayJobs}
+            WHERE ${relayJobs.status} IN ('queued', 'submitted')
+              AND ${relayJobs.nextAttemptAt} <= ${now}
+              AND (${relayJobs.lockedUntil} IS NULL OR ${relayJobs.lockedUntil} <= ${now})
+            ORDER BY ${options?.random ? sql`random()` : relayJobs.createdAt}
+            LIMIT ${limit}
+            FOR UPDATE SKIP LOCKED
+          )`
+        )
+        .returning();
+      return rows.map(toJob);
+    },
+
+    async update(id, changes, options) {
+      const { gasPrice, ...rest } = changes;
+      const [row] = await db
+        .update(relayJobs)
+        .set({
+          ...rest,
+          ...(gasPrice !== undefined ? { gasPrice: gasPrice === null ? null : gasPrice.toString() } : {}),
+          ...(options?.keepLease ? {} : { lockedUntil: null }),
+          updatedAt: new Date(),
+        })
+        .where(eq(relayJobs.id, id))
+        .returning();
+      if (!row) throw new Error(`Relay job ${id} not found`);
+      return toJob(row);
+    },
+
+    async allocateNonce(address, chainPendingNonce) {
+      const [row] = await db
+        .insert(relayNonces)
+        .values({ address: address.toLowerCase(), nextNonce: chainPendingNonce + 1 })
+        .onConflictDoUpdate({
+          target: relayNonces.address,
+          set: {
+            nextNonce: sql`GREATEST(${relayNonces.nextNonce}, ${chainPendingNonce}) + 1`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ nextNonce: relayNonces.nextNonce });
+      return row.nextNonce - 1;
+    },
+
+    async listSpendSince(since) {
+      const rows = await db
+        .select({ createdAt: relayJobs.createdAt, stake: sql<string>`${relayJobs.payload}->>'stake'` })
+        .from(relayJobs)
+        .where(
+          and(
+            gte(relayJobs.createdAt, since),
+            ne(relayJobs.status, "failed"),
+            sql`${relayJobs.payload}->>'kind' = 'submit_report'`
+          )
+        )
+        .orderBy(asc(relayJobs.createdAt));
+      return rows.map((row) => ({ createdAt: row.createdAt, stake: BigInt(row.stake ?? 0) }));
+    },
+
+    async enqueueWithinSpendCap(payload, runAt, { capWei, since }) {
+      const result = await db.execute(
+        sql`SELECT relay_enqueue_within_spend_cap(
+          ${randomUUID()},
+          ${JSON.stringify(payload)}::jsonb,
+          ${(runAt ?? new Date()).toISOString()}::timestamptz,
+          ${since.toISOString()}::timestamptz,
+          ${capWei.toString()}::numeric
+        ) AS id`
+      );
+      const id = (result.rows[0] as { id: string | null } | undefined)?.id;
+      return id ? get(id) : null;
+    },
+
+    async claimPowChallenge(challenge, expiresAt, now = new Date()) {
+      await db.delete(relayPowChallenges).where(lte(relayPowChallenges.expiresAt, now));
+      const inserted = await db
+        .insert(relayPowChallenges)
+        .values({ challenge, expiresAt })
+        .onConflictDoNothing()
+        .returning({ challenge: relayPowChallenges.challenge });
+      return inserted.length > 0;
+    },
+
+    async listClaimBatch(batchId) {
+      const rows = await db
+        .select()
+        .from(relayJobs)
+        .where(
+          and(
+            sql`${relayJobs.payload}->>'kind' = 'claim_rewards'`,
+            sql`${relayJobs.payload}->>'batchId' = ${batchId}`
+          )
+        );
+      return rows.map(toJob);
+    },
+  };
+}
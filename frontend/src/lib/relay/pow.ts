@@ -0,0 +1,59 @@
+import { sha256, stringToBytes } from "viem";
+
+// Hashcash-style puzzle for POST /api/relay/report. Shared by the server
+// (verification) and the browser (solving), so it must not import Node APIs.
+//
+// A solution is a decimal counter such that
+//   sha256(`${challenge}:${commitment}:${solution}`)
+// starts with `difficulty` zero bits. Binding the commitment stops one solved
+// challenge from being spent on several identities.
+
+export interface PowSolution {
+  challenge: string;
+  solution: string;
+}
+
+function leadingZeroBits(hash: `0x${string}`): number {
+  let bits = 0;
+  for (let i = 2; i < hash.length; i++) {
+    const nibble = parseInt(hash[i], 16);
+    if (nibble === 0) {
+      bits += 4;
+      continue;
+    }
+    return bits + Math.clz32(nibble) - 28;
+  }
+  return bits;
+}
+
+export function checkPowSolution(
+  challenge: string,
+  commitment: string,
+  solution: string,
+  difficulty: number
+): boolean {
+  if (!/^\d{1,16}$/.test(solution)) return false;
+  const hash = sha256(stringToBytes(`${challenge}:${commitment.toLowerCase()}:${solution}`));
+  return leadingZeroBits(hash) >= difficulty;
+}
+
+/**
+ * Brute-force a solution. Yields to the event loop every `chunk` hashes so the
+ * UI stays responsive while solving.
+ */
+export async function solvePow(
+  challenge: string,
+  commitment: string,
+  difficulty: number,
+  options: { chunk?: number; signal?: AbortSignal } = {}
+): Promise<string> {
+  const chunk = options.chunk ?? 2000;
+  for (let counter = 0; ; counter++) {
+    if (counter % chunk === 0 && counter > 0) {
+      if (options.signal?.aborted) throw new Error("Proof of work aborted");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    const solution = counter.toString();
+    if (checkPowSolution(challenge, commitment, solution, difficulty)) return solution;
+  }
+}
@@ -0,0 +1,242 @@
+import { shuffle } from "./mixing";
+
+// Persistence contract for the relay job queue. The Postgres implementation
+// lives in ./postgres; the in-memory one below is used in tests and when no
+// DATABASE_URL is configured (single-instance dev only).
+
+export type Hex = `0x${string}`;
+
+export type RelayJobStatus = "queued" | "submitted" | "confirmed" | "failed";
+
+export interface SubmitReportPayload {
+  commitment: Hex;
+  latitude: number;
+  longitude: number;
+  eventType: number;
+  stake: string; // wei, as decimal string
+  /** Description, photos and comment key, saved under the report id once mined (see lib/details) */
+  details?: { description: string; photos: string[]; commentKey?: Hex; contentHash: Hex };
+}
+
+export interface ClaimRewardsPayload {
+  commitment: Hex;
+  /** Dropped from the stored payload once the claim settles */
+  secret?: Hex;
+  /** Fresh address that receives the rewards minus the fee */
+  recipient: Hex;
+  /** Fee for the whole batch the user agreed to, in wei, kept by the relayer */
+  fee: string;
+  /** Claims requested together share one payout */
+  batchId: string;
+  batchSize: number;
+  /** Wei from the RewardsClaimed event, set once mined */
+  claimed?: string;
+}
+
+export interface PayoutPayload {
+  /** Claim batch this payout forwards */
+  batchId: string;
+  recipient: Hex;
+  amount: string; // wei, as decimal string
+}
+
+export type RelayJobPayload =
+  | ({ kind: "submit_report" } & SubmitReportPayload)
+  | ({ kind: "claim_rewards" } & ClaimRewardsPayload)
+  | ({ kind: "payout" } & PayoutPayload);
+
+export interface RelayJob {
+  id: string;
+  payload: RelayJobPayload;
+  status: RelayJobStatus;
+  /** Nonce held by this job once first broadcast; kept until the job settles */
+  nonce: number | null;
+  /** Legacy gas price of the latest broadcast, in wei */
+  gasPrice: bigint | null;
+  /** Every hash broadcast for this nonce, oldest first (replacements append) */
+  txHashes: Hex[];
+  attempts: number;
+  lastError: string | null;
+  blockNumber: bigint | null;
+  /** Report id parsed from the ReportSubmitted log once mined */
+  resultId: number | null;
+  nextAttemptAt: Date;
+  submittedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RelayJobUpdate = Partial<
+  Pick<
+    RelayJob,
+    | "payload"
+    | "status"
+    | "nonce"
+    | "gasPrice"
+    | "txHashes"
+    | "attempts"
+    | "lastError"
+    | "blockNumber"
+    | "resultId"
+    | "nextAttemptAt"
+    | "submittedAt"
+  >
+>;
+
+export interface RelaySpend {
+  createdAt: Date;
+  stake: bigint;
+}
+
+export interface RelayJobStore {
+  /**
+   * Add a job. With an explicit `id` this is idempotent: an existing job with
+   * that id is returned unchanged.
+   */
+  enqueue(payload: RelayJobPayload, runAt?: Date, id?: string): Promise<RelayJob>;
+  get(id: string): Promise<RelayJob | null>;
+  /**
+   * Lease up to `limit` due queued/submitted jobs for `leaseMs`, so concurrent
+   * workers never process the same job. Oldest first, or with `random` a
+   * random pick among all due jobs (mixing mode).
+   */
+  claimDue(limit: number, leaseMs: number, now?: Date, options?: { random?: boolean }): Promise<RelayJob[]>;
+  /** Persist changes and release the lease (unless keepLease is set) */
+  update(id: string, changes: RelayJobUpdate, options?: { keepLease?: boolean }): Promise<RelayJob>;
+  /**
+   * Hand out the next nonce for `address`, never below the chain's pending
+   * nonce (so transactions sent outside the queue are skipped over)
+   */
+  allocateNonce(address: Hex, chainPendingNonce: number): Promise<number>;
+  /** Stakes of report jobs created since `since` that have not failed, oldest first */
+  listSpendSince(since: Date): Promise<RelaySpend[]>;
+  /**
+   * Enqueue a report job only if its stake, added to the spend since `since`
+   * (as listSpendSince counts it), stays within `capWei`. Checking and
+   * inserting is one atomic step, so concurrent calls can't overshoot the
+   * cap. Returns null when the job doesn't fit.
+   */
+  enqueueWithinSpendCap(
+    payload: Extract<RelayJobPayload, { kind: "submit_report" }>,
+    runAt: Date | undefined,
+    cap: { capWei: bigint; since: Date }
+  ): Promise<RelayJob | null>;
+  /**
+   * Mark a solved proof-of-work challenge as used until it expires. Returns
+   * false if it was already used (replay).
+   */
+  claimPowChallenge(challenge: string, expiresAt: Date, now?: Date): Promise<boolean>;
+  /** Claim jobs of one batch */
+  listClaimBatch(batchId: string): Promise<RelayJob[]>;
+}
+
+export function createMemoryRelayJobStore(): RelayJobStore {
+  const jobs = new Map<string, RelayJob>();
+  const leases = new Map<string, number>();
+  const nonces = new Map<string, number>();
+  const powChallenges = new Map<string, number>();
+  let sequence = 0;
+
+  const copy = (job: RelayJob): RelayJob => ({ ...job, payload: { ...job.payload }, txHashes: [...job.txHashes] });
+
+  const spendSince = (since: Date) => {
+    const spends: RelaySpend[] = [];
+    for (const job of jobs.values()) {
+      if (job.payload.kind !== "submit_report" || job.createdAt < since || job.status === "failed") continue;
+      spends.push({ createdAt: job.createdAt, stake: BigInt(job.payload.stake) });
+    }
+    return spends.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  };
+
+  // Synchronous, so a check made just before it can't be raced
+  const insert = (payload: RelayJobPayload, runAt?: Date, id?: string) => {
+    const existing = id ? jobs.get(id) : undefined;
+    if (existing) return copy(existing);
+
+    const now = new Date();
+    const job: RelayJob = {
+      id: id ?? `job-${Date.now().toString(36)}-${(++sequence).toString(36)}`,
+      payload: { ...payload },
+      status: "queued",
+      nonce: null,
+      gasPrice: null,
+      txHashes: [],
+      attempts: 0,
+      lastError: null,
+      blockNumber: null,
+      resultId: null,
+      nextAttemptAt: runAt ?? now,
+      submittedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    jobs.set(job.id, job);
+    return copy(job);
+  };
+
+  return {
+    async enqueue(payload, runAt, id) {
+      return insert(payload, runAt, id);
+    },
+
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? copy(job) : null;
+    },
+
+    async claimDue(limit, leaseMs, now = new Date(), options) {
+      const eligible = Array.from(jobs.values()).filter(
+        (job) =>
+          (job.status === "queued" || job.status === "submitted") &&
+          job.nextAttemptAt <= now &&
+          (leases.get(job.id) ?? 0) <= now.getTime()
+      );
+      const due = (
+        options?.random ? shuffle(eligible) : eligible.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      ).slice(0, limit);
+
+      for (const job of due) leases.set(job.id, now.getTime() + leaseMs);
+      return due.map(copy);
+    },
+
+    async update(id, changes, options) {
+      const job = jobs.get(id);
+      if (!job) throw new Error(`Relay job ${id} not found`);
+      Object.assign(job, changes, { updatedAt: new Date() });
+      if (!options?.keepLease) leases.delete(id);
+      return copy(job);
+    },
+
+    async allocateNonce(address, chainPendingNonce) {
+      const key = address.toLowerCase();
+      const nonce = Math.max(nonces.get(key) ?? 0, chainPendingNonce);
+      nonces.set(key, nonce + 1);
+      return nonce;
+    },
+
+    async listSpendSince(since) {
+      return spendSince(since);
+    },
+
+    async enqueueWithinSpendCap(payload, runAt, { capWei, since }) {
+      const spent = spendSince(since).reduce((sum, spend) => sum + spend.stake, BigInt(0));
+      if (spent + BigInt(payload.stake) > capWei) return null;
+      return insert(payload, runAt);
+    },
+
+    async claimPowChallenge(challenge, expiresAt, now = new Date()) {
+      for (const [key, expiry] of powChallenges) {
+        if (expiry <= now.getTime()) powChallenges.delete(key);
+      }
+      if (powChallenges.has(challenge)) return false;
+      powChallenges.set(challenge, expiresAt.getTime());
+      return true;
+    },
+
+    async listClaimBatch(batchId) {
+      return Array.from(jobs.values())
+        .filter((job) => job.payload.kind === "claim_rewards" && job.payload.batchId === batchId)
+        .map(copy);
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import { sql, eq, gte, lte, type SQL } from "drizzle-orm";
+import type { Bounds } from "@/lib/corridor";
+import { reportsCache } from "@/lib/schema";
+
+// Shared by the routes that read reports out of reports_cache
+// (GET /api/reports, its export, and POST /api/reports/corridor)
+
+export interface ReportFilters {
+  /** 0=active, 1=confirmed, 2=expired, 3=slashed; active and confirmed when null */
+  status: number | null;
+  /** 0-5, any when null */
+  eventType: number | null;
+}
+
+/**
+ * Parse `status` and `eventType` as sent in query strings or bodies. Empty
+ * or missing values mean no filter.
+ */
+export function parseReportFilters(input: { status?: unknown; eventType?: unknown }): ReportFilters {
+  const parse = (value: unknown) =>
+    value === null || value === undefined || value === "" ? null : parseInt(String(value));
+  return { status: parse(input.status), eventType: parse(input.eventType) };
+}
+
+/**
+ * Conditions for the filters. Reports that expired more than a day ago are
+ * left out unless `includeExpired`, for listings that ask for history.
+ */
+export function reportConditions(filters: ReportFilters, { includeExpired = false } = {}): SQL[] {
+  const conditions: SQL[] = [];
+  if (!includeExpired) {
+    // Include reports expired within last 24 hours for demo
+    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    conditions.push(gte(reportsCache.expiresAt, oneDayAgo));
+  }
+
+  if (filters.status !== null) {
+    conditions.push(eq(reportsCache.status, filters.status));
+  } else {
+    // Default to active and confirmed reports only
+    conditions.push(sql`${reportsCache.status} IN (0, 1)`);
+  }
+
+  if (filters.eventType !== null) {
+    conditions.push(eq(reportsCache.eventType, filters.eventType));
+  }
+
+  return conditions;
+}
+
+/** The query string of GET /api/reports and GET /api/reports/export */
+export interface ReportQuery extends ReportFilters {
+  /** The `bbox`, or the box around `lat`/`lng` and `radius` */
+  bounds: Bounds;
+  /** Reports created in this range, open-ended where null */
+  since: Date | null;
+  until: Date | null;
+}
+
+const DEFAULT_REPORT_RADIUS_KM = 10;
+
+/** Unix seconds, as the API returns times, or an ISO 8601 date */
+function parseTime(value: string | null): Date | null | undefined {
+  if (value === null || value === "") return null;
+  const time = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return isNaN(time.getTime()) ? undefined : time;
+}
+
+/**
+ * Parse the area, filters and time range of a report listing, or return
+ * why they're invalid. The area is `bbox` (minLng,minLat,maxLng,maxLat, as
+ * GIS tools write it) when given, else `radius` km around `lat`/`lng`.
+ */
+export function parseReportQuery(params: URLSearchParams): ReportQuery | string {
+  let bounds: Bounds;
+  const bbox = params.get("bbox");
+  if (bbox !== null) {
+    const numbers = bbox.split(",").map((part) => (part.trim() ? Number(part) : NaN));
+    const [minLng, minLat, maxLng, maxLat] = numbers;
+    const valid =
+      numbers.length === 4 &&
+      numbers.every(Number.isFinite) &&
+      minLat >= -90 &&
+      maxLat <= 90 &&
+      minLng >= -180 &&
+      maxLng <= 180 &&
+      minLat <= maxLat &&
+      minLng <= maxLng;
+    if (!valid) return "bbox must be minLng,minLat,maxLng,maxLat";
+    bounds = { minLat, maxLat, minLng, maxLng };
+  } else {
+    const lat = parseFloat(params.get("lat") || "0");
+    const lng = parseFloat(params.get("lng") || "0");
+    const radius = parseFloat(params.get("radius") || String(DEFAULT_REPORT_RADIUS_KM));
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || !(radius > 0)) {
+      return "lat and lng must be coordinates and radius a distance in km";
+    }
+
+    // Convert radius to approximate degree offset
+    // 1 degree latitude ≈ 111 km
+    // 1 degree longitude varies by latitude, but we'll approximate
+    const latDelta = radius / 111;
+    const lngDelta = radius / (111 * Math.cos((lat * Math.PI) / 180));
+    bounds = { minLat: lat - latDelta, maxLat: lat + latDelta, minLng: lng - lngDelta, maxLng: lng + lngDelta };
+  }
+
+  const filters = parseReportFilters({ status: params.get("status"), eventType: params.get("eventType") });
+  if (filters.status !== null && !(filters.status >= 0 && filters.status <= 3)) {
+    return "status must be between 0 and 3";
+  }
+  if (filters.eventType !== null && !(filters.eventType >= 0 && filters.eventType <= 5)) {
+    return "eventType must be between 0 and 5";
+  }
+
+  const since = parseTime(params.get("since"));
+  const until = parseTime(params.get("until"));
+  if (since === undefined || until === undefined) {
+    return "since and until must be Unix seconds or ISO 8601 dates";
+  }
+  if (since && until && since > until) {
+    return "since must be before until";
+  }
+
+  return { ...filters, bounds, since, until };
+}
+
+/**
+ * reportConditions, plus the area and time range of a listing. A time range
+ * or an explicit status asks for history, so long-expired reports are kept.
+ */
+export function reportQueryConditions(query: ReportQuery): SQL[] {
+  const { bounds } = query;
+  const includeExpired = query.status !== null || query.since !== null || query.until !== null;
+  const conditions = [
+    gte(reportsCache.locationLat, bounds.minLat.toFixed(8)),
+    lte(reportsCache.locationLat, bounds.maxLat.toFixed(8)),
+    gte(reportsCache.locationLng, bounds.minLng.toFixed(8)),
+    lte(reportsCache.locationLng, bounds.maxLng.toFixed(8)),
+    ...reportConditions(query, { includeExpired }),
+  ];
+  if (query.since) conditions.push(gte(reportsCache.createdAt, query.since));
+  if (query.until) conditions.push(lte(reportsCache.createdAt, query.until));
+  return conditions;
+}
+
+export const reportColumns = {
+  id: reportsCache.chainReportId,
+  lat: reportsCache.locationLat,
+  lng: reportsCache.locationLng,
+  eventType: reportsCache.eventType,
+  status: reportsCache.status,
+  confirmationCount: reportsCache.confirmationCount,
+  totalRegards: reportsCache.totalRegards,
+  stakeAmount: reportsCache.stakeAmount,
+  commitment: reportsCache.reporterCommitment,
+  txHash: reportsCache.txHash,
+  timestamp: reportsCache.createdAt,
+  expiresAt: reportsCache.expiresAt,
+};
+
+type ReportRow = { [K in keyof typeof reportColumns]: (typeof reportColumns)[K]["_"]["data"] };
+
+/**
+ * A cached report as the API returns it: numbers for coordinates and stake,
+ * seconds for times
+ */
+export function toApiReport(r: ReportRow) {
+  return {
+    id: r.id,
+    lat: parseFloat(r.lat),
+    lng: parseFloat(r.lng),
+    eventType: r.eventType,
+    status: r.status,
+    confirmationCount: r.confirmationCount,
+    totalRegards: r.totalRegards,
+    stakeAmount: parseFloat(r.stakeAmount),
+    commitment: r.commitment,
+    txHash: r.txHash,
+    timestamp: Math.floor(new Date(r.timestamp).getTime() / 1000),
+    expiresAt: Math.floor(new Date(r.expiresAt).getTime() / 1000),
+  };
+}
+
+export type ApiReport = ReturnType<typeof toApiReport>;
@@ -0,0 +1,205 @@
+// Route risk scoring for the route planner. Each hazard on a route is
+// weighted by how severe its event type is, how many people confirmed it,
+// how much of its lifetime is left and how close it is to the route; a
+// route's score is the sum. The recommendation trades risk against travel
+// time. Pure functions only, so the same inputs always give the same answer.
+
+import { DEFAULT_CORRIDOR_BUFFER_M } from "@/lib/corridor";
+import type { EventType } from "@/lib/event-types";
+
+/** How much each event type weighs at full strength */
+export const HAZARD_SEVERITY: Record<EventType, number> = {
+  ACCIDENT: 1,
+  ROAD_CLOSURE: 0.9,
+  HAZARD: 0.7,
+  PROTEST: 0.6,
+  POLICE_ACTIVITY: 0.4,
+  TRAFFIC_JAM: 0.3,
+};
+
+const HAZARD_NOUNS: Record<EventType, [string, string]> = {
+  ACCIDENT: ["accident", "accidents"],
+  ROAD_CLOSURE: ["road closure", "road closures"],
+  HAZARD: ["road hazard", "road hazards"],
+  PROTEST: ["protest", "protests"],
+  POLICE_ACTIVITY: ["police report", "police reports"],
+  TRAFFIC_JAM: ["traffic jam", "traffic jams"],
+};
+
+/** Confirmations at which a report counts as confirmed (as on the map) */
+export const CONFIRMED_AT = 3;
+/** Seconds of extra travel one point of risk is worth avoiding */
+export const DEFAULT_SECONDS_PER_RISK = 300;
+
+export type RiskLevel = "none" | "low" | "medium" | "high";
+
+export interface ScorableHazard {
+  eventType: EventType;
+  confirmationCount: number;
+  /** Milliseconds since the epoch */
+  reportedAt: number;
+  /** Milliseconds since the epoch */
+  expiresAt: number;
+  /** Meters along the route */
+  distanceFromStart: number;
+  /** Meters off the route; treated as on it when unknown */
+  distanceFromRoute?: number;
+}
+
+export interface ScorableRoute {
+  /** Travel time in seconds */
+  durationValue: number;
+  hazards: ScorableHazard[];
+}
+
+export interface RiskOptions {
+  /** Milliseconds since the epoch */
+  now: number;
+  /** Corridor width the hazards were matched with, in meters */
+  buffer?: number;
+  secondsPerRisk?: number;
+}
+
+export interface RouteRisk {
+  index: number;
+  /** Sum of hazard weights, to two decimals */
+  score: number;
+  level: RiskLevel;
+  /** What weighs most on the route, e.g. "2 confirmed accidents in the first 3 km" */
+  explanation: string;
+}
+
+export interface RouteRecommendation {
+  index: number;
+  explanation: string;
+  risks: RouteRisk[];
+}
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+const isConfirmed = (hazard: ScorableHazard) => hazard.confirmationCount >= CONFIRMED_AT;
+
+/**
+ * One hazard's weight: severity scaled by confirmations (unconfirmed reports
+ * count 60%), remaining lifetime (expired ones 10%, otherwise 30-100%) and
+ * distance (30% at the edge of the corridor)
+ */
+export function scoreHazard(hazard: ScorableHazard, options: RiskOptions): number {
+  const buffer = options.buffer ?? DEFAULT_CORRIDOR_BUFFER_M;
+
+  const confirmation = 0.6 + 0.4 * clamp(hazard.confirmationCount / CONFIRMED_AT);
+
+  const lifetime = hazard.expiresAt - hazard.reportedAt;
+  const freshness =
+    options.now >= hazard.expiresAt
+      ? 0.1
+      : 0.3 + 0.7 * (lifetime > 0 ? clamp((hazard.expiresAt - options.now) / lifetime) : 1);
+
+  const proximity = 1 - 0.7 * clamp((hazard.distanceFromRoute ?? 0) / buffer);
+
+  return HAZARD_SEVERITY[hazard.eventType] * confirmation * freshness * proximity;
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score === 0) return "none";
+  if (score < 1) return "low";
+  if (score < 3) return "medium";
+  return "high";
+}
+
+function plural(count: number, [one, many]: [string, string]) {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * The hazards that weigh most, by type and whether they're confirmed,
+ * with how far into the route they reach
+ */
+function describeHazards(hazards: ScorableHazard[], weights: number[]): string {
+  if (hazards.length === 0) return "no reported hazards";
+
+  const groups = new Map<string, { hazard: ScorableHazard; count: number; weight: number; reach: number }>();
+  hazards.forEach((hazard, i) => {
+    const key = `${hazard.eventType}:${isConfirmed(hazard)}`;
+    const group = groups.get(key) ?? { hazard, count: 0, weight: 0, reach: 0 };
+    group.count++;
+    group.weight += weights[i];
+    group.reach = Math.max(group.reach, hazard.distanceFromStart);
+    groups.set(key, group);
+  });
+
+  const top = [...groups.values()].sort((a, b) => b.weight - a.weight)[0];
+  const km = Math.max(1, Math.ceil(top.reach / 1000));
+  let text = `${plural(top.count, HAZARD_NOUNS[top.hazard.eventType])} in the first ${km} km`;
+  if (isConfirmed(top.hazard)) text = text.replace(/^(\d+) /, "$1 confirmed ");
+
+  const rest = hazards.length - top.count;
+  if (rest > 0) text += `, plus ${plural(rest, ["other hazard", "other hazards"])}`;
+  return text;
+}
+
+export function scoreRoute(route: ScorableRoute, index: number, options: RiskOptions): RouteRisk {
+  const weights = route.hazards.map((hazard) => scoreHazard(hazard, options));
+  const score = Math.round(weights.reduce((sum, weight) => sum + weight, 0) * 100) / 100;
+  return { index, score, level: riskLevel(score), explanation: describeHazards(route.hazards, weights) };
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function minutes(seconds: number) {
+  const value = Math.max(1, Math.round(seconds / 60));
+  return `${value} more ${value === 1 ? "minute" : "minutes"}`;
+}
+
+function points(difference: number, comparison: "more" | "fewer") {
+  const value = Math.round(difference * 100) / 100;
+  return `${value} ${comparison} risk ${value === 1 ? "point" : "points"}`;
+}
+
+/**
+ * Score every route and pick one: the lowest risk, unless a faster route's
+ * extra risk is worth less than the time it saves (`secondsPerRisk` seconds
+ * per point). Ties go to the faster route, then the less risky one, then
+ * the first. Null without routes.
+ */
+export function recommendRoute(routes: ScorableRoute[], options: RiskOptions): RouteRecommendation | null {
+  if (routes.length === 0) return null;
+
+  const secondsPerRisk = options.secondsPerRisk ?? DEFAULT_SECONDS_PER_RISK;
+  const risks = routes.map((route, index) => scoreRoute(route, index, options));
+  // Compared on each cost in turn, so ties fall to the next one, then to the first route
+  const byFewest = (...costs: ((i: number) => number)[]) =>
+    risks.reduce((best, { index }) => {
+      for (const cost of costs) {
+        const difference = cost(index) - cost(best);
+        if (difference !== 0) return difference < 0 ? index : best;
+      }
+      return best;
+    }, 0);
+  const duration = (i: number) => routes[i].durationValue;
+  const score = (i: number) => risks[i].score;
+
+  const index = byFewest((i) => score(i) * secondsPerRisk + duration(i), duration);
+  const safest = byFewest(score, duration);
+  const fastest = byFewest(duration, score);
+  const risk = risks[index];
+
+  let explanation: string;
+  if (routes.length === 1) {
+    explanation = `${capitalize(risk.explanation)}.`;
+  } else if (index === safest && index === fastest) {
+    explanation =
+      risk.score === 0 ? "No reported hazards, and the fastest route." : `Lowest risk and fastest: ${risk.explanation}.`;
+  } else if (index === safest) {
+    explanation =
+      `Route ${fastest + 1} is faster but has ${points(risks[fastest].score - risk.score, "more")}. ` +
+      `This one takes ${minutes(routes[index].durationValue - routes[fastest].durationValue)}.`;
+  } else {
+    explanation =
+      `Route ${safest + 1} has ${points(risk.score - risks[safest].score, "fewer")} but takes ` +
+      `${minutes(routes[safest].durationValue - routes[index].durationValue)}. ` +
+      `This one has ${risk.explanation}.`;
+  }
+
+  return { index, explanation, risks };
+}
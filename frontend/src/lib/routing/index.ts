@@ -0,0 +1,85 @@
+import type { LatLng } from "@/lib/corridor";
+
+// Driving directions for the route planner, independent of the map that
+// draws them. Google Directions is one implementation (it needs the Maps
+// SDK, so it lives with the Google map provider); any OSRM-compatible
+// server is another (./osrm), which is what self-hosted deployments and
+// tests run against.
+
+export interface PlannedRoute {
+  /** Main roads taken, when the router names them */
+  summary: string;
+  /** Meters */
+  distance: number;
+  /** Seconds */
+  duration: number;
+  /** Seconds, when the router knows current traffic */
+  durationInTraffic?: number;
+  path: LatLng[];
+  /** The path as an encoded polyline, for POST /api/reports/corridor */
+  polyline: string;
+  polylinePrecision: 5 | 6;
+  warnings: string[];
+}
+
+export interface RoutePlan {
+  startAddress: string;
+  endAddress: string;
+  start: LatLng;
+  end: LatLng;
+  routes: PlannedRoute[];
+}
+
+export interface RouteOptions {
+  alternatives?: boolean;
+}
+
+export interface RoutingProvider {
+  /** Routes between two places, given as addresses or "lat,lng" */
+  route(origin: string, destination: string, options?: RouteOptions): Promise<RoutePlan>;
+}
+
+/**
+ * "19.4326, -99.1332" as a point, or null when the text isn't a coordinate
+ * pair
+ */
+export function parseLatLng(text: string): LatLng | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/** "850 m", "12.3 km", "148 km" */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  const km = meters / 1000;
+  return `${km < 100 ? km.toFixed(1) : Math.round(km)} km`;
+}
+
+/** "1 min", "25 mins", "1 hour 5 mins", "2 hours" */
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.max(1, Math.round(seconds / 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours} ${hours === 1 ? "hour" : "hours"}`);
+  if (minutes > 0) parts.push(`${minutes} ${minutes === 1 ? "min" : "mins"}`);
+  return parts.join(" ");
+}
+
+/**
+ * Up to three points at quarter intervals along the path, so a navigation
+ * app handed the route follows the same roads
+ */
+export function routeWaypoints(path: LatLng[]): LatLng[] {
+  const step = Math.floor(path.length / 4);
+  if (step === 0) return [];
+  const waypoints: LatLng[] = [];
+  for (let i = step; i < path.length && waypoints.length < 3; i += step) {
+    waypoints.push({ lat: path[i].lat, lng: path[i].lng });
+  }
+  return waypoints;
+}
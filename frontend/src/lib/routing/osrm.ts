@@ -0,0 +1,102 @@
+import { decodePolyline, type LatLng } from "@/lib/corridor";
+import { parseLatLng, type RoutePlan, type RoutingProvider } from ".";
+
+// Routing against an OSRM-compatible server: the public demo server, a
+// self-hosted osrm-backend, or anything else that answers the same
+// /route/v1 requests (a local stand-in in the tests).
+
+/** OSRM's public demo server: driving only, and not meant for heavy use */
+export const DEFAULT_OSRM_URL = "https://router.project-osrm.org";
+
+export interface GeocodedPlace extends LatLng {
+  address: string;
+}
+
+export interface OsrmRoutingOptions {
+  /** Server base URL, without the /route/v1 path */
+  url?: string;
+  /** Routing profile the server was built with (default "driving") */
+  profile?: string;
+  /** Resolves addresses; "lat,lng" origins and destinations are used as given */
+  geocode?: (query: string) => Promise<GeocodedPlace | null>;
+  fetch?: typeof fetch;
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    geometry: string;
+    distance: number;
+    duration: number;
+    legs?: { summary?: string }[];
+  }[];
+  waypoints?: { name?: string; location: [number, number] }[];
+}
+
+export function createOsrmRouting(options: OsrmRoutingOptions = {}): RoutingProvider {
+  const baseUrl = (options.url || DEFAULT_OSRM_URL).replace(/\/+$/, "");
+  const profile = options.profile || "driving";
+  const request = options.fetch ?? ((input, init) => fetch(input, init));
+
+  const locate = async (text: string): Promise<GeocodedPlace> => {
+    const point = parseLatLng(text);
+    if (point) return { ...point, address: text.trim() };
+
+    const place = options.geocode ? await options.geocode(text) : null;
+    if (!place) throw new Error(`Directions request failed: couldn't find "${text}"`);
+    return place;
+  };
+
+  return {
+    async route(origin, destination, { alternatives = true } = {}): Promise<RoutePlan> {
+      const [start, end] = await Promise.all([locate(origin), locate(destination)]);
+
+      // OSRM takes coordinates as lng,lat
+      const coordinates = `${start.lng},${start.lat};${end.lng},${end.lat}`;
+      const params = new URLSearchParams({
+        alternatives: String(alternatives),
+        overview: "full",
+        geometries: "polyline6",
+      });
+
+      const res = await request(`${baseUrl}/route/v1/${profile}/${coordinates}?${params}`);
+      let data: OsrmResponse;
+      try {
+        data = await res.json();
+      } catch {
+        throw new Error(`Directions request failed: HTTP ${res.status}`);
+      }
+      if (data.code !== "Ok" || !data.routes?.length) {
+        throw new Error(`Directions request failed: ${data.message || data.code || `HTTP ${res.status}`}`);
+      }
+
+      // Where the router snapped the endpoints to the road network
+      const snapped = (index: number, fallback: LatLng): LatLng => {
+        const location = data.waypoints?.[index]?.location;
+        return location ? { lat: location[1], lng: location[0] } : { lat: fallback.lat, lng: fallback.lng };
+      };
+
+      return {
+        startAddress: start.address,
+        endAddress: end.address,
+        start: snapped(0, start),
+        end: snapped(1, end),
+        routes: data.routes.map((route) => {
+          const path = decodePolyline(route.geometry, 6);
+          if (!path) throw new Error("Directions request failed: invalid route geometry");
+
+          return {
+            summary: (route.legs ?? []).map((leg) => leg.summary).filter(Boolean).join(", "),
+            distance: route.distance,
+            duration: route.duration,
+            path,
+            polyline: route.geometry,
+            polylinePrecision: 6,
+            warnings: [],
+          };
+        }),
+      };
+    },
+  };
+}
@@ -1,14 +1,23 @@
 import {
   pgTable,
+  primaryKey,
   serial,
   bigint,
+  boolean,
   decimal,
   smallint,
   timestamp,
   integer,
   index,
+  jsonb,
+  text,
+  unique,
+  uniqueIndex,
   varchar,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type { UploadedPhoto } from "@/lib/media/store";
 
 /**
  * Reports cache table - indexed from on-chain events for fast geo-queries
@@ -28,10 +37,19 @@ export const reportsCache = pgTable(
     expiresAt: timestamp("expires_at").notNull(),
     totalRegards: decimal("total_regards", { precision: 36, scale: 18 }).default("0").notNull(),
     confirmationCount: integer("confirmation_count").default(0).notNull(),
+    stakeAmount: decimal("stake_amount", { precision: 36, scale: 18 }).default("0").notNull(),
     txHash: varchar("tx_hash", { length: 66 }).notNull(),
+    blockNumber: bigint("block_number", { mode: "bigint" }).default(BigInt(0)).notNull(),
+    statusBlock: bigint("status_block", { mode: "bigint" }), // block of the ReportExpired/ReportSlashed event
+    // Precision-9 geohash of the location, computed by the database (see lib/corridor)
+    geohash: varchar("geohash", { length: 12 }).generatedAlwaysAs(
+      sql`geohash_encode(location_lat::DOUBLE PRECISION, location_lng::DOUBLE PRECISION, 9)`
+    ),
+    updatedAt: timestamp("updated_at").defaultNow(),
   },
   (table) => ({
     geoIdx: index("idx_reports_geo").on(table.locationLat, table.locationLng),
+    geohashIdx: index("idx_reports_geohash").on(table.geohash),
     timeIdx: index("idx_reports_time").on(table.createdAt),
     statusIdx: index("idx_reports_status").on(table.status),
   })
@@ -39,3 +57,320 @@ export const reportsCache = pgTable(
 
 export type Report = typeof reportsCache.$inferSelect;
 export type NewReport = typeof reportsCache.$inferInsert;
+
+/**
+ * Confirmations table - one row per ReportConfirmed event
+ */
+export const confirmations = pgTable(
+  "confirmations",
+  {
+    id: serial("id").primaryKey(),
+    chainReportId: bigint("chain_report_id", { mode: "number" })
+      .notNull()
+      .references(() => reportsCache.chainReportId),
+    confirmerAddress: varchar("confirmer_address", { length: 42 }).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }).notNull(),
+    blockNumber: bigint("block_number", { mode: "bigint" }).notNull(),
+    logIndex: integer("log_index").notNull(),
+    /** The report was CONFIRMED on-chain at the end of this block */
+    reportConfirmed: boolean("report_confirmed").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    reportIdx: index("idx_confirmations_report").on(table.chainReportId),
+    confirmerUnique: unique("confirmations_chain_report_id_confirmer_address_key").on(
+      table.chainReportId,
+      table.confirmerAddress
+    ),
+  })
+);
+
+/**
+ * Regards (tips) table - one row per RegardsSent event
+ */
+export const regards = pgTable(
+  "regards",
+  {
+    id: serial("id").primaryKey(),
+    chainReportId: bigint("chain_report_id", { mode: "number" })
+      .notNull()
+      .references(() => reportsCache.chainReportId),
+    senderAddress: varchar("sender_address", { length: 42 }).notNull(),
+    amount: decimal("amount", { precision: 36, scale: 18 }).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }).notNull(),
+    blockNumber: bigint("block_number", { mode: "bigint" }).notNull(),
+    logIndex: integer("log_index").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    reportIdx: index("idx_regards_report").on(table.chainReportId),
+    senderIdx: index("idx_regards_sender").on(table.senderAddress),
+    logIdx: uniqueIndex("uq_regards_log").on(table.txHash, table.logIndex),
+  })
+);
+
+/**
+ * Reward claims table - one row per RewardsClaimed event
+ */
+export const rewardClaims = pgTable(
+  "reward_claims",
+  {
+    id: serial("id").primaryKey(),
+    commitment: varchar("commitment", { length: 66 }).notNull(),
+    recipientAddress: varchar("recipient_address", { length: 42 }).notNull(),
+    amount: decimal("amount", { precision: 36, scale: 18 }).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }).notNull(),
+    blockNumber: bigint("block_number", { mode: "bigint" }).notNull(),
+    logIndex: integer("log_index").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    commitmentIdx: index("idx_reward_claims_commitment").on(table.commitment),
+    logIdx: uniqueIndex("uq_reward_claims_log").on(table.txHash, table.logIndex),
+  })
+);
+
+/**
+ * Confirmations and regards for reports the indexer has no row for yet,
+ * applied once the report row is written
+ */
+export const indexerPendingEvents = pgTable(
+  "indexer_pending_events",
+  {
+    kind: varchar("kind", { length: 16 }).$type<"confirmation" | "regards">().notNull(),
+    chainReportId: bigint("chain_report_id", { mode: "number" }).notNull(),
+    /** Confirmer or regards sender */
+    address: varchar("address", { length: 42 }).notNull(),
+    amount: decimal("amount", { precision: 36, scale: 18 }),
+    reportConfirmed: boolean("report_confirmed").default(false).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }).notNull(),
+    blockNumber: bigint("block_number", { mode: "bigint" }).notNull(),
+    logIndex: integer("log_index").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.txHash, table.logIndex] }),
+    reportIdx: index("idx_indexer_pending_events_report").on(table.chainReportId),
+    blockIdx: index("idx_indexer_pending_events_block").on(table.blockNumber),
+  })
+);
+
+/**
+ * Indexer checkpoint - last fully processed block per indexer
+ */
+export const indexerState = pgTable("indexer_state", {
+  name: varchar("name", { length: 64 }).primaryKey(),
+  lastBlock: bigint("last_block", { mode: "bigint" }).notNull(),
+  lastBlockHash: varchar("last_block_hash", { length: 66 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Confirmation = typeof confirmations.$inferSelect;
+export type Regard = typeof regards.$inferSelect;
+export type RewardClaim = typeof rewardClaims.$inferSelect;
+
+/**
+ * Nonces seen by the signed ingestion API (replay protection)
+ */
+export const ingestNonces = pgTable(
+  "ingest_nonces",
+  {
+    nonce: varchar("nonce", { length: 128 }).primaryKey(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    createdIdx: index("idx_ingest_nonces_created").on(table.createdAt),
+  })
+);
+
+/**
+ * Solved relay proof-of-work challenges, kept until they expire (replay protection)
+ */
+export const relayPowChallenges = pgTable(
+  "relay_pow_challenges",
+  {
+    challenge: varchar("challenge", { length: 128 }).primaryKey(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => ({
+    expiresIdx: index("idx_relay_pow_challenges_expires").on(table.expiresAt),
+  })
+);
+
+/**
+ * Relay job queue - reports waiting to be broadcast by the relayer wallet
+ */
+export const relayJobs = pgTable(
+  "relay_jobs",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status", { length: 16 }).default("queued").notNull(), // queued | submitted | confirmed | failed
+    nonce: integer("nonce"),
+    gasPrice: decimal("gas_price", { precision: 78, scale: 0 }),
+    txHashes: jsonb("tx_hashes").$type<string[]>().default([]).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    lastError: text("last_error"),
+    blockNumber: bigint("block_number", { mode: "bigint" }),
+    resultId: bigint("result_id", { mode: "number" }),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lockedUntil: timestamp("locked_until"),
+    submittedAt: timestamp("submitted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    dueIdx: index("idx_relay_jobs_due").on(table.status, table.nextAttemptAt),
+  })
+);
+
+/**
+ * Next nonce per relayer address
+ */
+export const relayNonces = pgTable("relay_nonces", {
+  address: varchar("address", { length: 42 }).primaryKey(),
+  nextNonce: integer("next_nonce").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Report descriptions and photos, keyed by chain report id. Written by the
+ * relayer once the report is mined; contentHash is anchored in the calldata
+ * of txHash.
+ */
+export const reportDetails = pgTable("report_details", {
+  chainReportId: bigint("chain_report_id", { mode: "number" }).primaryKey(),
+  description: text("description").default("").notNull(),
+  photos: jsonb("photos").$type<string[]>().default([]).notNull(),
+  commentKey: varchar("comment_key", { length: 42 }),
+  contentHash: varchar("content_hash", { length: 66 }).notNull(),
+  txHash: varchar("tx_hash", { length: 66 }).notNull(),
+  anchored: boolean("anchored"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Variants and blurhash of each photo uploaded through /api/upload, keyed by
+ * the URL reports refer to
+ */
+export const uploadedPhotos = pgTable("uploaded_photos", {
+  url: text("url").primaryKey(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  blurhash: varchar("blurhash", { length: 64 }).notNull(),
+  variants: jsonb("variants").$type<UploadedPhoto["variants"]>().notNull(),
+  redaction: jsonb("redaction").$type<NonNullable<UploadedPhoto["redaction"]>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Comments on reports, keyed by the report id the client sent
+ */
+export const comments = pgTable(
+  "comments",
+  {
+    id: varchar("id", { length: 32 }).primaryKey(),
+    reportId: varchar("report_id", { length: 78 }).notNull(),
+    author: varchar("author", { length: 64 }).notNull(),
+    text: text("text").notNull(),
+    signedBy: varchar("signed_by", { length: 16 }), // wallet | reporter; null for anonymous
+    signature: varchar("signature", { length: 132 }),
+    reactor: varchar("reactor", { length: 80 }), // author's reactor key, for bans
+    status: varchar("status", { length: 16 }).default("visible").notNull(), // visible | hidden | approved
+    parentId: varchar("parent_id", { length: 32 }).references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+    rootId: varchar("root_id", { length: 32 }), // top-level comment of the thread
+    depth: integer("depth").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    // Pages are read newest first per report
+    reportIdx: index("idx_comments_report").on(table.reportId, table.createdAt, table.id),
+    // A signature is good for one comment
+    signatureIdx: uniqueIndex("uq_comments_signature").on(table.signature),
+    // Replies are read by thread
+    rootIdx: index("idx_comments_root").on(table.rootId),
+  })
+);
+
+/**
+ * Reactions on comments - one row per reactor and reaction, counted when
+ * comments are read
+ */
+export const commentReactions = pgTable(
+  "comment_reactions",
+  {
+    id: serial("id").primaryKey(),
+    commentId: varchar("comment_id", { length: 32 })
+      .notNull()
+      .references(() => comments.id, { onDelete: "cascade" }),
+    reaction: varchar("reaction", { length: 16 }).notNull(), // helpful | thankyou
+    // device:<sha256 of token> | wallet:<address>; null on rows from before reactors were tracked
+    reactor: varchar("reactor", { length: 80 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    commentIdx: index("idx_comment_reactions_comment").on(table.commentId),
+    // One reaction of each kind per reactor
+    reactorIdx: uniqueIndex("uq_comment_reactions_reactor").on(table.commentId, table.reaction, table.reactor),
+  })
+);
+
+/**
+ * Flags on comments - one per reactor per comment
+ */
+export const commentFlags = pgTable(
+  "comment_flags",
+  {
+    id: serial("id").primaryKey(),
+    commentId: varchar("comment_id", { length: 32 })
+      .notNull()
+      .references(() => comments.id, { onDelete: "cascade" }),
+    reactor: varchar("reactor", { length: 80 }).notNull(),
+    reason: varchar("reason", { length: 16 }).notNull(),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    reactorIdx: uniqueIndex("uq_comment_flags_reactor").on(table.commentId, table.reactor),
+  })
+);
+
+/**
+ * Live comment events (see lib/comments/events), read by every server
+ * instance's stream poller and pruned after a few minutes
+ */
+export const commentEvents = pgTable(
+  "comment_events",
+  {
+    id: serial("id").primaryKey(),
+    reportId: varchar("report_id", { length: 78 }).notNull(),
+    event: jsonb("event").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    createdIdx: index("idx_comment_events_created").on(table.createdAt),
+  })
+);
+
+/**
+ * Reactor keys banned by moderators
+ */
+export const moderationBans = pgTable("moderation_bans", {
+  reactor: varchar("reactor", { length: 80 }).primaryKey(),
+  reason: text("reason"),
+  moderator: varchar("moderator", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Moderation audit log - append only
+ */
+export const moderationLog = pgTable("moderation_log", {
+  id: serial("id").primaryKey(),
+  action: varchar("action", { length: 16 }).notNull(), // approve | delete | ban | auto_hide
+  moderator: varchar("moderator", { length: 64 }).notNull(),
+  commentId: varchar("comment_id", { length: 32 }),
+  reportId: varchar("report_id", { length: 78 }),
+  reactor: varchar("reactor", { length: 80 }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import { createLogger } from "@/lib/logger";
+import type { BlobStore, StorageDriver } from "./store";
+
+const log = createLogger("storage");
+
+// Content-addressed storage: each object is named by its CID, so the same
+// photo uploaded twice is stored once, and whoever fetches it can check the
+// bytes against the name. CIDs are version 1, raw codec, sha2-256, base32 —
+// what `ipfs add --cid-version=1 --raw-leaves` prints for a file that fits in
+// one block (256 KiB). Larger files get the same kind of CID here, but IPFS
+// would chunk them into a DAG with a different root, so publish them with a
+// matching chunk size (`--chunker=size-5242880`) if a gateway is to serve them.
+
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/** Objects live under ipfs/<cid>, mirroring gateway paths */
+export const CID_KEY_PREFIX = "ipfs/";
+
+function base32(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+/**
+ * CIDv1 (raw, sha2-256) of some bytes, multibase base32 ("b…")
+ */
+export function computeCid(bytes: Uint8Array): string {
+  const digest = createHash("sha256").update(bytes).digest();
+  return `b${base32(Buffer.concat([Buffer.from([CID_VERSION, RAW_CODEC, SHA2_256, SHA2_256_LENGTH]), digest]))}`;
+}
+
+export function isCid(value: string): boolean {
+  // 36 bytes of prefix and digest are 58 base32 characters
+  return /^bafkrei[a-z2-7]{52}$/.test(value);
+}
+
+/**
+ * Driver naming objects by CID, on top of any blob store. With a gateway,
+ * URLs point there (`<gateway>/ipfs/<cid>`) instead of at the blob store.
+ */
+export function createCidStorageDriver(blobs: BlobStore, options: { gateway?: string | null } = {}): StorageDriver {
+  const gateway = options.gateway?.replace(/\/+$/, "");
+  const url = (key: string) => (gateway ? `${gateway}/${key}` : blobs.url(key));
+
+  return {
+    name: "cid",
+    urlPrefix: url(CID_KEY_PREFIX),
+
+    async save({ body, contentType }) {
+      const key = `${CID_KEY_PREFIX}${computeCid(body)}`;
+      // Same bytes, same key: nothing to write if it is already there
+      if (!(await blobs.get(key))) await blobs.put(key, { body, contentType });
+      return { key, url: url(key) };
+    },
+
+    async read(key) {
+      const cid = key.slice(CID_KEY_PREFIX.length);
+      if (!key.startsWith(CID_KEY_PREFIX) || !isCid(cid)) return null;
+      const object = await blobs.get(key);
+      // Never serve bytes that don't match their name
+      if (object && computeCid(object.body) !== cid) {
+        log.warn("stored object does not match its CID", { key });
+        return null;
+      }
+      return object;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { createCidStorageDriver } from "./cid";
+import { createLocalBlobStore } from "./local";
+import { createS3BlobStore, type S3StorageConfig } from "./s3";
+import { createKeyedStorageDriver, type BlobStore, type StorageDriver, type StorageDriverName } from "./store";
+
+export * from "./store";
+export { CID_KEY_PREFIX, computeCid, createCidStorageDriver, isCid } from "./cid";
+export { createLocalBlobStore } from "./local";
+export { createS3BlobStore, type S3StorageConfig } from "./s3";
+
+/** Route serving objects of the local blob store */
+export const MEDIA_URL_PREFIX = "/api/media/";
+
+const DRIVER_NAMES: StorageDriverName[] = ["s3", "local", "cid"];
+
+export interface StorageConfig {
+  /** null when nothing is configured */
+  driver: StorageDriverName | null;
+  /** Directory of the local blob store */
+  localDir: string;
+  /** Where the cid driver keeps its objects */
+  cidBackend: "local" | "s3";
+  /** IPFS gateway the cid driver links to, if the objects are published there */
+  cidGateway: string | null;
+  /** null unless all DO_SPACES_* variables are set */
+  s3: S3StorageConfig | null;
+}
+
+/**
+ * Read storage settings from the environment. Without STORAGE_DRIVER, Spaces
+ * is used when configured, and local disk otherwise, except in production
+ * where uploads stay disabled rather than land on an ephemeral disk.
+ */
+export function getStorageConfig(): StorageConfig {
+  const { DO_SPACES_KEY, DO_SPACES_SECRET, DO_SPACES_BUCKET, DO_SPACES_ENDPOINT, STORAGE_DRIVER } = process.env;
+  const s3 =
+    DO_SPACES_KEY && DO_SPACES_SECRET && DO_SPACES_BUCKET && DO_SPACES_ENDPOINT
+      ? {
+          endpoint: DO_SPACES_ENDPOINT,
+          bucket: DO_SPACES_BUCKET,
+          accessKeyId: DO_SPACES_KEY,
+          secretAccessKey: DO_SPACES_SECRET,
+        }
+      : null;
+
+  if (STORAGE_DRIVER && !DRIVER_NAMES.includes(STORAGE_DRIVER as StorageDriverName)) {
+    throw new Error(`Unknown STORAGE_DRIVER: ${STORAGE_DRIVER}`);
+  }
+  const driver =
+    (STORAGE_DRIVER as StorageDriverName | undefined) ||
+    (s3 ? "s3" : process.env.NODE_ENV === "production" ? null : "local");
+
+  return {
+    driver,
+    localDir: process.env.STORAGE_LOCAL_DIR || ".data/uploads",
+    cidBackend: process.env.STORAGE_CID_BACKEND === "s3" ? "s3" : "local",
+    cidGateway: process.env.STORAGE_CID_GATEWAY || null,
+    s3,
+  };
+}
+
+/**
+ * The configured driver, or null when its backend is not configured
+ */
+export function createStorageDriver(config: StorageConfig): StorageDriver | null {
+  const local = () => createLocalBlobStore(config.localDir, MEDIA_URL_PREFIX);
+  const s3 = () => (config.s3 ? createS3BlobStore(config.s3) : null);
+
+  switch (config.driver) {
+    case "s3": {
+      const blobs = s3();
+      return blobs && createKeyedStorageDriver("s3", blobs);
+    }
+    case "local":
+      return createKeyedStorageDriver("local", local());
+    case "cid": {
+      const blobs: BlobStore | null = config.cidBackend === "s3" ? s3() : local();
+      return blobs && createCidStorageDriver(blobs, { gateway: config.cidGateway });
+    }
+    default:
+      return null;
+  }
+}
+
+export function getStorageDriver(): StorageDriver | null {
+  return createStorageDriver(getStorageConfig());
+}
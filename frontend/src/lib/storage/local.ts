@@ -0,0 +1,48 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, resolve, sep } from "path";
+import { randomUUID } from "crypto";
+import { sniffImageType } from "@/lib/media/types";
+import { isValidObjectKey, type BlobStore } from "./store";
+
+/**
+ * Files under a directory on this machine, served back through /api/media.
+ * Only images are stored, so the content type is read from the bytes.
+ */
+export function createLocalBlobStore(dir: string, urlPrefix: string): BlobStore {
+  const root = resolve(dir);
+
+  const pathFor = (key: string) => {
+    const path = resolve(root, key);
+    return isValidObjectKey(key) && path.startsWith(root + sep) ? path : null;
+  };
+
+  return {
+    urlPrefix,
+
+    async put(key, { body }) {
+      const path = pathFor(key);
+      if (!path) throw new Error(`Invalid storage key: ${key}`);
+      await mkdir(dirname(path), { recursive: true });
+      // Write then rename, so a reader never sees half a file
+      const partial = `${path}.${randomUUID()}.partial`;
+      await writeFile(partial, body);
+      await rename(partial, path);
+    },
+
+    async get(key) {
+      const path = pathFor(key);
+      if (!path) return null;
+      let body: Buffer;
+      try {
+        body = await readFile(path);
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === "ENOENT" || code === "EISDIR") return null;
+        throw error;
+      }
+      return { body, contentType: sniffImageType(body) ?? "application/octet-stream" };
+    },
+
+    url: (key) => `${urlPrefix}${key}`,
+  };
+}
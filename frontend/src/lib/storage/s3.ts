@@ -0,0 +1,49 @@
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import type { BlobStore } from "./store";
+
+export interface S3StorageConfig {
+  /** Host without scheme, e.g. nyc3.digitaloceanspaces.com */
+  endpoint: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Public-read objects in an S3-compatible bucket (DigitalOcean Spaces by
+ * default). They are served by the bucket itself, so get() always misses.
+ */
+export function createS3BlobStore(config: S3StorageConfig): BlobStore {
+  const client = new S3Client({
+    endpoint: `https://${config.endpoint}`,
+    region: "us-east-1", // DigitalOcean Spaces uses us-east-1
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+    forcePathStyle: false,
+  });
+  const urlPrefix = `https://${config.bucket}.${config.endpoint}/`;
+
+  return {
+    urlPrefix,
+
+    async put(key, { body, contentType }) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          ACL: "public-read",
+        })
+      );
+    },
+
+    async get() {
+      return null;
+    },
+
+    url: (key) => `${urlPrefix}${key}`,
+  };
+}
@@ -0,0 +1,102 @@
+import { randomUUID } from "crypto";
+
+// Storage contract for uploaded photos. A blob store only moves bytes by key;
+// a driver decides how objects are named and where they are served. The S3,
+// local-disk and content-addressed drivers live next to this file and are
+// chosen by STORAGE_DRIVER in ./index. The in-memory blob store below is used
+// in tests.
+
+export type StorageDriverName = "s3" | "local" | "cid";
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface SavedObject {
+  key: string;
+  /** Public URL, absolute or relative to this app */
+  url: string;
+}
+
+export interface BlobStore {
+  /** Every URL returned by url() starts with this */
+  readonly urlPrefix: string;
+  put(key: string, object: StoredObject): Promise<void>;
+  /** null when the key is absent, or when the store is served from elsewhere */
+  get(key: string): Promise<StoredObject | null>;
+  url(key: string): string;
+}
+
+export interface NewObject extends StoredObject {
+  extension: string;
+  /** A variant of an object saved earlier; named after it where keys allow */
+  variantOf?: { key: string; variant: string };
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  /** Every URL returned by save() starts with this */
+  readonly urlPrefix: string;
+  save(object: NewObject): Promise<SavedObject>;
+  /** An object to serve through /api/media, or null */
+  read(key: string): Promise<StoredObject | null>;
+}
+
+/** Keys of uploads named by time and a random suffix */
+export const UPLOAD_KEY_PREFIX = "roadguard/";
+
+export function uniqueObjectKey(extension: string): string {
+  return `${UPLOAD_KEY_PREFIX}${Date.now()}-${randomUUID().slice(0, 8)}.${extension}`;
+}
+
+/**
+ * Slash-separated segments of letters, digits, `.`, `_` and `-`, none
+ * starting with a dot, so a key can never climb out of its directory
+ */
+export function isValidObjectKey(key: string): boolean {
+  return key.length <= 200 && /^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/.test(key);
+}
+
+/**
+ * Driver that stores each upload under a fresh uniqueObjectKey()
+ */
+export function createKeyedStorageDriver(name: StorageDriverName, blobs: BlobStore): StorageDriver {
+  return {
+    name,
+    urlPrefix: blobs.url(UPLOAD_KEY_PREFIX),
+
+    async save({ body, contentType, extension, variantOf }) {
+      // roadguard/<time>-<random>.jpg, then roadguard/<time>-<random>-thumb.webp
+      const key = variantOf
+        ? `${variantOf.key.replace(/\.[^./]+$/, "")}-${variantOf.variant}.${extension}`
+        : uniqueObjectKey(extension);
+      await blobs.put(key, { body, contentType });
+      return { key, url: blobs.url(key) };
+    },
+
+    async read(key) {
+      if (!key.startsWith(UPLOAD_KEY_PREFIX) || !isValidObjectKey(key)) return null;
+      return blobs.get(key);
+    },
+  };
+}
+
+export function createMemoryBlobStore(urlPrefix = "/api/media/"): BlobStore {
+  const objects = new Map<string, StoredObject>();
+
+  return {
+    urlPrefix,
+
+    async put(key, object) {
+      objects.set(key, { body: Buffer.from(object.body), contentType: object.contentType });
+    },
+
+    async get(key) {
+      const object = objects.get(key);
+      return object ? { body: Buffer.from(object.body), contentType: object.contentType } : null;
+    },
+
+    url: (key) => `${urlPrefix}${key}`,
+  };
+}
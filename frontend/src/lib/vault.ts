@@ -0,0 +1,431 @@
+import { createIdentityRegistry, parseIdentityRegistry, type IdentityRegistry, type ReporterIdentity } from "./identity";
+
+// Encrypted identity vault. The reporter secret is what claims rewards, so it
+// is never written to storage in the clear: it is sealed with AES-GCM under a
+// key derived from a user PIN (PBKDF2-SHA256) and kept in IndexedDB. Only
+// while unlocked does the decrypted identity live in memory; locking
+// (manually or after inactivity) drops it.
+//
+// The identity registry (which report indices were used, and on which
+// reports) is sealed under the same key: it links a device's reports to each
+// other. While unlocked the session keeps the derived key, not the PIN, so
+// the registry can be re-sealed as reports are made.
+//
+// A short PIN only slows down an attacker who copies the vault off the
+// device; it mainly protects against scripts and people reading storage.
+
+export interface VaultRecord {
+  version: 1;
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+/** What a sealed record holds */
+export type VaultEntry = "identity" | "registry";
+
+/** Where the sealed records live. IndexedDB in the browser, memory in tests and SSR. */
+export interface VaultStorage {
+  read(entry?: VaultEntry): Promise<VaultRecord | null>;
+  write(record: VaultRecord, entry?: VaultEntry): Promise<void>;
+  /** Remove every entry */
+  clear(): Promise<void>;
+}
+
+export const VAULT_PBKDF2_ITERATIONS = 600_000;
+export const VAULT_MIN_PIN_LENGTH = 6;
+/** Lock after this long without user activity */
+export const VAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+
+/** Where identities were kept before the vault; migrated on first load */
+export const LEGACY_IDENTITY_STORAGE_KEY = "roadguard_identity";
+/** Where the identity registry was kept before the vault; migrated on unlock */
+export const LEGACY_REGISTRY_STORAGE_KEY = "roadguard_identity_registry";
+
+// ---------------------------------------------------------------------------
+// Crypto
+// ---------------------------------------------------------------------------
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function deriveKey(pin: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** A PIN-derived key, with the salt and work factor it was derived with */
+interface VaultKey {
+  key: CryptoKey;
+  salt: string; // base64
+  iterations: number;
+}
+
+async function newVaultKey(pin: string, iterations: number): Promise<VaultKey> {
+  const salt = randomBytes(16);
+  return { key: await deriveKey(pin, salt, iterations), salt: toBase64(salt), iterations };
+}
+
+async function recordKey(record: VaultRecord, pin: string): Promise<VaultKey> {
+  const key = await deriveKey(pin, fromBase64(record.salt), record.iterations);
+  return { key, salt: record.salt, iterations: record.iterations };
+}
+
+async function sealWithKey(value: unknown, { key, salt, iterations }: VaultKey): Promise<VaultRecord> {
+  const iv = randomBytes(12);
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext));
+  return {
+    version: 1,
+    kdf: "PBKDF2-SHA256",
+    iterations,
+    salt,
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+  };
+}
+
+async function openWithKey<T>(record: VaultRecord, { key }: VaultKey): Promise<T> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext));
+  } catch {
+    throw new Error("Incorrect PIN");
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Encrypt any JSON value under a PIN, with a fresh salt and IV
+ */
+export async function sealValue(value: unknown, pin: string, iterations = VAULT_PBKDF2_ITERATIONS): Promise<VaultRecord> {
+  return sealWithKey(value, await newVaultKey(pin, iterations));
+}
+
+/**
+ * Decrypt a record sealed with `sealValue`. Throws "Incorrect PIN" when the
+ * PIN is wrong (or the record was tampered with; AES-GCM can't tell the two
+ * apart).
+ */
+export async function openValue<T>(record: VaultRecord, pin: string): Promise<T> {
+  return openWithKey<T>(record, await recordKey(record, pin));
+}
+
+/**
+ * Encrypt an identity under a PIN
+ */
+export function sealIdentity(
+  identity: ReporterIdentity,
+  pin: string,
+  iterations = VAULT_PBKDF2_ITERATIONS
+): Promise<VaultRecord> {
+  return sealValue(identity, pin, iterations);
+}
+
+export function openIdentity(record: VaultRecord, pin: string): Promise<ReporterIdentity> {
+  return openValue<ReporterIdentity>(record, pin);
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export function createMemoryVaultStorage(initial: VaultRecord | null = null): VaultStorage {
+  const records = new Map<VaultEntry, VaultRecord>(initial ? [["identity", initial]] : []);
+  return {
+    async read(entry = "identity") {
+      return records.get(entry) ?? null;
+    },
+    async write(record, entry = "identity") {
+      records.set(entry, record);
+    },
+    async clear() {
+      records.clear();
+    },
+  };
+}
+
+const IDB_NAME = "roadguard";
+const IDB_STORE = "vault";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function createIndexedDbVaultStorage(): VaultStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const req = indexedDB.open(IDB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+      database = request(req);
+    }
+    return database;
+  };
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+
+  return {
+    async read(entry = "identity") {
+      const record = await request((await objectStore("readonly")).get(entry));
+      return (record as VaultRecord | undefined) ?? null;
+    },
+    async write(record, entry = "identity") {
+      await request((await objectStore("readwrite")).put(record, entry));
+    },
+    async clear() {
+      await request((await objectStore("readwrite")).clear());
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Session
+// ---------------------------------------------------------------------------
+
+export type VaultStatus =
+  /** Not read from storage yet */
+  | "loading"
+  /** No identity on this device */
+  | "empty"
+  /** A plaintext identity from before the vault; needs a PIN to migrate */
+  | "legacy"
+  | "locked"
+  | "unlocked";
+
+export interface VaultState {
+  status: VaultStatus;
+  /** Only set while unlocked */
+  identity: ReporterIdentity | null;
+  /** Report indices used by the identity; only set while unlocked */
+  registry: IdentityRegistry | null;
+}
+
+type RegistryUpdate = (registry: IdentityRegistry) => IdentityRegistry;
+
+export interface VaultSessionOptions {
+  storage: VaultStorage;
+  autoLockMs?: number;
+  iterations?: number;
+  /** Plaintext identity and registry storage to migrate from (localStorage in the browser) */
+  legacy?: Pick<Storage, "getItem" | "removeItem"> | null;
+}
+
+/**
+ * Shared lock state for every component using the identity. Subscribers are
+ * notified on each change (useSyncExternalStore-compatible).
+ */
+export function createVaultSession(options: VaultSessionOptions) {
+  const { storage, autoLockMs = VAULT_AUTO_LOCK_MS, iterations = VAULT_PBKDF2_ITERATIONS, legacy = null } = options;
+
+  let state: VaultState = { status: "loading", identity: null, registry: null };
+  let legacyIdentity: ReporterIdentity | null = null;
+  // Derived from the PIN on unlock and dropped on lock
+  let vaultKey: VaultKey | null = null;
+  // Registry changes made while locked, applied on the next unlock
+  let pending: RegistryUpdate[] = [];
+  // Registry writes run in order, so the last one stored is the latest
+  let writing: Promise<void> = Promise.resolve();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let loading: Promise<VaultState> | null = null;
+  const listeners = new Set<() => void>();
+
+  const set = (next: VaultState) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const stopTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const lock = () => {
+    stopTimer();
+    vaultKey = null;
+    if (state.status === "unlocked") set({ status: "locked", identity: null, registry: null });
+  };
+
+  const touch = () => {
+    if (state.status !== "unlocked" || autoLockMs <= 0) return;
+    stopTimer();
+    timer = setTimeout(lock, autoLockMs);
+  };
+
+  const writeRegistry = (registry: IdentityRegistry, key: VaultKey) => {
+    const write = writing.then(async () => storage.write(await sealWithKey(registry, key), "registry"));
+    writing = write.catch(() => undefined);
+    return write;
+  };
+
+  const readLegacy = (): ReporterIdentity | null => {
+    try {
+      const stored = legacy?.getItem(LEGACY_IDENTITY_STORAGE_KEY);
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      return typeof parsed?.secret === "string" && typeof parsed?.commitment === "string" ? parsed : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const readLegacyRegistry = (commitment: ReporterIdentity["commitment"]): IdentityRegistry | null => {
+    try {
+      const stored = legacy?.getItem(LEGACY_REGISTRY_STORAGE_KEY);
+      return stored ? parseIdentityRegistry(JSON.parse(stored), commitment) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const openRegistry = async (key: VaultKey, commitment: ReporterIdentity["commitment"]) => {
+    const record = await storage.read("registry");
+    if (!record) return null;
+    try {
+      return parseIdentityRegistry(await openWithKey(record, key), commitment);
+    } catch {
+      // Sealed for an identity that was replaced before its registry was
+      return null;
+    }
+  };
+
+  const unlocked = async (identity: ReporterIdentity, key: VaultKey, sealed: IdentityRegistry | null) => {
+    const initial = sealed ?? readLegacyRegistry(identity.commitment) ?? createIdentityRegistry(identity.commitment);
+    const registry = pending.reduce((current, update) => update(current), initial);
+    if (!sealed || pending.length > 0) await writeRegistry(registry, key);
+    pending = [];
+    // Only drop the plaintext copy once the sealed one is stored
+    legacy?.removeItem(LEGACY_REGISTRY_STORAGE_KEY);
+
+    vaultKey = key;
+    set({ status: "unlocked", identity, registry });
+    touch();
+    return identity;
+  };
+
+  const create = async (identity: ReporterIdentity, pin: string, registry: IdentityRegistry | null = null) => {
+    if (pin.length < VAULT_MIN_PIN_LENGTH) throw new Error(`PIN must be at least ${VAULT_MIN_PIN_LENGTH} characters`);
+    const key = await newVaultKey(pin, iterations);
+    await storage.write(await sealWithKey(identity, key));
+    // Only drop the plaintext copy once the sealed one is stored
+    legacy?.removeItem(LEGACY_IDENTITY_STORAGE_KEY);
+    legacyIdentity = null;
+    pending = [];
+    return unlocked(identity, key, registry);
+  };
+
+  const load = async (): Promise<VaultState> => {
+    if (state.status !== "loading") return state;
+    if (await storage.read()) {
+      set({ status: "locked", identity: null, registry: null });
+    } else {
+      legacyIdentity = readLegacy();
+      set({ status: legacyIdentity ? "legacy" : "empty", identity: null, registry: null });
+    }
+    return state;
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /** Read storage once; later calls return the current state */
+    load() {
+      loading ??= load();
+      return loading;
+    },
+
+    /**
+     * Replace whatever is stored with a new identity under a new PIN. Without
+     * a registry, a plaintext one for the same identity is migrated.
+     */
+    create,
+
+    /** Seal the plaintext identity found on first load under a new PIN */
+    async migrate(pin: string) {
+      if (!legacyIdentity) throw new Error("No identity to migrate");
+      return create(legacyIdentity, pin);
+    },
+
+    async unlock(pin: string) {
+      const record = await storage.read();
+      if (!record) throw new Error("No identity on this device");
+      const key = await recordKey(record, pin);
+      const identity = await openWithKey<ReporterIdentity>(record, key);
+      return unlocked(identity, key, await openRegistry(key, identity.commitment));
+    },
+
+    lock,
+
+    /** Reset the inactivity timer */
+    touch,
+
+    /**
+     * Change the registry and re-seal it. While locked the change is held in
+     * memory until the next unlock (a report can land after the auto-lock),
+     * and null is returned.
+     */
+    async updateRegistry(update: RegistryUpdate): Promise<IdentityRegistry | null> {
+      if (state.status !== "unlocked" || !state.registry || !vaultKey) {
+        pending.push(update);
+        return null;
+      }
+      const registry = update(state.registry);
+      set({ ...state, registry });
+      await writeRegistry(registry, vaultKey);
+      return registry;
+    },
+
+    async clear() {
+      stopTimer();
+      vaultKey = null;
+      pending = [];
+      legacyIdentity = null;
+      await storage.clear();
+      legacy?.removeItem(LEGACY_IDENTITY_STORAGE_KEY);
+      legacy?.removeItem(LEGACY_REGISTRY_STORAGE_KEY);
+      set({ status: "empty", identity: null, registry: null });
+    },
+  };
+}
+
+export type VaultSession = ReturnType<typeof createVaultSession>;
+
+let session: VaultSession | null = null;
+
+/**
+ * The browser's vault session: IndexedDB when available, memory otherwise
+ */
+export function getVaultSession(): VaultSession {
+  if (!session) {
+    const browser = typeof window !== "undefined";
+    session = createVaultSession({
+      storage: browser && typeof indexedDB !== "undefined" ? createIndexedDbVaultStorage() : createMemoryVaultStorage(),
+      legacy: browser ? window.localStorage : null,
+    });
+  }
+  return session;
+}
@@ -42,6 +42,9 @@ export const ROADGUARD_ADDRESS = {
   [mantle.id]: "0x23a95d01af99F06c446522765E6F3E604865D58a" as `0x${string}`,
 } as const;
 
+// First block to search for reports when restoring an identity (the deployment block)
+export const ROADGUARD_DEPLOY_BLOCK = BigInt(process.env.NEXT_PUBLIC_ROADGUARD_DEPLOY_BLOCK || "0");
+
 // Minimum stake: 0.001 MNT
 export const MIN_STAKE = BigInt("1000000000000000");
 